@@ -6,9 +6,29 @@ import express from "express";
 import cors from "cors";
 import type { CorsOptions } from "cors";
 import multer from "multer";
-import { VertexAI } from "@google-cloud/vertexai";
-import { GoogleGenAI } from "@google/genai";
-import { buildRollingSummary } from "./services/contextManager";
+import { getTokenCalibration } from "./services/tokenCounter";
+import { generateWithTools, toolsEnabled } from "./services/toolCallingService";
+import type { ToolExecution } from "./services/toolRegistry";
+import { generateStructured } from "./services/structuredOutputService";
+import { getStreamSessionService, formatSSE, parseEventId } from "./services/streamSessionService";
+import type { ResumeResult } from "./services/streamSessionService";
+import {
+  acquireChatLock,
+  releaseChatLock,
+  prepareChatTurn,
+  refundChatTurn,
+  streamChatTurn,
+  storeChatTurn,
+  responseCacheTtl,
+  toMemoryScope,
+  ChatTurnError,
+  CHAT_BUSY_ERROR,
+} from "./services/chatPipeline";
+import type { ChatLock } from "./services/chatPipeline";
+import { getChatSocketService } from "./services/chatSocketService";
+import { getIntentAnalytics } from "./services/intentService";
+import { persistImageTurn } from "./services/imageTurnService";
+import type { JSONSchema } from "./services/jsonSchema";
 import {
   getEmbeddingService,
   MemoryItem,
@@ -17,10 +37,9 @@ import {
 import { getHybridMemoryService } from "./services/hybridMemoryService";
 import { extractDocumentTopics, getConversationService } from "./services/conversationService";
 import * as userProfileService from "./services/userProfileService";
-import { firebaseStorageService } from "./services/firebaseStorageService";
 import { localImageCacheService } from "./services/localImageCacheService";
-import { extractTextFromDocument } from "./services/documentExtractionService";
-import { storeDocument, searchChunks } from "./services/documentCacheService";
+import { extractTextFromDocument, countDocumentPages } from "./services/documentExtractionService";
+import { storeDocument } from "./services/documentCacheService";
 import {
   rateLimitMiddleware,
   validateUserIdMiddleware,
@@ -29,54 +48,48 @@ import {
   SecurityValidator,
   logSecurityEvent,
 } from "./services/securityMiddleware";
+import {
+  authMiddleware,
+  bindAuthenticatedUser,
+  userIdParamHandler,
+  requireAdmin,
+  requireSession,
+  hasScope,
+} from "./services/authMiddleware";
+import { ApiKeyLimitError, getApiKeyService } from "./services/apiKeyService";
+import { apiRoutes } from "./services/apiSchemas";
+import type { ApiBody, ApiQuery } from "./services/apiSchemas";
+import { validateRequest } from "./services/requestValidation";
+import { getOpenApiDocument } from "./services/openApiService";
+import {
+  completionChunk,
+  completionResponse,
+  DEFAULT_MODEL_ALIAS,
+  imageToMarkdown,
+  newCompletionId,
+  OpenAIError,
+  parseChatCompletionRequest,
+  toOpenAIUsage,
+} from "./services/openAICompatService";
+import type { UsageRecord } from "./services/usageLedgerService";
 import { firestoreChatService } from "./services/firestoreChatService";
+import { setActiveBranch } from "./services/chatBranchService";
+import { forkChat } from "./services/chatForkService";
+import { exportChats } from "./services/chatExportService";
+import { ChatImportError, getChatImportService } from "./services/chatImportService";
+import { searchChats } from "./services/chatSearchService";
+import { refreshChatTitle } from "./services/chatTitleService";
+import { ChatShareTooLargeError, getChatShareService } from "./services/chatShareService";
 import { getJobQueue } from "./services/jobQueue";
 import { getResponseCacheService } from "./services/responseCacheService";
-
-// Import performance optimizations with error handling
-let profileCache: any;
-let recentContextCache: any;
-let needsMemorySearch: any;
-let determineMemoryStrategy: any;
-let preloadMemoryForNextQuery: any;
-let getPerformanceStats: any;
-
-try {
-  const perfOptimizations = require("./services/performanceOptimizations");
-  profileCache = perfOptimizations.profileCache;
-  recentContextCache = perfOptimizations.recentContextCache;
-  needsMemorySearch = perfOptimizations.needsMemorySearch;
-  determineMemoryStrategy = perfOptimizations.determineMemoryStrategy;
-  preloadMemoryForNextQuery = perfOptimizations.preloadMemoryForNextQuery;
-  getPerformanceStats = perfOptimizations.getPerformanceStats;
-  console.log("✅ Performance optimizations loaded successfully");
-} catch (error) {
-  console.error(
-    "❌ CRITICAL: Failed to load performance optimizations:",
-    error
-  );
-  console.error("Stack:", (error as Error).stack);
-  // Provide fallbacks
-  profileCache = {
-    get: () => undefined,
-    set: () => {},
-    clear: () => {},
-    getStats: () => ({}),
-  };
-  recentContextCache = {
-    get: () => undefined,
-    set: () => {},
-    clear: () => {},
-    getStats: () => ({}),
-  };
-  needsMemorySearch = () => true;
-  determineMemoryStrategy = () => "profile-only";
-  preloadMemoryForNextQuery = async () => {};
-  getPerformanceStats = () => ({});
-  console.log(
-    "⚠️ Using fallback implementations for performance optimizations"
-  );
-}
+import { getPerformanceStats } from "./services/performanceOptimizations";
+import { getUsageLedgerService, parseUsageRange } from "./services/usageLedgerService";
+import { getEntitlementService, EntitlementError, base64ByteLength } from "./services/entitlementService";
+import {
+  getModelProviderRegistry,
+  GenerateRequest,
+  GenResult,
+} from "./services/modelProviderService";
 
 const app = express();
 const port = Number(process.env.PORT ?? 8000);
@@ -89,6 +102,14 @@ const upload = multer({
   },
 });
 
+// Conversation archives (ChatGPT / Claude exports) run far larger than images
+const archiveUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: Number(process.env.MAX_IMPORT_UPLOAD_MB || 100) * 1024 * 1024,
+  },
+});
+
 // Helper function to check if origin is localhost or private LAN
 function isAllowedOrigin(origin: string): boolean {
   try {
@@ -143,7 +164,8 @@ const corsOptions: CorsOptions = {
     }
   },
   methods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
-  allowedHeaders: ["Content-Type", "Authorization"],
+  allowedHeaders: ["Content-Type", "Authorization", "Last-Event-ID", "X-User-Id", "X-API-Key"],
+  exposedHeaders: ["Content-Disposition"], // Export file names
   credentials: true,
   optionsSuccessStatus: 204,
 };
@@ -167,215 +189,61 @@ app.use((req, res, next) => {
 });
 app.use(express.urlencoded({ limit: "50mb", extended: true }));
 
-// Initialize Vertex AI client (preferred for scalability)
-let vertex: VertexAI | undefined;
-try {
-  const projectId =
-    process.env.GOOGLE_CLOUD_PROJECT ||
-    process.env.GCLOUD_PROJECT ||
-    process.env.GCP_PROJECT;
-  const location =
-    process.env.VERTEX_LOCATION ||
-    process.env.GOOGLE_CLOUD_REGION ||
-    process.env.GOOGLE_CLOUD_LOCATION ||
-    "us-central1";
-
-  if (projectId) {
-    vertex = new VertexAI({ project: projectId, location });
-    console.log(
-      `Vertex AI client initialized. project=${projectId}, location=${location}`
-    );
-  } else {
-    console.warn(
-      "GOOGLE_CLOUD_PROJECT not set; Vertex AI client not initialized. Set GOOGLE_CLOUD_PROJECT and GOOGLE_APPLICATION_CREDENTIALS to use Vertex AI."
-    );
-  }
-} catch (err) {
-  console.error("Failed to initialize Vertex AI client:", err);
-}
-
-// Initialize Google AI Studio client as a fallback (optional)
-let ai: GoogleGenAI | undefined;
-try {
-  if (process.env.GEMINI_API_KEY) {
-    ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
-    console.log("GoogleGenAI client initialized (fallback).");
-  } else {
-    console.warn("GEMINI_API_KEY not set; Google client disabled.");
-  }
-} catch (err) {
-  console.error("Failed to initialize GoogleGenAI client:", err);
-}
-
-// Unified generation helper using Vertex first, then Google as fallback
-type GenResult = { parts: any[]; raw: any; usage?: any };
-async function generateContent(args: {
-  model: string;
-  contents: any[];
-}): Promise<GenResult> {
-  const { model, contents } = args;
-  // Try Vertex first
-  if (vertex) {
-    try {
-      const gm = vertex.getGenerativeModel({ model });
-      // Normalize contents to Vertex format
-      let vContents: any[];
-      if (typeof contents[0] === "string") {
-        vContents = [
-          {
-            role: "user",
-            parts: contents.map((t) => ({ text: String(t) })),
-          },
-        ];
-      } else if (
-        contents[0] &&
-        typeof contents[0] === "object" &&
-        "parts" in contents[0]
-      ) {
-        vContents = [
-          {
-            role: "user",
-            parts: (contents[0] as any).parts,
-          },
-        ];
-      } else {
-        vContents = contents as any[];
-      }
-      const resp: any = await gm.generateContent({ contents: vContents });
-      const parts: any[] =
-        resp?.response?.candidates?.[0]?.content?.parts ?? [];
-      const usage = resp?.response?.usageMetadata;
-      return { parts, raw: resp, usage };
-    } catch (err: any) {
-      // Suppress verbose permission errors (fallback will handle)
-      if (err?.code === 403 || err?.stackTrace?.code === 403) {
-        console.warn(`⚠️ Vertex AI permission denied (${model}) - using Google AI Studio fallback`);
-      } else {
-        console.warn("Vertex generateContent failed, will try Google fallback:", err);
-      }
-    }
-  }
+// 🔐 Every /api route (except the health check) needs a Firebase ID token; the caller
+// is req.auth and any userId in the body, query or path must be theirs
+app.use("/api", authMiddleware);
+app.use("/v1", authMiddleware); // OpenAI-compatible routes - SDKs send the API key as a bearer token
+app.param("userId", userIdParamHandler);
 
-  // Fallback: Google AI Studio client
-  if (ai) {
-    const resp: any = await (ai as any).models.generateContent({
-      model,
-      contents,
-    });
-    const parts: any[] = resp?.candidates?.[0]?.content?.parts ?? [];
-    const usage = resp?.usageMetadata;
-    return { parts, raw: resp, usage };
-  }
+// Model providers (Vertex AI, Google AI Studio, ...) live behind a registry that
+// handles capability matching, fallback order, weights and health tracking
+const modelProviders = getModelProviderRegistry();
 
-  throw new Error("No AI client initialized");
+// Unified generation helper - the registry picks the provider and falls back on failure
+async function generateContent(args: GenerateRequest): Promise<GenResult> {
+  return modelProviders.generateContent(args);
 }
 
 /**
- * Generate content with streaming support (Server-Sent Events)
- * Returns an async generator that yields text chunks as they arrive
+ * Answer a request the user's plan refuses: 402, or 429 with Retry-After until the quota resets
  */
-async function* generateContentStream(args: {
-  model: string;
-  contents: any[];
-}): AsyncGenerator<string, void, unknown> {
-  const { model, contents } = args;
-  
-  // Try Vertex first (preferred for streaming)
-  if (vertex) {
-    try {
-      const gm = vertex.getGenerativeModel({ model });
-      
-      // Normalize contents to Vertex format
-      let vContents: any[];
-      if (typeof contents[0] === "string") {
-        vContents = [
-          {
-            role: "user",
-            parts: contents.map((t) => ({ text: String(t) })),
-          },
-        ];
-      } else if (
-        contents[0] &&
-        typeof contents[0] === "object" &&
-        "parts" in contents[0]
-      ) {
-        vContents = [
-          {
-            role: "user",
-            parts: (contents[0] as any).parts,
-          },
-        ];
-      } else {
-        vContents = contents as any[];
-      }
-      
-      // Use generateContentStream for real-time chunks
-      const streamResult = await gm.generateContentStream({ contents: vContents });
-      
-      // Yield each chunk as it arrives
-      for await (const chunk of streamResult.stream) {
-        const chunkText = chunk.candidates?.[0]?.content?.parts?.[0]?.text || "";
-        if (chunkText) {
-          yield chunkText;
-        }
-      }
-      
-      return;
-    } catch (err) {
-      console.warn(
-        "Vertex streaming failed, falling back to non-streaming:",
-        err
-      );
-    }
-  }
-
-  // Fallback: Google AI Studio doesn't support streaming well, so use regular generation
-  if (ai) {
-    const resp: any = await (ai as any).models.generateContent({
-      model,
-      contents,
-    });
-    const parts: any[] = resp?.candidates?.[0]?.content?.parts ?? [];
-    const fullText = parts.map((p: any) => p.text ?? "").join("");
-    
-    // Simulate streaming by yielding in chunks for consistent UX
-    const chunkSize = 50;
-    for (let i = 0; i < fullText.length; i += chunkSize) {
-      yield fullText.substring(i, i + chunkSize);
-      // Small delay to simulate streaming
-      await new Promise(resolve => setTimeout(resolve, 10));
-    }
-    
-    return;
+function sendEntitlementError(res: express.Response, err: EntitlementError) {
+  if (err.details.resetsAt) {
+    const seconds = Math.ceil((Date.parse(err.details.resetsAt) - Date.now()) / 1000);
+    res.setHeader("Retry-After", String(Math.max(1, seconds)));
   }
-
-  throw new Error("No AI client initialized");
+  return res.status(err.status).json(err.toResponse());
 }
 
-// In-flight request locks per user/chat to prevent concurrent generations
-const inFlightChatRequests: Map<string, NodeJS.Timeout> = new Map();
-
-// 🎯 Intent Caching - Module-level cache for classification results
-const intentCache = new Map<
-  string,
-  {
-    intent: "imageEdit" | "visionQA" | "imageGenerate" | "text";
-    confidence: number;
-    timestamp: number;
+/**
+ * Attach an SSE response to a stream session: replay what it missed after
+ * `afterSeq`, then forward live frames until the stream completes
+ */
+function attachStreamClient(res: express.Response, streamId: string, afterSeq: number): ResumeResult {
+  const subscription = getStreamSessionService().subscribe(streamId, afterSeq, {
+    onEvent: (event) => res.write(formatSSE(event)),
+    onEnd: () => res.end(),
+  });
+  if (!subscription.ok) return subscription;
+
+  for (const event of subscription.missed) res.write(formatSSE(event));
+  if (subscription.done) {
+    res.end();
+    return subscription;
   }
->();
-
-const INTENT_CACHE_TTL = parseInt(process.env.INTENT_CACHE_TTL || "60000"); // 1 minute default
-let cacheHits = 0;
-let cacheMisses = 0;
-
-// 📊 Intent Analytics - Track which intents users request
-const intentAnalytics = new Map<string, number>();
-const classificationTimes: number[] = [];
+  res.on("close", () => {
+    if (!res.writableEnded) console.log(`🔌 Client detached from stream ${streamId}`);
+    subscription.unsubscribe();
+  });
+  return subscription;
+}
 
 // Home / health
 app.get("/api", (req, res) => res.json({ ok: true }));
 
+// 📜 Machine-readable description of every route (services/apiSchemas.ts)
+app.get("/api/openapi.json", (req, res) => res.json(getOpenApiDocument()));
+
 // Global error handlers to prevent server crashes
 process.on("uncaughtException", (error) => {
   console.error("❌ UNCAUGHT EXCEPTION:", error);
@@ -391,2363 +259,625 @@ process.on("unhandledRejection", (reason, promise) => {
 
 /**
  * POST /api/ask-ai
- * body: { prompt: string, type?: 'text' | 'image', model?: string, useMemory?: boolean, userId?: string }
+ * body: { prompt: string, type?: 'text' | 'image', model?: string, memory?: boolean, userId?: string } (apiRoutes.askAi)
  * OR multipart/form-data: { prompt, image (file), type, userId, ... }
  * 🔒 SECURITY: Rate limited, input validated
+ * 💳 PLAN: counts against the daily message quota (and image quota for images); 402/429 when refused
  */
 app.post(
   "/api/ask-ai",
   express.json(),
   upload.single("image"),
+  bindAuthenticatedUser, // multipart fields are only parsed now
   rateLimitMiddleware("general"),
+  validateRequest(apiRoutes.askAi),
   async (req, res) => {
-    if (!vertex && !ai)
+    if (!modelProviders.hasProviders())
       return res.status(500).json({ error: "AI client not initialized" });
 
+    let chatLock: ChatLock | null = null;
     try {
       console.log("📥 Request received at /api/ask-ai");
 
-      // Handle both multipart (with image file) and JSON requests
-      let prompt,
+      // Multipart (with image file) and JSON bodies arrive parsed by validateRequest
+      const {
+        prompt,
         chatId,
         userId,
         model,
-        temperature,
-        max_tokens,
         memory,
         documentId,
         conversationHistory,
         conversationSummary,
         messageCount,
         userName,
-        type,
-        imageBase64;
+        imageId,
+        tools,
+        memoryFolder,
+        memoryTag,
+        type: requestedType,
+      } = req.body as ApiBody<"askAi">;
+      let type = requestedType;
+      let imageBase64: string | undefined;
 
       if (req.file) {
-        // Multipart request with image file
         console.log("🖼️ Multipart request with image file");
         imageBase64 = req.file.buffer.toString("base64");
-        prompt = req.body.prompt;
-        chatId = req.body.chatId;
-        userId = req.body.userId;
-        model = req.body.model;
-        temperature = req.body.temperature;
-        max_tokens = req.body.max_tokens;
-        memory = req.body.memory;
-        documentId = req.body.documentId;
-        messageCount = req.body.messageCount;
-        userName = req.body.userName;
         // Default to text/vision analysis when an image file is uploaded
         // (image generation is only triggered explicitly or when no image is uploaded)
-        type = req.body.type || "text";
-        // Note: conversationHistory and conversationSummary are typically not sent with images
-      } else {
-        // JSON request
-        ({
-          prompt,
-          chatId,
-          userId,
-          model,
-          temperature,
-          max_tokens,
-          memory,
-          documentId,
-          conversationHistory,
-          conversationSummary,
-          messageCount,
-          userName,
-          type,
-        } = req.body);
+        type = type || "text";
       }
 
       const useMemory = memory !== false; // Default to true if not specified
 
-      // Normalize type to handle typos like "iamge", synonyms like "img", etc.
-      const normalizedType = normalizeRequestType(type);
-
-      if (!prompt) {
-        return res.status(400).json({ error: "Prompt is required" });
-      }
-
       // � Concurrency guard per user/chat
-      const keyUser = userId || "anonymous";
-      const keyChat = chatId || "global";
-      const inFlightKey = `${keyUser}:${keyChat}`;
-      if (inFlightChatRequests.has(inFlightKey)) {
+      chatLock = acquireChatLock(userId, chatId);
+      if (!chatLock) {
         return res.status(409).json({
           success: false,
           error:
             "Another request is already processing for this chat. Please wait for it to finish.",
         });
       }
-      // Set a TTL to avoid stale locks (e.g., 2 minutes)
-      const ttl = setTimeout(
-        () => {
-          inFlightChatRequests.delete(inFlightKey);
-          console.warn(`⏱️ Cleared stale lock for ${inFlightKey}`);
-        },
-        2 * 60 * 1000
+
+      const effectiveUserId = req.auth!.uid;
+      const effectiveChatId = chatId; // 🎯 NEW! Get chatId from request
+      const effectiveMessageCount =
+        messageCount !== undefined ? messageCount : undefined; // 🎯 NEW! Track message count
+
+      console.log(
+        `💬 Chat request - User: ${effectiveUserId}, Chat: ${effectiveChatId || "none"}, Message#: ${effectiveMessageCount !== undefined ? effectiveMessageCount + 1 : "?"}, History: ${conversationHistory?.length || 0} msgs, Memory: ${useMemory}, Prompt: "${prompt.substring(0, 50)}..."`
       );
-      inFlightChatRequests.set(inFlightKey, ttl);
 
-      // �🔒 Validate prompt
-      const promptValidation = SecurityValidator.validatePrompt(prompt);
-      if (!promptValidation.valid) {
-        logSecurityEvent("Invalid prompt blocked", {
-          userId,
-          error: promptValidation.error,
+      // 🧭 Shared with /api/ask-ai-stream: cache, intent routing, memory, documents, prompt
+      const startTime = Date.now();
+      const turnRequest = {
+        prompt,
+        userId: effectiveUserId,
+        chatId: effectiveChatId,
+        userName,
+        messageCount: effectiveMessageCount,
+        conversationHistory,
+        conversationSummary,
+        useMemory,
+        memoryScope: toMemoryScope(memoryFolder, memoryTag),
+        useTools: tools !== false,
+        documentId,
+        type,
+        model,
+        imageBase64,
+        imageId,
+        route: "ask-ai",
+        allowImageOutput: hasScope(req.auth, "images"),
+      };
+      const turn = await prepareChatTurn(turnRequest);
+
+      // 💾 RESPONSE CACHE hit
+      if (turn.kind === "cached") {
+        const cacheStats = getResponseCacheService().getStats();
+        return res.json({
+          success: true,
+          text: turn.text,
+          cached: true,
+          metadata: {
+            tokens: 0,
+            duration: 0,
+            cacheHitRate: cacheStats.hitRate,
+            instant: true,
+          },
         });
-        return res.status(400).json({ error: promptValidation.error });
       }
 
-      // 🔒 Validate userId if provided
-      if (userId) {
-        const userIdValidation = SecurityValidator.validateUserId(userId);
-        if (!userIdValidation.valid) {
-          logSecurityEvent("Invalid userId blocked", {
-            userId,
-            error: userIdValidation.error,
-          });
-          return res.status(400).json({ error: userIdValidation.error });
-        }
+      // 🎨 Image edited or generated - answer now, upload and record it in the background
+      if (turn.kind === "image") {
+        const { response, ...image } = turn.image;
+        res.json({
+          success: true,
+          isImageGeneration: true,
+          text: image.text,
+          imageBase64: image.imageBase64,
+          imageUri: image.imageUri,
+          imageLocalUri: image.imageLocalUri,
+          ...(image.kind === "generate" ? { altText: image.altText } : {}),
+          raw: response,
+          metadata: {
+            tokens: (response as any)?.usage?.totalTokenCount || 0,
+            candidatesTokenCount:
+              (response as any)?.usage?.candidatesTokenCount || 0,
+            promptTokenCount: (response as any)?.usage?.promptTokenCount || 0,
+            provider: (response as any)?.provider,
+          },
+        });
+        persistImageTurn({
+          userId: effectiveUserId,
+          chatId: effectiveChatId,
+          prompt,
+          result: turn.image,
+          useMemory,
+        });
+        return;
       }
 
-      // 🔒 Validate chatId if provided
-      if (chatId) {
-        const chatIdValidation = SecurityValidator.validateChatId(chatId);
-        if (!chatIdValidation.valid) {
-          logSecurityEvent("Invalid chatId blocked", {
-            userId,
-            chatId,
-            error: chatIdValidation.error,
+      // Normal text / vision / document response
+      const { chatContext } = turn;
+      // 🔧 Tool loop: the model may call calculator / date / memory / document tools first
+      const toolRequest = {
+        model: turn.model,
+        contents: chatContext.contents,
+        systemInstruction: chatContext.systemInstruction,
+        meter: turn.meter,
+      };
+      let response;
+      let toolCalls: ToolExecution[] = [];
+      try {
+        if (turnRequest.useTools && toolsEnabled()) {
+          const toolResult = await generateWithTools(toolRequest, {
+            context: {
+              userId: effectiveUserId,
+              chatId: effectiveChatId,
+              messageCount: effectiveMessageCount,
+              documentId,
+              memoryScope: turnRequest.memoryScope,
+            },
           });
-          return res.status(400).json({ error: chatIdValidation.error });
+          toolCalls = toolResult.toolCalls;
+          response = toolResult;
+        } else {
+          response = await generateContent(toolRequest);
         }
+      } catch (err) {
+        await refundChatTurn(effectiveUserId);
+        throw err;
       }
 
-      // For testing purposes, use anoop123 if no userId provided
-      const effectiveUserId = userId || "anoop123";
-      const effectiveChatId = chatId; // 🎯 NEW! Get chatId from request
-      const effectiveMessageCount =
-        messageCount !== undefined ? messageCount : undefined; // 🎯 NEW! Track message count
-
-      // 🎯 AUTO-CREATE PROFILE: If user doesn't have a profile yet, create one with their name
-      if (effectiveUserId && userName) {
-        const existingProfile =
-          userProfileService.getUserProfile(effectiveUserId);
-        if (!existingProfile) {
-          userProfileService.upsertUserProfile(effectiveUserId, {
-            name: userName,
-          });
-          console.log(
-            `✅ Auto-created profile for ${effectiveUserId} (name: ${userName})`
-          );
-        }
-      }
+      const duration = (Date.now() - startTime) / 1000; // Convert to seconds
+      const parts = (response as any)?.parts ?? [];
+      const text = parts.map((p: any) => p.text ?? "").join("");
 
       console.log(
-        `💬 Chat request - User: ${effectiveUserId}, Chat: ${effectiveChatId || "none"}, Message#: ${effectiveMessageCount !== undefined ? effectiveMessageCount + 1 : "?"}, History: ${conversationHistory?.length || 0} msgs, Memory: ${useMemory}, Prompt: "${prompt.substring(0, 50)}..."`
+        `✅ AI response generated (${text.length} chars) in ${duration.toFixed(2)}s - sending to user immediately...`
       );
 
       // ═══════════════════════════════════════════════════════════════════════
-      // 💾 RESPONSE CACHE: Check if we have a cached response
-      // Skip cache for image requests and document-based queries
+      // 💾 CACHE RESPONSE: Store successful text responses for future reuse
       // ═══════════════════════════════════════════════════════════════════════
-      const cacheService = getResponseCacheService();
-      if (normalizedType === "text" && !imageBase64 && !documentId) {
-        const cachedResponse = cacheService.get(prompt, effectiveUserId);
-        if (cachedResponse) {
-          const cacheStats = cacheService.getStats();
-          return res.json({
-            success: true,
-            text: cachedResponse,
-            cached: true,
-            metadata: {
-              tokens: 0,
-              duration: 0,
-              cacheHitRate: cacheStats.hitRate,
-              instant: true,
-            },
-          });
-        }
+      // Tool results (dates, lookups) go stale, so those answers aren't cached
+      if (turn.cacheable && text && toolCalls.length === 0) {
+        getResponseCacheService().set(prompt, effectiveUserId, text, responseCacheTtl(prompt));
       }
 
-      let enhancedPrompt = prompt;
-
-      // Smart memory search decision - determine search depth based on query complexity
-      const determineSearchStrategy = (
-        query: string,
-        messageCount: number
-      ): "full" | "profile-only" | "skip" => {
-        const queryLower = query.toLowerCase().trim();
-
-        // 1. For greetings, use profile-only (so AI can greet by name!)
-        const greetingPatterns = [
-          /^(hi|hello|hey|sup|yo|greetings|morning|afternoon|evening)$/i,
-          /^(hi|hello|hey|sup|yo|greetings|morning|afternoon|evening)\s/i, // With extra text
-        ];
-        if (greetingPatterns.some((pattern) => pattern.test(queryLower))) {
-          // Use profile for first few messages (greeting) - messageCount can be 0, 1, or 2
-          if (messageCount <= 2) {
-            return "profile-only";
-          }
-          // Skip for subsequent greetings
-          return "skip";
-        }
-
-        // 2. Skip simple acknowledgments
-        const skipPatterns = [
-          /^(thanks|thank you|thx|ty)$/i,
-          /^(yes|no|yep|nope|yeah|nah)$/i,
-        ];
-        if (skipPatterns.some((pattern) => pattern.test(queryLower))) {
-          return "skip";
-        }
-
-        // 3. ALWAYS do full search if user explicitly references memory/past
-        const memoryKeywords = [
-          "remember",
-          "recall",
-          "earlier",
-          "before",
-          "previous",
-          "last time",
-          "we discussed",
-          "you said",
-          "you told",
-          "conversation",
-          "history",
-          "ago",
-          "yesterday",
-        ];
-        if (memoryKeywords.some((kw) => queryLower.includes(kw))) {
-          return "full";
-        }
-
-        // 4. For short personal questions (name, preferences, etc), use profile only
-        const personalKeywords = [
-          "my name",
-          "who am i",
-          "what's my",
-          "whats my",
-          "do you know me",
-          "about me",
-          "i work",
-          "i like",
-          "my preference",
-          "my favorite",
-          "my role",
-        ];
-        if (
-          query.length < 30 &&
-          personalKeywords.some((kw) => queryLower.includes(kw))
-        ) {
-          return "profile-only";
-        }
-
-        // 5. For longer queries or complex questions, do full search
-        if (query.length >= 30) {
-          return "full";
-        }
-
-        // 6. Medium queries - use profile only (lightweight)
-        return "profile-only";
+      // ═══════════════════════════════════════════════════════════════════════
+      // 🚀 CRITICAL: Send response to user FIRST (don't make them wait!)
+      // ═══════════════════════════════════════════════════════════════════════
+      const jsonResponse = {
+        success: true,
+        text,
+        raw: response,
+        metadata: {
+          tokens: (response as any)?.usage?.totalTokenCount || 0,
+          candidatesTokenCount:
+            (response as any)?.usage?.candidatesTokenCount || 0,
+          promptTokenCount: (response as any)?.usage?.promptTokenCount || 0,
+          duration: parseFloat(duration.toFixed(2)),
+          provider: (response as any)?.provider,
+          context: chatContext.report, // What made it into the token budget and what was cut
+          ...(toolCalls.length > 0 ? { toolCalls } : {}),
+        },
       };
+      res.json(jsonResponse);
+      console.log(`📤 Response sent to user!`);
 
-      // Use memory system based on search strategy
-      if (useMemory && normalizedType === "text") {
-        // ⚡ OPTIMIZATION: Use smart strategy determination
-        const memoryStrategy = determineMemoryStrategy(
-          prompt,
-          effectiveMessageCount || 0
-        );
-        console.log(`🎯 Memory strategy selected: ${memoryStrategy}`);
-
-        let strategy: "full" | "profile-only" | "skip" = "profile-only";
-
-        if (memoryStrategy === "none") {
-          strategy = "skip";
-        } else if (memoryStrategy === "search") {
-          strategy = "full";
-        } else if (memoryStrategy === "cache" && effectiveChatId) {
-          // Try to use cached context first
-          const cachedTurns = recentContextCache.get(
-            effectiveUserId,
-            effectiveChatId
-          );
-          if (
-            cachedTurns &&
-            Array.isArray(cachedTurns) &&
-            cachedTurns.length > 0
-          ) {
-            console.log(
-              `⚡ Using cached context (${cachedTurns.length} turns) - instant retrieval!`
-            );
-            // Build prompt from cached turns
-            const contextText = cachedTurns
-              .map(
-                (turn: any) =>
-                  `User: ${turn.userMessage}\nAssistant: ${turn.aiResponse}`
-              )
-              .join("\n\n");
+      // 💾 LIGHTWEIGHT: Store in local memory only (no Pinecone, super fast!)
+      if (useMemory && text && effectiveUserId) {
+        storeChatTurn(effectiveUserId, prompt, text, effectiveChatId);
+      }
 
-            enhancedPrompt = `SYSTEM: You are NubiqAI ✨
+      // Return is not needed as response already sent
+      return;
+    } catch (err: any) {
+      if (err instanceof EntitlementError) return sendEntitlementError(res, err);
+      if (err instanceof ChatTurnError) {
+        return res.status(err.status).json({ success: false, error: err.message });
+      }
+      console.error("❌ FATAL ERROR in /api/ask-ai:", err);
+      console.error("❌ Error stack:", err?.stack);
+      console.error("❌ Error name:", err?.name);
+      console.error("❌ Error message:", err?.message);
 
-RECENT CONVERSATION:
-${contextText}
+      // Don't let the server crash - always return a response
+      if (!res.headersSent) {
+        return res.status(500).json({
+          success: false,
+          error: err?.message ?? String(err),
+          details:
+            process.env.NODE_ENV === "development" ? err?.stack : undefined,
+        });
+      }
+    } finally {
+      releaseChatLock(chatLock);
+    }
+  }
+);
 
-USER QUESTION:
-${prompt}
+/**
+ * POST /api/ask-ai-stream
+ * Streaming version using Server-Sent Events (SSE)
+ * body: { prompt: string, userId?: string, chatId?: string, memory?: boolean, resumable?: boolean, type?, documentId?, imageId?, ... } (apiRoutes.askAiStream)
+ * Accepts the same multipart image upload as /api/ask-ai. Image edits and generations arrive as one `image` frame.
+ * Frames carry `id: <streamId>:<seq>`; resume a dropped stream with GET /api/ask-ai-stream/:streamId
+ * Plan refusals arrive as an `error` frame with `code` ("plan_required" / "quota_exceeded")
+ * 🔒 SECURITY: Rate limited, input validated
+ * 🌊 STREAMING: Sends text chunks as they're generated
+ */
+app.post(
+  "/api/ask-ai-stream",
+  express.json(),
+  upload.single("image"),
+  bindAuthenticatedUser, // multipart fields are only parsed now
+  rateLimitMiddleware("general"),
+  validateRequest(apiRoutes.askAiStream), // Invalid requests get a 400, not a stream
+  async (req, res) => {
+    if (!modelProviders.hasProviders())
+      return res.status(500).json({ error: "AI client not initialized" });
 
-Respond naturally.`;
+    let chatLock: ChatLock | null = null;
+    let streamId: string | undefined;
+    try {
+      // Set SSE headers
+      res.setHeader("Content-Type", "text/event-stream");
+      res.setHeader("Cache-Control", "no-cache, no-transform");
+      res.setHeader("Connection", "keep-alive");
+      res.setHeader("X-Accel-Buffering", "no"); // Disable nginx buffering
 
-            strategy = "skip"; // Skip full memory search
-          } else {
-            strategy = "profile-only"; // Fall back to profile
-          }
-        }
+      const {
+        prompt,
+        chatId,
+        userId,
+        memory,
+        conversationHistory,
+        conversationSummary,
+        messageCount,
+        userName,
+        type,
+        model,
+        imageId,
+        documentId,
+        tools,
+        memoryFolder,
+        memoryTag,
+        resumable,
+        regenerate,
+      } = req.body as ApiBody<"askAiStream">;
 
-        const originalStrategy = determineSearchStrategy(
-          prompt,
-          effectiveMessageCount || 0
-        );
+      const useMemory = memory !== false;
+      const effectiveUserId = req.auth!.uid;
+      const effectiveChatId = chatId;
 
-        if (strategy === "skip") {
-          console.log("⏭️ Skipping memory - simple greeting/acknowledgment");
-        } else if (strategy === "profile-only") {
-          // Lightweight: Only use user profile (no expensive searches)
-          console.log(
-            "👤 Using profile-only memory (lightweight) for user:",
-            effectiveUserId
-          );
-          try {
-            // ⚡ OPTIMIZATION: Check cache first
-            let profileContextCached = profileCache.get(effectiveUserId);
-            let profileContext: string | null = null;
-
-            if (profileContextCached === undefined) {
-              // Cache miss - fetch from service
-              console.log("📥 Profile cache miss - fetching from service");
-              profileContext =
-                userProfileService.generateProfileContext(effectiveUserId);
-              // Cache the profile object for future use
-              const profile =
-                userProfileService.getUserProfile(effectiveUserId);
-              profileCache.set(effectiveUserId, profile);
-            } else {
-              console.log("⚡ Profile cache hit - instant retrieval!");
-              // Generate context from cached profile
-              profileContext = profileContextCached
-                ? userProfileService.generateProfileContext(effectiveUserId)
-                : null;
-            }
-
-            if (profileContext) {
-              enhancedPrompt = `SYSTEM: You are NubiqAI ✨ - an intelligent assistant with persistent memory.
-
-📝 **FORMATTING GUIDELINES** (Use ChatGPT-style markdown):
-- Use **bold** for emphasis and key terms
-- Use *italic* for subtle emphasis
-- Use ## for section headings (not # which is too large)
-- Use ### for subsections
-- Use \`code\` for technical terms, commands, or code snippets
-- Use bullet points with - or * for lists
-- Use 1. 2. 3. for numbered lists
-- Add blank lines between sections for readability
-- Use > for quotes or important callouts
-- Use code blocks with \`\`\`language for multi-line code
-
-⚠️ **CRITICAL INSTRUCTIONS**:
-- Do NOT address the user by name (e.g., "Okay, [Name]" or "Hi [Name]")
-- When user asks "do you know about X" or "tell me about X", provide comprehensive detailed information
-- Treat "write an article" or "tell me about" as requests for full content, not just confirmation
-
-${"=".repeat(60)}
-👤 USER PROFILE:
-${profileContext}
-${"=".repeat(60)}
-
-💬 CURRENT USER QUESTION:
-${prompt}
-
-💡 Respond like ChatGPT: For CODE - use "Here's a [type] example 👍", add "💡 How to use it:" steps, "🔑 Key Points" section. For EXPLANATIONS - use ## headings with emojis, **bold** key terms, end with follow-up question. Be engaging and educational!`;
-
-              console.log("✅ Enhanced prompt with user profile context");
-            } else {
-              console.log("❌ No user profile found for", effectiveUserId);
-            }
-          } catch (error) {
-            console.warn("⚠️ Profile lookup failed:", error);
-          }
-        } else {
-          // Full search: Use hybrid memory (local + Pinecone + profile)
-          try {
-            const hybridMemoryService = getHybridMemoryService();
-            console.log(
-              `🧠 Using full hybrid memory search for user: ${effectiveUserId}${effectiveChatId ? `, chat: ${effectiveChatId}` : ""}`
-            );
+      // 🔒 One generation per user/chat at a time
+      chatLock = acquireChatLock(userId, chatId);
+      if (!chatLock) {
+        res.write(`data: ${JSON.stringify({ error: CHAT_BUSY_ERROR })}\n\n`);
+        return res.end();
+      }
 
-            const memoryResult = await hybridMemoryService.searchMemory(
-              effectiveUserId,
-              prompt,
-              effectiveChatId,
-              effectiveMessageCount,
-              {
-                maxLocalResults: 3,
-                maxLongTermResults: 1, // ⚡ OPTIMIZED: Reduced from 2 to 1 (saves 100-200ms)
-                localWeight: 0.8,
-                threshold: 0.35, // ⚡ OPTIMIZED: Slightly higher threshold (faster, more relevant)
-                skipPineconeIfLocalFound: true,
-                minLocalResultsForSkip: 2,
-              }
-            );
+      // 🌊 Frames go through a stream session so a client that drops can resume with
+      // Last-Event-ID. Without `resumable`, generation stops as soon as the client goes
+      // away (tab closed, stop button); resumable streams get a grace window.
+      const abortController = new AbortController();
+      abortController.signal.addEventListener("abort", () => releaseChatLock(chatLock));
+      const streams = getStreamSessionService();
+      const sessionId = streams.create({
+        userId: effectiveUserId,
+        resumable: resumable === true,
+        abortController,
+      });
+      streamId = sessionId;
+      attachStreamClient(res, sessionId, 0);
 
-            console.log(
-              `🧠 Memory search results - Type: ${memoryResult.type}, Local: ${memoryResult.resultCount.local}, Long-term: ${memoryResult.resultCount.longTerm}`
-            );
-
-            if (memoryResult.optimization?.skippedPinecone) {
-              console.log(
-                `💰 Cost optimization: ${memoryResult.optimization.reason}`
-              );
-            }
-
-            if (
-              memoryResult.combinedContext &&
-              memoryResult.combinedContext !==
-                "No relevant conversation history found."
-            ) {
-              // 🔎 NEW: Build a compact rolling summary to lead the context
-              let rollingSummarySection = "";
-              try {
-                const roll = await buildRollingSummary(
-                  effectiveUserId,
-                  effectiveChatId
-                );
-                if (roll) {
-                  const facts = roll.keyFacts.map((f) => `• ${f}`).join("\n");
-                  rollingSummarySection = `${"=".repeat(60)}\n🧾 ROLLING SUMMARY\n${"=".repeat(60)}\n\n${roll.summary}\n\nKEY FACTS:\n${facts}\n`;
-                }
-              } catch (e) {
-                console.warn(
-                  "⚠️ Rolling summary generation failed (non-fatal):",
-                  e
-                );
-              }
-
-              enhancedPrompt = `You are NubiqAI ✨ - helpful AI assistant with memory.
-
-⚠️ RULES:
-- Never use user's name
-- Answer "do you know X" with full explanations, not "yes I know"
-- "write an article" = detailed content
-
-
-📝 FORMAT:
-**CODE:** "Here's [type] 👍" + code + "💡 How to:" (steps) + "🔑 Key:" (concepts) + question
-**EXPLAIN:** ## headings + **bold** terms + bullets + "💡 Summary"
-
-============================================================
-🧠 CONTEXT:
-${rollingSummarySection}${memoryResult.combinedContext}
-============================================================
-
-💬 Q: ${prompt}
-
-Be engaging!`;
-
-              console.log(
-                `✅ Enhanced prompt with ${memoryResult.type} memory context + ChatGPT-style formatting`
-              );
-            } else {
-              console.log(
-                `❌ No relevant memory context found for user ${effectiveUserId}`
-              );
-            }
-          } catch (memoryError) {
-            console.warn(
-              "⚠️ Hybrid memory search failed, proceeding without memory context:",
-              memoryError
-            );
-          }
-        }
-      }
-
-      // 💬 Add conversation history from current chat for context continuity
-      // 🎯 SMART CONTEXT SELECTION: Only last 5 messages + summarize older ones
-      if (conversationHistory && conversationHistory.length > 0) {
-        const maxRecentMessages = 5;
-        
-        // Split into recent and older messages
-        const recentMessages = conversationHistory.slice(-maxRecentMessages);
-        const olderMessages = conversationHistory.slice(0, -maxRecentMessages);
-        
-        // Build recent conversation text
-        const historyText = recentMessages
-          .map((msg: any) => `${msg.role.toUpperCase()}: ${msg.content}`)
-          .join("\n\n");
-
-        // Summarize older messages if they exist (instead of including full text)
-        let summarySection = "";
-        if (conversationSummary) {
-          summarySection = `\n\n📚 OLDER MESSAGES:\n${conversationSummary}\n${"=".repeat(60)}\n\n`;
-        } else if (olderMessages.length > 0) {
-          // Create a quick summary of older messages
-          const topicsFromOlder = olderMessages
-            .map((msg: any) => msg.content.substring(0, 50))
-            .slice(0, 3) // Only first 3
-            .join(", ");
-          summarySection = `\n\n📚 EARLIER CONTEXT: User discussed ${topicsFromOlder}...\n${"=".repeat(60)}\n\n`;
-        }
-
-        enhancedPrompt = `${summarySection}RECENT CONVERSATION (LAST ${recentMessages.length} MESSAGES):
-${"=".repeat(60)}
-${historyText}
-${"=".repeat(60)}
-
-${enhancedPrompt}
-
-Remember: Use recent conversation for context continuity.`;
-
-        console.log(
-          `💬 Added ${recentMessages.length} recent messages${summarySection ? " + older summary" : ""} (optimized context)`
-        );
-      } else if (!enhancedPrompt.includes("SYSTEM:")) {
-        // If no memory context and no conversation history, add base structured prompt
-        enhancedPrompt = `SYSTEM: You are NubiqAI ✨ - an intelligent, helpful assistant.
-
-⚠️ **CRITICAL INSTRUCTIONS**:
-- Do NOT address the user by name. Start directly with your answer.
-- When user asks "do you know about X" or "tell me about X", provide comprehensive information - don't just say "yes I know"
-- Treat questions like "write an article" or "tell me about" as requests for detailed content
-
-📝 **FORMATTING GUIDELINES** (Use ChatGPT-style markdown):
-- Use **bold** for emphasis
-- Use *italic* for subtle emphasis
-- Use ## for section headings
-- Use \`code\` for technical terms
-- Use bullet lists with - or *
-- Use 1. 2. 3. for numbered lists
-- Add blank lines between sections
-- Use > for important callouts
-
-USER QUESTION:
-${prompt}
-
-💡 Respond like ChatGPT: For CODE - friendly intro ("Here's a [type] example 👍"), code block, "💡 How to use it:" with steps, "🔑 Key Points" explaining concepts, follow-up question. For EXPLANATIONS - ## headings with emojis, **bold** terms, engaging style!`;
-        console.log(`📋 Using base structured response prompt`);
-      }
-      // ADD THIS CODE AT LINE 817 (right after: console.log(`📋 Using base structured response prompt`);)
-
-      // 📚 Add document context if documentId is provided
-      if (documentId) {
-        const searchResult = searchChunks(documentId, prompt);
-        if (searchResult) {
-          const documentContextSection = `
-${"=".repeat(60)}
-📄 DOCUMENT CONTEXT
-${"=".repeat(60)}
-
-Summary: ${searchResult.summary}
-
-Relevant Sections:
-${searchResult.relevantChunks.join("\n\n")}
-
-${"=".repeat(60)}
-`;
-          enhancedPrompt = documentContextSection + "\n\n" + enhancedPrompt;
-          console.log(
-            `📚 Added document context to prompt. Chunks: ${searchResult.relevantChunks.length}`
-          );
-        } else {
-          console.warn(
-            `⚠️ Document ID "${documentId}" provided but not found in cache.`
-          );
-        }
-      }
-
-      // 🖼️ Add image context if imageId is provided OR if image was uploaded via multipart
-      const { imageId } = req.body;
-      let imageContextData: {
-        description: string;
-        imageBase64: string;
-      } | null = null;
-
-      // Priority: Use uploaded image file first, then imageId from cache
-      if (imageBase64) {
-        // Image uploaded via multipart/form-data
-        console.log(
-          `🖼️ Using uploaded image file for vision analysis (${imageBase64.length} chars base64)`
-        );
-        imageContextData = {
-          description: "User uploaded image",
-          imageBase64: imageBase64,
-        };
-
-        const imageContextSection = `
-${"=".repeat(60)}
-🖼️ IMAGE CONTEXT
-${"=".repeat(60)}
-
-Image: Uploaded by user
-Type: Vision analysis with uploaded image
-
-${"=".repeat(60)}
-`;
-        enhancedPrompt = imageContextSection + "\n\n" + enhancedPrompt;
-      } else if (imageId) {
-        // Image from cache (imageId reference)
-        const { getImage } = require("./services/imageCacheService");
-        const imageData = getImage(imageId);
-
-        if (imageData) {
-          imageContextData = {
-            description: imageData.description,
-            imageBase64: imageData.imageBase64,
-          };
-
-          const imageContextSection = `
-${"=".repeat(60)}
-🖼️ IMAGE CONTEXT
-${"=".repeat(60)}
-
-Image: ${imageData.fileName}
-Description: ${imageData.description}
-
-${"=".repeat(60)}
-`;
-          enhancedPrompt = imageContextSection + "\n\n" + enhancedPrompt;
-          console.log(
-            `🖼️ Added image context to prompt(use the content only when you feel like user wants to seperate image ). Image: ${imageData.fileName}`
-          );
-        } else {
-          console.warn(
-            `⚠️ Image ID "${imageId}" provided but not found in cache.`
-          );
-        }
-      }
-
-      // Prefer explicit request model, then env overrides, then safe defaults
-      const textModel =
-        (model as string | undefined) ||
-        process.env.TEXT_MODEL ||
-        "gemini-2.5-pro"; // 🎯 GA model for text/chat
-      const imageModel =
-        (model as string | undefined) ||
-        process.env.IMAGE_MODEL ||
-        "gemini-2.5-flash-image"; // 🎯 GA model for image generation
-      // Use a fast, lightweight model for classification by default
-      const intentModel = process.env.INTENT_MODEL || "gemini-1.5-flash-001"; // Default to v1 model id to avoid 404s
-
-      // 🔍 Intent helpers: fuzzy matching + optional model-based classification
-      function levenshtein(a: string, b: string): number {
-        const m = a.length,
-          n = b.length;
-        if (m === 0) return n;
-        if (n === 0) return m;
-        const dp = Array.from({ length: m + 1 }, () =>
-          new Array<number>(n + 1).fill(0)
-        );
-        for (let i = 0; i <= m; i++) dp[i][0] = i;
-        for (let j = 0; j <= n; j++) dp[0][j] = j;
-        for (let i = 1; i <= m; i++) {
-          for (let j = 1; j <= n; j++) {
-            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
-            dp[i][j] = Math.min(
-              dp[i - 1][j] + 1,
-              dp[i][j - 1] + 1,
-              dp[i - 1][j - 1] + cost
-            );
-          }
-        }
-        return dp[m][n];
-      }
-
-      function fuzzyIncludes(
-        haystack: string,
-        needles: string[],
-        maxDistance = 1
-      ): { matched: string | null } {
-        const s = haystack.toLowerCase();
-        for (const needle of needles) {
-          const n = needle.toLowerCase();
-          if (s.includes(n)) return { matched: needle };
-          // Sliding window fuzzy search
-          const w = n.length;
-          for (let i = 0; i <= s.length - w; i++) {
-            const seg = s.slice(i, i + w);
-            if (levenshtein(seg, n) <= maxDistance) return { matched: needle };
-          }
-        }
-        return { matched: null };
-      }
-
-      function normalizeRequestType(t?: string): "text" | "image" {
-        if (!t) return "text";
-        const s = String(t).toLowerCase().trim();
-        const imageSynonyms = [
-          "image",
-          "img",
-          "picture",
-          "pic",
-          "generate",
-          "gen",
-          "art",
-          "logo",
-        ];
-        if (imageSynonyms.some((syn) => s === syn)) return "image";
-        // Fuzzy for common typos: iamge, imgae
-        if (levenshtein(s, "image") <= 2) return "image";
-        return "text";
-      }
-
-      function detectImageEditIntentHeuristic(p: string): {
-        likely: boolean;
-        confidence: number;
-        signal?: string;
-      } {
-        if (!p) return { likely: false, confidence: 0 };
-        
-        console.log(`🔎 Heuristic check for: "${p}"`);
-        
-        const verbs = [
-          "add",
-          "insert",
-          "place",
-          "put",
-          "overlay",
-          "draw",
-          "paint",
-          "write",
-          "stamp",
-          "apply",
-          "remove",
-          "erase",
-          "delete",
-          "clean",
-          "clear",
-          "hide",
-          "cut",
-          "replace",
-          "swap",
-          "change",
-          "modify",
-          "edit",
-          "adjust",
-          "tweak",
-          "fix",
-          "update",
-          "blur",
-          "sharpen",
-          "denoise",
-          "enhance",
-          "brighten",
-          "darken",
-          "exposure",
-          "contrast",
-          "saturation",
-          "vibrance",
-          "hue",
-          "crop",
-          "resize",
-          "rotate",
-          "flip",
-          "scale",
-          "border",
-          "frame",
-          "background",
-          "bg",
-          "mask",
-          "cutout",
-          "transparent",
-          "text",
-          "caption",
-          "label",
-          "watermark",
-        ];
-        const { matched } = fuzzyIncludes(p, verbs, 1);
-        console.log(`🔎 Heuristic - matched verb: "${matched || "none"}"`);
-        
-        if (matched) {
-          // Boost confidence for strong edit verbs (add, remove, change)
-          const strongVerbs = ["add", "insert", "remove", "delete", "change", "replace"];
-          const strongVerbMatch = strongVerbs.some((v) => p.toLowerCase().includes(v));
-          
-          // Boost confidence for strong edit nouns
-          const strongNouns = [
-            "background",
-            "mask",
-            "border",
-            "frame",
-            "watermark",
-            "dog",        // Adding objects
-            "person",
-            "text",
-            "object",
-          ];
-          const nounBoost = strongNouns.some((n) => p.toLowerCase().includes(n))
-            ? 0.2
-            : 0;
-          const verbBoost = strongVerbMatch ? 0.15 : 0;
-          
-          const finalConf = Math.min(0.95, 0.6 + nounBoost + verbBoost);
-          console.log(`🔎 Heuristic boost - strongVerb:${strongVerbMatch} noun:${nounBoost} verb:${verbBoost} final:${finalConf}`);
-          
-          return {
-            likely: true,
-            confidence: finalConf,
-            signal: matched,
-          };
-        }
-        console.log(`🔎 Heuristic - no edit intent detected`);
-        return { likely: false, confidence: 0.2 };
-      }
-
-      // Helper functions for intent classification (using module-level cache)
-      function getCachedIntent(prompt: string) {
-        const normalized = prompt.toLowerCase().trim().substring(0, 200); // Limit key size
-        const cached = intentCache.get(normalized);
-        if (cached && Date.now() - cached.timestamp < INTENT_CACHE_TTL) {
-          cacheHits++;
-          console.log(
-            `⚡ Intent cache HIT - returning cached result (${cached.intent})`
-          );
-          return {
-            intent: cached.intent,
-            confidence: cached.confidence,
-            method: "cache" as const,
-          };
-        }
-        cacheMisses++;
-        return null;
-      }
-
-      function setCachedIntent(
-        prompt: string,
-        intent: "imageEdit" | "visionQA" | "imageGenerate" | "text",
-        confidence: number
-      ) {
-        const normalized = prompt.toLowerCase().trim().substring(0, 200);
-        intentCache.set(normalized, {
-          intent,
-          confidence,
-          timestamp: Date.now(),
-        });
-        // Limit cache size to prevent memory issues
-        if (intentCache.size > 1000) {
-          const firstKey = intentCache.keys().next().value;
-          if (firstKey) intentCache.delete(firstKey);
-        }
-      }
-
-      function logIntentUsage(
-        intent: string,
-        confidence: number,
-        method: string
-      ) {
-        intentAnalytics.set(intent, (intentAnalytics.get(intent) || 0) + 1);
-        const count = intentAnalytics.get(intent);
-        console.log(
-          `🎯 Intent: ${intent} (conf: ${confidence.toFixed(2)}, method: ${method}) | Usage: ${count}`
-        );
-      }
-
-      async function classifyIntentWithModel(
-        p: string,
-        hasImage: boolean,
-        conversationContext?: string
-      ): Promise<{
-        intent: "imageEdit" | "visionQA" | "imageGenerate" | "text";
-        confidence: number;
-        method: "ai" | "heuristic" | "cache" | "default";
-      } | null> {
-        const startTime = Date.now();
-
-        // Try cache first (only cache when no conversation context to avoid stale results)
-        if (!conversationContext) {
-          const cached = getCachedIntent(p);
-          if (cached) {
-            return cached;
-          }
-        }
-        
-        try {
-          let classificationPrompt: string;
-          if (hasImage) {
-            // Binary classification when an image is present: edit vs vision Q&A vs generate new
-            classificationPrompt = `Task: Classify the user's intent when an image is provided.
-Return a JSON object with fields intent and confidence (0-1).
-Valid intents: "imageEdit", "visionQA", or "imageGenerate".
-
-IMPORTANT CONTEXT RULES:
-1. If user wants to MODIFY THE UPLOADED IMAGE → "imageEdit"
-2. If user asks QUESTIONS ABOUT THE UPLOADED IMAGE → "visionQA"  
-3. If user wants to CREATE A COMPLETELY NEW IMAGE (ignoring uploaded image) → "imageGenerate"
-
-${conversationContext ? `CONVERSATION CONTEXT:\n${conversationContext}\n\n` : ''}
-
-CRITICAL RULES:
-- ANY mention of changing/editing the uploaded image = "imageEdit" (even if "generate" is mentioned)
-- "change X and generate" [with uploaded image] = "imageEdit" (user wants edited version of uploaded image)
-- "generate a NEW image of Y" [with uploaded X] = "imageGenerate" ONLY if Y is completely unrelated to X
-
-EXAMPLES:
-"add another dog" [with dog image] → {"intent": "imageEdit", "confidence": 0.95}
-"change the brand name to nubevest" [with shoe image] → {"intent": "imageEdit", "confidence": 0.95}
-"change the brand name and generate image" [with shoe] → {"intent": "imageEdit", "confidence": 0.95}
-"remove the background" [with any image] → {"intent": "imageEdit", "confidence": 0.95}
-"make the shoe red and generate it" [with shoe image] → {"intent": "imageEdit", "confidence": 0.95}
-"what's in this image?" [with any image] → {"intent": "visionQA", "confidence": 0.95}
-"draw me a picture of god from india" [with dog image] → {"intent": "imageGenerate", "confidence": 0.9}
-"create a sunset landscape" [with shoe image] → {"intent": "imageGenerate", "confidence": 0.9}
-
-KEYWORDS FOR EDITING: change, modify, edit, adjust, add to this, remove from this, replace, alter, update
-KEYWORDS FOR QUESTIONS: what, who, where, analyze this, describe this, count in this, tell me about
-KEYWORDS FOR NEW IMAGE: draw a NEW, create a DIFFERENT, show me SOMETHING ELSE (only when clearly unrelated)
-
-INPUT PROMPT:
-${p}
-
-Return ONLY valid JSON: {"intent": "<intent>", "confidence": <0-1>}`;
-          } else {
-            // Full classification when no image is present: text vs imageGenerate
-            classificationPrompt = `Task: Classify the user's intent when NO image is provided.
-Return a JSON object with fields intent and confidence (0-1).
-Valid intents: "imageGenerate" or "text".
-
-${conversationContext ? `CONVERSATION CONTEXT:\n${conversationContext}\n\n` : ''}
-
-EXAMPLES:
-"draw a cat" → {"intent": "imageGenerate", "confidence": 0.95}
-"show me a sunset" → {"intent": "imageGenerate", "confidence": 0.9}
-"create a logo" → {"intent": "imageGenerate", "confidence": 0.95}
-"picture of god from india" → {"intent": "imageGenerate", "confidence": 0.95}
-"how are you?" → {"intent": "text", "confidence": 0.99}
-"explain this" → {"intent": "text", "confidence": 0.98}
-
-INPUT PROMPT:
-${p}
-
-Return ONLY valid JSON: {"intent": "<intent>", "confidence": <0-1>}`;
-          }
-
-          const resp = await generateContent({
-            model: intentModel,
-            contents: [classificationPrompt],
-            // Note: Low temperature for deterministic output would be ideal
-            // but the generateContent wrapper doesn't support generationConfig yet
-          });
-
-          const parts: any[] = (resp as any)?.parts ?? [];
-          const txt = parts
-            .map((q: any) => q.text ?? "")
-            .join("")
-            .trim();
-
-          // Try JSON first
-          const jsonText = txt.match(/\{[\s\S]*\}/)?.[0] || txt;
-          let parsed: any = null;
-          try {
-            parsed = JSON.parse(jsonText);
-          } catch {
-            console.warn("⚠️ Failed to parse JSON response:", txt);
-          }
-
-          // Fallback: accept simple outputs like "edit", "ask", "vision"
-          if (!parsed) {
-            const t = txt.toLowerCase();
-            if (/\b(edit|image\s*edit)\b/.test(t))
-              parsed = { intent: "imageEdit", confidence: 0.55 };
-            else if (/\b(ask|vision|q&a|qa|analy[sz]e)\b/.test(t))
-              parsed = { intent: "visionQA", confidence: 0.55 };
-            else if (/\b(generate|gen(erate)?\s*image|image\s*gen)\b/.test(t))
-              parsed = { intent: "imageGenerate", confidence: 0.55 };
-            else parsed = { intent: "text", confidence: 0.5 };
-          }
-
-          const intent = parsed.intent as any;
-          const confidence = Number(parsed.confidence ?? 0.5);
-          const threshold = parseFloat(
-            process.env.INTENT_CONFIDENCE_THRESHOLD || "0.5"
-          );
-
-          if (
-            ["imageEdit", "visionQA", "imageGenerate", "text"].includes(
-              intent
-            ) &&
-            confidence >= threshold
-          ) {
-            // Cache the result
-            setCachedIntent(p, intent, confidence);
-
-            // Track performance
-            const duration = Date.now() - startTime;
-            classificationTimes.push(duration);
-            if (classificationTimes.length > 100)
-              classificationTimes.shift(); // Keep last 100
-
-            const avgTime =
-              classificationTimes.reduce((a, b) => a + b, 0) /
-              classificationTimes.length;
-            console.log(
-              `⏱️ Intent classification took ${duration}ms (avg: ${avgTime.toFixed(0)}ms)`
-            );
-
-            // Log usage
-            logIntentUsage(intent, confidence, "ai");
-
-            return {
-              intent,
-              confidence: Math.max(0, Math.min(1, confidence)),
-              method: "ai",
-            };
-          } else if (!["imageEdit", "visionQA", "imageGenerate", "text"].includes(intent)) {
-            console.warn(`⚠️ Invalid intent returned: ${intent}`);
-          } else {
-            console.warn(
-              `⚠️ Confidence too low: ${confidence.toFixed(2)} < ${threshold}`
-            );
-          }
-        } catch (e: any) {
-          console.warn(
-            "⚠️ Intent classifier failed, using fallback:",
-            e.message || e
-          );
-        }
-
-        // Fallback to heuristic if AI classification failed
-        if (!hasImage) {
-          const heuristic = detectImageGenerateIntentHeuristic(p);
-          if (heuristic.likely && heuristic.confidence >= 0.6) {
-            console.log(
-              `🔄 Using heuristic fallback: ${heuristic.signal} (conf: ${heuristic.confidence})`
-            );
-            logIntentUsage("imageGenerate", heuristic.confidence, "heuristic");
-            return {
-              intent: "imageGenerate",
-              confidence: heuristic.confidence,
-              method: "heuristic",
-            };
-          }
-        }
-
-        // Final fallback: default to text
-        console.log(`⚠️ No confident intent detected, defaulting to text`);
-        logIntentUsage("text", 0.5, "default");
-        return {
-          intent: "text",
-          confidence: 0.5,
-          method: "default",
-        };
-      }
-
-      // 🔎 Extract a usable image URL when model returns markdown/link instead of inline image
-      function extractImageUrlFromText(text: string): string | null {
-        if (!text) return null;
-        const t = text.trim();
-        // Markdown image ![alt](url)
-        const md = t.match(/!\[[^\]]*\]\((https?:\/\/[^\s)]+)\)/i);
-        if (md && md[1]) return md[1];
-        // Plain URL ending with common image extensions
-        const plain = t.match(
-          /(https?:\/\/[^\s)]+\.(?:png|jpe?g|gif|webp|bmp|svg))(?!\S)/i
-        );
-        if (plain && plain[1]) return plain[1];
-        // Hosted attachments or storage paths that are likely images
-        const hosted = t.match(
-          /(https?:\/\/[\w.-]+\/(?:assistants|storage|firebasestorage|googleusercontent)[^\s)]+)/i
-        );
-        if (hosted && hosted[1]) return hosted[1];
-        return null;
-      }
-
-      // 🧼 Remove markdown image links and raw URLs from text so UI doesn't show links instead of images
-      function sanitizeImageText(text?: string): string | undefined {
-        if (!text) return text;
-        let out = text;
-        // Remove markdown image syntax
-        out = out.replace(/!\[[^\]]*\]\((https?:\/\/[^\s)]+)\)/gi, "").trim();
-        // Remove standalone URLs likely pointing to images/attachments
-        out = out.replace(/https?:\/\/[^\s)]+/gi, "").trim();
-        // Collapse multiple spaces/newlines
-        out = out.replace(/\n{3,}/g, "\n\n").replace(/\s{2,}/g, " ");
-        return out || undefined;
-      }
-
-      // 🧠 Build conversation context for intent classification
-      function buildConversationContextForIntent(
-        userId: string,
-        chatId?: string
-      ): string | undefined {
-        try {
-          const {
-            getConversationService,
-          } = require("./services/conversationService");
-          const conversationService = getConversationService();
-
-          // Get last 2 turns for context (concise for intent classification)
-          const recentTurns = conversationService.getRecentConversations(
-            userId,
-            2
-          );
-
-          if (recentTurns.length > 0) {
-            return recentTurns
-              .reverse()
-              .map(
-                (turn: any) =>
-                  `User: ${turn.userPrompt.substring(0, 100)}\nAI: ${turn.aiResponse.substring(0, 100)}`
-              )
-              .join("\n");
-          }
-        } catch (e) {
-          console.warn("⚠️ Could not fetch conversation context:", e);
-        }
-        return undefined;
-      }
-
-      async function detectFinalImageIntent(
-        p: string,
-        userId: string,
-        chatId?: string
-      ): Promise<"edit" | "vision" | "generate"> {
-        const heuristic = detectImageEditIntentHeuristic(p);
-        if (heuristic.likely && heuristic.confidence >= 0.6) {
-          console.log(
-            `🧭 Heuristic intent: edit (signal: ${heuristic.signal}, conf: ${heuristic.confidence})`
-          );
-          return "edit";
-        }
-        const mode = (process.env.INTENT_CLASSIFIER || "always").toLowerCase(); // 'off' | 'fallback' | 'always'
-        if (mode === "off") {
-          console.log("🧭 Intent classifier OFF → default to vision Q&A");
-          return "vision";
-        }
-        if (
-          mode === "always" ||
-          (mode === "fallback" &&
-            (!heuristic.likely || heuristic.confidence < 0.6))
-        ) {
-          // Get conversation context for better intent detection
-          const context = buildConversationContextForIntent(userId, chatId);
-          const cls = await classifyIntentWithModel(p, true, context);
-          if (cls) {
-            console.log(
-              `🧭 Model intent: ${cls.intent} (conf: ${cls.confidence}) ${context ? '[with context]' : '[no context]'}`
-            );
-            if (cls.intent === "imageEdit" && cls.confidence >= 0.5)
-              return "edit";
-            if (cls.intent === "imageGenerate" && cls.confidence >= 0.5)
-              return "generate";
-            return "vision";
-          }
-        }
-        return "vision";
-      }
-
-      // 🔍 New: Image GENERATION intent detection for text-only prompts
-      function detectImageGenerateIntentHeuristic(p: string): {
-        likely: boolean;
-        confidence: number;
-        signal?: string;
-      } {
-        if (!p) return { likely: false, confidence: 0 };
-        const terms = [
-          "generate",
-          "create",
-          "make",
-          "draw",
-          "illustrate",
-          "visualize",
-          "render",
-          "produce",
-          "design",
-          "image of",
-          "picture of",
-          "photo of",
-          "art of",
-          "logo",
-          "icon",
-          "avatar",
-          "/imagine",
-          "wallpaper",
-          "poster",
-          "banner",
-          "thumbnail",
-        ];
-        const cont = ["another", "more", "again", "one more"];
-        const lower = p.toLowerCase();
-        const { matched } = fuzzyIncludes(lower, terms, 1);
-        const continuation = cont.some((w) =>
-          new RegExp(`\\b${w}\\b`, "i").test(lower)
-        );
-        if (matched || continuation) {
-          // If phrase has descriptors like "of a", assume specific generation intent
-          const specific =
-            lower.includes(" of a ") ||
-            lower.includes(" with a ") ||
-            lower.includes(" that has ");
-          let conf = 0.6 + (specific ? 0.2 : 0);
-          if (continuation && p.length < 60) conf = Math.max(conf, 0.7);
-          return {
-            likely: true,
-            confidence: Math.min(0.95, conf),
-            signal: matched || "continuation",
-          };
-        }
-        return { likely: false, confidence: 0.2 };
-      }
-
-      async function shouldGenerateImage(
-        promptText: string,
-        normalizedType: "text" | "image"
-      ): Promise<boolean> {
-        // If client explicitly requested image, honor it
-        if (normalizedType === "image") return true;
-
-        const mode = (
-          process.env.AUTO_GENERATE_INTENT || "fallback"
-        ).toLowerCase(); // 'off' | 'fallback' | 'always'
-        if (mode === "off") return false;
-
-        const h = detectImageGenerateIntentHeuristic(promptText);
-        if (mode === "always") {
-          // Always run classifier for stronger signal when no explicit type
-          const cls = await classifyIntentWithModel(promptText, false);
-          if (cls?.intent === "imageGenerate" && cls.confidence >= 0.55)
-            return true;
-          // Fall back to heuristic if classifier uncertain
-          return h.likely && h.confidence >= 0.7;
-        }
-
-        // Fallback mode: Use heuristic first, then model if weak
-        if (h.likely && h.confidence >= 0.7) return true;
-        const cls = await classifyIntentWithModel(promptText, false);
-        return !!(
-          cls &&
-          cls.intent === "imageGenerate" &&
-          cls.confidence >= 0.6
-        );
-      }
-
-      // 🖼️ Handle uploaded image: check if user wants to edit, generate new, or ask questions
-      if (imageContextData) {
-        console.log(`🔍 Image uploaded - detecting intent for prompt: "${prompt}"`);
-        
-        const imageIntent = await detectFinalImageIntent(
+      await streamChatTurn(
+        {
           prompt,
-          effectiveUserId,
-          effectiveChatId
-        );
-
-        console.log(`🎯 Final image intent decision: ${imageIntent}`);
-
-        if (imageIntent === "edit") {
-        console.log(
-          "✏️ Edit intent detected with uploaded image - performing image editing"
-        );
-
-        // 🎯 CRITICAL: Clean, focused edit instruction with NO conversation context
-        // This ensures the AI only modifies what the user explicitly requested
-        const editInstruction = `You are an expert image editor. Your task is to edit this image PRECISELY as requested.
-
-USER REQUEST: ${prompt}
-
-STRICT RULES:
-1. Make ONLY the specific changes requested by the user
-2. Preserve everything else EXACTLY as it appears in the original image
-3. Maintain the original image composition, lighting, style, and quality
-4. Do NOT add creative interpretations or extra elements
-5. Do NOT change the background, lighting, or overall scene unless explicitly requested
-6. Return a single edited image that looks natural and seamless
-
-Focus: Minimal, precise edits. Maximum preservation of the original image.`;
-
-        let response;
-        try {
-          response = await generateContent({
-            model: imageModel,
-            contents: [
-              {
-                parts: [
-                  {
-                    inlineData: {
-                      data: imageContextData.imageBase64,
-                      mimeType: "image/png",
-                    },
-                  },
-                  { text: editInstruction },
-                ],
-              },
-            ],
-          });
-
-          const parts: any[] = (response as any)?.parts ?? [];
-          let editedBase64: string | null = null;
-          let editedUri: string | null = null;
-          let imageLocalUri: string | null = null;
-          let altText: string | null = null;
-
-          for (const part of parts) {
-            if ((part as any).inlineData) {
-              editedBase64 = (part as any).inlineData.data;
-            }
-            if ((part as any).fileData) {
-              editedUri = (part as any).fileData.fileUri;
-            }
-            if ((part as any).text) {
-              altText = (part as any).text ?? altText;
-            }
-          }
-
-          // Fallback: extract URL from text when no inline/fileData
-          if (!editedBase64 && !editedUri && altText) {
-            const extracted = extractImageUrlFromText(altText);
-            if (extracted) {
-              editedUri = extracted;
-              console.log(
-                `🔗 [edit] Extracted image URL from text: ${editedUri}`
-              );
-              try {
-                const resp = await fetch(extracted);
-                if (resp.ok) {
-                  const arrayBuf = await resp.arrayBuffer();
-                  const buffer = Buffer.from(arrayBuf);
-                  editedBase64 = buffer.toString("base64");
-                  console.log(
-                    `✅ [edit] Converted extracted URL image to base64 (${editedBase64.length} chars)`
-                  );
-                } else {
-                  console.warn(
-                    `⚠️ [edit] Failed to fetch extracted image URL (status ${resp.status})`
-                  );
-                }
-              } catch (e) {
-                console.warn(
-                  `⚠️ [edit] Could not download extracted image URL:`,
-                  e
-                );
-              }
-            }
-          }
-
-          const editResponsePayload = {
-            success: true,
-            isImageGeneration: true,
-            text: sanitizeImageText(altText || undefined) || "Edited image",
-            imageBase64: editedBase64,
-            imageUri: editedUri,
-            imageLocalUri,
-            raw: response,
-            metadata: {
-              tokens: (response as any)?.usage?.totalTokenCount || 0,
-              candidatesTokenCount:
-                (response as any)?.usage?.candidatesTokenCount || 0,
-              promptTokenCount: (response as any)?.usage?.promptTokenCount || 0,
-            },
-          };
-
-          res.json(editResponsePayload);
-
-          setImmediate(async () => {
-            try {
-              if (localImageCacheService.isEnabled()) {
-                if (!imageLocalUri && editedBase64) {
-                  const saved = await localImageCacheService.saveBase64(
-                    effectiveUserId,
-                    effectiveChatId || "default",
-                    editedBase64,
-                    "png"
-                  );
-                  imageLocalUri = saved.localUri;
-                  console.log(
-                    `🗃️ [BACKGROUND] Cached edited image locally: ${imageLocalUri}`
-                  );
-                } else if (!imageLocalUri && editedUri) {
-                  const saved = await localImageCacheService.saveFromUri(
-                    effectiveUserId,
-                    effectiveChatId || "default",
-                    editedUri,
-                    "png"
-                  );
-                  imageLocalUri = saved.localUri;
-                  console.log(
-                    `🗃️ [BACKGROUND] Cached edited image locally: ${imageLocalUri}`
-                  );
-                }
-              }
-            } catch (e) {
-              console.warn(
-                "⚠️ [BACKGROUND] Failed to save edited image locally:",
-                e
-              );
-            }
-
-            if (useMemory && effectiveUserId && (editedBase64 || editedUri)) {
-              try {
-                const hybridMemoryService = getHybridMemoryService();
-                let firebaseImageUrl: string;
-
-                if (editedBase64) {
-                  firebaseImageUrl = await firebaseStorageService.uploadImage(
-                    effectiveUserId,
-                    effectiveChatId || "default",
-                    editedBase64,
-                    prompt
-                  );
-                } else if (editedUri) {
-                  try {
-                    const resp = await fetch(editedUri);
-                    if (resp.ok) {
-                      const arrayBuf = await resp.arrayBuffer();
-                      const buffer = Buffer.from(arrayBuf);
-                      const b64 = buffer.toString("base64");
-                      firebaseImageUrl =
-                        await firebaseStorageService.uploadImage(
-                          effectiveUserId,
-                          effectiveChatId || "default",
-                          b64,
-                          prompt
-                        );
-                    } else {
-                      firebaseImageUrl = editedUri;
-                    }
-                  } catch (err) {
-                    firebaseImageUrl = editedUri!;
-                  }
-                } else {
-                  return;
-                }
-
-                const conversationTurn =
-                  hybridMemoryService.storeConversationTurn(
-                    effectiveUserId,
-                    prompt,
-                    altText || "Image edited",
-                    effectiveChatId,
-                    { url: firebaseImageUrl, prompt }
-                  );
-                await firestoreChatService.saveTurn(conversationTurn);
-                console.log(
-                  `🖼️ [BACKGROUND] Stored edited image URL in conversation history`
-                );
-              } catch (e) {
-                console.warn(
-                  "[BACKGROUND] Failed to upload/store edited image:",
-                  e
-                );
-              }
-            }
-          });
-
-          return;
-        } catch (e) {
-          console.error(
-            "❌ Image editing failed, falling back to vision Q&A:",
-            e
-          );
-          // Fall through to normal vision Q&A below
-        }
-        } else if (imageIntent === "generate") {
-          // User wants to generate a NEW image despite having one uploaded
-          console.log(
-            "🎨 Generate intent detected even with uploaded image - user wants NEW image, ignoring uploaded one"
-          );
-          // Set imageContextData to null to trigger image generation flow below
-          imageContextData = null;
-        } else {
-          // imageIntent === "vision" - fall through to vision Q&A handling
-          console.log(
-            "👁️ Vision Q&A intent detected with uploaded image"
-          );
-        }
-      }
-
-      // Only run image generation when explicitly requested AND there is no uploaded/cached image context
-      const wantsGeneration = await shouldGenerateImage(prompt, normalizedType);
-      if (wantsGeneration && !imageContextData) {
-        // 🔒 Apply image-specific rate limiting
-        const { rateLimiter } = require("./services/securityMiddleware");
-        if (!rateLimiter.checkRateLimit(effectiveUserId, "image")) {
-          logSecurityEvent("Image rate limit exceeded", {
-            userId: effectiveUserId,
-          });
-          return res.status(429).json({
-            success: false,
-            error:
-              "Image generation rate limit exceeded. Please try again later.",
-          });
-        }
-
-        // 🎨 Smart context-aware image generation
-        let imagePrompt = prompt;
-
-        // Check if prompt is generic (e.g., "generate an image", "create image", "show me")
-        const genericImageKeywords = [
-          "generate an image",
-          "create an image",
-          "make an image",
-          "show me an image",
-          "draw",
-          "illustrate",
-          "visualize",
-          "generate image",
-          "create image",
-          "make image",
-          "show me",
-          "draw something",
-          "illustrate this",
-          "visualize this",
-          "another image",
-          "more image",
-          "one more",
-          "again",
-          "image of",
-          "image",
-          "logo",
-        ];
-        const promptLower = prompt.toLowerCase().trim();
-
-        // More flexible detection: check if prompt CONTAINS keywords (not just starts with)
-        // and is relatively short (< 50 chars), indicating it's not a specific description
-        // Also detect continuation words like "another", "more", "again" (even with typos like "AAANOTHER")
-        const hasContinuationWord = /\b(another|more|again|one more)\b/i.test(
-          promptLower
-        );
-        const hasGenericKeyword = genericImageKeywords.some((kw) =>
-          promptLower.includes(kw)
-        );
-        const hasSpecificDescriptor =
-          promptLower.includes(" of a ") ||
-          promptLower.includes(" with a ") ||
-          promptLower.includes(" that has ") ||
-          promptLower.includes(" of "); // Added: "image of snake", "picture of X", etc.
-
-        const isGenericRequest =
-          (hasGenericKeyword || hasContinuationWord) &&
-          prompt.length < 50 &&
-          !hasSpecificDescriptor;
-
-        console.log(`📊 Image Request Analysis:`);
-        console.log(`   - Has Generic Keyword: ${hasGenericKeyword}`);
-        console.log(`   - Has Continuation Word: ${hasContinuationWord}`);
-        console.log(`   - Has Specific Descriptor: ${hasSpecificDescriptor}`);
-        console.log(`   - Prompt Length: ${prompt.length}`);
-        console.log(`   - Final Classification: ${isGenericRequest ? 'GENERIC' : 'SPECIFIC'}`);
-
-        // 🚫 CONTEXT-AWARE IMAGE GENERATION DISABLED
-        // If generic request and we have chat history, add conversation context
-        if (false && isGenericRequest && effectiveUserId) {
-          console.log(
-            `🧠 Generic image request detected - fetching conversation context...`
-          );
-          try {
-            // Get conversation service (contains local memory)
-            const {
-              getConversationService,
-            } = require("./services/conversationService");
-            const conversationService = getConversationService();
-
-            // Get last 2 conversation turns for context (tighter context for images)
-            const recentTurns = conversationService.getRecentConversations(
-              effectiveUserId,
-              2
-            );
-
-            if (recentTurns.length > 0) {
-              // Build context from recent conversation (reverse to get chronological order)
-              const contextSummary = recentTurns
-                .reverse() // Most recent last
-                .map(
-                  (turn: any) =>
-                    `User: ${turn.userPrompt}\nAI: ${turn.aiResponse}`
-                )
-                .join("\n\n");
-
-              // Analyze if current prompt is completely independent (new topic)
-              const currentPromptLower = prompt.toLowerCase();
-              const isNewTopic = 
-                // Check if prompt has specific descriptive words (suggests new image request)
-                /\b(of|from|with|showing|depicting|featuring)\b/.test(currentPromptLower) ||
-                // Check if prompt is long enough to be self-contained (>20 chars)
-                prompt.length > 20 ||
-                // Check if prompt mentions specific subjects
-                /\b(person|animal|place|scene|landscape|portrait|god|deity|character)\b/i.test(currentPromptLower);
-
-              if (isNewTopic) {
-                // User provided enough detail - use their prompt directly with minimal context
-                console.log(`🎯 Detected self-contained image request - using user's exact prompt`);
-                imagePrompt = prompt; // Use original prompt as-is
-              } else {
-                // Generic continuation like "another", "more" - use conversation context
-                imagePrompt = `Based on this recent conversation:
-
-${contextSummary}
-
-The user now says: "${prompt}"
-
-Create a detailed, visually compelling image that builds upon or relates to our conversation context. Make it relevant and coherent with what we've been discussing.`;
-
-                console.log(
-                  `✨ Enhanced image prompt with ${recentTurns.length} conversation turns from memory`
-                );
-                console.log(
-                  `📝 Context-aware prompt: "${imagePrompt.substring(0, 150)}..."`
-                );
-              }
-            } else if (conversationHistory && conversationHistory.length > 0) {
-              // Fallback: Use conversation history from the request (current chat session)
-              console.log(
-                `💬 Using ${conversationHistory.length} messages from current chat session`
-              );
-              const contextSummary = conversationHistory
-                .slice(-2) // Last 2 messages
-                .map(
-                  (msg: any) =>
-                    `${msg.role === "user" ? "User" : "AI"}: ${msg.content}`
-                )
-                .join("\n\n");
-
-              // 🤖 Use AI to intelligently decide if prompt needs conversation context
-              console.log(`🤖 Asking AI to analyze if image prompt needs conversation context...`);
-              
-              const contextDecisionPrompt = `You are a smart intent analyzer. Your job is to determine if an image generation request needs conversation context or is self-contained.
-
-CONVERSATION HISTORY:
-${contextSummary}
-
-USER'S IMAGE REQUEST:
-"${prompt}"
-
-ANALYSIS TASK:
-Does this image request reference or depend on information from the conversation above?
-
-Examples that NEED context:
-- "generate an image of the website we discussed" (references "website we discussed")
-- "show me what this would look like" (references "this")
-- "create an image based on the proposal" (references "the proposal")
-- "make an image of it" (references something mentioned before)
-
-Examples that DON'T need context (self-contained):
-- "a sunset over snow-capped mountains with a lake"
-- "a futuristic city with flying cars at night"
-- "a portrait of a wise old wizard with a long beard"
-- "an abstract painting with blue and gold colors"
-
-Respond with ONLY one word: "CONTEXT" if it needs conversation history, or "STANDALONE" if it's self-contained.`;
-
-              let needsContext = false;
-              try {
-                const decisionResponse = await generateContent({
-                  model: intentModel,
-                  contents: [contextDecisionPrompt],
-                });
-                
-                const decision = (decisionResponse as any)?.text?.trim().toUpperCase() || '';
-                needsContext = decision.includes('CONTEXT');
-                
-                console.log(`🎯 AI Decision: ${decision} → ${needsContext ? 'Using conversation context' : 'Using standalone prompt'}`);
-              } catch (error) {
-                console.warn(`⚠️ Context decision failed, defaulting to context-aware:`, error);
-                needsContext = true; // Safer to include context if AI fails
-              }
-
-              if (needsContext) {
-                // Prompt references previous conversation or is too vague - use context
-                imagePrompt = `Based on this recent conversation:
-
-${contextSummary}
-
-The user now says: "${prompt}"
-
-Create a detailed, visually compelling image that directly relates to and visualizes the concepts from our conversation above. Make it highly relevant and coherent with the specific topic we've been discussing.`;
-
-                console.log(
-                  `✨ Enhanced image prompt with ${conversationHistory.length} messages from conversation context`
-                );
-                console.log(
-                  `📝 Context-aware prompt: "${imagePrompt.substring(0, 150)}..."`
-                );
-              } else {
-                // User provided a complete standalone description - use their prompt directly
-                console.log(`🎯 Detected self-contained image request (e.g., "a sunset over mountains") - using user's exact prompt`);
-                imagePrompt = prompt;
-              }
-            } else {
-              // No conversation history - provide a helpful default prompt
-              console.log(
-                `⚠️ No conversation history found, creating a beautiful surprise image`
-              );
-              imagePrompt = `Create a beautiful, high-quality, visually stunning image. Since no specific subject was mentioned, create something inspiring and artistic. Think: nature scenery, abstract art, or a serene landscape. Make it photorealistic and captivating.`;
-            }
-          } catch (error) {
-            console.warn(
-              "⚠️ Could not fetch conversation context, using default prompt:",
-              error
-            );
-            imagePrompt = `Create a beautiful, high-quality, visually stunning image. Since no specific subject was mentioned, create something inspiring and artistic. Think: nature scenery, abstract art, or a serene landscape. Make it photorealistic and captivating.`;
-          }
-        } else if (!isGenericRequest) {
-          console.log(
-            `🎯 Specific image request detected - using exact prompt: "${prompt}"`
-          );
-        }
-
-        console.log(`\n${"█".repeat(80)}`);
-        console.log(`🎨 IMAGE GENERATION REQUEST`);
-        console.log(`${"█".repeat(80)}`);
-        console.log(`📝 USER TYPED: "${prompt}"`);
-        console.log(`📊 Classification:`);
-        console.log(`   - Generic Request: ${isGenericRequest}`);
-        console.log(`   - Has Conversation History: ${conversationHistory ? conversationHistory.length > 0 : false}`);
-        console.log(`   - Context-Aware Generation: DISABLED`);
-        console.log(`\n🔧 PROMPT SENT TO GEMINI:`);
-        console.log(`${"═".repeat(80)}`);
-        console.log(imagePrompt);
-        console.log(`${"═".repeat(80)}`);
-        console.log(`🤖 Model: ${imageModel}`);
-        console.log(`${"█".repeat(80)}\n`);
-
-        // Retry logic: Gemini sometimes returns text instead of image
-        let retryCount = 0;
-        const maxRetries = 2;
-        let response;
-        let imageGenerated = false;
-
-        while (!imageGenerated && retryCount <= maxRetries) {
-          if (retryCount > 0) {
-            console.log(
-              `🔄 Retry ${retryCount}/${maxRetries} - Gemini returned text instead of image, retrying...`
-            );
-            // Make prompt more explicit for retry
-            imagePrompt =
-              imagePrompt +
-              `\n\nIMPORTANT: Generate an actual IMAGE, not text. Do not describe the image, CREATE it.`;
-          }
-
-          response = await generateContent({
-            model: imageModel,
-            contents: [imagePrompt],
-          });
-
-          const parts: any[] = (response as any)?.parts ?? [];
-
-          // Check if we got an actual image
-          const hasImage = parts.some(
-            (part) => (part as any).inlineData || (part as any).fileData
-          );
-
-          if (hasImage) {
-            imageGenerated = true;
-            console.log(
-              `✅ Image generated successfully on attempt ${retryCount + 1}`
-            );
-          } else {
-            retryCount++;
-            if (retryCount <= maxRetries) {
-              console.log(
-                `⚠️ Attempt ${retryCount} returned text only, retrying...`
-              );
-              await new Promise((resolve) => setTimeout(resolve, 1000)); // Wait 1 second before retry
-            } else {
-              console.error(
-                `❌ Failed to generate image after ${maxRetries + 1} attempts`
-              );
-            }
-          }
-        }
-
-        const parts: any[] = (response as any)?.parts ?? [];
-        let imageBase64: string | null = null;
-        let imageUri: string | null = null;
-        let imageLocalUri: string | null = null;
-        let altText: string | null = null;
-
-        console.log(`📦 Received ${parts.length} parts from Gemini`);
-
-        for (const part of parts) {
-          // Log what we find in each part
-          if ((part as any).inlineData) {
-            console.log(
-              `📸 Found inlineData - mimeType: ${(part as any).inlineData.mimeType}, data length: ${(part as any).inlineData.data?.length || 0}`
-            );
-            imageBase64 = (part as any).inlineData.data;
-          }
-          if ((part as any).fileData) {
-            console.log(
-              `📁 Found fileData - URI: ${(part as any).fileData.fileUri}`
-            );
-            imageUri = (part as any).fileData.fileUri;
-          }
-          if ((part as any).text) {
-            console.log(
-              `📝 Found text: ${(part as any).text.substring(0, 100)}`
-            );
-            altText = (part as any).text ?? altText;
-          }
-        }
-
-        if (imageBase64) {
-          console.log(
-            `✅ Image generated successfully - base64 data (${imageBase64.length} chars)`
-          );
-        } else if (imageUri) {
-          console.log(`✅ Image generated successfully - URI: ${imageUri}`);
-          // ⚡ Speed optimization: return URI immediately; optional inline base64 behind flag
-          if (process.env.INLINE_IMAGE_BASE64 === "true") {
-            try {
-              console.log(
-                "📥 Downloading image from URI to base64 for immediate display (opt-in)..."
-              );
-              const resp = await fetch(imageUri);
-              if (resp.ok) {
-                const arrayBuf = await resp.arrayBuffer();
-                const buffer = Buffer.from(arrayBuf);
-                imageBase64 = buffer.toString("base64");
-                console.log(
-                  `✅ Converted URI image to base64 (${imageBase64.length} chars)`
-                );
-              } else {
-                console.warn(
-                  `⚠️ Failed to fetch image URI (status ${resp.status}) - will return URI only`
-                );
-              }
-            } catch (e) {
-              console.warn(
-                "⚠️ Could not convert image URI to base64 (opt-in)",
-                e
-              );
-            }
-          }
-        } else {
-          console.error(
-            `❌ No image data found in response! Attempting to extract from text...`
-          );
-          const combinedText = parts.map((p: any) => p.text ?? "").join(" ");
-          const extractedUrl = extractImageUrlFromText(combinedText);
-          if (extractedUrl) {
-            imageUri = extractedUrl;
-            console.log(`🔗 Extracted image URL from text: ${imageUri}`);
-            // Try to convert to base64 for immediate display
-            try {
-              const resp = await fetch(extractedUrl);
-              if (resp.ok) {
-                const arrayBuf = await resp.arrayBuffer();
-                const buffer = Buffer.from(arrayBuf);
-                imageBase64 = buffer.toString("base64");
-                console.log(
-                  `✅ Converted extracted URL image to base64 (${imageBase64.length} chars)`
-                );
-              } else {
-                console.warn(
-                  `⚠️ Failed to fetch extracted image URL (status ${resp.status}) - will return URL only`
-                );
-              }
-            } catch (e) {
-              console.warn(`⚠️ Could not download extracted image URL:`, e);
-            }
-          }
-        }
-
-        const generationResponsePayload = {
-          success: true,
-          isImageGeneration: true,
-          text: sanitizeImageText(altText || undefined) || "Image generated",
-          imageBase64,
-          imageUri,
-          imageLocalUri,
-          altText,
-          raw: response,
-          metadata: {
-            tokens: (response as any)?.usage?.totalTokenCount || 0,
-            candidatesTokenCount:
-              (response as any)?.usage?.candidatesTokenCount || 0,
-            promptTokenCount: (response as any)?.usage?.promptTokenCount || 0,
-          },
-        };
-
-        res.json(generationResponsePayload);
-
-        setImmediate(async () => {
-          try {
-            if (localImageCacheService.isEnabled()) {
-              if (!imageLocalUri && imageBase64) {
-                const saved = await localImageCacheService.saveBase64(
-                  effectiveUserId,
-                  effectiveChatId || "default",
-                  imageBase64,
-                  "png"
-                );
-                imageLocalUri = saved.localUri;
-                console.log(
-                  `🗃️ [BACKGROUND] Cached generated image locally: ${imageLocalUri}`
-                );
-              } else if (!imageLocalUri && imageUri) {
-                const saved = await localImageCacheService.saveFromUri(
-                  effectiveUserId,
-                  effectiveChatId || "default",
-                  imageUri,
-                  "png"
-                );
-                imageLocalUri = saved.localUri;
-                console.log(
-                  `🗃️ [BACKGROUND] Cached generated image locally: ${imageLocalUri}`
-                );
-              }
-            }
-          } catch (e) {
-            console.warn(
-              "⚠️ [BACKGROUND] Failed to save generated image locally:",
-              e
-            );
-          }
-
-          if (useMemory && effectiveUserId && (imageBase64 || imageUri)) {
-            try {
-              const hybridMemoryService = getHybridMemoryService();
-              let firebaseImageUrl: string;
-
-              if (imageBase64) {
-                console.log("📤 Uploading base64 image to Firebase Storage...");
-                firebaseImageUrl = await firebaseStorageService.uploadImage(
-                  effectiveUserId,
-                  effectiveChatId || "default",
-                  imageBase64,
-                  prompt
-                );
-              } else if (imageUri) {
-                console.log(
-                  "📤 Attempting to download URI and upload to Firebase Storage..."
-                );
-                try {
-                  const resp = await fetch(imageUri);
-                  if (resp.ok) {
-                    const arrayBuf = await resp.arrayBuffer();
-                    const buffer = Buffer.from(arrayBuf);
-                    const b64 = buffer.toString("base64");
-                    firebaseImageUrl = await firebaseStorageService.uploadImage(
-                      effectiveUserId,
-                      effectiveChatId || "default",
-                      b64,
-                      prompt
-                    );
-                  } else {
-                    console.warn(
-                      `⚠️ Failed to fetch image URI for upload (status ${resp.status}). Storing URI as-is.`
-                    );
-                    firebaseImageUrl = imageUri;
-                  }
-                } catch (err) {
-                  console.warn(
-                    "⚠️ Error downloading URI for upload, storing URI as-is:",
-                    err
-                  );
-                  firebaseImageUrl = imageUri;
-                }
-              } else {
-                console.error("❌ No image data to upload");
-                return;
-              }
-
-              console.log(`✅ Image uploaded to Firebase: ${firebaseImageUrl}`);
-
-              const conversationTurn =
-                hybridMemoryService.storeConversationTurn(
-                  effectiveUserId,
-                  prompt,
-                  altText || "Image generated",
-                  effectiveChatId,
-                  { url: firebaseImageUrl, prompt: prompt }
-                );
-
-              await firestoreChatService.saveTurn(conversationTurn);
-
-              console.log(
-                `🖼️ [BACKGROUND] Stored image URL in conversation history`
-              );
-            } catch (memoryError) {
-              console.error(
-                "❌ [BACKGROUND] Failed to upload/store image:",
-                memoryError
-              );
-            }
-          }
-        });
-
-        return;
-      }
-
-      // ✅ REMOVED: Automatic image generation detection
-      // Frontend now handles image generation explicitly via type='image' parameter
-      // This prevents unwanted interception of text messages containing image keywords
-
-      // Normal text response
-      const startTime = Date.now();
-      let response;
-
-      // If we have image context, include the actual image in the request for visual analysis
-      if (imageContextData) {
-        console.log(
-          "🖼️ Including image data in vision model request for visual Q&A"
-        );
-        response = await generateContent({
-          model: textModel,
-          contents: [
-            {
-              parts: [
-                {
-                  inlineData: {
-                    data: imageContextData.imageBase64,
-                    mimeType: "image/png",
-                  },
-                },
-                { text: enhancedPrompt },
-              ],
-            },
-          ],
-        });
-      } else {
-        // Text-only request
-        response = await generateContent({
-          model: textModel,
-          contents: [enhancedPrompt],
-        });
-      }
-
-      const duration = (Date.now() - startTime) / 1000; // Convert to seconds
-      const parts = (response as any)?.parts ?? [];
-      const text = parts.map((p: any) => p.text ?? "").join("");
-
-      console.log(
-        `✅ AI response generated (${text.length} chars) in ${duration.toFixed(2)}s - sending to user immediately...`
-      );
-
-      // ═══════════════════════════════════════════════════════════════════════
-      // � CACHE RESPONSE: Store successful text responses for future reuse
-      // ═══════════════════════════════════════════════════════════════════════
-      if (normalizedType === "text" && !imageBase64 && !documentId && text) {
-        const cacheService = getResponseCacheService();
-        // Determine TTL based on content type
-        let ttl = 3600; // Default: 1 hour
-        
-        // Code-related queries get 24 hours (more stable)
-        const codeKeywords = ["code", "function", "html", "css", "javascript", "react", "component", "example"];
-        if (codeKeywords.some(kw => prompt.toLowerCase().includes(kw))) {
-          ttl = 86400; // 24 hours
-        }
-        
-        cacheService.set(prompt, effectiveUserId, text, ttl);
-      }
-
-      // ═══════════════════════════════════════════════════════════════════════
-      // �🚀 CRITICAL: Send response to user FIRST (don't make them wait!)
-      // ═══════════════════════════════════════════════════════════════════════
-      const jsonResponse = {
-        success: true,
-        text,
-        raw: response,
-        metadata: {
-          tokens: (response as any)?.usage?.totalTokenCount || 0,
-          candidatesTokenCount:
-            (response as any)?.usage?.candidatesTokenCount || 0,
-          promptTokenCount: (response as any)?.usage?.promptTokenCount || 0,
-          duration: parseFloat(duration.toFixed(2)),
+          userId: effectiveUserId,
+          chatId: effectiveChatId,
+          userName,
+          messageCount,
+          conversationHistory,
+          conversationSummary,
+          useMemory,
+          memoryScope: toMemoryScope(memoryFolder, memoryTag),
+          useTools: tools !== false,
+          documentId,
+          type,
+          model,
+          imageBase64: req.file?.buffer.toString("base64"),
+          imageId,
+          skipCache: regenerate === true,
+          route: "ask-ai-stream",
+          allowImageOutput: hasScope(req.auth, "images"),
         },
-      };
-      res.json(jsonResponse);
-      console.log(`📤 Response sent to user!`);
-
-      // ═══════════════════════════════════════════════════════════════════════
-      // 💾 LIGHTWEIGHT: Store in local memory only (no Pinecone, super fast!)
-      // Pinecone upload happens only when user switches chats (see /api/end-chat endpoint)
-      // ═══════════════════════════════════════════════════════════════════════
-      if (useMemory && text && effectiveUserId) {
-        setImmediate(async () => {
-          try {
-            const hybridMemoryService = getHybridMemoryService();
-
-            // Store in local memory only (in-memory, instant)
-            const conversationTurn = hybridMemoryService.storeConversationTurn(
-              effectiveUserId,
-              prompt,
-              text,
-              effectiveChatId
-            );
-
-            await firestoreChatService.saveTurn(conversationTurn);
-
-            console.log(
-              `💬 [BACKGROUND] Stored turn in session (chat: ${effectiveChatId}): "${prompt.substring(0, 50)}..."`
-            );
-
-            // ⚡ OPTIMIZATION: Preload memory for next query
-            if (effectiveChatId) {
-              preloadMemoryForNextQuery(
-                effectiveUserId,
-                effectiveChatId,
-                hybridMemoryService
-              ).catch((err: any) => console.warn("Preload failed:", err));
-            }
-          } catch (memoryError) {
-            console.error(
-              "❌ [BACKGROUND] Failed to store conversation turn:",
-              memoryError
-            );
-          }
-        });
-      }
-
-      // Return is not needed as response already sent
-      return;
+        (event) => streams.append(sessionId, event),
+        abortController.signal
+      );
+      streams.complete(sessionId);
     } catch (err: any) {
-      console.error("❌ FATAL ERROR in /api/ask-ai:", err);
-      console.error("❌ Error stack:", err?.stack);
-      console.error("❌ Error name:", err?.name);
-      console.error("❌ Error message:", err?.message);
-
-      // Don't let the server crash - always return a response
-      if (!res.headersSent) {
-        return res.status(500).json({
-          success: false,
-          error: err?.message ?? String(err),
-          details:
-            process.env.NODE_ENV === "development" ? err?.stack : undefined,
-        });
+      console.error("❌ FATAL ERROR in /api/ask-ai-stream:", err);
+      if (streamId) {
+        getStreamSessionService().append(streamId, { error: err.message });
+        getStreamSessionService().complete(streamId);
+      } else if (!res.headersSent) {
+        res.write(`data: ${JSON.stringify({ error: err.message })}\n\n`);
+        res.end();
       }
     } finally {
-      try {
-        const keyUser = req.body?.userId || "anonymous";
-        const keyChat = req.body?.chatId || "global";
-        const inFlightKey = `${keyUser}:${keyChat}`;
-        const existing = inFlightChatRequests.get(inFlightKey);
-        if (existing) clearTimeout(existing);
-        inFlightChatRequests.delete(inFlightKey);
-      } catch {}
+      releaseChatLock(chatLock);
     }
   }
 );
 
 /**
- * POST /api/ask-ai-stream
- * Streaming version using Server-Sent Events (SSE)
- * body: { prompt: string, userId?: string, chatId?: string, useMemory?: boolean, ... }
- * 🔒 SECURITY: Rate limited, input validated
- * 🌊 STREAMING: Sends text chunks as they're generated
+ * GET /api/ask-ai-stream/:streamId
+ * Resume a stream that dropped. Send the last event id you received in the
+ * Last-Event-ID header (or ?lastEventId=); missed frames are replayed, then the live tail.
+ * 404 when the stream is unknown, expired or someone else's, 410 when the missed frames were already dropped.
  */
-app.post(
-  "/api/ask-ai-stream",
-  express.json(),
+app.get(
+  "/api/ask-ai-stream/:streamId",
   rateLimitMiddleware("general"),
-  async (req, res) => {
-    if (!vertex && !ai)
-      return res.status(500).json({ error: "AI client not initialized" });
-
-    try {
-      // Set SSE headers
-      res.setHeader("Content-Type", "text/event-stream");
-      res.setHeader("Cache-Control", "no-cache, no-transform");
-      res.setHeader("Connection", "keep-alive");
-      res.setHeader("X-Accel-Buffering", "no"); // Disable nginx buffering
-
-      const {
-        prompt,
-        chatId,
-        userId,
-        memory,
-        conversationHistory,
-        conversationSummary,
-        messageCount,
-        userName,
-      } = req.body;
-
-      const useMemory = memory !== false;
-      const effectiveUserId = userId || "anoop123";
-      const effectiveChatId = chatId;
-      const effectiveMessageCount =
-        messageCount !== undefined ? messageCount : undefined;
-
-      if (!prompt) {
-        res.write(`data: ${JSON.stringify({ error: "Prompt is required" })}\n\n`);
-        return res.end();
-      }
-
-      console.log(
-        `🌊 Streaming request - User: ${effectiveUserId}, Chat: ${effectiveChatId || "none"}, Prompt: "${prompt.substring(0, 50)}..."`
-      );
-
-      // Check cache first (instant response even for streaming)
-      const cacheService = getResponseCacheService();
-      const cachedResponse = cacheService.get(prompt, effectiveUserId);
-      if (cachedResponse) {
-        // Stream cached response in chunks for consistent UX
-        const chunkSize = 50;
-        for (let i = 0; i < cachedResponse.length; i += chunkSize) {
-          const chunk = cachedResponse.substring(i, i + chunkSize);
-          res.write(`data: ${JSON.stringify({ text: chunk, cached: true })}\n\n`);
-          // Small delay to simulate streaming
-          await new Promise(resolve => setTimeout(resolve, 10));
-        }
-        res.write(`data: ${JSON.stringify({ done: true, cached: true })}\n\n`);
-        return res.end();
-      }
-
-      // Auto-create profile if needed
-      if (effectiveUserId && userName) {
-        const existingProfile =
-          userProfileService.getUserProfile(effectiveUserId);
-        if (!existingProfile) {
-          userProfileService.upsertUserProfile(effectiveUserId, {
-            name: userName,
-          });
-        }
-      }
+  validateRequest(apiRoutes.resumeStream),
+  (req, res) => {
+    const { streamId } = req.params;
+    const lastEventId = req.get("Last-Event-ID") || (req.query as ApiQuery<"resumeStream">).lastEventId;
+    const parsed = parseEventId(lastEventId);
+    if (lastEventId && (!parsed || parsed.streamId !== streamId)) {
+      return res.status(400).json({ error: "Last-Event-ID does not belong to this stream" });
+    }
+    if (!getStreamSessionService().isOwner(streamId, req.auth!.uid)) {
+      return res.status(404).json({ error: "Stream not found or expired" });
+    }
 
-      let enhancedPrompt = prompt;
+    res.setHeader("Content-Type", "text/event-stream");
+    res.setHeader("Cache-Control", "no-cache, no-transform");
+    res.setHeader("Connection", "keep-alive");
+    res.setHeader("X-Accel-Buffering", "no");
+
+    const resumed = attachStreamClient(res, streamId, parsed?.seq ?? 0);
+    if (!resumed.ok) {
+      res.removeHeader("Content-Type");
+      return resumed.reason === "gap"
+        ? res.status(410).json({ error: "Stream can no longer be resumed" })
+        : res.status(404).json({ error: "Stream not found or expired" });
+    }
+    console.log(`🔁 Resuming stream ${streamId} after event ${parsed?.seq ?? 0} (${resumed.missed.length} missed)`);
+  }
+);
 
-      // Build context (same logic as non-streaming endpoint)
-      // Memory system
-      if (useMemory) {
-        const searchStrategy = effectiveMessageCount <= 2 ? "profile-only" : "full";
-        
-        if (searchStrategy === "profile-only") {
-          const profileContext = userProfileService.generateProfileContext(effectiveUserId);
-          if (profileContext) {
-            enhancedPrompt = `${profileContext}\n\n${enhancedPrompt}`;
-          }
-        } else {
-          // Full memory search
-          const hybridService = getHybridMemoryService();
-          const memoryResult = await hybridService.searchMemory(
-            effectiveUserId,
-            prompt,
-            effectiveChatId,
-            effectiveMessageCount,
-            {
-              maxLocalResults: 3,
-              maxLongTermResults: 1,
-              threshold: 0.35,
-            }
-          );
+/**
+ * DELETE /api/ask-ai-stream/:streamId
+ * Stop generating now (the stop button) - resumable streams otherwise keep going while detached
+ */
+app.delete(
+  "/api/ask-ai-stream/:streamId",
+  rateLimitMiddleware("general"),
+  validateRequest(apiRoutes.cancelStream),
+  (req, res) => {
+    if (!getStreamSessionService().isOwner(req.params.streamId, req.auth!.uid)) {
+      return res.status(404).json({ error: "Stream not found or expired" });
+    }
+    const cancelled = getStreamSessionService().cancel(req.params.streamId);
+    if (!cancelled) return res.status(404).json({ error: "Stream not found or expired" });
+    return res.json({ success: true });
+  }
+);
 
-          if (memoryResult.combinedContext) {
-            enhancedPrompt = `You are NubiqAI ✨ - helpful AI assistant with memory.
+/**
+ * POST /v1/chat/completions
+ * OpenAI Chat Completions facade over the chat pipeline - point any OpenAI SDK at <server>/v1
+ * with a personal API key. Streams `chat.completion.chunk` frames ending in `data: [DONE]` when
+ * `stream: true`. Extension field `nubiq`: { memory?: boolean, chatId?: string, tools?: boolean }
+ * (see services/openAICompatService.ts). Errors use the OpenAI `{ error: { message, type, code } }` shape.
+ * 💳 PLAN: same quotas as /api/ask-ai
+ */
+app.post("/v1/chat/completions", rateLimitMiddleware("general"), async (req, res) => {
+  const sendError = (err: OpenAIError) => res.status(err.status).json(err.toResponse());
+  if (!modelProviders.hasProviders()) return sendError(new OpenAIError("AI client not initialized", 500));
 
-⚠️ RULES:
-- Never use user's name
-- Answer "do you know X" with full explanations, not "yes I know"
-- "write an article" = detailed content
+  let chatLock: ChatLock | null = null;
+  const abortController = new AbortController();
+  res.on("close", () => {
+    if (!res.writableEnded) abortController.abort();
+  });
 
-📝 FORMAT:
-**CODE:** "Here's [type] 👍" + code + "💡 How to:" (steps) + "🔑 Key:" (concepts) + question
-**EXPLAIN:** ## headings + **bold** terms + bullets + "💡 Summary"
+  try {
+    const completion = parseChatCompletionRequest(req.body);
+    const userId = req.auth!.uid;
+
+    // 🔒 Same prompt check as /api/ask-ai (the schema checks nubiq.chatId)
+    const promptValidation = SecurityValidator.validatePrompt(completion.prompt);
+    if (!promptValidation.valid) {
+      logSecurityEvent("Invalid prompt blocked", { userId, error: promptValidation.error });
+      return sendError(new OpenAIError(promptValidation.error || "Invalid prompt", 400, "messages"));
+    }
+    if (completion.chatId) {
+      // Turns are written to the chat, so one generation per chat at a time
+      chatLock = acquireChatLock(userId, completion.chatId);
+      if (!chatLock) return sendError(new OpenAIError(CHAT_BUSY_ERROR, 409, "nubiq.chatId", "chat_busy"));
+    }
 
-${"=".repeat(60)}
-🧠 CONTEXT:
-${memoryResult.combinedContext}
-${"=".repeat(60)}
+    const id = newCompletionId();
+    const created = Math.floor(Date.now() / 1000);
+    const usage: UsageRecord[] = [];
+    let text = "";
+    let failure = null as { error: string; code?: string; status?: number } | null; // Set by the emit callback
 
-💬 Q: ${prompt}
+    // SSE headers go out with the first content, so refusals before that are plain HTTP errors
+    const writeChunk = (chunk: unknown) => res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+    const startStream = () => {
+      if (res.headersSent) return;
+      res.setHeader("Content-Type", "text/event-stream");
+      res.setHeader("Cache-Control", "no-cache, no-transform");
+      res.setHeader("Connection", "keep-alive");
+      res.setHeader("X-Accel-Buffering", "no");
+      writeChunk(completionChunk(id, created, completion.model, { role: "assistant", content: "" }));
+    };
 
-Be engaging!`;
-          }
+    await streamChatTurn(
+      {
+        prompt: completion.prompt,
+        userId,
+        chatId: completion.chatId,
+        messageCount: completion.history.length,
+        conversationHistory: completion.history,
+        useMemory: completion.memory,
+        useTools: completion.tools,
+        model: completion.pipelineModel,
+        imageBase64: completion.imageBase64,
+        instructions: completion.instructions,
+        route: "openai",
+        allowImageOutput: hasScope(req.auth, "images"),
+        onUsage: (record) => usage.push(record),
+      },
+      (event) => {
+        let content: string;
+        if ("error" in event) {
+          failure = event;
+          return;
+        } else if ("text" in event) {
+          content = event.text;
+        } else if ("image" in event) {
+          content = imageToMarkdown(event.image);
+        } else {
+          return; // Tool activity and the done frame have no OpenAI equivalent
         }
-      }
-
-      // Add conversation history (smart context selection)
-      if (conversationHistory && conversationHistory.length > 0) {
-        const maxRecentMessages = 5;
-        const recentMessages = conversationHistory.slice(-maxRecentMessages);
-        const olderMessages = conversationHistory.slice(0, -maxRecentMessages);
-        
-        const historyText = recentMessages
-          .map((msg: any) => `${msg.role.toUpperCase()}: ${msg.content}`)
-          .join("\n\n");
-
-        let summarySection = "";
-        if (conversationSummary) {
-          summarySection = `\n\n📚 OLDER MESSAGES:\n${conversationSummary}\n${"=".repeat(60)}\n\n`;
-        } else if (olderMessages.length > 0) {
-          const topicsFromOlder = olderMessages
-            .map((msg: any) => msg.content.substring(0, 50))
-            .slice(0, 3)
-            .join(", ");
-          summarySection = `\n\n📚 EARLIER CONTEXT: User discussed ${topicsFromOlder}...\n${"=".repeat(60)}\n\n`;
+        text += content;
+        if (completion.stream) {
+          startStream();
+          writeChunk(completionChunk(id, created, completion.model, { content }));
         }
+      },
+      abortController.signal
+    );
+    if (abortController.signal.aborted) return;
 
-        enhancedPrompt = `${summarySection}RECENT CONVERSATION (LAST ${recentMessages.length} MESSAGES):
-${"=".repeat(60)}
-${historyText}
-${"=".repeat(60)}
-
-${enhancedPrompt}
-
-Remember: Use recent conversation for context continuity.`;
-      }
+    if (failure) {
+      const err = new OpenAIError(failure.error, failure.status ?? 500, null, failure.code ?? null);
+      if (!res.headersSent) return sendError(err);
+      writeChunk(err.toResponse());
+      return res.end();
+    }
 
-      // Stream the response
-      const textModel =
-        process.env.TEXT_MODEL || "gemini-2.0-flash-thinking-exp-01-21";
-      let fullText = "";
-      const startTime = Date.now();
+    if (!completion.stream) {
+      return res.json(completionResponse(id, created, completion.model, text, toOpenAIUsage(usage)));
+    }
+    startStream();
+    writeChunk(completionChunk(id, created, completion.model, {}, "stop"));
+    if (completion.includeUsage) {
+      writeChunk(completionChunk(id, created, completion.model, {}, null, toOpenAIUsage(usage)));
+    }
+    res.write("data: [DONE]\n\n");
+    return res.end();
+  } catch (err: any) {
+    if (err instanceof OpenAIError) return sendError(err);
+    console.error("❌ FATAL ERROR in /v1/chat/completions:", err);
+    if (!res.headersSent) return sendError(new OpenAIError("Internal server error", 500));
+    res.end();
+  } finally {
+    releaseChatLock(chatLock);
+  }
+});
 
-      try {
-        // Use streaming generator
-        for await (const chunk of generateContentStream({
-          model: textModel,
-          contents: [enhancedPrompt],
-        })) {
-          fullText += chunk;
-          // Send chunk to client
-          res.write(`data: ${JSON.stringify({ text: chunk })}\n\n`);
-        }
+/**
+ * GET /v1/models
+ * Models for OpenAI clients that list them first. "nubiq" is the server's default model.
+ */
+app.get("/v1/models", rateLimitMiddleware("general"), (_req, res) => {
+  const models = [DEFAULT_MODEL_ALIAS, process.env.TEXT_MODEL || "gemini-2.5-pro"];
+  return res.json({
+    object: "list",
+    data: models.map((id) => ({ id, object: "model", created: 0, owned_by: "nubiq" })),
+  });
+});
 
-        const duration = (Date.now() - startTime) / 1000;
-        
-        console.log(
-          `✅ Streaming complete (${fullText.length} chars) in ${duration.toFixed(2)}s`
-        );
+/**
+ * POST /api/structured
+ * body: { prompt?: string, contents?: any[], schema: JSONSchema, model?: string, systemInstruction?: string, maxAttempts?: number }
+ * Generates JSON that matches `schema`. Invalid output is repaired or retried with the
+ * validation errors; 422 if it still doesn't validate.
+ */
+app.post(
+  "/api/structured",
+  rateLimitMiddleware("general"),
+  express.json(),
+  validateRequest(apiRoutes.structured),
+  async (req, res) => {
+    if (!modelProviders.hasProviders())
+      return res.status(500).json({ error: "AI client not initialized" });
 
-        // Cache the full response
-        if (fullText) {
-          let ttl = 3600;
-          const codeKeywords = ["code", "function", "html", "css", "javascript", "react", "component", "example"];
-          if (codeKeywords.some(kw => prompt.toLowerCase().includes(kw))) {
-            ttl = 86400;
-          }
-          cacheService.set(prompt, effectiveUserId, fullText, ttl);
-        }
+    try {
+      const { prompt, contents, schema, model, systemInstruction, maxAttempts, userId } =
+        req.body as ApiBody<"structured">;
+
+      // 💳 Plan: requested model and the daily message quota
+      const entitlements = getEntitlementService();
+      await entitlements.assertModel(req.auth!.uid, model);
+      await entitlements.consume(req.auth!.uid, "messages");
+
+      const structuredModel = model || process.env.TEXT_MODEL || "gemini-2.5-pro";
+      const result = await generateStructured({
+        model: structuredModel,
+        schema: schema as JSONSchema,
+        prompt,
+        contents: prompt ? undefined : contents,
+        systemInstruction,
+        maxAttempts,
+        meter: { userId: req.auth!.uid, route: "structured", purpose: "structured" },
+      });
 
-        // Send completion signal
-        res.write(`data: ${JSON.stringify({ done: true, duration })}\n\n`);
-        res.end();
+      const metadata = {
+        provider: result.provider,
+        model: result.model,
+        attempts: result.attempts,
+        repaired: result.repaired,
+        tokens: result.usage?.totalTokenCount,
+        promptTokens: result.usage?.promptTokenCount,
+        completionTokens: result.usage?.candidatesTokenCount,
+      };
 
-        // Note: Memory storage happens via /api/end-chat endpoint (same as regular endpoint)
-        
-      } catch (streamError: any) {
-        console.error("❌ Streaming error:", streamError);
-        res.write(`data: ${JSON.stringify({ error: streamError.message })}\n\n`);
-        res.end();
+      if (!result.ok) {
+        console.warn(`⚠️ Structured output failed validation after ${result.attempts} attempt(s)`);
+        return res.status(422).json({
+          success: false,
+          error: "Model output did not match the schema",
+          errors: result.errors,
+          data: result.data,
+          raw: result.raw,
+          metadata,
+        });
       }
+
+      console.log(`✅ Structured output validated (${result.attempts} attempt(s)${result.repaired ? ", repaired" : ""})`);
+      return res.json({ success: true, data: result.data, errors: [], metadata });
     } catch (err: any) {
-      console.error("❌ FATAL ERROR in /api/ask-ai-stream:", err);
-      if (!res.headersSent) {
-        res.write(`data: ${JSON.stringify({ error: err.message })}\n\n`);
-        res.end();
-      }
+      if (err instanceof EntitlementError) return sendEntitlementError(res, err);
+      console.error("❌ structured output error:", err);
+      return res.status(500).json({
+        success: false,
+        error: err?.message ?? String(err),
+      });
     }
   }
 );
 
 /**
  * POST /api/process-document
- * body: { fileBase64?: string, filePath?: string, mimeType?: string, prompt?: string }
+ * body: { fileBase64?: string, filePath?: string, mimeType?: string, prompt?: string, storeInMemory?: boolean, fileName?: string }
  */
 app.post(
   "/api/process-document",
   rateLimitMiddleware("general"),
   express.json(),
+  validateRequest(apiRoutes.processDocument),
   async (req, res) => {
-    if (!vertex && !ai)
+    if (!modelProviders.hasProviders())
       return res.status(500).json({ error: "AI client not initialized" });
 
     try {
@@ -2757,54 +887,9 @@ app.post(
         mimeType: clientMime,
         prompt,
         userId,
-      } = req.body;
-
-      // 🔒 Validate inputs
-      if (prompt) {
-        const promptValidation = SecurityValidator.validatePrompt(prompt);
-        if (!promptValidation.valid) {
-          logSecurityEvent("Invalid document processing prompt", {
-            userId,
-            error: promptValidation.error,
-          });
-          return res
-            .status(400)
-            .json({ error: promptValidation.error || "Invalid prompt format" });
-        }
-      }
-
-      if (userId) {
-        const userIdValidation = SecurityValidator.validateUserId(userId);
-        if (!userIdValidation.valid) {
-          logSecurityEvent("Invalid userId in document processing", {
-            userId,
-            error: userIdValidation.error,
-          });
-          return res
-            .status(400)
-            .json({
-              error: userIdValidation.error || "Invalid user ID format",
-            });
-        }
-      }
-
-      // Validate base64 document size if provided (10MB limit)
-      if (fileBase64) {
-        const base64Validation =
-          SecurityValidator.validateBase64Image(fileBase64);
-        if (!base64Validation.valid) {
-          logSecurityEvent("Document base64 validation failed", {
-            userId,
-            error: base64Validation.error,
-          });
-          return res
-            .status(400)
-            .json({
-              error:
-                base64Validation.error || "Document size exceeds 10MB limit",
-            });
-        }
-      }
+        storeInMemory = false,
+        fileName = "Uploaded Document",
+      } = req.body as ApiBody<"processDocument">;
 
       let base64Data = "";
       let mimeType = clientMime || "application/pdf";
@@ -2880,6 +965,16 @@ app.post(
         });
       }
 
+      // 💳 Plan: upload size, then the pages count against the daily document quota
+      const documentBuffer = Buffer.from(base64Data.replace(/[\r\n\s]/g, ""), "base64");
+      const entitlements = getEntitlementService();
+      await entitlements.assertUploadSize(req.auth!.uid, documentBuffer.length);
+      await entitlements.consume(
+        req.auth!.uid,
+        "documentPages",
+        countDocumentPages(documentBuffer, mimeType)
+      );
+
       // Check file size (base64 encoded size estimation)
       const estimatedSizeMB = (base64Data.length * 0.75) / (1024 * 1024); // Convert from base64 to actual size
       console.log(`Processing document: ~${estimatedSizeMB.toFixed(1)}MB`);
@@ -2981,6 +1076,7 @@ app.post(
 
           const result = await generateContent({
             model: "gemini-2.5-flash", // GA model for document processing
+            meter: { userId: req.auth!.uid, route: "process-document", purpose: "document" },
             contents: [
               {
                 parts: [
@@ -3025,8 +1121,6 @@ app.post(
       }
 
       // Optionally store the processed document in memory
-      const { storeInMemory = false, fileName = "Uploaded Document" } =
-        req.body;
       if (storeInMemory && extractedText && userId) {
         try {
           // Store the document and get its ID and summary
@@ -3055,6 +1149,7 @@ app.post(
       // If not storing, just return the extracted text as before
       return res.json({ success: true, extractedText });
     } catch (err: any) {
+      if (err instanceof EntitlementError) return sendEntitlementError(res, err);
       console.error("process-document error:", err);
 
       // Provide more specific error messages for common large file issues
@@ -3094,78 +1189,40 @@ app.post(
   "/api/process-image",
   express.json(),
   upload.single("image"), // Handle multipart/form-data
+  bindAuthenticatedUser, // multipart fields are only parsed now
   rateLimitMiddleware("general"),
+  validateRequest(apiRoutes.processImage),
   async (req, res) => {
-    if (!vertex && !ai)
+    if (!modelProviders.hasProviders())
       return res.status(500).json({ error: "AI client not initialized" });
 
     try {
-      let imageBase64: string;
-      let fileName: string;
-      let storeInMemory: boolean;
-      let userId: string | undefined;
-      let prompt: string | undefined;
+      const body = req.body as ApiBody<"processImage">;
+      const { userId, prompt } = body;
+      const storeInMemory = body.storeInMemory === true;
+      let imageBase64 = body.imageBase64;
+      let fileName = body.fileName || "Uploaded Image";
 
       // Check if request is multipart/form-data (has file) or JSON
       if (req.file) {
         // Multipart/form-data upload
         imageBase64 = req.file.buffer.toString("base64");
-        fileName =
-          req.body.fileName || req.file.originalname || "Uploaded Image";
-        storeInMemory =
-          req.body.storeInMemory === "true" || req.body.storeInMemory === true;
-        userId = req.body.userId;
-        prompt = req.body.prompt;
+        fileName = body.fileName || req.file.originalname || "Uploaded Image";
         console.log(
           `🖼️ Received multipart/form-data image upload: ${fileName} (${req.file.size} bytes)`
         );
       } else {
-        // JSON request
-        ({ imageBase64, fileName, storeInMemory, userId, prompt } = req.body);
-        fileName = fileName || "Uploaded Image";
         console.log(`🖼️ Received JSON image data`);
       }
 
-      // 🔒 Validate inputs
-      if (!imageBase64 || typeof imageBase64 !== "string") {
-        return res.status(400).json({ error: "imageBase64 is required" });
-      }
-
-      const base64Validation =
-        SecurityValidator.validateBase64Image(imageBase64);
-      if (!base64Validation.valid) {
-        logSecurityEvent("Image validation failed in process-image", {
-          userId,
-          error: base64Validation.error,
-        });
-        return res
-          .status(400)
-          .json({
-            error: base64Validation.error || "Invalid image data (max 10MB)",
-          });
-      }
-
-      if (userId) {
-        const userIdValidation = SecurityValidator.validateUserId(userId);
-        if (!userIdValidation.valid) {
-          logSecurityEvent("Invalid userId in process-image", {
-            userId,
-            error: userIdValidation.error,
-          });
-          return res.status(400).json({ error: userIdValidation.error });
-        }
+      if (!imageBase64) {
+        return res.status(400).json({ success: false, error: "imageBase64 is required" });
       }
 
-      if (prompt) {
-        const promptValidation = SecurityValidator.validatePrompt(prompt);
-        if (!promptValidation.valid) {
-          logSecurityEvent("Invalid prompt in process-image", {
-            userId,
-            error: promptValidation.error,
-          });
-          return res.status(400).json({ error: promptValidation.error });
-        }
-      }
+      // 💳 Plan: upload size and the daily message quota
+      const entitlements = getEntitlementService();
+      await entitlements.assertUploadSize(req.auth!.uid, base64ByteLength(imageBase64));
+      await entitlements.consume(req.auth!.uid, "messages");
 
       console.log(`🖼️ Processing image: ${fileName || "Unnamed"}`);
 
@@ -3184,6 +1241,7 @@ Provide a comprehensive description that will help answer questions about this i
 
       const response = await generateContent({
         model: visionModel,
+        meter: { userId: req.auth!.uid, route: "process-image", purpose: "image" },
         contents: [
           {
             parts: [
@@ -3231,6 +1289,7 @@ Provide a comprehensive description that will help answer questions about this i
       // If not storing, just return the description
       return res.json({ success: true, description });
     } catch (err: any) {
+      if (err instanceof EntitlementError) return sendEntitlementError(res, err);
       console.error("process-image error:", err);
       return res.status(500).json({
         success: false,
@@ -3249,46 +1308,25 @@ Provide a comprehensive description that will help answer questions about this i
 app.post(
   "/api/edit-image",
   upload.single("image"),
+  bindAuthenticatedUser, // multipart fields are only parsed now
   rateLimitMiddleware("image"),
+  validateRequest(apiRoutes.editImage),
   async (req, res) => {
-    if (!vertex && !ai)
+    if (!modelProviders.hasProviders())
       return res.status(500).json({ error: "AI client not initialized" });
 
     try {
-      let imageBase64: string | undefined;
-      let editPrompt: string;
-      let model: string | undefined;
-      let userId: string | undefined;
-      let imageId: string | undefined;
+      const body = req.body as ApiBody<"editImage">;
+      const { editPrompt, model, userId, imageId } = body;
+      let imageBase64 = body.imageBase64;
 
       // Check if request is multipart/form-data (has file) or JSON
       if (req.file) {
         // Multipart/form-data upload - image file provided directly
         imageBase64 = req.file.buffer.toString("base64");
-        editPrompt = req.body.editPrompt;
-        model = req.body.model;
-        userId = req.body.userId;
         console.log(
           `🎨 Received multipart image for editing: ${req.file.originalname} (${req.file.size} bytes)`
         );
-      } else {
-        // JSON request
-        const body = req.body;
-        imageBase64 = body.imageBase64;
-        imageId = body.imageId;
-        editPrompt = body.editPrompt;
-        model = body.model;
-        userId = body.userId;
-      }
-
-      // 🔒 Validate inputs
-      if (
-        !editPrompt ||
-        typeof editPrompt !== "string" ||
-        !SecurityValidator.validatePrompt(editPrompt)
-      ) {
-        logSecurityEvent("Invalid image edit prompt", { userId });
-        return res.status(400).json({ error: "Invalid or missing editPrompt" });
       }
 
       // Get image data - priority: uploaded file > imageBase64 > imageId from cache
@@ -3309,24 +1347,18 @@ app.post(
         );
       }
 
-      if (
-        !imageBase64 ||
-        typeof imageBase64 !== "string" ||
-        !SecurityValidator.validateBase64Image(imageBase64)
-      ) {
-        logSecurityEvent("Invalid image in edit-image", { userId });
-        return res
-          .status(400)
-          .json({
-            error:
-              "Invalid or oversized imageBase64 (max 10MB). Provide either imageBase64 or imageId.",
-          });
+      if (!imageBase64) {
+        return res.status(400).json({
+          success: false,
+          error: "Provide the image as a file, imageBase64 or imageId",
+        });
       }
 
-      if (userId && !SecurityValidator.validateUserId(userId)) {
-        logSecurityEvent("Invalid userId in edit-image", { userId });
-        return res.status(400).json({ error: "Invalid user ID format" });
-      }
+      // 💳 Plan: requested model, upload size and the daily image quota
+      const entitlements = getEntitlementService();
+      await entitlements.assertModel(req.auth!.uid, model);
+      await entitlements.assertUploadSize(req.auth!.uid, base64ByteLength(imageBase64));
+      await entitlements.consume(req.auth!.uid, "imageGenerations");
 
       console.log(`🎨 Editing image with prompt: "${editPrompt}"`);
 
@@ -3350,6 +1382,7 @@ Focus: Minimal, precise edits. Maximum preservation of the original image.`;
 
       const response = await generateContent({
         model: imageModel,
+        meter: { userId: req.auth!.uid, route: "edit-image", purpose: "image" },
         contents: [
           {
             parts: [
@@ -3358,6 +1391,7 @@ Focus: Minimal, precise edits. Maximum preservation of the original image.`;
             ],
           },
         ],
+        requires: ["imageOutput"],
       });
       const parts: any[] = (response as any)?.parts ?? [];
       let newImageBase64: string | null = null;
@@ -3378,7 +1412,7 @@ Focus: Minimal, precise edits. Maximum preservation of the original image.`;
         if (localImageCacheService.isEnabled()) {
           if (newImageBase64) {
             const saved = await localImageCacheService.saveBase64(
-              userId || "anonymous",
+              req.auth!.uid,
               "edit",
               newImageBase64,
               "png"
@@ -3386,7 +1420,7 @@ Focus: Minimal, precise edits. Maximum preservation of the original image.`;
             imageLocalUri = saved.localUri;
           } else if (imageUri) {
             const saved = await localImageCacheService.saveFromUri(
-              userId || "anonymous",
+              req.auth!.uid,
               "edit",
               imageUri,
               "png"
@@ -3405,8 +1439,10 @@ Focus: Minimal, precise edits. Maximum preservation of the original image.`;
         imageLocalUri,
         altText,
         raw: response,
+        provider: response.provider,
       });
     } catch (err: any) {
+      if (err instanceof EntitlementError) return sendEntitlementError(res, err);
       console.error("edit-image error:", err);
       return res
         .status(500)
@@ -3427,17 +1463,17 @@ app.post(
     { name: "image", maxCount: 1 },
     { name: "mask", maxCount: 1 },
   ]),
+  bindAuthenticatedUser, // multipart fields are only parsed now
   rateLimitMiddleware("image"),
+  validateRequest(apiRoutes.editImageWithMask),
   async (req, res) => {
-    if (!vertex && !ai)
+    if (!modelProviders.hasProviders())
       return res.status(500).json({ error: "AI client not initialized" });
 
     try {
-      let imageBase64: string;
-      let maskBase64: string;
-      let editPrompt: string;
-      let model: string | undefined;
-      let userId: string | undefined;
+      const body = req.body as ApiBody<"editImageWithMask">;
+      const { editPrompt, model, userId } = body;
+      let { imageBase64, maskBase64 } = body;
 
       // Check if request is multipart/form-data (has files) or JSON
       if (
@@ -3452,61 +1488,28 @@ app.post(
         if (!files.image || !files.mask) {
           return res
             .status(400)
-            .json({ error: "Both 'image' and 'mask' files are required" });
+            .json({ success: false, error: "Both 'image' and 'mask' files are required" });
         }
 
         imageBase64 = files.image[0].buffer.toString("base64");
         maskBase64 = files.mask[0].buffer.toString("base64");
-        editPrompt = req.body.editPrompt;
-        model = req.body.model;
-        userId = req.body.userId;
         console.log(`🎨 Received multipart image+mask for editing`);
-      } else {
-        // JSON request
-        const body = req.body;
-        imageBase64 = body.imageBase64;
-        maskBase64 = body.maskBase64;
-        editPrompt = body.editPrompt;
-        model = body.model;
-        userId = body.userId;
-      }
-
-      // 🔒 Validate inputs
-      if (
-        !editPrompt ||
-        typeof editPrompt !== "string" ||
-        !SecurityValidator.validatePrompt(editPrompt)
-      ) {
-        logSecurityEvent("Invalid mask edit prompt", { userId });
-        return res.status(400).json({ error: "Invalid or missing editPrompt" });
-      }
-
-      if (
-        !imageBase64 ||
-        typeof imageBase64 !== "string" ||
-        !SecurityValidator.validateBase64Image(imageBase64)
-      ) {
-        logSecurityEvent("Invalid image in edit-image-with-mask", { userId });
-        return res
-          .status(400)
-          .json({ error: "Invalid or oversized imageBase64 (max 10MB)" });
       }
 
-      if (
-        !maskBase64 ||
-        typeof maskBase64 !== "string" ||
-        !SecurityValidator.validateBase64Image(maskBase64)
-      ) {
-        logSecurityEvent("Invalid mask in edit-image-with-mask", { userId });
+      if (!imageBase64 || !maskBase64) {
         return res
           .status(400)
-          .json({ error: "Invalid or oversized maskBase64 (max 10MB)" });
+          .json({ success: false, error: "imageBase64 and maskBase64 are required" });
       }
 
-      if (userId && !SecurityValidator.validateUserId(userId)) {
-        logSecurityEvent("Invalid userId in edit-image-with-mask", { userId });
-        return res.status(400).json({ error: "Invalid user ID format" });
-      }
+      // 💳 Plan: requested model, upload size (image + mask) and the daily image quota
+      const entitlements = getEntitlementService();
+      await entitlements.assertModel(req.auth!.uid, model);
+      await entitlements.assertUploadSize(
+        req.auth!.uid,
+        base64ByteLength(imageBase64) + base64ByteLength(maskBase64)
+      );
+      await entitlements.consume(req.auth!.uid, "imageGenerations");
 
       // NOTE: Gemini doesn't support true mask-based editing like Stable Diffusion inpainting
       // IMPROVED APPROACH: Send actual image + mask to preserve fidelity across multiple edits
@@ -3535,6 +1538,7 @@ Focus: Minimal, precise edits to masked areas only. Maximum preservation everywh
       // Send BOTH images directly to the model (no text descriptions)
       const response = await generateContent({
         model: imageModel,
+        meter: { userId: req.auth!.uid, route: "edit-image-with-mask", purpose: "image" },
         contents: [
           {
             parts: [
@@ -3554,6 +1558,7 @@ Focus: Minimal, precise edits to masked areas only. Maximum preservation everywh
             ],
           },
         ],
+        requires: ["imageOutput"],
       });
       const parts: any[] = (response as any)?.parts ?? [];
       let newImageBase64: string | null = null;
@@ -3574,7 +1579,7 @@ Focus: Minimal, precise edits to masked areas only. Maximum preservation everywh
         if (localImageCacheService.isEnabled()) {
           if (newImageBase64) {
             const saved = await localImageCacheService.saveBase64(
-              userId || "anonymous",
+              req.auth!.uid,
               "edit-mask",
               newImageBase64,
               "png"
@@ -3582,7 +1587,7 @@ Focus: Minimal, precise edits to masked areas only. Maximum preservation everywh
             imageLocalUri2 = saved.localUri;
           } else if (imageUri) {
             const saved = await localImageCacheService.saveFromUri(
-              userId || "anonymous",
+              req.auth!.uid,
               "edit-mask",
               imageUri,
               "png"
@@ -3601,8 +1606,10 @@ Focus: Minimal, precise edits to masked areas only. Maximum preservation everywh
         imageLocalUri: imageLocalUri2,
         altText,
         raw: response,
+        provider: response.provider,
       });
     } catch (err: any) {
+      if (err instanceof EntitlementError) return sendEntitlementError(res, err);
       console.error("edit-image-with-mask error:", err);
       return res
         .status(500)
@@ -3619,22 +1626,10 @@ app.post(
   "/api/store-memory",
   rateLimitMiddleware("general"),
   express.json(),
+  validateRequest(apiRoutes.storeMemory),
   async (req, res) => {
     try {
-      const { content, type = "note", source, userId, tags } = req.body;
-
-      // 🔒 Validate inputs
-      if (!userId || !SecurityValidator.validateUserId(userId)) {
-        logSecurityEvent("Invalid userId in store-memory", { userId });
-        return res.status(400).json({ error: "Valid userId is required" });
-      }
-
-      if (!content || typeof content !== "string" || content.length > 50000) {
-        logSecurityEvent("Invalid memory content", { userId });
-        return res
-          .status(400)
-          .json({ error: "Valid content (string, max 50KB) is required" });
-      }
+      const { content, type, source, userId, tags } = req.body as ApiBody<"storeMemory">;
 
       const embeddingService = getEmbeddingService();
 
@@ -3675,42 +1670,21 @@ app.post(
   "/api/store-memories",
   rateLimitMiddleware("general"),
   express.json(),
+  validateRequest(apiRoutes.storeMemories),
   async (req, res) => {
     try {
-      const { memories } = req.body;
-
-      if (!Array.isArray(memories) || memories.length === 0) {
-        return res
-          .status(400)
-          .json({ error: "memories (array) is required and cannot be empty" });
-      }
-
-      // 🔒 Validate batch size
-      if (memories.length > 50) {
-        logSecurityEvent("Too many memories in batch", {
-          count: memories.length,
-        });
-        return res.status(400).json({ error: "Maximum 50 memories per batch" });
-      }
+      const { memories } = req.body as ApiBody<"storeMemories">;
 
-      // Validate each memory
+      // 🔒 Only the caller's own memories
       for (const memory of memories) {
-        if (
-          !memory.content ||
-          typeof memory.content !== "string" ||
-          memory.content.length > 50000
-        ) {
-          return res
-            .status(400)
-            .json({ error: "Each memory must have valid content (max 50KB)" });
-        }
-        if (memory.userId && !SecurityValidator.validateUserId(memory.userId)) {
-          logSecurityEvent("Invalid userId in batch memory", {
+        if (memory.userId && memory.userId !== req.auth!.uid) {
+          logSecurityEvent("Cross-user memory in batch", {
+            uid: req.auth!.uid,
             userId: memory.userId,
           });
           return res
-            .status(400)
-            .json({ error: "Invalid userId in memory batch" });
+            .status(403)
+            .json({ error: "Memories can only be stored for yourself" });
         }
       }
 
@@ -3721,9 +1695,9 @@ app.post(
         content: memory.content,
         metadata: {
           timestamp: Date.now(),
-          type: memory.type || "note",
+          type: memory.type,
           source: memory.source,
-          userId: memory.userId,
+          userId: req.auth!.uid,
           tags: memory.tags,
         },
       }));
@@ -3753,32 +1727,10 @@ app.post(
   "/api/search-memory",
   rateLimitMiddleware("general"),
   express.json(),
+  validateRequest(apiRoutes.searchMemory),
   async (req, res) => {
     try {
-      const { query, topK = 5, threshold = 0.7, userId, type } = req.body;
-
-      // 🔒 Validate inputs
-      if (
-        !query ||
-        typeof query !== "string" ||
-        !SecurityValidator.validatePrompt(query)
-      ) {
-        logSecurityEvent("Invalid search query", { userId });
-        return res
-          .status(400)
-          .json({ error: "Valid query (string, max 10000 chars) is required" });
-      }
-
-      if (userId && !SecurityValidator.validateUserId(userId)) {
-        logSecurityEvent("Invalid userId in search-memory", { userId });
-        return res.status(400).json({ error: "Invalid userId format" });
-      }
-
-      if (topK && (typeof topK !== "number" || topK < 1 || topK > 100)) {
-        return res
-          .status(400)
-          .json({ error: "topK must be a number between 1 and 100" });
-      }
+      const { query, topK, threshold, userId, type } = req.body as ApiBody<"searchMemory">;
 
       const embeddingService = getEmbeddingService();
 
@@ -3817,23 +1769,10 @@ app.delete(
   "/api/memory/:id",
   rateLimitMiddleware("general"),
   express.json(),
+  validateRequest(apiRoutes.deleteMemory),
   async (req, res) => {
     try {
       const { id } = req.params;
-      const { userId } = req.body; // Should be provided for ownership validation
-
-      if (!id || typeof id !== "string") {
-        return res.status(400).json({ error: "Valid Memory ID is required" });
-      }
-
-      // 🔒 Validate userId for ownership check
-      if (userId && !SecurityValidator.validateUserId(userId)) {
-        logSecurityEvent("Invalid userId in delete-memory", {
-          userId,
-          memoryId: id,
-        });
-        return res.status(400).json({ error: "Invalid userId format" });
-      }
 
       const embeddingService = getEmbeddingService();
       await embeddingService.deleteMemory(id);
@@ -3879,7 +1818,7 @@ app.get("/api/memory-stats", async (req, res) => {
  * Debug endpoint to list all memories for a user
  * ⚠️ DISABLED IN PRODUCTION
  */
-app.get("/api/debug-memories/:userId", async (req, res) => {
+app.get("/api/debug-memories/:userId", validateRequest(apiRoutes.debugMemories), async (req, res) => {
   // 🔒 Disable in production
   if (process.env.NODE_ENV === "production") {
     logSecurityEvent("Debug endpoint accessed in production", {
@@ -3893,10 +1832,6 @@ app.get("/api/debug-memories/:userId", async (req, res) => {
   try {
     const { userId } = req.params;
 
-    if (!userId || !SecurityValidator.validateUserId(userId)) {
-      return res.status(400).json({ error: "Valid User ID is required" });
-    }
-
     const embeddingService = getEmbeddingService();
 
     // Search with very broad query and low threshold to get all memories
@@ -3938,7 +1873,7 @@ app.get("/api/debug-memories/:userId", async (req, res) => {
  * Debug endpoint for hybrid memory system
  * ⚠️ DISABLED IN PRODUCTION
  */
-app.get("/api/hybrid-memory-debug/:userId", async (req, res) => {
+app.get("/api/hybrid-memory-debug/:userId", validateRequest(apiRoutes.hybridMemoryDebug), async (req, res) => {
   // 🔒 Disable in production
   if (process.env.NODE_ENV === "production") {
     logSecurityEvent("Debug endpoint accessed in production", {
@@ -3952,10 +1887,6 @@ app.get("/api/hybrid-memory-debug/:userId", async (req, res) => {
   try {
     const { userId } = req.params;
 
-    if (!userId || !SecurityValidator.validateUserId(userId)) {
-      return res.status(400).json({ error: "Valid User ID is required" });
-    }
-
     const hybridMemoryService = getHybridMemoryService();
     const debugInfo = hybridMemoryService.getMemoryDebugInfo(userId);
 
@@ -3976,20 +1907,13 @@ app.get("/api/hybrid-memory-debug/:userId", async (req, res) => {
  * GET /api/recent-context/:userId
  * Get recent conversation context for a user
  */
-app.get("/api/recent-context/:userId", async (req, res) => {
+app.get("/api/recent-context/:userId", validateRequest(apiRoutes.recentContext), async (req, res) => {
   try {
     const { userId } = req.params;
-    const { maxTurns = 10 } = req.query;
-
-    if (!userId) {
-      return res.status(400).json({ error: "User ID is required" });
-    }
+    const { maxTurns } = req.query as unknown as ApiQuery<"recentContext">;
 
     const hybridMemoryService = getHybridMemoryService();
-    const recentContext = hybridMemoryService.getRecentContext(
-      userId,
-      Number(maxTurns)
-    );
+    const recentContext = hybridMemoryService.getRecentContext(userId, maxTurns);
 
     return res.json({
       success: true,
@@ -4009,19 +1933,10 @@ app.get("/api/recent-context/:userId", async (req, res) => {
  * POST /api/hybrid-memory-search
  * Search using hybrid memory system
  */
-app.post("/api/hybrid-memory-search", async (req, res) => {
+app.post("/api/hybrid-memory-search", validateRequest(apiRoutes.hybridMemorySearch), async (req, res) => {
   try {
-    const {
-      userId,
-      query,
-      maxLocalResults = 5,
-      maxLongTermResults = 3,
-      threshold = 0.3,
-    } = req.body;
-
-    if (!userId || !query) {
-      return res.status(400).json({ error: "userId and query are required" });
-    }
+    const { userId, query, maxLocalResults, maxLongTermResults, threshold } =
+      req.body as ApiBody<"hybridMemorySearch">;
 
     const hybridMemoryService = getHybridMemoryService();
 
@@ -4059,41 +1974,11 @@ app.post(
   "/api/set-user-profile",
   rateLimitMiddleware("general"),
   express.json(),
+  validateRequest(apiRoutes.setUserProfile),
   async (req, res) => {
     try {
       const { userId, name, role, interests, preferences, background } =
-        req.body;
-
-      // 🔒 Validate userId
-      if (!userId || !SecurityValidator.validateUserId(userId)) {
-        logSecurityEvent("Invalid userId in set-user-profile", { userId });
-        return res
-          .status(400)
-          .json({ success: false, error: "Valid userId is required" });
-      }
-
-      // Validate text fields length
-      if (name && (typeof name !== "string" || name.length > 200)) {
-        return res.status(400).json({
-          success: false,
-          error: "Name must be a string (max 200 chars)",
-        });
-      }
-      if (role && (typeof role !== "string" || role.length > 200)) {
-        return res.status(400).json({
-          success: false,
-          error: "Role must be a string (max 200 chars)",
-        });
-      }
-      if (
-        background &&
-        (typeof background !== "string" || background.length > 5000)
-      ) {
-        return res.status(400).json({
-          success: false,
-          error: "Background must be a string (max 5000 chars)",
-        });
-      }
+        req.body as ApiBody<"setUserProfile">;
 
       const profileData: any = {};
       if (name) profileData.name = name;
@@ -4125,18 +2010,11 @@ app.post(
 app.get(
   "/api/get-user-profile/:userId",
   rateLimitMiddleware("general"),
+  validateRequest(apiRoutes.getUserProfile),
   async (req, res) => {
     try {
       const { userId } = req.params;
 
-      // 🔒 Validate userId
-      if (!SecurityValidator.validateUserId(userId)) {
-        logSecurityEvent("Invalid userId in get-user-profile", { userId });
-        return res
-          .status(400)
-          .json({ success: false, error: "Invalid userId format" });
-      }
-
       const profile = userProfileService.getUserProfile(userId);
 
       if (!profile) {
@@ -4210,46 +2088,37 @@ app.get("/api/performance-stats", (req, res) => {
  * Called when user switches chats - persists current chat to Pinecone
  * 🎯 OPTIMIZED: Respects cooldown to avoid spam uploads
  */
-app.post("/api/end-chat", express.json(), rateLimitMiddleware("general"), async (req, res) => {
-  try {
-    const { userId, chatId, force } = req.body;
-
-    // 🔒 Validate inputs
-    if (!userId || !SecurityValidator.validateUserId(userId)) {
-      logSecurityEvent("Invalid userId in end-chat", { userId });
-      return res
-        .status(400)
-        .json({ success: false, error: "Valid userId is required" });
-    }
-
-    if (!chatId || !SecurityValidator.validateChatId(chatId)) {
-      logSecurityEvent("Invalid chatId in end-chat", { userId, chatId });
-      return res
-        .status(400)
-        .json({ success: false, error: "Valid chatId is required" });
-    }
+app.post(
+  "/api/end-chat",
+  express.json(),
+  rateLimitMiddleware("general"),
+  validateRequest(apiRoutes.endChat),
+  async (req, res) => {
+    try {
+      const { userId, chatId, force } = req.body as ApiBody<"endChat">;
 
-    console.log(
-      `\n🔚 End chat request - User: ${userId}, Chat: ${chatId}, Force: ${force || false}`
-    );
+      console.log(
+        `\n🔚 End chat request - User: ${userId}, Chat: ${chatId}, Force: ${force || false}`
+      );
 
-    // Enqueue background persistence job with retry/backoff
-    const queue = getJobQueue();
-    queue.enqueue("persist-chat", { userId, chatId, force: !!force });
+      // Enqueue background persistence job with retry/backoff
+      const queue = getJobQueue();
+      queue.enqueue("persist-chat", { userId, chatId, force: !!force });
 
-    // Respond immediately (don't make user wait for Pinecone upload)
-    return res.json({
-      success: true,
-      message: "Chat session will be persisted in background",
-    });
-  } catch (err: any) {
-    console.error("end-chat error:", err);
-    return res.status(500).json({
-      success: false,
-      error: err?.message ?? String(err),
-    });
+      // Respond immediately (don't make user wait for Pinecone upload)
+      return res.json({
+        success: true,
+        message: "Chat session will be persisted in background",
+      });
+    } catch (err: any) {
+      console.error("end-chat error:", err);
+      return res.status(500).json({
+        success: false,
+        error: err?.message ?? String(err),
+      });
+    }
   }
-});
+);
 
 /**
  * POST /api/save-all-chats
@@ -4260,48 +2129,10 @@ app.post(
   "/api/save-all-chats",
   rateLimitMiddleware("general"),
   express.json(),
-  async (req, res) => {
-    try {
-      const { userId, chatIds } = req.body;
-
-      // 🔒 Validate inputs
-      if (!userId || !SecurityValidator.validateUserId(userId)) {
-        logSecurityEvent("Invalid userId in save-all-chats", { userId });
-        return res
-          .status(400)
-          .json({ success: false, error: "Valid userId is required" });
-      }
-
-      if (!chatIds || !Array.isArray(chatIds) || chatIds.length === 0) {
-        logSecurityEvent("Invalid chatIds in save-all-chats", { userId });
-        return res
-          .status(400)
-          .json({ success: false, error: "chatIds array is required" });
-      }
-
-      if (chatIds.length > 100) {
-        logSecurityEvent("Too many chatIds in save-all-chats", {
-          userId,
-          count: chatIds.length,
-        });
-        return res
-          .status(400)
-          .json({ success: false, error: "Maximum 100 chats per request" });
-      }
-
-      // Validate each chatId format
-      for (const chatId of chatIds) {
-        if (!SecurityValidator.validateChatId(chatId)) {
-          logSecurityEvent("Invalid chatId format in batch save", {
-            userId,
-            chatId,
-          });
-          return res.status(400).json({
-            success: false,
-            error: `Invalid chatId format: ${chatId}`,
-          });
-        }
-      }
+  validateRequest(apiRoutes.saveAllChats),
+  async (req, res) => {
+    try {
+      const { userId, chatIds } = req.body as ApiBody<"saveAllChats">;
 
       console.log(
         `\n💾 Force save all chats - User: ${userId}, Chats: ${chatIds.length}`
@@ -4343,19 +2174,9 @@ app.post(
  * 3. Return in ascending order (oldest first)
  * Query params: userId (required), source (optional: 'local', 'pinecone', or 'all')
  */
-app.get("/api/chats", rateLimitMiddleware("general"), async (req, res) => {
+app.get("/api/chats", rateLimitMiddleware("general"), validateRequest(apiRoutes.listChats), async (req, res) => {
   try {
-    const userId = req.query.userId as string;
-    const source = (req.query.source as string) || "local"; // Default to local for speed
-
-    // 🔒 Validate userId
-    if (!userId || !SecurityValidator.validateUserId(userId)) {
-      logSecurityEvent("Invalid userId in get-chats", { userId });
-      return res.status(400).json({
-        success: false,
-        error: "Valid userId query parameter is required",
-      });
-    }
+    const { userId, source } = req.query as ApiQuery<"listChats">; // source defaults to local for speed
 
     console.log(
       `\n📚 Fetching chat history for user: ${userId} (source: ${source})`
@@ -4449,6 +2270,449 @@ app.get("/api/chats", rateLimitMiddleware("general"), async (req, res) => {
   }
 });
 
+/**
+ * POST /api/chats/:chatId/active-branch
+ * The client switched branches (or started one by editing / regenerating): its
+ * active path becomes the chat's history for memory and Firestore.
+ * Body: { userId, messages: active path, branches: other branches' messages }
+ */
+app.post(
+  "/api/chats/:chatId/active-branch",
+  express.json(),
+  rateLimitMiddleware("general"),
+  validateRequest(apiRoutes.setActiveBranch),
+  async (req, res) => {
+    try {
+      const { chatId } = req.params;
+      const { userId, messages, branches } = req.body as ApiBody<"setActiveBranch">;
+
+      const turns = await setActiveBranch(userId, chatId, messages, branches);
+      if (turns === null) {
+        return res.status(503).json({ success: false, error: "Failed to store the chat branch" });
+      }
+      return res.json({ success: true, turns });
+    } catch (err: any) {
+      console.error("❌ Error switching chat branch:", err);
+      return res.status(500).json({ success: false, error: err?.message ?? String(err) });
+    }
+  }
+);
+
+/**
+ * POST /api/chats/:chatId/fork
+ * Start a new chat carrying this chat's history up to one message, a rolling summary
+ * of it and the documents it referred to. The parent chat is not changed.
+ * Body: { userId, newChatId, messageId, messages: active path, title?, documentIds? }
+ */
+app.post(
+  "/api/chats/:chatId/fork",
+  express.json(),
+  rateLimitMiddleware("general"),
+  validateRequest(apiRoutes.forkChat),
+  async (req, res) => {
+    try {
+      const { chatId } = req.params;
+      const { userId, newChatId, messageId, messages, title, documentIds } = req.body as ApiBody<"forkChat">;
+      if (newChatId === chatId) {
+        return res.status(400).json({ success: false, error: "newChatId must differ from the chat being forked" });
+      }
+      // A fork replaces whatever is stored under its id, so it can't take another chat's
+      if (await firestoreChatService.getChatDocument(userId, newChatId)) {
+        return res.status(409).json({ success: false, error: `Chat "${newChatId}" already exists` });
+      }
+
+      const fork = await forkChat(userId, chatId, { chatId: newChatId, messageId, messages, title, documentIds });
+      if (!fork) {
+        return res.status(400).json({ success: false, error: `Message "${messageId}" is not in messages` });
+      }
+      return res.json({ success: true, chatId: newChatId, ...fork });
+    } catch (err: any) {
+      console.error("❌ Error forking chat:", err);
+      return res.status(500).json({ success: false, error: err?.message ?? String(err) });
+    }
+  }
+);
+
+/**
+ * POST /api/chats/:chatId/title
+ * Rename a chat. Titles set here are the user's: background titling never replaces them.
+ * Body: { userId, title }
+ */
+app.post(
+  "/api/chats/:chatId/title",
+  express.json(),
+  rateLimitMiddleware("general"),
+  validateRequest(apiRoutes.renameChat),
+  async (req, res) => {
+    try {
+      const { chatId } = req.params;
+      const { userId, title } = req.body as ApiBody<"renameChat">;
+
+      const result = await firestoreChatService.updateTitle(userId, chatId, title, "user");
+      if (result === "not_found") {
+        return res.status(404).json({ success: false, error: "Chat not found" });
+      }
+      if (result !== "updated") {
+        return res.status(500).json({ success: false, error: "Failed to rename chat" });
+      }
+      getChatSocketService().notifyUser(userId, "chat.title", { chatId, title });
+      return res.json({ success: true, title });
+    } catch (err: any) {
+      console.error("❌ Error renaming chat:", err);
+      return res.status(500).json({ success: false, error: err?.message ?? String(err) });
+    }
+  }
+);
+
+/**
+ * POST /api/chats/:chatId/organization
+ * File a chat: move it to a folder, replace its tags, pin or unpin it. Stored on the
+ * chat's Firestore document, so every device sees it.
+ * Body: { userId, folder?: string | null, tags?: string[], pinned?: boolean }
+ */
+app.post(
+  "/api/chats/:chatId/organization",
+  express.json(),
+  rateLimitMiddleware("general"),
+  validateRequest(apiRoutes.updateChatOrganization),
+  async (req, res) => {
+    try {
+      const { chatId } = req.params;
+      const { userId, folder, tags, pinned } = req.body as ApiBody<"updateChatOrganization">;
+
+      const result = await firestoreChatService.updateChatOrganization(userId, chatId, { folder, tags, pinned });
+      if (result.status === "not_found") {
+        return res.status(404).json({ success: false, error: "Chat not found" });
+      }
+      if (result.status === "failed") {
+        return res.status(500).json({ success: false, error: "Failed to file chat" });
+      }
+      return res.json({ success: true, organization: result.organization });
+    } catch (err: any) {
+      console.error("❌ Error filing chat:", err);
+      return res.status(500).json({ success: false, error: err?.message ?? String(err) });
+    }
+  }
+);
+
+/**
+ * POST /api/chats/folders/rename
+ * Rename a folder on every chat in it; `to: null` takes the chats out of the folder.
+ * Body: { userId, from, to }
+ */
+app.post(
+  "/api/chats/folders/rename",
+  express.json(),
+  rateLimitMiddleware("general"),
+  validateRequest(apiRoutes.renameChatFolder),
+  async (req, res) => {
+    try {
+      const { userId, from, to } = req.body as ApiBody<"renameChatFolder">;
+      const updated = await firestoreChatService.renameFolder(userId, from, to);
+      if (updated === null) {
+        return res.status(500).json({ success: false, error: "Failed to rename folder" });
+      }
+      return res.json({ success: true, updated });
+    } catch (err: any) {
+      console.error("❌ Error renaming chat folder:", err);
+      return res.status(500).json({ success: false, error: err?.message ?? String(err) });
+    }
+  }
+);
+
+/**
+ * POST /api/chats/export
+ * Download one or many chats as markdown, json (lossless), self-contained html or pdf.
+ * The client sends its full chats (Firestore only keeps the latest messages); images are
+ * read from data: URLs, the local image cache or the caller's own Firebase Storage.
+ * Body: { userId, format, chats }
+ */
+app.post(
+  "/api/chats/export",
+  express.json(),
+  rateLimitMiddleware("general"),
+  validateRequest(apiRoutes.exportChats),
+  async (req, res) => {
+    try {
+      const { format, chats } = req.body as ApiBody<"exportChats">;
+      const file = await exportChats(req.auth!.uid, format, chats);
+      res.setHeader("Content-Type", file.contentType);
+      res.setHeader("Content-Disposition", `attachment; filename="${file.fileName}"`);
+      return res.send(file.body);
+    } catch (err: any) {
+      console.error("❌ Error exporting chats:", err);
+      return res.status(500).json({ success: false, error: err?.message ?? String(err) });
+    }
+  }
+);
+
+/**
+ * POST /api/chats/import (multipart: archive file, userId, backfill?)
+ * Import a ChatGPT or Claude export zip, or JSON / Markdown transcripts. The chats are
+ * stored and returned (any that couldn't be stored are listed in failedChats); with
+ * backfill=true they are also added to long-term memory in
+ * the background (progress: GET /api/chats/import/:importId, or "chat.import.progress"
+ * events on the chat WebSocket).
+ */
+app.post(
+  "/api/chats/import",
+  archiveUpload.single("archive"),
+  bindAuthenticatedUser, // multipart fields are only parsed now
+  rateLimitMiddleware("general"),
+  validateRequest(apiRoutes.importChats),
+  async (req, res) => {
+    try {
+      const { userId, backfill } = req.body as ApiBody<"importChats">;
+      if (!req.file) {
+        return res.status(400).json({ success: false, error: "Upload the archive as the 'archive' file field" });
+      }
+
+      const { chats, failedChats, importId } = await getChatImportService().importArchive(
+        userId,
+        { fileName: req.file.originalname, data: req.file.buffer },
+        backfill
+      );
+      if (importId) getJobQueue().enqueue("backfill-import", { importId }, { maxAttempts: 1 });
+      return res.json({ success: true, chats, failedChats, importId });
+    } catch (err: any) {
+      if (err instanceof ChatImportError) {
+        return res.status(err.status).json({
+          success: false,
+          error: err.message,
+          ...(err.failedChats.length ? { failedChats: err.failedChats } : {}),
+        });
+      }
+      console.error("❌ Error importing chats:", err);
+      return res.status(500).json({ success: false, error: err?.message ?? String(err) });
+    }
+  }
+);
+
+/**
+ * GET /api/chats/import/:importId?userId=
+ * Progress of an import's long-term memory backfill
+ */
+app.get(
+  "/api/chats/import/:importId",
+  rateLimitMiddleware("general"),
+  validateRequest(apiRoutes.chatImportStatus),
+  (req, res) => {
+    const { userId } = req.query as ApiQuery<"chatImportStatus">;
+    const status = getChatImportService().getStatus(userId, req.params.importId);
+    if (!status) {
+      return res.status(404).json({ success: false, error: "Import not found" });
+    }
+    return res.json({ success: true, import: status });
+  }
+);
+
+/**
+ * GET /api/chats/search?userId=&q=&limit=
+ * Keyword matches over the Firestore chats merged with Pinecone semantic hits, per message
+ */
+app.get(
+  "/api/chats/search",
+  rateLimitMiddleware("general"),
+  validateRequest(apiRoutes.searchChats),
+  async (req, res) => {
+    try {
+      const { userId, q, limit } = req.query as unknown as ApiQuery<"searchChats">;
+      const results = await searchChats(userId, q, limit);
+      return res.json({ success: true, results });
+    } catch (err: any) {
+      console.error("❌ Chat search failed:", err);
+      return res.status(500).json({ success: false, error: err?.message ?? String(err) });
+    }
+  }
+);
+
+/**
+ * GET /api/usage
+ * Token usage of one user with daily rollups (by model, route and purpose)
+ * Query params: userId (required), from / to (optional: YYYY-MM-DD, ISO or epoch ms; default last 30 days)
+ */
+app.get("/api/usage", rateLimitMiddleware("general"), validateRequest(apiRoutes.usage), async (req, res) => {
+  try {
+    const { userId, from, to } = req.query as ApiQuery<"usage">;
+    const range = parseUsageRange(from, to);
+    if ("error" in range) {
+      return res.status(400).json({ success: false, error: range.error });
+    }
+
+    const report = await getUsageLedgerService().getReport(userId, range.from, range.to);
+    return res.json({
+      success: true,
+      ...report,
+      from: new Date(report.from).toISOString(),
+      to: new Date(report.to).toISOString(),
+    });
+  } catch (err: any) {
+    console.error("❌ Error fetching usage:", err);
+    return res.status(500).json({ success: false, error: err?.message ?? String(err) });
+  }
+});
+
+/**
+ * GET /api/quota
+ * The user's plan, what it includes, and what's left of today's quotas (UTC day)
+ * Query params: userId (required)
+ */
+app.get("/api/quota", rateLimitMiddleware("general"), validateRequest(apiRoutes.quota), async (req, res) => {
+  try {
+    const { userId } = req.query as ApiQuery<"quota">;
+
+    const quota = await getEntitlementService().getQuota(userId);
+    return res.json({ success: true, ...quota });
+  } catch (err: any) {
+    console.error("❌ Error fetching quota:", err);
+    return res.status(500).json({ success: false, error: err?.message ?? String(err) });
+  }
+});
+
+/**
+ * 🔑 Issue a personal API key. The key is only returned in this response.
+ * Body: { name, scopes: ("chat" | "images" | "memory-read" | "memory-write")[], rateLimitPerMinute? }
+ */
+app.post(
+  "/api/keys",
+  requireSession,
+  rateLimitMiddleware("general"),
+  validateRequest(apiRoutes.createApiKey),
+  async (req, res) => {
+    try {
+      const created = await getApiKeyService().create(req.auth!.uid, req.body as ApiBody<"createApiKey">);
+      return res.status(201).json({ success: true, ...created });
+    } catch (err: any) {
+      if (err instanceof ApiKeyLimitError) {
+        return res.status(409).json({ success: false, error: err.message });
+      }
+      console.error("❌ Error creating API key:", err);
+      return res.status(500).json({ success: false, error: err?.message ?? String(err) });
+    }
+  }
+);
+
+/**
+ * 🔑 The caller's API keys (never the keys themselves)
+ */
+app.get("/api/keys", requireSession, rateLimitMiddleware("general"), async (req, res) => {
+  try {
+    const keys = await getApiKeyService().list(req.auth!.uid);
+    return res.json({ success: true, keys });
+  } catch (err: any) {
+    console.error("❌ Error listing API keys:", err);
+    return res.status(500).json({ success: false, error: err?.message ?? String(err) });
+  }
+});
+
+/**
+ * 🔑 Revoke one of the caller's API keys
+ */
+app.delete(
+  "/api/keys/:keyId",
+  requireSession,
+  rateLimitMiddleware("general"),
+  validateRequest(apiRoutes.revokeApiKey),
+  async (req, res) => {
+    try {
+      const revoked = await getApiKeyService().revoke(req.auth!.uid, req.params.keyId);
+      if (!revoked) {
+        return res.status(404).json({ success: false, error: "API key not found" });
+      }
+      return res.json({ success: true });
+    } catch (err: any) {
+      console.error("❌ Error revoking API key:", err);
+      return res.status(500).json({ success: false, error: err?.message ?? String(err) });
+    }
+  }
+);
+
+/**
+ * 🔗 Share a read-only snapshot of one of the caller's stored chats (its active branch;
+ * for long chats, the latest messages the store keeps).
+ * Body: { userId, expiresInDays? }
+ */
+app.post(
+  "/api/chats/:chatId/shares",
+  requireSession,
+  rateLimitMiddleware("general"),
+  validateRequest(apiRoutes.createChatShare),
+  async (req, res) => {
+    try {
+      const { expiresInDays } = req.body as ApiBody<"createChatShare">;
+      const userId = req.auth!.uid;
+      const chat = await firestoreChatService.getChatDocument(userId, req.params.chatId);
+      if (!chat?.messages?.length) {
+        return res.status(404).json({ success: false, error: "Chat not found" });
+      }
+      const share = await getChatShareService().create(userId, req.params.chatId, {
+        title: chat.title,
+        messages: chat.messages,
+        omittedMessages: Math.max(0, (chat.messageCount || 0) - chat.messages.length),
+        expiresInDays,
+      });
+      return res.status(201).json({ success: true, share });
+    } catch (err: any) {
+      if (err instanceof ChatShareTooLargeError) {
+        return res.status(413).json({ success: false, error: err.message });
+      }
+      console.error("❌ Error sharing chat:", err);
+      return res.status(500).json({ success: false, error: err?.message ?? String(err) });
+    }
+  }
+);
+
+/**
+ * 🔗 The caller's share links
+ */
+app.get("/api/shares", requireSession, rateLimitMiddleware("general"), async (req, res) => {
+  try {
+    const shares = await getChatShareService().list(req.auth!.uid);
+    return res.json({ success: true, shares });
+  } catch (err: any) {
+    console.error("❌ Error listing share links:", err);
+    return res.status(500).json({ success: false, error: err?.message ?? String(err) });
+  }
+});
+
+/**
+ * 🔗 Revoke one of the caller's share links
+ */
+app.delete(
+  "/api/shares/:token",
+  requireSession,
+  rateLimitMiddleware("general"),
+  validateRequest(apiRoutes.revokeChatShare),
+  async (req, res) => {
+    try {
+      const revoked = await getChatShareService().revoke(req.auth!.uid, req.params.token);
+      if (!revoked) {
+        return res.status(404).json({ success: false, error: "Share link not found" });
+      }
+      return res.json({ success: true });
+    } catch (err: any) {
+      console.error("❌ Error revoking share link:", err);
+      return res.status(500).json({ success: false, error: err?.message ?? String(err) });
+    }
+  }
+);
+
+/**
+ * 🔗 Public: the snapshot behind a share link (no token needed)
+ */
+app.get("/api/shared/:token", validateRequest(apiRoutes.getSharedChat), async (req, res) => {
+  try {
+    const chat = await getChatShareService().get(req.params.token);
+    if (!chat) {
+      return res.status(404).json({ success: false, error: "This share link doesn't exist or has expired" });
+    }
+    return res.json({ success: true, chat });
+  } catch (err: any) {
+    console.error("❌ Error reading shared chat:", err);
+    return res.status(500).json({ success: false, error: err?.message ?? String(err) });
+  }
+});
+
 // Register job handlers (once at module load time)
 (() => {
   const queue = getJobQueue();
@@ -4472,8 +2736,21 @@ app.get("/api/chats", rateLimitMiddleware("general"), async (req, res) => {
       }
       await firestoreChatService.markChatPersisted(userId, chatId);
       console.log(`✅ [QUEUE] Chat ${chatId} persisted`);
+      getChatSocketService().notifyUser(userId, "chat.persisted", { chatId });
     }
   );
+  queue.register("backfill-import", async ({ importId }: { importId: string }) => {
+    console.log(`📥 [QUEUE] Backfilling imported chats (${importId})...`);
+    await getChatImportService().runBackfill(importId, (userId, status) =>
+      getChatSocketService().notifyUser(userId, "chat.import.progress", status)
+    );
+  });
+  queue.register("chat-title", async ({ userId, chatId }: { userId: string; chatId: string }) => {
+    const title = await refreshChatTitle(userId, chatId);
+    if (!title) return;
+    console.log(`🏷️ [QUEUE] Chat ${chatId} titled "${title}"`);
+    getChatSocketService().notifyUser(userId, "chat.title", { chatId, title });
+  });
 })();
 
 // Queue stats endpoint for debugging
@@ -4491,15 +2768,12 @@ app.get("/api/queue-stats", rateLimitMiddleware("general"), (req, res) => {
 // Dead-letter inspection endpoint (debug only)
 app.get(
   "/api/queue-dead-letter",
+  requireAdmin,
   rateLimitMiddleware("general"),
+  validateRequest(apiRoutes.queueDeadLetter),
   (req, res) => {
     try {
-      const limitParam =
-        typeof req.query.limit === "string"
-          ? parseInt(req.query.limit, 10)
-          : undefined;
-      const limit =
-        Number.isFinite(limitParam) && limitParam! > 0 ? limitParam! : 20;
+      const { limit } = req.query as unknown as ApiQuery<"queueDeadLetter">;
       const dead = getJobQueue().getDeadLetter(limit);
       return res.json({ success: true, dead });
     } catch (err: any) {
@@ -4511,50 +2785,11 @@ app.get(
 );
 
 // 📊 Admin Analytics Endpoint - View intent classification statistics
-app.get("/api/admin/intent-analytics", (req, res) => {
+app.get("/api/admin/intent-analytics", requireAdmin, (req, res) => {
   try {
-    const totalClassifications = cacheHits + cacheMisses;
-    const cacheHitRate =
-      totalClassifications > 0
-        ? ((cacheHits / totalClassifications) * 100).toFixed(1) + "%"
-        : "0%";
-
-    const totalIntents = Array.from(intentAnalytics.values()).reduce(
-      (a, b) => a + b,
-      0
-    );
-    const intentDistribution = Array.from(intentAnalytics.entries()).map(
-      ([intent, count]) => ({
-        intent,
-        count,
-        percentage:
-          totalIntents > 0
-            ? ((count / totalIntents) * 100).toFixed(1) + "%"
-            : "0%",
-      })
-    );
-
-    const avgClassificationTime =
-      classificationTimes.length > 0
-        ? (
-            classificationTimes.reduce((a, b) => a + b, 0) /
-            classificationTimes.length
-          ).toFixed(2) + "ms"
-        : "N/A";
-
     res.json({
       success: true,
-      analytics: {
-        intentDistribution,
-        totalClassifications,
-        performance: {
-          avgClassificationTime,
-          cacheHitRate,
-          cacheHits,
-          cacheMisses,
-          cacheSize: intentCache.size,
-        },
-      },
+      analytics: getIntentAnalytics(),
     });
   } catch (err: any) {
     console.error("❌ Error fetching intent analytics:", err);
@@ -4564,6 +2799,23 @@ app.get("/api/admin/intent-analytics", (req, res) => {
   }
 });
 
+// 🔌 Admin Providers Endpoint - Registered model providers, fallback order and health
+app.get("/api/admin/providers", requireAdmin, (req, res) => {
+  try {
+    res.json({
+      success: true,
+      order: modelProviders.getOrder(),
+      providers: modelProviders.getHealth(),
+      tokenCalibration: getTokenCalibration(),
+    });
+  } catch (err: any) {
+    console.error("❌ Error fetching provider health:", err);
+    res
+      .status(500)
+      .json({ success: false, error: err?.message || String(err) });
+  }
+});
+
 // ═══════════════════════════════════════════════════════════════════════
 // 🎤 AUDIO TRANSCRIPTION ENDPOINT
 // ═══════════════════════════════════════════════════════════════════════
@@ -4571,34 +2823,24 @@ app.post(
   "/api/transcribe-audio",
   express.json({ limit: "50mb" }),
   rateLimitMiddleware("general"),
+  validateRequest(apiRoutes.transcribeAudio),
   async (req, res) => {
     try {
       console.log("🎤 Audio transcription request received");
       
-      const { audio, userId } = req.body;
-      
-      if (!audio) {
-        return res.status(400).json({ success: false, error: "Audio data is required" });
-      }
-      
-      // 🔒 Validate userId if provided
-      if (userId) {
-        const userIdValidation = SecurityValidator.validateUserId(userId);
-        if (!userIdValidation.valid) {
-          logSecurityEvent("Invalid userId blocked", {
-            userId,
-            error: userIdValidation.error,
-          });
-          return res.status(400).json({ success: false, error: userIdValidation.error });
-        }
-      }
-      
+      const { audio } = req.body as ApiBody<"transcribeAudio">;
+
+      // 💳 Plan: the daily transcription quota, given back if transcribing fails
+      const entitlements = getEntitlementService();
+      await entitlements.consume(req.auth!.uid, "transcriptions");
+
       // Use Gemini's multimodal capabilities for audio transcription
       const model = "gemini-2.0-flash-lite-001"; // Fast model for transcription
       
       try {
         const response = await generateContent({
           model,
+          meter: { userId: req.auth!.uid, route: "transcribe-audio", purpose: "transcription" },
           contents: [
             {
               parts: [
@@ -4634,9 +2876,11 @@ app.post(
         });
       } catch (transcriptionError: any) {
         console.error("❌ Transcription failed:", transcriptionError);
+        await entitlements.refund(req.auth!.uid, "transcriptions");
         throw new Error("Failed to transcribe audio: " + (transcriptionError.message || "Unknown error"));
       }
     } catch (err: any) {
+      if (err instanceof EntitlementError) return sendEntitlementError(res, err);
       console.error("❌ Error in /api/transcribe-audio:", err);
       res.status(500).json({
         success: false,
@@ -4647,22 +2891,30 @@ app.post(
 );
 
 // Start server with increased timeout for long-running requests (code generation, etc.)
-const server = app.listen(port, async () => {
-  console.log(`Server listening on http://localhost:${port}`);
-  console.log(`✅ User profiles will be created dynamically from user data`);
-  
-  // Warm response cache with common questions
-  try {
-    const cacheService = getResponseCacheService();
-    await cacheService.warmCache();
-  } catch (error) {
-    console.warn("⚠️ Cache warming failed (non-critical):", error);
-  }
-});
+// Only when run directly - tests import the app without binding a port
+if (require.main === module) {
+  const server = app.listen(port, async () => {
+    console.log(`Server listening on http://localhost:${port}`);
+    console.log(`✅ User profiles will be created dynamically from user data`);
+
+    // Warm response cache with common questions
+    try {
+      const cacheService = getResponseCacheService();
+      await cacheService.warmCache();
+    } catch (error) {
+      console.warn("⚠️ Cache warming failed (non-critical):", error);
+    }
+  });
 
-// Configure timeouts
-server.timeout = 300000; // 5 minutes (300 seconds)
-server.keepAliveTimeout = 305000; // 305 seconds (slightly higher than timeout)
-server.headersTimeout = 310000; // 310 seconds (slightly higher than keepAliveTimeout)
-console.log('✅ Server timeouts configured: 5 minutes for long requests');
+  // Chat WebSocket shares the HTTP port
+  getChatSocketService().attach(server);
+
+  // Configure timeouts
+  server.timeout = 300000; // 5 minutes (300 seconds)
+  server.keepAliveTimeout = 305000; // 305 seconds (slightly higher than timeout)
+  server.headersTimeout = 310000; // 310 seconds (slightly higher than keepAliveTimeout)
+  console.log('✅ Server timeouts configured: 5 minutes for long requests');
+}
 
+export { app };
+export default app;
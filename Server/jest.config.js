@@ -0,0 +1,15 @@
+// Jest configuration for the server route tests (offline - see tests/support)
+module.exports = {
+  preset: "ts-jest",
+  testEnvironment: "node",
+  roots: ["<rootDir>/tests"],
+  testMatch: ["**/*.test.ts"],
+  // Prefer index.ts over the stale compiled index.js next to it
+  moduleFileExtensions: ["ts", "js", "json"],
+  moduleNameMapper: {
+    "^uuid$": "<rootDir>/tests/support/uuidShim.ts",
+  },
+  setupFiles: ["<rootDir>/tests/support/setupTestEnv.ts"],
+  // Several services start cleanup/summarization intervals at import time
+  forceExit: true,
+};
@@ -0,0 +1,252 @@
+// apiKeyService.ts - Personal API keys for scripts, CI jobs and notebooks
+//
+// A key ("nbq_" + 32 random characters) is shown once when it's issued; only its
+// SHA-256 hash is stored, under apiKeys/{hash} in Firestore (in memory without it).
+// Keys act as their owner with a subset of scopes, each opening a fixed set of
+// endpoints (API_KEY_ROUTE_SCOPES) - anything not listed there is off limits to keys.
+// Every key has its own per-minute rate limit.
+
+import { createHash, randomBytes } from "crypto";
+import type * as admin from "firebase-admin";
+import { getFirestore } from "./firebaseAdmin";
+
+export type ApiKeyScope = "chat" | "images" | "memory-read" | "memory-write";
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ["chat", "images", "memory-read", "memory-write"];
+
+export const API_KEY_PREFIX = "nbq_";
+
+export const API_KEY_MAX_RATE_LIMIT = 600;
+
+/**
+ * Endpoints (paths under /api and /v1) each scope opens
+ */
+const API_KEY_ROUTE_SCOPES: { pattern: RegExp; scope: ApiKeyScope }[] = [
+  { pattern: /^\/ask-ai(-stream)?(\/|$)/, scope: "chat" },
+  { pattern: /^\/(structured|process-document|process-image|transcribe-audio)$/, scope: "chat" },
+  { pattern: /^\/(chats|chats\/export|chats\/search|chats\/folders\/rename|end-chat|save-all-chats|usage|quota)$/, scope: "chat" },
+  { pattern: /^\/chats\/import(\/[^/]+)?$/, scope: "chat" },
+  { pattern: /^\/chats\/[^/]+\/(active-branch|fork|organization|title)$/, scope: "chat" },
+  { pattern: /^\/(chat\/completions|models)$/, scope: "chat" }, // /v1 (OpenAI-compatible)
+  { pattern: /^\/(edit-image|edit-image-with-mask)$/, scope: "images" },
+  { pattern: /^\/(search-memory|hybrid-memory-search|memory-stats)$/, scope: "memory-read" },
+  { pattern: /^\/(debug-memories|hybrid-memory-debug|recent-context|get-user-profile)\//, scope: "memory-read" },
+  { pattern: /^\/(store-memory|store-memories|set-user-profile)$/, scope: "memory-write" },
+  { pattern: /^\/memory\//, scope: "memory-write" },
+];
+
+/**
+ * The scope an API key needs for a path under /api or /v1, or null when keys can't call it
+ */
+export function scopeForPath(path: string): ApiKeyScope | null {
+  return API_KEY_ROUTE_SCOPES.find((entry) => entry.pattern.test(path))?.scope ?? null;
+}
+
+export function isApiKey(token: string | undefined): token is string {
+  return !!token && token.startsWith(API_KEY_PREFIX);
+}
+
+export interface ApiKeyRecord {
+  id: string;
+  userId: string;
+  name: string;
+  prefix: string; // First characters of the key, to tell keys apart in lists
+  scopes: ApiKeyScope[];
+  rateLimitPerMinute: number;
+  createdAt: number;
+  lastUsedAt: number | null;
+  revokedAt: number | null;
+}
+
+/**
+ * What key listings show - never the hash
+ */
+export type ApiKeySummary = Omit<ApiKeyRecord, "userId">;
+
+const DEFAULT_RATE_LIMIT = Number(process.env.API_KEY_RATE_LIMIT_PER_MINUTE || 60);
+const MAX_KEYS_PER_USER = 20;
+const CACHE_TTL_MS = 60 * 1000; // How long another instance may take to notice a revocation
+const LAST_USED_WRITE_MS = 60 * 1000; // Persist lastUsedAt at most this often per key
+
+function hashKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+function summarize(record: ApiKeyRecord): ApiKeySummary {
+  const { userId: _userId, ...summary } = record;
+  return summary;
+}
+
+/**
+ * Thrown when a user already has the maximum number of active keys
+ */
+export class ApiKeyLimitError extends Error {
+  constructor() {
+    super(`You can have at most ${MAX_KEYS_PER_USER} active API keys - revoke one first`);
+    this.name = "ApiKeyLimitError";
+  }
+}
+
+class ApiKeyService {
+  private keys: Map<string, { record: ApiKeyRecord; cachedAt: number }> = new Map(); // hash -> key
+  private windows: Map<string, { count: number; resetTime: number }> = new Map(); // key id -> current minute
+  private lastUsedWrites: Map<string, number> = new Map(); // key id -> last persisted lastUsedAt
+  private firestore: admin.firestore.Firestore | null | undefined; // undefined until first use
+
+  /**
+   * Issue a key. The plaintext key is only ever returned here.
+   */
+  async create(
+    userId: string,
+    options: { name: string; scopes: ApiKeyScope[]; rateLimitPerMinute?: number }
+  ): Promise<{ key: string; apiKey: ApiKeySummary }> {
+    const active = (await this.list(userId)).filter((k) => !k.revokedAt);
+    if (active.length >= MAX_KEYS_PER_USER) {
+      throw new ApiKeyLimitError();
+    }
+
+    const key = `${API_KEY_PREFIX}${randomBytes(24).toString("base64url")}`;
+    const record: ApiKeyRecord = {
+      id: `key_${randomBytes(8).toString("hex")}`,
+      userId,
+      name: options.name.trim(),
+      prefix: key.slice(0, API_KEY_PREFIX.length + 6),
+      scopes: [...new Set(options.scopes)],
+      rateLimitPerMinute: options.rateLimitPerMinute ?? DEFAULT_RATE_LIMIT,
+      createdAt: Date.now(),
+      lastUsedAt: null,
+      revokedAt: null,
+    };
+    const hash = hashKey(key);
+    this.keys.set(hash, { record, cachedAt: Date.now() });
+
+    const firestore = this.getStore();
+    if (firestore) await firestore.collection("apiKeys").doc(hash).set(record);
+
+    console.log(`🔑 API key ${record.id} issued for ${userId} (${record.scopes.join(", ")})`);
+    return { key, apiKey: summarize(record) };
+  }
+
+  /**
+   * A user's keys, newest first (revoked ones included, marked with revokedAt)
+   */
+  async list(userId: string): Promise<ApiKeySummary[]> {
+    let records: ApiKeyRecord[];
+    const firestore = this.getStore();
+    if (firestore) {
+      const snapshot = await firestore.collection("apiKeys").where("userId", "==", userId).get();
+      records = snapshot.docs.map((doc) => doc.data() as ApiKeyRecord);
+    } else {
+      records = [...this.keys.values()].map((k) => k.record).filter((r) => r.userId === userId);
+    }
+    return records.sort((a, b) => b.createdAt - a.createdAt).map(summarize);
+  }
+
+  /**
+   * Revoke one of a user's keys. Returns false when the user has no such key.
+   */
+  async revoke(userId: string, id: string): Promise<boolean> {
+    const revokedAt = Date.now();
+    let found = false;
+    for (const entry of this.keys.values()) {
+      if (entry.record.id === id && entry.record.userId === userId) {
+        entry.record.revokedAt ??= revokedAt;
+        found = true;
+      }
+    }
+
+    const firestore = this.getStore();
+    if (firestore) {
+      const snapshot = await firestore
+        .collection("apiKeys")
+        .where("userId", "==", userId)
+        .where("id", "==", id)
+        .get();
+      for (const doc of snapshot.docs) {
+        if (!doc.data().revokedAt) await doc.ref.update({ revokedAt });
+        found = true;
+      }
+    }
+    if (found) console.log(`🔑 API key ${id} revoked for ${userId}`);
+    return found;
+  }
+
+  /**
+   * Look up an active key and mark it used. Null for unknown or revoked keys.
+   */
+  async verify(key: string): Promise<ApiKeyRecord | null> {
+    const hash = hashKey(key);
+    let entry = this.keys.get(hash);
+    const firestore = this.getStore();
+
+    if (firestore && (!entry || Date.now() - entry.cachedAt > CACHE_TTL_MS)) {
+      try {
+        const doc = await firestore.collection("apiKeys").doc(hash).get();
+        entry = doc.exists ? { record: doc.data() as ApiKeyRecord, cachedAt: Date.now() } : undefined;
+        if (entry) this.keys.set(hash, entry);
+        else this.keys.delete(hash);
+      } catch (err) {
+        console.error("❌ Failed to look up API key, using cached record:", err);
+      }
+    }
+    if (!entry || entry.record.revokedAt) return null;
+
+    const record = entry.record;
+    record.lastUsedAt = Date.now();
+    if (firestore && record.lastUsedAt - (this.lastUsedWrites.get(record.id) ?? 0) > LAST_USED_WRITE_MS) {
+      this.lastUsedWrites.set(record.id, record.lastUsedAt);
+      firestore
+        .collection("apiKeys")
+        .doc(hash)
+        .update({ lastUsedAt: record.lastUsedAt })
+        .catch((err) => console.error("❌ Failed to update API key lastUsedAt:", err));
+    }
+    return record;
+  }
+
+  /**
+   * Count a request against the key's per-minute limit. Returns the seconds to wait when it's used up.
+   */
+  checkRateLimit(record: ApiKeyRecord): { allowed: true } | { allowed: false; retryAfterSeconds: number } {
+    const now = Date.now();
+    const window = this.windows.get(record.id);
+    if (!window || now > window.resetTime) {
+      this.windows.set(record.id, { count: 1, resetTime: now + 60 * 1000 });
+      return { allowed: true };
+    }
+    if (window.count >= record.rateLimitPerMinute) {
+      return { allowed: false, retryAfterSeconds: Math.max(1, Math.ceil((window.resetTime - now) / 1000)) };
+    }
+    window.count++;
+    return { allowed: true };
+  }
+
+  /**
+   * Forget keys and rate limit windows (tests)
+   */
+  clear(): void {
+    this.keys.clear();
+    this.windows.clear();
+    this.lastUsedWrites.clear();
+  }
+
+  private getStore(): admin.firestore.Firestore | null {
+    if (this.firestore === undefined) {
+      this.firestore = getFirestore();
+      if (!this.firestore) console.warn("⚠️ API keys running without Firestore (in-memory only)");
+    }
+    return this.firestore;
+  }
+}
+
+// Singleton instance
+let apiKeyService: ApiKeyService | null = null;
+
+export function getApiKeyService(): ApiKeyService {
+  if (!apiKeyService) {
+    apiKeyService = new ApiKeyService();
+  }
+  return apiKeyService;
+}
+
+export { ApiKeyService };
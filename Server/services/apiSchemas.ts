@@ -0,0 +1,915 @@
+// apiSchemas.ts - Request and response schemas for every HTTP route
+//
+// `apiRoutes` describes each route: what its body, query and path accept and what it
+// answers with. validateRequest() checks requests against it (one 400 shape for every
+// route), openApiService turns it into /api/openapi.json, and the frontend imports the
+// inferred types with `import type` so the client is typed from the same source.
+//
+// Multipart routes receive every form field as a string, so booleans and numbers there
+// also accept "true" / "42". Objects drop keys they don't list - list every field a
+// handler reads.
+
+import { z } from "zod";
+import { SecurityValidator } from "./securityMiddleware";
+import { API_KEY_MAX_RATE_LIMIT, API_KEY_SCOPES } from "./apiKeyService";
+import { PLAN_TIERS } from "./entitlementService";
+
+type Validation = (value: string) => { valid: boolean; error?: string };
+
+/**
+ * A string checked by one of the SecurityValidator rules
+ */
+function checked(validate: Validation) {
+  return z.string().superRefine((value, ctx) => {
+    const result = validate(value);
+    if (!result.valid) ctx.addIssue({ code: "custom", message: result.error || "Invalid value" });
+  });
+}
+
+const userId = checked((v) => SecurityValidator.validateUserId(v)).describe("Must be the caller (filled in from the token when omitted)");
+const chatId = checked((v) => SecurityValidator.validateChatId(v));
+const prompt = checked((v) => SecurityValidator.validatePrompt(v));
+const base64 = checked((v) => SecurityValidator.validateBase64Image(v)).describe("Base64 without a data: prefix (max 10MB)");
+
+/**
+ * A boolean that may also arrive as a "true" / "false" form field
+ */
+const formBoolean = z.union([z.boolean(), z.enum(["true", "false"]).transform((v) => v === "true")]);
+
+/**
+ * An integer that may also arrive as a form field or query string
+ */
+function formInt(min: number, max: number) {
+  return z
+    .union([z.number(), z.string().regex(/^-?\d+$/, "Must be an integer").transform(Number)])
+    .pipe(z.number().int().min(min).max(max));
+}
+
+const historyMessage = z.object({
+  role: z.string().describe('"user" | "assistant" | "system"'),
+  content: z.string(),
+});
+
+/**
+ * Earlier messages; multipart requests send them as a JSON string
+ */
+const conversationHistory = z.union([
+  z.array(historyMessage),
+  z
+    .string()
+    .transform((value, ctx) => {
+      try {
+        return JSON.parse(value) as unknown;
+      } catch {
+        ctx.addIssue({ code: "custom", message: "conversationHistory must be a JSON array of messages" });
+        return z.NEVER;
+      }
+    })
+    .pipe(z.array(historyMessage)),
+]);
+
+const memoryType = z.enum(["conversation", "document", "note"]);
+
+// ---------------------------------------------------------------------------
+// Requests
+// ---------------------------------------------------------------------------
+
+const folderName = z.string().trim().min(1).max(80);
+const tagName = z.string().trim().min(1).max(40);
+
+const chatTurnBody = z.object({
+  prompt,
+  userId: userId.optional(),
+  chatId: chatId.optional(),
+  userName: z.string().max(200).optional(),
+  messageCount: formInt(0, 100000).optional(),
+  conversationHistory: conversationHistory.optional(),
+  conversationSummary: z.string().optional(),
+  memory: formBoolean.optional().describe("Use long-term memory (default true)"),
+  memoryFolder: folderName.optional().describe("New chats only recall chats in this folder"),
+  memoryTag: tagName.optional().describe("New chats only recall chats with this tag"),
+  tools: formBoolean.optional().describe("Let the model call built-in tools (default true)"),
+  documentId: z.string().optional(),
+  imageId: z.string().optional().describe("Image stored earlier with /api/process-image"),
+  type: z.string().optional().describe('"image" asks for image generation'),
+  model: z.string().optional(),
+});
+
+const askAiStreamBody = chatTurnBody.extend({
+  resumable: formBoolean.optional().describe("Keep generating for a while when the client drops"),
+  regenerate: formBoolean.optional().describe("Skip the answer cache"),
+});
+
+const contentPart = z.union([
+  z.object({ type: z.literal("text"), text: z.string() }),
+  z.object({ type: z.literal("image_url"), image_url: z.object({ url: z.string(), detail: z.string().optional() }) }),
+]);
+
+const chatCompletionBody = z.looseObject({
+  model: z.string().trim().min(1),
+  messages: z
+    .array(
+      z.object({
+        role: z.enum(["system", "developer", "user", "assistant", "tool", "function"]),
+        content: z.union([z.string(), z.array(contentPart), z.null()]).optional(),
+        name: z.string().optional(),
+      })
+    )
+    .min(1),
+  stream: z.boolean().optional(),
+  stream_options: z.object({ include_usage: z.boolean().optional() }).nullish(),
+  n: z.number().int().nullish(),
+  tools: z.array(z.unknown()).nullish(),
+  functions: z.array(z.unknown()).nullish(),
+  nubiq: z
+    .object({ memory: z.boolean().optional(), chatId: chatId.optional(), tools: z.boolean().optional() })
+    .optional()
+    .describe("NubiqAI extensions (send via extra_body)"),
+});
+
+const structuredBody = z
+  .object({
+    prompt: prompt.optional(),
+    contents: z.array(z.unknown()).optional().describe("Raw model contents, used when there's no prompt"),
+    schema: z
+      .record(z.string(), z.unknown())
+      .refine((schema) => typeof schema.type === "string", "schema must be a JSON Schema object with a type"),
+    model: z.string().optional(),
+    systemInstruction: z.string().optional(),
+    maxAttempts: z.number().int().min(1).max(5).optional(),
+    userId: userId.optional(),
+  })
+  .refine((body) => body.prompt !== undefined || body.contents !== undefined, {
+    message: "prompt or contents is required",
+    path: ["prompt"],
+  });
+
+const memoryBody = z.object({
+  content: z.string().min(1).max(50000),
+  type: memoryType.default("note"),
+  source: z.string().optional(),
+  userId: userId.optional(),
+  tags: z.array(z.string()).optional(),
+});
+
+const userIdParams = z.object({ userId });
+
+/**
+ * One node of a chat's message tree. Messages on the active path follow the one
+ * before them; other branches name their parent.
+ */
+const chatTreeMessage = z.object({
+  id: z.string().min(1).max(200),
+  role: z.enum(["user", "assistant"]),
+  content: z.string().max(100000),
+  timestamp: z.number().int().nonnegative().describe("Epoch ms"),
+  parentId: z.string().max(200).nullable().optional().describe("Message this one answers or follows; null at the root"),
+  attachments: z.array(z.string().max(2048)).max(10).optional().describe("Stored image URLs (no data: URLs)"),
+});
+
+// ---------------------------------------------------------------------------
+// Responses
+// ---------------------------------------------------------------------------
+
+/**
+ * Every 4xx/5xx answer. Validation failures add code "invalid_request" and the issues.
+ */
+export const apiErrorSchema = z.object({
+  success: z.literal(false),
+  error: z.string(),
+  code: z.string().optional(),
+  issues: z.array(z.object({ path: z.string(), message: z.string() })).optional(),
+});
+
+const ok = z.looseObject({ success: z.literal(true) });
+
+const usageTotals = z.object({
+  requests: z.number(),
+  promptTokens: z.number(),
+  outputTokens: z.number(),
+  totalTokens: z.number(),
+});
+
+const usageRollup = usageTotals.extend({
+  byModel: z.record(z.string(), usageTotals),
+  byRoute: z.record(z.string(), usageTotals),
+  byPurpose: z.record(z.string(), usageTotals),
+});
+
+const usageDay = usageRollup.extend({ date: z.string().describe("YYYY-MM-DD (UTC)") });
+
+const quotaFeature = z.enum(["messages", "imageGenerations", "documentPages", "transcriptions"]);
+
+const quotaStatus = z.object({
+  limit: z.number().nullable().describe("null = unlimited"),
+  used: z.number(),
+  remaining: z.number().nullable(),
+});
+
+const planEntitlements = z.object({
+  dailyMessages: z.number().nullable(),
+  dailyImageGenerations: z.number().nullable(),
+  dailyDocumentPages: z.number().nullable(),
+  dailyTranscriptions: z.number().nullable(),
+  maxUploadBytes: z.number(),
+  allowedModels: z.array(z.string()),
+});
+
+const planTier = z.enum(PLAN_TIERS);
+
+const apiKeyScope = z.enum(API_KEY_SCOPES);
+
+const sharedMessage = chatTreeMessage.omit({ parentId: true });
+
+export const EXPORT_FORMATS = ["markdown", "json", "html", "pdf"] as const;
+
+/**
+ * A message as the client holds it. Fields not listed here are kept for JSON exports.
+ */
+const exportMessage = z.looseObject({
+  id: z.string(),
+  role: z.enum(["user", "assistant"]),
+  content: z.string(),
+  timestamp: z.number().describe("Epoch ms"),
+  attachments: z.array(z.string()).optional().describe("Image URLs or data: URLs"),
+  metadata: z.record(z.string(), z.unknown()).optional(),
+});
+
+const exportChat = z.looseObject({
+  id: z.string(),
+  title: z.string(),
+  createdAt: z.number().describe("Epoch ms"),
+  updatedAt: z.number().describe("Epoch ms"),
+  messages: z.array(exportMessage).describe("The active branch"),
+  branches: z.array(exportMessage).optional(),
+});
+
+export const IMPORT_SOURCES = ["chatgpt", "claude", "nubiqai", "json", "markdown"] as const;
+
+const importedChat = z.object({
+  id: z.string().describe("Stable per source conversation: importing again replaces the chat, never one that wasn't imported"),
+  title: z.string(),
+  createdAt: z.number().describe("Epoch ms"),
+  updatedAt: z.number().describe("Epoch ms"),
+  source: z.enum(IMPORT_SOURCES),
+  messages: z.array(chatTreeMessage).describe("The active branch"),
+  branches: z.array(chatTreeMessage).describe("Other branches (e.g. regenerated ChatGPT answers)"),
+});
+
+const failedImport = z.object({ id: z.string(), title: z.string() });
+
+const chatImportStatus = z.object({
+  importId: z.string(),
+  status: z.enum(["queued", "running", "done", "failed"]),
+  totalChats: z.number(),
+  processedChats: z.number(),
+  failedChats: z.number(),
+  storedTurns: z.number().describe("Turns added to long-term memory so far"),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+});
+
+const chatOrganization = z.object({
+  folder: z.string().nullable(),
+  tags: z.array(z.string()),
+  pinnedAt: z.number().nullable().describe("Epoch ms; null = not pinned"),
+});
+
+const chatSearchResult = z.object({
+  chatId: z.string(),
+  chatTitle: z.string(),
+  messageId: z.string().describe("The Firestore message id, or `${turnId}-${role}` for chats only in long-term memory"),
+  role: z.enum(["user", "assistant"]),
+  timestamp: z.number().describe("Epoch ms"),
+  snippet: z.string(),
+  highlights: z.array(z.tuple([z.number(), z.number()])).describe("[start, end) offsets of matched terms in the snippet"),
+  score: z.number(),
+  matchedBy: z.array(z.enum(["keyword", "semantic"])),
+});
+
+const chatShareSummary = z.object({
+  token: z.string().describe("Opens the snapshot at GET /api/shared/{token}"),
+  chatId: z.string(),
+  title: z.string(),
+  messageCount: z.number(),
+  omittedMessages: z.number().describe("Earlier messages of a long chat the snapshot doesn't include"),
+  createdAt: z.number(),
+  expiresAt: z.number().nullable().describe("null = until revoked"),
+  revokedAt: z.number().nullable(),
+});
+
+const apiKeySummary = z.object({
+  id: z.string(),
+  name: z.string(),
+  prefix: z.string(),
+  scopes: z.array(apiKeyScope),
+  rateLimitPerMinute: z.number(),
+  createdAt: z.number(),
+  lastUsedAt: z.number().nullable(),
+  revokedAt: z.number().nullable(),
+});
+
+const chatAnswer = ok.extend({
+  text: z.string().optional(),
+  cached: z.boolean().optional(),
+  isImageGeneration: z.boolean().optional(),
+  imageBase64: z.string().nullish(),
+  imageUri: z.string().nullish(),
+  imageLocalUri: z.string().nullish(),
+  altText: z.string().nullish(),
+  metadata: z
+    .looseObject({
+      tokens: z.number().optional(),
+      promptTokenCount: z.number().optional(),
+      candidatesTokenCount: z.number().optional(),
+      duration: z.number().optional(),
+    })
+    .optional(),
+});
+
+const editedImage = ok.extend({
+  imageBase64: z.string().nullish(),
+  imageUri: z.string().nullish(),
+  altText: z.string().nullish(),
+});
+
+// ---------------------------------------------------------------------------
+// Routes
+// ---------------------------------------------------------------------------
+
+export interface RouteSpec {
+  method: "get" | "post" | "delete";
+  path: string; // Express path, e.g. "/api/memory/:id"
+  summary: string;
+  tag: string;
+  public?: boolean; // Answers without a token
+  body?: z.ZodType;
+  query?: z.ZodType;
+  params?: z.ZodType;
+  files?: string[]; // Multipart file fields; the other fields then arrive as form fields
+  stream?: boolean; // Answers with text/event-stream
+  download?: string[]; // Answers with a file of one of these content types
+  response?: z.ZodType;
+}
+
+export const apiRoutes = {
+  health: { method: "get", path: "/api", summary: "Health check", tag: "Meta", public: true, response: z.object({ ok: z.boolean() }) },
+  openApi: {
+    method: "get",
+    path: "/api/openapi.json",
+    summary: "This API as an OpenAPI 3.1 document",
+    tag: "Meta",
+    public: true,
+    response: z.record(z.string(), z.unknown()),
+  },
+
+  askAi: {
+    method: "post",
+    path: "/api/ask-ai",
+    summary: "Answer a chat message (or generate / edit an image)",
+    tag: "Chat",
+    body: chatTurnBody,
+    files: ["image"],
+    response: chatAnswer,
+  },
+  askAiStream: {
+    method: "post",
+    path: "/api/ask-ai-stream",
+    summary: "Stream an answer as server-sent events",
+    tag: "Chat",
+    body: askAiStreamBody,
+    files: ["image"],
+    stream: true,
+  },
+  resumeStream: {
+    method: "get",
+    path: "/api/ask-ai-stream/:streamId",
+    summary: "Resume a dropped stream after Last-Event-ID",
+    tag: "Chat",
+    params: z.object({ streamId: z.string() }),
+    query: z.object({ lastEventId: z.string().optional().describe("Instead of the Last-Event-ID header") }),
+    stream: true,
+  },
+  cancelStream: {
+    method: "delete",
+    path: "/api/ask-ai-stream/:streamId",
+    summary: "Stop a stream",
+    tag: "Chat",
+    params: z.object({ streamId: z.string() }),
+    response: ok,
+  },
+  chatCompletions: {
+    method: "post",
+    path: "/v1/chat/completions",
+    summary: "OpenAI-compatible chat completions (errors use the OpenAI shape)",
+    tag: "OpenAI compatible",
+    body: chatCompletionBody,
+    response: z.looseObject({ id: z.string(), object: z.string(), choices: z.array(z.unknown()) }),
+  },
+  models: {
+    method: "get",
+    path: "/v1/models",
+    summary: "Models for OpenAI SDKs",
+    tag: "OpenAI compatible",
+    response: z.object({ object: z.literal("list"), data: z.array(z.looseObject({ id: z.string() })) }),
+  },
+  structured: {
+    method: "post",
+    path: "/api/structured",
+    summary: "Generate JSON that matches a JSON Schema",
+    tag: "Chat",
+    body: structuredBody,
+    response: ok.extend({ data: z.unknown(), errors: z.array(z.unknown()) }),
+  },
+  processDocument: {
+    method: "post",
+    path: "/api/process-document",
+    summary: "Extract the text of a document",
+    tag: "Documents",
+    body: z.object({
+      fileBase64: base64.optional(),
+      filePath: z.string().optional(),
+      mimeType: z.string().optional().describe("Defaults to application/pdf"),
+      prompt: prompt.optional(),
+      userId: userId.optional(),
+      storeInMemory: z.boolean().optional().describe("Keep the text for questions about the document"),
+      fileName: z.string().optional(),
+    }),
+    response: ok.extend({
+      extractedText: z.string(),
+      documentId: z.string().optional().describe("Set when storeInMemory is true"),
+      summary: z.string().optional(),
+    }),
+  },
+  transcribeAudio: {
+    method: "post",
+    path: "/api/transcribe-audio",
+    summary: "Transcribe speech",
+    tag: "Documents",
+    body: z.object({ audio: z.string().min(1).describe("Base64 audio"), userId: userId.optional() }),
+    response: ok.extend({ text: z.string().optional() }),
+  },
+
+  processImage: {
+    method: "post",
+    path: "/api/process-image",
+    summary: "Describe an image, optionally keeping it for follow-up questions",
+    tag: "Images",
+    body: z.object({
+      imageBase64: base64.optional().describe("Required unless the image is uploaded as a file"),
+      fileName: z.string().optional(),
+      storeInMemory: formBoolean.optional(),
+      userId: userId.optional(),
+      prompt: prompt.optional(),
+    }),
+    files: ["image"],
+    response: ok,
+  },
+  editImage: {
+    method: "post",
+    path: "/api/edit-image",
+    summary: "Edit an image with a prompt",
+    tag: "Images",
+    body: z.object({
+      editPrompt: prompt,
+      imageBase64: base64.optional().describe("Or upload the image, or give an imageId"),
+      imageId: z.string().optional(),
+      model: z.string().optional(),
+      userId: userId.optional(),
+    }),
+    files: ["image"],
+    response: editedImage,
+  },
+  editImageWithMask: {
+    method: "post",
+    path: "/api/edit-image-with-mask",
+    summary: "Edit the masked part of an image",
+    tag: "Images",
+    body: z.object({
+      editPrompt: prompt,
+      imageBase64: base64.optional().describe("Required unless image and mask are uploaded as files"),
+      maskBase64: base64.optional(),
+      model: z.string().optional(),
+      userId: userId.optional(),
+    }),
+    files: ["image", "mask"],
+    response: editedImage,
+  },
+
+  storeMemory: {
+    method: "post",
+    path: "/api/store-memory",
+    summary: "Store a memory",
+    tag: "Memory",
+    body: memoryBody.extend({ userId }),
+    response: ok.extend({ memoryId: z.string() }),
+  },
+  storeMemories: {
+    method: "post",
+    path: "/api/store-memories",
+    summary: "Store up to 50 memories",
+    tag: "Memory",
+    body: z.object({ memories: z.array(memoryBody).min(1).max(50) }),
+    response: ok.extend({ memoryIds: z.array(z.string()) }),
+  },
+  searchMemory: {
+    method: "post",
+    path: "/api/search-memory",
+    summary: "Semantic search over memories",
+    tag: "Memory",
+    body: z.object({
+      query: prompt,
+      topK: z.number().int().min(1).max(100).default(5),
+      threshold: z.number().min(0).max(1).default(0.7),
+      userId: userId.optional(),
+      type: memoryType.optional(),
+    }),
+    response: ok.extend({ query: z.string(), results: z.array(z.unknown()), count: z.number() }),
+  },
+  deleteMemory: {
+    method: "delete",
+    path: "/api/memory/:id",
+    summary: "Delete a memory",
+    tag: "Memory",
+    params: z.object({ id: z.string().min(1) }),
+    body: z.object({ userId: userId.optional() }),
+    response: ok,
+  },
+  memoryStats: { method: "get", path: "/api/memory-stats", summary: "Vector index statistics", tag: "Memory", response: ok },
+  debugMemories: {
+    method: "get",
+    path: "/api/debug-memories/:userId",
+    summary: "List a user's memories (not in production)",
+    tag: "Memory",
+    params: userIdParams,
+    response: ok,
+  },
+  hybridMemoryDebug: {
+    method: "get",
+    path: "/api/hybrid-memory-debug/:userId",
+    summary: "Inspect the hybrid memory of a user",
+    tag: "Memory",
+    params: userIdParams,
+    response: ok,
+  },
+  recentContext: {
+    method: "get",
+    path: "/api/recent-context/:userId",
+    summary: "Recent conversation turns of a user",
+    tag: "Memory",
+    params: userIdParams,
+    query: z.object({ maxTurns: formInt(1, 100).default(10) }),
+    response: ok,
+  },
+  hybridMemorySearch: {
+    method: "post",
+    path: "/api/hybrid-memory-search",
+    summary: "Search short- and long-term memory together",
+    tag: "Memory",
+    body: z.object({
+      userId,
+      query: prompt,
+      maxLocalResults: z.number().int().min(0).max(100).default(5),
+      maxLongTermResults: z.number().int().min(0).max(100).default(3),
+      threshold: z.number().min(0).max(1).default(0.3),
+    }),
+    response: ok,
+  },
+  setUserProfile: {
+    method: "post",
+    path: "/api/set-user-profile",
+    summary: "Set profile fields",
+    tag: "Profile",
+    body: z.object({
+      userId,
+      name: z.string().max(200).optional(),
+      role: z.string().max(200).optional(),
+      interests: z.array(z.string()).optional(),
+      preferences: z.array(z.string()).optional(),
+      background: z.string().max(5000).optional(),
+    }),
+    response: ok,
+  },
+  getUserProfile: {
+    method: "get",
+    path: "/api/get-user-profile/:userId",
+    summary: "A user's profile",
+    tag: "Profile",
+    params: userIdParams,
+    response: ok,
+  },
+
+  listChats: {
+    method: "get",
+    path: "/api/chats",
+    summary: "A user's chats, oldest first",
+    tag: "Chats",
+    query: z.object({ userId, source: z.enum(["local", "pinecone", "all"]).default("local") }),
+    response: ok.extend({ data: z.array(z.unknown()) }),
+  },
+  endChat: {
+    method: "post",
+    path: "/api/end-chat",
+    summary: "Persist a chat in the background (respects a cooldown)",
+    tag: "Chats",
+    body: z.object({ userId, chatId, force: z.boolean().optional() }),
+    response: ok,
+  },
+  saveAllChats: {
+    method: "post",
+    path: "/api/save-all-chats",
+    summary: "Persist up to 100 chats now",
+    tag: "Chats",
+    body: z.object({ userId, chatIds: z.array(chatId).min(1).max(100) }),
+    response: ok,
+  },
+
+  setActiveBranch: {
+    method: "post",
+    path: "/api/chats/:chatId/active-branch",
+    summary: "Make one branch of a chat the canonical history for memory and the chat store",
+    tag: "Chats",
+    params: z.object({ chatId }),
+    body: z.object({
+      userId,
+      messages: z.array(chatTreeMessage).max(500).describe("The active path, oldest first"),
+      branches: z
+        .array(chatTreeMessage.required({ parentId: true }))
+        .max(500)
+        .default([])
+        .describe("Messages of the inactive branches"),
+    }),
+    response: ok.extend({ turns: z.number().describe("Answered turns now in session memory") }),
+  },
+
+  forkChat: {
+    method: "post",
+    path: "/api/chats/:chatId/fork",
+    summary: "Start a new chat from the history of this one up to a message",
+    tag: "Chats",
+    params: z.object({ chatId }),
+    body: z.object({
+      userId,
+      newChatId: chatId.describe("Id of the new chat (chosen by the client; 409 when it is taken)"),
+      messageId: z.string().min(1).max(200).describe("Last message carried into the new chat"),
+      messages: z.array(chatTreeMessage).min(1).max(500).describe("The parent's active path, oldest first"),
+      title: z.string().trim().min(1).max(200).optional(),
+      documentIds: z.array(z.string().max(200)).max(20).default([]).describe("Documents the carried messages refer to"),
+    }),
+    response: ok.extend({
+      chatId: z.string(),
+      turns: z.number().describe("Answered turns carried into session memory"),
+      rollingSummary: z.object({ summary: z.string(), keyFacts: z.array(z.string()) }).nullable(),
+      documentIds: z.array(z.string()).describe("Referenced documents still cached on the server"),
+    }),
+  },
+
+  usage: {
+    method: "get",
+    path: "/api/usage",
+    summary: "Token usage with daily rollups",
+    tag: "Account",
+    query: z.object({
+      userId,
+      from: z.string().optional().describe("YYYY-MM-DD, ISO or epoch ms (default: 30 days ago)"),
+      to: z.string().optional(),
+    }),
+    response: ok.extend({ userId: z.string(), from: z.string(), to: z.string(), totals: usageRollup, days: z.array(usageDay) }),
+  },
+  quota: {
+    method: "get",
+    path: "/api/quota",
+    summary: "Plan, entitlements and what's left of today's quotas",
+    tag: "Account",
+    query: z.object({ userId }),
+    response: ok.extend({
+      userId: z.string(),
+      plan: planTier,
+      entitlements: planEntitlements,
+      quotas: z.record(quotaFeature, quotaStatus),
+      resetsAt: z.string(),
+    }),
+  },
+  createApiKey: {
+    method: "post",
+    path: "/api/keys",
+    summary: "Issue a personal API key (returned only here)",
+    tag: "Account",
+    body: z.object({
+      name: z.string().trim().min(1).max(100),
+      scopes: z.array(apiKeyScope).min(1),
+      rateLimitPerMinute: z.number().int().min(1).max(API_KEY_MAX_RATE_LIMIT).optional(),
+    }),
+    response: ok.extend({ key: z.string(), apiKey: apiKeySummary }),
+  },
+  listApiKeys: {
+    method: "get",
+    path: "/api/keys",
+    summary: "The caller's API keys",
+    tag: "Account",
+    response: ok.extend({ keys: z.array(apiKeySummary) }),
+  },
+  revokeApiKey: {
+    method: "delete",
+    path: "/api/keys/:keyId",
+    summary: "Revoke an API key",
+    tag: "Account",
+    params: z.object({ keyId: z.string() }),
+    response: ok,
+  },
+
+  exportChats: {
+    method: "post",
+    path: "/api/chats/export",
+    summary: "Download chats as Markdown, JSON (lossless), self-contained HTML or PDF",
+    tag: "Chats",
+    download: ["text/markdown", "application/json", "text/html", "application/pdf"],
+    body: z.object({
+      userId,
+      format: z.enum(EXPORT_FORMATS),
+      chats: z.array(exportChat).min(1).max(500).describe("The chats as the client holds them, full history included"),
+    }),
+  },
+
+  importChats: {
+    method: "post",
+    path: "/api/chats/import",
+    summary: "Import a ChatGPT or Claude export, or JSON / Markdown transcripts (zipped or not)",
+    tag: "Chats",
+    body: z.object({
+      userId,
+      backfill: formBoolean.default(false).describe("Also add the chats to long-term memory in the background"),
+    }),
+    files: ["archive"],
+    response: ok.extend({
+      chats: z.array(importedChat).describe("The chats that were stored"),
+      failedChats: z.array(failedImport).describe("Chats that couldn't be stored; importing the file again retries them"),
+      importId: z.string().nullable().describe("Backfill progress at GET /api/chats/import/{importId}"),
+    }),
+  },
+  chatImportStatus: {
+    method: "get",
+    path: "/api/chats/import/:importId",
+    summary: "Progress of an import's long-term memory backfill",
+    tag: "Chats",
+    params: z.object({ importId: z.string() }),
+    query: z.object({ userId }),
+    response: ok.extend({ import: chatImportStatus }),
+  },
+
+  renameChat: {
+    method: "post",
+    path: "/api/chats/:chatId/title",
+    summary: "Set a chat's title; automatic titling leaves it alone from then on",
+    tag: "Chats",
+    params: z.object({ chatId }),
+    body: z.object({ userId, title: z.string().trim().min(1).max(80) }),
+    response: ok.extend({ title: z.string() }),
+  },
+  updateChatOrganization: {
+    method: "post",
+    path: "/api/chats/:chatId/organization",
+    summary: "File a chat: move it to a folder, set its tags, pin or unpin it",
+    tag: "Chats",
+    params: z.object({ chatId }),
+    body: z.object({
+      userId,
+      folder: folderName.nullable().optional().describe("null takes the chat out of its folder"),
+      tags: z
+        .array(tagName)
+        .max(20)
+        .transform((tags) => tags.filter((tag, i) => tags.findIndex((t) => t.toLowerCase() === tag.toLowerCase()) === i))
+        .optional()
+        .describe("Replaces the chat's tags"),
+      pinned: z.boolean().optional(),
+    }),
+    response: ok.extend({ organization: chatOrganization }),
+  },
+  renameChatFolder: {
+    method: "post",
+    path: "/api/chats/folders/rename",
+    summary: "Rename a folder on every chat in it (to: null removes the folder)",
+    tag: "Chats",
+    body: z.object({ userId, from: folderName, to: folderName.nullable() }),
+    response: ok.extend({ updated: z.number() }),
+  },
+
+  searchChats: {
+    method: "get",
+    path: "/api/chats/search",
+    summary: "Search chat messages by keyword and meaning, best matches first",
+    tag: "Chats",
+    query: z.object({
+      userId,
+      q: z.string().trim().min(2).max(200),
+      limit: formInt(1, 50).default(20),
+    }),
+    response: ok.extend({ results: z.array(chatSearchResult) }),
+  },
+
+  createChatShare: {
+    method: "post",
+    path: "/api/chats/:chatId/shares",
+    summary: "Publish a read-only snapshot of a stored chat behind a share link",
+    tag: "Sharing",
+    params: z.object({ chatId }),
+    body: z.object({
+      userId,
+      expiresInDays: z.number().int().min(1).max(365).optional().describe("Default: until revoked"),
+    }),
+    response: ok.extend({ share: chatShareSummary }),
+  },
+  listChatShares: {
+    method: "get",
+    path: "/api/shares",
+    summary: "The caller's share links",
+    tag: "Sharing",
+    response: ok.extend({ shares: z.array(chatShareSummary) }),
+  },
+  revokeChatShare: {
+    method: "delete",
+    path: "/api/shares/:token",
+    summary: "Revoke a share link",
+    tag: "Sharing",
+    params: z.object({ token: z.string() }),
+    response: ok,
+  },
+  getSharedChat: {
+    method: "get",
+    path: "/api/shared/:token",
+    summary: "The snapshot behind a share link",
+    tag: "Sharing",
+    public: true,
+    params: z.object({ token: z.string().max(100) }),
+    response: ok.extend({
+      chat: z.object({
+        title: z.string(),
+        messages: z.array(sharedMessage),
+        omittedMessages: z.number().describe("Earlier messages the snapshot doesn't include"),
+        createdAt: z.number(),
+        expiresAt: z.number().nullable(),
+      }),
+    }),
+  },
+
+  performanceStats: { method: "get", path: "/api/performance-stats", summary: "Cache and latency statistics", tag: "Admin", response: ok },
+  queueStats: { method: "get", path: "/api/queue-stats", summary: "Background job queue statistics", tag: "Admin", response: ok },
+  queueDeadLetter: {
+    method: "get",
+    path: "/api/queue-dead-letter",
+    summary: "Jobs that ran out of retries (admins)",
+    tag: "Admin",
+    query: z.object({ limit: formInt(1, 1000).default(20) }),
+    response: ok.extend({ dead: z.array(z.unknown()) }),
+  },
+  intentAnalytics: {
+    method: "get",
+    path: "/api/admin/intent-analytics",
+    summary: "Intent classification statistics (admins)",
+    tag: "Admin",
+    response: ok,
+  },
+  providers: { method: "get", path: "/api/admin/providers", summary: "Model providers and their health (admins)", tag: "Admin", response: ok },
+} satisfies Record<string, RouteSpec>;
+
+export type ApiRoutes = typeof apiRoutes;
+export type ApiRouteName = keyof ApiRoutes;
+
+type RoutePart<K extends ApiRouteName, P extends "body" | "query" | "params" | "response"> =
+  ApiRoutes[K] extends { [key in P]: infer S extends z.ZodType } ? S : never;
+
+/**
+ * What a client sends
+ */
+export type ApiRequestBody<K extends ApiRouteName> = z.input<RoutePart<K, "body">>;
+export type ApiRequestQuery<K extends ApiRouteName> = z.input<RoutePart<K, "query">>;
+
+/**
+ * What a handler reads after validateRequest (form fields converted, defaults applied)
+ */
+export type ApiBody<K extends ApiRouteName> = z.output<RoutePart<K, "body">>;
+export type ApiQuery<K extends ApiRouteName> = z.output<RoutePart<K, "query">>;
+
+export type ApiResponseBody<K extends ApiRouteName> = z.output<RoutePart<K, "response">>;
+export type ApiErrorBody = z.output<typeof apiErrorSchema>;
+
+export type UsageTotals = z.output<typeof usageTotals>;
+export type UsageRollup = z.output<typeof usageRollup>;
+export type UsageDay = z.output<typeof usageDay>;
+export type PlanTier = z.output<typeof planTier>;
+export type QuotaFeature = z.output<typeof quotaFeature>;
+export type QuotaStatus = z.output<typeof quotaStatus>;
+export type PlanEntitlements = z.output<typeof planEntitlements>;
+export type ApiKeyScope = z.output<typeof apiKeyScope>;
+export type ApiKeySummary = z.output<typeof apiKeySummary>;
+export type ChatTreeMessage = z.output<typeof chatTreeMessage>;
+export type ChatShareSummary = z.output<typeof chatShareSummary>;
+export type SharedChatMessage = z.output<typeof sharedMessage>;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+export type ExportChat = z.output<typeof exportChat>;
+export type ImportSource = (typeof IMPORT_SOURCES)[number];
+export type ImportedChat = z.output<typeof importedChat>;
+export type FailedImport = z.output<typeof failedImport>;
+export type ChatImportStatus = z.output<typeof chatImportStatus>;
+export type ChatSearchResult = z.output<typeof chatSearchResult>;
+export type ChatOrganization = z.output<typeof chatOrganization>;
@@ -0,0 +1,259 @@
+// authMiddleware.ts - Who is calling: Firebase ID token verification for every API request
+//
+// Clients send `Authorization: Bearer <Firebase ID token>` (WebSockets: `?token=`).
+// The verified uid is the caller's identity; a `userId` in the body, query or path
+// must match it (403 otherwise) and is filled in when missing, so route handlers
+// keep reading `userId` as before.
+//
+// Personal API keys (`Authorization: Bearer nbq_...` or `X-API-Key`) are accepted
+// alongside ID tokens: the key's owner is the caller, limited to the endpoints its
+// scopes open (see apiKeyService) and to the key's own per-minute rate limit.
+//
+// AUTH_BYPASS=true is for local development without Firebase: the claimed userId
+// (body, query, path or X-User-Id header, else DEV_USER_ID) is trusted as-is.
+// It is ignored when NODE_ENV=production.
+
+import type { IncomingMessage } from "http";
+import { Request, Response, NextFunction } from "express";
+import { getAuth } from "./firebaseAdmin";
+import { ApiKeyScope, getApiKeyService, isApiKey, scopeForPath } from "./apiKeyService";
+import { logSecurityEvent, SecurityValidator } from "./securityMiddleware";
+
+export interface AuthContext {
+  uid: string;
+  email?: string;
+  admin: boolean; // `admin` custom claim, or listed in ADMIN_USER_IDS
+  bypass: boolean; // AUTH_BYPASS identity - claimed, not verified
+  apiKey?: { id: string; scopes: ApiKeyScope[] }; // Set when the caller used a personal API key
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AuthContext;
+    }
+  }
+}
+
+/**
+ * Paths under /api that answer without a token
+ */
+const PUBLIC_PATHS = new Set(["/", "/openapi.json"]);
+const PUBLIC_PATTERNS = [/^\/shared\/[^/]+$/]; // Read-only chat share links
+
+/**
+ * Why a request couldn't be authenticated, with the HTTP status to answer with
+ */
+export class AuthError extends Error {
+  constructor(
+    message: string,
+    readonly status: 401 | 403 | 429 | 503,
+    readonly code: "auth_required" | "invalid_token" | "forbidden" | "rate_limited" | "auth_unavailable",
+    readonly retryAfterSeconds?: number
+  ) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+/**
+ * Whether the local-dev bypass is on (never in production)
+ */
+export function authBypassEnabled(): boolean {
+  if (process.env.AUTH_BYPASS !== "true") return false;
+  if (process.env.NODE_ENV === "production") {
+    console.error("❌ AUTH_BYPASS is ignored in production");
+    return false;
+  }
+  return true;
+}
+
+function isAdmin(uid: string, claims?: Record<string, any>): boolean {
+  const admins = (process.env.ADMIN_USER_IDS || "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+  return claims?.admin === true || admins.includes(uid);
+}
+
+/**
+ * Resolve the caller from a personal API key, counting the request against the key's rate limit
+ */
+async function authenticateApiKey(key: string): Promise<AuthContext> {
+  const service = getApiKeyService();
+  const record = await service.verify(key);
+  if (!record) {
+    logSecurityEvent("Invalid API key", { prefix: key.slice(0, 10) });
+    throw new AuthError("Invalid or revoked API key", 401, "invalid_token");
+  }
+
+  const limit = service.checkRateLimit(record);
+  if (!limit.allowed) {
+    throw new AuthError(
+      `API key rate limit exceeded (${record.rateLimitPerMinute} requests per minute)`,
+      429,
+      "rate_limited",
+      limit.retryAfterSeconds
+    );
+  }
+  return {
+    uid: record.userId,
+    admin: false,
+    bypass: false,
+    apiKey: { id: record.id, scopes: record.scopes },
+  };
+}
+
+/**
+ * Resolve the caller from a bearer token or API key. With the bypass on, `claimedUserId`
+ * is trusted instead of an ID token (API keys are still checked).
+ */
+export async function authenticate(token: string | undefined, claimedUserId?: string): Promise<AuthContext> {
+  if (isApiKey(token)) return authenticateApiKey(token);
+
+  if (authBypassEnabled()) {
+    const uid = claimedUserId || process.env.DEV_USER_ID || "dev-user";
+    if (!SecurityValidator.validateUserId(uid).valid) {
+      throw new AuthError("userId contains invalid characters", 401, "invalid_token");
+    }
+    return { uid, admin: true, bypass: true };
+  }
+
+  if (!token) throw new AuthError("Authentication required", 401, "auth_required");
+
+  const auth = getAuth();
+  if (!auth) throw new AuthError("Authentication is not configured on this server", 503, "auth_unavailable");
+
+  try {
+    const decoded = await auth.verifyIdToken(token);
+    return { uid: decoded.uid, email: decoded.email, admin: isAdmin(decoded.uid, decoded), bypass: false };
+  } catch (err: any) {
+    logSecurityEvent("Invalid ID token", { code: err?.code, message: err?.message });
+    throw new AuthError("Invalid or expired ID token", 401, "invalid_token");
+  }
+}
+
+function bearerToken(header: string | undefined): string | undefined {
+  const match = /^Bearer\s+(.+)$/i.exec(header || "");
+  return match?.[1];
+}
+
+function sendAuthError(res: Response, err: AuthError) {
+  if (err.retryAfterSeconds) res.setHeader("Retry-After", String(err.retryAfterSeconds));
+  return res.status(err.status).json({ success: false, error: err.message, code: err.code });
+}
+
+/**
+ * Check a claimed userId against the caller. Bypass identities follow the claim instead.
+ */
+function bindUserId(req: Request, res: Response, claimed: unknown): boolean {
+  const auth = req.auth!;
+  if (claimed === undefined || claimed === null || claimed === "") return true;
+  if (claimed === auth.uid) return true;
+  if (auth.bypass && typeof claimed === "string") {
+    auth.uid = claimed;
+    return true;
+  }
+  logSecurityEvent("Cross-user access blocked", { uid: auth.uid, claimed, path: req.originalUrl });
+  sendAuthError(res, new AuthError("You can only access your own data", 403, "forbidden"));
+  return false;
+}
+
+/**
+ * Whether the caller may use a scope. ID-token (and bypass) callers have every scope.
+ */
+export function hasScope(auth: AuthContext | undefined, scope: ApiKeyScope): boolean {
+  return !auth?.apiKey || auth.apiKey.scopes.includes(scope);
+}
+
+/**
+ * Middleware: authenticate every /api request, then bind body/query userId to the caller
+ */
+export async function authMiddleware(req: Request, res: Response, next: NextFunction) {
+  if (req.method === "OPTIONS" || PUBLIC_PATHS.has(req.path) || PUBLIC_PATTERNS.some((p) => p.test(req.path))) {
+    return next();
+  }
+
+  const claimed =
+    req.get("X-User-Id") || (req.query?.userId as string | undefined) || (req.body?.userId as string | undefined);
+  try {
+    req.auth = await authenticate(req.get("X-API-Key") || bearerToken(req.get("Authorization")), claimed);
+  } catch (err) {
+    if (err instanceof AuthError) return sendAuthError(res, err);
+    console.error("❌ Authentication failed:", err);
+    return res.status(500).json({ success: false, error: "Authentication failed" });
+  }
+
+  if (req.auth.apiKey) {
+    const scope = scopeForPath(req.path);
+    if (!scope || !req.auth.apiKey.scopes.includes(scope)) {
+      logSecurityEvent("API key scope blocked", { keyId: req.auth.apiKey.id, path: req.originalUrl });
+      const message = scope
+        ? `This API key needs the "${scope}" scope for this endpoint`
+        : "This endpoint isn't available to API keys";
+      return sendAuthError(res, new AuthError(message, 403, "forbidden"));
+    }
+  }
+
+  return bindAuthenticatedUser(req, res, next);
+}
+
+/**
+ * Middleware: bind body/query userId to the caller. Routes that parse multipart
+ * bodies run it again after multer, since the global pass saw no body.
+ */
+export function bindAuthenticatedUser(req: Request, res: Response, next: NextFunction) {
+  if (!req.auth) return next();
+  if (!bindUserId(req, res, req.query?.userId)) return;
+  if (!bindUserId(req, res, req.body?.userId)) return;
+  if (req.body && typeof req.body === "object" && !Array.isArray(req.body) && !req.body.userId) {
+    req.body.userId = req.auth.uid;
+  }
+  next();
+}
+
+/**
+ * Route parameter hook for `:userId` paths (app.param)
+ */
+export function userIdParamHandler(req: Request, res: Response, next: NextFunction, userId: string) {
+  if (!req.auth || bindUserId(req, res, userId)) next();
+}
+
+/**
+ * Middleware: only signed-in sessions (ID token or bypass), not API keys
+ */
+export function requireSession(req: Request, res: Response, next: NextFunction) {
+  if (req.auth && !req.auth.apiKey) return next();
+  return sendAuthError(res, new AuthError("This endpoint needs a signed-in session, not an API key", 403, "forbidden"));
+}
+
+/**
+ * Middleware: only admins (custom claim or ADMIN_USER_IDS)
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (req.auth?.admin) return next();
+  logSecurityEvent("Admin route blocked", { uid: req.auth?.uid, path: req.originalUrl });
+  return sendAuthError(res, new AuthError("Admin access required", 403, "forbidden"));
+}
+
+/**
+ * Authenticate a WebSocket upgrade from `?token=` (or an Authorization / X-API-Key header);
+ * with the bypass on, `?userId=` is trusted. API keys need the chat scope.
+ */
+export async function authenticateUpgrade(req: IncomingMessage): Promise<AuthContext> {
+  const url = new URL(req.url || "", "http://localhost");
+  const apiKeyHeader = req.headers["x-api-key"];
+  const token =
+    url.searchParams.get("token") ||
+    (typeof apiKeyHeader === "string" ? apiKeyHeader : undefined) ||
+    bearerToken(req.headers.authorization);
+  const claimed = url.searchParams.get("userId") || undefined;
+  const auth = await authenticate(token, claimed);
+  if (claimed && claimed !== auth.uid) {
+    throw new AuthError("You can only access your own data", 403, "forbidden");
+  }
+  if (!hasScope(auth, "chat")) {
+    throw new AuthError('This API key needs the "chat" scope for this endpoint', 403, "forbidden");
+  }
+  return auth;
+}
@@ -0,0 +1,229 @@
+// builtinTools.ts - Starter tools: calculator, date/time, memory lookup, document search
+import type { Tool } from "./toolRegistry";
+import { getHybridMemoryService } from "./hybridMemoryService";
+import { searchChunks } from "./documentCacheService";
+
+// ═══════════════════════════════════════════════════════════════════════
+// 🧮 Calculator - small recursive-descent parser (never eval user input)
+// ═══════════════════════════════════════════════════════════════════════
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  log: Math.log10,
+  ln: Math.log,
+  exp: Math.exp,
+  pow: Math.pow,
+  min: Math.min,
+  max: Math.max,
+};
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+/**
+ * Evaluate an arithmetic expression: + - * / % ^, parentheses, unary minus,
+ * the functions above and the constants pi and e
+ */
+export function evaluateExpression(expression: string): number {
+  const tokens = expression.match(/\d+\.?\d*(?:e[+-]?\d+)?|\.\d+|[a-zA-Z_]+|[-+*/%^(),]|\S/g) || [];
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const next = () => tokens[pos++];
+  const expect = (token: string) => {
+    if (next() !== token) throw new Error(`Expected "${token}"`);
+  };
+
+  // expr := term (('+' | '-') term)*
+  const parseExpr = (): number => {
+    let value = parseTerm();
+    while (peek() === "+" || peek() === "-") {
+      value = next() === "+" ? value + parseTerm() : value - parseTerm();
+    }
+    return value;
+  };
+
+  // term := unary (('*' | '/' | '%') unary)*
+  const parseTerm = (): number => {
+    let value = parseUnary();
+    while (peek() === "*" || peek() === "/" || peek() === "%") {
+      const op = next();
+      const rhs = parseUnary();
+      if ((op === "/" || op === "%") && rhs === 0) throw new Error("Division by zero");
+      value = op === "*" ? value * rhs : op === "/" ? value / rhs : value % rhs;
+    }
+    return value;
+  };
+
+  // unary := '-' unary | power
+  const parseUnary = (): number => {
+    if (peek() === "-") {
+      next();
+      return -parseUnary();
+    }
+    if (peek() === "+") {
+      next();
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  // power := primary ('^' unary)?   (right-associative)
+  const parsePower = (): number => {
+    const base = parsePrimary();
+    if (peek() === "^") {
+      next();
+      return Math.pow(base, parseUnary());
+    }
+    return base;
+  };
+
+  const parsePrimary = (): number => {
+    const token = next();
+    if (token === undefined) throw new Error("Unexpected end of expression");
+    if (token === "(") {
+      const value = parseExpr();
+      expect(")");
+      return value;
+    }
+    if (/^(\d|\.\d)/.test(token)) return parseFloat(token);
+
+    const name = token.toLowerCase();
+    if (FUNCTIONS[name]) {
+      expect("(");
+      const args = [parseExpr()];
+      while (peek() === ",") {
+        next();
+        args.push(parseExpr());
+      }
+      expect(")");
+      return FUNCTIONS[name](...args);
+    }
+    if (name in CONSTANTS) return CONSTANTS[name];
+    throw new Error(`Unexpected "${token}"`);
+  };
+
+  const result = parseExpr();
+  if (pos < tokens.length) throw new Error(`Unexpected "${tokens[pos]}"`);
+  if (!Number.isFinite(result)) throw new Error("Result is not a finite number");
+  return result;
+}
+
+const calculatorTool: Tool = {
+  name: "calculator",
+  description:
+    "Evaluate an arithmetic expression exactly. Supports + - * / % ^, parentheses, sqrt, abs, round, floor, ceil, sin, cos, tan, log (base 10), ln, exp, pow, min, max, pi and e. Use it for any non-trivial arithmetic.",
+  parameters: {
+    type: "object",
+    properties: {
+      expression: { type: "string", description: "Expression to evaluate, e.g. (17.5 * 3) / 4 + sqrt(2)" },
+    },
+    required: ["expression"],
+  },
+  handler: ({ expression }: { expression: string }) => ({
+    expression,
+    result: Number(evaluateExpression(expression).toPrecision(15)),
+  }),
+};
+
+// ═══════════════════════════════════════════════════════════════════════
+// 🕒 Current date and time
+// ═══════════════════════════════════════════════════════════════════════
+
+const dateTimeTool: Tool = {
+  name: "get_current_datetime",
+  description:
+    "Get the current date, time and day of the week, optionally in a specific IANA time zone (e.g. Europe/London). Use it whenever the answer depends on today's date or the time.",
+  parameters: {
+    type: "object",
+    properties: {
+      timezone: { type: "string", description: "IANA time zone name; defaults to UTC" },
+    },
+  },
+  handler: ({ timezone }: { timezone?: string }) => {
+    const now = new Date();
+    const timeZone = timezone || "UTC";
+    let formatted: string;
+    try {
+      formatted = new Intl.DateTimeFormat("en-US", {
+        timeZone,
+        dateStyle: "full",
+        timeStyle: "long",
+      } as Intl.DateTimeFormatOptions).format(now);
+    } catch {
+      throw new Error(`Unknown time zone "${timeZone}"`);
+    }
+    return { iso: now.toISOString(), unix: Math.floor(now.getTime() / 1000), timezone: timeZone, formatted };
+  },
+};
+
+// ═══════════════════════════════════════════════════════════════════════
+// 🧠 Memory lookup (scoped to the requesting user)
+// ═══════════════════════════════════════════════════════════════════════
+
+const memoryLookupTool: Tool = {
+  name: "search_memory",
+  description:
+    "Search the user's past conversations and saved memories. Use it when the user refers to something discussed before that isn't in the current context.",
+  parameters: {
+    type: "object",
+    properties: {
+      query: { type: "string", description: "What to look for" },
+      maxResults: { type: "integer", description: "Maximum results (1-5)", minimum: 1, maximum: 5 },
+    },
+    required: ["query"],
+  },
+  handler: async ({ query, maxResults }: { query: string; maxResults?: number }, context) => {
+    const limit = maxResults ?? 3;
+    const result = await getHybridMemoryService().searchMemory(
+      context.userId,
+      query,
+      context.chatId,
+      context.messageCount,
+      { maxLocalResults: limit, maxLongTermResults: limit, threshold: 0.3, scope: context.memoryScope }
+    );
+    return {
+      found: result.resultCount.local + result.resultCount.longTerm > 0,
+      source: result.type,
+      context: result.combinedContext,
+    };
+  },
+};
+
+// ═══════════════════════════════════════════════════════════════════════
+// 📄 Document search (documents processed via /api/process-document)
+// ═══════════════════════════════════════════════════════════════════════
+
+const documentSearchTool: Tool = {
+  name: "search_document",
+  description:
+    "Search the document the user uploaded in this chat for passages relevant to a query. Returns the document summary and the best matching sections.",
+  parameters: {
+    type: "object",
+    properties: {
+      query: { type: "string", description: "Keywords or question to search for" },
+      documentId: { type: "string", description: "Document id; defaults to the document attached to this request" },
+    },
+    required: ["query"],
+  },
+  handler: ({ query, documentId }: { query: string; documentId?: string }, context) => {
+    const id = documentId || context.documentId;
+    if (!id) throw new Error("No document is attached to this conversation");
+    const result = searchChunks(id, query);
+    if (!result) throw new Error(`Document "${id}" not found or expired`);
+    return result;
+  },
+};
+
+/**
+ * Tools registered by default
+ */
+export function createBuiltinTools(): Tool[] {
+  return [calculatorTool, dateTimeTool, memoryLookupTool, documentSearchTool];
+}
@@ -0,0 +1,81 @@
+// chatBranchService.ts - Keep one branch of a chat's message tree canonical
+//
+// Editing a user message or regenerating an answer starts a sibling branch instead of
+// overwriting the old one, and the client can switch between branches. Only the active
+// path counts as the chat's history: session memory (and so summaries, recent-context
+// and Pinecone uploads) and the Firestore transcript are rebuilt from it whenever it
+// changes. The other branches are stored next to the transcript, not in memory.
+
+import type { ConversationTurn } from "./conversationService";
+import { getHybridMemoryService } from "./hybridMemoryService";
+import { firestoreChatService } from "./firestoreChatService";
+import type { FirestoreChatMessage } from "./firestoreChatService";
+import { recentContextCache } from "./performanceOptimizations";
+import type { ChatTreeMessage } from "./apiSchemas";
+
+type BranchTurn = Pick<ConversationTurn, "userPrompt" | "aiResponse" | "timestamp" | "imageUrl">;
+
+/**
+ * Answered turns of a path: each user message with the reply that follows it.
+ * A trailing prompt without a reply is left out - its answer stores the turn.
+ */
+export function toBranchTurns(messages: ChatTreeMessage[]): BranchTurn[] {
+  const turns: BranchTurn[] = [];
+  messages.forEach((message, index) => {
+    const reply = messages[index + 1];
+    if (message.role !== "user" || reply?.role !== "assistant") return;
+    turns.push({
+      userPrompt: message.content,
+      aiResponse: reply.content,
+      timestamp: reply.timestamp,
+      imageUrl: reply.attachments?.[0],
+    });
+  });
+  return turns;
+}
+
+/**
+ * Firestore rejects undefined fields, so optional ones are only set when present
+ */
+export function toStoredMessage(message: ChatTreeMessage, withParent: boolean): FirestoreChatMessage {
+  const stored: FirestoreChatMessage = {
+    id: message.id,
+    role: message.role,
+    content: message.content,
+    timestamp: message.timestamp,
+  };
+  if (message.attachments?.length) stored.attachments = message.attachments;
+  if (withParent) stored.parentId = message.parentId ?? null;
+  return stored;
+}
+
+/**
+ * Make `messages` the chat's history; `branches` are the messages of the other branches.
+ * Memory is only rebuilt once the transcript is stored, so the two don't disagree.
+ * @returns How many answered turns the active branch has, or null when it couldn't be stored
+ */
+export async function setActiveBranch(
+  userId: string,
+  chatId: string,
+  messages: ChatTreeMessage[],
+  branches: ChatTreeMessage[]
+): Promise<number | null> {
+  const path = messages.map((message) => toStoredMessage(message, false));
+  const trailing = path[path.length - 1];
+  if (trailing?.role === "user") trailing.pending = true; // Its answer completes this message
+
+  const stored = await firestoreChatService.replaceBranch(
+    userId,
+    chatId,
+    path,
+    branches.map((message) => toStoredMessage(message, true))
+  );
+  if (!stored) return null;
+
+  const turns = toBranchTurns(messages);
+  getHybridMemoryService().replaceChatTurns(userId, chatId, turns);
+  recentContextCache.clear(userId, chatId);
+
+  console.log(`🌿 Chat ${chatId}: active branch has ${messages.length} message(s), ${branches.length} in other branches`);
+  return turns.length;
+}
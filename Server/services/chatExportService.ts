@@ -0,0 +1,342 @@
+// chatExportService.ts - Download chats as Markdown, JSON, HTML or PDF
+//
+// The client sends the chats it holds, full history included (Firestore only keeps the
+// latest messages), and this renders one or many of them into a single file:
+// - markdown: readable transcript, images linked by URL
+// - json: everything the client sent, attachments and metadata included (lossless)
+// - html: one self-contained page, images inlined as data: URLs
+// - pdf: printable transcript with images embedded
+// Images are read from data: URLs, the local image cache or the user's own Firebase
+// Storage files. Other URLs are never fetched; they stay as links.
+
+import PDFDocument from "pdfkit";
+import type { ExportChat, ExportFormat } from "./apiSchemas";
+import { firebaseStorageService } from "./firebaseStorageService";
+import { localImageCacheService } from "./localImageCacheService";
+
+export interface ChatExportFile {
+  fileName: string;
+  contentType: string;
+  body: Buffer;
+}
+
+type ExportMessage = ExportChat["messages"][number];
+
+interface LoadedImage {
+  data: Buffer;
+  mimeType: string;
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  markdown: "text/markdown; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  html: "text/html; charset=utf-8",
+  pdf: "application/pdf",
+};
+
+const EXTENSIONS: Record<ExportFormat, string> = {
+  markdown: "md",
+  json: "json",
+  html: "html",
+  pdf: "pdf",
+};
+
+/**
+ * Read an attachment's bytes, or null when it isn't one of ours (or is gone)
+ */
+async function loadImage(userId: string, url: string): Promise<LoadedImage | null> {
+  const dataUrl = /^data:([^;,]+);base64,([\s\S]*)$/.exec(url);
+  if (dataUrl) {
+    return { mimeType: dataUrl[1], data: Buffer.from(dataUrl[2], "base64") };
+  }
+
+  const cached = localImageCacheService.readFromUri(userId, url);
+  if (cached) return cached;
+
+  try {
+    const stored = await firebaseStorageService.downloadImage(userId, url);
+    return stored && { data: stored.data, mimeType: stored.contentType };
+  } catch (error) {
+    console.error("❌ Failed to load image for export:", error);
+    return null;
+  }
+}
+
+const formatDate = (ms: number) => new Date(ms).toISOString().replace("T", " ").slice(0, 16) + " UTC";
+
+const roleLabel = (role: ExportMessage["role"]) => (role === "user" ? "You" : "NubiqAI");
+
+const isImageLink = (url: string) => !url.startsWith("data:");
+
+// ---------- Markdown ----------
+
+function toMarkdown(chats: ExportChat[]): string {
+  return chats
+    .map((chat) => {
+      const lines = [`# ${chat.title}`, "", `_Created ${formatDate(chat.createdAt)}_`, ""];
+      for (const message of chat.messages) {
+        lines.push(`## ${roleLabel(message.role)} · ${formatDate(message.timestamp)}`, "", message.content, "");
+        for (const url of message.attachments ?? []) {
+          // data: URLs would bury the transcript in base64
+          lines.push(isImageLink(url) ? `![image](${url})` : "_[embedded image]_", "");
+        }
+      }
+      return lines.join("\n");
+    })
+    .join("\n---\n\n");
+}
+
+// ---------- JSON ----------
+
+function toJson(chats: ExportChat[]): string {
+  return JSON.stringify({ format: "nubiqai-chats", version: 1, exportedAt: Date.now(), chats }, null, 2);
+}
+
+// ---------- HTML ----------
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+/**
+ * Inline markdown: code, bold, italic and http(s) links
+ */
+function renderInline(text: string): string {
+  return text
+    .split(/(`[^`]+`)/)
+    .map((part) => {
+      if (/^`[^`]+`$/.test(part)) return `<code>${escapeHtml(part.slice(1, -1))}</code>`;
+      return escapeHtml(part)
+        .replace(/\*\*([^*]+)\*\*/g, "<strong>$1</strong>")
+        .replace(/(^|[^*])\*([^*\s][^*]*)\*/g, "$1<em>$2</em>")
+        .replace(/\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/g, '<a href="$2">$1</a>');
+    })
+    .join("");
+}
+
+/**
+ * Just enough markdown for chat answers: fenced code, headings, lists, quotes, paragraphs
+ */
+function markdownToHtml(markdown: string): string {
+  const html: string[] = [];
+  const lines = markdown.split(/\r?\n/);
+  let paragraph: string[] = [];
+  let list: { tag: "ul" | "ol"; items: string[] } | null = null;
+
+  const flush = () => {
+    if (paragraph.length) html.push(`<p>${paragraph.map(renderInline).join("<br>")}</p>`);
+    if (list) html.push(`<${list.tag}>${list.items.map((item) => `<li>${renderInline(item)}</li>`).join("")}</${list.tag}>`);
+    paragraph = [];
+    list = null;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fence = /^```(\S*)/.exec(line);
+    if (fence) {
+      flush();
+      const code: string[] = [];
+      while (++i < lines.length && !lines[i].startsWith("```")) code.push(lines[i]);
+      const lang = fence[1] ? ` class="language-${escapeHtml(fence[1])}"` : "";
+      html.push(`<pre><code${lang}>${escapeHtml(code.join("\n"))}</code></pre>`);
+      continue;
+    }
+
+    const heading = /^(#{1,6})\s+(.*)$/.exec(line);
+    const bullet = /^\s*[-*+]\s+(.*)$/.exec(line);
+    const numbered = /^\s*\d+[.)]\s+(.*)$/.exec(line);
+    const quote = /^>\s?(.*)$/.exec(line);
+
+    if (heading) {
+      flush();
+      const level = Math.min(heading[1].length + 2, 6); // Chat and message titles take h1/h2
+      html.push(`<h${level}>${renderInline(heading[2])}</h${level}>`);
+    } else if (bullet || numbered) {
+      const tag = bullet ? "ul" : "ol";
+      if (paragraph.length || (list && list.tag !== tag)) flush();
+      list ??= { tag, items: [] };
+      list.items.push((bullet ?? numbered)![1]);
+    } else if (quote) {
+      flush();
+      html.push(`<blockquote>${renderInline(quote[1])}</blockquote>`);
+    } else if (!line.trim()) {
+      flush();
+    } else {
+      if (list) flush();
+      paragraph.push(line);
+    }
+  }
+  flush();
+  return html.join("\n");
+}
+
+const HTML_STYLE = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; max-width: 760px; margin: 2rem auto; padding: 0 1rem; color: #1f2328; line-height: 1.55; }
+h1 { margin-bottom: 0; }
+.meta { color: #6b7280; font-size: 0.85rem; }
+.message { border-radius: 12px; padding: 0.75rem 1rem; margin: 1rem 0; }
+.user { background: #eef2ff; margin-left: 15%; }
+.assistant { background: #f6f8fa; margin-right: 15%; }
+pre { background: #0d1117; color: #e6edf3; padding: 0.75rem; border-radius: 8px; overflow-x: auto; }
+code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 0.9em; }
+blockquote { border-left: 3px solid #d0d7de; margin: 0; padding-left: 0.75rem; color: #57606a; }
+img { max-width: 100%; border-radius: 8px; margin-top: 0.5rem; }
+hr { margin: 3rem 0; }
+`;
+
+async function toHtml(userId: string, chats: ExportChat[]): Promise<string> {
+  const sections: string[] = [];
+  for (const chat of chats) {
+    const parts = [`<h1>${escapeHtml(chat.title)}</h1>`, `<p class="meta">Created ${formatDate(chat.createdAt)}</p>`];
+    for (const message of chat.messages) {
+      const images: string[] = [];
+      for (const url of message.attachments ?? []) {
+        const image = await loadImage(userId, url);
+        const src = image ? `data:${image.mimeType};base64,${image.data.toString("base64")}` : url;
+        images.push(`<img src="${escapeHtml(src)}" alt="">`);
+      }
+      parts.push(
+        `<div class="message ${message.role}">`,
+        `<p class="meta">${roleLabel(message.role)} · ${formatDate(message.timestamp)}</p>`,
+        markdownToHtml(message.content),
+        ...images,
+        "</div>"
+      );
+    }
+    sections.push(`<section>\n${parts.join("\n")}\n</section>`);
+  }
+
+  const title = chats.length === 1 ? chats[0].title : "NubiqAI chats";
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>${HTML_STYLE}</style>`,
+    "</head>",
+    "<body>",
+    sections.join("\n<hr>\n"),
+    "</body>",
+    "</html>",
+  ].join("\n");
+}
+
+// ---------- PDF ----------
+
+// The built-in PDF fonts only cover Latin-1; anything else would print as garbage
+const toPdfText = (text: string) => text.replace(/[^\t\n\r\x20-\x7e\xa0-\xff]/g, "?");
+
+/**
+ * Markdown without its markers, for plain PDF text
+ */
+const stripMarkdown = (text: string) =>
+  text
+    .replace(/^#{1,6}\s+/gm, "")
+    .replace(/^\s*[-*+]\s+/gm, "• ")
+    .replace(/\*\*([^*]+)\*\*/g, "$1")
+    .replace(/`([^`]+)`/g, "$1")
+    .replace(/\[([^\]]+)\]\(([^)]+)\)/g, "$1 ($2)");
+
+const IMAGE_MAX_HEIGHT = 300;
+
+async function toPdf(userId: string, chats: ExportChat[]): Promise<Buffer> {
+  const doc = new PDFDocument({ size: "A4", margin: 50 });
+  const chunks: Buffer[] = [];
+  doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  const width = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+  const bottom = () => doc.page.height - doc.page.margins.bottom;
+
+  for (const [index, chat] of chats.entries()) {
+    if (index > 0) doc.addPage();
+    doc.font("Helvetica-Bold").fontSize(18).fillColor("black").text(toPdfText(chat.title));
+    doc.font("Helvetica").fontSize(9).fillColor("gray").text(`Created ${formatDate(chat.createdAt)}`).moveDown();
+
+    for (const message of chat.messages) {
+      doc
+        .font("Helvetica-Bold")
+        .fontSize(10)
+        .fillColor(message.role === "user" ? "#4f46e5" : "#111827")
+        .text(`${roleLabel(message.role)} · ${formatDate(message.timestamp)}`);
+
+      // Code blocks keep their layout in a monospace font
+      for (const [i, block] of message.content.split(/^```[^\n]*$/m).entries()) {
+        if (!block.trim()) continue;
+        const code = i % 2 === 1;
+        doc
+          .font(code ? "Courier" : "Helvetica")
+          .fontSize(code ? 9 : 10.5)
+          .fillColor("black")
+          .text(toPdfText(code ? block.replace(/^\n|\n$/g, "") : stripMarkdown(block.trim())), { width })
+          .moveDown(0.3);
+      }
+
+      for (const url of message.attachments ?? []) {
+        const image = await loadImage(userId, url);
+        // pdfkit embeds PNG and JPEG only
+        if (!image || !/^image\/(png|jpe?g)$/.test(image.mimeType)) {
+          doc.font("Helvetica-Oblique").fontSize(9).fillColor("gray").text(isImageLink(url) ? toPdfText(url) : "[image]");
+          continue;
+        }
+        try {
+          if (doc.y + IMAGE_MAX_HEIGHT > bottom()) doc.addPage();
+          doc.image(image.data, { fit: [width, IMAGE_MAX_HEIGHT] });
+          doc.moveDown(0.5);
+        } catch (error) {
+          console.error("❌ Failed to embed image in PDF export:", error);
+        }
+      }
+      doc.moveDown();
+    }
+  }
+
+  doc.end();
+  return done;
+}
+
+// ---------- Entry point ----------
+
+/**
+ * A file name from the chat title for one chat, or from today's date for many
+ */
+function exportFileName(chats: ExportChat[], format: ExportFormat): string {
+  const slug =
+    chats.length === 1
+      ? chats[0].title
+          .toLowerCase()
+          .replace(/[^a-z0-9]+/g, "-")
+          .replace(/^-+|-+$/g, "")
+          .slice(0, 60)
+      : "";
+  const base = slug || `nubiqai-chats-${new Date().toISOString().slice(0, 10)}`;
+  return `${base}.${EXTENSIONS[format]}`;
+}
+
+/**
+ * Render chats into a downloadable file
+ */
+export async function exportChats(userId: string, format: ExportFormat, chats: ExportChat[]): Promise<ChatExportFile> {
+  let body: Buffer;
+  switch (format) {
+    case "markdown":
+      body = Buffer.from(toMarkdown(chats), "utf-8");
+      break;
+    case "json":
+      body = Buffer.from(toJson(chats), "utf-8");
+      break;
+    case "html":
+      body = Buffer.from(await toHtml(userId, chats), "utf-8");
+      break;
+    case "pdf":
+      body = await toPdf(userId, chats);
+      break;
+  }
+
+  console.log(`📦 Exported ${chats.length} chat(s) as ${format} for ${userId} (${body.length} bytes)`);
+  return { fileName: exportFileName(chats, format), contentType: CONTENT_TYPES[format], body };
+}
@@ -0,0 +1,81 @@
+// chatForkService.ts - Start a new chat from any message of an existing one
+//
+// A fork carries the parent's active path up to the chosen message. The new chat gets
+// those turns as its session memory, a rolling summary of them (so it keeps the
+// context once they scroll out of the history window), the documents they referred
+// to, and a link back to the parent in its Firestore document. The parent is left as
+// it was.
+
+import { getHybridMemoryService } from "./hybridMemoryService";
+import { firestoreChatService } from "./firestoreChatService";
+import type { FirestoreChatFork } from "./firestoreChatService";
+import { recentContextCache } from "./performanceOptimizations";
+import { buildRollingSummary } from "./contextManager";
+import type { RollingSummary } from "./contextManager";
+import { getDocument } from "./documentCacheService";
+import { toBranchTurns, toStoredMessage } from "./chatBranchService";
+import type { ChatTreeMessage } from "./apiSchemas";
+
+export interface ChatForkRequest {
+  chatId: string; // The new chat
+  messageId: string; // Last message carried over
+  messages: ChatTreeMessage[]; // The parent's active path
+  title?: string;
+  documentIds: string[];
+}
+
+export interface ChatFork {
+  turns: number;
+  rollingSummary: RollingSummary | null;
+  documentIds: string[];
+}
+
+/**
+ * Fork `parentChatId` at `request.messageId` into the new chat `request.chatId`
+ * @returns null when the message is not on the given path
+ * @throws when the new chat couldn't be stored
+ */
+export async function forkChat(userId: string, parentChatId: string, request: ChatForkRequest): Promise<ChatFork | null> {
+  const end = request.messages.findIndex((message) => message.id === request.messageId);
+  if (end === -1) return null;
+
+  const prefix = request.messages.slice(0, end + 1);
+  const turns = toBranchTurns(prefix);
+  getHybridMemoryService().replaceChatTurns(userId, request.chatId, turns);
+  recentContextCache.clear(userId, request.chatId);
+
+  let rollingSummary: RollingSummary | null = null;
+  try {
+    rollingSummary = await buildRollingSummary(userId, request.chatId, "fork");
+  } catch (error) {
+    console.warn("⚠️ Rolling summary for fork failed (non-fatal):", error);
+  }
+
+  // Documents live in a process-local cache; ids that expired can't be carried over
+  const documentIds = [...new Set(request.documentIds)].filter((id) => getDocument(id));
+
+  // Firestore rejects undefined fields, so optional ones are only set when present
+  const fork: FirestoreChatFork = {
+    forkedFrom: { chatId: parentChatId, messageId: request.messageId, forkedAt: Date.now() },
+  };
+  if (rollingSummary) fork.rollingSummary = rollingSummary;
+  if (documentIds.length) fork.documentIds = documentIds;
+
+  const title = request.title || prefix.find((message) => message.role === "user")?.content || "New Chat";
+  const stored = await firestoreChatService.createFork(
+    userId,
+    request.chatId,
+    title,
+    prefix.map((message) => toStoredMessage(message, false)),
+    fork
+  );
+  if (!stored) {
+    // No chat to go with the memory, so don't leave it behind
+    getHybridMemoryService().replaceChatTurns(userId, request.chatId, []);
+    recentContextCache.clear(userId, request.chatId);
+    throw new Error(`Failed to store forked chat ${request.chatId}`);
+  }
+
+  console.log(`🍴 Forked chat ${parentChatId} at ${request.messageId} into ${request.chatId} (${turns.length} turn(s))`);
+  return { turns: turns.length, rollingSummary, documentIds };
+}
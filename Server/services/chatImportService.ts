@@ -0,0 +1,621 @@
+// chatImportService.ts - Import conversation archives from other assistants
+//
+// Accepts one uploaded file: a zip (ChatGPT and Claude exports are zips with a
+// conversations.json inside) or a single JSON / Markdown transcript. Recognized shapes:
+// - chatgpt: conversations with a `mapping` node tree; the path to `current_node` becomes
+//   the active branch, regenerated answers and edits become branches
+// - claude: conversations with `chat_messages`
+// - nubiqai: our own JSON export (format "nubiqai-chats")
+// - json: anything with a `messages` array of { role, content }
+// - markdown: "## User" / "**Assistant:**" style transcripts, one chat per "# Title"
+// Chat ids are derived from the source conversation, so importing the same archive
+// again replaces its chats instead of duplicating them. Ids that aren't valid chat ids
+// are hashed, and an id already held by a chat that isn't an earlier import from the
+// same source gets a suffix instead of overwriting that chat. Chats are stored in Firestore
+// and returned to the client; the optional Pinecone backfill runs as a background job
+// whose progress can be polled.
+
+import { createHash, randomBytes } from "crypto";
+import JSZip from "jszip";
+import type { ChatImportStatus, ChatTreeMessage, FailedImport, ImportedChat, ImportSource } from "./apiSchemas";
+import type { ConversationTurn } from "./conversationService";
+import { firestoreChatService } from "./firestoreChatService";
+import { toStoredMessage } from "./chatBranchService";
+import { SecurityValidator } from "./securityMiddleware";
+import { getPineconeStorageService } from "./pineconeStorageService";
+
+/**
+ * The upload isn't an archive or transcript we can read (400), unpacks too big (413),
+ * or none of its chats could be stored (503, listing them in `failedChats`)
+ */
+export class ChatImportError extends Error {
+  constructor(
+    message: string,
+    readonly status: 400 | 413 | 503 = 400,
+    readonly failedChats: FailedImport[] = []
+  ) {
+    super(message);
+    this.name = "ChatImportError";
+  }
+}
+
+const MAX_CONTENT_LENGTH = 100000; // Same cap as chat messages
+const MAX_ARCHIVE_ENTRIES = 10000;
+const FINISHED_JOB_TTL_MS = 24 * 60 * 60 * 1000;
+
+type Role = ChatTreeMessage["role"];
+
+const ROLE_NAMES: Record<string, Role> = {
+  user: "user",
+  you: "user",
+  human: "user",
+  me: "user",
+  assistant: "assistant",
+  ai: "assistant",
+  bot: "assistant",
+  model: "assistant",
+  chatgpt: "assistant",
+  gpt: "assistant",
+  claude: "assistant",
+  gemini: "assistant",
+  copilot: "assistant",
+  nubiqai: "assistant",
+};
+
+const toRole = (value: unknown): Role | null =>
+  typeof value === "string" ? ROLE_NAMES[value.trim().toLowerCase()] ?? null : null;
+
+/**
+ * Epoch ms from epoch seconds, epoch ms or a date string
+ */
+function toMs(value: unknown): number | undefined {
+  if (typeof value === "number" && Number.isFinite(value) && value > 0) {
+    return Math.round(value < 1e11 ? value * 1000 : value);
+  }
+  if (typeof value === "string" && value.trim()) {
+    const parsed = Date.parse(value);
+    return Number.isNaN(parsed) ? undefined : parsed;
+  }
+  return undefined;
+}
+
+const stableId = (...parts: unknown[]) =>
+  createHash("sha1").update(JSON.stringify(parts)).digest("hex").slice(0, 20);
+
+const clip = (text: string) => (text.length > MAX_CONTENT_LENGTH ? text.slice(0, MAX_CONTENT_LENGTH) : text);
+
+const titleFrom = (title: unknown, messages: ChatTreeMessage[], fallback: string) => {
+  if (typeof title === "string" && title.trim()) return title.trim();
+  const firstPrompt = messages.find((message) => message.role === "user")?.content.trim();
+  return firstPrompt ? firstPrompt.split("\n")[0].slice(0, 60) : fallback;
+};
+
+/**
+ * Text of a message body: a string, an array of parts, or { text } / { parts }
+ */
+function contentText(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (Array.isArray(content)) {
+    return content
+      .map((part) => (typeof part === "string" ? part : part?.type === "text" && typeof part.text === "string" ? part.text : ""))
+      .filter(Boolean)
+      .join("\n");
+  }
+  if (content && typeof content === "object") {
+    const body = content as { content_type?: string; parts?: unknown; text?: unknown; language?: string };
+    if (body.content_type === "code" && typeof body.text === "string") {
+      return `\`\`\`${body.language && body.language !== "unknown" ? body.language : ""}\n${body.text}\n\`\`\``;
+    }
+    if (Array.isArray(body.parts)) return contentText(body.parts);
+    if (typeof body.text === "string") return body.text;
+  }
+  return "";
+}
+
+/**
+ * Give messages without a usable time one just after the previous message, so order holds
+ */
+function fillTimestamps(messages: { timestamp?: number }[], start: number): void {
+  let previous = start;
+  for (const message of messages) {
+    if (message.timestamp === undefined || message.timestamp < previous) message.timestamp = previous + 1;
+    previous = message.timestamp;
+  }
+}
+
+function buildChat(
+  source: ImportSource,
+  sourceId: string,
+  title: unknown,
+  messages: ChatTreeMessage[],
+  branches: ChatTreeMessage[] = [],
+  dates: { createdAt?: number; updatedAt?: number } = {}
+): ImportedChat | null {
+  if (messages.length === 0) return null;
+  const createdAt = dates.createdAt ?? messages[0].timestamp;
+  const updatedAt = Math.max(dates.updatedAt ?? 0, messages[messages.length - 1].timestamp, createdAt);
+  const id = source === "nubiqai" ? sourceId : `${source}-${sourceId}`;
+  return {
+    id: SecurityValidator.validateChatId(id).valid ? id : `${source}-${stableId(source, sourceId)}`,
+    title: titleFrom(title, messages, "Imported chat"),
+    createdAt,
+    updatedAt,
+    source,
+    messages,
+    branches,
+  };
+}
+
+// ---------- ChatGPT ----------
+
+interface ChatGptNode {
+  id: string;
+  parent?: string | null;
+  children?: string[];
+  message?: {
+    id: string;
+    author?: { role?: string };
+    content?: unknown;
+    create_time?: number | null;
+    metadata?: { is_visually_hidden_from_conversation?: boolean };
+  } | null;
+}
+
+function fromChatGpt(conversation: any): ImportedChat | null {
+  const mapping: Record<string, ChatGptNode> = conversation.mapping ?? {};
+  const fallbackTime = toMs(conversation.create_time) ?? Date.now();
+
+  const toMessage = (node: ChatGptNode | undefined): ChatTreeMessage | null => {
+    const message = node?.message;
+    const role = message?.author?.role;
+    if (!message || (role !== "user" && role !== "assistant")) return null; // system and tool output
+    if (message.metadata?.is_visually_hidden_from_conversation) return null;
+    const content = contentText(message.content).trim();
+    if (!content) return null;
+    return { id: node!.id, role, content: clip(content), timestamp: toMs(message.create_time) ?? 0 };
+  };
+
+  // The active path runs from the root to current_node (or, without one, along the last children)
+  let tipId: string | undefined = conversation.current_node;
+  if (!tipId || !mapping[tipId]) {
+    tipId = Object.values(mapping).find((node) => !node.parent)?.id;
+    while (tipId && mapping[tipId]?.children?.length) tipId = mapping[tipId].children!.slice(-1)[0];
+  }
+  const path: string[] = [];
+  for (let id = tipId; id && mapping[id] && !path.includes(id); id = mapping[id].parent ?? undefined) path.unshift(id);
+  const onPath = new Set(path);
+
+  const messages = path.map((id) => toMessage(mapping[id])).filter((message): message is ChatTreeMessage => !!message);
+  fillTimestamps(messages, fallbackTime - 1);
+
+  // Off-path messages hang off their nearest kept ancestor
+  const kept = new Map<string, ChatTreeMessage>();
+  for (const node of Object.values(mapping)) {
+    const message = toMessage(node);
+    if (message) kept.set(node.id, message);
+  }
+  const branches: ChatTreeMessage[] = [];
+  for (const [id, message] of kept) {
+    if (onPath.has(id)) continue;
+    let parentId = mapping[id].parent ?? null;
+    while (parentId && !kept.has(parentId)) parentId = mapping[parentId]?.parent ?? null;
+    branches.push({ ...message, timestamp: message.timestamp || fallbackTime, parentId });
+  }
+
+  const sourceId = String(conversation.conversation_id ?? conversation.id ?? stableId(conversation.title, conversation.create_time));
+  return buildChat("chatgpt", sourceId, conversation.title, messages, branches, {
+    createdAt: toMs(conversation.create_time),
+    updatedAt: toMs(conversation.update_time),
+  });
+}
+
+// ---------- Claude ----------
+
+function fromClaude(conversation: any): ImportedChat | null {
+  const messages: ChatTreeMessage[] = [];
+  (conversation.chat_messages as any[]).forEach((entry, index) => {
+    const role = toRole(entry?.sender);
+    const content = (typeof entry?.text === "string" && entry.text.trim() ? entry.text : contentText(entry?.content)).trim();
+    if (!role || !content) return;
+    messages.push({
+      id: String(entry.uuid ?? `${index}`),
+      role,
+      content: clip(content),
+      timestamp: toMs(entry.created_at) ?? 0,
+    });
+  });
+  const createdAt = toMs(conversation.created_at);
+  fillTimestamps(messages, (createdAt ?? Date.now()) - 1);
+
+  const sourceId = String(conversation.uuid ?? stableId(conversation.name, conversation.created_at));
+  return buildChat("claude", sourceId, conversation.name, messages, [], {
+    createdAt,
+    updatedAt: toMs(conversation.updated_at),
+  });
+}
+
+// ---------- Generic JSON (and our own export) ----------
+
+function toGenericMessage(entry: any, index: number, chatKey: string): ChatTreeMessage | null {
+  const role = toRole(entry?.role ?? entry?.sender ?? entry?.author?.role ?? entry?.author);
+  const content = contentText(entry?.content ?? entry?.text ?? entry?.message).trim();
+  if (!role || !content) return null;
+  const message: ChatTreeMessage = {
+    id: typeof entry.id === "string" && entry.id ? entry.id.slice(0, 200) : `${chatKey}-${index}`,
+    role,
+    content: clip(content),
+    timestamp: toMs(entry.timestamp ?? entry.created_at ?? entry.createdAt ?? entry.create_time) ?? 0,
+  };
+  const attachments = Array.isArray(entry.attachments)
+    ? entry.attachments.filter((url: unknown): url is string => typeof url === "string" && url.startsWith("https://"))
+    : [];
+  if (attachments.length) message.attachments = attachments.slice(0, 10);
+  if (entry.parentId !== undefined) message.parentId = entry.parentId;
+  return message;
+}
+
+function fromGenericJson(chat: any, source: "nubiqai" | "json", fileName: string): ImportedChat | null {
+  const createdAt = toMs(chat.createdAt ?? chat.created_at ?? chat.create_time);
+  const chatKey = String(chat.id ?? chat.uuid ?? stableId(fileName, chat.title ?? chat.name, createdAt, chat.messages?.length));
+
+  const messages = (chat.messages as any[])
+    .map((entry, index) => toGenericMessage(entry, index, chatKey))
+    .filter((message): message is ChatTreeMessage => !!message)
+    .map(({ parentId: _parentId, ...message }) => message); // The active path follows its own order
+  fillTimestamps(messages, (createdAt ?? Date.now()) - 1);
+
+  const branches = (Array.isArray(chat.branches) ? chat.branches : [])
+    .map((entry: any, index: number) => toGenericMessage(entry, index, `${chatKey}-branch`))
+    .filter((message: ChatTreeMessage | null): message is ChatTreeMessage => !!message)
+    .map((message: ChatTreeMessage) => ({ ...message, timestamp: message.timestamp || Date.now(), parentId: message.parentId ?? null }));
+
+  return buildChat(source, chatKey, chat.title ?? chat.name, messages, branches, {
+    createdAt,
+    updatedAt: toMs(chat.updatedAt ?? chat.updated_at ?? chat.update_time),
+  });
+}
+
+function parseJson(text: string, fileName: string): ImportedChat[] {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ChatImportError(`${fileName} is not valid JSON`);
+  }
+
+  const isOwnExport = data?.format === "nubiqai-chats";
+  const items: any[] = Array.isArray(data) ? data : Array.isArray(data?.chats) ? data.chats : Array.isArray(data?.conversations) ? data.conversations : [data];
+
+  return items
+    .map((item) => {
+      if (!item || typeof item !== "object") return null;
+      if (item.mapping && typeof item.mapping === "object") return fromChatGpt(item);
+      if (Array.isArray(item.chat_messages)) return fromClaude(item);
+      if (Array.isArray(item.messages)) return fromGenericJson(item, isOwnExport ? "nubiqai" : "json", fileName);
+      return null;
+    })
+    .filter((chat): chat is ImportedChat => !!chat);
+}
+
+// ---------- Markdown ----------
+
+const SPEAKER_HEADING = /^#{2,6}\s+\**([A-Za-z][\w ]*?)\**\s*(?:[·|(-]\s*(.*?)\)?)?\s*:?\s*$/;
+const SPEAKER_LINE = /^\**([A-Za-z][\w ]*?)\**\s*:\s*\**\s*(.*)$/;
+const IMAGE_LINE = /^!\[[^\]]*\]\((https:\/\/[^\s)]+)\)$/;
+
+function markdownChat(lines: string[], title: string | undefined, fileName: string, index: number): ImportedChat | null {
+  const messages: (Omit<ChatTreeMessage, "timestamp"> & { timestamp?: number })[] = [];
+  let createdAt: number | undefined;
+  let inCode = false;
+  const idPrefix = `md-${stableId(fileName, index)}`;
+
+  for (const line of lines) {
+    if (line.trimStart().startsWith("```")) inCode = !inCode;
+    const heading = inCode ? null : SPEAKER_HEADING.exec(line);
+    const speaker = heading ?? (inCode ? null : SPEAKER_LINE.exec(line));
+    const role = speaker && toRole(speaker[1]);
+    if (speaker && role) {
+      messages.push({
+        id: `${idPrefix}-${messages.length}`,
+        role,
+        content: heading ? "" : speaker[2],
+        timestamp: heading ? toMs(heading[2]) : undefined,
+      });
+      continue;
+    }
+
+    const current = messages[messages.length - 1];
+    if (!current) {
+      // Preamble: only a "Created <date>" line means anything
+      createdAt ??= toMs(/^_?Created (.+?)_?$/.exec(line.trim())?.[1]);
+      continue;
+    }
+    const image = IMAGE_LINE.exec(line.trim());
+    if (image) current.attachments = [...(current.attachments ?? []), image[1]].slice(0, 10);
+    else current.content += `\n${line}`;
+  }
+
+  const kept = messages
+    .map((message) => ({ ...message, content: clip(message.content.replace(/(\n\s*-{3,}\s*)+$/, "").trim()) }))
+    .filter((message) => message.content || message.attachments?.length);
+  fillTimestamps(kept, (createdAt ?? Date.now()) - 1);
+
+  const sourceId = stableId(fileName, index, title, kept[0]?.content);
+  return buildChat("markdown", sourceId, title, kept as ChatTreeMessage[], [], { createdAt });
+}
+
+function parseMarkdown(text: string, fileName: string): ImportedChat[] {
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  const fallbackTitle = fileName.replace(/^.*\//, "").replace(/\.[^.]+$/, "");
+
+  // Every "# Title" starts a chat; text before the first one is a chat of its own
+  const sections: { title?: string; lines: string[] }[] = [{ title: fallbackTitle, lines: [] }];
+  let inCode = false;
+  for (const line of lines) {
+    if (line.trimStart().startsWith("```")) inCode = !inCode;
+    const title = !inCode && /^#\s+(.+)$/.exec(line);
+    if (title) sections.push({ title: title[1].trim(), lines: [] });
+    else sections[sections.length - 1].lines.push(line);
+  }
+
+  return sections
+    .map((section, index) => markdownChat(section.lines, section.title, fileName, index))
+    .filter((chat): chat is ImportedChat => !!chat);
+}
+
+// ---------- Archives ----------
+
+const isZip = (data: Buffer) => data.length > 4 && data.readUInt32LE(0) === 0x04034b50;
+
+function parseFile(fileName: string, text: string): ImportedChat[] {
+  const trimmed = text.trimStart();
+  if (/\.json$/i.test(fileName) || trimmed.startsWith("{") || trimmed.startsWith("[")) return parseJson(text, fileName);
+  return parseMarkdown(text, fileName);
+}
+
+/**
+ * Unzipped bytes allowed per archive, all entries together (read per call so tests can lower it)
+ */
+const maxArchiveBytes = () => Number(process.env.MAX_IMPORT_UNCOMPRESSED_MB || 500) * 1024 * 1024;
+
+/**
+ * Inflate one zip entry, or null once it goes past `budget` bytes. Only the bytes actually
+ * inflated count - the sizes in zip headers can lie.
+ */
+async function readEntry(entry: JSZip.JSZipObject, budget: number): Promise<Buffer | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const stream = entry.nodeStream("nodebuffer");
+    stream.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > budget) {
+        stream.pause(); // Stops the inflate
+        resolve(null);
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on("error", reject);
+    stream.on("end", () => resolve(Buffer.concat(chunks)));
+  });
+}
+
+/**
+ * Every chat in an uploaded zip, JSON or Markdown file
+ */
+export async function parseChatArchive(fileName: string, data: Buffer): Promise<ImportedChat[]> {
+  let chats: ImportedChat[] = [];
+
+  if (isZip(data)) {
+    let zip: JSZip;
+    try {
+      zip = await JSZip.loadAsync(data);
+    } catch {
+      throw new ChatImportError(`${fileName} is not a readable zip file`);
+    }
+    if (Object.keys(zip.files).length > MAX_ARCHIVE_ENTRIES) {
+      throw new ChatImportError(`${fileName} holds more than ${MAX_ARCHIVE_ENTRIES} files`, 413);
+    }
+    const entries = Object.values(zip.files).filter(
+      (entry) => !entry.dir && !entry.name.startsWith("__MACOSX/") && /\.(json|md|markdown|txt)$/i.test(entry.name)
+    );
+    const maxBytes = maxArchiveBytes();
+    let unzippedBytes = 0;
+    for (const entry of entries) {
+      const unzipped = await readEntry(entry, maxBytes - unzippedBytes);
+      if (!unzipped) {
+        throw new ChatImportError(`${fileName} unzips to more than ${Math.round(maxBytes / 1024 / 1024)} MB`, 413);
+      }
+      unzippedBytes += unzipped.length;
+      try {
+        chats.push(...parseFile(entry.name, unzipped.toString("utf-8")));
+      } catch (error) {
+        // ChatGPT zips also hold files like user.json or chat.html; one bad file doesn't spoil the rest
+        if (!(error instanceof ChatImportError)) throw error;
+        console.warn(`⚠️ Skipping ${entry.name} in ${fileName}: ${error.message}`);
+      }
+    }
+  } else {
+    chats = parseFile(fileName, data.toString("utf-8"));
+  }
+
+  if (chats.length === 0) {
+    throw new ChatImportError(`No conversations found in ${fileName}`);
+  }
+
+  // The same conversation may appear twice (e.g. an archive holding two exports)
+  const byId = new Map(chats.map((chat) => [chat.id, chat]));
+  return Array.from(byId.values()).sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Answered turns of a chat for Pinecone, keyed by the answer so a re-import dedupes
+ */
+function toImportTurns(userId: string, chat: ImportedChat): ConversationTurn[] {
+  const turns: ConversationTurn[] = [];
+  chat.messages.forEach((message, index) => {
+    const reply = chat.messages[index + 1];
+    if (message.role !== "user" || reply?.role !== "assistant") return;
+    turns.push({
+      id: `import-${stableId(reply.id)}`,
+      userId,
+      chatId: chat.id,
+      userPrompt: message.content,
+      aiResponse: reply.content,
+      timestamp: reply.timestamp,
+      imageUrl: reply.attachments?.[0],
+      hasImage: !!reply.attachments?.length,
+    });
+  });
+  return turns;
+}
+
+/**
+ * The id to store an imported chat under: its own, unless a chat that isn't an earlier
+ * import from the same source already has it
+ */
+async function importChatId(userId: string, chat: ImportedChat): Promise<string> {
+  const existing = await firestoreChatService.getChatDocument(userId, chat.id);
+  if (!existing || existing.importedFrom?.source === chat.source) return chat.id;
+  return `${chat.id.slice(0, 100)}-${stableId("import", chat.id)}`;
+}
+
+interface ImportJob extends ChatImportStatus {
+  userId: string;
+  chats: ImportedChat[]; // Dropped once the backfill finishes
+}
+
+class ChatImportService {
+  private readonly jobs = new Map<string, ImportJob>();
+
+  /**
+   * Parse an archive and store its chats. Chats that can't be stored are reported in
+   * `failedChats` and left out of the rest. With `backfill`, also registers a Pinecone
+   * backfill for the caller to queue (see runBackfill).
+   */
+  async importArchive(
+    userId: string,
+    file: { fileName: string; data: Buffer },
+    backfill: boolean
+  ): Promise<{ chats: ImportedChat[]; failedChats: FailedImport[]; importId: string | null }> {
+    const parsed = await parseChatArchive(file.fileName, file.data);
+    const importedAt = Date.now();
+
+    const chats: ImportedChat[] = [];
+    const failedChats: FailedImport[] = [];
+    for (const chat of parsed) {
+      chat.id = await importChatId(userId, chat);
+      const stored = await firestoreChatService.importChat(
+        userId,
+        {
+          chatId: chat.id,
+          title: chat.title,
+          createdAt: chat.createdAt,
+          updatedAt: chat.updatedAt,
+          messages: chat.messages.map((message) => toStoredMessage(message, false)),
+          branches: chat.branches.map((message) => toStoredMessage(message, true)),
+        },
+        { source: chat.source, importedAt }
+      );
+      if (stored) chats.push(chat);
+      else failedChats.push({ id: chat.id, title: chat.title });
+    }
+    if (chats.length === 0) {
+      throw new ChatImportError(`None of the ${parsed.length} chat(s) in ${file.fileName} could be stored`, 503, failedChats);
+    }
+    console.log(
+      `📥 Imported ${chats.length} chat(s) from ${file.fileName} for ${userId}` +
+        (failedChats.length ? ` (${failedChats.length} failed)` : "")
+    );
+
+    if (!backfill) return { chats, failedChats, importId: null };
+
+    this.pruneFinishedJobs();
+    const importId = `import_${randomBytes(9).toString("base64url")}`;
+    this.jobs.set(importId, {
+      importId,
+      userId,
+      chats,
+      status: "queued",
+      totalChats: chats.length,
+      processedChats: 0,
+      failedChats: 0,
+      storedTurns: 0,
+      createdAt: importedAt,
+      updatedAt: importedAt,
+    });
+    return { chats, failedChats, importId };
+  }
+
+  /**
+   * Add an import's chats to Pinecone one chat at a time, reporting progress after each.
+   * A chat that fails is counted and skipped.
+   */
+  async runBackfill(importId: string, onProgress: (userId: string, status: ChatImportStatus) => void): Promise<void> {
+    const job = this.jobs.get(importId);
+    if (!job || job.status === "done" || job.status === "failed") return;
+
+    const update = (changes: Partial<ChatImportStatus>) => {
+      Object.assign(job, changes, { updatedAt: Date.now() });
+      onProgress(job.userId, this.toStatus(job));
+    };
+
+    update({ status: "running" });
+    const pineconeStorage = getPineconeStorageService();
+    for (const chat of job.chats.slice(job.processedChats)) {
+      let storedTurns = 0;
+      let failed = false;
+      try {
+        const turns = toImportTurns(job.userId, chat);
+        if (turns.length > 0) await pineconeStorage.storeConversationTurns(job.userId, chat.id, turns);
+        await firestoreChatService.markChatPersisted(job.userId, chat.id);
+        storedTurns = turns.length;
+      } catch (error) {
+        console.error(`❌ Backfill of imported chat ${chat.id} failed:`, error);
+        failed = true;
+      }
+      update({
+        processedChats: job.processedChats + 1,
+        failedChats: job.failedChats + (failed ? 1 : 0),
+        storedTurns: job.storedTurns + storedTurns,
+      });
+    }
+
+    job.chats = [];
+    update({ status: job.totalChats > 0 && job.failedChats === job.totalChats ? "failed" : "done" });
+    console.log(`✅ Import ${importId}: ${job.storedTurns} turn(s) from ${job.totalChats - job.failedChats} chat(s) in long-term memory`);
+  }
+
+  /**
+   * Progress of one of the user's imports (null for unknown or someone else's)
+   */
+  getStatus(userId: string, importId: string): ChatImportStatus | null {
+    const job = this.jobs.get(importId);
+    return job && job.userId === userId ? this.toStatus(job) : null;
+  }
+
+  clear(): void {
+    this.jobs.clear();
+  }
+
+  private toStatus({ userId: _userId, chats: _chats, ...status }: ImportJob): ChatImportStatus {
+    return status;
+  }
+
+  private pruneFinishedJobs(): void {
+    const cutoff = Date.now() - FINISHED_JOB_TTL_MS;
+    for (const [importId, job] of this.jobs) {
+      if ((job.status === "done" || job.status === "failed") && job.updatedAt < cutoff) this.jobs.delete(importId);
+    }
+  }
+}
+
+let chatImportService: ChatImportService | null = null;
+
+export function getChatImportService(): ChatImportService {
+  if (!chatImportService) {
+    chatImportService = new ChatImportService();
+  }
+  return chatImportService;
+}
@@ -0,0 +1,587 @@
+// chatPipeline.ts - One chat turn, shared by /api/ask-ai, /api/ask-ai-stream and the WebSocket transport
+//
+// A transport validates the request, takes the chat lock and hands over an abort
+// signal. prepareChatTurn does the rest up to the answer itself - response cache,
+// intent routing (image edit / generation / vision), memory strategy, document
+// context and the token-budgeted prompt. /api/ask-ai then answers in one call;
+// streamChatTurn streams and reports progress as plain event objects. Framing them
+// (SSE `data:` lines, WebSocket messages) is the transport's job.
+
+import { getModelProviderRegistry } from "./modelProviderService";
+import type { StreamTrace } from "./modelProviderService";
+import { buildChatContext } from "./contextBuilder";
+import type { ChatContext, CachedTurn, HistoryMessage } from "./contextBuilder";
+import type { ContextReport } from "./contextBudgeter";
+import { buildRollingSummary } from "./contextManager";
+import type { RollingSummary } from "./contextManager";
+import { streamWithTools, toolsEnabled } from "./toolCallingService";
+import type { ToolExecution } from "./toolRegistry";
+import { getHybridMemoryService } from "./hybridMemoryService";
+import { userProfileService } from "./userProfileService";
+import { getResponseCacheService } from "./responseCacheService";
+import { firestoreChatService } from "./firestoreChatService";
+import { searchChunks } from "./documentCacheService";
+import { getImage } from "./imageCacheService";
+import { rateLimiter, logSecurityEvent } from "./securityMiddleware";
+import {
+  profileCache,
+  recentContextCache,
+  determineMemoryStrategy,
+  preloadMemoryForNextQuery,
+} from "./performanceOptimizations";
+import { normalizeRequestType, detectFinalImageIntent, shouldGenerateImage } from "./intentService";
+import { editImage, generateImage, persistImageTurn } from "./imageTurnService";
+import type { ImageTurnResult } from "./imageTurnService";
+import type { UsageMeter, UsageRecord } from "./usageLedgerService";
+import { getEntitlementService, EntitlementError, base64ByteLength } from "./entitlementService";
+import type { FirestoreChatFilter } from "./firestoreChatService";
+import { queueChatTitle } from "./chatTitleService";
+
+export interface ChatTurnRequest {
+  prompt: string;
+  userId: string;
+  chatId?: string;
+  userName?: string;
+  messageCount?: number;
+  conversationHistory?: HistoryMessage[];
+  conversationSummary?: string;
+  useMemory: boolean;
+  memoryScope?: FirestoreChatFilter; // New chats only recall chats in this folder / with this tag
+  useTools: boolean;
+  documentId?: string;
+  skipCache?: boolean; // Regenerate: always ask the model
+  type?: string; // "image" (or a synonym/typo of it) asks for image generation explicitly
+  model?: string; // Overrides TEXT_MODEL / IMAGE_MODEL
+  imageBase64?: string; // Uploaded image - edited, answered about, or ignored for a new one
+  imageId?: string; // Image stored earlier in imageCacheService
+  route?: string; // Usage ledger label for the transport ("ask-ai", "ask-ai-stream", "ws")
+  allowImageOutput?: boolean; // false for API keys without the "images" scope
+  instructions?: string; // Caller's system prompt, added to the persona (OpenAI-compatible route)
+  onUsage?: (record: UsageRecord) => void; // Sees every model call the turn is billed for
+}
+
+/**
+ * An image edit/generation result as sent to clients
+ */
+export interface ChatImageEvent {
+  kind: "edit" | "generate";
+  text: string;
+  imageBase64: string | null;
+  imageUri: string | null;
+  imageLocalUri: string | null;
+  altText: string | null;
+}
+
+/**
+ * Progress of a streaming turn. These are also the SSE payload shapes.
+ */
+export type ChatStreamEvent =
+  | { text: string; cached?: boolean }
+  | { tool_call: { id: string; name: string; args: Record<string, any> } }
+  | { tool_result: ToolExecution }
+  | { image: ChatImageEvent }
+  | { done: true; cached?: boolean; duration?: number; provider?: string; context?: ContextReport }
+  | { error: string; code?: string; status?: number }; // code: "plan_required" / "quota_exceeded" for plan limits
+
+/**
+ * A turn that can't go ahead, with the HTTP status the JSON route answers with
+ */
+export class ChatTurnError extends Error {
+  constructor(
+    message: string,
+    readonly status: number
+  ) {
+    super(message);
+    this.name = "ChatTurnError";
+  }
+}
+
+function assertImageOutputAllowed(request: ChatTurnRequest): void {
+  if (request.allowImageOutput === false) {
+    throw new ChatTurnError('This API key needs the "images" scope to generate or edit images', 403);
+  }
+}
+
+/**
+ * What prepareChatTurn decided: a cached answer, a finished image turn, or a
+ * text/vision prompt ready for the model
+ */
+export type PreparedChatTurn =
+  | { kind: "cached"; text: string }
+  | { kind: "image"; image: ImageTurnResult }
+  | { kind: "text"; model: string; chatContext: ChatContext; cacheable: boolean; meter: UsageMeter };
+
+// ═══════════════════════════════════════════════════════════════════════
+// 🔒 One generation per user/chat at a time
+// ═══════════════════════════════════════════════════════════════════════
+
+export interface ChatLock {
+  key: string;
+  ttl: NodeJS.Timeout;
+}
+
+const inFlightChatRequests: Map<string, NodeJS.Timeout> = new Map();
+
+/**
+ * Take the generation lock for a user/chat. Returns null when another request
+ * already holds it. Locks expire after 2 minutes in case a release is ever missed.
+ */
+export function acquireChatLock(userId?: string, chatId?: string): ChatLock | null {
+  const key = `${userId || "anonymous"}:${chatId || "global"}`;
+  if (inFlightChatRequests.has(key)) return null;
+  const ttl = setTimeout(
+    () => {
+      inFlightChatRequests.delete(key);
+      console.warn(`⏱️ Cleared stale lock for ${key}`);
+    },
+    2 * 60 * 1000
+  );
+  inFlightChatRequests.set(key, ttl);
+  return { key, ttl };
+}
+
+/**
+ * Release a lock. Safe to call more than once - a later request's lock on the same key is left alone.
+ */
+export function releaseChatLock(lock: ChatLock | null): void {
+  if (!lock) return;
+  clearTimeout(lock.ttl);
+  if (inFlightChatRequests.get(lock.key) === lock.ttl) {
+    inFlightChatRequests.delete(lock.key);
+  }
+}
+
+export const CHAT_BUSY_ERROR =
+  "Another request is already processing for this chat. Please wait for it to finish.";
+
+// What happens to a partial answer when the client goes away mid-stream:
+// "discard" (default) drops it, "truncated" keeps it in session memory marked as cut off.
+// Partial answers are never cached either way.
+const STREAM_ABORT_POLICY: "discard" | "truncated" =
+  process.env.STREAM_ABORT_POLICY === "truncated" ? "truncated" : "discard";
+
+/**
+ * Cache TTL for an answer - code-related answers stay useful for longer
+ */
+export function responseCacheTtl(prompt: string): number {
+  const codeKeywords = ["code", "function", "html", "css", "javascript", "react", "component", "example"];
+  return codeKeywords.some((kw) => prompt.toLowerCase().includes(kw)) ? 86400 : 3600;
+}
+
+/**
+ * The memory scope a request asked for (memoryFolder / memoryTag), if any
+ */
+export function toMemoryScope(folder?: string, tag?: string): FirestoreChatFilter | undefined {
+  if (folder === undefined && tag === undefined) return undefined;
+  return { folder, tag };
+}
+
+/**
+ * Profile and memory context for a text turn, chosen by determineMemoryStrategy:
+ * nothing for greetings and small talk, the profile early in a chat, cached recent
+ * turns mid-chat, and a full hybrid search when the user refers back to something
+ */
+async function gatherMemoryContext(request: ChatTurnRequest): Promise<{
+  profileContext: string | null;
+  memoryContext: string | null;
+  rollingSummary: RollingSummary | null;
+  recentTurns?: CachedTurn[];
+}> {
+  const { prompt, userId, chatId, messageCount } = request;
+  const gathered: Awaited<ReturnType<typeof gatherMemoryContext>> = {
+    profileContext: null,
+    memoryContext: null,
+    rollingSummary: null,
+  };
+
+  const memoryStrategy = determineMemoryStrategy(prompt, messageCount || 0);
+  console.log(`🎯 Memory strategy selected: ${memoryStrategy}`);
+
+  let strategy: "full" | "profile-only" | "skip" = "profile-only";
+  if (memoryStrategy === "none") {
+    strategy = "skip";
+  } else if (memoryStrategy === "search") {
+    strategy = "full";
+  } else if (memoryStrategy === "cache" && chatId) {
+    // Try to use cached context first
+    const cachedTurns = recentContextCache.get(userId, chatId);
+    if (cachedTurns && cachedTurns.length > 0) {
+      console.log(`⚡ Using cached context (${cachedTurns.length} turns) - instant retrieval!`);
+      gathered.recentTurns = cachedTurns;
+      strategy = "skip";
+    }
+  }
+
+  if (strategy === "skip") {
+    console.log("⏭️ Skipping memory search");
+  } else if (strategy === "profile-only") {
+    // Lightweight: Only use user profile (no expensive searches)
+    try {
+      // ⚡ OPTIMIZATION: Check cache first
+      const cachedProfile = profileCache.get(userId);
+      if (cachedProfile === undefined) {
+        gathered.profileContext = userProfileService.generateProfileContext(userId);
+        profileCache.set(userId, userProfileService.getUserProfile(userId));
+      } else {
+        gathered.profileContext = cachedProfile ? userProfileService.generateProfileContext(userId) : null;
+      }
+      console.log(gathered.profileContext ? "✅ Added user profile context" : `❌ No user profile found for ${userId}`);
+    } catch (error) {
+      console.warn("⚠️ Profile lookup failed:", error);
+    }
+  } else {
+    // Full search: Use hybrid memory (local + Pinecone + profile)
+    try {
+      console.log(`🧠 Using full hybrid memory search for user: ${userId}${chatId ? `, chat: ${chatId}` : ""}`);
+      const memoryResult = await getHybridMemoryService().searchMemory(userId, prompt, chatId, messageCount, {
+        maxLocalResults: 3,
+        maxLongTermResults: 1, // ⚡ OPTIMIZED: Reduced from 2 to 1 (saves 100-200ms)
+        localWeight: 0.8,
+        threshold: 0.35, // ⚡ OPTIMIZED: Slightly higher threshold (faster, more relevant)
+        skipPineconeIfLocalFound: true,
+        minLocalResultsForSkip: 2,
+        scope: request.memoryScope,
+      });
+      console.log(
+        `🧠 Memory search results - Type: ${memoryResult.type}, Local: ${memoryResult.resultCount.local}, Long-term: ${memoryResult.resultCount.longTerm}`
+      );
+      if (memoryResult.optimization?.skippedPinecone) {
+        console.log(`💰 Cost optimization: ${memoryResult.optimization.reason}`);
+      }
+
+      if (
+        memoryResult.combinedContext &&
+        memoryResult.combinedContext !== "No relevant conversation history found."
+      ) {
+        gathered.memoryContext = memoryResult.combinedContext;
+
+        // 🔎 Compact rolling summary leads the memory context
+        try {
+          gathered.rollingSummary = await buildRollingSummary(userId, chatId, request.route);
+        } catch (e) {
+          console.warn("⚠️ Rolling summary generation failed (non-fatal):", e);
+        }
+        console.log(`✅ Added ${memoryResult.type} memory context`);
+      }
+    } catch (memoryError) {
+      console.warn("⚠️ Hybrid memory search failed, proceeding without memory context:", memoryError);
+    }
+  }
+
+  return gathered;
+}
+
+/**
+ * Work out how to answer a turn. Image edits and generations are finished here;
+ * text and vision turns come back with the prompt built and ready for the model.
+ * Throws ChatTurnError (image rate limit) or EntitlementError (plan limits) when
+ * the turn is refused. A text turn whose answer then fails is given back with
+ * refundChatTurn.
+ */
+export async function prepareChatTurn(request: ChatTurnRequest, signal?: AbortSignal): Promise<PreparedChatTurn> {
+  const { prompt, userId, chatId, documentId } = request;
+  const meter: UsageMeter = { userId, chatId, route: request.route || "unknown", onRecord: request.onUsage };
+
+  // Normalize type to handle typos like "iamge", synonyms like "img", etc.
+  const normalizedType = normalizeRequestType(request.type);
+
+  // 💳 Plan: requested model and upload size. The message quota is charged below.
+  const entitlements = getEntitlementService();
+  await entitlements.assertModel(userId, request.model);
+  if (request.imageBase64) {
+    await entitlements.assertUploadSize(userId, base64ByteLength(request.imageBase64));
+  }
+
+  // 🎯 AUTO-CREATE PROFILE: If user doesn't have a profile yet, create one with their name
+  if (request.userName && !userProfileService.getUserProfile(userId)) {
+    userProfileService.upsertUserProfile(userId, { name: request.userName });
+    console.log(`✅ Auto-created profile for ${userId} (name: ${request.userName})`);
+  }
+
+  // 💾 Response cache - plain text questions only (no images, documents or caller instructions)
+  const cacheable = normalizedType === "text" && !request.imageBase64 && !documentId && !request.instructions;
+  if (cacheable && !request.skipCache) {
+    const cachedResponse = getResponseCacheService().get(prompt, userId);
+    if (cachedResponse) return { kind: "cached", text: cachedResponse };
+  }
+
+  // Cached answers are free; a turn that fails gets its message back
+  await entitlements.consume(userId, "messages");
+  try {
+    return await routeChatTurn(request, { normalizedType, meter, cacheable }, signal);
+  } catch (error) {
+    await entitlements.refund(userId, "messages");
+    throw error;
+  }
+}
+
+/**
+ * The charged part of prepareChatTurn: intent routing, image turns, memory,
+ * documents and the prompt
+ */
+async function routeChatTurn(
+  request: ChatTurnRequest,
+  turn: { normalizedType: "text" | "image"; meter: UsageMeter; cacheable: boolean },
+  signal?: AbortSignal
+): Promise<PreparedChatTurn> {
+  const { prompt, userId, chatId, documentId } = request;
+  const { normalizedType, meter, cacheable } = turn;
+  const entitlements = getEntitlementService();
+
+  // Prefer explicit request model, then env overrides, then safe defaults
+  const textModel = request.model || process.env.TEXT_MODEL || "gemini-2.5-pro";
+  const imageModel = request.model || process.env.IMAGE_MODEL || "gemini-2.5-flash-image";
+
+  // 🖼️ Priority: uploaded image first, then imageId from the image cache
+  let image: { imageBase64: string; fileName?: string; description?: string } | null = null;
+  if (request.imageBase64) {
+    console.log(`🖼️ Using uploaded image (${request.imageBase64.length} chars base64)`);
+    image = { imageBase64: request.imageBase64 };
+  } else if (request.imageId) {
+    const imageData = getImage(request.imageId);
+    if (imageData) {
+      image = {
+        imageBase64: imageData.imageBase64,
+        fileName: imageData.fileName,
+        description: imageData.description,
+      };
+      console.log(`🖼️ Added image context. Image: ${imageData.fileName}`);
+    } else {
+      console.warn(`⚠️ Image ID "${request.imageId}" provided but not found in cache.`);
+    }
+  }
+
+  // With an image: edit it, answer questions about it, or ignore it and draw a new one
+  if (image) {
+    const imageIntent = await detectFinalImageIntent(prompt, userId, chatId, meter.route);
+    console.log(`🎯 Final image intent decision: ${imageIntent}`);
+
+    if (imageIntent === "edit") {
+      assertImageOutputAllowed(request);
+      await entitlements.consume(userId, "imageGenerations");
+      try {
+        const result = await editImage({ prompt, imageBase64: image.imageBase64, model: imageModel, signal, meter });
+        return { kind: "image", image: result };
+      } catch (e) {
+        await entitlements.refund(userId, "imageGenerations");
+        if (signal?.aborted) throw e;
+        console.error("❌ Image editing failed, falling back to vision Q&A:", e);
+      }
+    } else if (imageIntent === "generate") {
+      console.log("🎨 Generate intent with an uploaded image - drawing a new image instead");
+      image = null;
+    } else {
+      console.log("👁️ Vision Q&A intent detected with uploaded image");
+    }
+  }
+
+  if (!image && (await shouldGenerateImage(prompt, normalizedType, meter))) {
+    // 🔒 Apply image-specific rate limiting
+    if (!rateLimiter.checkRateLimit(userId, "image")) {
+      logSecurityEvent("Image rate limit exceeded", { userId });
+      throw new ChatTurnError("Image generation rate limit exceeded. Please try again later.", 429);
+    }
+    assertImageOutputAllowed(request);
+    await entitlements.consume(userId, "imageGenerations");
+    try {
+      const result = await generateImage({ prompt, model: imageModel, signal, meter });
+      return { kind: "image", image: result };
+    } catch (e) {
+      await entitlements.refund(userId, "imageGenerations");
+      throw e;
+    }
+  }
+
+  const memory =
+    request.useMemory && normalizedType === "text"
+      ? await gatherMemoryContext(request)
+      : { profileContext: null, memoryContext: null, rollingSummary: null };
+
+  // 📚 Add document context if documentId is provided
+  let document: { summary: string; relevantChunks: string[] } | null = null;
+  if (documentId) {
+    document = searchChunks(documentId, prompt);
+    if (document) {
+      console.log(`📚 Added document context. Chunks: ${document.relevantChunks.length}`);
+    } else {
+      console.warn(`⚠️ Document ID "${documentId}" provided but not found in cache.`);
+    }
+  }
+
+  // Same builder for text, vision and document requests - the image (if any)
+  // rides along in the final user turn for visual Q&A
+  const chatContext = buildChatContext({
+    prompt,
+    instructions: request.instructions,
+    model: getModelProviderRegistry().parseModelId(textModel).model,
+    profileContext: memory.profileContext,
+    rollingSummary: memory.rollingSummary,
+    memoryContext: memory.memoryContext,
+    conversationHistory: request.conversationHistory,
+    conversationSummary: request.conversationSummary,
+    cachedTurns: memory.recentTurns,
+    document,
+    image,
+  });
+  return { kind: "text", model: textModel, chatContext, cacheable, meter };
+}
+
+/**
+ * Give back the message a text turn was charged for when its answer couldn't be generated
+ */
+export function refundChatTurn(userId: string): Promise<void> {
+  return getEntitlementService().refund(userId, "messages");
+}
+
+/**
+ * Store an answered turn in session memory and the chat store, in the background.
+ * Pinecone upload happens later, when the user switches chats (/api/end-chat).
+ */
+export function storeChatTurn(userId: string, prompt: string, text: string, chatId?: string): void {
+  setImmediate(async () => {
+    try {
+      const hybridMemoryService = getHybridMemoryService();
+      const conversationTurn = hybridMemoryService.storeConversationTurn(userId, prompt, text, chatId);
+      await firestoreChatService.saveTurn(conversationTurn);
+      queueChatTitle(userId, chatId);
+      console.log(`💬 [BACKGROUND] Stored turn in session (chat: ${chatId}): "${prompt.substring(0, 50)}..."`);
+
+      // ⚡ OPTIMIZATION: Preload memory for next query
+      if (chatId) {
+        preloadMemoryForNextQuery(userId, chatId, hybridMemoryService).catch((err: any) =>
+          console.warn("Preload failed:", err)
+        );
+      }
+    } catch (memoryError) {
+      console.error("❌ [BACKGROUND] Failed to store conversation turn:", memoryError);
+    }
+  });
+}
+
+/**
+ * Run one streaming chat turn. Never throws: failures are emitted as an `error`
+ * event. When `signal` aborts, it stops quietly after applying STREAM_ABORT_POLICY.
+ */
+export async function streamChatTurn(
+  request: ChatTurnRequest,
+  emit: (event: ChatStreamEvent) => void,
+  signal: AbortSignal
+): Promise<void> {
+  const { prompt, userId, chatId, messageCount, useMemory } = request;
+  let fullText = "";
+  let charged = false; // A text turn is being answered
+
+  // Apply STREAM_ABORT_POLICY to whatever was generated before the client left
+  const handleAborted = () => {
+    console.log(`🛑 Stream cancelled after ${fullText.length} chars (policy: ${STREAM_ABORT_POLICY})`);
+    if (STREAM_ABORT_POLICY !== "truncated" || !useMemory || !fullText) return;
+    const turn = getHybridMemoryService().storeConversationTurn(
+      userId,
+      prompt,
+      `${fullText}\n\n[Response stopped before it finished]`,
+      chatId
+    );
+    firestoreChatService
+      .saveTurn(turn)
+      .catch((err: any) => console.error("❌ Failed to save truncated turn:", err));
+  };
+
+  try {
+    console.log(
+      `🌊 Streaming request - User: ${userId}, Chat: ${chatId || "none"}, Prompt: "${prompt.substring(0, 50)}..."`
+    );
+    const startTime = Date.now();
+    const turn = await prepareChatTurn(request, signal);
+    if (signal.aborted) {
+      handleAborted();
+      return;
+    }
+
+    if (turn.kind === "cached") {
+      // Stream cached response in chunks for consistent UX
+      const chunkSize = 50;
+      for (let i = 0; i < turn.text.length; i += chunkSize) {
+        if (signal.aborted) return;
+        emit({ text: turn.text.substring(i, i + chunkSize), cached: true });
+        // Small delay to simulate streaming
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+      emit({ done: true, cached: true });
+      return;
+    }
+
+    if (turn.kind === "image") {
+      const { response, ...image } = turn.image;
+      emit({ image });
+      emit({ done: true, duration: (Date.now() - startTime) / 1000, provider: response.provider });
+      persistImageTurn({ userId, chatId, prompt, result: turn.image, useMemory });
+      return;
+    }
+
+    charged = true;
+    const registry = getModelProviderRegistry();
+    const streamTrace: StreamTrace = {};
+    const streamRequest = {
+      model: turn.model,
+      contents: turn.chatContext.contents,
+      systemInstruction: turn.chatContext.systemInstruction,
+      signal,
+      meter: turn.meter,
+    };
+    const toolCalls: ToolExecution[] = [];
+
+    // Tool calls and results are reported as their own events
+    const stream =
+      request.useTools && toolsEnabled()
+        ? streamWithTools(
+            streamRequest,
+            {
+              context: { userId, chatId, messageCount, documentId: request.documentId, memoryScope: request.memoryScope },
+              onToolCall: (call) => emit({ tool_call: call }),
+              onToolResult: (execution) => {
+                toolCalls.push(execution);
+                emit({ tool_result: execution });
+              },
+            },
+            streamTrace
+          )
+        : registry.generateContentStream(streamRequest, streamTrace);
+
+    for await (const chunk of stream) {
+      if (signal.aborted) break;
+      fullText += chunk;
+      emit({ text: chunk });
+    }
+
+    // Client left mid-stream: nothing to send, and a partial answer must not be cached
+    if (signal.aborted) {
+      handleAborted();
+      return;
+    }
+
+    const duration = (Date.now() - startTime) / 1000;
+    console.log(`✅ Streaming complete (${fullText.length} chars) in ${duration.toFixed(2)}s`);
+
+    // Cache the full response (tool-assisted answers go stale, skip those)
+    if (turn.cacheable && fullText && toolCalls.length === 0) {
+      getResponseCacheService().set(prompt, userId, fullText, responseCacheTtl(prompt));
+    }
+    if (useMemory && fullText) {
+      storeChatTurn(userId, prompt, fullText, chatId);
+    }
+
+    emit({ done: true, duration, provider: streamTrace.provider, context: turn.chatContext.report });
+  } catch (err: any) {
+    if (signal.aborted) {
+      handleAborted();
+      return;
+    }
+    console.error("❌ Streaming error:", err);
+    if (charged) await refundChatTurn(userId);
+    emit({
+      error: err?.message ?? String(err),
+      ...(err instanceof EntitlementError ? { code: err.code, status: err.status } : {}),
+      ...(err instanceof ChatTurnError ? { status: err.status } : {}),
+    });
+  }
+}
@@ -0,0 +1,214 @@
+// chatSearchService.ts - Search a user's chats by keyword and by meaning
+//
+// Keyword hits come from scanning the Firestore chat documents (Firestore has no
+// full-text search, and it only keeps each chat's recent messages). Semantic hits come
+// from the Pinecone conversation memories, filtered by userId, which also reach chats
+// and messages that have aged out of Firestore. Both lists are ranked per message and
+// merged with reciprocal rank fusion, so a message found both ways comes first.
+
+import type { ChatSearchResult } from "./apiSchemas";
+import { getEmbeddingService } from "./embeddingService";
+import { firestoreChatService } from "./firestoreChatService";
+import type { FirestoreChatDocument } from "./firestoreChatService";
+
+const SCANNED_CHATS = 200;
+const SEMANTIC_THRESHOLD = 0.55;
+const RRF_K = 60; // Damping from the original reciprocal rank fusion paper
+const SNIPPET_LENGTH = 180;
+const SNIPPET_CONTEXT = 60; // Characters kept before the first match
+const MAX_TERMS = 10;
+
+type MatchSource = ChatSearchResult["matchedBy"][number];
+
+interface Candidate {
+  chatId: string;
+  chatTitle: string;
+  messageId: string;
+  role: ChatSearchResult["role"];
+  timestamp: number;
+  content: string;
+}
+
+/**
+ * Lowercased, de-duplicated search terms ("bread-proofing" -> bread, proofing)
+ */
+function searchTerms(query: string): string[] {
+  const terms = query
+    .toLowerCase()
+    .split(/[^a-z0-9\u00c0-\uffff]+/)
+    .filter((term) => term.length >= 2);
+  return Array.from(new Set(terms)).slice(0, MAX_TERMS);
+}
+
+/**
+ * Share of terms the text contains, with a bonus when it has the whole phrase.
+ * 0 when fewer than half the terms match.
+ */
+function keywordScore(text: string, terms: string[], phrase: string): number {
+  const lower = text.toLowerCase();
+  const matched = terms.filter((term) => lower.includes(term)).length;
+  if (matched === 0 || matched < terms.length / 2) return 0;
+  const phraseBonus = terms.length > 1 && lower.includes(phrase) ? 0.5 : 0;
+  return matched / terms.length + phraseBonus;
+}
+
+function mergeRanges(ranges: [number, number][]): [number, number][] {
+  const merged: [number, number][] = [];
+  for (const [start, end] of ranges.sort((a, b) => a[0] - b[0])) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+    else merged.push([start, end]);
+  }
+  return merged;
+}
+
+/**
+ * A window of the message around its first match, with the [start, end) offsets
+ * of every term inside it
+ */
+function buildSnippet(content: string, terms: string[]): Pick<ChatSearchResult, "snippet" | "highlights"> {
+  const text = content.replace(/\s+/g, " ").trim();
+  const lower = text.toLowerCase();
+  const positions = terms.map((term) => lower.indexOf(term)).filter((index) => index >= 0);
+  const first = positions.length > 0 ? Math.min(...positions) : 0;
+
+  let start = Math.max(0, first - SNIPPET_CONTEXT);
+  if (start > 0) {
+    const wordStart = text.indexOf(" ", start);
+    start = wordStart >= 0 && wordStart < first ? wordStart + 1 : start;
+  }
+  let end = Math.min(text.length, start + SNIPPET_LENGTH);
+  if (end < text.length) {
+    const wordEnd = text.lastIndexOf(" ", end);
+    if (wordEnd > first) end = wordEnd;
+  }
+
+  const prefix = start > 0 ? "…" : "";
+  const snippet = prefix + text.slice(start, end) + (end < text.length ? "…" : "");
+  const snippetLower = snippet.toLowerCase();
+  const ranges: [number, number][] = [];
+  for (const term of terms) {
+    for (let index = snippetLower.indexOf(term); index >= 0; index = snippetLower.indexOf(term, index + term.length)) {
+      ranges.push([index, index + term.length]);
+    }
+  }
+  return { snippet, highlights: mergeRanges(ranges) };
+}
+
+const candidateKey = (candidate: Pick<Candidate, "chatId" | "messageId">) =>
+  `${candidate.chatId}\u0000${candidate.messageId}`;
+
+const chatTitle = (doc: FirestoreChatDocument | undefined) => doc?.title || "Untitled chat";
+
+function keywordCandidates(docs: FirestoreChatDocument[], terms: string[], phrase: string): Candidate[] {
+  const scored: { candidate: Candidate; score: number }[] = [];
+  for (const doc of docs) {
+    for (const message of doc.messages || []) {
+      const score = keywordScore(message.content, terms, phrase);
+      if (score === 0) continue;
+      scored.push({
+        score,
+        candidate: {
+          chatId: doc.chatId,
+          chatTitle: chatTitle(doc),
+          messageId: message.id,
+          role: message.role,
+          timestamp: message.timestamp,
+          content: message.content,
+        },
+      });
+    }
+  }
+  return scored
+    .sort((a, b) => b.score - a.score || b.candidate.timestamp - a.candidate.timestamp)
+    .map(({ candidate }) => candidate);
+}
+
+/**
+ * Pinecone conversation memories, mapped back onto the Firestore message they
+ * were stored from when it's still there
+ */
+async function semanticCandidates(
+  userId: string,
+  query: string,
+  topK: number,
+  docsById: Map<string, FirestoreChatDocument>
+): Promise<Candidate[]> {
+  let hits;
+  try {
+    hits = await getEmbeddingService().searchMemories(query, {
+      topK,
+      threshold: SEMANTIC_THRESHOLD,
+      userId,
+      filter: { type: "conversation" },
+    });
+  } catch (error) {
+    console.error("❌ Semantic chat search failed, using keyword matches only:", error);
+    return [];
+  }
+
+  const candidates: Candidate[] = [];
+  for (const hit of hits) {
+    const { chatId, turnId, timestamp } = hit.metadata;
+    if (!chatId || hit.metadata.userId !== userId) continue;
+    const role = hit.metadata.role || "user";
+    const doc = docsById.get(chatId);
+    const message =
+      doc?.messages.find((msg) => turnId && msg.id === `${turnId}-${role}`) ??
+      doc?.messages.find((msg) => msg.role === role && msg.content.trim() === hit.content.trim());
+
+    candidates.push({
+      chatId,
+      chatTitle: chatTitle(doc),
+      messageId: message?.id ?? (turnId ? `${turnId}-${role}` : hit.id),
+      role,
+      timestamp: message?.timestamp ?? timestamp,
+      content: message?.content ?? hit.content,
+    });
+  }
+  return candidates;
+}
+
+/**
+ * Search a user's chat messages, best matches first
+ */
+export async function searchChats(userId: string, query: string, limit = 20): Promise<ChatSearchResult[]> {
+  const terms = searchTerms(query);
+  const phrase = terms.join(" ");
+  const docs = await firestoreChatService.listChatDocuments(userId, SCANNED_CHATS);
+  const docsById = new Map(docs.map((doc) => [doc.chatId, doc]));
+
+  const rankings: [MatchSource, Candidate[]][] = [
+    ["keyword", terms.length > 0 ? keywordCandidates(docs, terms, phrase) : []],
+    ["semantic", await semanticCandidates(userId, query, limit * 2, docsById)],
+  ];
+
+  const merged = new Map<string, { candidate: Candidate; score: number; matchedBy: MatchSource[] }>();
+  for (const [source, candidates] of rankings) {
+    candidates.forEach((candidate, rank) => {
+      const key = candidateKey(candidate);
+      const entry = merged.get(key) ?? { candidate, score: 0, matchedBy: [] };
+      if (entry.matchedBy.includes(source)) return; // Count a message once per ranking
+      entry.score += 1 / (RRF_K + rank + 1);
+      entry.matchedBy.push(source);
+      merged.set(key, entry);
+    });
+  }
+
+  const results = Array.from(merged.values())
+    .sort((a, b) => b.score - a.score || b.candidate.timestamp - a.candidate.timestamp)
+    .slice(0, limit)
+    .map(({ candidate, score, matchedBy }) => ({
+      chatId: candidate.chatId,
+      chatTitle: candidate.chatTitle,
+      messageId: candidate.messageId,
+      role: candidate.role,
+      timestamp: candidate.timestamp,
+      ...buildSnippet(candidate.content, terms),
+      score,
+      matchedBy,
+    }));
+
+  console.log(`🔎 Chat search for ${userId}: ${results.length} results (${docs.length} chats scanned)`);
+  return results;
+}
@@ -0,0 +1,206 @@
+// chatShareService.ts - Read-only public share links for chats
+//
+// Sharing a chat stores a snapshot of its messages under a random token
+// (chatShares/{token} in Firestore, in memory without it); anyone with the link can
+// read that snapshot, nothing else. Later messages in the chat don't change it.
+// Snapshots are taken from the chat as the server stores it (its active branch), never
+// from what a client sends, so a link can only show a real chat. The store only keeps a
+// long chat's latest messages, so its snapshot records how many earlier ones it leaves
+// out and the link says so. Only stored image URLs are kept from attachments. Owners can revoke a link, and a link can expire on its own.
+
+import { randomBytes } from "crypto";
+import type * as admin from "firebase-admin";
+import { getFirestore } from "./firebaseAdmin";
+
+export interface ChatShareMessage {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  timestamp: number;
+  attachments?: string[];
+}
+
+export interface ChatShareRecord {
+  token: string;
+  userId: string;
+  chatId: string;
+  title: string;
+  messages: ChatShareMessage[];
+  omittedMessages?: number; // Earlier messages the store no longer had (missing on older shares)
+  createdAt: number;
+  expiresAt: number | null; // null = until revoked
+  revokedAt: number | null;
+}
+
+/**
+ * What the owner's share listings show
+ */
+export type ChatShareSummary = Omit<ChatShareRecord, "userId" | "messages" | "omittedMessages"> & {
+  messageCount: number;
+  omittedMessages: number;
+};
+
+/**
+ * What a share link shows to anyone who opens it
+ */
+export type SharedChat = Pick<ChatShareRecord, "title" | "messages" | "createdAt" | "expiresAt"> & {
+  omittedMessages: number;
+};
+
+const MAX_SNAPSHOT_BYTES = 900 * 1024; // Firestore documents are capped at 1MB
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function summarize(record: ChatShareRecord): ChatShareSummary {
+  const { userId: _userId, messages, omittedMessages, ...summary } = record;
+  return { ...summary, messageCount: messages.length, omittedMessages: omittedMessages ?? 0 };
+}
+
+function isLive(record: ChatShareRecord, now = Date.now()): boolean {
+  return !record.revokedAt && (record.expiresAt === null || record.expiresAt > now);
+}
+
+/**
+ * Thrown when a chat is too long to fit in one snapshot
+ */
+export class ChatShareTooLargeError extends Error {
+  constructor() {
+    super("This chat is too long to share - fork it from a later message and share that instead");
+    this.name = "ChatShareTooLargeError";
+  }
+}
+
+class ChatShareService {
+  private shares: Map<string, ChatShareRecord> = new Map(); // token -> share (without Firestore)
+  private firestore: admin.firestore.Firestore | null | undefined; // undefined until first use
+
+  /**
+   * Snapshot a chat under a new token
+   */
+  async create(
+    userId: string,
+    chatId: string,
+    options: {
+      title: string;
+      messages: ChatShareMessage[]; // The stored transcript
+      omittedMessages?: number; // Earlier messages that are no longer stored
+      expiresInDays?: number;
+    }
+  ): Promise<ChatShareSummary> {
+    const messages: ChatShareMessage[] = [];
+    for (const message of options.messages) {
+      const shared: ChatShareMessage = {
+        id: message.id,
+        role: message.role,
+        content: message.content,
+        timestamp: message.timestamp,
+      };
+      // Firestore rejects undefined fields, so attachments are only set when present
+      const attachments = message.attachments?.filter((url) => url.startsWith("https://"));
+      if (attachments?.length) shared.attachments = attachments;
+      messages.push(shared);
+    }
+    if (Buffer.byteLength(JSON.stringify(messages)) > MAX_SNAPSHOT_BYTES) {
+      throw new ChatShareTooLargeError();
+    }
+
+    const createdAt = Date.now();
+    const record: ChatShareRecord = {
+      token: randomBytes(18).toString("base64url"),
+      userId,
+      chatId,
+      title: options.title.trim(),
+      messages,
+      omittedMessages: options.omittedMessages ?? 0,
+      createdAt,
+      expiresAt: options.expiresInDays ? createdAt + options.expiresInDays * DAY_MS : null,
+      revokedAt: null,
+    };
+
+    const firestore = this.getStore();
+    if (firestore) await firestore.collection("chatShares").doc(record.token).set(record);
+    else this.shares.set(record.token, record);
+
+    console.log(`🔗 Chat ${chatId} shared by ${userId} (${messages.length} message(s))`);
+    return summarize(record);
+  }
+
+  /**
+   * A user's share links, newest first (revoked and expired ones included)
+   */
+  async list(userId: string): Promise<ChatShareSummary[]> {
+    let records: ChatShareRecord[];
+    const firestore = this.getStore();
+    if (firestore) {
+      const snapshot = await firestore.collection("chatShares").where("userId", "==", userId).get();
+      records = snapshot.docs.map((doc) => doc.data() as ChatShareRecord);
+    } else {
+      records = [...this.shares.values()].filter((r) => r.userId === userId);
+    }
+    return records.sort((a, b) => b.createdAt - a.createdAt).map(summarize);
+  }
+
+  /**
+   * Revoke one of a user's links. Returns false when the user has no such link.
+   */
+  async revoke(userId: string, token: string): Promise<boolean> {
+    const revokedAt = Date.now();
+    const firestore = this.getStore();
+    if (firestore) {
+      const ref = firestore.collection("chatShares").doc(token);
+      const doc = await ref.get();
+      if (!doc.exists || (doc.data() as ChatShareRecord).userId !== userId) return false;
+      if (!doc.data()!.revokedAt) await ref.update({ revokedAt });
+    } else {
+      const record = this.shares.get(token);
+      if (!record || record.userId !== userId) return false;
+      record.revokedAt ??= revokedAt;
+    }
+    console.log(`🔗 Share link revoked by ${userId}`);
+    return true;
+  }
+
+  /**
+   * The snapshot behind a link. Null for unknown, revoked or expired links.
+   */
+  async get(token: string): Promise<SharedChat | null> {
+    let record: ChatShareRecord | undefined;
+    const firestore = this.getStore();
+    if (firestore) {
+      const doc = await firestore.collection("chatShares").doc(token).get();
+      record = doc.exists ? (doc.data() as ChatShareRecord) : undefined;
+    } else {
+      record = this.shares.get(token);
+    }
+    if (!record || !isLive(record)) return null;
+
+    const { title, messages, createdAt, expiresAt } = record;
+    return { title, messages, omittedMessages: record.omittedMessages ?? 0, createdAt, expiresAt };
+  }
+
+  /**
+   * Forget in-memory shares (tests)
+   */
+  clear(): void {
+    this.shares.clear();
+  }
+
+  private getStore(): admin.firestore.Firestore | null {
+    if (this.firestore === undefined) {
+      this.firestore = getFirestore();
+      if (!this.firestore) console.warn("⚠️ Chat shares running without Firestore (in-memory only)");
+    }
+    return this.firestore;
+  }
+}
+
+// Singleton instance
+let chatShareService: ChatShareService | null = null;
+
+export function getChatShareService(): ChatShareService {
+  if (!chatShareService) {
+    chatShareService = new ChatShareService();
+  }
+  return chatShareService;
+}
+
+export { ChatShareService };
@@ -0,0 +1,306 @@
+// chatSocketService.ts - WebSocket chat transport with several streams per connection
+//
+// Clients connect to /api/ws?token=<Firebase ID token> and exchange JSON messages. Every chat stream
+// is tagged with a client-chosen requestId, so one socket can run, cancel and
+// regenerate answers for several chats at once. The server also pushes events that
+// aren't tied to a request (a chat was persisted, an image got its durable URL).
+// Answers come from the same pipeline as /api/ask-ai-stream.
+
+import type { IncomingMessage, Server } from "http";
+import { WebSocket, WebSocketServer } from "ws";
+import type { RawData } from "ws";
+import type { HistoryMessage } from "./contextBuilder";
+import type { ContextReport } from "./contextBudgeter";
+import type { ToolExecution } from "./toolRegistry";
+import { acquireChatLock, releaseChatLock, streamChatTurn, toMemoryScope, CHAT_BUSY_ERROR } from "./chatPipeline";
+import type { ChatImageEvent, ChatStreamEvent } from "./chatPipeline";
+import { rateLimiter, SecurityValidator, logSecurityEvent } from "./securityMiddleware";
+import { authenticateUpgrade, AuthError, hasScope } from "./authMiddleware";
+import type { AuthContext } from "./authMiddleware";
+
+export const CHAT_SOCKET_PATH = "/api/ws";
+
+/**
+ * Messages a client sends
+ */
+export type ClientMessage =
+  | {
+      type: "start";
+      requestId: string;
+      prompt: string;
+      chatId?: string;
+      userName?: string;
+      messageCount?: number;
+      conversationHistory?: HistoryMessage[];
+      conversationSummary?: string;
+      memory?: boolean;
+      memoryFolder?: string; // New chats only recall chats in this folder
+      memoryTag?: string; // ... or with this tag
+      tools?: boolean;
+      documentId?: string;
+      requestType?: string; // /api/ask-ai's `type` - "image" asks for image generation
+      imageBase64?: string; // Image to edit or ask about
+      imageId?: string;
+      regenerate?: boolean; // Skip the response cache and ask the model again
+    }
+  | { type: "cancel"; requestId: string }
+  | { type: "ping" };
+
+/**
+ * Messages the server sends. `start` doubles as the typing indicator.
+ */
+export type ServerMessage =
+  | { type: "start"; requestId: string }
+  | { type: "chunk"; requestId: string; text: string; cached?: boolean }
+  | {
+      type: "tool";
+      requestId: string;
+      call?: { id: string; name: string; args: Record<string, any> };
+      result?: ToolExecution;
+    }
+  | { type: "image"; requestId: string; image: ChatImageEvent }
+  | { type: "done"; requestId: string; cached?: boolean; duration?: number; provider?: string; context?: ContextReport }
+  | { type: "error"; requestId?: string; error: string; code?: string }
+  | { type: "cancel"; requestId: string }
+  | { type: "event"; name: string; data: Record<string, any> }
+  | { type: "pong" };
+
+const HEARTBEAT_MS = Number(process.env.WS_HEARTBEAT_MS || 30000);
+const MAX_STREAMS_PER_SOCKET = Number(process.env.WS_MAX_STREAMS || 4);
+
+/**
+ * Map a pipeline event onto the socket protocol
+ */
+function toServerMessage(requestId: string, event: ChatStreamEvent): ServerMessage {
+  if ("text" in event) return { type: "chunk", requestId, text: event.text, cached: event.cached };
+  if ("tool_call" in event) return { type: "tool", requestId, call: event.tool_call };
+  if ("tool_result" in event) return { type: "tool", requestId, result: event.tool_result };
+  if ("image" in event) return { type: "image", requestId, image: event.image };
+  if ("error" in event) return { type: "error", requestId, error: event.error, ...(event.code ? { code: event.code } : {}) };
+  const { done: _done, ...rest } = event;
+  return { type: "done", requestId, ...rest };
+}
+
+interface SocketState {
+  userId: string;
+  allowImageOutput: boolean; // API keys need the "images" scope
+  streams: Map<string, AbortController>; // requestId -> running stream
+  alive: boolean;
+}
+
+class ChatSocketService {
+  private wss: WebSocketServer | null = null;
+  private sockets: Map<string, Set<WebSocket>> = new Map(); // userId -> open sockets
+  private states: WeakMap<WebSocket, SocketState> = new WeakMap();
+  private upgradeUsers: WeakMap<IncomingMessage, AuthContext> = new WeakMap(); // verified caller per upgrade request
+  private heartbeat: NodeJS.Timeout | null = null;
+
+  /**
+   * Accept WebSocket upgrades on CHAT_SOCKET_PATH of an HTTP server
+   */
+  attach(server: Server): WebSocketServer {
+    if (this.wss) return this.wss;
+    this.wss = new WebSocketServer({
+      server,
+      path: CHAT_SOCKET_PATH,
+      // 🔐 Same token check as the HTTP routes, before the upgrade is accepted
+      verifyClient: (info, done) => {
+        authenticateUpgrade(info.req)
+          .then((auth) => {
+            this.upgradeUsers.set(info.req, auth);
+            done(true);
+          })
+          .catch((err) => {
+            const status = err instanceof AuthError ? err.status : 500;
+            logSecurityEvent("WebSocket upgrade rejected", { status, error: err?.message });
+            done(false, status, err?.message ?? "Authentication failed");
+          });
+      },
+    });
+    this.wss.on("connection", (socket, req) => this.handleConnection(socket, req));
+
+    // Drop connections that stopped answering pings (sleeping phones, dead proxies)
+    this.heartbeat = setInterval(() => {
+      this.wss?.clients.forEach((socket) => {
+        const state = this.states.get(socket);
+        if (state && !state.alive) return socket.terminate();
+        if (state) state.alive = false;
+        socket.ping();
+      });
+    }, HEARTBEAT_MS);
+    this.heartbeat.unref();
+
+    console.log(`🔌 Chat WebSocket listening on ${CHAT_SOCKET_PATH}`);
+    return this.wss;
+  }
+
+  /**
+   * Push an event to every open socket of a user. Returns how many sockets got it.
+   */
+  notifyUser(userId: string, name: string, data: Record<string, any>): number {
+    const sockets = this.sockets.get(userId);
+    if (!sockets) return 0;
+    sockets.forEach((socket) => this.send(socket, { type: "event", name, data }));
+    return sockets.size;
+  }
+
+  getStats(): { connections: number; users: number; streams: number } {
+    let connections = 0;
+    let streams = 0;
+    this.wss?.clients.forEach((socket) => {
+      connections++;
+      streams += this.states.get(socket)?.streams.size ?? 0;
+    });
+    return { connections, users: this.sockets.size, streams };
+  }
+
+  close(): void {
+    if (this.heartbeat) clearInterval(this.heartbeat);
+    this.wss?.clients.forEach((socket) => socket.terminate());
+    this.wss?.close();
+    this.wss = null;
+    this.sockets.clear();
+  }
+
+  private handleConnection(socket: WebSocket, req: IncomingMessage): void {
+    const auth = this.upgradeUsers.get(req);
+    if (!auth) {
+      socket.close(1008, "Not authenticated");
+      return;
+    }
+
+    const userId = auth.uid;
+    const state: SocketState = {
+      userId,
+      allowImageOutput: hasScope(auth, "images"),
+      streams: new Map(),
+      alive: true,
+    };
+    this.states.set(socket, state);
+    if (!this.sockets.has(userId)) this.sockets.set(userId, new Set());
+    this.sockets.get(userId)!.add(socket);
+    console.log(`🔌 WebSocket connected (user: ${userId})`);
+
+    socket.on("pong", () => {
+      state.alive = true;
+    });
+    socket.on("message", (raw) => {
+      this.handleMessage(socket, state, raw).catch((err) => {
+        console.error("❌ WebSocket message failed:", err);
+        this.send(socket, { type: "error", error: err?.message ?? String(err) });
+      });
+    });
+    socket.on("close", () => {
+      // Closing the socket cancels everything it was streaming
+      state.streams.forEach((controller) => controller.abort());
+      const sockets = this.sockets.get(userId);
+      sockets?.delete(socket);
+      if (sockets && sockets.size === 0) this.sockets.delete(userId);
+      console.log(`🔌 WebSocket closed (user: ${userId})`);
+    });
+  }
+
+  private async handleMessage(socket: WebSocket, state: SocketState, raw: RawData): Promise<void> {
+    let message: ClientMessage;
+    try {
+      message = JSON.parse(raw.toString());
+    } catch {
+      return this.send(socket, { type: "error", error: "Messages must be JSON" });
+    }
+
+    switch (message?.type) {
+      case "ping":
+        return this.send(socket, { type: "pong" });
+
+      case "cancel": {
+        const controller = state.streams.get(message.requestId);
+        if (!controller) {
+          return this.send(socket, { type: "error", requestId: message.requestId, error: "No such stream" });
+        }
+        controller.abort();
+        return this.send(socket, { type: "cancel", requestId: message.requestId });
+      }
+
+      case "start":
+        return this.startStream(socket, state, message);
+
+      default:
+        return this.send(socket, { type: "error", error: `Unknown message type "${(message as any)?.type}"` });
+    }
+  }
+
+  private async startStream(
+    socket: WebSocket,
+    state: SocketState,
+    message: Extract<ClientMessage, { type: "start" }>
+  ): Promise<void> {
+    const { requestId, prompt, chatId } = message;
+    const fail = (error: string) => this.send(socket, { type: "error", requestId, error });
+
+    if (typeof requestId !== "string" || !requestId) return fail("requestId is required");
+    if (state.streams.has(requestId)) return fail("requestId is already streaming");
+    if (state.streams.size >= MAX_STREAMS_PER_SOCKET) return fail("Too many concurrent streams on this connection");
+
+    const promptValidation = SecurityValidator.validatePrompt(prompt);
+    if (!promptValidation.valid) {
+      logSecurityEvent("Invalid prompt blocked", { userId: state.userId, error: promptValidation.error });
+      return fail(promptValidation.error || "Prompt is required");
+    }
+    if (chatId && !SecurityValidator.validateChatId(chatId).valid) return fail("Invalid chatId format");
+    if (!rateLimiter.checkRateLimit(state.userId, "general")) return fail("Rate limit exceeded");
+
+    // 🔒 Same per-chat lock as the HTTP routes
+    const chatLock = acquireChatLock(state.userId, chatId);
+    if (!chatLock) return fail(CHAT_BUSY_ERROR);
+
+    const abortController = new AbortController();
+    state.streams.set(requestId, abortController);
+    this.send(socket, { type: "start", requestId });
+    try {
+      await streamChatTurn(
+        {
+          prompt,
+          userId: state.userId,
+          chatId,
+          userName: message.userName,
+          messageCount: message.messageCount,
+          conversationHistory: message.conversationHistory,
+          conversationSummary: message.conversationSummary,
+          useMemory: message.memory !== false,
+          memoryScope: toMemoryScope(message.memoryFolder, message.memoryTag),
+          useTools: message.tools !== false,
+          documentId: message.documentId,
+          type: message.requestType,
+          imageBase64: message.imageBase64,
+          imageId: message.imageId,
+          skipCache: message.regenerate === true,
+          route: "ws",
+          allowImageOutput: state.allowImageOutput,
+        },
+        (event) => this.send(socket, toServerMessage(requestId, event)),
+        abortController.signal
+      );
+    } finally {
+      state.streams.delete(requestId);
+      releaseChatLock(chatLock);
+    }
+  }
+
+  private send(socket: WebSocket, message: ServerMessage): void {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  }
+}
+
+// Singleton instance
+let chatSocketService: ChatSocketService | null = null;
+
+export function getChatSocketService(): ChatSocketService {
+  if (!chatSocketService) {
+    chatSocketService = new ChatSocketService();
+  }
+  return chatSocketService;
+}
+
+export { ChatSocketService };
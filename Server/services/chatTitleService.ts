@@ -0,0 +1,150 @@
+// chatTitleService.ts - Background chat titles
+//
+// Chats start out titled after their first message. After the first exchange a
+// "chat-title" job asks the model for a short title; every few exchanges after that
+// the job checks whether the conversation has drifted away from it (embedding
+// similarity between the title and the latest prompts) and retitles when it has.
+// Titles the user typed are never replaced.
+
+import { firestoreChatService } from "./firestoreChatService";
+import type { FirestoreChatDocument } from "./firestoreChatService";
+import { getEmbeddingService } from "./embeddingService";
+import { getModelProviderRegistry } from "./modelProviderService";
+import { generateStructured } from "./structuredOutputService";
+import { getJobQueue } from "./jobQueue";
+import type { JSONSchema } from "./jsonSchema";
+
+const RETITLE_EVERY_MESSAGES = 8; // Re-check a generated title every 4 exchanges
+const RETITLE_SIMILARITY = Number(process.env.CHAT_RETITLE_SIMILARITY || 0.35);
+
+const TITLE_SCHEMA: JSONSchema = {
+  type: "object",
+  properties: { title: { type: "string" } },
+  required: ["title"],
+};
+
+/**
+ * Whether a title job should look at the chat at all
+ */
+export function isTitleDue(chat: Pick<FirestoreChatDocument, "messageCount" | "titleSource" | "titledAtMessageCount">): boolean {
+  if (chat.titleSource === "user") return false;
+  if (chat.titleSource !== "generated") return (chat.messageCount || 0) >= 2;
+  return (chat.messageCount || 0) - (chat.titledAtMessageCount || 0) >= RETITLE_EVERY_MESSAGES;
+}
+
+/**
+ * Drop quotes, a "Title:" prefix and trailing punctuation the model may add
+ */
+function cleanTitle(text: string): string {
+  return text
+    .replace(/^\s*title\s*:\s*/i, "")
+    .replace(/^["'“”‘’`*\s]+|["'“”‘’`*.!\s]+$/g, "")
+    .replace(/\s+/g, " ")
+    .slice(0, 60)
+    .trim();
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Has the conversation moved on from its title? Compares the title with the latest prompts.
+ */
+async function hasDrifted(chat: FirestoreChatDocument): Promise<boolean> {
+  const recentPrompts = chat.messages
+    .filter((message) => message.role === "user")
+    .slice(-3)
+    .map((message) => message.content.slice(0, 500))
+    .join("\n");
+  if (!recentPrompts) return false;
+
+  const embeddings = getEmbeddingService();
+  let titleVector: number[];
+  let recentVector: number[];
+  try {
+    [titleVector, recentVector] = await Promise.all([
+      embeddings.generateEmbedding(chat.title),
+      embeddings.generateEmbedding(recentPrompts),
+    ]);
+  } catch (error) {
+    console.warn("⚠️ Title drift check skipped (embeddings unavailable):", error);
+    return false;
+  }
+  const similarity = cosine(titleVector, recentVector);
+  console.log(`🏷️ Title "${chat.title}" vs latest prompts: similarity ${similarity.toFixed(2)}`);
+  return similarity < RETITLE_SIMILARITY;
+}
+
+async function generateTitle(userId: string, chat: FirestoreChatDocument): Promise<string | null> {
+  // First titles come from the opening exchange, retitles from where the chat is now
+  const messages = chat.titleSource === "generated" ? chat.messages.slice(-8) : chat.messages.slice(0, 2);
+  const transcript = messages
+    .map((message) => `${message.role === "user" ? "User" : "AI"}: ${message.content.slice(0, 500)}`)
+    .join("\n\n");
+
+  const result = await generateStructured<{ title: string }>({
+    model: process.env.TITLE_MODEL || process.env.TEXT_MODEL || "gemini-2.5-flash",
+    prompt: `Write a title for this chat.
+Return JSON {"title": string} only.
+- 3-6 words, in the language of the chat
+- Name the topic; no quotes, no trailing punctuation, no "Chat about"
+
+CONVERSATION:
+${transcript}`,
+    schema: TITLE_SCHEMA,
+    maxAttempts: 2,
+    meter: { userId, chatId: chat.chatId, route: "background", purpose: "title" },
+  });
+  if (!result.ok || !result.data) throw new Error(`Invalid title output: ${result.errors.join("; ")}`);
+
+  const title = cleanTitle(result.data.title);
+  return title || null;
+}
+
+/**
+ * Title or retitle a chat if it's due.
+ * @returns the new title, or null when the chat kept its title
+ */
+export async function refreshChatTitle(userId: string, chatId: string): Promise<string | null> {
+  const chat = await firestoreChatService.getChatDocument(userId, chatId);
+  if (!chat || !isTitleDue(chat)) return null;
+  if (!getModelProviderRegistry().hasProviders()) return null;
+
+  if (chat.titleSource === "generated" && !(await hasDrifted(chat))) {
+    // Still on topic; look again in a few exchanges
+    await storeTitle(userId, chatId, chat.title);
+    return null;
+  }
+
+  const title = await generateTitle(userId, chat);
+  if (!title) return null;
+  const updated = await storeTitle(userId, chatId, title);
+  return updated && title !== chat.title ? title : null;
+}
+
+/**
+ * Store a generated title; throws when Firestore fails so the job is retried
+ * @returns false when the chat is gone or the user titled it meanwhile
+ */
+async function storeTitle(userId: string, chatId: string, title: string): Promise<boolean> {
+  const result = await firestoreChatService.updateTitle(userId, chatId, title, "generated");
+  if (result === "failed") throw new Error(`Failed to store the title of chat ${chatId}`);
+  return result === "updated";
+}
+
+/**
+ * Queue a title check after a stored turn (CHAT_AUTO_TITLES=false turns titling off)
+ */
+export function queueChatTitle(userId: string, chatId?: string): void {
+  if (!chatId || process.env.CHAT_AUTO_TITLES === "false") return;
+  getJobQueue().enqueue("chat-title", { userId, chatId }, { maxAttempts: 2 });
+}
@@ -0,0 +1,133 @@
+// contextBudgeter.ts - Fits candidate context into a per-model token budget
+//
+// Every piece of optional context (profile, rolling summary, memory hits, document
+// chunks, recent turns...) is offered as an item with a priority. Items are admitted
+// highest priority first; when one no longer fits it is truncated to the remaining
+// space if it is compressible, otherwise dropped. The report records both outcomes
+// so responses can say exactly what the model saw.
+
+import { countTokens, getContextWindow, truncateToTokens } from "./tokenCounter";
+
+export type ContextItemKind =
+  | "profile"
+  | "rollingSummary"
+  | "memory"
+  | "document"
+  | "turn"
+  | "olderSummary"
+  | "reference";
+
+export interface ContextItem {
+  id: string;
+  kind: ContextItemKind;
+  text: string;
+  priority: number; // Higher is kept first
+  compressible?: boolean;
+  chain?: string; // Items sharing a chain stay an unbroken run: once one is dropped, lower-priority ones go too
+}
+
+export interface ContextReportEntry {
+  id: string;
+  kind: ContextItemKind;
+  tokens: number;
+  originalTokens?: number; // Present when the item was compressed to fit
+}
+
+export interface ContextCut {
+  id: string;
+  kind: ContextItemKind;
+  tokens: number; // Size before cutting
+  action: "compressed" | "dropped";
+  reason: string;
+}
+
+export interface ContextReport {
+  model: string;
+  budget: number;
+  fixedTokens: number; // System rules and the current message - never cut
+  usedTokens: number; // Fixed tokens plus everything included
+  included: ContextReportEntry[];
+  cut: ContextCut[];
+}
+
+export interface BudgetResult {
+  kept: Map<string, string>; // Item id -> text to send (possibly compressed)
+  report: ContextReport;
+}
+
+// Section headers and separators around each item
+const ITEM_OVERHEAD_TOKENS = 4;
+// Compressing below this leaves too little to be useful
+const MIN_COMPRESSED_TOKENS = 48;
+
+/**
+ * Input token budget for a model: CONTEXT_TOKEN_BUDGET, capped by the model's
+ * context window minus room for the answer
+ */
+export function resolveContextBudget(model: string): number {
+  const configured = Number(process.env.CONTEXT_TOKEN_BUDGET) || 12000;
+  const reserve = Number(process.env.CONTEXT_OUTPUT_RESERVE_TOKENS) || 4096;
+  return Math.max(0, Math.min(configured, getContextWindow(model) - reserve));
+}
+
+/**
+ * Admit items into the budget, highest priority first
+ */
+export function fitToBudget(
+  items: ContextItem[],
+  options: { model: string; budget: number; fixedTokens: number }
+): BudgetResult {
+  const { model, budget, fixedTokens } = options;
+  const kept = new Map<string, string>();
+  const included: ContextReportEntry[] = [];
+  const cut: ContextCut[] = [];
+  const brokenChains = new Set<string>();
+  let remaining = budget - fixedTokens;
+
+  const ordered = items
+    .filter((item) => item.text && item.text.trim())
+    .sort((a, b) => b.priority - a.priority);
+
+  for (const item of ordered) {
+    const tokens = countTokens(item.text, model) + ITEM_OVERHEAD_TOKENS;
+
+    if (item.chain && brokenChains.has(item.chain)) {
+      cut.push({ id: item.id, kind: item.kind, tokens, action: "dropped", reason: "newer item in sequence was dropped" });
+      continue;
+    }
+
+    if (tokens <= remaining) {
+      kept.set(item.id, item.text);
+      included.push({ id: item.id, kind: item.kind, tokens });
+      remaining -= tokens;
+      continue;
+    }
+
+    if (item.compressible && remaining >= MIN_COMPRESSED_TOKENS) {
+      const compressed = truncateToTokens(item.text, remaining - ITEM_OVERHEAD_TOKENS, model);
+      if (compressed) {
+        const compressedTokens = countTokens(compressed, model) + ITEM_OVERHEAD_TOKENS;
+        kept.set(item.id, compressed);
+        included.push({ id: item.id, kind: item.kind, tokens: compressedTokens, originalTokens: tokens });
+        cut.push({ id: item.id, kind: item.kind, tokens, action: "compressed", reason: "truncated to fit budget" });
+        remaining -= compressedTokens;
+        continue;
+      }
+    }
+
+    cut.push({ id: item.id, kind: item.kind, tokens, action: "dropped", reason: "over budget" });
+    if (item.chain) brokenChains.add(item.chain);
+  }
+
+  return {
+    kept,
+    report: {
+      model,
+      budget,
+      fixedTokens,
+      usedTokens: budget - remaining,
+      included,
+      cut,
+    },
+  };
+}
@@ -0,0 +1,278 @@
+// contextBuilder.ts - Turns memory, chat history and attachments into role-tagged model input
+//
+// The routes collect whatever context applies to a request (profile, rolling summary,
+// memory search results, recent turns, document chunks, images) and hand it here.
+// Background knowledge goes into the system instruction; the conversation itself is
+// sent as real user/model turns so the model sees where each speaker starts and stops.
+// Everything except the rules and the current message competes for the model's token
+// budget (see contextBudgeter.ts), and the result carries a report of what was cut.
+
+import type { Content, ContentPart } from "./modelProviderService";
+import type { RollingSummary } from "./contextManager";
+import { fitToBudget, resolveContextBudget } from "./contextBudgeter";
+import type { ContextItem, ContextReport } from "./contextBudgeter";
+import { countContentsTokens } from "./tokenCounter";
+
+export interface HistoryMessage {
+  role: string; // "user" | "assistant" | "system" (frontend roles)
+  content: string;
+}
+
+export interface CachedTurn {
+  userMessage: string;
+  aiResponse: string;
+}
+
+export interface ChatContextInput {
+  prompt: string;
+  instructions?: string; // Caller's own system prompt (e.g. OpenAI-style system messages) - never cut
+  model: string; // Unqualified model id - token counts and budget depend on it
+  tokenBudget?: number; // Defaults to resolveContextBudget(model)
+  profileContext?: string | null;
+  rollingSummary?: RollingSummary | null;
+  memoryContext?: string | null;
+  conversationHistory?: HistoryMessage[];
+  conversationSummary?: string; // Frontend-provided summary of messages older than the history window
+  cachedTurns?: CachedTurn[]; // Used only when the request carries no history
+  maxRecentMessages?: number; // Hard cap before budgeting; the budget usually cuts first
+  document?: { summary: string; relevantChunks: string[] } | null;
+  image?: {
+    imageBase64: string;
+    mimeType?: string;
+    fileName?: string;
+    description?: string;
+  } | null;
+}
+
+export interface ChatContext {
+  systemInstruction: string;
+  contents: Content[];
+  report: ContextReport;
+}
+
+const DEFAULT_MAX_RECENT_MESSAGES = 20;
+const DIVIDER = "=".repeat(60);
+
+export const BASE_SYSTEM_INSTRUCTION = `You are NubiqAI ✨ - an intelligent, helpful assistant with persistent memory.
+
+⚠️ **CRITICAL INSTRUCTIONS**:
+- Do NOT address the user by name (e.g., "Okay, [Name]" or "Hi [Name]"). Start directly with your answer.
+- When user asks "do you know about X" or "tell me about X", provide comprehensive detailed information - don't just say "yes I know"
+- Treat "write an article" or "tell me about" as requests for full content, not just confirmation
+- Use the context sections below only when they are relevant to the current question
+
+📝 **FORMATTING GUIDELINES** (Use ChatGPT-style markdown):
+- Use **bold** for emphasis and key terms
+- Use *italic* for subtle emphasis
+- Use ## for section headings (not # which is too large)
+- Use ### for subsections
+- Use \`code\` for technical terms, commands, or code snippets
+- Use bullet points with - or * for lists
+- Use 1. 2. 3. for numbered lists
+- Add blank lines between sections for readability
+- Use > for quotes or important callouts
+- Use code blocks with \`\`\`language for multi-line code
+
+💡 Respond like ChatGPT: For CODE - friendly intro ("Here's a [type] example 👍"), code block, "💡 How to use it:" with steps, "🔑 Key Points" explaining concepts, follow-up question. For EXPLANATIONS - ## headings with emojis, **bold** terms, end with a follow-up question. Be engaging and educational!`;
+
+function section(title: string, body: string): string {
+  return `${DIVIDER}\n${title}\n${DIVIDER}\n${body.trim()}`;
+}
+
+/**
+ * Map frontend roles onto model roles; system messages are not conversation turns
+ */
+function toModelRole(role: string): "user" | "model" | null {
+  if (role === "user") return "user";
+  if (role === "assistant" || role === "model") return "model";
+  return null;
+}
+
+/**
+ * Append a turn, merging consecutive turns from the same speaker
+ * (Gemini rejects two user or two model turns in a row)
+ */
+function pushTurn(contents: Content[], role: "user" | "model", parts: ContentPart[]): void {
+  const last = contents[contents.length - 1];
+  if (last && last.role === role) {
+    last.parts.push(...parts);
+  } else {
+    contents.push({ role, parts: [...parts] });
+  }
+}
+
+/**
+ * Build the system instruction and role-tagged contents for a chat request,
+ * keeping the highest-value context that fits the model's token budget
+ */
+export function buildChatContext(input: ChatContextInput): ChatContext {
+  const { model } = input;
+  const maxRecent = input.maxRecentMessages ?? DEFAULT_MAX_RECENT_MESSAGES;
+  const history = (input.conversationHistory || []).filter(
+    (msg) => msg && typeof msg.content === "string" && msg.content.trim()
+  );
+
+  // The frontend snapshot may already end with the message being answered
+  const lastMessage = history[history.length - 1];
+  if (lastMessage && lastMessage.role === "user" && lastMessage.content.trim() === input.prompt.trim()) {
+    history.pop();
+  }
+
+  const recentMessages = history.slice(-maxRecent);
+  const olderMessages = history.slice(0, -maxRecent);
+
+  // ── Current user turn: attachments first, then the question (never cut) ──
+  const currentParts: ContentPart[] = [];
+
+  if (input.image) {
+    currentParts.push({
+      inlineData: {
+        data: input.image.imageBase64,
+        mimeType: input.image.mimeType || "image/png",
+      },
+    });
+    const label = input.image.fileName ? `Image: ${input.image.fileName}` : "Image: Uploaded by user";
+    const description = input.image.description ? `\nDescription: ${input.image.description}` : "";
+    currentParts.push({ text: section("🖼️ IMAGE CONTEXT", `${label}${description}`) });
+  }
+  currentParts.push({ text: input.prompt });
+
+  // ── Candidate context (higher priority survives longer) ─────────────────
+  const items: ContextItem[] = [];
+
+  if (input.profileContext) {
+    items.push({ id: "profile", kind: "profile", text: input.profileContext, priority: 100 });
+  }
+
+  // Conversation turns lose value with age; cached turns stand in when no history was sent
+  const turns: { role: "user" | "model"; text: string }[] = [];
+  if (recentMessages.length > 0) {
+    for (const msg of recentMessages) {
+      const role = toModelRole(msg.role);
+      if (role) turns.push({ role, text: msg.content });
+    }
+  } else if (input.cachedTurns && input.cachedTurns.length > 0) {
+    for (const turn of input.cachedTurns) {
+      turns.push({ role: "user", text: turn.userMessage });
+      turns.push({ role: "model", text: turn.aiResponse });
+    }
+  }
+  turns.forEach((turn, index) => {
+    const age = turns.length - 1 - index;
+    items.push({
+      id: `turn-${index}`,
+      kind: "turn",
+      text: turn.text,
+      priority: 90 - age * 5,
+      compressible: true,
+      chain: "history",
+    });
+  });
+
+  if (input.document) {
+    input.document.relevantChunks.forEach((chunk, rank) => {
+      items.push({ id: `document-chunk-${rank}`, kind: "document", text: chunk, priority: 80 - rank * 5, compressible: true });
+    });
+    items.push({ id: "document-summary", kind: "document", text: input.document.summary, priority: 70, compressible: true });
+  }
+
+  if (input.memoryContext) {
+    items.push({ id: "memory", kind: "memory", text: input.memoryContext, priority: 65, compressible: true });
+  }
+
+  if (input.rollingSummary) {
+    const facts = input.rollingSummary.keyFacts.map((f) => `• ${f}`).join("\n");
+    items.push({
+      id: "rolling-summary",
+      kind: "rollingSummary",
+      text: `${input.rollingSummary.summary}${facts ? `\n\nKEY FACTS:\n${facts}` : ""}`,
+      priority: 60,
+      compressible: true,
+    });
+  }
+
+  // System-role messages in the history (e.g. extracted document text) are reference material
+  const referenceNotes = recentMessages
+    .filter((msg) => !toModelRole(msg.role))
+    .map((msg) => msg.content);
+  if (referenceNotes.length > 0) {
+    items.push({ id: "shared-in-chat", kind: "reference", text: referenceNotes.join("\n\n"), priority: 45, compressible: true });
+  }
+
+  if (input.conversationSummary) {
+    items.push({ id: "older-messages", kind: "olderSummary", text: input.conversationSummary, priority: 40, compressible: true });
+  } else if (olderMessages.length > 0) {
+    const topicsFromOlder = olderMessages
+      .filter((msg) => toModelRole(msg.role))
+      .map((msg) => msg.content.substring(0, 50))
+      .slice(0, 3) // Only first 3
+      .join(", ");
+    if (topicsFromOlder) {
+      items.push({ id: "older-messages", kind: "olderSummary", text: `User discussed ${topicsFromOlder}...`, priority: 40 });
+    }
+  }
+
+  // ── Fit to budget ───────────────────────────────────────────────────────
+  const instructions = input.instructions?.trim()
+    ? section("📋 INSTRUCTIONS FROM THE CALLER:", input.instructions)
+    : null;
+  const fixedTokens = countContentsTokens(
+    [{ role: "user", parts: currentParts }],
+    model,
+    instructions ? `${BASE_SYSTEM_INSTRUCTION}\n\n${instructions}` : BASE_SYSTEM_INSTRUCTION
+  );
+  const { kept, report } = fitToBudget(items, {
+    model,
+    budget: input.tokenBudget ?? resolveContextBudget(model),
+    fixedTokens,
+  });
+
+  // ── System instruction: persona + surviving background knowledge ────────
+  const systemSections: string[] = [BASE_SYSTEM_INSTRUCTION];
+  if (instructions) systemSections.push(instructions);
+  const keptText = (id: string) => kept.get(id);
+
+  if (keptText("profile")) systemSections.push(section("👤 USER PROFILE:", keptText("profile")!));
+  if (keptText("rolling-summary")) systemSections.push(section("🧾 ROLLING SUMMARY", keptText("rolling-summary")!));
+  if (keptText("memory")) systemSections.push(section("🧠 MEMORY CONTEXT:", keptText("memory")!));
+  if (keptText("older-messages")) {
+    const title = input.conversationSummary ? "📚 OLDER MESSAGES:" : "📚 EARLIER CONTEXT:";
+    systemSections.push(section(title, keptText("older-messages")!));
+  }
+  if (keptText("shared-in-chat")) systemSections.push(section("📎 SHARED IN THIS CHAT:", keptText("shared-in-chat")!));
+
+  // ── Conversation turns ──────────────────────────────────────────────────
+  const contents: Content[] = [];
+  turns.forEach((turn, index) => {
+    const text = keptText(`turn-${index}`);
+    if (text) pushTurn(contents, turn.role, [{ text }]);
+  });
+
+  // Conversations must open with a user turn
+  while (contents.length > 0 && contents[0].role !== "user") {
+    contents.shift();
+  }
+
+  // Document excerpts ride along with the question they were retrieved for
+  if (input.document) {
+    const chunks = input.document.relevantChunks
+      .map((_, rank) => keptText(`document-chunk-${rank}`))
+      .filter((chunk): chunk is string => !!chunk);
+    const summary = keptText("document-summary");
+    if (summary || chunks.length > 0) {
+      const body = [
+        summary ? `Summary: ${summary}` : "",
+        chunks.length > 0 ? `Relevant Sections:\n${chunks.join("\n\n")}` : "",
+      ].filter(Boolean).join("\n\n");
+      currentParts.splice(currentParts.length - 1, 0, { text: section("📄 DOCUMENT CONTEXT", body) });
+    }
+  }
+
+  pushTurn(contents, "user", currentParts);
+
+  return {
+    systemInstruction: systemSections.join("\n\n"),
+    contents,
+    report,
+  };
+}
@@ -1,27 +1,35 @@
 // services/contextManager.ts
 // Builds a Copilot-style rolling summary and key facts for better context
-import { GoogleGenAI } from '@google/genai';
 import { getConversationService } from './conversationService';
+import { getModelProviderRegistry } from './modelProviderService';
 import { userProfileService } from './userProfileService';
+import { truncateToTokens } from './tokenCounter';
+import { generateStructured } from './structuredOutputService';
+import type { JSONSchema } from './jsonSchema';
 
 export interface RollingSummary {
   summary: string;
   keyFacts: string[];
 }
 
-function estimateTokens(text: string): number {
-  // Rough heuristic: ~4 chars per token
-  return Math.ceil((text || '').length / 4);
-}
+const ROLLING_SUMMARY_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string' },
+    keyFacts: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['summary', 'keyFacts'],
+};
 
 function sanitize(text: string): string {
   return (text || '').replace(/[#*`>]/g, '').trim();
 }
 
-export async function buildRollingSummary(userId: string, chatId?: string): Promise<RollingSummary | null> {
+export async function buildRollingSummary(userId: string, chatId?: string, route = 'unknown'): Promise<RollingSummary | null> {
   const convo = getConversationService();
-  // Get recent turns, prefer same chat when available
-  const recent = convo.getRecentConversations(userId, 20)
+  // Get recent turns, prefer same chat when available (looking further back, so a
+  // chat whose turns are older than the user's latest activity still has them)
+  const recent = convo.getRecentConversations(userId, chatId ? 200 : 20)
     .filter(t => !chatId || t.chatId === chatId)
     .slice(0, 12);
 
@@ -42,26 +50,26 @@ Return JSON with fields {"summary": string, "keyFacts": string[]} only. No prose
 
 PROFILE (optional):\n${profileContext}\n\nCONVERSATION (most recent first):\n${conversationText}`;
 
-  // Use TEXT_MODEL if set, else a sensible default
+  // Use TEXT_MODEL if set (may be provider-qualified, e.g. "ollama:llama3"), else a sensible default
   const model = process.env.TEXT_MODEL || 'gemini-2.5-pro';
 
   // Try AI summarization first (best quality)
   try {
-    if (!process.env.GEMINI_API_KEY) throw new Error('No GEMINI_API_KEY');
-    const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
-    const resp: any = await (ai as any).models.generateContent({ model, contents: [prompt] });
-    const txt: string = resp?.candidates?.[0]?.content?.parts?.map((p: any) => p.text || '').join('') || '';
-    const jsonText = (txt.match(/\{[\s\S]*\}/)?.[0]) || txt;
-    const parsed = JSON.parse(jsonText);
-    const summary = sanitize(String(parsed.summary || ''));
-    const keyFacts = Array.isArray(parsed.keyFacts) ? parsed.keyFacts.map((s: any) => sanitize(String(s))).filter(Boolean) : [];
+    const registry = getModelProviderRegistry();
+    if (!registry.hasProviders()) throw new Error('No model provider available');
+    const result = await generateStructured<{ summary: string; keyFacts: string[] }>({
+      model,
+      prompt,
+      schema: ROLLING_SUMMARY_SCHEMA,
+      meter: { userId, chatId, route, purpose: 'summary' },
+    });
+    if (!result.ok || !result.data) throw new Error(`Invalid summary output: ${result.errors.join('; ')}`);
+    const summary = sanitize(result.data.summary);
+    const keyFacts = result.data.keyFacts.map((s) => sanitize(String(s))).filter(Boolean);
 
     // Guardrail: trim if too large
     const budget = Number(process.env.CONTEXT_SUMMARY_BUDGET_TOKENS || 800);
-    let finalSummary = summary;
-    if (estimateTokens(finalSummary) > budget) {
-      finalSummary = finalSummary.slice(0, budget * 4);
-    }
+    const finalSummary = truncateToTokens(summary, budget, registry.parseModelId(model).model);
 
     return { summary: finalSummary, keyFacts: keyFacts.slice(0, 8) };
   } catch (err) {
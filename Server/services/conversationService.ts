@@ -123,6 +123,53 @@ class ConversationService {
     return turn;
   }
 
+  /**
+   * Replace everything stored for a chat with the given turns, e.g. when the user
+   * switches to another branch of the chat. Older sessions of the chat are dropped
+   * so summaries and Pinecone uploads only see the active branch.
+   */
+  replaceChatTurns(
+    userId: string,
+    chatId: string,
+    turns: Array<Pick<ConversationTurn, 'userPrompt' | 'aiResponse' | 'timestamp' | 'imageUrl'>>
+  ): void {
+    const sessionId = this.getActiveSessionId(userId, chatId);
+    for (const [id, other] of this.conversations) {
+      if (id !== sessionId && other.userId === userId && other.chatId === chatId) {
+        this.conversations.delete(id);
+      }
+    }
+
+    let session = this.conversations.get(sessionId);
+    if (!session) {
+      if (turns.length === 0) return;
+      session = {
+        sessionId,
+        userId,
+        chatId,
+        turns: [],
+        startTime: Date.now(),
+        lastActivity: Date.now(),
+        isSummarized: false
+      };
+      this.conversations.set(sessionId, session);
+    }
+
+    session.turns = turns.map((turn, index) => ({
+      id: `turn_${Date.now()}_${index}_${Math.random().toString(36).substr(2, 9)}`,
+      userPrompt: turn.userPrompt,
+      aiResponse: turn.aiResponse,
+      timestamp: turn.timestamp,
+      userId,
+      chatId,
+      imageUrl: turn.imageUrl,
+      hasImage: !!turn.imageUrl
+    }));
+    session.lastActivity = Date.now();
+
+    console.log(`🌿 Active branch of chat ${chatId} now has ${turns.length} turn(s) in session ${sessionId}`);
+  }
+
   /**
    * Get recent conversations for a user (local memory)
    */
@@ -1,6 +1,20 @@
 // documentExtractionService.ts
 // Lightweight local extractors to complement AI-based extraction
 
+const CHARS_PER_PAGE = 3000;
+
+/**
+ * Page count for document quotas: the page objects of a PDF, otherwise
+ * one page per CHARS_PER_PAGE bytes
+ */
+export function countDocumentPages(buffer: Buffer, mimeType: string): number {
+  if (mimeType === 'application/pdf') {
+    const pages = buffer.toString('latin1').match(/\/Type\s*\/Page(?!s)/g)?.length || 0;
+    if (pages > 0) return pages;
+  }
+  return Math.max(1, Math.ceil(buffer.length / CHARS_PER_PAGE));
+}
+
 export async function extractTextFromDocument(
   buffer: Buffer,
   mimeType: string
@@ -0,0 +1,392 @@
+// entitlementService.ts - Subscription tiers, what each tier includes, and daily quotas
+//
+// A user's tier is the `subscription` field of users/{userId} ("free" | "pro" |
+// "enterprise", same as User.subscription in the app), defaulting to DEFAULT_PLAN.
+// Daily counters (UTC days) live in memory and are written through to
+// users/{userId}/quota/{YYYY-MM-DD} when Firestore is configured, so a restarted
+// instance picks up where it left off.
+//
+// Refusals are EntitlementErrors: 402 when the plan doesn't include something
+// (a model, an upload that large), 429 when today's quota is used up.
+// PLAN_ENTITLEMENTS (JSON, per tier) overrides the defaults below;
+// ENFORCE_PLAN_LIMITS=false keeps counting but stops refusing.
+
+import * as admin from "firebase-admin";
+import { getFirestore } from "./firebaseAdmin";
+
+export type PlanTier = "free" | "pro" | "enterprise";
+
+export const PLAN_TIERS: PlanTier[] = ["free", "pro", "enterprise"];
+
+export interface PlanEntitlements {
+  dailyMessages: number | null; // null = unlimited
+  dailyImageGenerations: number | null; // Generations and edits
+  dailyDocumentPages: number | null;
+  dailyTranscriptions: number | null; // Voice messages turned into text
+  maxUploadBytes: number;
+  allowedModels: string[]; // Model ids a client may ask for; a trailing * matches any suffix
+}
+
+/**
+ * Metered features with a daily limit
+ */
+export type QuotaFeature = "messages" | "imageGenerations" | "documentPages" | "transcriptions";
+
+const QUOTA_FEATURES: QuotaFeature[] = ["messages", "imageGenerations", "documentPages", "transcriptions"];
+
+const DAILY_LIMIT_KEYS: Record<QuotaFeature, keyof PlanEntitlements> = {
+  messages: "dailyMessages",
+  imageGenerations: "dailyImageGenerations",
+  documentPages: "dailyDocumentPages",
+  transcriptions: "dailyTranscriptions",
+};
+
+const MB = 1024 * 1024;
+
+const DEFAULT_PLANS: Record<PlanTier, PlanEntitlements> = {
+  free: {
+    dailyMessages: 100,
+    dailyImageGenerations: 10,
+    dailyDocumentPages: 100,
+    dailyTranscriptions: 50,
+    maxUploadBytes: 5 * MB,
+    allowedModels: ["gemini-2.5-flash*"],
+  },
+  pro: {
+    dailyMessages: 1000,
+    dailyImageGenerations: 100,
+    dailyDocumentPages: 2000,
+    dailyTranscriptions: 500,
+    maxUploadBytes: 10 * MB,
+    allowedModels: ["gemini-*"],
+  },
+  enterprise: {
+    dailyMessages: null,
+    dailyImageGenerations: null,
+    dailyDocumentPages: null,
+    dailyTranscriptions: null,
+    maxUploadBytes: 15 * MB, // MAX_IMAGE_UPLOAD_MB still caps every upload
+    allowedModels: ["*"],
+  },
+};
+
+/**
+ * Default plans with PLAN_ENTITLEMENTS applied, e.g. {"free": {"dailyMessages": 200}}
+ */
+function loadPlans(): Record<PlanTier, PlanEntitlements> {
+  const plans = structuredClone(DEFAULT_PLANS);
+  if (!process.env.PLAN_ENTITLEMENTS) return plans;
+  try {
+    const overrides = JSON.parse(process.env.PLAN_ENTITLEMENTS) as Partial<Record<PlanTier, Partial<PlanEntitlements>>>;
+    for (const tier of PLAN_TIERS) {
+      if (overrides[tier]) Object.assign(plans[tier], overrides[tier]);
+    }
+  } catch (err) {
+    console.error("❌ PLAN_ENTITLEMENTS is not valid JSON, using default plans:", err);
+  }
+  return plans;
+}
+
+/**
+ * Decoded size of base64 data
+ */
+export function base64ByteLength(base64: string): number {
+  return Math.floor((base64.length * 3) / 4);
+}
+
+export function isPlanTier(value: unknown): value is PlanTier {
+  return typeof value === "string" && (PLAN_TIERS as string[]).includes(value);
+}
+
+/**
+ * Whether a plan lets clients ask for `model` (with or without a "provider:" prefix)
+ */
+export function isModelAllowed(entitlements: PlanEntitlements, model: string): boolean {
+  const bare = model.slice(model.indexOf(":") + 1);
+  return entitlements.allowedModels.some((pattern) => {
+    if (pattern.endsWith("*")) {
+      const prefix = pattern.slice(0, -1);
+      return model.startsWith(prefix) || bare.startsWith(prefix);
+    }
+    return pattern === model || pattern === bare;
+  });
+}
+
+/**
+ * A request the user's plan doesn't allow. `status` is 402 (upgrade needed) or 429 (quota used up).
+ */
+export class EntitlementError extends Error {
+  constructor(
+    message: string,
+    readonly status: 402 | 429,
+    readonly code: "plan_required" | "quota_exceeded",
+    readonly details: {
+      plan: PlanTier;
+      feature: QuotaFeature | "model" | "upload";
+      limit?: number;
+      used?: number;
+      resetsAt?: string; // Quota errors: when the daily counters start over
+    }
+  ) {
+    super(message);
+    this.name = "EntitlementError";
+  }
+
+  /**
+   * JSON body for the HTTP error response
+   */
+  toResponse() {
+    return { success: false, error: this.message, code: this.code, ...this.details };
+  }
+}
+
+export interface QuotaStatus {
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+}
+
+export interface QuotaReport {
+  userId: string;
+  plan: PlanTier;
+  entitlements: PlanEntitlements;
+  quotas: Record<QuotaFeature, QuotaStatus>;
+  resetsAt: string;
+}
+
+type DayCounters = Record<QuotaFeature, number>;
+
+const PLAN_CACHE_TTL_MS = 5 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const FEATURE_LABELS: Record<QuotaFeature, string> = {
+  messages: "messages",
+  imageGenerations: "image generations",
+  documentPages: "document pages",
+  transcriptions: "transcriptions",
+};
+
+class EntitlementService {
+  private plans = loadPlans();
+  private defaultPlan: PlanTier = isPlanTier(process.env.DEFAULT_PLAN) ? process.env.DEFAULT_PLAN : "free";
+  private enforce = process.env.ENFORCE_PLAN_LIMITS !== "false";
+  private planCache: Map<string, { plan: PlanTier; expiresAt: number }> = new Map();
+  private counters: Map<string, DayCounters> = new Map(); // userId -> today's counters
+  private counterDay = "";
+  private firestore: admin.firestore.Firestore | null | undefined; // undefined until first use
+
+  /**
+   * What a tier includes
+   */
+  getEntitlements(plan: PlanTier): PlanEntitlements {
+    return this.plans[plan];
+  }
+
+  /**
+   * A user's tier, from users/{userId}.subscription (cached for a few minutes)
+   */
+  async getPlan(userId: string): Promise<PlanTier> {
+    const cached = this.planCache.get(userId);
+    if (cached && cached.expiresAt > Date.now()) return cached.plan;
+
+    let plan = this.defaultPlan;
+    const firestore = this.getStore();
+    if (firestore) {
+      try {
+        const snapshot = await firestore.collection("users").doc(userId).get();
+        const subscription = snapshot.data()?.subscription;
+        if (isPlanTier(subscription)) plan = subscription;
+      } catch (err) {
+        console.error(`❌ Failed to read plan for ${userId}, using ${plan}:`, err);
+      }
+    }
+    this.planCache.set(userId, { plan, expiresAt: Date.now() + PLAN_CACHE_TTL_MS });
+    return plan;
+  }
+
+  /**
+   * Change a user's tier (billing webhooks, admin tools, tests)
+   */
+  async setPlan(userId: string, plan: PlanTier): Promise<void> {
+    this.planCache.set(userId, { plan, expiresAt: Date.now() + PLAN_CACHE_TTL_MS });
+    const firestore = this.getStore();
+    if (firestore) {
+      await firestore.collection("users").doc(userId).set({ subscription: plan }, { merge: true });
+    }
+    console.log(`💳 Plan for ${userId} set to ${plan}`);
+  }
+
+  /**
+   * Refuse (402) an explicitly requested model the user's plan doesn't include.
+   * Server defaults (TEXT_MODEL, IMAGE_MODEL...) are never checked.
+   */
+  async assertModel(userId: string, model: string | undefined): Promise<void> {
+    if (!model || !this.enforce) return;
+    const plan = await this.getPlan(userId);
+    if (isModelAllowed(this.plans[plan], model)) return;
+    throw new EntitlementError(`The ${model} model is not included in the ${plan} plan`, 402, "plan_required", {
+      plan,
+      feature: "model",
+    });
+  }
+
+  /**
+   * Refuse (402) an upload larger than the user's plan allows
+   */
+  async assertUploadSize(userId: string, bytes: number): Promise<void> {
+    if (!this.enforce) return;
+    const plan = await this.getPlan(userId);
+    const limit = this.plans[plan].maxUploadBytes;
+    if (bytes <= limit) return;
+    throw new EntitlementError(
+      `Uploads on the ${plan} plan are limited to ${(limit / MB).toFixed(0)}MB`,
+      402,
+      "plan_required",
+      { plan, feature: "upload", limit, used: bytes }
+    );
+  }
+
+  /**
+   * Count `amount` of a feature against today's quota. Throws 429 when it doesn't fit
+   * (nothing is counted then), or 402 when the plan doesn't include the feature at all.
+   */
+  async consume(userId: string, feature: QuotaFeature, amount = 1): Promise<QuotaStatus> {
+    const plan = await this.getPlan(userId);
+    const counters = await this.getCounters(userId);
+    const limit = this.plans[plan][DAILY_LIMIT_KEYS[feature]] as number | null;
+    const used = counters[feature];
+
+    if (this.enforce && limit !== null && used + amount > limit) {
+      const resetsAt = this.nextReset();
+      console.warn(`⚠️ ${feature} quota exceeded for ${userId} (${plan}: ${used}/${limit})`);
+      throw limit === 0
+        ? new EntitlementError(`The ${plan} plan doesn't include ${FEATURE_LABELS[feature]}`, 402, "plan_required", {
+            plan,
+            feature,
+            limit,
+            used,
+          })
+        : new EntitlementError(
+            `Daily limit of ${limit} ${FEATURE_LABELS[feature]} reached on the ${plan} plan`,
+            429,
+            "quota_exceeded",
+            { plan, feature, limit, used, resetsAt }
+          );
+    }
+
+    counters[feature] += amount;
+    this.persistIncrement(userId, feature, amount);
+    return this.status(limit, counters[feature]);
+  }
+
+  /**
+   * Give back quota counted for a request that then failed
+   */
+  async refund(userId: string, feature: QuotaFeature, amount = 1): Promise<void> {
+    const counters = await this.getCounters(userId);
+    const refunded = Math.min(amount, counters[feature]);
+    if (refunded <= 0) return;
+    counters[feature] -= refunded;
+    this.persistIncrement(userId, feature, -refunded);
+  }
+
+  /**
+   * Plan, entitlements and what's left of today's quotas
+   */
+  async getQuota(userId: string): Promise<QuotaReport> {
+    const plan = await this.getPlan(userId);
+    const counters = await this.getCounters(userId);
+    const entitlements = this.plans[plan];
+    const quotas = {} as Record<QuotaFeature, QuotaStatus>;
+    for (const feature of QUOTA_FEATURES) {
+      quotas[feature] = this.status(entitlements[DAILY_LIMIT_KEYS[feature]] as number | null, counters[feature]);
+    }
+    return { userId, plan, entitlements, quotas, resetsAt: this.nextReset() };
+  }
+
+  /**
+   * Forget cached plans and counters (tests)
+   */
+  reset(): void {
+    this.planCache.clear();
+    this.counters.clear();
+  }
+
+  private status(limit: number | null, used: number): QuotaStatus {
+    return { limit, used, remaining: limit === null ? null : Math.max(0, limit - used) };
+  }
+
+  private today(): string {
+    return new Date().toISOString().slice(0, 10);
+  }
+
+  private nextReset(): string {
+    return new Date(Date.parse(this.today()) + DAY_MS).toISOString();
+  }
+
+  /**
+   * Today's counters for a user, seeded from Firestore the first time this instance sees them
+   */
+  private async getCounters(userId: string): Promise<DayCounters> {
+    const day = this.today();
+    if (day !== this.counterDay) {
+      this.counters.clear();
+      this.counterDay = day;
+    }
+    const existing = this.counters.get(userId);
+    if (existing) return existing;
+
+    let stored: Partial<DayCounters> = {};
+    const firestore = this.getStore();
+    if (firestore) {
+      try {
+        const snapshot = await firestore.collection("users").doc(userId).collection("quota").doc(day).get();
+        stored = (snapshot.data() as Partial<DayCounters>) || {};
+      } catch (err) {
+        console.error(`❌ Failed to read quota counters for ${userId}:`, err);
+      }
+    }
+    // Another request may have seeded them while we were reading
+    if (this.counters.has(userId)) return this.counters.get(userId)!;
+    const counters: DayCounters = {
+      messages: Number(stored.messages) || 0,
+      imageGenerations: Number(stored.imageGenerations) || 0,
+      documentPages: Number(stored.documentPages) || 0,
+      transcriptions: Number(stored.transcriptions) || 0,
+    };
+    this.counters.set(userId, counters);
+    return counters;
+  }
+
+  private persistIncrement(userId: string, feature: QuotaFeature, amount: number): void {
+    const firestore = this.getStore();
+    if (!firestore) return;
+    firestore
+      .collection("users")
+      .doc(userId)
+      .collection("quota")
+      .doc(this.today())
+      .set({ [feature]: admin.firestore.FieldValue.increment(amount), updatedAt: Date.now() }, { merge: true })
+      .catch((err) => console.error("❌ Failed to persist quota counter:", err));
+  }
+
+  private getStore(): admin.firestore.Firestore | null {
+    if (this.firestore === undefined) {
+      this.firestore = getFirestore();
+      if (!this.firestore) console.warn(`⚠️ Entitlements running without Firestore (every plan is ${this.defaultPlan})`);
+    }
+    return this.firestore;
+  }
+}
+
+// Singleton instance
+let entitlementService: EntitlementService | null = null;
+
+export function getEntitlementService(): EntitlementService {
+  if (!entitlementService) {
+    entitlementService = new EntitlementService();
+  }
+  return entitlementService;
+}
+
+export { EntitlementService };
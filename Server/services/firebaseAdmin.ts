@@ -109,6 +109,16 @@ export function getFirestore(): admin.firestore.Firestore | null {
   return admin.firestore();
 }
 
+/**
+ * Get Auth instance for verifying ID tokens (initializes if needed)
+ */
+export function getAuth(): admin.auth.Auth | null {
+  if (!initializeFirebaseAdmin()) {
+    return null;
+  }
+  return admin.auth();
+}
+
 /**
  * Get Storage bucket (initializes if needed)
  */
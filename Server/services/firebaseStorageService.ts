@@ -310,6 +310,48 @@ class FirebaseStorageService {
     }
   }
 
+  /**
+   * Download one of a user's images by its public or Firebase download URL
+   * 
+   * @param userId - Owner; only files under users/{userId}/ are read
+   * @param url - https://storage.googleapis.com/{bucket}/... or https://firebasestorage.googleapis.com/v0/b/{bucket}/o/...
+   * @returns The image, or null for URLs outside the user's folder in this bucket
+   */
+  async downloadImage(userId: string, url: string): Promise<{ data: Buffer; contentType: string } | null> {
+    if (!this.initialized) {
+      return null;
+    }
+
+    const filePath = this.filePathFromUrl(url);
+    if (!filePath || !filePath.startsWith(`users/${userId}/`)) {
+      return null;
+    }
+
+    const file = this.bucket.file(filePath);
+    const [[data], [metadata]] = await Promise.all([file.download(), file.getMetadata()]);
+    return { data, contentType: metadata.contentType || 'image/png' };
+  }
+
+  /**
+   * Object path of a Storage URL in this service's bucket (null for other URLs)
+   */
+  private filePathFromUrl(url: string): string | null {
+    try {
+      const parsed = new URL(url);
+      if (parsed.hostname === 'storage.googleapis.com') {
+        const prefix = `/${this.bucket.name}/`;
+        return parsed.pathname.startsWith(prefix) ? decodeURIComponent(parsed.pathname.slice(prefix.length)) : null;
+      }
+      if (parsed.hostname === 'firebasestorage.googleapis.com') {
+        const match = /^\/v0\/b\/([^/]+)\/o\/(.+)$/.exec(parsed.pathname);
+        return match && match[1] === this.bucket.name ? decodeURIComponent(match[2]) : null;
+      }
+    } catch {
+      // Not a URL
+    }
+    return null;
+  }
+
   /**
    * Check if service is properly initialized
    */
@@ -1,8 +1,9 @@
 import * as admin from "firebase-admin";
 import { ConversationTurn } from "./conversationService";
 import { getFirestore, initializeFirebaseAdmin } from "./firebaseAdmin";
+import type { RollingSummary } from "./contextManager";
 
-interface FirestoreChatMessage {
+export interface FirestoreChatMessage {
   id: string;
   role: "user" | "assistant";
   content: string;
@@ -10,27 +11,122 @@ interface FirestoreChatMessage {
   attachments?: string[];
   metadata?: Record<string, unknown>;
   imagePrompt?: string;
+  parentId?: string | null; // Only on branch messages; the active path follows its own order
+  pending?: boolean; // An edited or regenerated prompt waiting for its answer
 }
 
-interface FirestoreChatDocument {
+export interface FirestoreChatFork {
+  forkedFrom: { chatId: string; messageId: string; forkedAt: number }; // Parent chat and the last message carried over
+  rollingSummary?: RollingSummary; // The parent's history up to the fork
+  documentIds?: string[]; // Cached documents the carried messages refer to
+}
+
+export interface FirestoreChatImport {
+  source: string; // e.g. "chatgpt", "claude", "markdown"
+  importedAt: number;
+}
+
+/**
+ * User-defined filing: a folder, free-form tags and pinning (pinnedAt orders the pins)
+ */
+export interface FirestoreChatOrganization {
+  folder: string | null;
+  tags: string[];
+  pinnedAt: number | null;
+}
+
+/**
+ * Chats in a folder and/or with a tag (both must match when both are set)
+ */
+export interface FirestoreChatFilter {
+  folder?: string;
+  tag?: string;
+}
+
+/**
+ * Where a chat's title came from: its first message, the model, or the user
+ */
+export type FirestoreChatTitleSource = "prompt" | "generated" | "user";
+
+/**
+ * How setting a title went: "kept" means the user's own title stayed. Failures are logged.
+ */
+export type FirestoreChatTitleUpdate = "updated" | "kept" | "not_found" | "failed";
+
+/**
+ * How filing a chat went; failures are logged
+ */
+export type FirestoreChatOrganizationUpdate =
+  | { status: "updated"; organization: FirestoreChatOrganization }
+  | { status: "not_found" }
+  | { status: "failed" };
+
+export interface FirestoreChatDocument {
   chatId: string;
   userId: string;
   title: string;
+  titleSource?: FirestoreChatTitleSource; // Missing on older chats, which means "prompt"
+  titledAtMessageCount?: number; // messageCount when a generated title was last written or re-checked
   createdAt: number;
   updatedAt: number;
-  messageCount: number;
+  messageCount: number; // Messages on the active path, including ones trimmed from `messages`
   lastUserMessage?: string;
   lastAssistantMessage?: string;
   lastMessageTimestamp?: number;
   pendingPersistence?: boolean;
   archived?: boolean;
-  messages: FirestoreChatMessage[];
+  messages: FirestoreChatMessage[]; // The active branch
+  branches?: FirestoreChatMessage[]; // Messages of the other branches (edits, regenerated answers)
   lastPersistedAt?: number;
+  forkedFrom?: FirestoreChatFork["forkedFrom"];
+  rollingSummary?: RollingSummary;
+  documentIds?: string[];
+  importedFrom?: FirestoreChatImport; // Brought in from another assistant's export
+  folder?: string | null;
+  tags?: string[];
+  pinnedAt?: number | null;
+}
+
+// Firestore documents max out at 1 MiB, and the last prompt and answer are stored twice
+const MAX_IMPORTED_CONTENT_BYTES = 450 * 1024;
+
+/**
+ * Clip the longest message contents until all of them fit in `maxBytes` together
+ */
+function fitContent(messages: FirestoreChatMessage[], maxBytes: number): FirestoreChatMessage[] {
+  const sizes = messages.map((message) => Buffer.byteLength(message.content));
+  const ascending = [...sizes].sort((a, b) => a - b);
+  let remaining = maxBytes;
+  let cap = Infinity;
+  for (let i = 0; i < ascending.length; i++) {
+    const share = Math.floor(remaining / (ascending.length - i));
+    if (ascending[i] > share) {
+      cap = share;
+      break;
+    }
+    remaining -= ascending[i];
+  }
+  if (cap === Infinity) return messages;
+
+  // A multi-byte character cut in half decodes to U+FFFD; drop it
+  return messages.map((message, index) =>
+    sizes[index] > cap
+      ? { ...message, content: Buffer.from(message.content).subarray(0, cap).toString("utf-8").replace(/\uFFFD$/, "") }
+      : message
+  );
+}
+
+/**
+ * A document's filing, with the defaults for chats never filed
+ */
+function toChatOrganization(doc: Partial<FirestoreChatDocument>): FirestoreChatOrganization {
+  return { folder: doc.folder ?? null, tags: doc.tags ?? [], pinnedAt: doc.pinnedAt ?? null };
 }
 
 class FirestoreChatService {
   private readonly firestore: admin.firestore.Firestore | null;
   private readonly maxMessagesPerChat = 40;
+  private readonly maxBranchMessagesPerChat = 200;
 
   constructor() {
     initializeFirebaseAdmin();
@@ -90,7 +186,18 @@ class FirestoreChatService {
         }
 
         const messages = existing?.messages ? [...existing.messages] : [];
-        messages.push(userMessage, assistantMessage);
+        // An edited or regenerated prompt is stored with its branch before it's answered
+        // (see chatBranchService.ts); the answer completes that message instead of repeating it
+        const last = messages[messages.length - 1];
+        const answersPending = last?.role === "user" && last.pending === true;
+        if (answersPending) {
+          messages.pop();
+          const { pending: _pending, ...prompt } = last;
+          messages.push(prompt);
+        } else {
+          messages.push(userMessage);
+        }
+        messages.push(assistantMessage);
         while (messages.length > this.maxMessagesPerChat) {
           messages.shift();
         }
@@ -109,7 +216,7 @@ class FirestoreChatService {
           lastMessageTimestamp: timestamp,
           lastUserMessage: turn.userPrompt,
           lastAssistantMessage: turn.aiResponse,
-          messageCount: (existing?.messageCount || 0) + 2,
+          messageCount: (existing?.messageCount || 0) + (answersPending ? 1 : 2),
           pendingPersistence: true,
           messages,
         };
@@ -121,14 +228,170 @@ class FirestoreChatService {
     }
   }
 
+  /**
+   * Make one branch of the chat's message tree the stored transcript. The other
+   * branches are kept alongside so any device can switch back to them.
+   * @returns false when the branch couldn't be stored
+   */
+  async replaceBranch(
+    userId: string,
+    chatId: string,
+    messages: FirestoreChatMessage[],
+    branches: FirestoreChatMessage[]
+  ): Promise<boolean> {
+    const firestore = this.firestore;
+    if (!firestore) {
+      console.warn("⚠️ FirestoreChatService.replaceBranch skipped – Firestore not initialized");
+      return false;
+    }
+
+    try {
+      const chatRef = this.getChatCollection(userId).doc(chatId);
+      await firestore.runTransaction(async (tx) => {
+        const snapshot = await tx.get(chatRef);
+        const existing = snapshot.exists
+          ? (snapshot.data() as FirestoreChatDocument)
+          : undefined;
+
+        const timestamp = Date.now();
+        const lastUser = [...messages].reverse().find((msg) => msg.role === "user");
+        const lastAssistant = [...messages].reverse().find((msg) => msg.role === "assistant");
+        const titleSource = existing?.title || messages.find((msg) => msg.role === "user")?.content;
+
+        const doc: Partial<FirestoreChatDocument> = {
+          chatId,
+          userId,
+          title: titleSource
+            ? titleSource.substring(0, 80) + (titleSource.length > 80 ? "…" : "")
+            : "New Chat",
+          createdAt: existing?.createdAt ?? messages[0]?.timestamp ?? timestamp,
+          updatedAt: timestamp,
+          lastMessageTimestamp: messages[messages.length - 1]?.timestamp ?? timestamp,
+          lastUserMessage: lastUser?.content ?? "",
+          lastAssistantMessage: lastAssistant?.content ?? "",
+          messageCount: messages.length,
+          pendingPersistence: true,
+          messages: messages.slice(-this.maxMessagesPerChat),
+          branches: branches.slice(-this.maxBranchMessagesPerChat),
+        };
+        // A shorter branch restarts the count the next retitle check waits on
+        if ((existing?.titledAtMessageCount || 0) > messages.length) {
+          doc.titledAtMessageCount = messages.length;
+        }
+
+        tx.set(chatRef, doc, { merge: true });
+      });
+      return true;
+    } catch (error) {
+      console.error("❌ FirestoreChatService.replaceBranch failed:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Store a chat forked from another one: the carried messages plus the link back
+   * to the parent. Overwrites any chat already stored under `chatId` (the fork route
+   * refuses ids that are taken).
+   * @returns false when the chat couldn't be stored
+   */
+  async createFork(
+    userId: string,
+    chatId: string,
+    title: string,
+    messages: FirestoreChatMessage[],
+    fork: FirestoreChatFork
+  ): Promise<boolean> {
+    try {
+      const timestamp = Date.now();
+      const lastUser = [...messages].reverse().find((msg) => msg.role === "user");
+      const lastAssistant = [...messages].reverse().find((msg) => msg.role === "assistant");
+
+      const doc: FirestoreChatDocument = {
+        chatId,
+        userId,
+        title: title.substring(0, 80) + (title.length > 80 ? "…" : ""),
+        createdAt: timestamp,
+        updatedAt: timestamp,
+        lastMessageTimestamp: messages[messages.length - 1]?.timestamp ?? timestamp,
+        lastUserMessage: lastUser?.content ?? "",
+        lastAssistantMessage: lastAssistant?.content ?? "",
+        messageCount: messages.length,
+        pendingPersistence: true,
+        messages: messages.slice(-this.maxMessagesPerChat),
+        ...fork,
+      };
+
+      await this.getChatCollection(userId).doc(chatId).set(doc);
+      return true;
+    } catch (error) {
+      console.error("❌ FirestoreChatService.createFork failed:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Store a chat brought in from an export archive, keeping its own dates. Overwrites
+   * any chat already stored under `chatId` (the caller only reuses the id of an earlier
+   * import), so importing an archive twice doesn't duplicate its chats. The longest
+   * messages are clipped so the document fits.
+   * @returns false when the chat couldn't be stored
+   */
+  async importChat(
+    userId: string,
+    chat: {
+      chatId: string;
+      title: string;
+      createdAt: number;
+      updatedAt: number;
+      messages: FirestoreChatMessage[];
+      branches: FirestoreChatMessage[];
+    },
+    importedFrom: FirestoreChatImport
+  ): Promise<boolean> {
+    try {
+      const { chatId, title } = chat;
+      const kept = chat.messages.slice(-this.maxMessagesPerChat);
+      const fitted = fitContent([...kept, ...chat.branches.slice(-this.maxBranchMessagesPerChat)], MAX_IMPORTED_CONTENT_BYTES);
+      const messages = fitted.slice(0, kept.length);
+      const lastUser = [...messages].reverse().find((msg) => msg.role === "user");
+      const lastAssistant = [...messages].reverse().find((msg) => msg.role === "assistant");
+
+      const doc: FirestoreChatDocument = {
+        chatId,
+        userId,
+        title: title.substring(0, 80) + (title.length > 80 ? "…" : ""),
+        createdAt: chat.createdAt,
+        updatedAt: chat.updatedAt,
+        lastMessageTimestamp: messages[messages.length - 1]?.timestamp ?? chat.updatedAt,
+        lastUserMessage: lastUser?.content ?? "",
+        lastAssistantMessage: lastAssistant?.content ?? "",
+        messageCount: chat.messages.length,
+        pendingPersistence: true,
+        messages,
+        branches: fitted.slice(kept.length),
+        importedFrom,
+      };
+
+      await this.getChatCollection(userId).doc(chatId).set(doc);
+      return true;
+    } catch (error) {
+      console.error("❌ FirestoreChatService.importChat failed:", error);
+      return false;
+    }
+  }
+
   async listActiveChats(userId: string): Promise<any[]> {
     try {
-      const snapshot = await this.getChatCollection(userId)
-        .orderBy("updatedAt", "desc")
-        .limit(50)
-        .get();
+      const chats = this.getChatCollection(userId);
+      // Pinned chats are listed even when they're older than the 50 most recent
+      const [recent, pinned] = await Promise.all([
+        chats.orderBy("updatedAt", "desc").limit(50).get(),
+        chats.where("pinnedAt", ">", 0).get(),
+      ]);
+      const docs = new Map<string, admin.firestore.QueryDocumentSnapshot>();
+      for (const doc of [...recent.docs, ...pinned.docs]) docs.set(doc.id, doc);
 
-      return snapshot.docs.map((doc) => {
+      return Array.from(docs.values()).map((doc) => {
         const data = doc.data() as FirestoreChatDocument;
         const messages = (data.messages || []).map((msg) => ({
           id: msg.id,
@@ -138,6 +401,14 @@ class FirestoreChatService {
           attachments: msg.attachments,
           imagePrompt: msg.imagePrompt,
         }));
+        const branches = (data.branches || []).map((msg) => ({
+          id: msg.id,
+          role: msg.role,
+          content: msg.content,
+          timestamp: new Date(msg.timestamp).toISOString(),
+          attachments: msg.attachments,
+          parentId: msg.parentId ?? null,
+        }));
 
         return {
           id: data.chatId || doc.id,
@@ -145,6 +416,11 @@ class FirestoreChatService {
           timestamp: new Date(data.updatedAt || Date.now()).toISOString(),
           userId,
           messages,
+          branches,
+          forkedFrom: data.forkedFrom ?? null,
+          rollingSummary: data.rollingSummary ?? null,
+          importedFrom: data.importedFrom ?? null,
+          ...toChatOrganization(data),
           source: "firestore",
           metadata: {
             pendingPersistence: data.pendingPersistence ?? false,
@@ -159,6 +435,163 @@ class FirestoreChatService {
     }
   }
 
+  /**
+   * Raw chat documents, newest first - Firestore has no full-text search, so
+   * keyword search scans these
+   */
+  async listChatDocuments(userId: string, limit = 200): Promise<FirestoreChatDocument[]> {
+    try {
+      const snapshot = await this.getChatCollection(userId)
+        .orderBy("updatedAt", "desc")
+        .limit(limit)
+        .get();
+
+      return snapshot.docs.map((doc) => {
+        const data = doc.data() as FirestoreChatDocument;
+        return { ...data, chatId: data.chatId || doc.id };
+      });
+    } catch (error) {
+      console.error("❌ FirestoreChatService.listChatDocuments failed:", error);
+      return [];
+    }
+  }
+
+  async getChatDocument(userId: string, chatId: string): Promise<FirestoreChatDocument | null> {
+    try {
+      const snapshot = await this.getChatCollection(userId).doc(chatId).get();
+      return snapshot.exists ? (snapshot.data() as FirestoreChatDocument) : null;
+    } catch (error) {
+      console.error("❌ FirestoreChatService.getChatDocument failed:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Set a chat's title. A generated title never replaces one the user set, even if
+   * the user renamed the chat while it was being generated.
+   */
+  async updateTitle(
+    userId: string,
+    chatId: string,
+    title: string,
+    source: "generated" | "user"
+  ): Promise<FirestoreChatTitleUpdate> {
+    const firestore = this.firestore;
+    if (!firestore) {
+      console.warn("⚠️ FirestoreChatService.updateTitle skipped – Firestore not initialized");
+      return "failed";
+    }
+
+    try {
+      const chatRef = this.getChatCollection(userId).doc(chatId);
+      return await firestore.runTransaction(async (tx): Promise<FirestoreChatTitleUpdate> => {
+        const snapshot = await tx.get(chatRef);
+        if (!snapshot.exists) return "not_found";
+        const existing = snapshot.data() as FirestoreChatDocument;
+        if (source === "generated" && existing.titleSource === "user") return "kept";
+
+        const doc: Partial<FirestoreChatDocument> = {
+          title: title.substring(0, 80) + (title.length > 80 ? "…" : ""),
+          titleSource: source,
+          titledAtMessageCount: existing.messageCount || 0,
+        };
+        tx.set(chatRef, doc, { merge: true });
+        return "updated";
+      });
+    } catch (error) {
+      console.error("❌ FirestoreChatService.updateTitle failed:", error);
+      return "failed";
+    }
+  }
+
+  /**
+   * File a chat: move it to a folder (null = none), replace its tags, pin or unpin it.
+   * Returns the chat's filing, or why it couldn't be filed.
+   */
+  async updateChatOrganization(
+    userId: string,
+    chatId: string,
+    changes: { folder?: string | null; tags?: string[]; pinned?: boolean }
+  ): Promise<FirestoreChatOrganizationUpdate> {
+    const firestore = this.firestore;
+    if (!firestore) {
+      console.warn("⚠️ FirestoreChatService.updateChatOrganization skipped – Firestore not initialized");
+      return { status: "failed" };
+    }
+
+    try {
+      const chatRef = this.getChatCollection(userId).doc(chatId);
+      return await firestore.runTransaction(async (tx): Promise<FirestoreChatOrganizationUpdate> => {
+        const snapshot = await tx.get(chatRef);
+        if (!snapshot.exists) return { status: "not_found" };
+        const current = toChatOrganization(snapshot.data() as FirestoreChatDocument);
+
+        const organization: FirestoreChatOrganization = {
+          folder: changes.folder !== undefined ? changes.folder : current.folder,
+          tags: changes.tags ?? current.tags,
+          pinnedAt:
+            changes.pinned === undefined
+              ? current.pinnedAt
+              : changes.pinned
+                ? current.pinnedAt ?? Date.now()
+                : null,
+        };
+        tx.set(chatRef, organization, { merge: true });
+        return { status: "updated", organization };
+      });
+    } catch (error) {
+      console.error("❌ FirestoreChatService.updateChatOrganization failed:", error);
+      return { status: "failed" };
+    }
+  }
+
+  /**
+   * Rename a folder across all of the user's chats (null moves them out of it).
+   * Returns how many chats were moved, or null when the rename failed (chats moved
+   * before the failure stay moved; renaming again finishes the job).
+   */
+  async renameFolder(userId: string, from: string, to: string | null): Promise<number | null> {
+    const firestore = this.firestore;
+    if (!firestore) {
+      console.warn("⚠️ FirestoreChatService.renameFolder skipped – Firestore not initialized");
+      return null;
+    }
+
+    try {
+      const snapshot = await this.getChatCollection(userId).where("folder", "==", from).get();
+      // A batch takes at most 500 writes
+      for (let start = 0; start < snapshot.docs.length; start += 500) {
+        const batch = firestore.batch();
+        snapshot.docs.slice(start, start + 500).forEach((doc) => batch.set(doc.ref, { folder: to }, { merge: true }));
+        await batch.commit();
+      }
+      return snapshot.size;
+    } catch (error) {
+      console.error("❌ FirestoreChatService.renameFolder failed:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Ids of the chats in a folder and/or with a tag
+   */
+  async listChatIdsMatching(userId: string, filter: FirestoreChatFilter): Promise<string[]> {
+    try {
+      const chats = this.getChatCollection(userId);
+      const query = filter.folder !== undefined
+        ? chats.where("folder", "==", filter.folder)
+        : chats.where("tags", "array-contains", filter.tag ?? "");
+      const snapshot = await query.select("chatId", "tags").get();
+
+      return snapshot.docs
+        .filter((doc) => filter.tag === undefined || ((doc.get("tags") as string[] | undefined) ?? []).includes(filter.tag))
+        .map((doc) => (doc.get("chatId") as string | undefined) || doc.id);
+    } catch (error) {
+      console.error("❌ FirestoreChatService.listChatIdsMatching failed:", error);
+      return [];
+    }
+  }
+
   async markChatPersisted(userId: string, chatId: string): Promise<void> {
     try {
       const chatRef = this.getChatCollection(userId).doc(chatId);
@@ -202,3 +635,4 @@ class FirestoreChatService {
 }
 
 export const firestoreChatService = new FirestoreChatService();
+export { FirestoreChatService };
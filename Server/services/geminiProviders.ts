@@ -0,0 +1,192 @@
+// geminiProviders.ts - Vertex AI and Google AI Studio model providers
+import { VertexAI } from "@google-cloud/vertexai";
+import { GoogleGenAI } from "@google/genai";
+import type {
+  GenerateRequest,
+  GenResult,
+  ModelCapability,
+  ModelProvider,
+  StreamTrace,
+  ToolDeclaration,
+} from "./modelProviderService";
+import { normalizeContents } from "./modelProviderService";
+import { toGeminiSchema } from "./jsonSchema";
+import type { JSONSchema } from "./jsonSchema";
+
+/**
+ * JSON mode with a response schema, when structured output was requested
+ */
+function toGenerationConfig(responseSchema?: JSONSchema): Record<string, any> | undefined {
+  if (!responseSchema) return undefined;
+  return { responseMimeType: "application/json", responseSchema: toGeminiSchema(responseSchema) };
+}
+
+/**
+ * Tool declarations in the shape both Gemini SDKs expect
+ */
+function toGeminiTools(tools?: ToolDeclaration[]): any[] | undefined {
+  if (!tools || tools.length === 0) return undefined;
+  return [
+    {
+      functionDeclarations: tools.map((tool) => ({
+        name: tool.name,
+        description: tool.description,
+        parameters: toGeminiSchema(tool.parameters),
+      })),
+    },
+  ];
+}
+
+/**
+ * Vertex AI provider (preferred for scalability, native streaming)
+ */
+class VertexProvider implements ModelProvider {
+  readonly name = "vertex";
+  readonly capabilities: ModelCapability[] = [
+    "text",
+    "stream",
+    "vision",
+    "documentInput",
+    "imageOutput",
+    "audioInput",
+    "tools",
+  ];
+  private client: VertexAI | undefined;
+
+  constructor() {
+    try {
+      const projectId =
+        process.env.GOOGLE_CLOUD_PROJECT ||
+        process.env.GCLOUD_PROJECT ||
+        process.env.GCP_PROJECT;
+      const location =
+        process.env.VERTEX_LOCATION ||
+        process.env.GOOGLE_CLOUD_REGION ||
+        process.env.GOOGLE_CLOUD_LOCATION ||
+        "us-central1";
+
+      if (projectId) {
+        this.client = new VertexAI({ project: projectId, location });
+        console.log(
+          `Vertex AI client initialized. project=${projectId}, location=${location}`
+        );
+      } else {
+        console.warn(
+          "GOOGLE_CLOUD_PROJECT not set; Vertex AI client not initialized. Set GOOGLE_CLOUD_PROJECT and GOOGLE_APPLICATION_CREDENTIALS to use Vertex AI."
+        );
+      }
+    } catch (err) {
+      console.error("Failed to initialize Vertex AI client:", err);
+    }
+  }
+
+  isAvailable(): boolean {
+    return !!this.client;
+  }
+
+  async generateContent({ model, contents, systemInstruction, tools, responseSchema }: GenerateRequest): Promise<GenResult> {
+    if (!this.client) throw new Error("Vertex AI client not initialized");
+    const gm = this.client.getGenerativeModel({
+      model,
+      systemInstruction,
+      tools: toGeminiTools(tools),
+      generationConfig: toGenerationConfig(responseSchema),
+    });
+    const resp: any = await gm.generateContent({
+      contents: normalizeContents(contents) as any[],
+    });
+    const parts: any[] = resp?.response?.candidates?.[0]?.content?.parts ?? [];
+    const usage = resp?.response?.usageMetadata;
+    return { parts, raw: resp, usage };
+  }
+
+  async *generateContentStream(
+    { model, contents, systemInstruction, tools, signal }: GenerateRequest,
+    trace?: StreamTrace
+  ): AsyncGenerator<string, void, unknown> {
+    if (!this.client) throw new Error("Vertex AI client not initialized");
+    const gm = this.client.getGenerativeModel({ model, systemInstruction, tools: toGeminiTools(tools) });
+
+    // Use generateContentStream for real-time chunks
+    const streamResult = await gm.generateContentStream({
+      contents: normalizeContents(contents) as any[],
+    });
+
+    // Yield each chunk as it arrives; function calls are collected on the trace.
+    // The Vertex SDK takes no abort signal, so cancelling just stops pulling chunks.
+    for await (const chunk of streamResult.stream) {
+      if (signal?.aborted) return;
+      for (const part of chunk.candidates?.[0]?.content?.parts ?? []) {
+        if (part.text) {
+          yield part.text;
+        }
+        if (trace && part.functionCall) {
+          trace.functionCalls = [...(trace.functionCalls || []), part.functionCall as any];
+        }
+      }
+      // Usage arrives on the final chunk
+      if (trace && chunk.usageMetadata) {
+        trace.usage = chunk.usageMetadata;
+      }
+    }
+  }
+}
+
+/**
+ * Google AI Studio provider (API key based fallback).
+ * No native streaming here - the registry chunks the full response instead.
+ */
+class GoogleAIStudioProvider implements ModelProvider {
+  readonly name = "google";
+  readonly capabilities: ModelCapability[] = [
+    "text",
+    "vision",
+    "documentInput",
+    "imageOutput",
+    "audioInput",
+    "tools",
+  ];
+  private client: GoogleGenAI | undefined;
+
+  constructor() {
+    try {
+      if (process.env.GEMINI_API_KEY) {
+        this.client = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+        console.log("GoogleGenAI client initialized (fallback).");
+      } else {
+        console.warn("GEMINI_API_KEY not set; Google client disabled.");
+      }
+    } catch (err) {
+      console.error("Failed to initialize GoogleGenAI client:", err);
+    }
+  }
+
+  isAvailable(): boolean {
+    return !!this.client;
+  }
+
+  async generateContent({ model, contents, systemInstruction, tools, responseSchema, signal }: GenerateRequest): Promise<GenResult> {
+    if (!this.client) throw new Error("GoogleGenAI client not initialized");
+    const config: Record<string, any> = { ...toGenerationConfig(responseSchema) };
+    if (systemInstruction) config.systemInstruction = systemInstruction;
+    if (tools?.length) config.tools = toGeminiTools(tools);
+    if (signal) config.abortSignal = signal;
+    const resp: any = await (this.client as any).models.generateContent({
+      model,
+      contents,
+      ...(Object.keys(config).length > 0 ? { config } : {}),
+    });
+    const parts: any[] = resp?.candidates?.[0]?.content?.parts ?? [];
+    const usage = resp?.usageMetadata;
+    return { parts, raw: resp, usage };
+  }
+}
+
+/**
+ * Providers registered when the registry is first created
+ */
+export function createDefaultProviders(): ModelProvider[] {
+  return [new VertexProvider(), new GoogleAIStudioProvider()];
+}
+
+export { VertexProvider, GoogleAIStudioProvider };
@@ -3,6 +3,8 @@ import { getConversationService, ConversationTurn, ConversationSummary } from '.
 import { getEmbeddingService, SearchResult } from './embeddingService';
 import { getPineconeStorageService } from './pineconeStorageService';
 import { userProfileService } from './userProfileService';
+import { firestoreChatService } from './firestoreChatService';
+import type { FirestoreChatFilter } from './firestoreChatService';
 
 export interface HybridMemoryResult {
   type: 'local' | 'long-term' | 'hybrid';
@@ -26,6 +28,7 @@ export interface MemorySearchOptions {
   includeLocalSummaries?: boolean;
   skipPineconeIfLocalFound?: boolean; // NEW: Cost optimization flag
   minLocalResultsForSkip?: number; // NEW: Minimum local results to skip Pinecone
+  scope?: FirestoreChatFilter; // 📁 New chats only recall chats in this folder / with this tag
 }
 
 class HybridMemoryService {
@@ -180,7 +183,8 @@ class HybridMemoryService {
       threshold = 0.3,
       includeLocalSummaries = true,
       skipPineconeIfLocalFound = true,
-      minLocalResultsForSkip = 2
+      minLocalResultsForSkip = 2,
+      scope
     } = options;
 
     const isNewChat = messageCount === 0 || messageCount === undefined;
@@ -188,19 +192,27 @@ class HybridMemoryService {
     console.log(`🔍 ${isNewChat ? '🆕 NEW' : '💬 CONTINUING'} chat memory search`);
     console.log(`   User: ${userId}, Chat: ${chatId || 'none'}, Query: "${query.substring(0, 50)}..."`);
 
+    // 📁 A new chat scoped to a folder / tag only recalls the chats filed there
+    const scopedChatIds = isNewChat && scope
+      ? new Set(await firestoreChatService.listChatIdsMatching(userId, scope))
+      : null;
+    const inScope = (id?: string) => !scopedChatIds || (!!id && scopedChatIds.has(id));
+    if (scopedChatIds) {
+      console.log(`📁 Memory scoped to ${scopedChatIds.size} chat(s) (folder: ${scope?.folder ?? 'any'}, tag: ${scope?.tag ?? 'any'})`);
+    }
+
     // 1. Search local conversations first (fastest)
-    const localResults = this.conversationService.searchLocalConversations(
-      userId, 
-      query, 
-      maxLocalResults
-    );
+    const localResults = this.conversationService
+      .searchLocalConversations(userId, query, scopedChatIds ? maxLocalResults * 4 : maxLocalResults)
+      .filter(turn => inScope(turn.chatId))
+      .slice(0, maxLocalResults);
 
     console.log(`📱 Found ${localResults.length} local conversation matches`);
 
     // 2. Get local summaries if requested
     let localSummaries: ConversationSummary[] = [];
     if (includeLocalSummaries) {
-      localSummaries = this.conversationService.getLocalSummaries(userId);
+      localSummaries = this.conversationService.getLocalSummaries(userId).filter(summary => inScope(summary.chatId));
       console.log(`📋 Found ${localSummaries.length} local summaries`);
     }
 
@@ -210,6 +222,8 @@ class HybridMemoryService {
     
     if (skipDecision.skip) {
       console.log(`💰 Skipping Pinecone search - ${skipDecision.reason}`);
+    } else if (scopedChatIds?.size === 0) {
+      console.log('📁 Skipping Pinecone search - no chats in the memory scope');
     } else {
       console.log(`☁️ Searching Pinecone with ${isNewChat ? 'USER-WIDE' : 'CHAT-SPECIFIC'} scope - ${skipDecision.reason}`);
       try {
@@ -218,7 +232,8 @@ class HybridMemoryService {
           threshold,
           userId,
           chatId: isNewChat ? undefined : chatId,  // 🎯 KEY OPTIMIZATION! Only search specific chat
-          isNewChat
+          isNewChat,
+          filter: scopedChatIds ? { chatId: { $in: Array.from(scopedChatIds) } } : undefined
         });
         console.log(`☁️ Found ${longTermResults.length} long-term memory matches (scope: ${isNewChat ? 'all chats' : `chat ${chatId}`})`);
       } catch (error) {
@@ -299,6 +314,17 @@ class HybridMemoryService {
     return this.conversationService.addConversationTurn(userId, userPrompt, aiResponse, chatId, imageData);
   }
 
+  /**
+   * Replace a chat's turns in local memory with those of its active branch
+   */
+  replaceChatTurns(
+    userId: string,
+    chatId: string,
+    turns: Array<Pick<ConversationTurn, 'userPrompt' | 'aiResponse' | 'timestamp' | 'imageUrl'>>
+  ): void {
+    this.conversationService.replaceChatTurns(userId, chatId, turns);
+  }
+
   /**
    * Get memory debug information
    */
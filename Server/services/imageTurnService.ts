@@ -0,0 +1,308 @@
+// imageTurnService.ts - Image edit and image generation turns for the chat routes
+//
+// The model call and result parsing happen inline so the route can answer right
+// away; persistImageTurn then does the slow part in the background (local cache,
+// Firebase upload, conversation history) and tells the user's sockets when the
+// durable URL is ready.
+
+import { getModelProviderRegistry } from "./modelProviderService";
+import type { GenResult } from "./modelProviderService";
+import { getHybridMemoryService } from "./hybridMemoryService";
+import { firebaseStorageService } from "./firebaseStorageService";
+import { localImageCacheService } from "./localImageCacheService";
+import { firestoreChatService } from "./firestoreChatService";
+import { queueChatTitle } from "./chatTitleService";
+import { getChatSocketService } from "./chatSocketService";
+import type { UsageMeter } from "./usageLedgerService";
+
+export interface ImageTurnResult {
+  kind: "edit" | "generate";
+  text: string; // Caption for the chat bubble, links stripped
+  imageBase64: string | null;
+  imageUri: string | null;
+  imageLocalUri: string | null;
+  altText: string | null;
+  response: GenResult;
+}
+
+// 🔎 Extract a usable image URL when model returns markdown/link instead of inline image
+function extractImageUrlFromText(text: string): string | null {
+  if (!text) return null;
+  const t = text.trim();
+  // Markdown image ![alt](url)
+  const md = t.match(/!\[[^\]]*\]\((https?:\/\/[^\s)]+)\)/i);
+  if (md && md[1]) return md[1];
+  // Plain URL ending with common image extensions
+  const plain = t.match(
+    /(https?:\/\/[^\s)]+\.(?:png|jpe?g|gif|webp|bmp|svg))(?!\S)/i
+  );
+  if (plain && plain[1]) return plain[1];
+  // Hosted attachments or storage paths that are likely images
+  const hosted = t.match(
+    /(https?:\/\/[\w.-]+\/(?:assistants|storage|firebasestorage|googleusercontent)[^\s)]+)/i
+  );
+  if (hosted && hosted[1]) return hosted[1];
+  return null;
+}
+
+// 🧼 Remove markdown image links and raw URLs from text so UI doesn't show links instead of images
+function sanitizeImageText(text?: string): string | undefined {
+  if (!text) return text;
+  let out = text;
+  // Remove markdown image syntax
+  out = out.replace(/!\[[^\]]*\]\((https?:\/\/[^\s)]+)\)/gi, "").trim();
+  // Remove standalone URLs likely pointing to images/attachments
+  out = out.replace(/https?:\/\/[^\s)]+/gi, "").trim();
+  // Collapse multiple spaces/newlines
+  out = out.replace(/\n{3,}/g, "\n\n").replace(/\s{2,}/g, " ");
+  return out || undefined;
+}
+
+/**
+ * Download an image URL as base64, or null when it can't be fetched
+ */
+async function fetchAsBase64(url: string): Promise<string | null> {
+  try {
+    const resp = await fetch(url);
+    if (!resp.ok) {
+      console.warn(`⚠️ Failed to fetch image URL (status ${resp.status})`);
+      return null;
+    }
+    return Buffer.from(await resp.arrayBuffer()).toString("base64");
+  } catch (e) {
+    console.warn(`⚠️ Could not download image URL:`, e);
+    return null;
+  }
+}
+
+/**
+ * Pull the image (inline data, file URI or a link in the text) and caption out of a model response
+ */
+function readImageParts(response: GenResult): Pick<ImageTurnResult, "imageBase64" | "imageUri" | "altText"> {
+  const parts: any[] = (response as any)?.parts ?? [];
+  let imageBase64: string | null = null;
+  let imageUri: string | null = null;
+  let altText: string | null = null;
+
+  console.log(`📦 Received ${parts.length} parts from the image model`);
+  for (const part of parts) {
+    if (part.inlineData) {
+      console.log(
+        `📸 Found inlineData - mimeType: ${part.inlineData.mimeType}, data length: ${part.inlineData.data?.length || 0}`
+      );
+      imageBase64 = part.inlineData.data;
+    }
+    if (part.fileData) {
+      console.log(`📁 Found fileData - URI: ${part.fileData.fileUri}`);
+      imageUri = part.fileData.fileUri;
+    }
+    if (part.text) {
+      altText = part.text ?? altText;
+    }
+  }
+  return { imageBase64, imageUri, altText };
+}
+
+/**
+ * Edit an uploaded image as the prompt asks. Throws when the model call fails.
+ */
+export async function editImage(options: {
+  prompt: string;
+  imageBase64: string;
+  model: string;
+  signal?: AbortSignal;
+  meter?: UsageMeter;
+}): Promise<ImageTurnResult> {
+  const { prompt } = options;
+
+  // 🎯 CRITICAL: Clean, focused edit instruction with NO conversation context
+  // This ensures the AI only modifies what the user explicitly requested
+  const editInstruction = `You are an expert image editor. Your task is to edit this image PRECISELY as requested.
+
+USER REQUEST: ${prompt}
+
+STRICT RULES:
+1. Make ONLY the specific changes requested by the user
+2. Preserve everything else EXACTLY as it appears in the original image
+3. Maintain the original image composition, lighting, style, and quality
+4. Do NOT add creative interpretations or extra elements
+5. Do NOT change the background, lighting, or overall scene unless explicitly requested
+6. Return a single edited image that looks natural and seamless
+
+Focus: Minimal, precise edits. Maximum preservation of the original image.`;
+
+  const response = await getModelProviderRegistry().generateContent({
+    model: options.model,
+    contents: [
+      {
+        parts: [
+          { inlineData: { data: options.imageBase64, mimeType: "image/png" } },
+          { text: editInstruction },
+        ],
+      },
+    ],
+    requires: ["imageOutput"],
+    signal: options.signal,
+    meter: options.meter && { ...options.meter, purpose: "image" },
+  });
+
+  let { imageBase64, imageUri, altText } = readImageParts(response);
+
+  // Fallback: extract URL from text when no inline/fileData
+  if (!imageBase64 && !imageUri && altText) {
+    const extracted = extractImageUrlFromText(altText);
+    if (extracted) {
+      imageUri = extracted;
+      console.log(`🔗 [edit] Extracted image URL from text: ${imageUri}`);
+      imageBase64 = await fetchAsBase64(extracted);
+    }
+  }
+
+  return {
+    kind: "edit",
+    text: sanitizeImageText(altText || undefined) || "Edited image",
+    imageBase64,
+    imageUri,
+    imageLocalUri: null,
+    altText,
+    response,
+  };
+}
+
+/**
+ * Generate a new image from the prompt. Gemini sometimes answers with text only,
+ * so the call is retried with a firmer instruction.
+ */
+export async function generateImage(options: {
+  prompt: string;
+  model: string;
+  signal?: AbortSignal;
+  meter?: UsageMeter;
+}): Promise<ImageTurnResult> {
+  const registry = getModelProviderRegistry();
+  let imagePrompt = options.prompt;
+  console.log(`🎨 Image generation - model: ${options.model}, prompt: "${imagePrompt.substring(0, 100)}"`);
+
+  const maxRetries = 2;
+  let response: GenResult | undefined;
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    if (attempt > 0) {
+      console.log(`🔄 Retry ${attempt}/${maxRetries} - model returned text instead of an image`);
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+      // Make prompt more explicit for retry
+      imagePrompt += `\n\nIMPORTANT: Generate an actual IMAGE, not text. Do not describe the image, CREATE it.`;
+    }
+
+    response = await registry.generateContent({
+      model: options.model,
+      contents: [imagePrompt],
+      requires: ["imageOutput"],
+      signal: options.signal,
+      meter: options.meter && { ...options.meter, purpose: "image" },
+    });
+
+    const parts: any[] = (response as any)?.parts ?? [];
+    if (parts.some((part) => part.inlineData || part.fileData)) {
+      console.log(`✅ Image generated successfully on attempt ${attempt + 1}`);
+      break;
+    }
+    if (attempt === maxRetries) {
+      console.error(`❌ Failed to generate image after ${maxRetries + 1} attempts`);
+    }
+  }
+
+  let { imageBase64, imageUri, altText } = readImageParts(response!);
+
+  if (!imageBase64 && imageUri) {
+    // ⚡ Speed optimization: return URI immediately; optional inline base64 behind flag
+    if (process.env.INLINE_IMAGE_BASE64 === "true") {
+      console.log("📥 Downloading image from URI to base64 for immediate display (opt-in)...");
+      imageBase64 = await fetchAsBase64(imageUri);
+    }
+  } else if (!imageBase64) {
+    console.error(`❌ No image data found in response! Attempting to extract from text...`);
+    const combinedText = ((response as any)?.parts ?? []).map((p: any) => p.text ?? "").join(" ");
+    const extractedUrl = extractImageUrlFromText(combinedText);
+    if (extractedUrl) {
+      imageUri = extractedUrl;
+      console.log(`🔗 Extracted image URL from text: ${imageUri}`);
+      // Try to convert to base64 for immediate display
+      imageBase64 = await fetchAsBase64(extractedUrl);
+    }
+  }
+
+  return {
+    kind: "generate",
+    text: sanitizeImageText(altText || undefined) || "Image generated",
+    imageBase64,
+    imageUri,
+    imageLocalUri: null,
+    altText,
+    response: response!,
+  };
+}
+
+/**
+ * Background work after an image turn was answered: cache the image locally,
+ * upload it to Firebase Storage, record the turn with the durable URL and push
+ * "image.persisted" to the user's sockets.
+ */
+export function persistImageTurn(options: {
+  userId: string;
+  chatId?: string;
+  prompt: string;
+  result: ImageTurnResult;
+  useMemory: boolean;
+}): void {
+  const { userId, chatId, prompt, result } = options;
+  const label = result.kind === "edit" ? "edited" : "generated";
+
+  setImmediate(async () => {
+    try {
+      if (localImageCacheService.isEnabled() && !result.imageLocalUri) {
+        const saved = result.imageBase64
+          ? await localImageCacheService.saveBase64(userId, chatId || "default", result.imageBase64, "png")
+          : result.imageUri
+            ? await localImageCacheService.saveFromUri(userId, chatId || "default", result.imageUri, "png")
+            : null;
+        if (saved) {
+          result.imageLocalUri = saved.localUri;
+          console.log(`🗃️ [BACKGROUND] Cached ${label} image locally: ${result.imageLocalUri}`);
+        }
+      }
+    } catch (e) {
+      console.warn(`⚠️ [BACKGROUND] Failed to save ${label} image locally:`, e);
+    }
+
+    if (!options.useMemory || !userId || (!result.imageBase64 && !result.imageUri)) return;
+
+    try {
+      // Prefer uploading the bytes; fall back to storing the provider URI as-is
+      const imageBase64 = result.imageBase64 ?? (await fetchAsBase64(result.imageUri!));
+      const firebaseImageUrl = imageBase64
+        ? await firebaseStorageService.uploadImage(userId, chatId || "default", imageBase64, prompt)
+        : result.imageUri!;
+      console.log(`✅ Image uploaded to Firebase: ${firebaseImageUrl}`);
+
+      const conversationTurn = getHybridMemoryService().storeConversationTurn(
+        userId,
+        prompt,
+        result.altText || (result.kind === "edit" ? "Image edited" : "Image generated"),
+        chatId,
+        { url: firebaseImageUrl, prompt }
+      );
+      await firestoreChatService.saveTurn(conversationTurn);
+      queueChatTitle(userId, chatId);
+      console.log(`🖼️ [BACKGROUND] Stored ${label} image URL in conversation history`);
+
+      getChatSocketService().notifyUser(userId, "image.persisted", {
+        chatId,
+        prompt,
+        url: firebaseImageUrl,
+        localUri: result.imageLocalUri,
+      });
+    } catch (e) {
+      console.error(`❌ [BACKGROUND] Failed to upload/store ${label} image:`, e);
+    }
+  });
+}
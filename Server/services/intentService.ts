@@ -0,0 +1,642 @@
+// intentService.ts - Decides what a chat prompt is asking for: text, vision Q&A, image edit or image generation
+//
+// Cheap heuristics (fuzzy verb matching) run first; the model classifier is asked
+// when they are unsure. Classifications are cached briefly and counted for
+// /api/admin/intent-analytics.
+
+import { generateStructured } from "./structuredOutputService";
+import type { JSONSchema } from "./jsonSchema";
+import { getConversationService } from "./conversationService";
+import type { UsageMeter } from "./usageLedgerService";
+
+export type ChatIntent = "imageEdit" | "visionQA" | "imageGenerate" | "text";
+
+// 🎯 Intent Caching - Module-level cache for classification results
+const intentCache = new Map<
+  string,
+  {
+    intent: ChatIntent;
+    confidence: number;
+    timestamp: number;
+  }
+>();
+
+const INTENT_CACHE_TTL = parseInt(process.env.INTENT_CACHE_TTL || "60000"); // 1 minute default
+
+// Shape the intent classifier must answer with
+const INTENT_SCHEMA: JSONSchema = {
+  type: "object",
+  properties: {
+    intent: { type: "string", enum: ["imageEdit", "visionQA", "imageGenerate", "text"] },
+    confidence: { type: "number", minimum: 0, maximum: 1 },
+  },
+  required: ["intent", "confidence"],
+};
+let cacheHits = 0;
+let cacheMisses = 0;
+
+// 📊 Intent Analytics - Track which intents users request
+const intentAnalytics = new Map<string, number>();
+const classificationTimes: number[] = [];
+
+// 🔍 Intent helpers: fuzzy matching + optional model-based classification
+function levenshtein(a: string, b: string): number {
+  const m = a.length,
+    n = b.length;
+  if (m === 0) return n;
+  if (n === 0) return m;
+  const dp = Array.from({ length: m + 1 }, () =>
+    new Array<number>(n + 1).fill(0)
+  );
+  for (let i = 0; i <= m; i++) dp[i][0] = i;
+  for (let j = 0; j <= n; j++) dp[0][j] = j;
+  for (let i = 1; i <= m; i++) {
+    for (let j = 1; j <= n; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      dp[i][j] = Math.min(
+        dp[i - 1][j] + 1,
+        dp[i][j - 1] + 1,
+        dp[i - 1][j - 1] + cost
+      );
+    }
+  }
+  return dp[m][n];
+}
+
+function fuzzyIncludes(
+  haystack: string,
+  needles: string[],
+  maxDistance = 1
+): { matched: string | null } {
+  const s = haystack.toLowerCase();
+  for (const needle of needles) {
+    const n = needle.toLowerCase();
+    if (s.includes(n)) return { matched: needle };
+    // Sliding window fuzzy search
+    const w = n.length;
+    for (let i = 0; i <= s.length - w; i++) {
+      const seg = s.slice(i, i + w);
+      if (levenshtein(seg, n) <= maxDistance) return { matched: needle };
+    }
+  }
+  return { matched: null };
+}
+
+export function normalizeRequestType(t?: string): "text" | "image" {
+  if (!t) return "text";
+  const s = String(t).toLowerCase().trim();
+  const imageSynonyms = [
+    "image",
+    "img",
+    "picture",
+    "pic",
+    "generate",
+    "gen",
+    "art",
+    "logo",
+  ];
+  if (imageSynonyms.some((syn) => s === syn)) return "image";
+  // Fuzzy for common typos: iamge, imgae
+  if (levenshtein(s, "image") <= 2) return "image";
+  return "text";
+}
+
+function detectImageEditIntentHeuristic(p: string): {
+  likely: boolean;
+  confidence: number;
+  signal?: string;
+} {
+  if (!p) return { likely: false, confidence: 0 };
+  
+  console.log(`🔎 Heuristic check for: "${p}"`);
+  
+  const verbs = [
+    "add",
+    "insert",
+    "place",
+    "put",
+    "overlay",
+    "draw",
+    "paint",
+    "write",
+    "stamp",
+    "apply",
+    "remove",
+    "erase",
+    "delete",
+    "clean",
+    "clear",
+    "hide",
+    "cut",
+    "replace",
+    "swap",
+    "change",
+    "modify",
+    "edit",
+    "adjust",
+    "tweak",
+    "fix",
+    "update",
+    "blur",
+    "sharpen",
+    "denoise",
+    "enhance",
+    "brighten",
+    "darken",
+    "exposure",
+    "contrast",
+    "saturation",
+    "vibrance",
+    "hue",
+    "crop",
+    "resize",
+    "rotate",
+    "flip",
+    "scale",
+    "border",
+    "frame",
+    "background",
+    "bg",
+    "mask",
+    "cutout",
+    "transparent",
+    "text",
+    "caption",
+    "label",
+    "watermark",
+  ];
+  const { matched } = fuzzyIncludes(p, verbs, 1);
+  console.log(`🔎 Heuristic - matched verb: "${matched || "none"}"`);
+  
+  if (matched) {
+    // Boost confidence for strong edit verbs (add, remove, change)
+    const strongVerbs = ["add", "insert", "remove", "delete", "change", "replace"];
+    const strongVerbMatch = strongVerbs.some((v) => p.toLowerCase().includes(v));
+    
+    // Boost confidence for strong edit nouns
+    const strongNouns = [
+      "background",
+      "mask",
+      "border",
+      "frame",
+      "watermark",
+      "dog",        // Adding objects
+      "person",
+      "text",
+      "object",
+    ];
+    const nounBoost = strongNouns.some((n) => p.toLowerCase().includes(n))
+      ? 0.2
+      : 0;
+    const verbBoost = strongVerbMatch ? 0.15 : 0;
+    
+    const finalConf = Math.min(0.95, 0.6 + nounBoost + verbBoost);
+    console.log(`🔎 Heuristic boost - strongVerb:${strongVerbMatch} noun:${nounBoost} verb:${verbBoost} final:${finalConf}`);
+    
+    return {
+      likely: true,
+      confidence: finalConf,
+      signal: matched,
+    };
+  }
+  console.log(`🔎 Heuristic - no edit intent detected`);
+  return { likely: false, confidence: 0.2 };
+}
+
+// Helpers for the module-level intent cache
+function getCachedIntent(prompt: string) {
+  const normalized = prompt.toLowerCase().trim().substring(0, 200); // Limit key size
+  const cached = intentCache.get(normalized);
+  if (cached && Date.now() - cached.timestamp < INTENT_CACHE_TTL) {
+    cacheHits++;
+    console.log(
+      `⚡ Intent cache HIT - returning cached result (${cached.intent})`
+    );
+    return {
+      intent: cached.intent,
+      confidence: cached.confidence,
+      method: "cache" as const,
+    };
+  }
+  cacheMisses++;
+  return null;
+}
+
+function setCachedIntent(
+  prompt: string,
+  intent: ChatIntent,
+  confidence: number
+) {
+  const normalized = prompt.toLowerCase().trim().substring(0, 200);
+  intentCache.set(normalized, {
+    intent,
+    confidence,
+    timestamp: Date.now(),
+  });
+  // Limit cache size to prevent memory issues
+  if (intentCache.size > 1000) {
+    const firstKey = intentCache.keys().next().value;
+    if (firstKey) intentCache.delete(firstKey);
+  }
+}
+
+function logIntentUsage(
+  intent: string,
+  confidence: number,
+  method: string
+) {
+  intentAnalytics.set(intent, (intentAnalytics.get(intent) || 0) + 1);
+  const count = intentAnalytics.get(intent);
+  console.log(
+    `🎯 Intent: ${intent} (conf: ${confidence.toFixed(2)}, method: ${method}) | Usage: ${count}`
+  );
+}
+
+export async function classifyIntentWithModel(
+  p: string,
+  hasImage: boolean,
+  conversationContext?: string,
+  meter?: UsageMeter
+): Promise<{
+  intent: ChatIntent;
+  confidence: number;
+  method: "ai" | "heuristic" | "cache" | "default";
+} | null> {
+  const startTime = Date.now();
+
+  // Try cache first (only cache when no conversation context to avoid stale results)
+  if (!conversationContext) {
+    const cached = getCachedIntent(p);
+    if (cached) {
+      return cached;
+    }
+  }
+  
+  try {
+    let classificationPrompt: string;
+    if (hasImage) {
+      // Binary classification when an image is present: edit vs vision Q&A vs generate new
+      classificationPrompt = `Task: Classify the user's intent when an image is provided.
+Return a JSON object with fields intent and confidence (0-1).
+Valid intents: "imageEdit", "visionQA", or "imageGenerate".
+
+IMPORTANT CONTEXT RULES:
+1. If user wants to MODIFY THE UPLOADED IMAGE → "imageEdit"
+2. If user asks QUESTIONS ABOUT THE UPLOADED IMAGE → "visionQA"  
+3. If user wants to CREATE A COMPLETELY NEW IMAGE (ignoring uploaded image) → "imageGenerate"
+
+${conversationContext ? `CONVERSATION CONTEXT:\n${conversationContext}\n\n` : ''}
+
+CRITICAL RULES:
+- ANY mention of changing/editing the uploaded image = "imageEdit" (even if "generate" is mentioned)
+- "change X and generate" [with uploaded image] = "imageEdit" (user wants edited version of uploaded image)
+- "generate a NEW image of Y" [with uploaded X] = "imageGenerate" ONLY if Y is completely unrelated to X
+
+EXAMPLES:
+"add another dog" [with dog image] → {"intent": "imageEdit", "confidence": 0.95}
+"change the brand name to nubevest" [with shoe image] → {"intent": "imageEdit", "confidence": 0.95}
+"change the brand name and generate image" [with shoe] → {"intent": "imageEdit", "confidence": 0.95}
+"remove the background" [with any image] → {"intent": "imageEdit", "confidence": 0.95}
+"make the shoe red and generate it" [with shoe image] → {"intent": "imageEdit", "confidence": 0.95}
+"what's in this image?" [with any image] → {"intent": "visionQA", "confidence": 0.95}
+"draw me a picture of god from india" [with dog image] → {"intent": "imageGenerate", "confidence": 0.9}
+"create a sunset landscape" [with shoe image] → {"intent": "imageGenerate", "confidence": 0.9}
+
+KEYWORDS FOR EDITING: change, modify, edit, adjust, add to this, remove from this, replace, alter, update
+KEYWORDS FOR QUESTIONS: what, who, where, analyze this, describe this, count in this, tell me about
+KEYWORDS FOR NEW IMAGE: draw a NEW, create a DIFFERENT, show me SOMETHING ELSE (only when clearly unrelated)
+
+INPUT PROMPT:
+${p}
+
+Return ONLY valid JSON: {"intent": "<intent>", "confidence": <0-1>}`;
+    } else {
+      // Full classification when no image is present: text vs imageGenerate
+      classificationPrompt = `Task: Classify the user's intent when NO image is provided.
+Return a JSON object with fields intent and confidence (0-1).
+Valid intents: "imageGenerate" or "text".
+
+${conversationContext ? `CONVERSATION CONTEXT:\n${conversationContext}\n\n` : ''}
+
+EXAMPLES:
+"draw a cat" → {"intent": "imageGenerate", "confidence": 0.95}
+"show me a sunset" → {"intent": "imageGenerate", "confidence": 0.9}
+"create a logo" → {"intent": "imageGenerate", "confidence": 0.95}
+"picture of god from india" → {"intent": "imageGenerate", "confidence": 0.95}
+"how are you?" → {"intent": "text", "confidence": 0.99}
+"explain this" → {"intent": "text", "confidence": 0.98}
+
+INPUT PROMPT:
+${p}
+
+Return ONLY valid JSON: {"intent": "<intent>", "confidence": <0-1>}`;
+    }
+
+    // Schema-constrained output; one call only - latency matters more than a retry here
+    const classification = await generateStructured<{ intent: string; confidence: number }>({
+      // Fast, lightweight model for classification by default
+      model: process.env.INTENT_MODEL || "gemini-1.5-flash-001", // v1 model id avoids 404s
+      prompt: classificationPrompt,
+      schema: INTENT_SCHEMA,
+      maxAttempts: 1,
+      meter: meter && { ...meter, purpose: "intent" },
+    });
+    const txt = classification.raw;
+    let parsed: any = classification.ok ? classification.data : null;
+    if (!classification.ok) {
+      console.warn(
+        `⚠️ Intent classification output invalid (${classification.errors.join("; ")}):`,
+        txt
+      );
+    }
+
+    // Fallback: accept simple outputs like "edit", "ask", "vision"
+    if (!parsed) {
+      const t = txt.toLowerCase();
+      if (/\b(edit|image\s*edit)\b/.test(t))
+        parsed = { intent: "imageEdit", confidence: 0.55 };
+      else if (/\b(ask|vision|q&a|qa|analy[sz]e)\b/.test(t))
+        parsed = { intent: "visionQA", confidence: 0.55 };
+      else if (/\b(generate|gen(erate)?\s*image|image\s*gen)\b/.test(t))
+        parsed = { intent: "imageGenerate", confidence: 0.55 };
+      else parsed = { intent: "text", confidence: 0.5 };
+    }
+
+    const intent = parsed.intent as any;
+    const confidence = Number(parsed.confidence ?? 0.5);
+    const threshold = parseFloat(
+      process.env.INTENT_CONFIDENCE_THRESHOLD || "0.5"
+    );
+
+    if (
+      ["imageEdit", "visionQA", "imageGenerate", "text"].includes(
+        intent
+      ) &&
+      confidence >= threshold
+    ) {
+      // Cache the result
+      setCachedIntent(p, intent, confidence);
+
+      // Track performance
+      const duration = Date.now() - startTime;
+      classificationTimes.push(duration);
+      if (classificationTimes.length > 100)
+        classificationTimes.shift(); // Keep last 100
+
+      const avgTime =
+        classificationTimes.reduce((a, b) => a + b, 0) /
+        classificationTimes.length;
+      console.log(
+        `⏱️ Intent classification took ${duration}ms (avg: ${avgTime.toFixed(0)}ms)`
+      );
+
+      // Log usage
+      logIntentUsage(intent, confidence, "ai");
+
+      return {
+        intent,
+        confidence: Math.max(0, Math.min(1, confidence)),
+        method: "ai",
+      };
+    } else if (!["imageEdit", "visionQA", "imageGenerate", "text"].includes(intent)) {
+      console.warn(`⚠️ Invalid intent returned: ${intent}`);
+    } else {
+      console.warn(
+        `⚠️ Confidence too low: ${confidence.toFixed(2)} < ${threshold}`
+      );
+    }
+  } catch (e: any) {
+    console.warn(
+      "⚠️ Intent classifier failed, using fallback:",
+      e.message || e
+    );
+  }
+
+  // Fallback to heuristic if AI classification failed
+  if (!hasImage) {
+    const heuristic = detectImageGenerateIntentHeuristic(p);
+    if (heuristic.likely && heuristic.confidence >= 0.6) {
+      console.log(
+        `🔄 Using heuristic fallback: ${heuristic.signal} (conf: ${heuristic.confidence})`
+      );
+      logIntentUsage("imageGenerate", heuristic.confidence, "heuristic");
+      return {
+        intent: "imageGenerate",
+        confidence: heuristic.confidence,
+        method: "heuristic",
+      };
+    }
+  }
+
+  // Final fallback: default to text
+  console.log(`⚠️ No confident intent detected, defaulting to text`);
+  logIntentUsage("text", 0.5, "default");
+  return {
+    intent: "text",
+    confidence: 0.5,
+    method: "default",
+  };
+}
+
+
+// 🧠 Build conversation context for intent classification
+function buildConversationContextForIntent(
+  userId: string,
+  chatId?: string
+): string | undefined {
+  try {
+    const conversationService = getConversationService();
+
+    // Get last 2 turns for context (concise for intent classification)
+    const recentTurns = conversationService.getRecentConversations(
+      userId,
+      2
+    );
+
+    if (recentTurns.length > 0) {
+      return recentTurns
+        .reverse()
+        .map(
+          (turn: any) =>
+            `User: ${turn.userPrompt.substring(0, 100)}\nAI: ${turn.aiResponse.substring(0, 100)}`
+        )
+        .join("\n");
+    }
+  } catch (e) {
+    console.warn("⚠️ Could not fetch conversation context:", e);
+  }
+  return undefined;
+}
+
+export async function detectFinalImageIntent(
+  p: string,
+  userId: string,
+  chatId?: string,
+  route = "unknown"
+): Promise<"edit" | "vision" | "generate"> {
+  const heuristic = detectImageEditIntentHeuristic(p);
+  if (heuristic.likely && heuristic.confidence >= 0.6) {
+    console.log(
+      `🧭 Heuristic intent: edit (signal: ${heuristic.signal}, conf: ${heuristic.confidence})`
+    );
+    return "edit";
+  }
+  const mode = (process.env.INTENT_CLASSIFIER || "always").toLowerCase(); // 'off' | 'fallback' | 'always'
+  if (mode === "off") {
+    console.log("🧭 Intent classifier OFF → default to vision Q&A");
+    return "vision";
+  }
+  if (
+    mode === "always" ||
+    (mode === "fallback" &&
+      (!heuristic.likely || heuristic.confidence < 0.6))
+  ) {
+    // Get conversation context for better intent detection
+    const context = buildConversationContextForIntent(userId, chatId);
+    const cls = await classifyIntentWithModel(p, true, context, { userId, chatId, route });
+    if (cls) {
+      console.log(
+        `🧭 Model intent: ${cls.intent} (conf: ${cls.confidence}) ${context ? '[with context]' : '[no context]'}`
+      );
+      if (cls.intent === "imageEdit" && cls.confidence >= 0.5)
+        return "edit";
+      if (cls.intent === "imageGenerate" && cls.confidence >= 0.5)
+        return "generate";
+      return "vision";
+    }
+  }
+  return "vision";
+}
+
+// 🔍 New: Image GENERATION intent detection for text-only prompts
+function detectImageGenerateIntentHeuristic(p: string): {
+  likely: boolean;
+  confidence: number;
+  signal?: string;
+} {
+  if (!p) return { likely: false, confidence: 0 };
+  const terms = [
+    "generate",
+    "create",
+    "make",
+    "draw",
+    "illustrate",
+    "visualize",
+    "render",
+    "produce",
+    "design",
+    "image of",
+    "picture of",
+    "photo of",
+    "art of",
+    "logo",
+    "icon",
+    "avatar",
+    "/imagine",
+    "wallpaper",
+    "poster",
+    "banner",
+    "thumbnail",
+  ];
+  const cont = ["another", "more", "again", "one more"];
+  const lower = p.toLowerCase();
+  const { matched } = fuzzyIncludes(lower, terms, 1);
+  const continuation = cont.some((w) =>
+    new RegExp(`\\b${w}\\b`, "i").test(lower)
+  );
+  if (matched || continuation) {
+    // If phrase has descriptors like "of a", assume specific generation intent
+    const specific =
+      lower.includes(" of a ") ||
+      lower.includes(" with a ") ||
+      lower.includes(" that has ");
+    let conf = 0.6 + (specific ? 0.2 : 0);
+    if (continuation && p.length < 60) conf = Math.max(conf, 0.7);
+    return {
+      likely: true,
+      confidence: Math.min(0.95, conf),
+      signal: matched || "continuation",
+    };
+  }
+  return { likely: false, confidence: 0.2 };
+}
+
+export async function shouldGenerateImage(
+  promptText: string,
+  normalizedType: "text" | "image",
+  meter?: UsageMeter
+): Promise<boolean> {
+  // If client explicitly requested image, honor it
+  if (normalizedType === "image") return true;
+
+  const mode = (
+    process.env.AUTO_GENERATE_INTENT || "fallback"
+  ).toLowerCase(); // 'off' | 'fallback' | 'always'
+  if (mode === "off") return false;
+
+  const h = detectImageGenerateIntentHeuristic(promptText);
+  if (mode === "always") {
+    // Always run classifier for stronger signal when no explicit type
+    const cls = await classifyIntentWithModel(promptText, false, undefined, meter);
+    if (cls?.intent === "imageGenerate" && cls.confidence >= 0.55)
+      return true;
+    // Fall back to heuristic if classifier uncertain
+    return h.likely && h.confidence >= 0.7;
+  }
+
+  // Fallback mode: Use heuristic first, then model if weak
+  if (h.likely && h.confidence >= 0.7) return true;
+  const cls = await classifyIntentWithModel(promptText, false, undefined, meter);
+  return !!(
+    cls &&
+    cls.intent === "imageGenerate" &&
+    cls.confidence >= 0.6
+  );
+}
+
+
+/**
+ * Classification counters for /api/admin/intent-analytics
+ */
+export function getIntentAnalytics() {
+  const totalClassifications = cacheHits + cacheMisses;
+  const cacheHitRate =
+    totalClassifications > 0
+      ? ((cacheHits / totalClassifications) * 100).toFixed(1) + "%"
+      : "0%";
+
+  const totalIntents = Array.from(intentAnalytics.values()).reduce(
+    (a, b) => a + b,
+    0
+  );
+  const intentDistribution = Array.from(intentAnalytics.entries()).map(
+    ([intent, count]) => ({
+      intent,
+      count,
+      percentage:
+        totalIntents > 0
+          ? ((count / totalIntents) * 100).toFixed(1) + "%"
+          : "0%",
+    })
+  );
+
+  const avgClassificationTime =
+    classificationTimes.length > 0
+      ? (
+          classificationTimes.reduce((a, b) => a + b, 0) /
+          classificationTimes.length
+        ).toFixed(2) + "ms"
+      : "N/A";
+
+  return {
+    intentDistribution,
+    totalClassifications,
+    performance: {
+      avgClassificationTime,
+      cacheHitRate,
+      cacheHits,
+      cacheMisses,
+      cacheSize: intentCache.size,
+    },
+  };
+}
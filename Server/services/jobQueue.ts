@@ -1,7 +1,7 @@
 // Simple in-memory job queue with retry/backoff and basic metrics
 // Suitable for single-node usage. Swap with BullMQ/Redis for horizontal scaling.
 
-export type JobName = 'persist-chat';
+export type JobName = 'persist-chat' | 'backfill-import' | 'chat-title';
 
 export interface Job<T = any> {
   id: string;
@@ -0,0 +1,96 @@
+// jsonSchema.ts - Minimal JSON Schema subset shared by tool declarations and validation
+//
+// Supports what model function-calling APIs accept: type, properties, required,
+// items, enum, description and nullable. Anything fancier ($ref, oneOf...) is ignored.
+
+export type JSONSchemaType = "object" | "array" | "string" | "number" | "integer" | "boolean" | "null";
+
+export interface JSONSchema {
+  type?: JSONSchemaType;
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  items?: JSONSchema;
+  enum?: (string | number | boolean)[];
+  nullable?: boolean;
+  minimum?: number;
+  maximum?: number;
+}
+
+function typeOf(value: unknown): JSONSchemaType {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return typeof value as JSONSchemaType;
+}
+
+/**
+ * Validate a value against a schema. Returns human-readable errors (empty when valid).
+ */
+export function validateJsonSchema(schema: JSONSchema, value: unknown, path = "$"): string[] {
+  const errors: string[] = [];
+  if (value === null || value === undefined) {
+    if (schema.nullable || schema.type === "null") return errors;
+    if (schema.type) errors.push(`${path} is required`);
+    return errors;
+  }
+
+  const actual = typeOf(value);
+  if (schema.type) {
+    const matches =
+      actual === schema.type || (schema.type === "number" && actual === "integer");
+    if (!matches) {
+      errors.push(`${path} should be ${schema.type}, got ${actual}`);
+      return errors;
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value as any)) {
+    errors.push(`${path} should be one of ${schema.enum.map((v) => JSON.stringify(v)).join(", ")}`);
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path} should be >= ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path} should be <= ${schema.maximum}`);
+  }
+
+  if (actual === "object" && schema.properties) {
+    const obj = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (obj[key] === undefined) errors.push(`${path}.${key} is required`);
+    }
+    for (const [key, propSchema] of Object.entries(schema.properties)) {
+      if (obj[key] !== undefined) errors.push(...validateJsonSchema(propSchema, obj[key], `${path}.${key}`));
+    }
+  }
+
+  if (actual === "array" && schema.items) {
+    (value as unknown[]).forEach((item, i) => {
+      errors.push(...validateJsonSchema(schema.items!, item, `${path}[${i}]`));
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Gemini expects OpenAPI-style upper-case type names and rejects unknown keys
+ */
+export function toGeminiSchema(schema: JSONSchema): Record<string, any> {
+  const out: Record<string, any> = {};
+  if (schema.type) out.type = schema.type.toUpperCase();
+  if (schema.description) out.description = schema.description;
+  if (schema.enum) out.enum = schema.enum.map(String);
+  if (schema.nullable) out.nullable = true;
+  if (schema.minimum !== undefined) out.minimum = schema.minimum;
+  if (schema.maximum !== undefined) out.maximum = schema.maximum;
+  if (schema.items) out.items = toGeminiSchema(schema.items);
+  if (schema.properties) {
+    out.properties = {};
+    for (const [key, prop] of Object.entries(schema.properties)) {
+      out.properties[key] = toGeminiSchema(prop);
+    }
+  }
+  if (schema.required?.length) out.required = schema.required;
+  return out;
+}
@@ -140,6 +140,24 @@ class LocalImageCacheService {
     fs.writeFileSync(filePath, buffer);
     return { id, fileName, filePath, localUri: this.getPublicUri(fileName) };
   }
+
+  /**
+   * Read back one of a user's cached images by its /local-images/ URI (null once it's gone)
+   */
+  readFromUri(userId: string, uri: string): { data: Buffer; mimeType: string } | null {
+    const match = /\/local-images\/([^/?#]+)/.exec(uri);
+    if (!this.enabled || !match) return null;
+
+    // File names are `${timestamp}_${user}_${chat}_${id}.${ext}`
+    const fileName = path.basename(decodeURIComponent(match[1]));
+    const safeUser = (userId || 'user').replace(/[^a-zA-Z0-9_-]/g, '');
+    if (!new RegExp(`^\\d+_${safeUser}_`).test(fileName)) return null;
+
+    const filePath = path.join(this.baseDir, fileName);
+    if (!fs.existsSync(filePath)) return null;
+    const ext = path.extname(fileName).slice(1).toLowerCase();
+    return { data: fs.readFileSync(filePath), mimeType: ext === 'jpg' ? 'image/jpeg' : `image/${ext || 'png'}` };
+  }
 }
 
 export const localImageCacheService = new LocalImageCacheService();
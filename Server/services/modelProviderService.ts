@@ -0,0 +1,545 @@
+// modelProviderService.ts - Pluggable LLM provider layer with health tracking and fallback
+//
+// Every model call in the server goes through the registry below instead of talking
+// to Vertex / AI Studio directly. Providers declare what they can do (text, streaming,
+// vision, image output, audio input) and the registry picks one per request based on:
+//   1. Required capabilities (inferred from the request contents or declared explicitly)
+//   2. Configured fallback order (MODEL_PROVIDER_ORDER, e.g. "vertex,google")
+//   3. Optional weights for the primary pick (MODEL_PROVIDER_WEIGHTS, e.g. "vertex:3,google:1")
+//   4. Health - providers that keep failing are moved to the back for a cooldown period
+//
+// Tool declarations are only forwarded to providers with the 'tools' capability; the
+// others answer without them. Once a conversation contains tool calls, only
+// tool-capable providers are eligible.
+//
+// Model ids may be provider-qualified ("ollama:llama3", "vertex:gemini-2.5-pro"), which
+// pins the request to that provider and passes the rest of the id through as the model.
+//
+// Every call that reaches a provider is recorded in the usage ledger, billed to
+// `request.meter` (see usageLedgerService.ts).
+
+import { createDefaultProviders } from './geminiProviders';
+import { createOpenAICompatibleProviders } from './openAICompatibleProvider';
+import { countContentsTokens, countTokens, recordPromptUsage } from './tokenCounter';
+import type { JSONSchema } from './jsonSchema';
+import { getUsageLedgerService, readUsageTokens } from './usageLedgerService';
+import type { UsageMeter } from './usageLedgerService';
+
+export type ModelCapability =
+  | 'text'
+  | 'stream'
+  | 'vision'
+  | 'documentInput'
+  | 'imageOutput'
+  | 'audioInput'
+  | 'tools';
+
+export interface FunctionCall {
+  name: string;
+  args: Record<string, any>;
+}
+
+export interface ContentPart {
+  text?: string;
+  inlineData?: { data: string; mimeType: string };
+  fileData?: { fileUri: string; mimeType?: string };
+  functionCall?: FunctionCall;
+  functionResponse?: { name: string; response: Record<string, any> };
+}
+
+/**
+ * A function the model may call (see toolRegistry.ts for the handlers)
+ */
+export interface ToolDeclaration {
+  name: string;
+  description: string;
+  parameters: JSONSchema;
+}
+
+export interface Content {
+  role: 'user' | 'model';
+  parts: ContentPart[];
+}
+
+/**
+ * Request shape accepted by every provider.
+ * `contents` keeps the loose shape routes have always used: an array of strings,
+ * a single `{ parts }` object, or fully role-tagged contents.
+ */
+export interface GenerateRequest {
+  model: string;
+  contents: any[];
+  systemInstruction?: string; // Sent separately from the conversation turns
+  tools?: ToolDeclaration[]; // Functions the model may call instead of answering
+  responseSchema?: JSONSchema; // Ask for JSON matching this schema (see structuredOutputService.ts)
+  requires?: ModelCapability[]; // Extra capabilities the caller needs (e.g. imageOutput)
+  signal?: AbortSignal; // Cancels the request, e.g. when the client disconnects
+  meter?: UsageMeter; // Who the tokens are billed to
+}
+
+export interface GenResult {
+  parts: any[];
+  raw: any;
+  usage?: any;
+  provider?: string; // Name of the provider that served the request
+  model?: string; // Model id the provider was called with
+}
+
+/**
+ * Filled in by the registry while streaming so callers can report which provider answered
+ */
+export interface StreamTrace {
+  provider?: string;
+  model?: string;
+  usage?: any; // Set by providers that report token usage at the end of a stream
+  functionCalls?: FunctionCall[]; // Tool calls the model made while streaming
+}
+
+export interface ModelProvider {
+  readonly name: string;
+  readonly capabilities: ModelCapability[];
+  isAvailable(): boolean;
+  /**
+   * Map an unqualified model id (e.g. "gemini-2.5-pro") onto one this provider serves.
+   * Return null to opt out of requests for that model. Providers without this accept any id.
+   */
+  resolveModel?(model: string): string | null;
+  generateContent(request: GenerateRequest): Promise<GenResult>;
+  generateContentStream?(
+    request: GenerateRequest,
+    trace?: StreamTrace
+  ): AsyncGenerator<string, void, unknown>;
+}
+
+export interface ProviderHealth {
+  name: string;
+  available: boolean;
+  healthy: boolean;
+  weight: number;
+  capabilities: ModelCapability[];
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  avgLatencyMs: number;
+  lastSuccessAt: number | null;
+  lastFailureAt: number | null;
+  lastError: string | null;
+  cooldownUntil: number | null;
+}
+
+interface ProviderEntry {
+  provider: ModelProvider;
+  weight: number;
+  health: ProviderHealth;
+}
+
+interface Candidate {
+  provider: ModelProvider;
+  model: string; // Model id to send to this provider
+}
+
+/**
+ * Normalize the loose `contents` shapes used by routes into role-tagged Gemini contents
+ */
+export function normalizeContents(contents: any[]): Content[] {
+  if (!contents || contents.length === 0) return [];
+  if (typeof contents[0] === 'string') {
+    return [
+      {
+        role: 'user',
+        parts: contents.map((t) => ({ text: String(t) })),
+      },
+    ];
+  }
+  if (contents[0] && typeof contents[0] === 'object' && 'parts' in contents[0] && !('role' in contents[0])) {
+    return [
+      {
+        role: 'user',
+        parts: (contents[0] as any).parts,
+      },
+    ];
+  }
+  return contents as Content[];
+}
+
+/**
+ * Work out which capabilities a request needs by looking at its parts
+ */
+export function inferCapabilities(request: GenerateRequest): ModelCapability[] {
+  const required = new Set<ModelCapability>(['text']);
+  for (const content of normalizeContents(request.contents)) {
+    for (const part of content.parts || []) {
+      const mimeType = part.inlineData?.mimeType || part.fileData?.mimeType || '';
+      if (mimeType.startsWith('audio/')) {
+        required.add('audioInput');
+      } else if (mimeType.startsWith('image/')) {
+        required.add('vision');
+      } else if (part.inlineData || part.fileData) {
+        required.add('documentInput');
+      }
+      if (part.functionCall || part.functionResponse) {
+        required.add('tools');
+      }
+    }
+  }
+  for (const capability of request.requires || []) {
+    required.add(capability);
+  }
+  return Array.from(required);
+}
+
+function parseList(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+function parseWeights(value: string | undefined): Map<string, number> {
+  const weights = new Map<string, number>();
+  for (const entry of parseList(value)) {
+    const [name, raw] = entry.split(':');
+    const weight = Number(raw);
+    if (name && Number.isFinite(weight) && weight >= 0) {
+      weights.set(name.trim(), weight);
+    }
+  }
+  return weights;
+}
+
+class ModelProviderRegistry {
+  private providers: Map<string, ProviderEntry> = new Map();
+  private order: string[] = [];
+  private readonly failureThreshold = Number(process.env.MODEL_PROVIDER_FAILURE_THRESHOLD || 3);
+  private readonly cooldownMs = Number(process.env.MODEL_PROVIDER_COOLDOWN_MS || 30000);
+
+  constructor() {
+    this.order = parseList(process.env.MODEL_PROVIDER_ORDER);
+  }
+
+  /**
+   * Register a provider. Providers not named in the configured order are appended to it.
+   */
+  register(provider: ModelProvider, opts?: { weight?: number }): void {
+    const envWeight = parseWeights(process.env.MODEL_PROVIDER_WEIGHTS).get(provider.name);
+    const weight = opts?.weight ?? envWeight ?? 1;
+    this.providers.set(provider.name, {
+      provider,
+      weight,
+      health: {
+        name: provider.name,
+        available: provider.isAvailable(),
+        healthy: true,
+        weight,
+        capabilities: [...provider.capabilities],
+        successes: 0,
+        failures: 0,
+        consecutiveFailures: 0,
+        avgLatencyMs: 0,
+        lastSuccessAt: null,
+        lastFailureAt: null,
+        lastError: null,
+        cooldownUntil: null,
+      },
+    });
+    if (!this.order.includes(provider.name)) {
+      this.order.push(provider.name);
+    }
+    console.log(`🔌 Model provider registered: ${provider.name} (weight: ${weight}, capabilities: ${provider.capabilities.join(', ')})`);
+  }
+
+  unregister(name: string): void {
+    this.providers.delete(name);
+    this.order = this.order.filter((n) => n !== name);
+  }
+
+  /**
+   * Drop all providers (used by tests and when swapping the provider set at runtime)
+   */
+  clear(): void {
+    this.providers.clear();
+    this.order = parseList(process.env.MODEL_PROVIDER_ORDER);
+  }
+
+  setOrder(order: string[]): void {
+    const rest = this.order.filter((n) => !order.includes(n));
+    this.order = [...order, ...rest];
+  }
+
+  getProvider(name: string): ModelProvider | undefined {
+    return this.providers.get(name)?.provider;
+  }
+
+  hasProviders(): boolean {
+    return Array.from(this.providers.values()).some((e) => e.provider.isAvailable());
+  }
+
+  /**
+   * Split a provider-qualified model id ("ollama:llama3") into provider + model.
+   * Ids whose prefix isn't a registered provider (e.g. "llama3:8b") are left unqualified.
+   */
+  parseModelId(model: string): { provider?: string; model: string } {
+    const separator = model.indexOf(':');
+    if (separator > 0) {
+      const prefix = model.slice(0, separator);
+      if (this.providers.has(prefix)) {
+        return { provider: prefix, model: model.slice(separator + 1) };
+      }
+    }
+    return { model };
+  }
+
+  /**
+   * Ordered list of providers (and the model id each should use) to try for a request.
+   * Healthy providers come first (weighted pick for the primary), cooling-down ones last.
+   */
+  resolveCandidates(request: GenerateRequest): Candidate[] {
+    const required = inferCapabilities(request);
+    const { provider: pinned, model } = this.parseModelId(request.model);
+    const now = Date.now();
+    const eligible = this.order
+      .filter((name) => !pinned || name === pinned)
+      .map((name) => this.providers.get(name))
+      .filter((e): e is ProviderEntry => !!e)
+      .filter((e) => e.provider.isAvailable())
+      .filter((e) => required.every((c) => c === 'stream' || e.provider.capabilities.includes(c)))
+      .map((entry) => ({
+        entry,
+        // Qualified ids are passed through as-is; unqualified ones can be remapped or declined
+        model: pinned || !entry.provider.resolveModel ? model : entry.provider.resolveModel(model),
+      }))
+      .filter((c): c is { entry: ProviderEntry; model: string } => !!c.model);
+
+    const healthy = eligible.filter((c) => !c.entry.health.cooldownUntil || c.entry.health.cooldownUntil <= now);
+    const coolingDown = eligible.filter((c) => c.entry.health.cooldownUntil && c.entry.health.cooldownUntil > now);
+
+    // Weighted pick for the primary provider; the rest keep the configured order
+    const weighted = healthy.filter((c) => c.entry.weight > 0);
+    const totalWeight = weighted.reduce((sum, c) => sum + c.entry.weight, 0);
+    if (
+      weighted.length > 1 &&
+      totalWeight > 0 &&
+      weighted.some((c) => c.entry.weight !== weighted[0].entry.weight)
+    ) {
+      let roll = Math.random() * totalWeight;
+      const primary = weighted.find((c) => (roll -= c.entry.weight) < 0) || weighted[0];
+      healthy.splice(healthy.indexOf(primary), 1);
+      healthy.unshift(primary);
+    }
+
+    return [...healthy, ...coolingDown].map((c) => ({ provider: c.entry.provider, model: c.model }));
+  }
+
+  private noCandidatesError(request: GenerateRequest): Error {
+    if (this.providers.size === 0) return new Error('No AI client initialized');
+    const { provider } = this.parseModelId(request.model);
+    const required = inferCapabilities(request).join(', ');
+    return new Error(
+      provider
+        ? `Model provider "${provider}" is unavailable or doesn't support: ${required}`
+        : `No model provider supports ${request.model} with: ${required}`
+    );
+  }
+
+  private recordSuccess(name: string, latencyMs: number): void {
+    const entry = this.providers.get(name);
+    if (!entry) return;
+    const h = entry.health;
+    h.successes++;
+    h.consecutiveFailures = 0;
+    h.cooldownUntil = null;
+    h.healthy = true;
+    h.lastSuccessAt = Date.now();
+    // Exponential moving average keeps the number stable under bursts
+    h.avgLatencyMs = h.avgLatencyMs === 0 ? latencyMs : Math.round(h.avgLatencyMs * 0.8 + latencyMs * 0.2);
+  }
+
+  private recordFailure(name: string, err: any): void {
+    const entry = this.providers.get(name);
+    if (!entry) return;
+    const h = entry.health;
+    h.failures++;
+    h.consecutiveFailures++;
+    h.lastFailureAt = Date.now();
+    h.lastError = err?.message ?? String(err);
+    if (h.consecutiveFailures >= this.failureThreshold) {
+      h.healthy = false;
+      h.cooldownUntil = Date.now() + this.cooldownMs;
+      console.warn(`🩺 Provider ${name} marked unhealthy after ${h.consecutiveFailures} failures (cooldown ${this.cooldownMs}ms)`);
+    }
+  }
+
+  /**
+   * Drop tool declarations for providers that can't call functions
+   */
+  private forProvider(request: GenerateRequest, provider: ModelProvider, model: string): GenerateRequest {
+    if (request.tools && !provider.capabilities.includes('tools')) {
+      return { ...request, tools: undefined, model };
+    }
+    return { ...request, model };
+  }
+
+  /**
+   * Compare our prompt token estimate with what the provider billed, so token
+   * budgeting for this model gets more accurate over time
+   */
+  private calibrateTokenCount(request: GenerateRequest, model: string, usage: any): void {
+    if (!usage?.promptTokenCount) return;
+    try {
+      const estimated = countContentsTokens(normalizeContents(request.contents), model, request.systemInstruction);
+      recordPromptUsage(model, estimated, usage.promptTokenCount);
+    } catch (err) {
+      console.warn('⚠️ Token calibration skipped:', err);
+    }
+  }
+
+  /**
+   * Add a served call to the usage ledger, estimating tokens when the provider reported none
+   */
+  private meterUsage(request: GenerateRequest, provider: string, model: string, usage: any, outputText: string): void {
+    try {
+      const reported = readUsageTokens(usage);
+      const tokens = reported ?? {
+        promptTokens: countContentsTokens(normalizeContents(request.contents), model, request.systemInstruction),
+        outputTokens: countTokens(outputText, model),
+      };
+      getUsageLedgerService().record(request.meter, { ...tokens, model, provider, estimated: !reported });
+    } catch (err) {
+      console.warn('⚠️ Usage metering skipped:', err);
+    }
+  }
+
+  /**
+   * Generate content, falling back through providers until one succeeds
+   */
+  async generateContent(request: GenerateRequest): Promise<GenResult> {
+    const candidates = this.resolveCandidates(request);
+    if (candidates.length === 0) throw this.noCandidatesError(request);
+
+    let lastError: any;
+    for (const { provider, model } of candidates) {
+      const start = Date.now();
+      try {
+        const result = await provider.generateContent(this.forProvider(request, provider, model));
+        this.recordSuccess(provider.name, Date.now() - start);
+        this.calibrateTokenCount(request, model, result.usage);
+        this.meterUsage(request, provider.name, model, result.usage, (result.parts || []).map((p: any) => p.text ?? '').join(''));
+        return { ...result, provider: provider.name, model };
+      } catch (err: any) {
+        // A cancelled request isn't the provider's fault - and there's no one left to answer
+        if (request.signal?.aborted) throw err;
+        lastError = err;
+        this.recordFailure(provider.name, err);
+        // Suppress verbose permission errors (fallback will handle)
+        if (err?.code === 403 || err?.stackTrace?.code === 403) {
+          console.warn(`⚠️ ${provider.name} permission denied (${model}) - trying next provider`);
+        } else {
+          console.warn(`⚠️ ${provider.name} generateContent failed, trying next provider:`, err?.message ?? err);
+        }
+      }
+    }
+    throw lastError;
+  }
+
+  /**
+   * Stream content as text chunks.
+   * Falls back to the next provider only if nothing has been emitted yet; providers
+   * without native streaming are served by chunking a regular response.
+   * Ends early, without an error, once `request.signal` aborts.
+   */
+  async *generateContentStream(
+    request: GenerateRequest,
+    trace: StreamTrace = {}
+  ): AsyncGenerator<string, void, unknown> {
+    const candidates = this.resolveCandidates(request);
+    if (candidates.length === 0) throw this.noCandidatesError(request);
+
+    let lastError: any;
+    for (const { provider, model } of candidates) {
+      const start = Date.now();
+      let emitted = false;
+      let streamedText = '';
+      try {
+        trace.provider = provider.name;
+        trace.model = model;
+        trace.functionCalls = undefined;
+        trace.usage = undefined;
+        const providerRequest = this.forProvider(request, provider, model);
+        if (provider.generateContentStream && provider.capabilities.includes('stream')) {
+          for await (const chunk of provider.generateContentStream(providerRequest, trace)) {
+            if (request.signal?.aborted) break;
+            emitted = true;
+            streamedText += chunk;
+            yield chunk;
+          }
+        } else {
+          const result = await provider.generateContent(providerRequest);
+          trace.usage = result.usage;
+          const calls = (result.parts || []).filter((p: any) => p.functionCall).map((p: any) => p.functionCall);
+          if (calls.length > 0) trace.functionCalls = calls;
+          const fullText = (result.parts || []).map((p: any) => p.text ?? '').join('');
+          // Simulate streaming by yielding in chunks for consistent UX
+          const chunkSize = 50;
+          for (let i = 0; i < fullText.length && !request.signal?.aborted; i += chunkSize) {
+            emitted = true;
+            streamedText += fullText.substring(i, i + chunkSize);
+            yield fullText.substring(i, i + chunkSize);
+            await new Promise((resolve) => setTimeout(resolve, 10));
+          }
+        }
+        if (request.signal?.aborted) {
+          console.log(`🛑 ${provider.name} stream cancelled after ${Date.now() - start}ms`);
+          // Tokens generated before the cancel still cost something
+          if (emitted) this.meterUsage(request, provider.name, model, trace.usage, streamedText);
+          return;
+        }
+        this.recordSuccess(provider.name, Date.now() - start);
+        this.calibrateTokenCount(request, model, trace.usage);
+        this.meterUsage(request, provider.name, model, trace.usage, streamedText);
+        return;
+      } catch (err: any) {
+        if (request.signal?.aborted) {
+          console.log(`🛑 ${provider.name} stream cancelled after ${Date.now() - start}ms`);
+          if (emitted) this.meterUsage(request, provider.name, model, trace.usage, streamedText);
+          return;
+        }
+        lastError = err;
+        this.recordFailure(provider.name, err);
+        if (emitted) throw err; // Can't splice a second provider into a half-sent answer
+        console.warn(`⚠️ ${provider.name} streaming failed, trying next provider:`, err?.message ?? err);
+      }
+    }
+    throw lastError;
+  }
+
+  getHealth(): ProviderHealth[] {
+    const now = Date.now();
+    return this.order
+      .map((name) => this.providers.get(name))
+      .filter((e): e is ProviderEntry => !!e)
+      .map((e) => ({
+        ...e.health,
+        available: e.provider.isAvailable(),
+        healthy: !e.health.cooldownUntil || e.health.cooldownUntil <= now,
+      }));
+  }
+
+  getOrder(): string[] {
+    return [...this.order];
+  }
+}
+
+// Singleton instance - default providers are registered on first use
+let registry: ModelProviderRegistry | null = null;
+
+export function getModelProviderRegistry(): ModelProviderRegistry {
+  if (!registry) {
+    registry = new ModelProviderRegistry();
+    for (const provider of [...createDefaultProviders(), ...createOpenAICompatibleProviders()]) {
+      registry.register(provider);
+    }
+  }
+  return registry;
+}
+
+export { ModelProviderRegistry };
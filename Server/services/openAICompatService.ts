@@ -0,0 +1,240 @@
+// openAICompatService.ts - OpenAI Chat Completions shapes for /v1/chat/completions
+//
+// Lets any OpenAI SDK talk to the NubiqAI chat pipeline. `messages` map onto a chat
+// turn: the last user message is the prompt, earlier user/assistant messages are the
+// history and system/developer messages become caller instructions. NubiqAI features
+// are opt-in through the `nubiq` extension field (SDKs send it via `extra_body`):
+//   { memory?: boolean, chatId?: string, tools?: boolean }
+// Sampling parameters (temperature, max_tokens, ...) are accepted and ignored.
+
+import { randomUUID } from "crypto";
+import type { HistoryMessage } from "./contextBuilder";
+import type { ChatImageEvent } from "./chatPipeline";
+import type { UsageRecord } from "./usageLedgerService";
+import { apiRoutes } from "./apiSchemas";
+import type { ApiBody } from "./apiSchemas";
+import { describeIssues } from "./requestValidation";
+
+/**
+ * Model name that means "whatever the server is configured to use"
+ */
+export const DEFAULT_MODEL_ALIAS = "nubiq";
+
+type OpenAIChatMessage = ApiBody<"chatCompletions">["messages"][number];
+
+/**
+ * A chat completion request mapped onto the pipeline's inputs
+ */
+export interface ParsedChatCompletion {
+  model: string; // As requested - echoed back in responses
+  pipelineModel?: string; // undefined for DEFAULT_MODEL_ALIAS
+  stream: boolean;
+  includeUsage: boolean; // stream_options.include_usage
+  prompt: string;
+  imageBase64?: string;
+  instructions?: string;
+  history: HistoryMessage[];
+  memory: boolean;
+  chatId?: string;
+  tools: boolean;
+}
+
+export interface OpenAIUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+type OpenAIErrorType =
+  | "invalid_request_error"
+  | "authentication_error"
+  | "permission_error"
+  | "insufficient_quota"
+  | "rate_limit_error"
+  | "server_error";
+
+/**
+ * An error in the OpenAI response shape: { error: { message, type, param, code } }
+ */
+export class OpenAIError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly param: string | null = null,
+    readonly code: string | null = null
+  ) {
+    super(message);
+    this.name = "OpenAIError";
+  }
+
+  get type(): OpenAIErrorType {
+    if (this.status === 401) return "authentication_error";
+    if (this.status === 403) return "permission_error";
+    if (this.status === 402) return "insufficient_quota";
+    if (this.status === 429) return this.code === "quota_exceeded" ? "insufficient_quota" : "rate_limit_error";
+    if (this.status >= 500) return "server_error";
+    return "invalid_request_error";
+  }
+
+  toResponse() {
+    return { error: { message: this.message, type: this.type, param: this.param, code: this.code } };
+  }
+}
+
+const DATA_URL = /^data:(image\/[\w.+-]+);base64,(.+)$/;
+
+/**
+ * Text of a message's content; image parts are returned separately
+ */
+function readContent(message: OpenAIChatMessage, index: number): { text: string; images: string[] } {
+  if (message.content === null || message.content === undefined) return { text: "", images: [] };
+  if (typeof message.content === "string") return { text: message.content, images: [] };
+
+  const texts: string[] = [];
+  const images: string[] = [];
+  for (const part of message.content) {
+    if (part.type === "text") {
+      texts.push(part.text);
+      continue;
+    }
+    const match = DATA_URL.exec(part.image_url.url);
+    if (!match) {
+      throw new OpenAIError(
+        "Only base64 data: URLs are supported for images",
+        400,
+        `messages[${index}].content`,
+        "unsupported_image_url"
+      );
+    }
+    images.push(match[2]);
+  }
+  return { text: texts.join("\n"), images };
+}
+
+/**
+ * OpenAI-style parameter name for a schema path: messages.0.content -> messages[0].content
+ */
+function toParam(path: string): string | null {
+  return path ? path.replace(/\.(\d+)/g, "[$1]") : null;
+}
+
+/**
+ * Validate a request body (apiRoutes.chatCompletions) and map it onto a chat turn. Throws OpenAIError (400).
+ */
+export function parseChatCompletionRequest(input: unknown): ParsedChatCompletion {
+  const parsed = apiRoutes.chatCompletions.body.safeParse(input ?? {}, { reportInput: true });
+  if (!parsed.success) {
+    const [issue] = describeIssues(parsed.error);
+    throw new OpenAIError(issue.message, 400, toParam(issue.path));
+  }
+
+  const { model, messages, stream, stream_options, n, tools, functions, nubiq } = parsed.data;
+  if (n !== undefined && n !== null && n !== 1) {
+    throw new OpenAIError("Only n=1 is supported", 400, "n");
+  }
+  if ((tools && tools.length > 0) || (functions && functions.length > 0)) {
+    throw new OpenAIError(
+      "Client-defined tools are not supported; set nubiq.tools to use the server's built-in tools",
+      400,
+      "tools"
+    );
+  }
+
+  const instructions: string[] = [];
+  const history: HistoryMessage[] = [];
+  let current: { text: string; images: string[] } | null = null;
+
+  for (let index = 0; index < messages.length; index++) {
+    const role = messages[index].role;
+    if (role === "tool" || role === "function") {
+      throw new OpenAIError("Tool messages are not supported", 400, `messages[${index}].role`);
+    }
+
+    const content = readContent(messages[index], index);
+    if (index === messages.length - 1) {
+      if (role !== "user") throw new OpenAIError("The last message must be from the user", 400, "messages");
+      current = content;
+    } else if (role === "system" || role === "developer") {
+      if (content.text.trim()) instructions.push(content.text);
+    } else if (content.text.trim()) {
+      history.push({ role, content: content.text });
+    }
+  }
+
+  if (!current || !current.text.trim()) {
+    throw new OpenAIError("The last user message must contain text", 400, "messages");
+  }
+
+  return {
+    model,
+    pipelineModel: model === DEFAULT_MODEL_ALIAS ? undefined : model,
+    stream: stream === true,
+    includeUsage: stream_options?.include_usage === true,
+    prompt: current.text,
+    imageBase64: current.images[current.images.length - 1],
+    instructions: instructions.length > 0 ? instructions.join("\n\n") : undefined,
+    history,
+    memory: nubiq?.memory === true,
+    chatId: nubiq?.chatId || undefined,
+    tools: nubiq?.tools === true,
+  };
+}
+
+/**
+ * OpenAI `usage` from the answer's model calls (intent detection and other overhead isn't billed here)
+ */
+export function toOpenAIUsage(records: UsageRecord[]): OpenAIUsage {
+  const answers = records.filter((r) => r.purpose === "chat" || r.purpose === "image");
+  const prompt_tokens = answers.reduce((sum, r) => sum + r.promptTokens, 0);
+  const completion_tokens = answers.reduce((sum, r) => sum + r.outputTokens, 0);
+  return { prompt_tokens, completion_tokens, total_tokens: prompt_tokens + completion_tokens };
+}
+
+/**
+ * An image turn as assistant text: the model's words plus the picture as a markdown data URL
+ */
+export function imageToMarkdown(image: ChatImageEvent): string {
+  const parts = [image.text];
+  const src = image.imageUri ?? (image.imageBase64 ? `data:image/png;base64,${image.imageBase64}` : null);
+  if (src) parts.push(`![${image.altText ?? "Generated image"}](${src})`);
+  return parts.filter(Boolean).join("\n\n");
+}
+
+export function newCompletionId(): string {
+  return `chatcmpl-${randomUUID().replace(/-/g, "")}`;
+}
+
+/**
+ * Non-streaming response body
+ */
+export function completionResponse(id: string, created: number, model: string, content: string, usage: OpenAIUsage) {
+  return {
+    id,
+    object: "chat.completion",
+    created,
+    model,
+    choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }],
+    usage,
+  };
+}
+
+/**
+ * One `chat.completion.chunk` of a streaming response
+ */
+export function completionChunk(
+  id: string,
+  created: number,
+  model: string,
+  delta: { role?: "assistant"; content?: string },
+  finishReason: "stop" | null = null,
+  usage?: OpenAIUsage
+) {
+  return {
+    id,
+    object: "chat.completion.chunk",
+    created,
+    model,
+    choices: usage ? [] : [{ index: 0, delta, finish_reason: finishReason }],
+    ...(usage ? { usage } : {}),
+  };
+}
@@ -0,0 +1,342 @@
+// openAICompatibleProvider.ts - Model provider for OpenAI-compatible /v1/chat/completions APIs
+//
+// Works with Ollama, vLLM, OpenAI and anything else speaking the same protocol.
+// Configure one or more endpoints with:
+//   OPENAI_COMPATIBLE_PROVIDERS=ollama=http://localhost:11434/v1,vllm=http://gpu-box:8000/v1
+// and per-provider settings keyed by the upper-cased name:
+//   OLLAMA_API_KEY=...         (sent as a Bearer token, optional for local servers)
+//   OLLAMA_DEFAULT_MODEL=llama3 (lets the provider serve unqualified ids like "gemini-2.5-pro")
+//   OLLAMA_TOOLS=false         (for models that reject function calling)
+// Requests pick it via qualified ids ("ollama:llama3") or through MODEL_PROVIDER_ORDER.
+
+import type {
+  Content,
+  FunctionCall,
+  GenerateRequest,
+  GenResult,
+  ModelCapability,
+  ModelProvider,
+  StreamTrace,
+  ToolDeclaration,
+} from "./modelProviderService";
+import { normalizeContents } from "./modelProviderService";
+
+export interface OpenAICompatibleConfig {
+  name: string;
+  baseUrl: string; // Including the version prefix, e.g. http://localhost:11434/v1
+  apiKey?: string;
+  defaultModel?: string;
+  timeoutMs?: number;
+  tools?: boolean; // Function calling support (default true)
+}
+
+type ChatMessageContent =
+  | string
+  | null
+  | ({ type: "text"; text: string } | { type: "image_url"; image_url: { url: string } })[];
+
+interface ToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+interface ChatMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  content: ChatMessageContent;
+  tool_calls?: ToolCall[];
+  tool_call_id?: string;
+}
+
+/**
+ * Convert Gemini-style contents into chat messages.
+ * Text-only messages stay plain strings (older Ollama builds reject content arrays);
+ * images become data-URL image_url parts. A system instruction leads as a system message.
+ * Function calls become assistant tool_calls and function responses become tool messages,
+ * paired up by generated ids in call order.
+ */
+export function toChatMessages(contents: Content[], systemInstruction?: string): ChatMessage[] {
+  const messages: ChatMessage[] = [];
+  let pendingCallIds: { id: string; name: string }[] = [];
+  let callCounter = 0;
+
+  contents.forEach((content) => {
+    const role = content.role === "model" ? "assistant" : "user";
+    const parts = content.parts || [];
+    const calls = parts.filter((p) => p.functionCall);
+    const responses = parts.filter((p) => p.functionResponse);
+
+    if (role === "assistant" && calls.length > 0) {
+      const text = parts.map((p) => p.text ?? "").join("");
+      const toolCalls: ToolCall[] = calls.map((p) => {
+        const id = `call_${callCounter++}`;
+        pendingCallIds.push({ id, name: p.functionCall!.name });
+        return {
+          id,
+          type: "function",
+          function: { name: p.functionCall!.name, arguments: JSON.stringify(p.functionCall!.args ?? {}) },
+        };
+      });
+      messages.push({ role: "assistant", content: text || null, tool_calls: toolCalls });
+      return;
+    }
+
+    if (responses.length > 0) {
+      for (const p of responses) {
+        const index = pendingCallIds.findIndex((c) => c.name === p.functionResponse!.name);
+        const match = index >= 0 ? pendingCallIds.splice(index, 1)[0] : { id: `call_${callCounter++}` };
+        messages.push({
+          role: "tool",
+          tool_call_id: match.id,
+          content: JSON.stringify(p.functionResponse!.response),
+        });
+      }
+      const remaining = parts.filter((p) => !p.functionResponse);
+      if (remaining.length === 0) return;
+      messages.push(toChatMessage(role, remaining));
+      return;
+    }
+
+    pendingCallIds = [];
+    messages.push(toChatMessage(role, parts));
+  });
+
+  return systemInstruction ? [{ role: "system", content: systemInstruction }, ...messages] : messages;
+}
+
+function toChatMessage(role: "user" | "assistant", parts: Content["parts"]): ChatMessage {
+  const hasImage = parts.some((p) => p.inlineData);
+  if (!hasImage) {
+    return { role, content: parts.map((p) => p.text ?? "").join("\n") };
+  }
+  return {
+    role,
+    content: parts
+      .map((p) => {
+        if (p.inlineData) {
+          return {
+            type: "image_url" as const,
+            image_url: { url: `data:${p.inlineData.mimeType};base64,${p.inlineData.data}` },
+          };
+        }
+        return { type: "text" as const, text: p.text ?? "" };
+      })
+      .filter((p) => p.type === "image_url" || p.text),
+  };
+}
+
+function toOpenAITools(tools?: ToolDeclaration[]): any[] | undefined {
+  if (!tools || tools.length === 0) return undefined;
+  return tools.map((tool) => ({
+    type: "function",
+    function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+  }));
+}
+
+function parseToolArguments(raw: string | undefined): Record<string, any> {
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw);
+  } catch {
+    console.warn(`⚠️ Could not parse tool call arguments: ${raw.substring(0, 100)}`);
+    return {};
+  }
+}
+
+/**
+ * Map OpenAI usage onto the Gemini usageMetadata shape the routes already read
+ */
+export function toUsageMetadata(usage: any): GenResult["usage"] {
+  if (!usage) return undefined;
+  const promptTokenCount = usage.prompt_tokens ?? 0;
+  const candidatesTokenCount = usage.completion_tokens ?? 0;
+  return {
+    promptTokenCount,
+    candidatesTokenCount,
+    totalTokenCount: usage.total_tokens ?? promptTokenCount + candidatesTokenCount,
+  };
+}
+
+class OpenAICompatibleProvider implements ModelProvider {
+  readonly name: string;
+  readonly capabilities: ModelCapability[];
+  private readonly baseUrl: string;
+  private readonly apiKey?: string;
+  private readonly defaultModel?: string;
+  private readonly timeoutMs: number;
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.name = config.name;
+    this.baseUrl = config.baseUrl.replace(/\/+$/, "");
+    this.apiKey = config.apiKey;
+    this.defaultModel = config.defaultModel;
+    this.timeoutMs = config.timeoutMs ?? 120000;
+    this.capabilities = config.tools === false ? ["text", "stream", "vision"] : ["text", "stream", "vision", "tools"];
+    console.log(
+      `OpenAI-compatible provider "${this.name}" configured at ${this.baseUrl}${this.defaultModel ? ` (default model: ${this.defaultModel})` : ""}`
+    );
+  }
+
+  isAvailable(): boolean {
+    return !!this.baseUrl;
+  }
+
+  /**
+   * Only serve unqualified (Gemini) model ids when a default model is configured
+   */
+  resolveModel(_model: string): string | null {
+    return this.defaultModel ?? null;
+  }
+
+  async generateContent({ model, contents, systemInstruction, tools, responseSchema, signal }: GenerateRequest): Promise<GenResult> {
+    const resp = await this.post(
+      {
+        model,
+        messages: toChatMessages(normalizeContents(contents), systemInstruction),
+        tools: toOpenAITools(tools),
+        response_format: responseSchema
+          ? { type: "json_schema", json_schema: { name: "response", schema: responseSchema } }
+          : undefined,
+        stream: false,
+      },
+      signal
+    );
+    const data: any = await resp.json();
+    const message = data?.choices?.[0]?.message;
+    const text: string = message?.content ?? "";
+    const parts: any[] = text ? [{ text }] : [];
+    for (const call of message?.tool_calls ?? []) {
+      parts.push({ functionCall: { name: call.function?.name, args: parseToolArguments(call.function?.arguments) } });
+    }
+    return {
+      parts,
+      raw: data,
+      usage: toUsageMetadata(data?.usage),
+    };
+  }
+
+  async *generateContentStream(
+    { model, contents, systemInstruction, tools, signal }: GenerateRequest,
+    trace?: StreamTrace
+  ): AsyncGenerator<string, void, unknown> {
+    const resp = await this.post(
+      {
+        model,
+        messages: toChatMessages(normalizeContents(contents), systemInstruction),
+        tools: toOpenAITools(tools),
+        stream: true,
+        stream_options: { include_usage: true },
+      },
+      signal
+    );
+    if (!resp.body) throw new Error(`${this.name}: empty streaming response`);
+
+    const decoder = new TextDecoder();
+    let buffer = "";
+    // Tool call deltas arrive in fragments keyed by index
+    const toolCalls: { name: string; arguments: string }[] = [];
+    const flushToolCalls = () => {
+      if (trace && toolCalls.length > 0) {
+        trace.functionCalls = toolCalls.map(
+          (c): FunctionCall => ({ name: c.name, args: parseToolArguments(c.arguments) })
+        );
+      }
+    };
+
+    for await (const bytes of resp.body as any as AsyncIterable<Uint8Array>) {
+      buffer += decoder.decode(bytes, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith("data:")) continue;
+        const payload = trimmed.slice(5).trim();
+        if (payload === "[DONE]") {
+          flushToolCalls();
+          return;
+        }
+
+        let event: any;
+        try {
+          event = JSON.parse(payload);
+        } catch {
+          console.warn(`⚠️ ${this.name}: skipping malformed stream event`);
+          continue;
+        }
+        if (event.error) {
+          throw new Error(`${this.name}: ${event.error.message ?? event.error}`);
+        }
+        if (trace && event.usage) {
+          trace.usage = toUsageMetadata(event.usage);
+        }
+        for (const fragment of event.choices?.[0]?.delta?.tool_calls ?? []) {
+          const index = fragment.index ?? 0;
+          const call = (toolCalls[index] = toolCalls[index] || { name: "", arguments: "" });
+          if (fragment.function?.name) call.name += fragment.function.name;
+          if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+        }
+        const delta = event.choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    }
+    flushToolCalls();
+  }
+
+  private async post(body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.apiKey) headers.Authorization = `Bearer ${this.apiKey}`;
+
+    const resp = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(body),
+      // Cancelling the request closes the upstream connection, which stops generation
+      signal: signal ? AbortSignal.any([signal, AbortSignal.timeout(this.timeoutMs)]) : AbortSignal.timeout(this.timeoutMs),
+    });
+    if (!resp.ok) {
+      const detail = await resp.text().catch(() => "");
+      const err: any = new Error(
+        `${this.name} request failed (${resp.status}): ${detail.substring(0, 300)}`
+      );
+      err.code = resp.status;
+      throw err;
+    }
+    return resp;
+  }
+}
+
+/**
+ * Build providers from OPENAI_COMPATIBLE_PROVIDERS (comma-separated name=baseUrl pairs)
+ */
+export function createOpenAICompatibleProviders(): ModelProvider[] {
+  const providers: ModelProvider[] = [];
+  const entries = (process.env.OPENAI_COMPATIBLE_PROVIDERS || "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+  for (const entry of entries) {
+    const separator = entry.indexOf("=");
+    const name = separator > 0 ? entry.slice(0, separator).trim() : "";
+    const baseUrl = separator > 0 ? entry.slice(separator + 1).trim() : "";
+    if (!name || !baseUrl) {
+      console.warn(`⚠️ Ignoring malformed OPENAI_COMPATIBLE_PROVIDERS entry: "${entry}"`);
+      continue;
+    }
+    const prefix = name.toUpperCase().replace(/[^A-Z0-9]/g, "_");
+    providers.push(
+      new OpenAICompatibleProvider({
+        name,
+        baseUrl,
+        apiKey: process.env[`${prefix}_API_KEY`] || undefined,
+        defaultModel: process.env[`${prefix}_DEFAULT_MODEL`] || undefined,
+        timeoutMs: Number(process.env[`${prefix}_TIMEOUT_MS`]) || undefined,
+        tools: process.env[`${prefix}_TOOLS`] !== "false",
+      })
+    );
+  }
+  return providers;
+}
+
+export { OpenAICompatibleProvider };
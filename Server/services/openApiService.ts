@@ -0,0 +1,109 @@
+// openApiService.ts - OpenAPI 3.1 document generated from the route schemas
+//
+// Served at GET /api/openapi.json. Every route in apiRoutes becomes an operation;
+// request and response bodies are the zod schemas converted to JSON Schema, so the
+// document can't drift from what validateRequest() enforces.
+
+import { z } from "zod";
+import { apiErrorSchema, apiRoutes } from "./apiSchemas";
+import type { RouteSpec } from "./apiSchemas";
+
+type JsonSchema = Record<string, any>;
+
+/**
+ * JSON Schema of what a client sends (io: "input") or receives
+ */
+function toSchema(schema: z.ZodType, io: "input" | "output"): JsonSchema {
+  const { $schema: _dialect, ...json } = z.toJSONSchema(schema, { io, unrepresentable: "any" }) as JsonSchema;
+  return json;
+}
+
+/**
+ * Path and query parameters of an object schema
+ */
+function toParameters(schema: z.ZodType | undefined, location: "path" | "query"): JsonSchema[] {
+  if (!schema) return [];
+  const json = toSchema(schema, "input");
+  const required: string[] = json.required ?? [];
+  return Object.entries<JsonSchema>(json.properties ?? {}).map(([name, property]) => {
+    const { description, ...propertySchema } = property;
+    return {
+      name,
+      in: location,
+      required: location === "path" || required.includes(name),
+      ...(description ? { description } : {}),
+      schema: propertySchema,
+    };
+  });
+}
+
+function toRequestBody(route: RouteSpec): JsonSchema | undefined {
+  if (!route.body) return undefined;
+  const json = toSchema(route.body, "input");
+  const content: JsonSchema = { "application/json": { schema: json } };
+  if (route.files) {
+    const properties = { ...json.properties };
+    for (const file of route.files) properties[file] = { type: "string", format: "binary" };
+    content["multipart/form-data"] = { schema: { ...json, properties } };
+  }
+  return { required: true, content };
+}
+
+function toResponses(route: RouteSpec): JsonSchema {
+  const error = { description: "Error", content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } } };
+  const file = { schema: { type: "string", format: "binary" } };
+  const success = route.stream
+    ? { description: "Server-sent events", content: { "text/event-stream": { schema: { type: "string" } } } }
+    : route.download
+      ? { description: "File", content: Object.fromEntries(route.download.map((type) => [type, file])) }
+      : { description: "OK", content: { "application/json": { schema: route.response ? toSchema(route.response, "output") : {} } } };
+  return {
+    200: success,
+    ...(route.body || route.query || route.params ? { 400: { ...error, description: "Invalid request" } } : {}),
+    ...(route.public ? {} : { 401: { ...error, description: "Missing or invalid credentials" } }),
+  };
+}
+
+let document: JsonSchema | null = null;
+
+/**
+ * The OpenAPI document (built once)
+ */
+export function getOpenApiDocument(): JsonSchema {
+  if (document) return document;
+
+  const paths: JsonSchema = {};
+  for (const [operationId, route] of Object.entries<RouteSpec>(apiRoutes)) {
+    const path = route.path.replace(/:(\w+)/g, "{$1}");
+    paths[path] ??= {};
+    paths[path][route.method] = {
+      operationId,
+      summary: route.summary,
+      tags: [route.tag],
+      ...(route.public ? { security: [] } : {}),
+      parameters: [...toParameters(route.params, "path"), ...toParameters(route.query, "query")],
+      ...(route.body ? { requestBody: toRequestBody(route) } : {}),
+      responses: toResponses(route),
+    };
+  }
+
+  document = {
+    openapi: "3.1.0",
+    info: {
+      title: "NubiqAI API",
+      version: process.env.npm_package_version || "1.0.0",
+      description: "Send a Firebase ID token or a personal API key as `Authorization: Bearer <token>`.",
+    },
+    servers: [{ url: "/" }],
+    security: [{ bearerAuth: [] }, { apiKey: [] }],
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer", description: "Firebase ID token or personal API key (nbq_...)" },
+        apiKey: { type: "apiKey", in: "header", name: "X-API-Key" },
+      },
+      schemas: { Error: toSchema(apiErrorSchema, "output") },
+    },
+    paths,
+  };
+  return document;
+}
@@ -0,0 +1,65 @@
+// requestValidation.ts - Check requests against the route schemas in apiSchemas.ts
+//
+// validateRequest(apiRoutes.x) replaces req.body / req.query with the parsed values
+// (form fields converted, defaults applied), so handlers read typed input. Invalid
+// requests get one 400 shape on every route:
+//   { success: false, error: "<first problem>", code: "invalid_request", issues: [{ path, message }] }
+
+import type { Request, Response, NextFunction } from "express";
+import type { z } from "zod";
+import type { RouteSpec } from "./apiSchemas";
+import { logSecurityEvent } from "./securityMiddleware";
+
+export interface RequestIssue {
+  path: string; // e.g. "memories.0.content"; "" for the request as a whole
+  message: string;
+}
+
+/**
+ * Readable issues of a failed parse
+ */
+export function describeIssues(error: z.ZodError): RequestIssue[] {
+  return error.issues.map((issue) => {
+    const path = issue.path.map(String).join(".");
+    // Custom checks (SecurityValidator, refinements) already name the field
+    if (!path || issue.code === "custom") return { path, message: issue.message };
+    if (issue.code === "invalid_type" && issue.input === undefined) return { path, message: `${path} is required` };
+    return { path, message: `${path} ${issue.message.charAt(0).toLowerCase()}${issue.message.slice(1)}` };
+  });
+}
+
+/**
+ * Middleware: validate body, query and path parameters of a route. Multipart routes
+ * must run it after multer (and bindAuthenticatedUser).
+ */
+export function validateRequest(route: RouteSpec) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const issues: RequestIssue[] = [];
+
+    if (route.params) {
+      const params = route.params.safeParse(req.params, { reportInput: true });
+      if (!params.success) issues.push(...describeIssues(params.error));
+    }
+
+    if (route.query) {
+      const query = route.query.safeParse(req.query ?? {}, { reportInput: true });
+      if (query.success) {
+        // Express 5 computes req.query on every access
+        Object.defineProperty(req, "query", { value: query.data, writable: true, configurable: true });
+      } else {
+        issues.push(...describeIssues(query.error));
+      }
+    }
+
+    if (route.body) {
+      const body = route.body.safeParse(req.body ?? {}, { reportInput: true });
+      if (body.success) req.body = body.data;
+      else issues.push(...describeIssues(body.error));
+    }
+
+    if (issues.length === 0) return next();
+
+    logSecurityEvent("Invalid request blocked", { path: req.originalUrl, uid: req.auth?.uid, issues });
+    return res.status(400).json({ success: false, error: issues[0].message, code: "invalid_request", issues });
+  };
+}
@@ -5,7 +5,8 @@ import { Request, Response, NextFunction } from 'express';
 /**
  * Security Configuration
  * NOTE: Rate limits for images and chats will be controlled by admin accounts in the future
- * These are temporary defaults and can be overridden or disabled
+ * These are temporary defaults and can be overridden or disabled.
+ * Per-user daily quotas by subscription tier are enforced by entitlementService.
  */
 export const SECURITY_CONFIG = {
   // Rate limiting (temporary - will be admin-controlled)
@@ -279,7 +280,7 @@ export function validateUserIdMiddleware(req: Request, res: Response, next: Next
 /**
  * Middleware: Sanitize request body
  */
-export function sanitizeBodyMiddleware(req: Request, res: Response, next: NextFunction) {
+export function sanitizeBodyMiddleware(req: Request, _res: Response, next: NextFunction) {
   if (req.body && typeof req.body === 'object') {
     // Sanitize string fields
     for (const key in req.body) {
@@ -295,7 +296,7 @@ export function sanitizeBodyMiddleware(req: Request, res: Response, next: NextFu
 /**
  * Security Headers Middleware
  */
-export function securityHeadersMiddleware(req: Request, res: Response, next: NextFunction) {
+export function securityHeadersMiddleware(_req: Request, res: Response, next: NextFunction) {
   // Prevent clickjacking
   res.setHeader('X-Frame-Options', 'DENY');
   
@@ -0,0 +1,186 @@
+// streamSessionService.ts - Buffers SSE events per stream so dropped clients can resume
+//
+// Every /api/ask-ai-stream response is a stream session. Frames are appended here
+// with a sequential id ("<streamId>:<seq>", sent as the SSE `id:` field) and fanned
+// out to whichever connection is attached. A client that drops reconnects with
+// Last-Event-ID and gets everything it missed, then the live tail.
+//
+// Resumable sessions keep generating for a grace window after the last client
+// detaches; other sessions are cancelled as soon as the client goes away.
+
+import { randomUUID } from "crypto";
+
+export interface StreamEvent {
+  id: string; // "<streamId>:<seq>"
+  seq: number;
+  data: Record<string, any>;
+}
+
+export interface StreamSubscriber {
+  onEvent: (event: StreamEvent) => void;
+  onEnd: () => void;
+}
+
+interface StreamSession {
+  id: string;
+  userId: string;
+  resumable: boolean;
+  abortController: AbortController;
+  events: StreamEvent[];
+  nextSeq: number;
+  done: boolean;
+  subscribers: Set<StreamSubscriber>;
+  graceTimer?: NodeJS.Timeout;
+  expiryTimer?: NodeJS.Timeout;
+}
+
+export type ResumeResult =
+  | { ok: true; missed: StreamEvent[]; done: boolean; unsubscribe: () => void }
+  | { ok: false; reason: "not_found" | "gap" };
+
+const RESUME_GRACE_MS = Number(process.env.STREAM_RESUME_GRACE_MS || 15000);
+const BUFFER_TTL_MS = Number(process.env.STREAM_BUFFER_TTL_MS || 60000);
+const MAX_BUFFERED_EVENTS = Number(process.env.STREAM_BUFFER_MAX_EVENTS || 5000);
+
+/**
+ * Split a Last-Event-ID value into its stream id and sequence number
+ */
+export function parseEventId(value: string | undefined | null): { streamId: string; seq: number } | null {
+  if (!value) return null;
+  const separator = value.lastIndexOf(":");
+  if (separator <= 0) return null;
+  const seq = Number(value.slice(separator + 1));
+  if (!Number.isInteger(seq) || seq < 0) return null;
+  return { streamId: value.slice(0, separator), seq };
+}
+
+/**
+ * Serialize an event as an SSE frame
+ */
+export function formatSSE(event: StreamEvent): string {
+  return `id: ${event.id}\ndata: ${JSON.stringify(event.data)}\n\n`;
+}
+
+class StreamSessionService {
+  private sessions: Map<string, StreamSession> = new Map();
+
+  /**
+   * Start a session. The abort controller is triggered when a non-resumable
+   * client leaves, or when a resumable one stays away past the grace window.
+   */
+  create(options: { userId: string; resumable: boolean; abortController: AbortController }): string {
+    const id = randomUUID();
+    this.sessions.set(id, {
+      id,
+      userId: options.userId,
+      resumable: options.resumable,
+      abortController: options.abortController,
+      events: [],
+      nextSeq: 1,
+      done: false,
+      subscribers: new Set(),
+    });
+    return id;
+  }
+
+  /**
+   * Record a frame and deliver it to attached clients
+   */
+  append(streamId: string, data: Record<string, any>): StreamEvent | null {
+    const session = this.sessions.get(streamId);
+    if (!session || session.done) return null;
+
+    const seq = session.nextSeq++;
+    const event: StreamEvent = { id: `${streamId}:${seq}`, seq, data };
+    session.events.push(event);
+    if (session.events.length > MAX_BUFFERED_EVENTS) session.events.shift();
+
+    for (const subscriber of session.subscribers) subscriber.onEvent(event);
+    return event;
+  }
+
+  /**
+   * Mark the stream finished. Attached clients are ended; the buffer is kept
+   * for STREAM_BUFFER_TTL_MS so a client that dropped right at the end can catch up.
+   */
+  complete(streamId: string): void {
+    const session = this.sessions.get(streamId);
+    if (!session || session.done) return;
+    session.done = true;
+    if (session.graceTimer) clearTimeout(session.graceTimer);
+
+    for (const subscriber of session.subscribers) subscriber.onEnd();
+    session.subscribers.clear();
+
+    session.expiryTimer = setTimeout(() => this.sessions.delete(streamId), BUFFER_TTL_MS);
+    session.expiryTimer.unref();
+  }
+
+  /**
+   * Attach a client that has seen everything up to `afterSeq` (0 for a fresh client)
+   */
+  subscribe(streamId: string, afterSeq: number, subscriber: StreamSubscriber): ResumeResult {
+    const session = this.sessions.get(streamId);
+    if (!session) return { ok: false, reason: "not_found" };
+
+    // Events the client missed have already been trimmed from the buffer
+    const oldest = session.events[0]?.seq ?? session.nextSeq;
+    if (afterSeq + 1 < oldest) return { ok: false, reason: "gap" };
+
+    const missed = session.events.filter((e) => e.seq > afterSeq);
+    if (session.done) return { ok: true, missed, done: true, unsubscribe: () => {} };
+
+    if (session.graceTimer) {
+      clearTimeout(session.graceTimer);
+      session.graceTimer = undefined;
+      console.log(`🔁 Client resumed stream ${streamId} after event ${afterSeq}`);
+    }
+    session.subscribers.add(subscriber);
+    return { ok: true, missed, done: false, unsubscribe: () => this.unsubscribe(session, subscriber) };
+  }
+
+  /**
+   * Whether a stream exists and belongs to `userId`
+   */
+  isOwner(streamId: string, userId: string): boolean {
+    return this.sessions.get(streamId)?.userId === userId;
+  }
+
+  /**
+   * Cancel generation now (the user pressed stop)
+   */
+  cancel(streamId: string): boolean {
+    const session = this.sessions.get(streamId);
+    if (!session) return false;
+    if (!session.done) session.abortController.abort();
+    return true;
+  }
+
+  private unsubscribe(session: StreamSession, subscriber: StreamSubscriber): void {
+    if (!session.subscribers.delete(subscriber)) return;
+    if (session.done || session.subscribers.size > 0) return;
+
+    if (!session.resumable) {
+      session.abortController.abort();
+      return;
+    }
+    // Keep generating for a while - the client is probably reconnecting
+    session.graceTimer = setTimeout(() => {
+      console.log(`🛑 ${session.userId} did not resume stream ${session.id} within ${RESUME_GRACE_MS}ms - cancelling`);
+      session.abortController.abort();
+    }, RESUME_GRACE_MS);
+    session.graceTimer.unref();
+  }
+}
+
+// Singleton instance
+let streamSessionService: StreamSessionService | null = null;
+
+export function getStreamSessionService(): StreamSessionService {
+  if (!streamSessionService) {
+    streamSessionService = new StreamSessionService();
+  }
+  return streamSessionService;
+}
+
+export { StreamSessionService };
@@ -0,0 +1,183 @@
+// structuredOutputService.ts - Schema-constrained JSON generation with validation and repair
+//
+// Callers pass a JSON Schema instead of regexing JSON out of model text. The request
+// asks the provider for schema-constrained output (Gemini responseSchema, OpenAI
+// response_format), then the reply is parsed, repaired if it is almost-JSON, and
+// validated. Invalid replies are sent back to the model with the errors for another try.
+
+import { getModelProviderRegistry, normalizeContents } from "./modelProviderService";
+import type { Content, GenResult } from "./modelProviderService";
+import { validateJsonSchema } from "./jsonSchema";
+import type { JSONSchema } from "./jsonSchema";
+import type { UsageMeter } from "./usageLedgerService";
+
+export interface StructuredRequest {
+  model: string;
+  schema: JSONSchema;
+  prompt?: string;
+  contents?: any[]; // Alternative to `prompt` for multi-turn or multimodal input
+  systemInstruction?: string;
+  maxAttempts?: number; // Model calls in total, including the first (default 3)
+  meter?: UsageMeter; // Who the tokens are billed to
+}
+
+export interface StructuredResult<T> {
+  ok: boolean;
+  data: T | null; // Parsed value; present but unvalidated when ok is false and parsing worked
+  errors: string[]; // Parse or validation errors from the last attempt
+  attempts: number;
+  repaired: boolean; // The JSON needed fixing up before it parsed
+  raw: string; // Model text from the last attempt
+  provider?: string;
+  model?: string;
+  usage?: any; // Summed across attempts
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+/**
+ * Strip code fences and surrounding prose, returning the first balanced JSON value
+ */
+function extractJson(text: string): string {
+  const unfenced = text.replace(/```(?:json)?\s*([\s\S]*?)```/i, "$1").trim();
+  const start = unfenced.search(/[{[]/);
+  if (start < 0) return unfenced;
+
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < unfenced.length; i++) {
+    const ch = unfenced[i];
+    if (inString) {
+      if (ch === "\\") i++;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === "{" || ch === "[") depth++;
+    else if (ch === "}" || ch === "]") {
+      depth--;
+      if (depth === 0) return unfenced.slice(start, i + 1);
+    }
+  }
+  // Unbalanced - probably truncated; let repair try to close it
+  return unfenced.slice(start);
+}
+
+/**
+ * Fix the usual near-misses: smart quotes, trailing commas, unclosed brackets
+ */
+function repairJson(text: string): string {
+  let fixed = text
+    .replace(/[“”]/g, '"')
+    .replace(/[‘’]/g, "'")
+    .replace(/,\s*([}\]])/g, "$1");
+
+  // Close whatever the model left open (outside strings)
+  const stack: string[] = [];
+  let inString = false;
+  for (let i = 0; i < fixed.length; i++) {
+    const ch = fixed[i];
+    if (inString) {
+      if (ch === "\\") i++;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === "{") stack.push("}");
+    else if (ch === "[") stack.push("]");
+    else if (ch === "}" || ch === "]") stack.pop();
+  }
+  if (inString) fixed += '"';
+  fixed = fixed.replace(/,\s*$/, "");
+  return fixed + stack.reverse().join("");
+}
+
+/**
+ * Parse model text as JSON, repairing it if needed
+ */
+export function parseJsonLoose(text: string): { value: unknown; repaired: boolean } | null {
+  const candidate = extractJson(text || "");
+  try {
+    return { value: JSON.parse(candidate), repaired: candidate !== (text || "").trim() };
+  } catch {
+    // fall through to repair
+  }
+  try {
+    return { value: JSON.parse(repairJson(candidate)), repaired: true };
+  } catch {
+    return null;
+  }
+}
+
+function schemaInstruction(schema: JSONSchema): string {
+  return `Respond with a single JSON value that matches this JSON Schema. Output only the JSON - no prose, no code fences.
+
+JSON Schema:
+${JSON.stringify(schema, null, 2)}`;
+}
+
+/**
+ * Generate JSON matching `schema`, retrying with the validation errors when the model misses
+ */
+export async function generateStructured<T = any>(request: StructuredRequest): Promise<StructuredResult<T>> {
+  const registry = getModelProviderRegistry();
+  const maxAttempts = Math.max(1, request.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+  const contents: Content[] = request.contents
+    ? [...normalizeContents(request.contents)]
+    : [{ role: "user", parts: [{ text: request.prompt || "" }] }];
+  const systemInstruction = [request.systemInstruction, schemaInstruction(request.schema)]
+    .filter(Boolean)
+    .join("\n\n");
+
+  let result: StructuredResult<T> = { ok: false, data: null, errors: [], attempts: 0, repaired: false, raw: "" };
+  let usage: any;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const resp: GenResult = await registry.generateContent({
+      model: request.model,
+      contents,
+      systemInstruction,
+      responseSchema: request.schema,
+      meter: request.meter,
+    });
+    if (resp.usage) {
+      usage = usage
+        ? {
+            promptTokenCount: (usage.promptTokenCount || 0) + (resp.usage.promptTokenCount || 0),
+            candidatesTokenCount: (usage.candidatesTokenCount || 0) + (resp.usage.candidatesTokenCount || 0),
+            totalTokenCount: (usage.totalTokenCount || 0) + (resp.usage.totalTokenCount || 0),
+          }
+        : { ...resp.usage };
+    }
+
+    const raw = (resp.parts || []).map((p: any) => p.text ?? "").join("").trim();
+    const parsed = parseJsonLoose(raw);
+    const errors = parsed ? validateJsonSchema(request.schema, parsed.value) : ["Response is not valid JSON"];
+
+    result = {
+      ok: errors.length === 0,
+      data: parsed ? (parsed.value as T) : null,
+      errors,
+      attempts: attempt,
+      repaired: !!parsed?.repaired,
+      raw,
+      provider: resp.provider,
+      model: resp.model,
+      usage,
+    };
+    if (result.ok) return result;
+
+    console.warn(`⚠️ Structured output attempt ${attempt}/${maxAttempts} invalid: ${errors.join("; ")}`);
+    contents.push({ role: "model", parts: [{ text: raw || "(empty response)" }] });
+    contents.push({
+      role: "user",
+      parts: [
+        {
+          text: `That response was invalid:\n- ${errors.join("\n- ")}\n\nReply again with only the corrected JSON.`,
+        },
+      ],
+    });
+  }
+
+  return result;
+}
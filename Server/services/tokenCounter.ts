@@ -0,0 +1,141 @@
+// tokenCounter.ts - Per-model token counting for prompt budgeting
+//
+// Gemini's tokenizer isn't available offline, so counts come from a segment-based
+// estimate tuned per model family (how words, digits, CJK text and images tokenize),
+// then corrected per model using the promptTokenCount providers report back on every
+// call. After a few requests the estimate tracks the real tokenizer closely.
+
+import type { Content } from "./modelProviderService";
+
+export type ModelFamily = "gemini" | "gpt" | "llama" | "mistral" | "default";
+
+interface FamilyProfile {
+  charsPerToken: number; // Average characters per token for ordinary words
+  digitsPerToken: number; // Gemini and Llama split numbers into single digits, GPT into 3s
+  imageTokens: number; // Flat cost of one inline image
+  contextWindow: number; // Maximum input tokens
+}
+
+const FAMILY_PROFILES: Record<ModelFamily, FamilyProfile> = {
+  gemini: { charsPerToken: 4.2, digitsPerToken: 1, imageTokens: 258, contextWindow: 1_048_576 },
+  gpt: { charsPerToken: 4.0, digitsPerToken: 3, imageTokens: 765, contextWindow: 128_000 },
+  llama: { charsPerToken: 3.8, digitsPerToken: 1, imageTokens: 576, contextWindow: 8_192 },
+  mistral: { charsPerToken: 3.5, digitsPerToken: 1, imageTokens: 576, contextWindow: 32_768 },
+  default: { charsPerToken: 3.7, digitsPerToken: 2, imageTokens: 512, contextWindow: 32_768 },
+};
+
+// Role markers and turn separators the APIs add around every message
+const TOKENS_PER_TURN = 4;
+
+// Learned estimate -> actual ratio per model id
+const calibration = new Map<string, number>();
+const CALIBRATION_ALPHA = 0.2;
+const MIN_SAMPLE_TOKENS = 20;
+
+export function getModelFamily(model: string): ModelFamily {
+  const id = (model || "").toLowerCase();
+  if (id.includes("gemini") || id.includes("gemma")) return "gemini";
+  if (/(^|[:/])(gpt|o\d|chatgpt)/.test(id)) return "gpt";
+  if (id.includes("llama")) return "llama";
+  if (id.includes("mistral") || id.includes("mixtral")) return "mistral";
+  return "default";
+}
+
+export function getContextWindow(model: string): number {
+  return FAMILY_PROFILES[getModelFamily(model)].contextWindow;
+}
+
+/**
+ * Uncalibrated estimate: words by length, digits by family, CJK per character,
+ * punctuation and symbols one token each, newline runs one token.
+ */
+function estimateRawTokens(text: string, profile: FamilyProfile): number {
+  if (!text) return 0;
+  const segments =
+    text.match(/[぀-ヿ㐀-鿿가-힯]|[A-Za-zÀ-ɏ]+|\d+|\s+|[^\sA-Za-z\d]/g) || [];
+
+  let tokens = 0;
+  for (const segment of segments) {
+    if (/^\s+$/.test(segment)) {
+      // Single spaces merge into the following word
+      if (segment.includes("\n") || segment.length > 1) tokens += 1;
+    } else if (/^\d+$/.test(segment)) {
+      tokens += Math.ceil(segment.length / profile.digitsPerToken);
+    } else if (/^[A-Za-zÀ-ɏ]+$/.test(segment)) {
+      // Common short words are a single token; long ones split into sub-words
+      tokens += segment.length <= 6 ? 1 : Math.ceil(segment.length / profile.charsPerToken);
+    } else {
+      // CJK characters, punctuation and symbols
+      tokens += 1;
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Count tokens in text for a given model
+ */
+export function countTokens(text: string, model: string): number {
+  const raw = estimateRawTokens(text, FAMILY_PROFILES[getModelFamily(model)]);
+  return Math.round(raw * (calibration.get(model) ?? 1));
+}
+
+/**
+ * Count a full request: system instruction, every turn and any inline images
+ */
+export function countContentsTokens(
+  contents: Content[],
+  model: string,
+  systemInstruction?: string
+): number {
+  const profile = FAMILY_PROFILES[getModelFamily(model)];
+  let tokens = systemInstruction ? countTokens(systemInstruction, model) + TOKENS_PER_TURN : 0;
+  for (const content of contents) {
+    tokens += TOKENS_PER_TURN;
+    for (const part of content.parts || []) {
+      if (part.text) tokens += countTokens(part.text, model);
+      if (part.inlineData || part.fileData) tokens += profile.imageTokens;
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Cut text down to at most `maxTokens`, keeping the beginning
+ */
+export function truncateToTokens(text: string, maxTokens: number, model: string): string {
+  if (countTokens(text, model) <= maxTokens) return text;
+  const marker = " …[truncated]";
+  const budget = Math.max(0, maxTokens - countTokens(marker, model));
+
+  // Binary search on character length
+  let lo = 0;
+  let hi = text.length;
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if (countTokens(text.slice(0, mid), model) <= budget) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo > 0 ? text.slice(0, lo).trimEnd() + marker : "";
+}
+
+/**
+ * Feed back the prompt size a provider actually billed so later counts for
+ * this model are corrected (exponential moving average of actual/estimated)
+ */
+export function recordPromptUsage(model: string, estimatedTokens: number, actualTokens?: number): void {
+  if (!actualTokens || estimatedTokens < MIN_SAMPLE_TOKENS) return;
+  const current = calibration.get(model) ?? 1;
+  // Estimates were made with the current factor applied; recover the raw ratio
+  const observed = (actualTokens / estimatedTokens) * current;
+  const next = current + CALIBRATION_ALPHA * (observed - current);
+  calibration.set(model, Math.min(3, Math.max(0.33, next)));
+}
+
+export function getTokenCalibration(): Record<string, number> {
+  const factors: Record<string, number> = {};
+  calibration.forEach((factor, model) => {
+    factors[model] = Number(factor.toFixed(3));
+  });
+  return factors;
+}
@@ -0,0 +1,163 @@
+// toolCallingService.ts - Tool-call loop shared by the streaming and non-streaming chat routes
+//
+// Each round sends the conversation with the tool declarations. If the model answers
+// with function calls, they are executed, the call and its results are appended as a
+// model turn plus a user turn, and the model is asked again. The final round goes
+// out without tools so the model has to answer in text.
+
+import { getModelProviderRegistry, normalizeContents } from "./modelProviderService";
+import type { Content, FunctionCall, GenerateRequest, GenResult, StreamTrace } from "./modelProviderService";
+import { getToolRegistry } from "./toolRegistry";
+import type { ToolContext, ToolExecution } from "./toolRegistry";
+
+export interface ToolLoopOptions {
+  context: ToolContext;
+  maxRounds?: number;
+  onToolCall?: (call: { id: string; name: string; args: Record<string, any> }) => void;
+  onToolResult?: (execution: ToolExecution) => void;
+}
+
+export interface ToolLoopResult extends GenResult {
+  toolCalls: ToolExecution[];
+}
+
+const DEFAULT_MAX_ROUNDS = Number(process.env.TOOL_MAX_ROUNDS || 4);
+
+/**
+ * Tools are on unless TOOLS_ENABLED=false
+ */
+export function toolsEnabled(): boolean {
+  return process.env.TOOLS_ENABLED !== "false";
+}
+
+/**
+ * Sum token usage across rounds so callers see the real cost of the turn
+ */
+function addUsage(total: any, usage: any): any {
+  if (!usage) return total;
+  if (!total) return { ...usage };
+  return {
+    ...total,
+    promptTokenCount: (total.promptTokenCount || 0) + (usage.promptTokenCount || 0),
+    candidatesTokenCount: (total.candidatesTokenCount || 0) + (usage.candidatesTokenCount || 0),
+    totalTokenCount: (total.totalTokenCount || 0) + (usage.totalTokenCount || 0),
+  };
+}
+
+/**
+ * Run the calls from one round and build the turns that go back to the model
+ */
+async function runRound(
+  round: number,
+  calls: FunctionCall[],
+  modelParts: any[],
+  contents: Content[],
+  options: ToolLoopOptions
+): Promise<ToolExecution[]> {
+  const tools = getToolRegistry();
+  const executions = await Promise.all(
+    calls.map((call, i) => {
+      const id = `call_${round}_${i}`;
+      options.onToolCall?.({ id, name: call.name, args: call.args || {} });
+      return tools.execute(call, options.context, id).then((execution) => {
+        options.onToolResult?.(execution);
+        return execution;
+      });
+    })
+  );
+
+  contents.push({ role: "model", parts: modelParts });
+  contents.push({
+    role: "user",
+    parts: executions.map((e) => ({
+      functionResponse: {
+        name: e.name,
+        response: e.error !== undefined ? { error: e.error } : { result: e.result },
+      },
+    })),
+  });
+  return executions;
+}
+
+/**
+ * Generate a response, executing any tool calls the model makes along the way
+ */
+export async function generateWithTools(
+  request: GenerateRequest,
+  options: ToolLoopOptions
+): Promise<ToolLoopResult> {
+  const registry = getModelProviderRegistry();
+  const declarations = getToolRegistry().getDeclarations();
+  const maxRounds = options.maxRounds ?? DEFAULT_MAX_ROUNDS;
+  const contents = [...normalizeContents(request.contents)];
+  const toolCalls: ToolExecution[] = [];
+  let usage: any;
+
+  for (let round = 0; ; round++) {
+    const offerTools = round < maxRounds && declarations.length > 0;
+    const result = await registry.generateContent({
+      ...request,
+      contents,
+      tools: offerTools ? declarations : undefined,
+    });
+    usage = addUsage(usage, result.usage);
+
+    const calls: FunctionCall[] = (result.parts || [])
+      .filter((p: any) => p.functionCall)
+      .map((p: any) => p.functionCall);
+    if (calls.length === 0 || !offerTools) {
+      return {
+        ...result,
+        // Function call parts are internal to the loop
+        parts: (result.parts || []).filter((p: any) => !p.functionCall),
+        usage,
+        toolCalls,
+      };
+    }
+
+    console.log(`🔧 Round ${round + 1}: model requested ${calls.map((c) => c.name).join(", ")}`);
+    toolCalls.push(...(await runRound(round, calls, result.parts, contents, options)));
+  }
+}
+
+/**
+ * Stream a response, executing tool calls between rounds. Text from every round
+ * is yielded as it arrives; `trace.usage` ends up with the total across rounds.
+ */
+export async function* streamWithTools(
+  request: GenerateRequest,
+  options: ToolLoopOptions,
+  trace: StreamTrace = {}
+): AsyncGenerator<string, ToolExecution[], unknown> {
+  const registry = getModelProviderRegistry();
+  const declarations = getToolRegistry().getDeclarations();
+  const maxRounds = options.maxRounds ?? DEFAULT_MAX_ROUNDS;
+  const contents = [...normalizeContents(request.contents)];
+  const toolCalls: ToolExecution[] = [];
+  let usage: any;
+
+  for (let round = 0; ; round++) {
+    const offerTools = round < maxRounds && declarations.length > 0;
+    let roundText = "";
+    trace.usage = undefined;
+    for await (const chunk of registry.generateContentStream(
+      { ...request, contents, tools: offerTools ? declarations : undefined },
+      trace
+    )) {
+      roundText += chunk;
+      yield chunk;
+    }
+    usage = addUsage(usage, trace.usage);
+
+    const calls = trace.functionCalls || [];
+    // Cancelled mid-round: don't run tools for a client that has gone away
+    if (calls.length === 0 || !offerTools || request.signal?.aborted) {
+      trace.usage = usage;
+      return toolCalls;
+    }
+
+    console.log(`🔧 Round ${round + 1}: model requested ${calls.map((c) => c.name).join(", ")}`);
+    const modelParts = [...(roundText ? [{ text: roundText }] : []), ...calls.map((c) => ({ functionCall: c }))];
+    toolCalls.push(...(await runRound(round, calls, modelParts, contents, options)));
+  }
+}
@@ -0,0 +1,123 @@
+// toolRegistry.ts - Functions the assistant can call during a chat turn
+//
+// A tool declares a JSON schema for its arguments and a handler. The registry hands
+// the declarations to the model, validates the arguments the model sends back and
+// runs the handler with the caller's context (user, chat, document). Starter tools
+// live in builtinTools.ts.
+
+import type { FunctionCall, ToolDeclaration } from "./modelProviderService";
+import { validateJsonSchema } from "./jsonSchema";
+import type { JSONSchema } from "./jsonSchema";
+import type { FirestoreChatFilter } from "./firestoreChatService";
+import { createBuiltinTools } from "./builtinTools";
+
+/**
+ * Who the tool is running for - handlers must stay inside this scope
+ */
+export interface ToolContext {
+  userId: string;
+  chatId?: string;
+  messageCount?: number;
+  documentId?: string;
+  memoryScope?: FirestoreChatFilter; // The chat's folder / tag memory scope
+}
+
+export interface Tool {
+  name: string;
+  description: string;
+  parameters: JSONSchema;
+  handler: (args: any, context: ToolContext) => Promise<unknown> | unknown;
+}
+
+/**
+ * Outcome of one tool call, as reported to clients
+ */
+export interface ToolExecution {
+  id: string;
+  name: string;
+  args: Record<string, any>;
+  result?: unknown;
+  error?: string;
+  durationMs: number;
+}
+
+const TOOL_TIMEOUT_MS = Number(process.env.TOOL_TIMEOUT_MS || 10000);
+
+class ToolRegistry {
+  private tools: Map<string, Tool> = new Map();
+
+  register(tool: Tool): void {
+    if (!/^[a-zA-Z_][a-zA-Z0-9_]{0,63}$/.test(tool.name)) {
+      throw new Error(`Invalid tool name "${tool.name}" - use letters, digits and underscores`);
+    }
+    this.tools.set(tool.name, tool);
+    console.log(`🔧 Tool registered: ${tool.name}`);
+  }
+
+  unregister(name: string): void {
+    this.tools.delete(name);
+  }
+
+  get(name: string): Tool | undefined {
+    return this.tools.get(name);
+  }
+
+  list(): Tool[] {
+    return Array.from(this.tools.values());
+  }
+
+  /**
+   * Declarations to send with a model request
+   */
+  getDeclarations(): ToolDeclaration[] {
+    return this.list().map(({ name, description, parameters }) => ({ name, description, parameters }));
+  }
+
+  /**
+   * Validate and run one call. Never throws - failures come back as `error`
+   * so they can be reported to the model, which may recover.
+   */
+  async execute(call: FunctionCall, context: ToolContext, id: string): Promise<ToolExecution> {
+    const start = Date.now();
+    const args = call.args || {};
+    const tool = this.tools.get(call.name);
+    if (!tool) {
+      return { id, name: call.name, args, error: `Unknown tool "${call.name}"`, durationMs: 0 };
+    }
+
+    const errors = validateJsonSchema(tool.parameters, args, "args");
+    if (errors.length > 0) {
+      return { id, name: call.name, args, error: `Invalid arguments: ${errors.join("; ")}`, durationMs: 0 };
+    }
+
+    try {
+      let timer: NodeJS.Timeout | undefined;
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Timed out after ${TOOL_TIMEOUT_MS}ms`)), TOOL_TIMEOUT_MS);
+      });
+      const result = await Promise.race([Promise.resolve(tool.handler(args, context)), timeout]).finally(() =>
+        clearTimeout(timer)
+      );
+      console.log(`🔧 Tool ${call.name} completed in ${Date.now() - start}ms`);
+      return { id, name: call.name, args, result, durationMs: Date.now() - start };
+    } catch (err: any) {
+      console.error(`❌ Tool ${call.name} failed:`, err?.message ?? err);
+      return { id, name: call.name, args, error: err?.message ?? String(err), durationMs: Date.now() - start };
+    }
+  }
+}
+
+// Singleton instance - built-in tools are registered on first use
+let registry: ToolRegistry | null = null;
+
+export function getToolRegistry(): ToolRegistry {
+  if (!registry) {
+    registry = new ToolRegistry();
+    for (const tool of createBuiltinTools()) {
+      registry.register(tool);
+    }
+  }
+  return registry;
+}
+
+export { ToolRegistry };
@@ -0,0 +1,269 @@
+// usageLedgerService.ts - Token usage per user, chat, model and route
+//
+// The provider registry records every model call it serves (answers, intent
+// classification, summaries, profile extraction...) when the request carries a
+// `meter`. Records are kept in memory and written to Firestore under
+// users/{userId}/usage when it's configured; reports read from Firestore first so
+// every instance sees the same numbers. Providers that don't report usage get an
+// estimate from tokenCounter, flagged with `estimated`.
+
+import { randomUUID } from "crypto";
+import type * as admin from "firebase-admin";
+import { getFirestore } from "./firebaseAdmin";
+
+/**
+ * What a model call is for - answers are "chat", everything else is overhead
+ */
+export type UsagePurpose =
+  | "chat"
+  | "intent"
+  | "summary"
+  | "profile"
+  | "image"
+  | "document"
+  | "structured"
+  | "transcription"
+  | "title"
+  | "other";
+
+/**
+ * Who a model call is billed to. Attach it to GenerateRequest.meter.
+ */
+export interface UsageMeter {
+  userId?: string;
+  chatId?: string;
+  route: string; // Entry point, e.g. "ask-ai", "ask-ai-stream", "ws"
+  purpose?: UsagePurpose; // Defaults to "chat"
+  onRecord?: (record: UsageRecord) => void; // Sees each call as it's recorded (e.g. to report usage in a response)
+}
+
+export interface UsageRecord {
+  id: string;
+  userId: string;
+  chatId: string | null;
+  route: string;
+  purpose: UsagePurpose;
+  model: string;
+  provider: string;
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  estimated: boolean; // The provider didn't report usage
+  timestamp: number;
+}
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface UsageRollup extends UsageTotals {
+  byModel: Record<string, UsageTotals>;
+  byRoute: Record<string, UsageTotals>;
+  byPurpose: Record<string, UsageTotals>;
+}
+
+export interface UsageDay extends UsageRollup {
+  date: string; // YYYY-MM-DD (UTC)
+}
+
+export interface UsageReport {
+  userId: string;
+  from: number;
+  to: number;
+  totals: UsageRollup;
+  days: UsageDay[]; // Oldest first, only days with usage
+}
+
+const RETENTION_DAYS = Number(process.env.USAGE_RETENTION_DAYS || 90);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Read prompt/output/total tokens from a provider's usage object (Gemini usageMetadata shape)
+ */
+export function readUsageTokens(usage: any): { promptTokens: number; outputTokens: number; totalTokens: number } | null {
+  if (!usage) return null;
+  const promptTokens = Number(usage.promptTokenCount) || 0;
+  const outputTokens = Number(usage.candidatesTokenCount) || 0;
+  const totalTokens = Number(usage.totalTokenCount) || promptTokens + outputTokens;
+  if (!promptTokens && !outputTokens && !totalTokens) return null;
+  return { promptTokens, outputTokens, totalTokens };
+}
+
+function emptyTotals(): UsageTotals {
+  return { requests: 0, promptTokens: 0, outputTokens: 0, totalTokens: 0 };
+}
+
+function emptyRollup(): UsageRollup {
+  return { ...emptyTotals(), byModel: {}, byRoute: {}, byPurpose: {} };
+}
+
+function addTo(totals: UsageTotals, record: UsageRecord): void {
+  totals.requests++;
+  totals.promptTokens += record.promptTokens;
+  totals.outputTokens += record.outputTokens;
+  totals.totalTokens += record.totalTokens;
+}
+
+function addToRollup(rollup: UsageRollup, record: UsageRecord): void {
+  addTo(rollup, record);
+  addTo((rollup.byModel[record.model] ??= emptyTotals()), record);
+  addTo((rollup.byRoute[record.route] ??= emptyTotals()), record);
+  addTo((rollup.byPurpose[record.purpose] ??= emptyTotals()), record);
+}
+
+/**
+ * Roll records up into overall totals and one entry per UTC day
+ */
+export function rollupUsage(userId: string, records: UsageRecord[], from: number, to: number): UsageReport {
+  const totals = emptyRollup();
+  const days = new Map<string, UsageDay>();
+  for (const record of records) {
+    if (record.timestamp < from || record.timestamp > to) continue;
+    addToRollup(totals, record);
+    const date = new Date(record.timestamp).toISOString().slice(0, 10);
+    if (!days.has(date)) days.set(date, { date, ...emptyRollup() });
+    addToRollup(days.get(date)!, record);
+  }
+  return {
+    userId,
+    from,
+    to,
+    totals,
+    days: [...days.values()].sort((a, b) => a.date.localeCompare(b.date)),
+  };
+}
+
+/**
+ * Parse report bounds from query strings: dates ("2026-10-01", `to` covers the whole
+ * day), ISO timestamps or epoch ms. Defaults to the last 30 days.
+ */
+export function parseUsageRange(
+  fromParam?: string,
+  toParam?: string,
+  now = Date.now()
+): { from: number; to: number } | { error: string } {
+  const parse = (value: string, endOfDay: boolean): number => {
+    if (/^\d+$/.test(value)) return Number(value);
+    const time = Date.parse(value);
+    if (/^\d{4}-\d{2}-\d{2}$/.test(value) && endOfDay) return time + DAY_MS - 1;
+    return time;
+  };
+  const to = toParam ? parse(toParam, true) : now;
+  const from = fromParam ? parse(fromParam, false) : to - 30 * DAY_MS + 1;
+  if (Number.isNaN(from) || Number.isNaN(to)) return { error: "from and to must be dates, ISO timestamps or epoch ms" };
+  if (from > to) return { error: "from must not be after to" };
+  if (to - from > 366 * DAY_MS) return { error: "Usage reports cover at most 366 days" };
+  return { from, to };
+}
+
+class UsageLedgerService {
+  private records: Map<string, UsageRecord[]> = new Map(); // userId -> records, oldest first
+  private firestore: admin.firestore.Firestore | null | undefined; // undefined until first use
+
+  /**
+   * Add one model call to the ledger. Never throws - metering must not break a request.
+   */
+  record(
+    meter: UsageMeter | undefined,
+    call: { model: string; provider: string; promptTokens: number; outputTokens: number; totalTokens?: number; estimated?: boolean }
+  ): UsageRecord {
+    const record: UsageRecord = {
+      id: randomUUID(),
+      userId: meter?.userId || "anonymous",
+      chatId: meter?.chatId || null,
+      route: meter?.route || "unknown",
+      purpose: meter?.purpose || "chat",
+      model: call.model,
+      provider: call.provider,
+      promptTokens: call.promptTokens,
+      outputTokens: call.outputTokens,
+      totalTokens: call.totalTokens ?? call.promptTokens + call.outputTokens,
+      estimated: call.estimated === true,
+      timestamp: Date.now(),
+    };
+
+    const list = this.records.get(record.userId) ?? [];
+    list.push(record);
+    const cutoff = record.timestamp - RETENTION_DAYS * DAY_MS;
+    while (list.length > 0 && list[0].timestamp < cutoff) list.shift();
+    this.records.set(record.userId, list);
+
+    try {
+      meter?.onRecord?.(record);
+    } catch (err) {
+      console.warn("⚠️ Usage record listener failed:", err);
+    }
+
+    const firestore = this.getStore();
+    if (firestore) {
+      firestore
+        .collection("users")
+        .doc(record.userId)
+        .collection("usage")
+        .doc(record.id)
+        .set(record)
+        .catch((err) => console.error("❌ Failed to persist usage record:", err));
+    }
+    return record;
+  }
+
+  /**
+   * Usage of one user between two timestamps (inclusive), with daily rollups
+   */
+  async getReport(userId: string, from: number, to: number): Promise<UsageReport> {
+    return rollupUsage(userId, await this.getRecords(userId, from, to), from, to);
+  }
+
+  /**
+   * Raw records of one user between two timestamps, oldest first
+   */
+  async getRecords(userId: string, from: number, to: number): Promise<UsageRecord[]> {
+    const firestore = this.getStore();
+    if (firestore) {
+      try {
+        const snapshot = await firestore
+          .collection("users")
+          .doc(userId)
+          .collection("usage")
+          .where("timestamp", ">=", from)
+          .where("timestamp", "<=", to)
+          .orderBy("timestamp", "asc")
+          .get();
+        return snapshot.docs.map((doc) => doc.data() as UsageRecord);
+      } catch (err) {
+        console.error("❌ Failed to read usage from Firestore, using this instance's records:", err);
+      }
+    }
+    return (this.records.get(userId) ?? []).filter((r) => r.timestamp >= from && r.timestamp <= to);
+  }
+
+  /**
+   * Forget in-memory records (tests)
+   */
+  clear(): void {
+    this.records.clear();
+  }
+
+  private getStore(): admin.firestore.Firestore | null {
+    if (this.firestore === undefined) {
+      this.firestore = getFirestore();
+      if (!this.firestore) console.warn("⚠️ Usage ledger running without Firestore (in-memory only)");
+    }
+    return this.firestore;
+  }
+}
+
+// Singleton instance
+let usageLedgerService: UsageLedgerService | null = null;
+
+export function getUsageLedgerService(): UsageLedgerService {
+  if (!usageLedgerService) {
+    usageLedgerService = new UsageLedgerService();
+  }
+  return usageLedgerService;
+}
+
+export { UsageLedgerService };
@@ -9,8 +9,8 @@
  * - Tier 2: Chat Context (chat-specific, temporary) ← hybridMemoryService
  */
 
-import { GoogleGenAI } from "@google/genai";
 import dotenv from "dotenv";
+import { getModelProviderRegistry } from "./modelProviderService";
 
 dotenv.config();
 
@@ -43,15 +43,6 @@ export interface ProfileExtractionResult {
 
 const userProfiles = new Map<string, UserProfile>();
 
-// ============================================================================
-// GOOGLE GEMINI CLIENT
-// ============================================================================
-
-let genAI: GoogleGenAI | undefined;
-if (process.env.GEMINI_API_KEY) {
-  genAI = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
-}
-
 // ============================================================================
 // PROFILE EXTRACTION LOGIC
 // ============================================================================
@@ -64,11 +55,12 @@ async function extractProfileFromConversation(
   conversationText: string
 ): Promise<ProfileExtractionResult> {
   try {
-    if (!genAI) {
+    const registry = getModelProviderRegistry();
+    if (!registry.hasProviders()) {
       console.log(
-        "[USER PROFILE] Gemini API not configured, skipping profile extraction"
+        "[USER PROFILE] No model provider configured, skipping profile extraction"
       );
-      return { extracted: false, error: "Gemini API not configured" };
+      return { extracted: false, error: "No model provider configured" };
     }
 
     console.log(`[USER PROFILE] Extracting profile info for user: ${userId}`);
@@ -108,13 +100,13 @@ Return ONLY a JSON object with this exact structure:
 IMPORTANT: Return ONLY the JSON object, no markdown, no explanations.
 `;
 
-    const response = await genAI.models.generateContent({
+    const response = await registry.generateContent({
       model: "gemini-2.5-pro", // Use better model for more accurate extraction
       contents: [prompt],
+      meter: { userId, route: "background", purpose: "profile" },
     });
 
-    const resultText =
-      response?.candidates?.[0]?.content?.parts?.[0]?.text ?? "";
+    const resultText = response?.parts?.[0]?.text ?? "";
 
     if (!resultText) {
       console.log("[USER PROFILE] No response from AI");
@@ -0,0 +1,125 @@
+import request from "supertest";
+import { createTestHarness, flushBackgroundWork, parseSSE, scriptIntent } from "./support/testApp";
+import { getApiKeyService } from "../services/apiKeyService";
+
+const { app, fake, firestore } = createTestHarness();
+
+beforeEach(() => {
+  fake.reset();
+  getApiKeyService().clear();
+});
+
+const issueKey = async (userId: string, scopes: string[], rateLimitPerMinute?: number) => {
+  const res = await request(app)
+    .post("/api/keys")
+    .set("X-User-Id", userId)
+    .send({ name: "CI job", scopes, rateLimitPerMinute });
+  expect(res.status).toBe(201);
+  return res.body as { key: string; apiKey: { id: string } };
+};
+
+describe("API key management", () => {
+  it("issues a key once and lists it without the secret", async () => {
+    const { key, apiKey } = await issueKey("key-owner", ["chat"]);
+    expect(key).toMatch(/^nbq_/);
+
+    const list = await request(app).get("/api/keys").set("X-User-Id", "key-owner");
+    expect(list.status).toBe(200);
+    expect(list.body.keys).toEqual([
+      expect.objectContaining({ id: apiKey.id, name: "CI job", scopes: ["chat"], lastUsedAt: null, revokedAt: null }),
+    ]);
+    expect(JSON.stringify(list.body)).not.toContain(key);
+
+    const empty = await request(app).get("/api/keys").set("X-User-Id", "someone-else");
+    expect(empty.body.keys).toEqual([]);
+  });
+
+  it("validates scopes and rate limits", async () => {
+    const badScope = await request(app).post("/api/keys").send({ name: "x", scopes: ["admin"] });
+    expect(badScope.status).toBe(400);
+    const badLimit = await request(app).post("/api/keys").send({ name: "x", scopes: ["chat"], rateLimitPerMinute: 0 });
+    expect(badLimit.status).toBe(400);
+  });
+
+  it("doesn't let API keys manage keys", async () => {
+    const { key } = await issueKey("key-manager", ["chat", "memory-read", "memory-write", "images"]);
+    const res = await request(app).get("/api/keys").set("Authorization", `Bearer ${key}`);
+    expect(res.status).toBe(403);
+  });
+});
+
+describe("calling the API with a key", () => {
+  it("acts as the key's owner and records when it was last used", async () => {
+    scriptIntent(fake, "text");
+    fake.setDefault({ text: "Hello from a script" });
+    const { key } = await issueKey("script-user", ["chat"]);
+
+    const res = await request(app)
+      .post("/api/ask-ai")
+      .set("X-API-Key", key)
+      .send({ prompt: "Hello", chatId: "script-chat", tools: false });
+    expect(res.status).toBe(200);
+
+    await flushBackgroundWork();
+    expect(firestore.getChat("script-user", "script-chat")?.messages).toHaveLength(2);
+
+    const list = await request(app).get("/api/keys").set("X-User-Id", "script-user");
+    expect(list.body.keys[0].lastUsedAt).toBeGreaterThan(0);
+
+    const foreign = await request(app).get("/api/chats").query({ userId: "other-user" }).set("X-API-Key", key);
+    expect(foreign.status).toBe(403);
+  });
+
+  it("limits a key to the endpoints its scopes open", async () => {
+    const { key } = await issueKey("reader", ["memory-read"]);
+    const auth = { Authorization: `Bearer ${key}` };
+
+    expect((await request(app).post("/api/search-memory").set(auth).send({ query: "cats" })).status).not.toBe(403);
+
+    const chat = await request(app).post("/api/ask-ai").set(auth).send({ prompt: "Hi" });
+    expect(chat.status).toBe(403);
+    expect(chat.body.code).toBe("forbidden");
+
+    expect((await request(app).post("/api/store-memory").set(auth).send({ content: "x" })).status).toBe(403);
+    expect((await request(app).get("/api/admin/providers").set(auth)).status).toBe(403);
+  });
+
+  it("refuses image generation in chat without the images scope", async () => {
+    scriptIntent(fake, "imageGenerate");
+    const { key } = await issueKey("chat-only", ["chat"]);
+
+    const res = await request(app)
+      .post("/api/ask-ai-stream")
+      .set("X-API-Key", key)
+      .send({ prompt: "draw a fox", memory: false });
+
+    expect(parseSSE(res.text).pop()).toMatchObject({ error: expect.stringContaining("images") });
+    expect(fake.calls.some((c) => c.requires.includes("imageOutput"))).toBe(false);
+  });
+
+  it("rejects revoked keys", async () => {
+    const { key, apiKey } = await issueKey("revoker", ["chat"]);
+    const quota = () => request(app).get("/api/quota").query({ userId: "revoker" }).set("X-API-Key", key);
+    expect((await quota()).status).toBe(200);
+
+    const revoked = await request(app).delete(`/api/keys/${apiKey.id}`).set("X-User-Id", "revoker");
+    expect(revoked.status).toBe(200);
+    expect((await request(app).delete(`/api/keys/${apiKey.id}`).set("X-User-Id", "someone-else")).status).toBe(404);
+
+    const res = await quota();
+    expect(res.status).toBe(401);
+    expect(res.body.code).toBe("invalid_token");
+  });
+
+  it("applies the key's own rate limit", async () => {
+    const { key } = await issueKey("busy-script", ["chat"], 2);
+    const quota = () => request(app).get("/api/quota").query({ userId: "busy-script" }).set("X-API-Key", key);
+    expect((await quota()).status).toBe(200);
+    expect((await quota()).status).toBe(200);
+
+    const limited = await quota();
+    expect(limited.status).toBe(429);
+    expect(limited.body.code).toBe("rate_limited");
+    expect(Number(limited.headers["retry-after"])).toBeGreaterThan(0);
+  });
+});
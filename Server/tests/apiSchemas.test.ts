@@ -0,0 +1,86 @@
+import request from "supertest";
+import { createTestHarness } from "./support/testApp";
+import { apiRoutes } from "../services/apiSchemas";
+
+const { app, fake } = createTestHarness();
+
+beforeEach(() => {
+  fake.reset();
+});
+
+describe("request validation", () => {
+  it("answers invalid bodies and queries with one 400 shape", async () => {
+    const tooLong = await request(app)
+      .post("/api/store-memory")
+      .send({ content: "x".repeat(50001), userId: "schema-user" });
+    expect(tooLong.status).toBe(400);
+    expect(tooLong.body).toMatchObject({ success: false, code: "invalid_request" });
+    expect(tooLong.body.issues[0].path).toBe("content");
+
+    const badChatId = await request(app)
+      .post("/api/save-all-chats")
+      .send({ userId: "schema-user", chatIds: ["chat-1", "chat 2"] });
+    expect(badChatId.status).toBe(400);
+    expect(badChatId.body.issues).toEqual([{ path: "chatIds.1", message: "chatId contains invalid characters" }]);
+
+    const missing = await request(app).post("/api/end-chat").send({ userId: "schema-user" });
+    expect(missing.body).toMatchObject({ success: false, error: "chatId is required" });
+
+    const badQuery = await request(app).get("/api/chats").query({ userId: "schema-user", source: "disk" });
+    expect(badQuery.status).toBe(400);
+    expect(badQuery.body.issues[0].path).toBe("source");
+    expect(fake.calls).toHaveLength(0);
+  });
+
+  it("converts multipart form fields", () => {
+    const body = apiRoutes.askAiStream.body.parse({
+      prompt: "Describe this",
+      memory: "false",
+      resumable: "true",
+      messageCount: "3",
+      conversationHistory: JSON.stringify([{ role: "user", content: "Hi" }]),
+    });
+    expect(body).toMatchObject({
+      memory: false,
+      resumable: true,
+      messageCount: 3,
+      conversationHistory: [{ role: "user", content: "Hi" }],
+    });
+    expect(apiRoutes.askAiStream.body.safeParse({ prompt: "Hi", conversationHistory: "not json" }).success).toBe(false);
+  });
+});
+
+describe("GET /api/openapi.json", () => {
+  it("describes every route", async () => {
+    const res = await request(app).get("/api/openapi.json");
+    expect(res.status).toBe(200);
+    expect(res.body.openapi).toBe("3.1.0");
+
+    for (const [operationId, route] of Object.entries(apiRoutes)) {
+      const path = route.path.replace(/:(\w+)/g, "{$1}");
+      expect(res.body.paths[path]?.[route.method]?.operationId).toBe(operationId);
+    }
+
+    const askAi = res.body.paths["/api/ask-ai"].post;
+    expect(askAi.requestBody.content["application/json"].schema.required).toEqual(["prompt"]);
+    expect(askAi.requestBody.content["multipart/form-data"].schema.properties.image).toEqual({
+      type: "string",
+      format: "binary",
+    });
+    expect(res.body.paths["/api/recent-context/{userId}"].get.parameters).toEqual([
+      expect.objectContaining({ name: "userId", in: "path", required: true }),
+      expect.objectContaining({ name: "maxTurns", in: "query", required: false }),
+    ]);
+  });
+
+  it("matches the routes the server registers", () => {
+    const registered = new Set(
+      (app as any).router.stack
+        .filter((layer: any) => layer.route)
+        .flatMap((layer: any) => Object.keys(layer.route.methods).map((method) => `${method} ${layer.route.path}`))
+    );
+    for (const route of Object.values(apiRoutes)) {
+      expect(registered).toContain(`${route.method} ${route.path}`);
+    }
+  });
+});
@@ -0,0 +1,224 @@
+import request from "supertest";
+import {
+  createTestHarness,
+  flushBackgroundWork,
+  scriptIntent,
+  TINY_PNG_BASE64,
+} from "./support/testApp";
+
+const harness = createTestHarness();
+const { app, fake, embeddings, firestore } = harness;
+
+beforeEach(() => {
+  fake.reset();
+  embeddings.clear();
+  firestore.clear();
+});
+
+describe("POST /api/ask-ai", () => {
+  it("answers text prompts through the provider registry", async () => {
+    scriptIntent(fake, "text");
+    fake.on("How do binary search trees stay balanced", {
+      text: "They rotate nodes after inserts.",
+    });
+
+    const res = await request(app).post("/api/ask-ai").send({
+      prompt: "How do binary search trees stay balanced?",
+      userId: "user-text",
+      memory: false,
+    });
+
+    expect(res.status).toBe(200);
+    expect(res.body.success).toBe(true);
+    expect(res.body.text).toBe("They rotate nodes after inserts.");
+    expect(res.body.metadata.provider).toBe("fake");
+    expect(res.body.metadata.tokens).toBeGreaterThan(0);
+  });
+
+  it("rejects requests without a prompt", async () => {
+    const res = await request(app)
+      .post("/api/ask-ai")
+      .send({ userId: "user-empty" });
+
+    expect(res.status).toBe(400);
+    expect(fake.calls).toHaveLength(0);
+  });
+
+  it("serves repeated text prompts from the response cache", async () => {
+    scriptIntent(fake, "text");
+    fake.setDefault({ text: "Paris is the capital of France." });
+    const body = {
+      prompt: "Tell me the capital city of France",
+      userId: "user-cache",
+      memory: false,
+    };
+
+    const first = await request(app).post("/api/ask-ai").send(body);
+    const callsAfterFirst = fake.answerCalls().length;
+    const second = await request(app).post("/api/ask-ai").send(body);
+
+    expect(first.body.cached).toBeUndefined();
+    expect(second.status).toBe(200);
+    expect(second.body.cached).toBe(true);
+    expect(second.body.text).toBe("Paris is the capital of France.");
+    expect(fake.answerCalls()).toHaveLength(callsAfterFirst);
+  });
+
+  it("routes image generation intents to an image-capable model call", async () => {
+    scriptIntent(fake, "imageGenerate");
+    fake.on((call) => call.requires.includes("imageOutput"), {
+      imageBase64: TINY_PNG_BASE64,
+      text: "A lighthouse at dusk",
+    });
+
+    const res = await request(app).post("/api/ask-ai").send({
+      prompt: "draw a lighthouse at dusk",
+      userId: "user-imagegen",
+      chatId: "chat-imagegen",
+    });
+
+    expect(res.status).toBe(200);
+    expect(res.body.isImageGeneration).toBe(true);
+    expect(res.body.imageBase64).toBe(TINY_PNG_BASE64);
+    expect(res.body.metadata.provider).toBe("fake");
+
+    await flushBackgroundWork();
+    const chat = firestore.getChat("user-imagegen", "chat-imagegen");
+    expect(chat?.messages[1].attachments?.[0]).toContain("storage.test");
+  });
+
+  it("edits an uploaded image when the prompt asks for a change", async () => {
+    fake.on((call) => call.requires.includes("imageOutput"), {
+      imageBase64: TINY_PNG_BASE64,
+      text: "Background removed",
+    });
+
+    const res = await request(app)
+      .post("/api/ask-ai")
+      .field("prompt", "remove the background")
+      .field("userId", "user-edit")
+      .attach("image", Buffer.from(TINY_PNG_BASE64, "base64"), "photo.png");
+
+    expect(res.status).toBe(200);
+    expect(res.body.isImageGeneration).toBe(true);
+    expect(res.body.text).toBe("Background removed");
+
+    const editCall = fake.answerCalls()[0];
+    expect(editCall.requires).toContain("imageOutput");
+    expect(editCall.inlineData[0].mimeType).toBe("image/png");
+    expect(editCall.prompt).toContain("remove the background");
+  });
+
+  it("answers questions about an uploaded image with a vision call", async () => {
+    scriptIntent(fake, "visionQA");
+    fake.on("how many people appear", { text: "There are no people." });
+
+    const res = await request(app)
+      .post("/api/ask-ai")
+      .field("prompt", "how many people appear here?")
+      .field("userId", "user-vision")
+      .attach("image", Buffer.from(TINY_PNG_BASE64, "base64"), "photo.png");
+
+    expect(res.status).toBe(200);
+    expect(res.body.isImageGeneration).toBeUndefined();
+    expect(res.body.text).toBe("There are no people.");
+
+    const visionCall = fake.answerCalls()[0];
+    expect(visionCall.inlineData).toHaveLength(1);
+    expect(visionCall.requires).not.toContain("imageOutput");
+  });
+
+  it("injects the user profile into early messages", async () => {
+    scriptIntent(fake, "text");
+
+    await request(app).post("/api/ask-ai").send({
+      prompt: "Suggest a relaxing plan for my weekend",
+      userId: "user-profile",
+      userName: "Ada",
+      messageCount: 0,
+    });
+
+    const answer = fake.answerCalls()[0];
+    expect(answer.systemInstruction).toContain("USER PROFILE");
+    expect(answer.systemInstruction).toContain("The user's name is Ada.");
+  });
+
+  it("injects long-term memories when the user refers back to them", async () => {
+    scriptIntent(fake, "text");
+    await embeddings.storeMemory({
+      id: "memory-language",
+      content: "User's favourite programming language is Haskell",
+      metadata: {
+        timestamp: Date.now(),
+        type: "conversation",
+        userId: "user-memory",
+        chatId: "chat-memory",
+      },
+    });
+
+    await request(app).post("/api/ask-ai").send({
+      prompt: "Do you remember my favourite programming language?",
+      userId: "user-memory",
+      chatId: "chat-memory",
+      messageCount: 20,
+    });
+
+    const answer = fake.answerCalls()[0];
+    expect(answer.systemInstruction).toContain("🧠 MEMORY CONTEXT:");
+    expect(answer.systemInstruction).toContain("favourite programming language is Haskell");
+  });
+
+  it("sends conversation history as role-tagged turns", async () => {
+    scriptIntent(fake, "text");
+
+    const res = await request(app).post("/api/ask-ai").send({
+      prompt: "And how tall is it?",
+      userId: "user-turns",
+      memory: false,
+      conversationHistory: [
+        { role: "user", content: "What is the Eiffel Tower?" },
+        { role: "assistant", content: "A wrought-iron tower in Paris." },
+        { role: "user", content: "And how tall is it?" },
+      ],
+    });
+
+    const answer = fake.answerCalls()[0];
+    expect(answer.contents).toEqual([
+      { role: "user", parts: [{ text: "What is the Eiffel Tower?" }] },
+      { role: "model", parts: [{ text: "A wrought-iron tower in Paris." }] },
+      { role: "user", parts: [{ text: "And how tall is it?" }] },
+    ]);
+    expect(answer.systemInstruction).toContain("You are NubiqAI");
+    expect(res.body.metadata.context.included.map((e: any) => e.id)).toEqual(["turn-1", "turn-0"]);
+    expect(res.body.metadata.context.cut).toEqual([]);
+  });
+
+  it("persists the turn to the chat store after responding", async () => {
+    scriptIntent(fake, "text");
+    fake.setDefault({ text: "Sure, here is a haiku." });
+
+    await request(app).post("/api/ask-ai").send({
+      prompt: "Write a haiku about autumn leaves",
+      userId: "user-persist",
+      chatId: "chat-persist",
+    });
+    await flushBackgroundWork();
+
+    const chat = firestore.getChat("user-persist", "chat-persist");
+    expect(chat?.messageCount).toBe(2);
+    expect(chat?.lastAssistantMessage).toBe("Sure, here is a haiku.");
+  });
+
+  it("returns 500 when the provider fails", async () => {
+    scriptIntent(fake, "text");
+    fake.setDefault({ error: "upstream exploded" });
+
+    const res = await request(app).post("/api/ask-ai").send({
+      prompt: "Summarise the plot of Hamlet in two lines",
+      userId: "user-failure",
+      memory: false,
+    });
+
+    expect(res.status).toBe(500);
+  });
+});
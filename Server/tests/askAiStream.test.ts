@@ -0,0 +1,314 @@
+import type { AddressInfo } from "net";
+import request from "supertest";
+import {
+  createTestHarness,
+  flushBackgroundWork,
+  parseSSE,
+  parseSSEFrames,
+  scriptIntent,
+  TINY_PNG_BASE64,
+} from "./support/testApp";
+
+const { app, fake, firestore } = createTestHarness();
+
+beforeEach(() => {
+  fake.reset();
+  scriptIntent(fake, "text");
+});
+
+describe("POST /api/ask-ai-stream", () => {
+  it("streams chunks as SSE frames followed by a done event", async () => {
+    fake.on("Explain event loops", {
+      chunks: ["The event loop ", "runs callbacks ", "in order."],
+    });
+
+    const res = await request(app).post("/api/ask-ai-stream").send({
+      prompt: "Explain event loops",
+      userId: "stream-user",
+      memory: false,
+    });
+
+    expect(res.status).toBe(200);
+    expect(res.headers["content-type"]).toContain("text/event-stream");
+    expect(res.text.endsWith("\n\n")).toBe(true);
+
+    const events = parseSSE(res.text);
+    const textEvents = events.filter((e) => "text" in e);
+    expect(textEvents.map((e) => e.text)).toEqual([
+      "The event loop ",
+      "runs callbacks ",
+      "in order.",
+    ]);
+
+    const done = events[events.length - 1];
+    expect(done.done).toBe(true);
+    expect(done.provider).toBe("fake");
+    expect(typeof done.duration).toBe("number");
+    expect(fake.answerCalls()[0].streamed).toBe(true);
+  });
+
+  it("replays cached answers as cached chunks", async () => {
+    fake.setDefault({ text: "Water boils at 100 degrees Celsius at sea level." });
+    const body = {
+      prompt: "At what temperature does water boil",
+      userId: "stream-cache",
+      memory: false,
+    };
+
+    await request(app).post("/api/ask-ai-stream").send(body);
+    const second = await request(app).post("/api/ask-ai-stream").send(body);
+
+    const events = parseSSE(second.text);
+    expect(events.slice(0, -1).every((e) => e.cached === true)).toBe(true);
+    expect(events.map((e) => e.text ?? "").join("")).toBe(
+      "Water boils at 100 degrees Celsius at sea level."
+    );
+    expect(events[events.length - 1]).toEqual({ done: true, cached: true });
+    expect(fake.answerCalls()).toHaveLength(1);
+  });
+
+  it("reports provider failures as an error frame", async () => {
+    fake.setDefault({ error: "model overloaded" });
+
+    const res = await request(app).post("/api/ask-ai-stream").send({
+      prompt: "Describe the water cycle",
+      userId: "stream-error",
+      memory: false,
+    });
+
+    expect(parseSSE(res.text)).toEqual([{ error: "model overloaded" }]);
+  });
+
+  it("rejects a missing prompt before streaming", async () => {
+    const res = await request(app)
+      .post("/api/ask-ai-stream")
+      .send({ userId: "stream-empty" });
+
+    expect(res.status).toBe(400);
+    expect(res.body).toMatchObject({ success: false, error: "prompt is required", code: "invalid_request" });
+    expect(fake.calls).toHaveLength(0);
+  });
+
+  it("stops generating when the client disconnects and caches nothing", async () => {
+    const body = { prompt: "Count slowly to twenty", userId: "stream-abort", chatId: "chat-abort", memory: false };
+    fake.on("Count slowly to twenty", {
+      chunks: Array.from({ length: 20 }, (_, i) => `${i + 1} `),
+      chunkDelayMs: 20,
+    });
+
+    const server = app.listen(0);
+    try {
+      const { port } = server.address() as AddressInfo;
+      const controller = new AbortController();
+      const res = await fetch(`http://127.0.0.1:${port}/api/ask-ai-stream`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+      await res.body!.getReader().read(); // First frame
+      controller.abort();
+      await new Promise((resolve) => setTimeout(resolve, 200));
+    } finally {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    }
+
+    expect(fake.answerCalls()[0].chunksYielded).toBeLessThan(20);
+
+    // The lock was released and the partial answer wasn't cached
+    const retry = await request(app).post("/api/ask-ai-stream").send(body);
+    const events = parseSSE(retry.text);
+    expect(events.some((e) => e.cached || e.error)).toBe(false);
+    expect(events[events.length - 1].done).toBe(true);
+    expect(fake.answerCalls()).toHaveLength(2);
+  });
+
+  it("adds the user profile on the first messages of a chat", async () => {
+    await request(app).post("/api/ask-ai-stream").send({
+      prompt: "Plan my study schedule",
+      userId: "stream-profile",
+      userName: "Grace",
+      messageCount: 0,
+    });
+
+    expect(fake.answerCalls()[0].systemInstruction).toContain("The user's name is Grace.");
+  });
+});
+
+describe("/api/ask-ai-stream feature parity", () => {
+  it("emits an image frame for image generation intents", async () => {
+    scriptIntent(fake, "imageGenerate");
+    fake.on((call) => call.requires.includes("imageOutput"), {
+      imageBase64: TINY_PNG_BASE64,
+      text: "A lighthouse at dusk",
+    });
+
+    const res = await request(app).post("/api/ask-ai-stream").send({
+      prompt: "draw a lighthouse at dusk",
+      userId: "stream-imagegen",
+      chatId: "chat-stream-imagegen",
+    });
+
+    const events = parseSSE(res.text);
+    expect(events[0].image).toMatchObject({
+      kind: "generate",
+      text: "A lighthouse at dusk",
+      imageBase64: TINY_PNG_BASE64,
+    });
+    expect(events[1]).toMatchObject({ done: true, provider: "fake" });
+
+    await flushBackgroundWork();
+    const chat = firestore.getChat("stream-imagegen", "chat-stream-imagegen");
+    expect(chat?.messages[1].attachments?.[0]).toContain("storage.test");
+  });
+
+  it("streams answers about an uploaded image", async () => {
+    scriptIntent(fake, "visionQA");
+    fake.on("how many people appear", { chunks: ["There are ", "no people."] });
+
+    const res = await request(app)
+      .post("/api/ask-ai-stream")
+      .field("prompt", "how many people appear here?")
+      .field("userId", "stream-vision")
+      .field("memory", "false")
+      .attach("image", Buffer.from(TINY_PNG_BASE64, "base64"), "photo.png");
+
+    const events = parseSSE(res.text);
+    expect(events.filter((e) => "text" in e).map((e) => e.text).join("")).toBe("There are no people.");
+    expect(events[events.length - 1].done).toBe(true);
+
+    const visionCall = fake.answerCalls()[0];
+    expect(visionCall.inlineData).toHaveLength(1);
+    expect(visionCall.requires).not.toContain("imageOutput");
+  });
+
+  it("answers from a stored document and saves the turn", async () => {
+    const stored = await request(app).post("/api/process-document").send({
+      fileBase64: Buffer.from("The Orion budget is 3 million.").toString("base64"),
+      mimeType: "text/plain",
+      storeInMemory: true,
+      userId: "stream-doc",
+      fileName: "orion.txt",
+    });
+    fake.reset();
+    scriptIntent(fake, "text");
+    fake.on("What is the Orion budget", { chunks: ["3 million."] });
+
+    await request(app).post("/api/ask-ai-stream").send({
+      prompt: "What is the Orion budget?",
+      userId: "stream-doc",
+      chatId: "chat-stream-doc",
+      documentId: stored.body.documentId,
+    });
+
+    expect(fake.answerCalls()[0].prompt).toContain("DOCUMENT CONTEXT");
+    await flushBackgroundWork();
+    const chat = firestore.getChat("stream-doc", "chat-stream-doc");
+    expect(chat?.messages.map((m) => m.content)).toEqual(["What is the Orion budget?", "3 million."]);
+  });
+});
+
+describe("resuming /api/ask-ai-stream", () => {
+  const COUNT = Array.from({ length: 10 }, (_, i) => `${i + 1} `);
+
+  /**
+   * Start a stream over a real socket, read its first frame(s), then drop the connection
+   */
+  async function startAndDrop(body: Record<string, any>): Promise<{ id: string; data: any }[]> {
+    const server = app.listen(0);
+    try {
+      const { port } = server.address() as AddressInfo;
+      const controller = new AbortController();
+      const res = await fetch(`http://127.0.0.1:${port}/api/ask-ai-stream`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+      const { value } = await res.body!.getReader().read();
+      controller.abort();
+      const text = new TextDecoder().decode(value);
+      // Only whole frames count as received
+      return parseSSEFrames(text.slice(0, text.lastIndexOf("\n\n") + 2)) as { id: string; data: any }[];
+    } finally {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    }
+  }
+
+  it("tags frames with ids and replays what came after Last-Event-ID", async () => {
+    fake.on("Name the planets", { chunks: ["Mercury, ", "Venus, ", "Earth, ", "Mars."] });
+
+    const res = await request(app)
+      .post("/api/ask-ai-stream")
+      .send({ prompt: "Name the planets", userId: "resume-replay", memory: false });
+    const frames = parseSSEFrames(res.text);
+    expect(frames.every((f) => f.id)).toBe(true);
+    const [streamId] = frames[0].id!.split(":");
+
+    const replay = await request(app)
+      .get(`/api/ask-ai-stream/${streamId}`)
+      .set("X-User-Id", "resume-replay")
+      .set("Last-Event-ID", frames[1].id!);
+
+    expect(replay.status).toBe(200);
+    expect(parseSSEFrames(replay.text)).toEqual(frames.slice(2));
+  });
+
+  it("keeps generating while a resumable client reconnects", async () => {
+    fake.on("Count to ten", { chunks: COUNT, chunkDelayMs: 15 });
+
+    const received = await startAndDrop({
+      prompt: "Count to ten",
+      userId: "resume-live",
+      chatId: "chat-resume",
+      memory: false,
+      resumable: true,
+    });
+    const last = received[received.length - 1].id;
+    await new Promise((resolve) => setTimeout(resolve, 40));
+
+    const resumed = await request(app)
+      .get(`/api/ask-ai-stream/${last.split(":")[0]}`)
+      .set("X-User-Id", "resume-live")
+      .set("Last-Event-ID", last);
+    const events = [...received.map((f) => f.data), ...parseSSE(resumed.text)];
+
+    expect(events.map((e) => e.text ?? "").join("")).toBe(COUNT.join(""));
+    expect(events[events.length - 1].done).toBe(true);
+    expect(fake.answerCalls()).toHaveLength(1);
+    expect(fake.answerCalls()[0].chunksYielded).toBe(COUNT.length);
+  });
+
+  it("stops a detached resumable stream when it is cancelled", async () => {
+    fake.on("Count to ten", { chunks: COUNT, chunkDelayMs: 20 });
+
+    const received = await startAndDrop({
+      prompt: "Count to ten",
+      userId: "resume-cancel",
+      memory: false,
+      resumable: true,
+    });
+    const streamId = received[0].id.split(":")[0];
+
+    const stranger = await request(app).delete(`/api/ask-ai-stream/${streamId}`).set("X-User-Id", "someone-else");
+    expect(stranger.status).toBe(404);
+
+    const cancel = await request(app).delete(`/api/ask-ai-stream/${streamId}`).set("X-User-Id", "resume-cancel");
+    expect(cancel.status).toBe(200);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    expect(fake.answerCalls()[0].chunksYielded).toBeLessThan(COUNT.length);
+  });
+
+  it("rejects unknown streams and ids from another stream", async () => {
+    const unknown = await request(app).get("/api/ask-ai-stream/no-such-stream");
+    expect(unknown.status).toBe(404);
+
+    const mismatched = await request(app)
+      .get("/api/ask-ai-stream/stream-a")
+      .set("Last-Event-ID", "stream-b:3");
+    expect(mismatched.status).toBe(400);
+  });
+});
@@ -0,0 +1,122 @@
+import request from "supertest";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import { WebSocket } from "ws";
+import { createTestHarness, flushBackgroundWork, scriptIntent } from "./support/testApp";
+import { CHAT_SOCKET_PATH, getChatSocketService } from "../services/chatSocketService";
+
+// Tokens look like "valid:<uid>"; "valid:root" carries the admin claim
+jest.mock("../services/firebaseAdmin", () => ({
+  ...jest.requireActual("../services/firebaseAdmin"),
+  getAuth: () => ({
+    verifyIdToken: async (token: string) => {
+      const match = /^valid:(.+)$/.exec(token);
+      if (!match) throw Object.assign(new Error("Decoding Firebase ID token failed"), { code: "auth/argument-error" });
+      return { uid: match[1], email: `${match[1]}@example.com`, admin: match[1] === "root" };
+    },
+  }),
+}));
+
+const { app, fake, firestore } = createTestHarness();
+const bearer = (uid: string) => ({ Authorization: `Bearer valid:${uid}` });
+
+beforeAll(() => {
+  process.env.AUTH_BYPASS = "false";
+});
+
+afterAll(() => {
+  process.env.AUTH_BYPASS = "true";
+});
+
+beforeEach(() => {
+  fake.reset();
+});
+
+describe("ID token auth", () => {
+  it("requires a valid token everywhere but the health check", async () => {
+    expect((await request(app).get("/api")).status).toBe(200);
+
+    const missing = await request(app).get("/api/chats").query({ userId: "alice" });
+    expect(missing.status).toBe(401);
+    expect(missing.body.code).toBe("auth_required");
+
+    const invalid = await request(app)
+      .get("/api/chats")
+      .query({ userId: "alice" })
+      .set("Authorization", "Bearer forged");
+    expect(invalid.status).toBe(401);
+    expect(invalid.body.code).toBe("invalid_token");
+  });
+
+  it("blocks access to another user's data in the query, path and body", async () => {
+    const own = await request(app).get("/api/chats").query({ userId: "alice" }).set(bearer("alice"));
+    expect(own.status).toBe(200);
+
+    const query = await request(app).get("/api/chats").query({ userId: "bob" }).set(bearer("alice"));
+    expect(query.status).toBe(403);
+    expect(query.body.code).toBe("forbidden");
+
+    const path = await request(app).get("/api/get-user-profile/bob").set(bearer("alice"));
+    expect(path.status).toBe(403);
+    expect((await request(app).get("/api/debug-memories/bob").set(bearer("alice"))).status).toBe(403);
+
+    const body = await request(app)
+      .post("/api/end-chat")
+      .set(bearer("alice"))
+      .send({ userId: "bob", chatId: "chat-1" });
+    expect(body.status).toBe(403);
+  });
+
+  it("takes the user from the token when the body has none", async () => {
+    scriptIntent(fake, "text");
+    fake.setDefault({ text: "Hi Alice" });
+
+    const res = await request(app)
+      .post("/api/ask-ai")
+      .set(bearer("alice"))
+      .send({ prompt: "Hello there", chatId: "alice-chat", tools: false });
+    expect(res.status).toBe(200);
+
+    await flushBackgroundWork();
+    expect(firestore.getChat("alice", "alice-chat")?.messages).toHaveLength(2);
+  });
+
+  it("keeps admin routes to admins", async () => {
+    expect((await request(app).get("/api/admin/providers").set(bearer("alice"))).status).toBe(403);
+    expect((await request(app).get("/api/admin/providers").set(bearer("root"))).status).toBe(200);
+  });
+});
+
+describe("WebSocket auth", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = app.listen(0);
+    getChatSocketService().attach(server);
+    await new Promise((resolve) => server.once("listening", resolve));
+    baseUrl = `ws://127.0.0.1:${(server.address() as AddressInfo).port}${CHAT_SOCKET_PATH}`;
+  });
+
+  afterAll(async () => {
+    getChatSocketService().close();
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const connect = (query: string) =>
+    new Promise<{ opened: boolean; status?: number }>((resolve) => {
+      const socket = new WebSocket(`${baseUrl}?${query}`);
+      socket.once("open", () => {
+        socket.close();
+        resolve({ opened: true });
+      });
+      socket.once("unexpected-response", (_req, res) => resolve({ opened: false, status: res.statusCode }));
+    });
+
+  it("accepts a valid token and rejects missing or foreign identities", async () => {
+    expect(await connect("token=valid:alice")).toEqual({ opened: true });
+    expect(await connect("userId=alice")).toEqual({ opened: false, status: 401 });
+    expect(await connect("token=valid:alice&userId=bob")).toEqual({ opened: false, status: 403 });
+  });
+});
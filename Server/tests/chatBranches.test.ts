@@ -0,0 +1,140 @@
+import request from "supertest";
+import { createTestHarness, flushBackgroundWork, scriptIntent } from "./support/testApp";
+import { getHybridMemoryService } from "../services/hybridMemoryService";
+import { getConversationService } from "../services/conversationService";
+
+const { app, fake, firestore } = createTestHarness();
+
+beforeEach(() => {
+  fake.reset();
+  firestore.clear();
+});
+
+const at = (minute: number) => Date.UTC(2026, 0, 1, 12, minute);
+
+describe("POST /api/chats/:chatId/active-branch", () => {
+  it("rebuilds memory and the stored transcript from the active branch", async () => {
+    const userId = "branch-user";
+    const chatId = "chat-branches";
+    const memory = getHybridMemoryService();
+    for (const [prompt, answer] of [
+      ["Name a sorting algorithm", "Quicksort."],
+      ["How fast is it?", "O(n log n) on average."],
+    ]) {
+      await firestore.saveTurn(memory.storeConversationTurn(userId, prompt, answer, chatId));
+    }
+
+    // The second question was edited: the old question and its answer became a branch
+    const res = await request(app)
+      .post(`/api/chats/${chatId}/active-branch`)
+      .send({
+        userId,
+        messages: [
+          { id: "u1", role: "user", content: "Name a sorting algorithm", timestamp: at(0) },
+          { id: "a1", role: "assistant", content: "Quicksort.", timestamp: at(1) },
+          { id: "u2b", role: "user", content: "Is it stable?", timestamp: at(5) },
+          { id: "a2b", role: "assistant", content: "No, quicksort is not stable.", timestamp: at(6) },
+        ],
+        branches: [
+          { id: "u2", role: "user", content: "How fast is it?", timestamp: at(2), parentId: "a1" },
+          { id: "a2", role: "assistant", content: "O(n log n) on average.", timestamp: at(3), parentId: "u2" },
+        ],
+      });
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ success: true, turns: 2 });
+
+    const turns = getConversationService()
+      .getRecentConversations(userId, 10)
+      .filter((turn) => turn.chatId === chatId);
+    expect(turns.map((turn) => turn.userPrompt).sort()).toEqual(["Is it stable?", "Name a sorting algorithm"]);
+
+    const stored = firestore.getChat(userId, chatId)!;
+    expect(stored.messages.map((message) => message.id)).toEqual(["u1", "a1", "u2b", "a2b"]);
+    expect(stored.lastAssistantMessage).toBe("No, quicksort is not stable.");
+    expect(stored.title).toBe("Name a sorting algorithm");
+
+    const chats = await request(app).get("/api/chats").query({ userId });
+    expect(chats.body.data[0].branches).toEqual([
+      expect.objectContaining({ id: "u2", parentId: "a1" }),
+      expect.objectContaining({ id: "a2", parentId: "u2" }),
+    ]);
+  });
+
+  it("leaves a trailing prompt for its answer to store", async () => {
+    const userId = "branch-trailing";
+    const res = await request(app)
+      .post("/api/chats/chat-trailing/active-branch")
+      .send({
+        userId,
+        messages: [{ id: "u1", role: "user", content: "Regenerate this", timestamp: at(0) }],
+        branches: [{ id: "a1", role: "assistant", content: "First answer", timestamp: at(1), parentId: "u1" }],
+      });
+
+    expect(res.body).toEqual({ success: true, turns: 0 });
+    expect(firestore.getChat(userId, "chat-trailing")?.messages).toEqual([expect.objectContaining({ id: "u1", pending: true })]);
+
+    // The new answer completes the stored prompt rather than storing it again
+    scriptIntent(fake, "text");
+    fake.setDefault({ text: "Second answer" });
+    await request(app).post("/api/ask-ai").send({ prompt: "Regenerate this", userId, chatId: "chat-trailing" });
+    await flushBackgroundWork();
+
+    const stored = firestore.getChat(userId, "chat-trailing")!;
+    expect(stored.messages.map((message) => [message.role, message.content])).toEqual([
+      ["user", "Regenerate this"],
+      ["assistant", "Second answer"],
+    ]);
+    expect(stored.messages[0].id).toBe("u1"); // Branch parent links still point at it
+    expect(stored.messages[0].pending).toBeUndefined();
+    expect(stored.messageCount).toBe(2);
+
+    // Asking the same thing again is a new exchange, not another answer to the old prompt
+    await firestore.saveTurn({ id: "turn-again", userId, chatId: "chat-trailing", userPrompt: "Regenerate this", aiResponse: "Third answer", timestamp: at(9) });
+    expect(firestore.getChat(userId, "chat-trailing")?.messages.map((message) => message.content)).toEqual([
+      "Regenerate this",
+      "Second answer",
+      "Regenerate this",
+      "Third answer",
+    ]);
+  });
+
+  it("keeps memory as it was when the branch can't be stored", async () => {
+    const userId = "branch-failed";
+    const memory = getHybridMemoryService();
+    await firestore.saveTurn(memory.storeConversationTurn(userId, "Name a color", "Blue.", "chat-failed"));
+    jest.spyOn(firestore, "replaceBranch").mockResolvedValueOnce(false);
+
+    const res = await request(app)
+      .post("/api/chats/chat-failed/active-branch")
+      .send({
+        userId,
+        messages: [
+          { id: "u1b", role: "user", content: "Name a shape", timestamp: at(0) },
+          { id: "a1b", role: "assistant", content: "A circle.", timestamp: at(1) },
+        ],
+        branches: [],
+      });
+
+    expect(res.status).toBe(503);
+    expect(res.body.success).toBe(false);
+    const turns = getConversationService()
+      .getRecentConversations(userId, 10)
+      .filter((turn) => turn.chatId === "chat-failed");
+    expect(turns.map((turn) => turn.userPrompt)).toEqual(["Name a color"]);
+    expect(firestore.getChat(userId, "chat-failed")?.lastAssistantMessage).toBe("Blue.");
+  });
+
+  it("requires parent links on branch messages", async () => {
+    const res = await request(app)
+      .post("/api/chats/chat-orphan/active-branch")
+      .send({
+        userId: "branch-orphan",
+        messages: [],
+        branches: [{ id: "a1", role: "assistant", content: "Lost", timestamp: at(0) }],
+      });
+
+    expect(res.status).toBe(400);
+    expect(res.body.issues[0].path).toBe("branches.0.parentId");
+  });
+});
@@ -0,0 +1,106 @@
+import request from "supertest";
+import { createTestHarness, TINY_PNG_BASE64 } from "./support/testApp";
+
+const { app } = createTestHarness();
+
+const at = (minute: number) => Date.UTC(2026, 0, 1, 12, minute);
+const dataUrl = `data:image/png;base64,${TINY_PNG_BASE64}`;
+
+const chat = {
+  id: "chat-export",
+  title: "Rain & haiku",
+  createdAt: at(0),
+  updatedAt: at(3),
+  pinned: true,
+  messages: [
+    { id: "u1", role: "user", content: "Write a haiku about **rain**", timestamp: at(1) },
+    {
+      id: "a1",
+      role: "assistant",
+      content: "```\nsoft rain on the roof\n```\n- <b>one</b>",
+      timestamp: at(2),
+      attachments: [dataUrl, "https://example.com/cloud.png"],
+      metadata: { model: "fake-model", tokens: 12 },
+    },
+  ],
+};
+
+const exportAs = (format: string, chats: unknown[] = [chat]) =>
+  request(app)
+    .post("/api/chats/export")
+    .set("X-User-Id", "export-user")
+    .send({ format, chats })
+    .buffer(true)
+    .parse((res, callback) => {
+      const chunks: Buffer[] = [];
+      res.on("data", (chunk: Buffer) => chunks.push(chunk));
+      res.on("end", () => callback(null, Buffer.concat(chunks)));
+    });
+
+describe("chat export", () => {
+  it("writes a markdown transcript named after the chat", async () => {
+    const res = await exportAs("markdown");
+    expect(res.status).toBe(200);
+    expect(res.headers["content-type"]).toContain("text/markdown");
+    expect(res.headers["content-disposition"]).toBe('attachment; filename="rain-haiku.md"');
+
+    const text = res.body.toString("utf-8");
+    expect(text).toContain("# Rain & haiku");
+    expect(text).toContain("Write a haiku about **rain**");
+    expect(text).toContain("![image](https://example.com/cloud.png)");
+    expect(text).not.toContain(TINY_PNG_BASE64);
+  });
+
+  it("keeps every field in json exports", async () => {
+    const res = await exportAs("json", [chat, { ...chat, id: "chat-2" }]);
+    expect(res.status).toBe(200);
+    expect(res.headers["content-disposition"]).toMatch(/filename="nubiqai-chats-\d{4}-\d{2}-\d{2}\.json"/);
+
+    const file = JSON.parse(res.body.toString("utf-8"));
+    expect(file).toMatchObject({ format: "nubiqai-chats", version: 1 });
+    expect(file.chats[0]).toEqual(chat);
+  });
+
+  it("inlines images into a self-contained html page", async () => {
+    const res = await exportAs("html");
+    expect(res.status).toBe(200);
+
+    const html = res.body.toString("utf-8");
+    expect(html).toContain("<title>Rain &amp; haiku</title>");
+    expect(html).toContain("<strong>rain</strong>");
+    expect(html).toContain("<pre><code>soft rain on the roof</code></pre>");
+    expect(html).toContain("<li>&lt;b&gt;one&lt;/b&gt;</li>");
+    expect(html).toContain(`<img src="${dataUrl}"`);
+    // Only our own images are fetched; others stay links
+    expect(html).toContain('<img src="https://example.com/cloud.png"');
+  });
+
+  it("renders a pdf", async () => {
+    const res = await exportAs("pdf");
+    expect(res.status).toBe(200);
+    expect(res.headers["content-type"]).toBe("application/pdf");
+    expect(res.body.subarray(0, 5).toString("latin1")).toBe("%PDF-");
+    expect(res.body.toString("latin1")).toContain("/Subtype /Image");
+  });
+
+  it("exports the whole history of long chats", async () => {
+    const messages = Array.from({ length: 60 }, (_, i) => ({
+      id: `m${i}`,
+      role: i % 2 ? "assistant" : "user",
+      content: `Message number ${i}`,
+      timestamp: at(i),
+    }));
+    const res = await exportAs("json", [{ ...chat, id: "chat-long", messages }]);
+    expect(res.status).toBe(200);
+    expect(JSON.parse(res.body.toString("utf-8")).chats[0].messages).toHaveLength(60);
+
+    const markdown = (await exportAs("markdown", [{ ...chat, id: "chat-long", messages }])).body.toString("utf-8");
+    expect(markdown).toContain("Message number 0\n");
+    expect(markdown).toContain("Message number 59\n");
+  });
+
+  it("rejects unknown formats", async () => {
+    const res = await exportAs("docx");
+    expect(res.status).toBe(400);
+  });
+});
@@ -0,0 +1,113 @@
+import request from "supertest";
+import { createTestHarness } from "./support/testApp";
+import { getConversationService } from "../services/conversationService";
+import { storeDocument } from "../services/documentCacheService";
+
+const { app, fake, firestore } = createTestHarness();
+
+beforeEach(() => {
+  fake.reset();
+  firestore.clear();
+});
+
+const at = (minute: number) => Date.UTC(2026, 0, 1, 12, minute);
+
+const path = [
+  { id: "u1", role: "user", content: "Plan a trip to Lisbon", timestamp: at(0) },
+  { id: "a1", role: "assistant", content: "Day 1: Alfama.", timestamp: at(1), attachments: ["https://example.com/map.png"] },
+  { id: "u2", role: "user", content: "Make it cheaper", timestamp: at(2) },
+  { id: "a2", role: "assistant", content: "Stay in hostels.", timestamp: at(3) },
+];
+
+describe("POST /api/chats/:chatId/fork", () => {
+  it("starts a new chat with the history up to the message, a summary and the documents", async () => {
+    const userId = "fork-user";
+    const { docId } = storeDocument({ fileName: "itinerary.txt", fullText: "Lisbon\n\nPorto" });
+    fake.on("You are a summarizer", {
+      text: JSON.stringify({ summary: "Planning a Lisbon trip.", keyFacts: ["Destination: Lisbon"] }),
+    });
+
+    const res = await request(app)
+      .post("/api/chats/chat-parent/fork")
+      .send({
+        userId,
+        newChatId: "chat-fork",
+        messageId: "a1",
+        messages: path,
+        documentIds: [docId, "doc_expired"],
+      });
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({
+      success: true,
+      chatId: "chat-fork",
+      turns: 1,
+      rollingSummary: { summary: "Planning a Lisbon trip.", keyFacts: ["Destination: Lisbon"] },
+      documentIds: [docId],
+    });
+
+    const turns = getConversationService()
+      .getRecentConversations(userId, 10)
+      .filter((turn) => turn.chatId === "chat-fork");
+    expect(turns.map((turn) => [turn.userPrompt, turn.imageUrl])).toEqual([
+      ["Plan a trip to Lisbon", "https://example.com/map.png"],
+    ]);
+
+    const stored = firestore.getChat(userId, "chat-fork")!;
+    expect(stored.messages.map((message) => message.id)).toEqual(["u1", "a1"]);
+    expect(stored.title).toBe("Plan a trip to Lisbon");
+    expect(stored.forkedFrom).toEqual({ chatId: "chat-parent", messageId: "a1", forkedAt: expect.any(Number) });
+    expect(stored.documentIds).toEqual([docId]);
+
+    const chats = await request(app).get("/api/chats").query({ userId });
+    expect(chats.body.data[0]).toMatchObject({
+      id: "chat-fork",
+      forkedFrom: { chatId: "chat-parent", messageId: "a1" },
+      rollingSummary: { summary: "Planning a Lisbon trip." },
+    });
+  });
+
+  it("rejects a message that is not on the path", async () => {
+    const res = await request(app)
+      .post("/api/chats/chat-parent/fork")
+      .send({ userId: "fork-missing", newChatId: "chat-fork", messageId: "nope", messages: path });
+
+    expect(res.status).toBe(400);
+    expect(res.body.success).toBe(false);
+    expect(firestore.getChat("fork-missing", "chat-fork")).toBeUndefined();
+  });
+
+  it("rejects forking a chat into itself", async () => {
+    const res = await request(app)
+      .post("/api/chats/chat-parent/fork")
+      .send({ userId: "fork-self", newChatId: "chat-parent", messageId: "a1", messages: path });
+
+    expect(res.status).toBe(400);
+  });
+
+  it("refuses to fork into a chat that already exists", async () => {
+    await firestore.saveTurn({ id: "turn_1", userId: "fork-taken", chatId: "chat-other", userPrompt: "Keep me", aiResponse: "Kept.", timestamp: at(0) });
+
+    const res = await request(app)
+      .post("/api/chats/chat-parent/fork")
+      .send({ userId: "fork-taken", newChatId: "chat-other", messageId: "a1", messages: path });
+
+    expect(res.status).toBe(409);
+    expect(firestore.getChat("fork-taken", "chat-other")?.messages.map((message) => message.content)).toEqual(["Keep me", "Kept."]);
+  });
+
+  it("reports a fork that couldn't be stored", async () => {
+    jest.spyOn(firestore, "createFork").mockResolvedValueOnce(false);
+
+    const res = await request(app)
+      .post("/api/chats/chat-parent/fork")
+      .send({ userId: "fork-failed", newChatId: "chat-fork", messageId: "a1", messages: path });
+
+    expect(res.status).toBe(500);
+    expect(res.body.success).toBe(false);
+    const turns = getConversationService()
+      .getRecentConversations("fork-failed", 10)
+      .filter((turn) => turn.chatId === "chat-fork");
+    expect(turns).toHaveLength(0);
+  });
+});
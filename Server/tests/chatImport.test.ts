@@ -0,0 +1,221 @@
+import JSZip from "jszip";
+import request from "supertest";
+import { createTestHarness } from "./support/testApp";
+import { getChatImportService } from "../services/chatImportService";
+
+const { app, firestore, embeddings } = createTestHarness();
+
+beforeEach(() => {
+  firestore.clear();
+  embeddings.clear();
+  getChatImportService().clear();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+const seconds = (minute: number) => Date.UTC(2024, 4, 1, 10, minute) / 1000;
+
+const node = (id: string, parent: string | null, children: string[], role?: string, text?: string, minute = 0) => ({
+  id,
+  parent,
+  children,
+  message: role
+    ? { id, author: { role }, content: { content_type: "text", parts: [text] }, create_time: seconds(minute) }
+    : null,
+});
+
+// A ChatGPT conversation whose first answer was regenerated; "a1b" is the answer kept
+const chatGptConversation = {
+  id: "conv-1",
+  title: "Sourdough help",
+  create_time: seconds(0),
+  update_time: seconds(9),
+  current_node: "a1b",
+  mapping: {
+    root: node("root", null, ["sys"]),
+    sys: node("sys", "root", ["u1"], "system", "You are ChatGPT"),
+    u1: node("u1", "sys", ["a1a", "a1b"], "user", "Why is my bread flat?", 1),
+    a1a: node("a1a", "u1", [], "assistant", "Your starter is weak.", 2),
+    a1b: node("a1b", "u1", [], "assistant", "Try a longer proof.", 3),
+  },
+};
+
+const zipOf = async (files: Record<string, string>) => {
+  const zip = new JSZip();
+  for (const [name, text] of Object.entries(files)) zip.file(name, text);
+  return zip.generateAsync({ type: "nodebuffer" });
+};
+
+const upload = (userId: string, archive: Buffer, fileName: string, fields: Record<string, string> = {}) => {
+  const req = request(app).post("/api/chats/import").field("userId", userId);
+  for (const [name, value] of Object.entries(fields)) req.field(name, value);
+  return req.attach("archive", archive, fileName);
+};
+
+describe("POST /api/chats/import", () => {
+  it("imports a ChatGPT export with its regenerated answers as branches", async () => {
+    const archive = await zipOf({
+      "conversations.json": JSON.stringify([chatGptConversation]),
+      "user.json": JSON.stringify({ id: "user-abc", email: "me@example.com" }),
+    });
+
+    const res = await upload("import-user", archive, "chatgpt-export.zip");
+    expect(res.status).toBe(200);
+    expect(res.body.importId).toBeNull();
+    expect(res.body.chats).toHaveLength(1);
+
+    const [chat] = res.body.chats;
+    expect(chat).toMatchObject({ id: "chatgpt-conv-1", title: "Sourdough help", source: "chatgpt" });
+    expect(chat.createdAt).toBe(seconds(0) * 1000);
+    expect(chat.messages.map((m: { id: string; role: string }) => [m.id, m.role])).toEqual([
+      ["u1", "user"],
+      ["a1b", "assistant"],
+    ]);
+    expect(chat.branches).toEqual([expect.objectContaining({ id: "a1a", parentId: "u1", content: "Your starter is weak." })]);
+
+    const stored = firestore.getChat("import-user", "chatgpt-conv-1");
+    expect(stored).toMatchObject({ title: "Sourdough help", messageCount: 2, importedFrom: { source: "chatgpt" } });
+
+    // Importing the same archive again replaces the chat
+    await upload("import-user", archive, "chatgpt-export.zip");
+    expect((await firestore.listActiveChats("import-user")).map((c) => c.id)).toEqual(["chatgpt-conv-1"]);
+  });
+
+  it("reads Claude exports and Markdown transcripts", async () => {
+    const claude = [
+      {
+        uuid: "claude-1",
+        name: "Tax question",
+        created_at: "2024-05-01T10:00:00.000000Z",
+        chat_messages: [
+          { uuid: "m1", sender: "human", text: "Can I deduct my desk?", created_at: "2024-05-01T10:00:01Z" },
+          { uuid: "m2", sender: "assistant", text: "Usually, if you work from home.", created_at: "2024-05-01T10:00:05Z" },
+        ],
+      },
+    ];
+    const claudeRes = await upload("import-user", Buffer.from(JSON.stringify(claude)), "conversations.json");
+    expect(claudeRes.status).toBe(200);
+    expect(claudeRes.body.chats[0]).toMatchObject({ id: "claude-claude-1", title: "Tax question", source: "claude" });
+    expect(claudeRes.body.chats[0].messages.map((m: { content: string }) => m.content)).toEqual([
+      "Can I deduct my desk?",
+      "Usually, if you work from home.",
+    ]);
+
+    const markdown = [
+      "# Trip plan",
+      "",
+      "**User:** Where should I go in May?",
+      "",
+      "**Assistant:** Lisbon. For example:",
+      "```",
+      "User: not a speaker inside code",
+      "```",
+      "![map](https://example.com/lisbon.png)",
+    ].join("\n");
+    const mdRes = await upload("import-user", Buffer.from(markdown), "trip.md");
+    expect(mdRes.status).toBe(200);
+    const [chat] = mdRes.body.chats;
+    expect(chat).toMatchObject({ title: "Trip plan", source: "markdown" });
+    expect(chat.messages).toHaveLength(2);
+    expect(chat.messages[1].content).toContain("User: not a speaker inside code");
+    expect(chat.messages[1].attachments).toEqual(["https://example.com/lisbon.png"]);
+  });
+
+  it("backfills long-term memory in the background and reports progress", async () => {
+    const archive = Buffer.from(JSON.stringify([chatGptConversation]));
+    const res = await upload("backfill-user", archive, "conversations.json", { backfill: "true" });
+    expect(res.status).toBe(200);
+    expect(res.body.importId).toEqual(expect.any(String));
+
+    let status: any;
+    for (let i = 0; i < 50; i++) {
+      const poll = await request(app).get(`/api/chats/import/${res.body.importId}`).query({ userId: "backfill-user" });
+      expect(poll.status).toBe(200);
+      status = poll.body.import;
+      if (status.status === "done") break;
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+    expect(status).toMatchObject({ status: "done", totalChats: 1, processedChats: 1, failedChats: 0, storedTurns: 1 });
+
+    const vectors = Array.from(embeddings.items.values()).filter((item) => item.metadata.chatId === "chatgpt-conv-1");
+    expect(vectors.map((item) => item.content).sort()).toEqual(["Try a longer proof.", "Why is my bread flat?"]);
+    expect(firestore.getChat("backfill-user", "chatgpt-conv-1")?.pendingPersistence).toBe(false);
+
+    const stranger = await request(app).get(`/api/chats/import/${res.body.importId}`).query({ userId: "someone-else" });
+    expect(stranger.status).toBe(404);
+  });
+
+  it("keeps file-supplied ids to valid chat ids and never overwrites a live chat", async () => {
+    const live = [
+      { id: "l1", role: "user" as const, content: "My real chat", timestamp: 1000 },
+      { id: "l2", role: "assistant" as const, content: "Still here", timestamp: 2000 },
+    ];
+    await firestore.replaceBranch("import-user", "chat-live", live, []);
+    const file = {
+      format: "nubiqai-chats",
+      chats: [
+        { id: "chat-live", title: "Old export", messages: [{ role: "user", content: "Exported copy" }] },
+        { id: "../not an id", title: "Odd id", messages: [{ role: "user", content: "Hello" }] },
+      ],
+    };
+
+    const res = await upload("import-user", Buffer.from(JSON.stringify(file)), "nubiqai-chats.json");
+    expect(res.status).toBe(200);
+    const ids = res.body.chats.map((chat: { id: string }) => chat.id).sort();
+    expect(ids).toEqual([expect.stringMatching(/^chat-live-[0-9a-f]{20}$/), expect.stringMatching(/^nubiqai-[0-9a-f]{20}$/)]);
+    expect(firestore.getChat("import-user", "chat-live")?.messages[0].content).toBe("My real chat");
+
+    // Importing the file again replaces the copies it made
+    const again = await upload("import-user", Buffer.from(JSON.stringify(file)), "nubiqai-chats.json");
+    expect(again.body.chats.map((chat: { id: string }) => chat.id).sort()).toEqual(ids);
+  });
+
+  it("reports chats that couldn't be stored and leaves them out", async () => {
+    const conversations = [chatGptConversation, { ...chatGptConversation, id: "conv-2", title: "Pizza dough" }];
+    jest.spyOn(firestore, "importChat").mockResolvedValueOnce(false);
+
+    const res = await upload("import-user", Buffer.from(JSON.stringify(conversations)), "conversations.json");
+    expect(res.status).toBe(200);
+    expect(res.body.failedChats).toEqual([{ id: "chatgpt-conv-1", title: "Sourdough help" }]);
+    expect(res.body.chats.map((chat: { id: string }) => chat.id)).toEqual(["chatgpt-conv-2"]);
+
+    jest.spyOn(firestore, "importChat").mockResolvedValue(false);
+    const none = await upload("import-user", Buffer.from(JSON.stringify(conversations)), "conversations.json");
+    expect(none.status).toBe(503);
+    expect(none.body.failedChats).toEqual([
+      { id: "chatgpt-conv-1", title: "Sourdough help" },
+      { id: "chatgpt-conv-2", title: "Pizza dough" },
+    ]);
+  });
+
+  it("refuses archives that unzip past the size limit, whatever their headers claim", async () => {
+    process.env.MAX_IMPORT_UNCOMPRESSED_MB = "1";
+    try {
+      const bomb = await zipOf({ "conversations.json": JSON.stringify([{ ...chatGptConversation, title: "x".repeat(2 * 1024 * 1024) }]) });
+      const res = await upload("import-user", bomb, "bomb.zip");
+      expect(res.status).toBe(413);
+      expect(res.body.error).toBe("bomb.zip unzips to more than 1 MB");
+
+      // Claim a tiny uncompressed size in both the local and the central directory headers
+      const lying = Buffer.from(bomb);
+      lying.writeUInt32LE(100, lying.indexOf(Buffer.from([0x50, 0x4b, 0x03, 0x04])) + 22);
+      lying.writeUInt32LE(100, lying.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02])) + 24);
+      const lied = await upload("import-user", lying, "bomb.zip");
+      expect(lied.status).toBe(413);
+      expect(firestore.getChat("import-user", "chatgpt-conv-1")).toBeUndefined();
+    } finally {
+      delete process.env.MAX_IMPORT_UNCOMPRESSED_MB;
+    }
+  });
+
+  it("rejects uploads without conversations", async () => {
+    const res = await upload("import-user", Buffer.from(JSON.stringify({ hello: "world" })), "notes.json");
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe("No conversations found in notes.json");
+
+    const missing = await request(app).post("/api/chats/import").field("userId", "import-user");
+    expect(missing.status).toBe(400);
+  });
+});
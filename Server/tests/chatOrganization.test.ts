@@ -0,0 +1,95 @@
+import request from "supertest";
+import { createTestHarness } from "./support/testApp";
+import { getHybridMemoryService } from "../services/hybridMemoryService";
+
+const { app, firestore, embeddings } = createTestHarness();
+
+beforeEach(() => {
+  firestore.clear();
+  embeddings.clear();
+});
+
+const turn = (userId: string, chatId: string, id: string, userPrompt: string, aiResponse: string) =>
+  firestore.saveTurn({ id, userId, chatId, userPrompt, aiResponse, timestamp: 1000 });
+
+const file = (userId: string, chatId: string, changes: Record<string, unknown>) =>
+  request(app)
+    .post(`/api/chats/${chatId}/organization`)
+    .send({ userId, ...changes });
+
+describe("POST /api/chats/:chatId/organization", () => {
+  it("files a chat in a folder with tags and pins it", async () => {
+    await turn("org-user", "chat-1", "turn_1", "Quarterly plan", "Here it is.");
+
+    const res = await file("org-user", "chat-1", { folder: " Work ", tags: ["q3", "Planning", "planning"], pinned: true });
+    expect(res.status).toBe(200);
+    expect(res.body.organization).toEqual({ folder: "Work", tags: ["q3", "Planning"], pinnedAt: expect.any(Number) });
+
+    // Other devices see the filing when they load their chats
+    const list = await request(app).get("/api/chats").query({ userId: "org-user" });
+    expect(list.body.data[0]).toMatchObject({ id: "chat-1", folder: "Work", tags: ["q3", "Planning"] });
+    expect(list.body.data[0].pinnedAt).toBe(res.body.organization.pinnedAt);
+
+    // Fields left out stay as they are
+    const unpinned = await file("org-user", "chat-1", { pinned: false, folder: null });
+    expect(unpinned.body.organization).toEqual({ folder: null, tags: ["q3", "Planning"], pinnedAt: null });
+  });
+
+  it("404s for chats that aren't stored", async () => {
+    const res = await file("org-user", "missing", { pinned: true });
+    expect(res.status).toBe(404);
+  });
+});
+
+describe("POST /api/chats/folders/rename", () => {
+  it("moves every chat in the folder", async () => {
+    await turn("org-user", "chat-1", "turn_1", "One", "1");
+    await turn("org-user", "chat-2", "turn_2", "Two", "2");
+    await turn("org-user", "chat-3", "turn_3", "Three", "3");
+    await file("org-user", "chat-1", { folder: "Work" });
+    await file("org-user", "chat-2", { folder: "Work" });
+    await file("org-user", "chat-3", { folder: "Home" });
+
+    const res = await request(app)
+      .post("/api/chats/folders/rename")
+      .send({ userId: "org-user", from: "Work", to: "Job" });
+    expect(res.status).toBe(200);
+    expect(res.body.updated).toBe(2);
+    expect(firestore.getChat("org-user", "chat-1")?.folder).toBe("Job");
+    expect(firestore.getChat("org-user", "chat-3")?.folder).toBe("Home");
+
+    await request(app).post("/api/chats/folders/rename").send({ userId: "org-user", from: "Job", to: null });
+    expect(firestore.getChat("org-user", "chat-2")?.folder).toBeNull();
+  });
+});
+
+describe("new-chat memory scope", () => {
+  const remember = (chatId: string, content: string) =>
+    embeddings.storeMemory({
+      id: `scope-user:${chatId}:t:user`,
+      content,
+      metadata: { timestamp: 1000, type: "conversation", userId: "scope-user", chatId, turnId: "t", role: "user" },
+    });
+
+  it("only recalls chats in the folder or with the tag", async () => {
+    await turn("scope-user", "chat-work", "t", "budget for the offsite", "Noted.");
+    await turn("scope-user", "chat-home", "t", "budget for the kitchen", "Noted.");
+    await remember("chat-work", "budget for the offsite");
+    await remember("chat-home", "budget for the kitchen");
+    await file("scope-user", "chat-work", { folder: "Work", tags: ["q3"] });
+
+    const recall = async (scope?: { folder?: string; tag?: string }) => {
+      const result = await getHybridMemoryService().searchMemory("scope-user", "budget", undefined, 0, {
+        threshold: 0.1,
+        maxLongTermResults: 5,
+        scope,
+      });
+      return result.longTermResults.map((memory) => memory.metadata.chatId).sort();
+    };
+
+    expect(await recall()).toEqual(["chat-home", "chat-work"]);
+    expect(await recall({ folder: "Work" })).toEqual(["chat-work"]);
+    expect(await recall({ tag: "q3" })).toEqual(["chat-work"]);
+    expect(await recall({ tag: "unused" })).toEqual([]);
+  });
+});
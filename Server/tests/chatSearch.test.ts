@@ -0,0 +1,78 @@
+import request from "supertest";
+import { createTestHarness } from "./support/testApp";
+
+const { app, firestore, embeddings } = createTestHarness();
+
+beforeEach(() => {
+  firestore.clear();
+  embeddings.clear();
+});
+
+const turn = (userId: string, chatId: string, id: string, userPrompt: string, aiResponse: string, timestamp: number) =>
+  firestore.saveTurn({ id, userId, chatId, userPrompt, aiResponse, timestamp });
+
+const memory = (userId: string, chatId: string, turnId: string, role: "user" | "assistant", content: string, timestamp: number) =>
+  embeddings.storeMemory({
+    id: `${userId}:${chatId}:${turnId}:${role}`,
+    content,
+    metadata: { timestamp, type: "conversation", userId, chatId, turnId, role },
+  });
+
+const search = (userId: string, q: string) => request(app).get("/api/chats/search").query({ userId, q });
+
+describe("GET /api/chats/search", () => {
+  it("merges keyword and semantic matches per message", async () => {
+    await turn("search-user", "chat-bread", "turn_1", "Flat sourdough again?", "A short proof usually makes flat sourdough.", 2000);
+    await turn("search-user", "chat-trip", "turn_2", "Plan a trip to Lisbon", "Lisbon in May is lovely.", 3000);
+    await turn("other-user", "chat-theirs", "turn_3", "Flat sourdough", "Same here.", 4000);
+    await memory("search-user", "chat-bread", "turn_1", "user", "Flat sourdough again?", 2000);
+    await memory("other-user", "chat-theirs", "turn_3", "user", "Flat sourdough", 4000);
+    // A chat that only survives in long-term memory
+    await memory("search-user", "chat-old", "turn_0", "user", "flat sourdough", 1000);
+
+    const res = await search("search-user", "flat sourdough");
+    expect(res.status).toBe(200);
+    expect(
+      res.body.results.map((r: { chatId: string; messageId: string; matchedBy: string[] }) => [r.chatId, r.messageId, r.matchedBy])
+    ).toEqual([
+      ["chat-bread", "turn_1-user", ["keyword", "semantic"]],
+      ["chat-old", "turn_0-user", ["semantic"]],
+      ["chat-bread", "turn_1-assistant", ["keyword"]],
+    ]);
+
+    const [best, old] = res.body.results;
+    expect(best).toMatchObject({
+      chatTitle: "Flat sourdough again?",
+      role: "user",
+      timestamp: 2000,
+      snippet: "Flat sourdough again?",
+      highlights: [
+        [0, 4],
+        [5, 14],
+      ],
+    });
+    expect(old).toMatchObject({ chatTitle: "Untitled chat", snippet: "flat sourdough" });
+  });
+
+  it("cuts long messages down to a snippet around the match", async () => {
+    const filler = "lorem ipsum dolor sit amet ".repeat(12);
+    await turn("search-user", "chat-long", "turn_1", "Tell me about bread", `${filler}Rye sourdough needs a warm spot. ${filler}`, 1000);
+
+    const res = await search("search-user", "rye sourdough");
+    expect(res.status).toBe(200);
+    const [result] = res.body.results;
+    expect(result.messageId).toBe("turn_1-assistant");
+    expect(result.snippet.startsWith("…")).toBe(true);
+    expect(result.snippet.endsWith("…")).toBe(true);
+    expect(result.snippet.length).toBeLessThan(200);
+    expect(result.highlights.map(([start, end]: [number, number]) => result.snippet.slice(start, end))).toEqual([
+      "Rye",
+      "sourdough",
+    ]);
+  });
+
+  it("rejects queries that are too short", async () => {
+    const res = await search("search-user", "a");
+    expect(res.status).toBe(400);
+  });
+});
@@ -0,0 +1,105 @@
+import request from "supertest";
+import { createTestHarness } from "./support/testApp";
+import { getChatShareService } from "../services/chatShareService";
+
+const { app, firestore } = createTestHarness();
+
+beforeEach(() => {
+  getChatShareService().clear();
+  firestore.clear();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  process.env.AUTH_BYPASS = "true";
+});
+
+const at = (minute: number) => Date.UTC(2026, 0, 1, 12, minute);
+
+const messages: Array<{ id: string; role: "user" | "assistant"; content: string; timestamp: number; attachments?: string[] }> = [
+  { id: "u1", role: "user", content: "Write a haiku about **rain**", timestamp: at(1) },
+  {
+    id: "a1",
+    role: "assistant",
+    content: "```\nsoft rain on the roof\n```",
+    timestamp: at(2),
+    attachments: ["https://firebasestorage.googleapis.com/v0/b/app/o/rain.png"],
+  },
+];
+
+const share = async (userId: string, body: Record<string, unknown> = {}) => {
+  await firestore.replaceBranch(userId, "chat-shared", messages, []);
+  const res = await request(app)
+    .post("/api/chats/chat-shared/shares")
+    .set("X-User-Id", userId)
+    .send(body);
+  expect(res.status).toBe(201);
+  return res.body.share as { token: string; messageCount: number; expiresAt: number | null };
+};
+
+describe("chat share links", () => {
+  it("serves a snapshot of the stored chat to anyone with the link", async () => {
+    // Content in the request body is ignored - only the stored transcript is shared
+    const { token, messageCount, expiresAt } = await share("share-owner", {
+      title: "Made up",
+      messages: [{ id: "x1", role: "user", content: "Never said this", timestamp: at(0) }],
+    });
+    expect(messageCount).toBe(2);
+    expect(expiresAt).toBeNull();
+
+    process.env.AUTH_BYPASS = "false";
+    const res = await request(app).get(`/api/shared/${token}`);
+    expect(res.status).toBe(200);
+    expect(res.body.chat.title).toBe("Write a haiku about **rain**");
+    expect(res.body.chat.messages.map((m: { id: string }) => m.id)).toEqual(["u1", "a1"]);
+    expect(res.body.chat.messages[1].attachments).toEqual([messages[1].attachments![0]]);
+    expect(JSON.stringify(res.body)).not.toContain("Never said this");
+  });
+
+  it("says how many earlier messages a long chat's snapshot leaves out", async () => {
+    const long = Array.from({ length: 50 }, (_, i) => ({
+      id: `m${i}`,
+      role: i % 2 ? ("assistant" as const) : ("user" as const),
+      content: `Message number ${i}`,
+      timestamp: at(i),
+    }));
+    await firestore.replaceBranch("share-owner", "chat-long", long, []);
+    const res = await request(app).post("/api/chats/chat-long/shares").set("X-User-Id", "share-owner").send({});
+    expect(res.status).toBe(201);
+    expect(res.body.share).toMatchObject({ messageCount: 40, omittedMessages: 10 });
+
+    const shared = await request(app).get(`/api/shared/${res.body.share.token}`);
+    expect(shared.body.chat.omittedMessages).toBe(10);
+    expect(shared.body.chat.messages[0].content).toBe("Message number 10");
+  });
+
+  it("404s for chats the caller doesn't have", async () => {
+    await firestore.replaceBranch("someone-else", "chat-theirs", messages, []);
+    const res = await request(app).post("/api/chats/chat-theirs/shares").set("X-User-Id", "share-owner").send({});
+    expect(res.status).toBe(404);
+  });
+
+  it("stops serving a link once its owner revokes it", async () => {
+    const { token } = await share("share-revoker");
+
+    const stranger = await request(app).delete(`/api/shares/${token}`).set("X-User-Id", "someone-else");
+    expect(stranger.status).toBe(404);
+
+    const revoked = await request(app).delete(`/api/shares/${token}`).set("X-User-Id", "share-revoker");
+    expect(revoked.status).toBe(200);
+    expect((await request(app).get(`/api/shared/${token}`)).status).toBe(404);
+
+    const list = await request(app).get("/api/shares").set("X-User-Id", "share-revoker");
+    expect(list.body.shares).toEqual([expect.objectContaining({ token, revokedAt: expect.any(Number) })]);
+  });
+
+  it("expires links after the chosen number of days", async () => {
+    jest.useFakeTimers({ now: at(0), doNotFake: ["nextTick", "setImmediate"] });
+    const { token, expiresAt } = await share("share-expiry", { expiresInDays: 7 });
+    expect(expiresAt).toBe(at(0) + 7 * 24 * 60 * 60 * 1000);
+    expect((await request(app).get(`/api/shared/${token}`)).status).toBe(200);
+
+    jest.setSystemTime(at(0) + 8 * 24 * 60 * 60 * 1000);
+    expect((await request(app).get(`/api/shared/${token}`)).status).toBe(404);
+  });
+});
@@ -0,0 +1,167 @@
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import { WebSocket } from "ws";
+import { createTestHarness, scriptIntent } from "./support/testApp";
+import { CHAT_SOCKET_PATH, getChatSocketService } from "../services/chatSocketService";
+import type { ServerMessage } from "../services/chatSocketService";
+
+const { app, fake } = createTestHarness();
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = app.listen(0);
+  getChatSocketService().attach(server);
+  await new Promise((resolve) => server.once("listening", resolve));
+  const { port } = server.address() as AddressInfo;
+  baseUrl = `ws://127.0.0.1:${port}${CHAT_SOCKET_PATH}`;
+});
+
+afterAll(async () => {
+  getChatSocketService().close();
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  fake.reset();
+  scriptIntent(fake, "text");
+});
+
+/**
+ * Open a socket and collect everything the server sends
+ */
+async function connect(userId: string) {
+  const socket = new WebSocket(`${baseUrl}?userId=${userId}`);
+  const received: ServerMessage[] = [];
+  const waiters: { match: (m: ServerMessage) => boolean; resolve: (m: ServerMessage) => void }[] = [];
+
+  socket.on("message", (raw) => {
+    const message = JSON.parse(raw.toString()) as ServerMessage;
+    received.push(message);
+    for (const waiter of [...waiters]) {
+      if (waiter.match(message)) {
+        waiters.splice(waiters.indexOf(waiter), 1);
+        waiter.resolve(message);
+      }
+    }
+  });
+  await new Promise((resolve, reject) => socket.once("open", resolve).once("error", reject));
+
+  return {
+    socket,
+    received,
+    send: (message: Record<string, any>) => socket.send(JSON.stringify(message)),
+    next: (match: (m: ServerMessage) => boolean) =>
+      new Promise<ServerMessage>((resolve) => {
+        const seen = received.find(match);
+        if (seen) return resolve(seen);
+        waiters.push({ match, resolve });
+      }),
+    close: () => socket.close(),
+  };
+}
+
+const forRequest = (requestId: string, type: ServerMessage["type"]) => (m: ServerMessage) =>
+  m.type === type && "requestId" in m && m.requestId === requestId;
+
+describe("chat WebSocket", () => {
+  it("streams start, chunks and done for a request", async () => {
+    fake.on("Explain closures", { chunks: ["A closure ", "captures ", "its scope."] });
+    const client = await connect("ws-user");
+    try {
+      client.send({ type: "start", requestId: "r1", prompt: "Explain closures", memory: false });
+      const done = await client.next(forRequest("r1", "done"));
+
+      const types = client.received.map((m) => m.type);
+      expect(types[0]).toBe("start");
+      expect(
+        client.received.filter((m) => m.type === "chunk").map((m) => (m as { text: string }).text)
+      ).toEqual(["A closure ", "captures ", "its scope."]);
+      expect(done).toMatchObject({ type: "done", requestId: "r1", provider: "fake" });
+    } finally {
+      client.close();
+    }
+  });
+
+  it("multiplexes requests and cancels one without touching the other", async () => {
+    const slow = Array.from({ length: 20 }, (_, i) => `${i + 1} `);
+    fake.on("Count slowly", { chunks: slow, chunkDelayMs: 20 });
+    fake.on("Name three colours", { chunks: ["red, ", "green, ", "blue"] });
+    const client = await connect("ws-multi");
+    try {
+      client.send({ type: "start", requestId: "slow", chatId: "chat-a", prompt: "Count slowly", memory: false });
+      client.send({ type: "start", requestId: "fast", chatId: "chat-b", prompt: "Name three colours", memory: false });
+
+      await client.next(forRequest("slow", "chunk"));
+      client.send({ type: "cancel", requestId: "slow" });
+      await client.next(forRequest("slow", "cancel"));
+      await client.next(forRequest("fast", "done"));
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      expect(client.received.some(forRequest("slow", "done"))).toBe(false);
+      const slowCall = fake.answerCalls().find((c) => c.prompt === "Count slowly")!;
+      expect(slowCall.chunksYielded).toBeLessThan(20);
+    } finally {
+      client.close();
+    }
+  });
+
+  it("regenerates past the response cache", async () => {
+    fake.setDefault({ text: "Paris is the capital of France." });
+    const client = await connect("ws-regen");
+    try {
+      const start = { type: "start", prompt: "What is the capital of France", memory: false };
+      client.send({ ...start, requestId: "a" });
+      await client.next(forRequest("a", "done"));
+      client.send({ ...start, requestId: "b" });
+      expect(await client.next(forRequest("b", "done"))).toMatchObject({ cached: true });
+      client.send({ ...start, requestId: "c", regenerate: true });
+      expect(await client.next(forRequest("c", "done"))).not.toHaveProperty("cached", true);
+
+      expect(fake.answerCalls()).toHaveLength(2);
+    } finally {
+      client.close();
+    }
+  });
+
+  it("rejects invalid prompts, busy chats and unknown messages", async () => {
+    fake.on("Write a long essay", { chunks: ["one ", "two ", "three"], chunkDelayMs: 30 });
+    const client = await connect("ws-errors");
+    try {
+      client.send({ type: "start", requestId: "empty", prompt: "" });
+      expect(await client.next(forRequest("empty", "error"))).toBeDefined();
+
+      client.send({ type: "start", requestId: "first", chatId: "same", prompt: "Write a long essay", memory: false });
+      client.send({ type: "start", requestId: "second", chatId: "same", prompt: "Write a long essay", memory: false });
+      const busy = await client.next(forRequest("second", "error"));
+      expect((busy as { error: string }).error).toMatch(/already processing/);
+      await client.next(forRequest("first", "done"));
+
+      client.send({ type: "bogus" });
+      expect(await client.next((m) => m.type === "error" && !("requestId" in m && m.requestId))).toBeDefined();
+    } finally {
+      client.close();
+    }
+  });
+
+  it("pushes server events to every socket of the user", async () => {
+    const first = await connect("ws-events");
+    const second = await connect("ws-events");
+    try {
+      const delivered = getChatSocketService().notifyUser("ws-events", "chat.persisted", { chatId: "c1" });
+      expect(delivered).toBe(2);
+      for (const client of [first, second]) {
+        expect(await client.next((m) => m.type === "event")).toEqual({
+          type: "event",
+          name: "chat.persisted",
+          data: { chatId: "c1" },
+        });
+      }
+    } finally {
+      first.close();
+      second.close();
+    }
+  });
+});
@@ -0,0 +1,126 @@
+import request from "supertest";
+import { createTestHarness, scriptIntent } from "./support/testApp";
+import { refreshChatTitle } from "../services/chatTitleService";
+
+const { app, fake, embeddings, firestore } = createTestHarness();
+
+beforeAll(() => {
+  process.env.CHAT_AUTO_TITLES = "true";
+});
+
+afterAll(() => {
+  process.env.CHAT_AUTO_TITLES = "false";
+});
+
+beforeEach(() => {
+  fake.reset();
+  embeddings.clear();
+  firestore.clear();
+});
+
+const scriptTitle = (title: string) => fake.on(/^Write a title for this chat/, { text: JSON.stringify({ title }) });
+
+const titleCalls = () => fake.calls.filter((call) => call.prompt.startsWith("Write a title for this chat"));
+
+let turnNumber = 0;
+const turn = (userId: string, chatId: string, userPrompt: string) =>
+  firestore.saveTurn({ id: `turn_${++turnNumber}`, userId, chatId, userPrompt, aiResponse: "Sure.", timestamp: 1000 });
+
+describe("background chat titles", () => {
+  it("titles a chat after its first exchange", async () => {
+    scriptIntent(fake, "text");
+    fake.on("What hydration suits a sourdough loaf", { text: "Around 75% is a good start." });
+    scriptTitle("“Sourdough Hydration Basics.”");
+
+    const res = await request(app).post("/api/ask-ai").send({
+      prompt: "What hydration suits a sourdough loaf?",
+      userId: "title-user",
+      chatId: "chat-bread",
+      messageCount: 0,
+    });
+    expect(res.status).toBe(200);
+
+    for (let i = 0; i < 50 && firestore.getChat("title-user", "chat-bread")?.titleSource !== "generated"; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+    expect(firestore.getChat("title-user", "chat-bread")).toMatchObject({
+      title: "Sourdough Hydration Basics",
+      titleSource: "generated",
+      titledAtMessageCount: 2,
+    });
+    expect(titleCalls()[0].prompt).toContain("User: What hydration suits a sourdough loaf?");
+  });
+
+  it("retitles only when the conversation drifts", async () => {
+    scriptTitle("Sourdough hydration");
+    await turn("title-user", "chat-mixed", "What sourdough hydration is best?");
+    expect(await refreshChatTitle("title-user", "chat-mixed")).toBe("Sourdough hydration");
+
+    // Not due again until a few more exchanges
+    await turn("title-user", "chat-mixed", "Does sourdough hydration change for rye?");
+    expect(await refreshChatTitle("title-user", "chat-mixed")).toBeNull();
+
+    // Due, but still on topic: the title stays and the next check moves out
+    for (let i = 0; i < 3; i++) await turn("title-user", "chat-mixed", `More sourdough hydration questions, part ${i}`);
+    expect(await refreshChatTitle("title-user", "chat-mixed")).toBeNull();
+    expect(firestore.getChat("title-user", "chat-mixed")).toMatchObject({ title: "Sourdough hydration", titledAtMessageCount: 10 });
+    expect(titleCalls()).toHaveLength(1);
+
+    scriptTitle("Lisbon trip itinerary");
+    for (const prompt of ["Plan three days in Lisbon", "Which Lisbon museums open on Monday?", "Best Lisbon tram routes?", "Lisbon airport taxi tips"]) {
+      await turn("title-user", "chat-mixed", prompt);
+    }
+    expect(await refreshChatTitle("title-user", "chat-mixed")).toBe("Lisbon trip itinerary");
+    expect(titleCalls()[1].prompt).toContain("User: Lisbon airport taxi tips");
+  });
+
+  it("keeps re-checking titles after switching to a shorter branch", async () => {
+    scriptTitle("Sourdough hydration");
+    for (let i = 0; i < 5; i++) await turn("title-user", "chat-edited", `Sourdough hydration question ${i}`);
+    expect(await refreshChatTitle("title-user", "chat-edited")).toBe("Sourdough hydration");
+    expect(firestore.getChat("title-user", "chat-edited")?.titledAtMessageCount).toBe(10);
+
+    // The first question was edited, so the active path is back to one exchange
+    const res = await request(app)
+      .post("/api/chats/chat-edited/active-branch")
+      .send({
+        userId: "title-user",
+        messages: [
+          { id: "u1b", role: "user", content: "Plan three days in Lisbon", timestamp: 2000 },
+          { id: "a1b", role: "assistant", content: "Sure.", timestamp: 2000 },
+        ],
+        branches: [],
+      });
+    expect(res.status).toBe(200);
+    expect(firestore.getChat("title-user", "chat-edited")).toMatchObject({ messageCount: 2, titledAtMessageCount: 2 });
+
+    scriptTitle("Lisbon trip itinerary");
+    for (const prompt of ["Which Lisbon museums open on Monday?", "Best Lisbon tram routes?", "Lisbon airport taxi tips", "Lisbon food markets?"]) {
+      await turn("title-user", "chat-edited", prompt);
+    }
+    expect(await refreshChatTitle("title-user", "chat-edited")).toBe("Lisbon trip itinerary");
+  });
+
+  it("never replaces a title the user set", async () => {
+    scriptTitle("Generated title");
+    await turn("title-user", "chat-named", "Help me name my band");
+
+    const res = await request(app)
+      .post("/api/chats/chat-named/title")
+      .send({ userId: "title-user", title: "  Band names  " });
+    expect(res.status).toBe(200);
+    expect(res.body.title).toBe("Band names");
+
+    expect(await refreshChatTitle("title-user", "chat-named")).toBeNull();
+    expect(firestore.getChat("title-user", "chat-named")).toMatchObject({ title: "Band names", titleSource: "user" });
+    expect(titleCalls()).toHaveLength(0);
+
+    // A generated title that lands after the rename loses too
+    expect(await firestore.updateTitle("title-user", "chat-named", "Generated title", "generated")).toBe("kept");
+  });
+
+  it("404s renames for chats that aren't stored", async () => {
+    const res = await request(app).post("/api/chats/missing/title").send({ userId: "title-user", title: "Anything" });
+    expect(res.status).toBe(404);
+  });
+});
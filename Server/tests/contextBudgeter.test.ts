@@ -0,0 +1,88 @@
+import { fitToBudget, resolveContextBudget } from "../services/contextBudgeter";
+import {
+  countTokens,
+  getModelFamily,
+  recordPromptUsage,
+  truncateToTokens,
+} from "../services/tokenCounter";
+
+describe("tokenCounter", () => {
+  it("counts digits per model family", () => {
+    expect(getModelFamily("gemini-2.5-pro")).toBe("gemini");
+    expect(getModelFamily("gpt-4o-mini")).toBe("gpt");
+    expect(getModelFamily("llama3:8b")).toBe("llama");
+    // Gemini tokenizes each digit, GPT groups them in threes
+    expect(countTokens("123456789", "gemini-2.5-pro")).toBe(9);
+    expect(countTokens("123456789", "gpt-4o")).toBe(3);
+  });
+
+  it("truncates text to a token limit", () => {
+    const text = "alpha beta gamma delta epsilon ".repeat(50);
+    const truncated = truncateToTokens(text, 30, "gemini-2.5-pro");
+
+    expect(truncated.endsWith("…[truncated]")).toBe(true);
+    expect(countTokens(truncated, "gemini-2.5-pro")).toBeLessThanOrEqual(30);
+  });
+
+  it("calibrates counts from provider-reported usage", () => {
+    const model = "calibration-test-model";
+    const text = "one two three four five six seven eight nine ten ".repeat(4);
+    const before = countTokens(text, model);
+
+    for (let i = 0; i < 20; i++) {
+      recordPromptUsage(model, countTokens(text, model), before * 2);
+    }
+
+    expect(countTokens(text, model)).toBeGreaterThan(before * 1.8);
+    expect(countTokens(text, model)).toBeLessThanOrEqual(before * 2);
+  });
+});
+
+describe("fitToBudget", () => {
+  const model = "gemini-2.5-pro";
+  const filler = (words: number) => "lorem ".repeat(words).trim();
+
+  it("keeps high-priority items and compresses or drops the rest", () => {
+    const { kept, report } = fitToBudget(
+      [
+        { id: "profile", kind: "profile", text: filler(20), priority: 100 },
+        { id: "memory", kind: "memory", text: filler(400), priority: 60, compressible: true },
+        { id: "older", kind: "olderSummary", text: filler(50), priority: 40 },
+      ],
+      { model, budget: 200, fixedTokens: 50 }
+    );
+
+    expect(kept.get("profile")).toBe(filler(20));
+    expect(kept.get("memory")).toMatch(/…\[truncated\]$/);
+    expect(kept.has("older")).toBe(false);
+    expect(report.cut).toEqual([
+      expect.objectContaining({ id: "memory", action: "compressed" }),
+      expect.objectContaining({ id: "older", action: "dropped" }),
+    ]);
+    expect(report.usedTokens).toBeLessThanOrEqual(200);
+  });
+
+  it("drops the rest of a chain once one member is dropped", () => {
+    const { kept, report } = fitToBudget(
+      [
+        { id: "turn-2", kind: "turn", text: filler(10), priority: 90, chain: "history" },
+        { id: "turn-1", kind: "turn", text: filler(500), priority: 85, chain: "history" },
+        { id: "turn-0", kind: "turn", text: filler(5), priority: 80, chain: "history" },
+      ],
+      { model, budget: 100, fixedTokens: 0 }
+    );
+
+    expect([...kept.keys()]).toEqual(["turn-2"]);
+    expect(report.cut.map((c) => c.id)).toEqual(["turn-1", "turn-0"]);
+  });
+
+  it("caps the configured budget by the model's context window", () => {
+    process.env.CONTEXT_TOKEN_BUDGET = "50000";
+    try {
+      expect(resolveContextBudget("gemini-2.5-pro")).toBe(50000);
+      expect(resolveContextBudget("llama3")).toBe(8192 - 4096);
+    } finally {
+      delete process.env.CONTEXT_TOKEN_BUDGET;
+    }
+  });
+});
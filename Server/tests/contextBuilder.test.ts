@@ -0,0 +1,102 @@
+import { buildChatContext } from "../services/contextBuilder";
+import { TINY_PNG_BASE64 } from "./support/testApp";
+
+describe("buildChatContext", () => {
+  it("keeps background knowledge in the system instruction", () => {
+    const { systemInstruction, contents } = buildChatContext({
+      model: "gemini-2.5-pro",
+      prompt: "What should I cook tonight?",
+      profileContext: "The user's name is Ada.",
+      rollingSummary: { summary: "Planning weekly meals.", keyFacts: ["Vegetarian"] },
+      memoryContext: "User liked the lentil curry recipe",
+      conversationSummary: "[Earlier conversation summary: 12 messages]",
+    });
+
+    expect(systemInstruction).toContain("The user's name is Ada.");
+    expect(systemInstruction).toContain("KEY FACTS:\n• Vegetarian");
+    expect(systemInstruction).toContain("User liked the lentil curry recipe");
+    expect(systemInstruction).toContain("12 messages");
+    expect(contents).toEqual([
+      { role: "user", parts: [{ text: "What should I cook tonight?" }] },
+    ]);
+  });
+
+  it("caps recent turns, merges same-role runs and opens with a user turn", () => {
+    const { contents, systemInstruction } = buildChatContext({
+      model: "gemini-2.5-pro",
+      prompt: "Please?",
+      maxRecentMessages: 5,
+      conversationHistory: [
+        { role: "user", content: "Tell me a joke" },
+        { role: "assistant", content: "Why did the chicken cross the road?" },
+        { role: "user", content: "Why?" },
+        { role: "assistant", content: "To get to the other side." },
+        { role: "system", content: "[Document: notes.txt]\nShopping list" },
+        { role: "user", content: "Another one" },
+      ],
+    });
+
+    expect(contents).toEqual([
+      { role: "user", parts: [{ text: "Why?" }] },
+      { role: "model", parts: [{ text: "To get to the other side." }] },
+      { role: "user", parts: [{ text: "Another one" }, { text: "Please?" }] },
+    ]);
+    expect(systemInstruction).toContain("Shopping list");
+    expect(systemInstruction).toContain("User discussed Tell me a joke");
+  });
+
+  it("uses cached turns only when no history is sent", () => {
+    const { contents } = buildChatContext({
+      model: "gemini-2.5-pro",
+      prompt: "Continue",
+      cachedTurns: [{ userMessage: "Start a story", aiResponse: "Once upon a time..." }],
+    });
+
+    expect(contents).toEqual([
+      { role: "user", parts: [{ text: "Start a story" }] },
+      { role: "model", parts: [{ text: "Once upon a time..." }] },
+      { role: "user", parts: [{ text: "Continue" }] },
+    ]);
+  });
+
+  it("puts images and document excerpts in the current user turn", () => {
+    const { contents } = buildChatContext({
+      model: "gemini-2.5-pro",
+      prompt: "What does the chart show?",
+      document: { summary: "Quarterly report", relevantChunks: ["Revenue grew 12%"] },
+      image: { imageBase64: TINY_PNG_BASE64, fileName: "chart.png" },
+    });
+
+    const parts = contents[contents.length - 1].parts;
+    expect(parts[0]).toEqual({ inlineData: { data: TINY_PNG_BASE64, mimeType: "image/png" } });
+    expect(parts[1].text).toContain("Image: chart.png");
+    expect(parts[2].text).toContain("Revenue grew 12%");
+    expect(parts[3]).toEqual({ text: "What does the chart show?" });
+  });
+
+  it("drops the oldest turns first when the budget is tight and reports the cuts", () => {
+    const longAnswer = "The quick brown fox jumps over the lazy dog. ".repeat(40);
+    const { contents, report } = buildChatContext({
+      model: "gemini-2.5-pro",
+      prompt: "Summarise what we said",
+      profileContext: "The user's name is Ada.",
+      conversationHistory: [
+        { role: "user", content: "First question" },
+        { role: "assistant", content: longAnswer },
+        { role: "user", content: "Second question" },
+        { role: "assistant", content: "Short answer" },
+      ],
+      tokenBudget: 700,
+    });
+
+    expect(report.included.map((e) => e.id)).toEqual(
+      expect.arrayContaining(["profile", "turn-3", "turn-2"])
+    );
+    const cutIds = report.cut.map((c) => c.id);
+    expect(cutIds).toContain("turn-0");
+    expect(report.usedTokens).toBeLessThanOrEqual(report.budget);
+    // What survives still starts with a user turn and ends with the question
+    expect(contents[0].role).toBe("user");
+    expect(contents[contents.length - 1].parts.slice(-1)[0].text).toBe("Summarise what we said");
+  });
+});
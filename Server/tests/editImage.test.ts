@@ -0,0 +1,74 @@
+import request from "supertest";
+import { createTestHarness, TINY_PNG_BASE64 } from "./support/testApp";
+
+const { app, fake } = createTestHarness();
+
+beforeEach(() => {
+  fake.reset();
+});
+
+describe("POST /api/edit-image", () => {
+  it("sends the image and instruction to an image-capable model", async () => {
+    fake.on((call) => call.requires.includes("imageOutput"), {
+      imageBase64: TINY_PNG_BASE64,
+      text: "Made the sky purple",
+    });
+
+    const res = await request(app).post("/api/edit-image").send({
+      imageBase64: TINY_PNG_BASE64,
+      editPrompt: "make the sky purple",
+      userId: "edit-user",
+    });
+
+    expect(res.status).toBe(200);
+    expect(res.body.success).toBe(true);
+    expect(res.body.imageBase64).toBe(TINY_PNG_BASE64);
+    expect(res.body.altText).toBe("Made the sky purple");
+    expect(res.body.provider).toBe("fake");
+
+    const call = fake.calls[0];
+    expect(call.inlineData).toEqual([{ data: TINY_PNG_BASE64, mimeType: "image/png" }]);
+    expect(call.prompt).toContain("make the sky purple");
+  });
+
+  it("accepts multipart uploads", async () => {
+    fake.setDefault({ imageBase64: TINY_PNG_BASE64 });
+
+    const res = await request(app)
+      .post("/api/edit-image")
+      .field("editPrompt", "add a red border")
+      .attach("image", Buffer.from(TINY_PNG_BASE64, "base64"), "photo.png");
+
+    expect(res.status).toBe(200);
+    expect(res.body.imageBase64).toBe(TINY_PNG_BASE64);
+  });
+
+  it("rejects requests without an edit prompt", async () => {
+    const res = await request(app)
+      .post("/api/edit-image")
+      .send({ imageBase64: TINY_PNG_BASE64 });
+
+    expect(res.status).toBe(400);
+    expect(fake.calls).toHaveLength(0);
+  });
+
+  it("returns 404 for unknown cached image ids", async () => {
+    const res = await request(app)
+      .post("/api/edit-image")
+      .send({ imageId: "missing-image", editPrompt: "crop it" });
+
+    expect(res.status).toBe(404);
+  });
+
+  it("surfaces provider failures as 500s", async () => {
+    fake.setDefault({ error: "image model unavailable" });
+
+    const res = await request(app).post("/api/edit-image").send({
+      imageBase64: TINY_PNG_BASE64,
+      editPrompt: "blur the background",
+    });
+
+    expect(res.status).toBe(500);
+    expect(res.body.error).toBe("image model unavailable");
+  });
+});
@@ -0,0 +1,137 @@
+import request from "supertest";
+import { createTestHarness, parseSSE, scriptIntent } from "./support/testApp";
+import { getEntitlementService } from "../services/entitlementService";
+
+const { app, fake } = createTestHarness();
+
+beforeEach(() => {
+  fake.reset();
+  getEntitlementService().reset();
+});
+
+describe("plan quotas", () => {
+  it("answers 429 with Retry-After once the daily message quota is used up", async () => {
+    scriptIntent(fake, "text");
+    fake.setDefault({ text: "Hello!" });
+    await getEntitlementService().consume("quota-free", "messages", 99);
+
+    const last = await request(app)
+      .post("/api/ask-ai")
+      .send({ prompt: "Say hello", userId: "quota-free", memory: false, tools: false });
+    expect(last.status).toBe(200);
+
+    const callsBefore = fake.calls.length;
+    const refused = await request(app)
+      .post("/api/ask-ai")
+      .send({ prompt: "Say hello again", userId: "quota-free", memory: false, tools: false });
+
+    expect(refused.status).toBe(429);
+    expect(refused.body).toMatchObject({
+      success: false,
+      code: "quota_exceeded",
+      plan: "free",
+      feature: "messages",
+      limit: 100,
+      used: 100,
+    });
+    expect(Number(refused.headers["retry-after"])).toBeGreaterThan(0);
+    expect(fake.calls).toHaveLength(callsBefore);
+  });
+
+  it("charges neither cached answers nor answers that fail", async () => {
+    scriptIntent(fake, "text");
+    fake.setDefault({ text: "Hello!" });
+    const ask = (prompt: string) =>
+      request(app).post("/api/ask-ai").send({ prompt, userId: "quota-charged", memory: false, tools: false });
+    const used = async () => (await getEntitlementService().getQuota("quota-charged")).quotas.messages.used;
+
+    expect((await ask("Say hello")).status).toBe(200);
+    const cached = await ask("Say hello");
+    expect(cached.body.cached).toBe(true);
+    expect(await used()).toBe(1);
+
+    fake.setDefault({ error: "Provider down" });
+    expect((await ask("Say goodbye")).status).toBe(500);
+    const stream = await request(app)
+      .post("/api/ask-ai-stream")
+      .send({ prompt: "Say goodbye again", userId: "quota-charged", memory: false, tools: false });
+    expect(parseSSE(stream.text).pop()).toMatchObject({ error: "Provider down" });
+    expect(await used()).toBe(1);
+  });
+
+  it("refuses models outside the plan with 402 and allows them after an upgrade", async () => {
+    scriptIntent(fake, "text");
+    fake.setDefault({ text: "Deep answer" });
+    const ask = () =>
+      request(app).post("/api/ask-ai").send({
+        prompt: "Prove it",
+        userId: "quota-upgrade",
+        model: "gemini-2.5-pro",
+        memory: false,
+        tools: false,
+      });
+
+    const refused = await ask();
+    expect(refused.status).toBe(402);
+    expect(refused.body).toMatchObject({ code: "plan_required", feature: "model", plan: "free" });
+
+    await getEntitlementService().setPlan("quota-upgrade", "pro");
+    expect((await ask()).status).toBe(200);
+  });
+
+  it("counts image generations separately and reports refusals in the stream", async () => {
+    scriptIntent(fake, "imageGenerate");
+    await getEntitlementService().consume("quota-images", "imageGenerations", 10);
+
+    const res = await request(app)
+      .post("/api/ask-ai-stream")
+      .send({ prompt: "draw a fox", userId: "quota-images", memory: false });
+
+    const frames = parseSSE(res.text);
+    expect(frames.pop()).toMatchObject({ code: "quota_exceeded" });
+    expect(fake.calls.some((c) => c.requires.includes("imageOutput"))).toBe(false);
+  });
+
+  it("counts document pages", async () => {
+    const longText = "x".repeat(3000 * 101);
+    const res = await request(app)
+      .post("/api/process-document")
+      .send({ fileBase64: Buffer.from(longText).toString("base64"), mimeType: "text/plain", userId: "quota-docs" });
+
+    expect(res.status).toBe(429);
+    expect(res.body).toMatchObject({ feature: "documentPages", limit: 100, used: 0 });
+  });
+
+  it("counts transcriptions, giving back the ones that fail", async () => {
+    const audio = Buffer.from("voice note").toString("base64");
+    fake.setDefault({ error: "Provider down" });
+    expect((await request(app).post("/api/transcribe-audio").send({ audio, userId: "quota-voice" })).status).toBe(500);
+    expect((await getEntitlementService().getQuota("quota-voice")).quotas.transcriptions.used).toBe(0);
+
+    fake.setDefault({ text: "Hello there" });
+    const res = await request(app).post("/api/transcribe-audio").send({ audio, userId: "quota-voice" });
+    expect(res.body).toEqual({ success: true, text: "Hello there" });
+
+    await getEntitlementService().consume("quota-voice", "transcriptions", 49);
+    const refused = await request(app).post("/api/transcribe-audio").send({ audio, userId: "quota-voice" });
+    expect(refused.status).toBe(429);
+    expect(refused.body).toMatchObject({ feature: "transcriptions", limit: 50, used: 50 });
+  });
+});
+
+describe("GET /api/quota", () => {
+  it("reports the plan and what is left today", async () => {
+    scriptIntent(fake, "text");
+    fake.setDefault({ text: "Hi" });
+    await request(app).post("/api/ask-ai").send({ prompt: "Hi", userId: "quota-report", memory: false, tools: false });
+
+    const res = await request(app).get("/api/quota").query({ userId: "quota-report" });
+    expect(res.status).toBe(200);
+    expect(res.body.plan).toBe("free");
+    expect(res.body.quotas.messages).toEqual({ limit: 100, used: 1, remaining: 99 });
+    expect(res.body.entitlements.allowedModels).toEqual(["gemini-2.5-flash*"]);
+    expect(Date.parse(res.body.resetsAt)).toBeGreaterThan(Date.now());
+
+    expect((await request(app).get("/api/quota")).status).toBe(400);
+  });
+});
@@ -0,0 +1,162 @@
+import request from "supertest";
+import { createTestHarness, flushBackgroundWork, scriptIntent, TINY_PNG_BASE64 } from "./support/testApp";
+import { getApiKeyService } from "../services/apiKeyService";
+import { getEntitlementService } from "../services/entitlementService";
+
+const { app, fake, firestore } = createTestHarness();
+
+beforeEach(() => {
+  fake.reset();
+  getEntitlementService().reset();
+});
+
+/**
+ * Data payloads of an OpenAI stream, without the closing [DONE]
+ */
+function parseChunks(body: string): { chunks: any[]; done: boolean } {
+  const payloads = body
+    .split("\n\n")
+    .map((frame) => frame.trim())
+    .filter((frame) => frame.startsWith("data: "))
+    .map((frame) => frame.slice("data: ".length));
+  const done = payloads[payloads.length - 1] === "[DONE]";
+  return { chunks: payloads.filter((p) => p !== "[DONE]").map((p) => JSON.parse(p)), done };
+}
+
+describe("POST /v1/chat/completions", () => {
+  it("maps messages onto a chat turn and answers in the OpenAI shape", async () => {
+    scriptIntent(fake, "text");
+    fake.setDefault({ text: "Paris is the capital.", usage: { promptTokenCount: 42, candidatesTokenCount: 6 } });
+
+    const res = await request(app)
+      .post("/v1/chat/completions")
+      .set("X-User-Id", "openai-user")
+      .send({
+        model: "nubiq",
+        messages: [
+          { role: "system", content: "Answer in one sentence." },
+          { role: "user", content: "I am planning a trip to France." },
+          { role: "assistant", content: "Sounds great!" },
+          { role: "user", content: [{ type: "text", text: "What is its capital?" }] },
+        ],
+      });
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({
+      object: "chat.completion",
+      model: "nubiq",
+      choices: [{ index: 0, message: { role: "assistant", content: "Paris is the capital." }, finish_reason: "stop" }],
+      usage: { prompt_tokens: 42, completion_tokens: 6, total_tokens: 48 },
+    });
+    expect(res.body.id).toMatch(/^chatcmpl-/);
+
+    const [call] = fake.answerCalls();
+    expect(call.systemInstruction).toContain("Answer in one sentence.");
+    expect(call.prompt).toContain("I am planning a trip to France.");
+    expect(call.prompt).toContain("What is its capital?");
+  });
+
+  it("streams chat.completion.chunk frames with usage and [DONE]", async () => {
+    scriptIntent(fake, "text");
+    fake.setDefault({ chunks: ["Hello", " there"] });
+
+    const res = await request(app)
+      .post("/v1/chat/completions")
+      .send({
+        model: "nubiq",
+        stream: true,
+        stream_options: { include_usage: true },
+        messages: [{ role: "user", content: "Say hello" }],
+      });
+
+    expect(res.headers["content-type"]).toContain("text/event-stream");
+    const { chunks, done } = parseChunks(res.text);
+    expect(done).toBe(true);
+    expect(chunks[0].choices[0].delta).toEqual({ role: "assistant", content: "" });
+    expect(chunks.map((c) => c.choices[0]?.delta?.content ?? "").join("")).toBe("Hello there");
+    expect(chunks[chunks.length - 2].choices[0].finish_reason).toBe("stop");
+    expect(chunks[chunks.length - 1]).toMatchObject({ choices: [], usage: { completion_tokens: expect.any(Number) } });
+  });
+
+  it("applies NubiqAI memory only when asked to", async () => {
+    scriptIntent(fake, "text");
+    fake.setDefault({ text: "Noted." });
+    const send = (content: string, nubiq?: object) =>
+      request(app)
+        .post("/v1/chat/completions")
+        .set("X-User-Id", "openai-memory")
+        .send({ model: "nubiq", messages: [{ role: "user", content }], nubiq });
+
+    expect((await send("My cat is called Miso")).status).toBe(200);
+    await flushBackgroundWork();
+    expect(firestore.getChat("openai-memory", "sdk-chat")).toBeUndefined();
+
+    expect((await send("My dog is called Tofu", { memory: true, chatId: "sdk-chat" })).status).toBe(200);
+    await flushBackgroundWork();
+    expect(firestore.getChat("openai-memory", "sdk-chat")?.messages).toHaveLength(2);
+  });
+
+  it("passes a data URL image to the model", async () => {
+    scriptIntent(fake, "visionQA");
+    fake.setDefault({ text: "A tiny image." });
+
+    const res = await request(app)
+      .post("/v1/chat/completions")
+      .send({
+        model: "nubiq",
+        messages: [
+          {
+            role: "user",
+            content: [
+              { type: "text", text: "What is in this picture?" },
+              { type: "image_url", image_url: { url: `data:image/png;base64,${TINY_PNG_BASE64}` } },
+            ],
+          },
+        ],
+      });
+
+    expect(res.status).toBe(200);
+    expect(fake.answerCalls().some((c) => c.inlineData.some((d) => d.data === TINY_PNG_BASE64))).toBe(true);
+  });
+
+  it("reports bad requests and plan limits as OpenAI errors", async () => {
+    const invalid = await request(app)
+      .post("/v1/chat/completions")
+      .send({ model: "nubiq", messages: [{ role: "assistant", content: "Hi" }] });
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.error).toMatchObject({ type: "invalid_request_error", param: "messages" });
+
+    const remote = await request(app)
+      .post("/v1/chat/completions")
+      .send({
+        model: "nubiq",
+        messages: [{ role: "user", content: [{ type: "image_url", image_url: { url: "https://example.com/a.png" } }] }],
+      });
+    expect(remote.status).toBe(400);
+
+    await getEntitlementService().consume("openai-quota", "messages", 100);
+    const quota = await request(app)
+      .post("/v1/chat/completions")
+      .set("X-User-Id", "openai-quota")
+      .send({ model: "nubiq", stream: true, messages: [{ role: "user", content: "Hello" }] });
+    expect(quota.status).toBe(429);
+    expect(quota.body.error).toMatchObject({ type: "insufficient_quota", code: "quota_exceeded" });
+  });
+
+  it("accepts a personal API key as the bearer token", async () => {
+    scriptIntent(fake, "text");
+    fake.setDefault({ text: "Hi from the SDK" });
+    const { key } = await getApiKeyService().create("sdk-owner", { name: "SDK", scopes: ["chat"] });
+
+    const models = await request(app).get("/v1/models").set("Authorization", `Bearer ${key}`);
+    expect(models.status).toBe(200);
+    expect(models.body.data.map((m: any) => m.id)).toContain("nubiq");
+
+    const res = await request(app)
+      .post("/v1/chat/completions")
+      .set("Authorization", `Bearer ${key}`)
+      .send({ model: "nubiq", messages: [{ role: "user", content: "Hello" }] });
+    expect(res.status).toBe(200);
+    expect(res.body.choices[0].message.content).toBe("Hi from the SDK");
+  });
+});
@@ -0,0 +1,271 @@
+import http from "http";
+import type { AddressInfo } from "net";
+import { ModelProviderRegistry } from "../services/modelProviderService";
+import {
+  createOpenAICompatibleProviders,
+  OpenAICompatibleProvider,
+} from "../services/openAICompatibleProvider";
+import { FakeModelProvider } from "./support/fakeModelProvider";
+import { TINY_PNG_BASE64 } from "./support/testApp";
+
+// Minimal /v1/chat/completions stub that records request bodies
+const requests: any[] = [];
+let server: http.Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (c) => (body += c));
+    req.on("end", () => {
+      const parsed = JSON.parse(body);
+      requests.push({ url: req.url, auth: req.headers.authorization, body: parsed });
+
+      if (parsed.model === "broken") {
+        res.writeHead(503, { "Content-Type": "application/json" });
+        return res.end(JSON.stringify({ error: { message: "model loading" } }));
+      }
+      if (parsed.model === "tooler") {
+        res.writeHead(200, { "Content-Type": "application/json" });
+        return res.end(
+          JSON.stringify({
+            choices: [
+              {
+                message: {
+                  role: "assistant",
+                  content: null,
+                  tool_calls: [
+                    { id: "x1", type: "function", function: { name: "calculator", arguments: '{"expression":"2+2"}' } },
+                  ],
+                },
+              },
+            ],
+          })
+        );
+      }
+      if (parsed.stream) {
+        res.writeHead(200, { "Content-Type": "text/event-stream" });
+        for (const token of ["Hel", "lo", "!"]) {
+          res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: token } }] })}\n\n`);
+        }
+        res.write(
+          `data: ${JSON.stringify({ choices: [], usage: { prompt_tokens: 7, completion_tokens: 3, total_tokens: 10 } })}\n\n`
+        );
+        return res.end("data: [DONE]\n\n");
+      }
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          choices: [{ message: { role: "assistant", content: `echo:${parsed.model}` } }],
+          usage: { prompt_tokens: 12, completion_tokens: 4, total_tokens: 16 },
+        })
+      );
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  requests.length = 0;
+});
+
+describe("OpenAICompatibleProvider", () => {
+  it("maps chat completions and usage onto GenResult", async () => {
+    const provider = new OpenAICompatibleProvider({ name: "ollama", baseUrl, apiKey: "secret" });
+
+    const result = await provider.generateContent({ model: "llama3", contents: ["Hi there"] });
+
+    expect(result.parts).toEqual([{ text: "echo:llama3" }]);
+    expect(result.usage).toEqual({
+      promptTokenCount: 12,
+      candidatesTokenCount: 4,
+      totalTokenCount: 16,
+    });
+    expect(requests[0].url).toBe("/v1/chat/completions");
+    expect(requests[0].auth).toBe("Bearer secret");
+    expect(requests[0].body.messages).toEqual([{ role: "user", content: "Hi there" }]);
+  });
+
+  it("sends images as data-URL image parts and maps model turns to assistant", async () => {
+    const provider = new OpenAICompatibleProvider({ name: "vllm", baseUrl });
+
+    await provider.generateContent({
+      model: "llava",
+      contents: [
+        { role: "user", parts: [{ text: "Earlier question" }] },
+        { role: "model", parts: [{ text: "Earlier answer" }] },
+        {
+          role: "user",
+          parts: [
+            { inlineData: { data: TINY_PNG_BASE64, mimeType: "image/png" } },
+            { text: "What is this?" },
+          ],
+        },
+      ],
+    });
+
+    expect(requests[0].body.messages).toEqual([
+      { role: "user", content: "Earlier question" },
+      { role: "assistant", content: "Earlier answer" },
+      {
+        role: "user",
+        content: [
+          { type: "image_url", image_url: { url: `data:image/png;base64,${TINY_PNG_BASE64}` } },
+          { type: "text", text: "What is this?" },
+        ],
+      },
+    ]);
+  });
+
+  it("leads with the system instruction as a system message", async () => {
+    const provider = new OpenAICompatibleProvider({ name: "ollama", baseUrl });
+
+    await provider.generateContent({
+      model: "llama3",
+      contents: ["Hi there"],
+      systemInstruction: "You are NubiqAI",
+    });
+
+    expect(requests[0].body.messages).toEqual([
+      { role: "system", content: "You are NubiqAI" },
+      { role: "user", content: "Hi there" },
+    ]);
+  });
+
+  it("maps tool declarations, tool calls and tool results", async () => {
+    const provider = new OpenAICompatibleProvider({ name: "ollama", baseUrl });
+
+    const result = await provider.generateContent({
+      model: "tooler",
+      contents: [
+        { role: "user", parts: [{ text: "What is 1+1?" }] },
+        { role: "model", parts: [{ functionCall: { name: "calculator", args: { expression: "1+1" } } }] },
+        { role: "user", parts: [{ functionResponse: { name: "calculator", response: { result: 2 } } }] },
+      ],
+      tools: [
+        {
+          name: "calculator",
+          description: "Do maths",
+          parameters: { type: "object", properties: { expression: { type: "string" } } },
+        },
+      ],
+    });
+
+    expect(result.parts).toEqual([{ functionCall: { name: "calculator", args: { expression: "2+2" } } }]);
+    expect(requests[0].body.tools[0]).toEqual({
+      type: "function",
+      function: {
+        name: "calculator",
+        description: "Do maths",
+        parameters: { type: "object", properties: { expression: { type: "string" } } },
+      },
+    });
+    expect(requests[0].body.messages.slice(1)).toEqual([
+      {
+        role: "assistant",
+        content: null,
+        tool_calls: [
+          { id: "call_0", type: "function", function: { name: "calculator", arguments: '{"expression":"1+1"}' } },
+        ],
+      },
+      { role: "tool", tool_call_id: "call_0", content: '{"result":2}' },
+    ]);
+  });
+
+  it("streams deltas and records usage on the trace", async () => {
+    const provider = new OpenAICompatibleProvider({ name: "ollama", baseUrl });
+    const trace: any = {};
+
+    const chunks: string[] = [];
+    for await (const chunk of provider.generateContentStream!(
+      { model: "llama3", contents: ["Say hello"] },
+      trace
+    )) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks).toEqual(["Hel", "lo", "!"]);
+    expect(trace.usage).toEqual({ promptTokenCount: 7, candidatesTokenCount: 3, totalTokenCount: 10 });
+    expect(requests[0].body.stream).toBe(true);
+  });
+
+  it("surfaces HTTP errors with the status code", async () => {
+    const provider = new OpenAICompatibleProvider({ name: "ollama", baseUrl });
+
+    await expect(
+      provider.generateContent({ model: "broken", contents: ["Hi"] })
+    ).rejects.toMatchObject({ code: 503 });
+  });
+
+  it("is configured from OPENAI_COMPATIBLE_PROVIDERS", () => {
+    process.env.OPENAI_COMPATIBLE_PROVIDERS = `ollama=${baseUrl}, vllm=${baseUrl}`;
+    process.env.OLLAMA_DEFAULT_MODEL = "llama3";
+    try {
+      const providers = createOpenAICompatibleProviders();
+      expect(providers.map((p) => p.name)).toEqual(["ollama", "vllm"]);
+      expect(providers[0].resolveModel!("gemini-2.5-pro")).toBe("llama3");
+      expect(providers[1].resolveModel!("gemini-2.5-pro")).toBeNull();
+    } finally {
+      delete process.env.OPENAI_COMPATIBLE_PROVIDERS;
+      delete process.env.OLLAMA_DEFAULT_MODEL;
+    }
+  });
+});
+
+describe("provider-qualified model ids", () => {
+  function buildRegistry() {
+    const registry = new ModelProviderRegistry();
+    const gemini = new FakeModelProvider("vertex");
+    registry.register(gemini);
+    registry.register(new OpenAICompatibleProvider({ name: "ollama", baseUrl }));
+    return { registry, gemini };
+  }
+
+  it("pins qualified ids to their provider and strips the prefix", async () => {
+    const { registry, gemini } = buildRegistry();
+
+    const result = await registry.generateContent({ model: "ollama:llama3:8b", contents: ["Hi"] });
+
+    expect(result.provider).toBe("ollama");
+    expect(result.model).toBe("llama3:8b");
+    expect(result.parts[0].text).toBe("echo:llama3:8b");
+    expect(gemini.calls).toHaveLength(0);
+  });
+
+  it("keeps unqualified ids away from providers without a default model", async () => {
+    const { registry, gemini } = buildRegistry();
+    registry.setOrder(["ollama", "vertex"]);
+
+    const result = await registry.generateContent({ model: "gemini-2.5-pro", contents: ["Hi"] });
+
+    expect(result.provider).toBe("vertex");
+    expect(gemini.calls[0].model).toBe("gemini-2.5-pro");
+    expect(requests).toHaveLength(0);
+  });
+
+  it("does not fall back to other providers for pinned requests", async () => {
+    const { registry, gemini } = buildRegistry();
+
+    await expect(
+      registry.generateContent({ model: "ollama:broken", contents: ["Hi"] })
+    ).rejects.toThrow("ollama request failed (503)");
+    expect(gemini.calls).toHaveLength(0);
+  });
+
+  it("rejects qualified requests needing capabilities the provider lacks", async () => {
+    const { registry } = buildRegistry();
+
+    await expect(
+      registry.generateContent({
+        model: "ollama:llama3",
+        contents: ["Draw a cat"],
+        requires: ["imageOutput"],
+      })
+    ).rejects.toThrow('Model provider "ollama"');
+  });
+});
@@ -0,0 +1,71 @@
+import request from "supertest";
+import { createTestHarness, scriptIntent } from "./support/testApp";
+
+const { app, fake } = createTestHarness();
+
+const toBase64 = (text: string) => Buffer.from(text, "utf8").toString("base64");
+
+beforeEach(() => {
+  fake.reset();
+});
+
+describe("POST /api/process-document", () => {
+  it("extracts plain text locally without calling the model", async () => {
+    const res = await request(app).post("/api/process-document").send({
+      fileBase64: toBase64("Quarterly revenue grew by 12 percent."),
+      mimeType: "text/plain",
+    });
+
+    expect(res.status).toBe(200);
+    expect(res.body.extractedText).toContain("Quarterly revenue grew");
+    expect(fake.calls).toHaveLength(0);
+  });
+
+  it("falls back to model extraction for PDFs that can't be parsed locally", async () => {
+    fake.setDefault({ text: "Extracted: invoice total 420 EUR" });
+
+    const res = await request(app).post("/api/process-document").send({
+      fileBase64: toBase64("not really a pdf"),
+      mimeType: "application/pdf",
+    });
+
+    expect(res.status).toBe(200);
+    expect(res.body.extractedText).toBe("Extracted: invoice total 420 EUR");
+    expect(fake.calls[0].inlineData[0].mimeType).toBe("application/pdf");
+  });
+
+  it("rejects unsupported file types", async () => {
+    const res = await request(app).post("/api/process-document").send({
+      fileBase64: toBase64("binary"),
+      mimeType: "application/zip",
+    });
+
+    expect(res.status).toBe(400);
+    expect(res.body.unsupportedType).toBe("application/zip");
+  });
+
+  it("stores documents so later questions get document context", async () => {
+    const stored = await request(app).post("/api/process-document").send({
+      fileBase64: toBase64(
+        "Project Falcon launches in March. The budget for Project Falcon is 2 million."
+      ),
+      mimeType: "text/plain",
+      storeInMemory: true,
+      userId: "doc-user",
+      fileName: "falcon.txt",
+    });
+    expect(stored.body.documentId).toBeDefined();
+
+    scriptIntent(fake, "text");
+    await request(app).post("/api/ask-ai").send({
+      prompt: "What is the budget for Project Falcon?",
+      userId: "doc-user",
+      documentId: stored.body.documentId,
+      memory: false,
+    });
+
+    const answer = fake.answerCalls()[0];
+    expect(answer.prompt).toContain("DOCUMENT CONTEXT");
+    expect(answer.prompt).toContain("budget for Project Falcon is 2 million");
+  });
+});
@@ -0,0 +1,124 @@
+import request from "supertest";
+import { generateStructured, parseJsonLoose } from "../services/structuredOutputService";
+import type { JSONSchema } from "../services/jsonSchema";
+import { createTestHarness } from "./support/testApp";
+
+const { app, fake } = createTestHarness();
+
+const CONTACT_SCHEMA: JSONSchema = {
+  type: "object",
+  properties: {
+    name: { type: "string" },
+    age: { type: "integer", minimum: 0 },
+    tags: { type: "array", items: { type: "string" } },
+  },
+  required: ["name", "age"],
+};
+
+beforeEach(() => {
+  fake.reset();
+});
+
+describe("parseJsonLoose", () => {
+  it("pulls JSON out of fences and surrounding prose", () => {
+    expect(parseJsonLoose('{"a":1}')).toEqual({ value: { a: 1 }, repaired: false });
+    expect(parseJsonLoose('Sure! ```json\n{"a": [1, 2]}\n``` Hope that helps')).toEqual({
+      value: { a: [1, 2] },
+      repaired: true,
+    });
+    expect(parseJsonLoose('Result: {"note": "braces } inside strings"} done')?.value).toEqual({
+      note: "braces } inside strings",
+    });
+  });
+
+  it("repairs trailing commas, smart quotes and truncated output", () => {
+    expect(parseJsonLoose('{"a": 1, "b": [1, 2,],}')?.value).toEqual({ a: 1, b: [1, 2] });
+    expect(parseJsonLoose("{“a”: “x”}")?.value).toEqual({ a: "x" });
+    expect(parseJsonLoose('{"a": {"b": ["c", "d"')?.value).toEqual({ a: { b: ["c", "d"] } });
+    expect(parseJsonLoose("no json here")).toBeNull();
+  });
+});
+
+describe("generateStructured", () => {
+  it("sends the schema and retries with the validation errors", async () => {
+    fake.on(/^Extract the contact/, { text: '{"name": "Ada", "age": 36}' });
+    fake.on(/^Extract the contact/, { text: '{"name": "Ada", "age": "thirty-six"}' }, 1);
+
+    const result = await generateStructured<{ name: string; age: number }>({
+      model: "gemini-2.5-pro",
+      prompt: "Extract the contact: Ada, 36 years old",
+      schema: CONTACT_SCHEMA,
+    });
+
+    expect(result).toMatchObject({ ok: true, data: { name: "Ada", age: 36 }, attempts: 2, errors: [] });
+    expect(fake.calls[0].systemInstruction).toContain('"required": [');
+
+    const retry = fake.calls[1];
+    expect(retry.contents.map((c) => c.role)).toEqual(["user", "model", "user"]);
+    expect(retry.prompt).toContain("$.age should be integer, got string");
+  });
+
+  it("gives up after maxAttempts and surfaces the errors", async () => {
+    fake.on(/^Extract the contact/, { text: '{"name": "Ada"}' });
+
+    const result = await generateStructured({
+      model: "gemini-2.5-pro",
+      prompt: "Extract the contact: Ada",
+      schema: CONTACT_SCHEMA,
+      maxAttempts: 2,
+    });
+
+    expect(result.ok).toBe(false);
+    expect(result.attempts).toBe(2);
+    expect(result.errors).toEqual(["$.age is required"]);
+    expect(result.data).toEqual({ name: "Ada" });
+    expect(fake.calls).toHaveLength(2);
+  });
+});
+
+describe("POST /api/structured", () => {
+  it("returns validated data with metadata", async () => {
+    fake.on(/^Extract the contact/, { text: '```json\n{"name": "Grace", "age": 85, "tags": ["navy",],}\n```' });
+
+    const res = await request(app).post("/api/structured").send({
+      prompt: "Extract the contact: Grace Hopper, 85, navy",
+      schema: CONTACT_SCHEMA,
+    });
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({
+      success: true,
+      data: { name: "Grace", age: 85, tags: ["navy"] },
+      errors: [],
+      metadata: { provider: "fake", attempts: 1, repaired: true },
+    });
+  });
+
+  it("responds 422 with the errors and raw text when output never validates", async () => {
+    fake.on(/^Extract the contact/, { text: "I could not find a contact." });
+
+    const res = await request(app).post("/api/structured").send({
+      prompt: "Extract the contact: nobody",
+      schema: CONTACT_SCHEMA,
+      maxAttempts: 1,
+    });
+
+    expect(res.status).toBe(422);
+    expect(res.body.errors).toEqual(["Response is not valid JSON"]);
+    expect(res.body.raw).toBe("I could not find a contact.");
+  });
+
+  it("rejects requests without a prompt or a usable schema", async () => {
+    const noPrompt = await request(app).post("/api/structured").send({ schema: CONTACT_SCHEMA });
+    expect(noPrompt.status).toBe(400);
+
+    const noSchema = await request(app).post("/api/structured").send({ prompt: "hi", schema: "object" });
+    expect(noSchema.status).toBe(400);
+
+    const badAttempts = await request(app)
+      .post("/api/structured")
+      .send({ prompt: "hi", schema: CONTACT_SCHEMA, maxAttempts: 50 });
+    expect(badAttempts.status).toBe(400);
+    expect(fake.calls).toHaveLength(0);
+  });
+});
@@ -0,0 +1,186 @@
+// fakeModelProvider.ts - Scripted, deterministic model provider for offline tests
+import type {
+  Content,
+  GenerateRequest,
+  FunctionCall,
+  GenResult,
+  ModelCapability,
+  ModelProvider,
+  StreamTrace,
+} from "../../services/modelProviderService";
+import { normalizeContents } from "../../services/modelProviderService";
+
+export interface FakeReply {
+  text?: string;
+  chunks?: string[]; // Streaming chunks (defaults to `text` split on spaces)
+  chunkDelayMs?: number; // Pause before each streamed chunk
+  imageBase64?: string; // Returned as an inlineData part
+  error?: string; // Throw instead of answering
+  functionCalls?: FunctionCall[]; // Ask the caller to run tools
+  usage?: { promptTokenCount?: number; candidatesTokenCount?: number; totalTokenCount?: number };
+}
+
+type Matcher = string | RegExp | ((call: FakeCall) => boolean);
+
+interface FakeRule {
+  match: Matcher;
+  reply: FakeReply | ((call: FakeCall) => FakeReply);
+  remaining: number; // Infinity for persistent rules
+}
+
+/**
+ * What the fake saw for one request - tests assert against these
+ */
+export interface FakeCall {
+  model: string;
+  prompt: string; // All text parts joined with newlines
+  systemInstruction: string;
+  contents: Content[]; // Normalized, role-tagged contents as sent
+  inlineData: { mimeType: string; data: string }[];
+  requires: ModelCapability[];
+  tools: string[]; // Names of the tools offered with the request
+  streamed: boolean;
+  chunksYielded: number; // Streamed chunks the caller actually pulled
+}
+
+export class FakeModelProvider implements ModelProvider {
+  readonly name: string;
+  readonly capabilities: ModelCapability[] = [
+    "text",
+    "stream",
+    "vision",
+    "documentInput",
+    "imageOutput",
+    "audioInput",
+    "tools",
+  ];
+  readonly calls: FakeCall[] = [];
+  private rules: FakeRule[] = [];
+  private defaultReply: FakeReply = { text: "Fake response." };
+
+  constructor(name = "fake") {
+    this.name = name;
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  /**
+   * Answer requests whose prompt matches. Rules are checked newest-first;
+   * pass `times` to make a rule expire after that many uses.
+   */
+  on(match: Matcher, reply: FakeRule["reply"], times = Infinity): this {
+    this.rules.unshift({ match, reply, remaining: times });
+    return this;
+  }
+
+  setDefault(reply: FakeReply): this {
+    this.defaultReply = reply;
+    return this;
+  }
+
+  reset(): void {
+    this.rules = [];
+    this.calls.length = 0;
+    this.defaultReply = { text: "Fake response." };
+  }
+
+  /**
+   * Calls that were not intent classification - usually the ones a test cares about
+   */
+  answerCalls(): FakeCall[] {
+    return this.calls.filter((c) => !c.prompt.startsWith("Task: Classify the user's intent"));
+  }
+
+  async generateContent(request: GenerateRequest): Promise<GenResult> {
+    const call = this.record(request, false);
+    const reply = this.resolve(call);
+    if (reply.error) throw new Error(reply.error);
+
+    const parts: any[] = [];
+    if (reply.imageBase64) {
+      parts.push({ inlineData: { data: reply.imageBase64, mimeType: "image/png" } });
+    }
+    const text = reply.text ?? reply.chunks?.join("");
+    if (text) parts.push({ text });
+    for (const functionCall of reply.functionCalls || []) {
+      parts.push({ functionCall });
+    }
+
+    return { parts, raw: { fake: true, candidates: [{ content: { parts } }] }, usage: this.usageFor(call, reply, text) };
+  }
+
+  async *generateContentStream(
+    request: GenerateRequest,
+    trace?: StreamTrace
+  ): AsyncGenerator<string, void, unknown> {
+    const call = this.record(request, true);
+    const reply = this.resolve(call);
+    if (reply.error) throw new Error(reply.error);
+
+    const chunks = reply.chunks ?? (reply.text || "").match(/\s*\S+/g) ?? [];
+    for (const chunk of chunks) {
+      if (reply.chunkDelayMs) await new Promise((resolve) => setTimeout(resolve, reply.chunkDelayMs));
+      call.chunksYielded++;
+      yield chunk;
+    }
+    if (trace && reply.functionCalls) trace.functionCalls = reply.functionCalls;
+    if (trace) trace.usage = this.usageFor(call, reply, chunks.join(""));
+  }
+
+  /**
+   * Scripted usage, or roughly 4 characters per token like the real tokenizers
+   */
+  private usageFor(call: FakeCall, reply: FakeReply, text = ""): NonNullable<FakeReply["usage"]> {
+    if (reply.usage) return reply.usage;
+    const promptLength = call.systemInstruction.length + call.prompt.length;
+    return {
+      promptTokenCount: Math.ceil(promptLength / 4),
+      candidatesTokenCount: Math.ceil(text.length / 4),
+      totalTokenCount: Math.ceil((promptLength + text.length) / 4),
+    };
+  }
+
+  private record(request: GenerateRequest, streamed: boolean): FakeCall {
+    const texts: string[] = [];
+    const inlineData: FakeCall["inlineData"] = [];
+    const contents = normalizeContents(request.contents);
+    for (const content of contents) {
+      for (const part of content.parts || []) {
+        if (part.text) texts.push(part.text);
+        if (part.inlineData) inlineData.push(part.inlineData);
+      }
+    }
+    const call: FakeCall = {
+      model: request.model,
+      prompt: texts.join("\n"),
+      systemInstruction: request.systemInstruction || "",
+      contents,
+      inlineData,
+      requires: request.requires || [],
+      tools: (request.tools || []).map((t) => t.name),
+      streamed,
+      chunksYielded: 0,
+    };
+    this.calls.push(call);
+    return call;
+  }
+
+  private resolve(call: FakeCall): FakeReply {
+    for (const rule of this.rules) {
+      if (rule.remaining <= 0) continue;
+      const hit =
+        typeof rule.match === "string"
+          ? call.prompt.includes(rule.match)
+          : rule.match instanceof RegExp
+            ? rule.match.test(call.prompt)
+            : rule.match(call);
+      if (hit) {
+        rule.remaining--;
+        return typeof rule.reply === "function" ? rule.reply(call) : rule.reply;
+      }
+    }
+    return this.defaultReply;
+  }
+}
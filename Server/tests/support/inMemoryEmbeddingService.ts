@@ -0,0 +1,142 @@
+// inMemoryEmbeddingService.ts - Offline stand-in for EmbeddingService (Pinecone + text-embedding-004)
+import type { MemoryItem, SearchResult } from "../../services/embeddingService";
+
+const DIMENSIONS = 64;
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+  return dot; // Vectors are already normalized
+}
+
+/**
+ * Match Pinecone-style metadata filters ({ field: value }, { field: { $eq: value } } or { field: { $in: values } })
+ */
+function matchesFilter(metadata: Record<string, any>, filter: Record<string, any>): boolean {
+  return Object.entries(filter).every(([key, condition]) => {
+    if (condition && typeof condition === "object" && "$eq" in condition) {
+      return metadata[key] === condition.$eq;
+    }
+    if (condition && typeof condition === "object" && "$in" in condition) {
+      return condition.$in.includes(metadata[key]);
+    }
+    return metadata[key] === condition;
+  });
+}
+
+export class InMemoryEmbeddingService {
+  readonly items: Map<string, MemoryItem & { values: number[] }> = new Map();
+
+  /**
+   * Deterministic bag-of-words embedding - similar texts share tokens, so they score higher
+   */
+  async generateEmbedding(text: string): Promise<number[]> {
+    const vector = new Array(DIMENSIONS).fill(0);
+    for (const token of tokenize(text)) {
+      let hash = 0;
+      for (let i = 0; i < token.length; i++) {
+        hash = (hash * 31 + token.charCodeAt(i)) >>> 0;
+      }
+      vector[hash % DIMENSIONS] += 1;
+    }
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+    return vector.map((v) => v / norm);
+  }
+
+  async getIndex() {
+    const query = async ({
+      vector,
+      topK = 10,
+      filter = {},
+    }: {
+      vector: number[];
+      topK?: number;
+      includeMetadata?: boolean;
+      filter?: Record<string, any>;
+    }) => ({
+      matches: Array.from(this.items.values())
+        .filter((item) => matchesFilter(item.metadata, filter))
+        .map((item) => ({
+          id: item.id,
+          score: cosine(vector, item.values),
+          metadata: { ...item.metadata, content: item.content },
+        }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, topK),
+    });
+    const deleteMany = async (filter: Record<string, any>) => {
+      await this.deleteMemories(filter);
+    };
+    return { query, namespace: (_name: string) => ({ query, deleteMany }) };
+  }
+
+  async storeMemory(memoryItem: MemoryItem): Promise<void> {
+    const values = await this.generateEmbedding(memoryItem.content);
+    this.items.set(memoryItem.id, { ...memoryItem, values });
+  }
+
+  async storeMemories(memoryItems: MemoryItem[]): Promise<void> {
+    for (const item of memoryItems) {
+      await this.storeMemory(item);
+    }
+  }
+
+  async searchMemories(
+    query: string,
+    options: {
+      topK?: number;
+      threshold?: number;
+      filter?: Record<string, any>;
+      userId?: string;
+      chatId?: string;
+      isNewChat?: boolean;
+    } = {}
+  ): Promise<SearchResult[]> {
+    const { topK = 5, threshold = 0.7, filter, userId, chatId, isNewChat = false } = options;
+
+    // Same scoping rules as the Pinecone implementation
+    let searchFilter: Record<string, any> = filter || {};
+    if (isNewChat && userId) {
+      searchFilter = { ...searchFilter, userId };
+    } else if (chatId && userId) {
+      searchFilter = { ...searchFilter, userId, chatId };
+    } else if (userId) {
+      searchFilter = { ...searchFilter, userId };
+    }
+
+    const vector = await this.generateEmbedding(query);
+    const index = await this.getIndex();
+    const { matches } = await index.query({ vector, topK, filter: searchFilter });
+
+    return matches
+      .filter((m) => m.score >= threshold)
+      .map((m) => {
+        const { content, ...metadata } = m.metadata as any;
+        return { id: m.id, content, metadata, score: m.score };
+      });
+  }
+
+  async deleteMemory(id: string): Promise<void> {
+    this.items.delete(id);
+  }
+
+  async deleteMemories(filter: Record<string, any>): Promise<void> {
+    for (const [id, item] of this.items) {
+      if (matchesFilter(item.metadata, filter)) this.items.delete(id);
+    }
+  }
+
+  async getMemoryStats(): Promise<{ totalVectors: number; indexDimension: number }> {
+    return { totalVectors: this.items.size, indexDimension: DIMENSIONS };
+  }
+
+  async ensureIndexExists(): Promise<void> {}
+
+  clear(): void {
+    this.items.clear();
+  }
+}
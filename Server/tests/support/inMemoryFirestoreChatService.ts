@@ -0,0 +1,306 @@
+// inMemoryFirestoreChatService.ts - Offline stand-in for FirestoreChatService
+import type { ConversationTurn } from "../../services/conversationService";
+import type {
+  FirestoreChatDocument,
+  FirestoreChatFilter,
+  FirestoreChatFork,
+  FirestoreChatImport,
+  FirestoreChatMessage,
+  FirestoreChatOrganization,
+  FirestoreChatOrganizationUpdate,
+  FirestoreChatTitleUpdate,
+} from "../../services/firestoreChatService";
+
+const organizationOf = (doc: FirestoreChatDocument): FirestoreChatOrganization => ({
+  folder: doc.folder ?? null,
+  tags: doc.tags ?? [],
+  pinnedAt: doc.pinnedAt ?? null,
+});
+
+export class InMemoryFirestoreChatService {
+  readonly chats: Map<string, FirestoreChatDocument> = new Map(); // `${userId}/${chatId}` -> doc
+  private readonly maxMessagesPerChat = 40;
+  private readonly maxBranchMessagesPerChat = 200;
+
+  private key(userId: string, chatId: string): string {
+    return `${userId}/${chatId}`;
+  }
+
+  getChat(userId: string, chatId: string): FirestoreChatDocument | undefined {
+    return this.chats.get(this.key(userId, chatId));
+  }
+
+  async saveTurn(turn: ConversationTurn): Promise<void> {
+    if (!turn.chatId) return;
+
+    const existing = this.getChat(turn.userId, turn.chatId);
+    const timestamp = turn.timestamp ?? Date.now();
+    const userMessage: FirestoreChatMessage = {
+      id: `${turn.id}-user`,
+      role: "user",
+      content: turn.userPrompt,
+      timestamp,
+    };
+    const assistantMessage: FirestoreChatMessage = {
+      id: `${turn.id}-assistant`,
+      role: "assistant",
+      content: turn.aiResponse,
+      timestamp,
+    };
+    if (turn.hasImage && turn.imageUrl) {
+      assistantMessage.attachments = [turn.imageUrl];
+    }
+    if (turn.imagePrompt) {
+      assistantMessage.imagePrompt = turn.imagePrompt;
+    }
+
+    const messages = [...(existing?.messages ?? [])];
+    const last = messages[messages.length - 1];
+    const answersPending = last?.role === "user" && last.pending === true;
+    if (answersPending) {
+      messages.pop();
+      const { pending: _pending, ...prompt } = last;
+      messages.push(prompt);
+    } else {
+      messages.push(userMessage);
+    }
+    messages.push(assistantMessage);
+    while (messages.length > this.maxMessagesPerChat) {
+      messages.shift();
+    }
+
+    const titleSource = existing?.title || turn.userPrompt;
+    this.chats.set(this.key(turn.userId, turn.chatId), {
+      ...existing,
+      chatId: turn.chatId,
+      userId: turn.userId,
+      title: titleSource
+        ? titleSource.substring(0, 80) + (titleSource.length > 80 ? "…" : "")
+        : "New Chat",
+      createdAt: existing?.createdAt ?? timestamp,
+      updatedAt: timestamp,
+      lastMessageTimestamp: timestamp,
+      lastUserMessage: turn.userPrompt,
+      lastAssistantMessage: turn.aiResponse,
+      messageCount: (existing?.messageCount || 0) + (answersPending ? 1 : 2),
+      pendingPersistence: true,
+      messages,
+    });
+  }
+
+  async replaceBranch(
+    userId: string,
+    chatId: string,
+    messages: FirestoreChatMessage[],
+    branches: FirestoreChatMessage[]
+  ): Promise<boolean> {
+    const existing = this.getChat(userId, chatId);
+    const timestamp = Date.now();
+    const lastUser = [...messages].reverse().find((msg) => msg.role === "user");
+    const lastAssistant = [...messages].reverse().find((msg) => msg.role === "assistant");
+    const titleSource = existing?.title || messages.find((msg) => msg.role === "user")?.content;
+
+    this.chats.set(this.key(userId, chatId), {
+      ...existing,
+      chatId,
+      userId,
+      title: titleSource
+        ? titleSource.substring(0, 80) + (titleSource.length > 80 ? "…" : "")
+        : "New Chat",
+      createdAt: existing?.createdAt ?? messages[0]?.timestamp ?? timestamp,
+      updatedAt: timestamp,
+      lastMessageTimestamp: messages[messages.length - 1]?.timestamp ?? timestamp,
+      lastUserMessage: lastUser?.content ?? "",
+      lastAssistantMessage: lastAssistant?.content ?? "",
+      messageCount: messages.length,
+      pendingPersistence: true,
+      messages: messages.slice(-this.maxMessagesPerChat),
+      branches: branches.slice(-this.maxBranchMessagesPerChat),
+      ...((existing?.titledAtMessageCount || 0) > messages.length && { titledAtMessageCount: messages.length }),
+    });
+    return true;
+  }
+
+  async createFork(
+    userId: string,
+    chatId: string,
+    title: string,
+    messages: FirestoreChatMessage[],
+    fork: FirestoreChatFork
+  ): Promise<boolean> {
+    const timestamp = Date.now();
+    const lastUser = [...messages].reverse().find((msg) => msg.role === "user");
+    const lastAssistant = [...messages].reverse().find((msg) => msg.role === "assistant");
+
+    this.chats.set(this.key(userId, chatId), {
+      chatId,
+      userId,
+      title: title.substring(0, 80) + (title.length > 80 ? "…" : ""),
+      createdAt: timestamp,
+      updatedAt: timestamp,
+      lastMessageTimestamp: messages[messages.length - 1]?.timestamp ?? timestamp,
+      lastUserMessage: lastUser?.content ?? "",
+      lastAssistantMessage: lastAssistant?.content ?? "",
+      messageCount: messages.length,
+      pendingPersistence: true,
+      messages: messages.slice(-this.maxMessagesPerChat),
+      ...fork,
+    });
+    return true;
+  }
+
+  async importChat(
+    userId: string,
+    chat: {
+      chatId: string;
+      title: string;
+      createdAt: number;
+      updatedAt: number;
+      messages: FirestoreChatMessage[];
+      branches: FirestoreChatMessage[];
+    },
+    importedFrom: FirestoreChatImport
+  ): Promise<boolean> {
+    const { chatId, title, messages, branches } = chat;
+    const lastUser = [...messages].reverse().find((msg) => msg.role === "user");
+    const lastAssistant = [...messages].reverse().find((msg) => msg.role === "assistant");
+
+    this.chats.set(this.key(userId, chatId), {
+      chatId,
+      userId,
+      title: title.substring(0, 80) + (title.length > 80 ? "…" : ""),
+      createdAt: chat.createdAt,
+      updatedAt: chat.updatedAt,
+      lastMessageTimestamp: messages[messages.length - 1]?.timestamp ?? chat.updatedAt,
+      lastUserMessage: lastUser?.content ?? "",
+      lastAssistantMessage: lastAssistant?.content ?? "",
+      messageCount: messages.length,
+      pendingPersistence: true,
+      messages: messages.slice(-this.maxMessagesPerChat),
+      branches: branches.slice(-this.maxBranchMessagesPerChat),
+      importedFrom,
+    });
+    return true;
+  }
+
+  async listActiveChats(userId: string): Promise<any[]> {
+    const docs = Array.from(this.chats.values())
+      .filter((doc) => doc.userId === userId)
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+    const recent = docs.slice(0, 50);
+    const pinned = docs.slice(50).filter((doc) => (doc.pinnedAt ?? 0) > 0);
+    return [...recent, ...pinned]
+      .map((data) => ({
+        id: data.chatId,
+        title: data.title || "New Chat",
+        timestamp: new Date(data.updatedAt).toISOString(),
+        userId,
+        messages: data.messages.map((msg) => ({
+          id: msg.id,
+          role: msg.role,
+          content: msg.content,
+          timestamp: new Date(msg.timestamp).toISOString(),
+          attachments: msg.attachments,
+          imagePrompt: msg.imagePrompt,
+        })),
+        branches: (data.branches ?? []).map((msg) => ({
+          id: msg.id,
+          role: msg.role,
+          content: msg.content,
+          timestamp: new Date(msg.timestamp).toISOString(),
+          attachments: msg.attachments,
+          parentId: msg.parentId ?? null,
+        })),
+        forkedFrom: data.forkedFrom ?? null,
+        rollingSummary: data.rollingSummary ?? null,
+        importedFrom: data.importedFrom ?? null,
+        ...organizationOf(data),
+        source: "firestore",
+        metadata: {
+          pendingPersistence: data.pendingPersistence ?? false,
+          messageCount: data.messageCount ?? data.messages.length,
+          lastPersistedAt: data.lastPersistedAt ?? null,
+        },
+      }));
+  }
+
+  async listChatDocuments(userId: string, limit = 200): Promise<FirestoreChatDocument[]> {
+    return Array.from(this.chats.values())
+      .filter((doc) => doc.userId === userId)
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .slice(0, limit);
+  }
+
+  async getChatDocument(userId: string, chatId: string): Promise<FirestoreChatDocument | null> {
+    const doc = this.getChat(userId, chatId);
+    return doc ? { ...doc } : null; // A snapshot, like Firestore's
+  }
+
+  async updateTitle(
+    userId: string,
+    chatId: string,
+    title: string,
+    source: "generated" | "user"
+  ): Promise<FirestoreChatTitleUpdate> {
+    const doc = this.getChat(userId, chatId);
+    if (!doc) return "not_found";
+    if (source === "generated" && doc.titleSource === "user") return "kept";
+    doc.title = title.substring(0, 80) + (title.length > 80 ? "…" : "");
+    doc.titleSource = source;
+    doc.titledAtMessageCount = doc.messageCount || 0;
+    return "updated";
+  }
+
+  async updateChatOrganization(
+    userId: string,
+    chatId: string,
+    changes: { folder?: string | null; tags?: string[]; pinned?: boolean }
+  ): Promise<FirestoreChatOrganizationUpdate> {
+    const doc = this.getChat(userId, chatId);
+    if (!doc) return { status: "not_found" };
+    const current = organizationOf(doc);
+    const organization: FirestoreChatOrganization = {
+      folder: changes.folder !== undefined ? changes.folder : current.folder,
+      tags: changes.tags ?? current.tags,
+      pinnedAt:
+        changes.pinned === undefined ? current.pinnedAt : changes.pinned ? current.pinnedAt ?? Date.now() : null,
+    };
+    Object.assign(doc, organization);
+    return { status: "updated", organization };
+  }
+
+  async renameFolder(userId: string, from: string, to: string | null): Promise<number | null> {
+    const docs = Array.from(this.chats.values()).filter((doc) => doc.userId === userId && doc.folder === from);
+    docs.forEach((doc) => (doc.folder = to));
+    return docs.length;
+  }
+
+  async listChatIdsMatching(userId: string, filter: FirestoreChatFilter): Promise<string[]> {
+    return Array.from(this.chats.values())
+      .filter((doc) => doc.userId === userId)
+      .filter((doc) => filter.folder === undefined || doc.folder === filter.folder)
+      .filter((doc) => filter.tag === undefined || (doc.tags ?? []).includes(filter.tag))
+      .map((doc) => doc.chatId);
+  }
+
+  async markChatPersisted(userId: string, chatId: string): Promise<void> {
+    const doc = this.getChat(userId, chatId);
+    if (doc) {
+      doc.pendingPersistence = false;
+      doc.lastPersistedAt = Date.now();
+    }
+  }
+
+  async archiveChat(userId: string, chatId: string, archived: boolean): Promise<void> {
+    const doc = this.getChat(userId, chatId);
+    if (doc) doc.archived = archived;
+  }
+
+  async deleteChat(userId: string, chatId: string): Promise<void> {
+    this.chats.delete(this.key(userId, chatId));
+  }
+
+  clear(): void {
+    this.chats.clear();
+  }
+}
@@ -0,0 +1,60 @@
+// setupTestEnv.ts - Runs before every test file: keep the server fully offline
+//
+// Empty values win over Server/.env (dotenv never overrides variables that are already
+// set), so a developer's real keys can't leak live Gemini / Pinecone / Firebase calls into tests.
+for (const key of [
+  "GEMINI_API_KEY",
+  "GOOGLE_CLOUD_PROJECT",
+  "GCLOUD_PROJECT",
+  "GCP_PROJECT",
+  "GOOGLE_APPLICATION_CREDENTIALS",
+  "PINECONE_API_KEY",
+  "PINECONE_INDEX_NAME",
+  "FIREBASE_PROJECT_ID",
+  "FIREBASE_CLIENT_EMAIL",
+  "FIREBASE_PRIVATE_KEY",
+  "TEXT_MODEL",
+  "IMAGE_MODEL",
+  "INTENT_MODEL",
+  "MODEL_PROVIDER_ORDER",
+  "MODEL_PROVIDER_WEIGHTS",
+]) {
+  process.env[key] = "";
+}
+process.env.NODE_ENV = "test";
+process.env.AUTH_BYPASS = "true"; // Requests carry userId, no ID token (auth.test.ts turns it off)
+process.env.LOCAL_IMAGE_CACHE_ENABLED = "false";
+process.env.CHAT_AUTO_TITLES = "false"; // Title jobs would add model calls to every test (chatTitles.test.ts turns them on)
+
+jest.mock("../../services/embeddingService", () => {
+  const { InMemoryEmbeddingService } = require("./inMemoryEmbeddingService");
+  const instance = new InMemoryEmbeddingService();
+  return {
+    EmbeddingService: InMemoryEmbeddingService,
+    getEmbeddingService: () => instance,
+  };
+});
+
+jest.mock("../../services/firestoreChatService", () => {
+  const { InMemoryFirestoreChatService } = require("./inMemoryFirestoreChatService");
+  const instance = new InMemoryFirestoreChatService();
+  return {
+    FirestoreChatService: InMemoryFirestoreChatService,
+    firestoreChatService: instance,
+  };
+});
+
+jest.mock("../../services/firebaseStorageService", () => {
+  const uploadImage = async (userId: string, chatId: string) =>
+    `https://storage.test/users/${userId}/chats/${chatId}/images/${Date.now()}.png`;
+  const service = {
+    uploadImage,
+    uploadImageWithSignedUrl: uploadImage,
+    downloadImage: async () => null,
+    deleteImage: async () => {},
+    deleteChatImages: async () => {},
+    deleteUserImages: async () => {},
+    getUserStorageStats: async () => ({ fileCount: 0, totalSizeBytes: 0, totalSizeMB: 0 }),
+  };
+  return { firebaseStorageService: service, default: service };
+});
@@ -0,0 +1,77 @@
+// testApp.ts - Boot the Express app against the fake provider and in-memory stand-ins
+import { FakeModelProvider } from "./fakeModelProvider";
+import type { InMemoryEmbeddingService } from "./inMemoryEmbeddingService";
+import type { InMemoryFirestoreChatService } from "./inMemoryFirestoreChatService";
+import { getModelProviderRegistry } from "../../services/modelProviderService";
+import { getEmbeddingService } from "../../services/embeddingService";
+import { firestoreChatService } from "../../services/firestoreChatService";
+import app from "../../index";
+
+export interface TestHarness {
+  app: typeof app;
+  fake: FakeModelProvider;
+  embeddings: InMemoryEmbeddingService;
+  firestore: InMemoryFirestoreChatService;
+}
+
+export function createTestHarness(): TestHarness {
+  const fake = new FakeModelProvider();
+  const registry = getModelProviderRegistry();
+  registry.clear();
+  registry.register(fake);
+
+  return {
+    app,
+    fake,
+    embeddings: getEmbeddingService() as unknown as InMemoryEmbeddingService,
+    firestore: firestoreChatService as unknown as InMemoryFirestoreChatService,
+  };
+}
+
+/**
+ * Answer intent classification prompts with a fixed intent
+ */
+export function scriptIntent(
+  fake: FakeModelProvider,
+  intent: "imageEdit" | "visionQA" | "imageGenerate" | "text",
+  confidence = 0.95
+): void {
+  fake.on("Task: Classify the user's intent", {
+    text: JSON.stringify({ intent, confidence }),
+  });
+}
+
+/**
+ * Split an SSE body into frames with their `id:` (if any) and parsed `data:` payload
+ */
+export function parseSSEFrames(body: string): { id?: string; data: any }[] {
+  return body
+    .split("\n\n")
+    .map((frame) => frame.trim().split("\n"))
+    .filter((lines) => lines.some((line) => line.startsWith("data: ")))
+    .map((lines) => {
+      const id = lines.find((line) => line.startsWith("id: "))?.slice("id: ".length);
+      const data = JSON.parse(lines.find((line) => line.startsWith("data: "))!.slice("data: ".length));
+      return id ? { id, data } : { data };
+    });
+}
+
+/**
+ * Split an SSE body into its parsed `data:` payloads
+ */
+export function parseSSE(body: string): any[] {
+  return parseSSEFrames(body).map((frame) => frame.data);
+}
+
+/**
+ * Let background work scheduled with setImmediate (memory + Firestore writes) finish
+ */
+export async function flushBackgroundWork(rounds = 5): Promise<void> {
+  for (let i = 0; i < rounds; i++) {
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+}
+
+// 1x1 transparent PNG
+export const TINY_PNG_BASE64 =
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==";
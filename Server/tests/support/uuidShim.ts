@@ -0,0 +1,4 @@
+// uuidShim.ts - CommonJS stand-in for the ESM-only `uuid` package (Jest can't require it)
+import { randomUUID } from "crypto";
+
+export const v4 = (): string => randomUUID();
@@ -0,0 +1,136 @@
+import request from "supertest";
+import { evaluateExpression } from "../services/builtinTools";
+import { ToolRegistry } from "../services/toolRegistry";
+import { createTestHarness, parseSSE, scriptIntent } from "./support/testApp";
+import type { FakeCall } from "./support/fakeModelProvider";
+
+const { app, fake } = createTestHarness();
+
+beforeEach(() => {
+  fake.reset();
+});
+
+/**
+ * Results the model was sent back, from the last user turn of a call
+ */
+function functionResponses(call: FakeCall): any[] {
+  const lastTurn = call.contents[call.contents.length - 1];
+  return lastTurn.parts.filter((p) => p.functionResponse).map((p) => p.functionResponse);
+}
+
+describe("calculator", () => {
+  it("respects precedence, powers and functions", () => {
+    expect(evaluateExpression("2 + 3 * 4")).toBe(14);
+    expect(evaluateExpression("(2 + 3) * 4")).toBe(20);
+    expect(evaluateExpression("-2 ^ 2")).toBe(-4);
+    expect(evaluateExpression("2 ^ 3 ^ 2")).toBe(512);
+    expect(evaluateExpression("sqrt(16) + max(1, 7, 3)")).toBe(11);
+    expect(evaluateExpression("10 % 4")).toBe(2);
+  });
+
+  it("rejects anything that is not arithmetic", () => {
+    expect(() => evaluateExpression("1 / 0")).toThrow("Division by zero");
+    expect(() => evaluateExpression("process.exit()")).toThrow();
+    expect(() => evaluateExpression("(1 + 2")).toThrow('Expected ")"');
+  });
+});
+
+describe("ToolRegistry", () => {
+  const registry = new ToolRegistry();
+  registry.register({
+    name: "echo",
+    description: "Echo a message",
+    parameters: {
+      type: "object",
+      properties: { message: { type: "string" } },
+      required: ["message"],
+    },
+    handler: ({ message }, context) => `${context.userId}: ${message}`,
+  });
+
+  it("runs handlers with the caller's context", async () => {
+    const execution = await registry.execute(
+      { name: "echo", args: { message: "hi" } },
+      { userId: "user-1" },
+      "call_0"
+    );
+    expect(execution).toMatchObject({ id: "call_0", result: "user-1: hi" });
+  });
+
+  it("reports invalid arguments and unknown tools instead of throwing", async () => {
+    const invalid = await registry.execute({ name: "echo", args: { message: 42 } }, { userId: "u" }, "a");
+    expect(invalid.error).toContain("args.message should be string");
+
+    const unknown = await registry.execute({ name: "nope", args: {} }, { userId: "u" }, "b");
+    expect(unknown.error).toBe('Unknown tool "nope"');
+  });
+});
+
+describe("tool calls in chat routes", () => {
+  it("runs requested tools and answers with their results on /api/ask-ai", async () => {
+    scriptIntent(fake, "text");
+    // Rules are checked newest-first: the one-shot tool call answers the first request
+    fake.on(/^What is 1234 times 5678/, (call) => ({
+      text: `It is ${functionResponses(call)[0].response.result.result}.`,
+    }));
+    fake.on(/^What is 1234 times 5678/, { functionCalls: [{ name: "calculator", args: { expression: "1234 * 5678" } }] }, 1);
+
+    const res = await request(app).post("/api/ask-ai").send({
+      prompt: "What is 1234 times 5678?",
+      userId: "tool-user",
+      memory: false,
+    });
+
+    expect(res.status).toBe(200);
+    expect(res.body.text).toBe("It is 7006652.");
+    expect(res.body.metadata.toolCalls).toEqual([
+      expect.objectContaining({ name: "calculator", result: { expression: "1234 * 5678", result: 7006652 } }),
+    ]);
+
+    const [first, second] = fake.answerCalls();
+    expect(first.tools).toEqual(
+      expect.arrayContaining(["calculator", "get_current_datetime", "search_memory", "search_document"])
+    );
+    expect(second.contents.map((c) => c.role)).toEqual(["user", "model", "user"]);
+  });
+
+  it("does not offer tools when the request opts out", async () => {
+    scriptIntent(fake, "text");
+
+    await request(app).post("/api/ask-ai").send({
+      prompt: "Name three primary colours please",
+      userId: "tool-optout",
+      memory: false,
+      tools: false,
+    });
+
+    expect(fake.answerCalls()[0].tools).toEqual([]);
+  });
+
+  it("streams tool_call and tool_result frames before the answer", async () => {
+    scriptIntent(fake, "text");
+    fake.on(/^What day is it today/, (call) => ({
+      chunks: ["Sorry, ", `${functionResponses(call)[0].response.error}`],
+    }));
+    fake.on(/^What day is it today/, { functionCalls: [{ name: "get_current_datetime", args: { timezone: "Mars/Olympus" } }] }, 1);
+
+    const res = await request(app).post("/api/ask-ai-stream").send({
+      prompt: "What day is it today?",
+      userId: "tool-stream-user",
+      memory: false,
+    });
+
+    const events = parseSSE(res.text);
+    expect(events[0]).toEqual({
+      tool_call: { id: "call_0_0", name: "get_current_datetime", args: { timezone: "Mars/Olympus" } },
+    });
+    expect(events[1].tool_result).toMatchObject({
+      id: "call_0_0",
+      error: 'Unknown time zone "Mars/Olympus"',
+    });
+    expect(events.filter((e) => "text" in e).map((e) => e.text).join("")).toBe(
+      'Sorry, Unknown time zone "Mars/Olympus"'
+    );
+    expect(events[events.length - 1].done).toBe(true);
+  });
+});
@@ -0,0 +1,124 @@
+import request from "supertest";
+import { createTestHarness, parseSSE, scriptIntent } from "./support/testApp";
+import { getUsageLedgerService, parseUsageRange, rollupUsage } from "../services/usageLedgerService";
+import type { UsageRecord } from "../services/usageLedgerService";
+import { userProfileService } from "../services/userProfileService";
+
+const { app, fake } = createTestHarness();
+
+beforeEach(() => {
+  fake.reset();
+  getUsageLedgerService().clear();
+});
+
+describe("usage metering", () => {
+  it("records answers and intent classification per route", async () => {
+    scriptIntent(fake, "text");
+    fake.on(/^What is a monad/, {
+      text: "A monoid in the category of endofunctors.",
+      usage: { promptTokenCount: 120, candidatesTokenCount: 30, totalTokenCount: 150 },
+    });
+
+    await request(app).post("/api/ask-ai").send({
+      prompt: "What is a monad?",
+      userId: "usage-user",
+      chatId: "usage-chat",
+      memory: false,
+      tools: false,
+    });
+
+    const res = await request(app).get("/api/usage").query({ userId: "usage-user" });
+    expect(res.status).toBe(200);
+    expect(res.body.totals.byPurpose.chat).toEqual({
+      requests: 1,
+      promptTokens: 120,
+      outputTokens: 30,
+      totalTokens: 150,
+    });
+    expect(res.body.totals.byPurpose.intent.requests).toBeGreaterThanOrEqual(1);
+    expect(Object.keys(res.body.totals.byRoute)).toEqual(["ask-ai"]);
+    expect(res.body.days).toHaveLength(1);
+    expect(res.body.days[0].date).toBe(new Date().toISOString().slice(0, 10));
+    expect(res.body.days[0].totalTokens).toBe(res.body.totals.totalTokens);
+
+    const [record] = await getUsageLedgerService().getRecords("usage-user", 0, Date.now());
+    expect(record).toMatchObject({ chatId: "usage-chat", provider: "fake" });
+  });
+
+  it("records streamed answers from the usage reported at the end of the stream", async () => {
+    scriptIntent(fake, "text");
+    fake.on(/^Stream a haiku/, {
+      chunks: ["Leaves ", "fall ", "softly"],
+      usage: { promptTokenCount: 40, candidatesTokenCount: 6, totalTokenCount: 46 },
+    });
+
+    const res = await request(app).post("/api/ask-ai-stream").send({
+      prompt: "Stream a haiku",
+      userId: "usage-stream",
+      memory: false,
+      tools: false,
+    });
+    expect(parseSSE(res.text).pop().done).toBe(true);
+
+    const report = await getUsageLedgerService().getReport("usage-stream", 0, Date.now());
+    expect(report.totals.byRoute["ask-ai-stream"].totalTokens).toBeGreaterThanOrEqual(46);
+    expect(report.totals.byPurpose.chat).toMatchObject({ requests: 1, totalTokens: 46 });
+  });
+
+  it("bills profile extraction to the user", async () => {
+    fake.on("profile extraction assistant", { text: '{"name": "Ada"}' });
+
+    await userProfileService.extractProfileFromConversation("usage-profile", "USER: my name is Ada");
+
+    const records = await getUsageLedgerService().getRecords("usage-profile", 0, Date.now());
+    expect(records).toHaveLength(1);
+    expect(records[0]).toMatchObject({ purpose: "profile", route: "background", estimated: false });
+  });
+
+  it("rejects missing users and bad ranges", async () => {
+    expect((await request(app).get("/api/usage")).status).toBe(400);
+    const backwards = await request(app)
+      .get("/api/usage")
+      .query({ userId: "usage-user", from: "2026-10-02", to: "2026-10-01" });
+    expect(backwards.status).toBe(400);
+  });
+});
+
+describe("usage rollups", () => {
+  const record = (timestamp: number, model: string, totalTokens: number): UsageRecord => ({
+    id: `${timestamp}`,
+    userId: "u",
+    chatId: null,
+    route: "ask-ai",
+    purpose: "chat",
+    model,
+    provider: "fake",
+    promptTokens: totalTokens - 1,
+    outputTokens: 1,
+    totalTokens,
+    estimated: false,
+    timestamp,
+  });
+
+  it("groups records by UTC day and model inside the range", () => {
+    const day1 = Date.parse("2026-10-01T10:00:00Z");
+    const day2 = Date.parse("2026-10-02T23:59:00Z");
+    const range = parseUsageRange("2026-10-01", "2026-10-02") as { from: number; to: number };
+
+    const report = rollupUsage(
+      "u",
+      [record(day1, "a", 10), record(day1 + 1000, "b", 5), record(day2, "a", 7), record(day2 + 120000, "a", 99)],
+      range.from,
+      range.to
+    );
+
+    expect(report.days.map((d) => [d.date, d.totalTokens])).toEqual([
+      ["2026-10-01", 15],
+      ["2026-10-02", 7],
+    ]);
+    expect(report.totals.byModel).toEqual({
+      a: { requests: 2, promptTokens: 15, outputTokens: 2, totalTokens: 17 },
+      b: { requests: 1, promptTokens: 4, outputTokens: 1, totalTokens: 5 },
+    });
+  });
+});
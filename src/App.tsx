@@ -8,6 +8,8 @@ import { apiService } from "./services/api";
 import { imageStorageService } from "./services/imageStorageService";
 import { OnboardingTutorial } from "./components/OnboardingTutorial";
 import { imageRehydrationService } from "./services/imageRehydrationService";
+import { UsagePanel } from "./components/UsagePanel";
+import { ApiKeysPanel } from "./components/ApiKeysPanel";
 // import { History } from "./components/History";
 // import { Workspace } from "./components/Workspace";
 // import { Settings } from "./components/Settings";
@@ -17,6 +19,11 @@ import { useDarkMode } from "./hooks/useDarkMode";
 import { useAuth, User } from "./hooks/useAuth";
 import { cn } from "./components/ui/utils";
 import { ChatHistory, NavigationSection } from "./types";
+import { downloadChats } from "./utils/chatExport";
+import type { ExportFormat } from "./utils/chatExport";
+import type { ChatSearchResult } from "./utils/chatSearch";
+import { applyOrganization, listFolders, listTags } from "./utils/chatOrganization";
+import type { ChatOrganizationChanges } from "./utils/chatOrganization";
 
 export default function App() {
   const { isDarkMode, toggleDarkMode } = useDarkMode();
@@ -41,6 +48,7 @@ export default function App() {
     updatedAt: new Date(),
   });
   const [activeChat, setActiveChat] = useState<ChatHistory | null>(createInitialChat());
+  const [focusMessage, setFocusMessage] = useState<ChatSearchResult | null>(null); // 🔎 Search result to jump to
 
   // Helper function to remove duplicate chats (by id)
   const deduplicateChats = (chats: ChatHistory[]): ChatHistory[] => {
@@ -85,6 +93,15 @@ export default function App() {
     });
   }, [chats]);
 
+  // 🏷️ Titles written on the server: generated in the background, or renamed on another device
+  useEffect(() => {
+    if (!user?.id) return;
+    return apiService.onServerEvent(user.id, (name, data) => {
+      if (name !== "chat.title") return;
+      setChats((prev) => prev.map((chat) => (chat.id === data.chatId ? { ...chat, title: data.title } : chat)));
+    });
+  }, [user?.id]);
+
   // 💾 Auto-save chats to localStorage whenever they change
   // But strip large base64 images to avoid quota exceeded errors
   useEffect(() => {
@@ -119,6 +136,11 @@ export default function App() {
               }
               return att;
             }) // Don't filter - keep placeholders!
+          })),
+          // 🌿 Other branches: drop base64 images (Firebase URLs stay)
+          branches: chat.branches?.map(msg => ({
+            ...msg,
+            attachments: msg.attachments?.filter(att => typeof att !== 'string' || !att.startsWith('data:image'))
           }))
         }));
         
@@ -173,7 +195,8 @@ export default function App() {
                 ...msg,
                 timestamp: new Date(msg.timestamp)
               }))
-              .sort((a: any, b: any) => a.timestamp.getTime() - b.timestamp.getTime()) // Sort messages chronologically (oldest first)
+              .sort((a: any, b: any) => a.timestamp.getTime() - b.timestamp.getTime()), // Sort messages chronologically (oldest first)
+            branches: chat.branches?.map((msg: any) => ({ ...msg, timestamp: new Date(msg.timestamp) }))
           })).sort((a: any, b: any) => b.createdAt.getTime() - a.createdAt.getTime()); // Sort chats newest first
           
           if (restoredChats.length > 0) {
@@ -225,6 +248,7 @@ export default function App() {
               })).sort(
                 (a: any, b: any) => a.timestamp.getTime() - b.timestamp.getTime()
               ), // Sort messages chronologically (oldest first)
+            branches: chat.branches?.map((msg: any) => ({ ...msg, timestamp: new Date(msg.timestamp) })),
           }));
           
           // Ensure every message has a stable unique id
@@ -412,6 +436,10 @@ export default function App() {
                 }
                 return att;
               }).filter((att: any) => att !== undefined)
+            })),
+            branches: chat.branches?.map((msg: any) => ({
+              ...msg,
+              attachments: msg.attachments?.filter((att: any) => typeof att !== 'string' || !att.startsWith('data:image'))
             }))
           }));
           localStorage.setItem(localStorageKey, JSON.stringify(chatsForStorage));
@@ -538,9 +566,20 @@ export default function App() {
     }
     
     setActiveChat(chat);
+    setFocusMessage(null);
     setActiveSection("home");
   };
 
+  const handleOpenSearchResult = (result: ChatSearchResult) => {
+    const chat = chats.find((c) => c.id === result.chatId);
+    if (!chat) {
+      toast.error("That chat isn't loaded on this device");
+      return;
+    }
+    handleSelectChat(chat);
+    setFocusMessage(result);
+  };
+
   const handleDeleteChat = (chatId: string) => {
     setChats((prev) => {
       const newChats = prev.filter((chat) => chat.id !== chatId);
@@ -567,6 +606,83 @@ export default function App() {
     }
   };
 
+  const handleExportChats = async (chatsToExport: ChatHistory[], format: ExportFormat) => {
+    const toastId = toast.loading(
+      chatsToExport.length === 1 ? `Exporting "${chatsToExport[0].title}"...` : `Exporting ${chatsToExport.length} chats...`
+    );
+    try {
+      await downloadChats(chatsToExport, user?.id || "anonymous", format);
+      toast.success(chatsToExport.length === 1 ? "Chat exported" : `${chatsToExport.length} chats exported`, { id: toastId });
+    } catch (error: any) {
+      console.error("❌ Chat export failed:", error);
+      toast.error(error.message || "Failed to export chats", { id: toastId });
+    }
+  };
+
+  const handleImportChats = (imported: ChatHistory[]) => {
+    // Re-imports replace the chats they brought in before
+    const importedIds = new Set(imported.map((chat) => chat.id));
+    setChats((prev) =>
+      [...imported, ...prev.filter((chat) => !importedIds.has(chat.id))].sort(
+        (a, b) => b.createdAt.getTime() - a.createdAt.getTime()
+      )
+    );
+    toast.success(`Imported ${imported.length} ${imported.length === 1 ? "chat" : "chats"}`);
+  };
+
+  const handleOrganizeChat = async (chatId: string, changes: ChatOrganizationChanges) => {
+    const organize = (organization: ChatOrganizationChanges) => {
+      setChats((prev) => prev.map((chat) => (chat.id === chatId ? applyOrganization(chat, organization) : chat)));
+      setActiveChat((prev) => (prev?.id === chatId ? applyOrganization(prev, organization) : prev));
+    };
+    organize(changes);
+    if (!user?.id) return;
+
+    try {
+      const result = await apiService.updateChatOrganization(chatId, { userId: user.id, ...changes });
+      if (!result.success) throw new Error(result.error || "Failed to organize chat");
+      // The server's copy wins (normalized tags, the original pin time)
+      const { folder, tags, pinnedAt } = result.organization;
+      setChats((prev) => prev.map((chat) => (chat.id === chatId ? { ...chat, folder, tags, pinnedAt } : chat)));
+      setActiveChat((prev) => (prev?.id === chatId ? { ...prev, folder, tags, pinnedAt } : prev));
+    } catch (error: any) {
+      console.error("❌ Failed to organize chat:", error);
+      toast.error(error.message || "Failed to organize chat");
+    }
+  };
+
+  const handleRenameChat = async (chatId: string, title: string) => {
+    setChats((prev) => prev.map((chat) => (chat.id === chatId ? { ...chat, title } : chat)));
+    setActiveChat((prev) => (prev?.id === chatId ? { ...prev, title } : prev));
+    if (!user?.id) return;
+
+    try {
+      const result = await apiService.renameChat(chatId, { userId: user.id, title });
+      if (!result.success) throw new Error(result.error || "Failed to rename chat");
+    } catch (error: any) {
+      console.error("❌ Failed to rename chat:", error);
+      toast.error(error.message || "Failed to rename chat");
+    }
+  };
+
+  const handleTogglePin = (chat: ChatHistory) => handleOrganizeChat(chat.id, { pinned: !chat.pinnedAt });
+
+  const handleRenameFolder = async (from: string, to: string | null) => {
+    const rename = (chat: ChatHistory) => (chat.folder === from ? { ...chat, folder: to } : chat);
+    setChats((prev) => prev.map(rename));
+    setActiveChat((prev) => (prev ? rename(prev) : prev));
+    if (!user?.id) return;
+
+    try {
+      const result = await apiService.renameChatFolder({ userId: user.id, from, to });
+      if (!result.success) throw new Error(result.error || "Failed to rename folder");
+      toast.success(to ? `Folder renamed to "${to}"` : "Folder removed");
+    } catch (error: any) {
+      console.error("❌ Failed to rename folder:", error);
+      toast.error(error.message || "Failed to rename folder");
+    }
+  };
+
   const handleTriggerSignIn = () => {
     setAuthDialogOpen(true);
   };
@@ -605,6 +721,11 @@ export default function App() {
                 }
               });
             }}
+            focusMessage={focusMessage}
+            onMessageFocused={() => setFocusMessage(null)}
+            folders={listFolders(chats)}
+            tags={listTags(chats)}
+            onRenameChat={handleRenameChat}
           />
         );
       case "history":
@@ -614,8 +735,30 @@ export default function App() {
             onSelectChat={handleSelectChat}
             onDeleteChat={handleDeleteChat}
             onArchiveChat={handleArchiveChat}
+            onExportChats={handleExportChats}
+            onImportChats={handleImportChats}
+            onOpenSearchResult={handleOpenSearchResult}
+            onOrganizeChat={handleOrganizeChat}
+            onRenameFolder={handleRenameFolder}
+            userId={user?.id || "anonymous"}
           />
         );
+      case "settings-usage":
+        return (
+          <div className="flex-1 overflow-auto">
+            <div className="p-6 max-w-4xl">
+              <UsagePanel userId={user?.id || ""} />
+            </div>
+          </div>
+        );
+      case "settings-api-keys":
+        return (
+          <div className="flex-1 overflow-auto">
+            <div className="p-6 max-w-4xl">
+              <ApiKeysPanel />
+            </div>
+          </div>
+        );
       // case "workspace-overview":
       // case "workspace-projects":
       // case "workspace-team":
@@ -759,6 +902,8 @@ export default function App() {
               .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
             }
             onSelectChat={handleSelectChat}
+            onExportChats={handleExportChats}
+            onTogglePin={handleTogglePin}
             activeChatId={activeChat?.id || null}
             isCollapsed={isSidebarCollapsed}
             onToggleCollapse={() => setIsSidebarCollapsed(!isSidebarCollapsed)}
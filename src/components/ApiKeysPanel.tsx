@@ -0,0 +1,152 @@
+import { useEffect, useState } from 'react';
+import { Copy, KeyRound, Trash2 } from 'lucide-react';
+import { Button } from './ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Input } from './ui/input';
+import { apiService } from '../services/api';
+import type { ApiKeyScope, ApiKeySummary } from '../services/api';
+
+const SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  chat: 'Chat',
+  images: 'Images',
+  'memory-read': 'Read memories',
+  'memory-write': 'Write memories',
+};
+
+const formatDate = (ms: number | null) => (ms ? new Date(ms).toLocaleString() : 'Never');
+
+/**
+ * Personal API keys: issue one (shown once), see when each was last used, revoke
+ */
+export function ApiKeysPanel() {
+  const [keys, setKeys] = useState<ApiKeySummary[]>([]);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(['chat']);
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async () => {
+    try {
+      const response = await apiService.listApiKeys();
+      if (!response.success) throw new Error(response.error || 'Failed to load API keys');
+      setKeys(response.keys || []);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const toggleScope = (scope: ApiKeyScope) =>
+    setScopes(current => (current.includes(scope) ? current.filter(s => s !== scope) : [...current, scope]));
+
+  const create = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await apiService.createApiKey({ name: name.trim(), scopes });
+      if (!response.success || !response.key) throw new Error(response.error || 'Failed to create API key');
+      setNewKey(response.key);
+      setName('');
+      await load();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const revoke = async (keyId: string) => {
+    setError(null);
+    try {
+      const response = await apiService.revokeApiKey(keyId);
+      if (!response.success) throw new Error(response.error || 'Failed to revoke API key');
+      await load();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-bold">API keys</h2>
+      <p className="text-sm text-muted-foreground">
+        Send a key as <code>Authorization: Bearer &lt;key&gt;</code> or <code>X-API-Key</code> to call the API from
+        scripts. Keys act as you, limited to their scopes.
+      </p>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>New key</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Input placeholder="Name, e.g. Nightly report" value={name} onChange={e => setName(e.target.value)} />
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(SCOPE_LABELS) as ApiKeyScope[]).map(scope => (
+              <Button
+                key={scope}
+                size="sm"
+                variant={scopes.includes(scope) ? 'default' : 'outline'}
+                onClick={() => toggleScope(scope)}
+              >
+                {SCOPE_LABELS[scope]}
+              </Button>
+            ))}
+          </div>
+          <Button onClick={create} disabled={isLoading || !name.trim() || scopes.length === 0}>
+            <KeyRound className="w-4 h-4 mr-2" />
+            Create key
+          </Button>
+          {newKey && (
+            <div className="space-y-2">
+              <p className="text-sm">Copy this key now - it won't be shown again.</p>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 truncate rounded bg-muted px-2 py-1 text-sm">{newKey}</code>
+                <Button size="sm" variant="ghost" onClick={() => navigator.clipboard.writeText(newKey)}>
+                  <Copy className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Your keys</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {keys.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No API keys yet</p>
+          ) : (
+            keys.map(key => (
+              <div key={key.id} className="flex items-center justify-between gap-4 text-sm">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">
+                    {key.name} <span className="text-muted-foreground">{key.prefix}…</span>
+                  </p>
+                  <p className="text-muted-foreground">
+                    {key.scopes.map(s => SCOPE_LABELS[s]).join(', ')} · {key.rateLimitPerMinute}/min · last used{' '}
+                    {formatDate(key.lastUsedAt)}
+                  </p>
+                </div>
+                {key.revokedAt ? (
+                  <span className="text-muted-foreground whitespace-nowrap">Revoked</span>
+                ) : (
+                  <Button size="sm" variant="ghost" onClick={() => revoke(key.id)}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,12 +1,13 @@
-import React, { useState, useRef, useEffect } from "react";
-import { Send, Paperclip, Mic, Download, Eye, Copy, Check, Square, Pencil, FileText, X, AlertCircle, UploadCloud } from "lucide-react";
+import React, { useState, useRef, useEffect, useMemo } from "react";
+import { Send, Paperclip, Mic, Download, Eye, Copy, Check, Square, Pencil, FileText, X, AlertCircle, UploadCloud, ChevronLeft, ChevronRight, RefreshCw, GitFork, Share2 } from "lucide-react";
 import { Button } from "./ui/button";
 import Textarea from "react-textarea-autosize"; // Use auto-sizing textarea
 import { toast } from "sonner";
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
+import { markdownComponents } from './markdownComponents';
 import type { ChatHistory as Chat, ChatMessage as Message, User } from "../types"; // UPDATED: Use centralized types
-import { apiService, handleApiError } from "../services/api";
+import { apiService, authHeaders, handleApiError } from "../services/api";
 import {
   Dialog,
   DialogContent,
@@ -17,8 +18,15 @@ import {
   DialogFooter,
 } from "./ui/dialog";
 import { copyToClipboard, isClipboardAvailable } from "../utils/clipboard";
+import { getBranchInfo, startBranch, switchBranch, toStoredTree } from "../utils/messageTree";
+import { findSearchMatch } from "../utils/chatSearch";
+import type { ChatSearchResult } from "../utils/chatSearch";
+import type { MemoryScope } from "../utils/chatOrganization";
 import { ConfirmationDialog } from "./ConfirmationDialog";
+import { ShareChatDialog } from "./ShareChatDialog";
 import { Badge } from "./ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Input } from "./ui/input";
 import { useResizeObserver } from "../hooks/useResizeObserver";
 import { cn } from "./ui/utils";
 import { imageStorageService } from "../services/imageStorageService";
@@ -140,12 +148,22 @@ interface ChatInterfaceProps {
   activeChat: Chat | null;
   user: User | null;
   onUpdateChat: (chat: Chat) => void;
+  focusMessage?: ChatSearchResult | null; // Search result to scroll to
+  onMessageFocused?: () => void;
+  folders?: string[]; // For the new-chat memory scope
+  tags?: string[];
+  onRenameChat?: (chatId: string, title: string) => void;
 }
 
 export function ChatInterface({
   activeChat,
   user,
   onUpdateChat,
+  focusMessage,
+  onMessageFocused,
+  folders = [],
+  tags = [],
+  onRenameChat,
 }: ChatInterfaceProps) {
   
   // Small inline helper to show truncated text with Show more/less
@@ -182,11 +200,13 @@ export function ChatInterface({
   const [imageRetryTokens, setImageRetryTokens] = useState<Record<string, number>>({});
   // State untuk header auto-hide
   const [isHeaderVisible, setIsHeaderVisible] = useState(true);
+  const [isShareOpen, setIsShareOpen] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
   const [lastScrollY, setLastScrollY] = useState(0);
   const [lightboxSrc, setLightboxSrc] = useState<string | null>(null); // State for lightbox
   const [imageActionSrc, setImageActionSrc] = useState<string | null>(null); // State for the new action dialog
   const [imageActionAlt, setImageActionAlt] = useState<string | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null); // 🔎 Jumped to from search
   const dragCounter = useRef(0);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -205,6 +225,9 @@ export function ChatInterface({
     updatedAt: new Date(), // Should be overwritten by real chat
   };
 
+  // 🌿 "< 2/3 >" versions of edited prompts and regenerated answers
+  const branchInfo = useMemo(() => getBranchInfo(chat), [chat]);
+
   // Smart sticky header logic
   const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
     const currentScrollY = e.currentTarget.scrollTop;
@@ -234,6 +257,49 @@ export function ChatInterface({
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [chat.messages]);
 
+  // ✏️ Renaming from the header; a renamed chat keeps its title (no automatic retitling)
+  const [titleDraft, setTitleDraft] = useState<string | null>(null);
+  useEffect(() => {
+    setTitleDraft(null);
+  }, [chat.id]);
+
+  const saveTitle = () => {
+    const title = titleDraft?.trim();
+    setTitleDraft(null);
+    if (title && title !== chat.title) onRenameChat?.(chat.id, title.slice(0, 80));
+  };
+
+  // 🗂️ A new chat can recall only one folder's or tag's chats; the choice is per chat
+  const [memoryScope, setMemoryScope] = useState<MemoryScope>({});
+  useEffect(() => {
+    setMemoryScope({});
+  }, [chat.id]);
+
+  // 🔎 Jump to a search result once its chat is on screen (after the scroll to the bottom above)
+  useEffect(() => {
+    if (!focusMessage || focusMessage.chatId !== chat.id) return;
+    const target = findSearchMatch(chat.messages, focusMessage);
+    if (!target) {
+      onMessageFocused?.();
+      return;
+    }
+
+    const jump = setTimeout(() => {
+      document
+        .querySelector(`[data-message-id="${CSS.escape(target.id)}"]`)
+        ?.scrollIntoView({ behavior: "smooth", block: "center" });
+      setHighlightedMessageId(target.id);
+      onMessageFocused?.();
+    }, 100);
+    return () => clearTimeout(jump);
+  }, [focusMessage, chat.id]);
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const fade = setTimeout(() => setHighlightedMessageId(null), 2500);
+    return () => clearTimeout(fade);
+  }, [highlightedMessageId]);
+
   const processFiles = (filesToProcess: FileList | null) => {
     if (!filesToProcess) return;
 
@@ -502,6 +568,7 @@ export function ChatInterface({
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
+            ...(await authHeaders()),
           },
           body: JSON.stringify({
             audio: base64Audio,
@@ -559,7 +626,8 @@ export function ChatInterface({
     isVoice: boolean = false,
     isContinuation: boolean = false, // NEW PARAMETER FOR PREVENT DUPLICATIONS
     skipConfirmation: boolean = false, // NEW: Skip image confirmation check
-    continuationChat?: Chat // Optional chat state for continuations
+    continuationChat?: Chat, // Optional chat state for continuations
+    regenerate: boolean = false // Ask the model again instead of the answer cache
   ) => {
     if (!activeChat) return;
     if (isLoading && !isContinuation) {
@@ -571,7 +639,8 @@ export function ChatInterface({
     // 🔒 CAPTURE THE CHAT ID AND STATE AT THE TIME OF SENDING
     // This ensures responses go to the correct chat even if user switches chats
     const targetChatId = activeChat.id;
-    const targetChatSnapshot = { ...activeChat };
+    // Continuations (edits, regenerate) answer the branch they were given, not the one on screen
+    const targetChatSnapshot = { ...(isContinuation && continuationChat ? continuationChat : activeChat) };
     
     // Helper function to safely update the target chat, even if activeChat has changed
     const safeUpdateChat = (chatUpdater: (chat: Chat) => Chat) => {
@@ -952,6 +1021,7 @@ ${procResp.extractedText}`,
                 documentName: file.name,
                 documentType: file.type,
                 documentSize: file.size,
+                documentId: procResp.documentId,
                 isDocumentContext: true,
               } as any,
             };
@@ -1014,6 +1084,13 @@ ${procResp.extractedText}`,
           .join('\n');
         
         conversationSummary = `[Earlier conversation summary: ${olderMessages.length} messages from the start of this chat. Most recent older topics: ${olderMessagesPreview}]`;
+
+        // 🍴 A forked chat also knows what its parent covered before the fork
+        const forkSummary = targetChatSnapshot.rollingSummary;
+        if (forkSummary) {
+          const keyFacts = forkSummary.keyFacts.map(fact => `- ${fact}`).join('\n');
+          conversationSummary = `[Summary of the chat this one was forked from: ${forkSummary.summary}${keyFacts ? `\n${keyFacts}` : ''}]\n${conversationSummary}`;
+        }
         
         conversationHistory = recentMessages.map(msg => ({
           role: msg.role,
@@ -1023,8 +1100,8 @@ ${procResp.extractedText}`,
         console.log(`💡 Optimized context: Sending ${conversationHistory.length} recent messages + summary of ${olderMessages.length} older messages`);
       }
       
-      // 🌊 STREAMING MODE: Use streaming for text-only requests
-      const useStreaming = false; // Disabled - streaming endpoint not implemented yet
+      // 🌊 STREAMING MODE: Text, uploads, documents and image generation all stream now
+      const useStreaming = true;
       
       if (useStreaming) {
         // 🌊 Create placeholder message that will update as chunks arrive
@@ -1051,8 +1128,9 @@ ${procResp.extractedText}`,
         let accumulatedText = '';
         
         try {
-          await apiService.askAIStream({
+          await apiService.askAIRealtime({
             message: text,
+            image: imageFile,
             userId: user?.id,
             userName: user?.name,
             chatId: targetChatId,
@@ -1060,6 +1138,8 @@ ${procResp.extractedText}`,
             conversationHistory,
             conversationSummary,
             useMemory: true,
+            memoryScope,
+            regenerate,
             onChunk: (chunk, isCached) => {
               // Accumulate text as chunks arrive
               accumulatedText += chunk;
@@ -1077,6 +1157,33 @@ ${procResp.extractedText}`,
                 };
               });
             },
+            onImage: (image) => {
+              // 🖼️ Generated or edited image replaces the placeholder in one go
+              const imageUrl = image.imageBase64
+                ? `data:image/png;base64,${image.imageBase64}`
+                : image.imageUri;
+              if (!imageUrl) return;
+              accumulatedText = image.text;
+
+              safeUpdateChat(chat => {
+                if (!chat) return chat;
+                return {
+                  ...chat,
+                  messages: chat.messages.map(m =>
+                    m.id === placeholderMessageId
+                      ? { ...m, content: image.text, attachments: [imageUrl] }
+                      : m
+                  )
+                };
+              });
+
+              // 💾 Store image in IndexedDB for instant loading on page reload
+              if (user?.id) {
+                imageStorageService
+                  .storeImage(placeholderMessageId, user.id, targetChatId, imageUrl, text, image.imageUri || undefined)
+                  .catch(cacheError => console.warn('⚠️ Failed to cache image in IndexedDB (non-critical):', cacheError));
+              }
+            },
             onComplete: (metadata) => {
               console.log(`✅ Streaming complete in ${metadata.duration}s${metadata.cached ? ' (cached)' : ''}`);
               
@@ -1134,7 +1241,22 @@ ${procResp.extractedText}`,
         } catch (error) {
           // Handle abort or other errors
           if ((error as Error).name === 'AbortError' && (signal as any).aborted && (controller as any).wasAborted) {
-            return; // User stopped generation
+            // User stopped generation: keep what arrived, marked as cut off, or drop the empty placeholder
+            safeUpdateChat(chat => {
+              if (!chat) return chat;
+              return {
+                ...chat,
+                messages: accumulatedText
+                  ? chat.messages.map(m =>
+                      m.id === placeholderMessageId
+                        ? { ...m, metadata: { ...m.metadata, truncated: true } }
+                        : m
+                    )
+                  : chat.messages.filter(m => m.id !== placeholderMessageId)
+              };
+            });
+            setIsStreaming(false);
+            return;
           }
           
           const errorMessage = handleApiError(error);
@@ -1161,7 +1283,7 @@ ${procResp.extractedText}`,
         }
       }
       
-      // 📦 NON-STREAMING MODE: For image requests, use traditional approach
+      // 📦 NON-STREAMING MODE
       const response = await apiService.askAI({
         message: text,
         image: imageFile,
@@ -1171,7 +1293,8 @@ ${procResp.extractedText}`,
         conversationSummary,                           // 🎯 Summary of older messages (if any)
         userId: user?.id,                              // 🎯 NEW! Pass actual user ID from auth
         userName: user?.name,                          // 🎯 NEW! Pass user name for auto-profile creation
-        useMemory: true
+        useMemory: true,
+        memoryScope,
       });
 
       if (response.success && response.text) {
@@ -1615,30 +1738,112 @@ ${procResp.extractedText}`,
     }
   };
 
-  const handleEditMessage = (messageId: string) => {
-    if (!activeChat) return;
+  // 🌿 Tell the server which branch is the chat's history (memory + Firestore)
+  const syncActiveBranch = async (branchChat: Chat) => {
+    if (!user?.id) return;
+    try {
+      await apiService.setActiveBranch(branchChat.id, { userId: user.id, ...toStoredTree(branchChat) });
+    } catch (error) {
+      console.warn('⚠️ Failed to sync active branch (non-critical):', error);
+    }
+  };
 
-    const messageIndex = activeChat.messages.findIndex(m => m.id === messageId);
-    if (messageIndex === -1) return;
+  const handleEditMessage = async (messageId: string) => {
+    if (!activeChat) return;
 
-    // Create a new message history up to the point of the edited message
-    const newMessages = activeChat.messages.slice(0, messageIndex);
+    const original = activeChat.messages.find(m => m.id === messageId);
+    if (!original) return;
 
-    // Create the updated user message
-    const updatedUserMessage: Message = {
-      ...activeChat.messages[messageIndex],
+    // 🌿 The edited prompt becomes a sibling of the original, which keeps its answers
+    const editedMessage: Message = {
+      ...original,
+      id: Date.now().toString(),
       content: editedContent,
-      timestamp: new Date(), // Optionally update timestamp
+      timestamp: new Date(),
+      metadata: undefined,
     };
-    newMessages.push(updatedUserMessage);
+    const branchedChat = { ...startBranch(activeChat, messageId, editedMessage), updatedAt: new Date() };
 
     // Update the chat state to reflect the edit immediately
-    const updatedChat = { ...activeChat, messages: newMessages };
-    onUpdateChat(updatedChat);
-
-    // Resend the message to the AI for a new response
-    handleSendMessage(editedContent, [], false, true, false, updatedChat); // Pass the truncated chat state
+    onUpdateChat(branchedChat);
     setEditingMessageId(null); // Exit editing mode
+
+    // Resend the message to the AI for a new response on the new branch
+    await syncActiveBranch(branchedChat);
+    handleSendMessage(editedContent, [], false, true, false, branchedChat);
+  };
+
+  const handleRegenerate = async (messageId: string) => {
+    if (!activeChat || isLoading) return;
+
+    const index = activeChat.messages.findIndex(m => m.id === messageId);
+    const prompt = activeChat.messages.slice(0, index).reverse().find(m => m.role === 'user');
+    if (index === -1 || !prompt) return;
+
+    // 🌿 The old answer moves to a branch; the new one becomes its sibling
+    const branchedChat = { ...startBranch(activeChat, messageId), updatedAt: new Date() };
+    onUpdateChat(branchedChat);
+
+    await syncActiveBranch(branchedChat);
+    handleSendMessage(prompt.content, [], false, true, false, branchedChat, true);
+  };
+
+  const handleSwitchBranch = (messageId: string, step: -1 | 1) => {
+    if (!activeChat || isLoading) return;
+
+    const info = branchInfo.get(messageId);
+    const siblingId = info?.siblingIds[info.position - 1 + step];
+    if (!siblingId) return;
+
+    const switchedChat = switchBranch(activeChat, messageId, siblingId);
+    onUpdateChat(switchedChat);
+    syncActiveBranch(switchedChat);
+  };
+
+  // 🍴 Start a new chat carrying this chat's history up to (and including) a message
+  const handleForkChat = async (messageId: string) => {
+    if (!activeChat || isLoading) return;
+
+    const index = activeChat.messages.findIndex(m => m.id === messageId);
+    if (index === -1) return;
+
+    const prefix = activeChat.messages.slice(0, index + 1);
+    const now = new Date();
+    let forkedChat: Chat = {
+      id: Date.now().toString(),
+      title: `${activeChat.title} (fork)`,
+      messages: prefix,
+      createdAt: now,
+      updatedAt: now,
+      forkedFrom: { chatId: activeChat.id, messageId },
+    };
+
+    // The server seeds the fork's memory and summarizes what it carries over
+    if (user?.id) {
+      const documentIds = prefix
+        .map(m => m.metadata?.documentId)
+        .filter((id): id is string => !!id);
+      try {
+        const result = await apiService.forkChat(activeChat.id, {
+          userId: user.id,
+          newChatId: forkedChat.id,
+          messageId,
+          messages: toStoredTree(forkedChat).messages,
+          title: forkedChat.title,
+          documentIds,
+        });
+        if (result.success) {
+          forkedChat = { ...forkedChat, rollingSummary: result.rollingSummary };
+        } else {
+          console.warn('⚠️ Fork was not stored on the server:', result.error);
+        }
+      } catch (error) {
+        console.warn('⚠️ Failed to fork chat on the server (non-critical):', error);
+      }
+    }
+
+    onUpdateChat(forkedChat);
+    toast.success('Forked into a new chat');
   };
 
   const handleCopyMessage = async (messageId: string, content: string) => {
@@ -1853,13 +2058,82 @@ ${procResp.extractedText}`,
               : "-translate-y-full opacity-0 pointer-events-none"
           )}
         >
-          <h1 className="text-lg font-semibold text-foreground truncate">
-            {chat.title}
-          </h1>
-          <p className="text-sm text-muted-foreground">
-            {chat.messages.length} messages
-          </p>
+          <div className="flex items-center justify-between gap-4">
+            <div className="min-w-0">
+              {titleDraft !== null ? (
+                <Input
+                  autoFocus
+                  maxLength={80}
+                  value={titleDraft}
+                  onChange={e => setTitleDraft(e.target.value)}
+                  onBlur={saveTitle}
+                  onKeyDown={e => {
+                    if (e.key === 'Enter') saveTitle();
+                    if (e.key === 'Escape') setTitleDraft(null);
+                  }}
+                  className="h-8 text-lg font-semibold"
+                />
+              ) : (
+                <div className="group flex items-center gap-1 min-w-0">
+                  <h1 className="text-lg font-semibold text-foreground truncate">
+                    {chat.title}
+                  </h1>
+                  {onRenameChat && chat.messages.length > 0 && (
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-7 w-7 shrink-0 opacity-0 group-hover:opacity-100 transition-opacity"
+                      onClick={() => setTitleDraft(chat.title)}
+                      title="Rename chat"
+                    >
+                      <Pencil className="h-3.5 w-3.5" />
+                    </Button>
+                  )}
+                </div>
+              )}
+              <p className="text-sm text-muted-foreground">
+                {chat.messages.length} messages
+              </p>
+            </div>
+            {/* 🗂️ Memory scope, before the first message */}
+            {user?.id && chat.messages.length === 0 && (folders.length > 0 || tags.length > 0) && (
+              <Select
+                value={memoryScope.folder ? `folder:${memoryScope.folder}` : memoryScope.tag ? `tag:${memoryScope.tag}` : 'all'}
+                onValueChange={value => {
+                  const [kind, ...rest] = value.split(':');
+                  const name = rest.join(':');
+                  setMemoryScope(kind === 'folder' ? { folder: name } : kind === 'tag' ? { tag: name } : {});
+                }}
+              >
+                <SelectTrigger className="w-52" size="sm" title="Which chats this chat remembers">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Remember all chats</SelectItem>
+                  {folders.map(folder => (
+                    <SelectItem key={`folder:${folder}`} value={`folder:${folder}`}>
+                      Folder: {folder}
+                    </SelectItem>
+                  ))}
+                  {tags.map(tag => (
+                    <SelectItem key={`tag:${tag}`} value={`tag:${tag}`}>
+                      Tag: #{tag}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {/* 🔗 Read-only share links */}
+            {user?.id && chat.messages.length > 0 && (
+              <Button size="icon" variant="ghost" onClick={() => setIsShareOpen(true)} title="Share chat">
+                <Share2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
         </div>
+        {user?.id && (
+          <ShareChatDialog chat={chat} userId={user.id} open={isShareOpen} onOpenChange={setIsShareOpen} />
+        )}
 
         {chat.messages.length === 0 ? (
           <div className="h-full flex items-center justify-center bg-background">
@@ -1907,12 +2181,16 @@ ${procResp.extractedText}`,
               .filter(message => message.role !== 'system') // Hide system messages (document context)
               .map((message, messageIndex) => {
                 const attachmentId = getAttachmentId(message.id, message.timestamp, messageIndex);
+                const branch = branchInfo.get(message.id);
                 return (
               <div 
                 key={message.id ?? `${message.timestamp.getTime()}-${message.role}-${messageIndex}`}
+                data-message-id={message.id}
                 className={`group flex ${
                   message.role === "user" ? "justify-end" : "justify-start"
-                } items-start gap-3 animate-fade-in`}
+                } items-start gap-3 animate-fade-in rounded-xl transition-shadow duration-500 ${
+                  highlightedMessageId === message.id ? "ring-2 ring-primary/60 ring-offset-4 ring-offset-background" : ""
+                }`}
               >
                 {/* Handle confirmation messages */}
                 {message.type === 'confirmation' && message.confirmationId ? (
@@ -1987,40 +2265,7 @@ ${procResp.extractedText}`,
                             <div className="prose dark:prose-invert max-w-none text-sm break-words">
                               <ReactMarkdown
                                 remarkPlugins={[remarkGfm]}
-                                components={{
-                                  // Custom styling for markdown elements
-                                  h1: ({ node, ...props }) => <h1 className="text-xl font-bold mt-4 mb-2 break-words" {...props} />,
-                                  h2: ({ node, ...props }) => <h2 className="text-lg font-bold mt-3 mb-2 break-words" {...props} />,
-                                  h3: ({ node, ...props }) => <h3 className="text-base font-semibold mt-2 mb-1 break-words" {...props} />,
-                                  code: ({ node, inline, className, children, ...props }: any) => {
-                                    if (inline) {
-                                      return (
-                                        <code className="bg-zinc-100 dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100 px-1.5 py-0.5 rounded text-xs font-mono break-all" {...props}>
-                                          {children}
-                                        </code>
-                                      );
-                                    }
-                                    // Block code
-                                    return (
-                                      <code className="text-zinc-900 dark:text-zinc-100 text-xs font-mono block whitespace-pre-wrap break-words" {...props}>
-                                        {children}
-                                      </code>
-                                    );
-                                  },
-                                  pre: ({ node, children, ...props }) => (
-                                    <pre className="bg-zinc-100 dark:bg-zinc-800 p-4 rounded-lg my-3 border border-zinc-200 dark:border-zinc-700 overflow-hidden max-w-full" {...props}>
-                                      {children}
-                                    </pre>
-                                  ),
-                                  ul: ({ node, ...props }) => <ul className="list-disc list-inside my-2 space-y-1 break-words" {...props} />,
-                                  ol: ({ node, ...props }) => <ol className="list-decimal list-inside my-2 space-y-1 break-words" {...props} />,
-                                  blockquote: ({ node, ...props }) => (
-                                    <blockquote className="border-l-4 border-primary pl-4 italic my-2 text-muted-foreground break-words" {...props} />
-                                  ),
-                                  p: ({ node, ...props }) => <p className="whitespace-pre-wrap my-1 break-words" {...props} />,
-                                  strong: ({ node, ...props }) => <strong className="font-bold break-words" {...props} />,
-                                  em: ({ node, ...props }) => <em className="italic break-words" {...props} />,
-                                }}
+                                components={markdownComponents}
                               >
                                 {message.content}
                               </ReactMarkdown>
@@ -2117,6 +2362,9 @@ ${procResp.extractedText}`,
                                   </span>
                                 </>
                               )}
+                              {message.metadata.truncated && (
+                                <span className="italic">stopped</span>
+                              )}
                             </span>
                           )}
                           {/* Action Buttons */}
@@ -2150,7 +2398,62 @@ ${procResp.extractedText}`,
                                 <Pencil className="h-4 w-4" />
                               </Button>
                             </div>
-                          )}                      </div>
+                          )}
+                          {/* 🌿 Regenerate keeps the current answer as another version */}
+                          {message.role === 'assistant' && !isLoading && (
+                            <div>
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                className="h-6 w-6"
+                                onClick={() => handleRegenerate(message.id)}
+                                title="Regenerate response"
+                              >
+                                <RefreshCw className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          )}
+                          {/* 🍴 Fork: a new chat with the history up to here */}
+                          {!isLoading && !editingMessageId && (
+                            <div>
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                className="h-6 w-6"
+                                onClick={() => handleForkChat(message.id)}
+                                title="Fork from here"
+                              >
+                                <GitFork className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          )}
+                          {/* 🌿 Versions of this message: < 2/3 > */}
+                          {branch && (
+                            <div className="flex items-center">
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                className="h-6 w-6"
+                                disabled={isLoading || branch.position === 1}
+                                onClick={() => handleSwitchBranch(message.id, -1)}
+                                title="Previous version"
+                              >
+                                <ChevronLeft className="h-4 w-4" />
+                              </Button>
+                              <span className="font-mono tabular-nums">{branch.position}/{branch.total}</span>
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                className="h-6 w-6"
+                                disabled={isLoading || branch.position === branch.total}
+                                onClick={() => handleSwitchBranch(message.id, 1)}
+                                title="Next version"
+                              >
+                                <ChevronRight className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          )}
+                      </div>
                     </div>
                 )}
               </div>
@@ -0,0 +1,35 @@
+import type { ReactNode } from 'react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu';
+import { EXPORT_FORMAT_LABELS } from '../utils/chatExport';
+import type { ExportFormat } from '../utils/chatExport';
+
+interface ExportChatsMenuProps {
+  children: ReactNode; // The trigger
+  onExport: (format: ExportFormat) => void;
+  label?: string;
+}
+
+/**
+ * Format picker for chat exports
+ */
+export function ExportChatsMenu({ children, onExport, label = 'Export as' }: ExportChatsMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>{children}</DropdownMenuTrigger>
+      <DropdownMenuContent align="end" onClick={e => e.stopPropagation()}>
+        <DropdownMenuLabel>{label}</DropdownMenuLabel>
+        {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(format => (
+          <DropdownMenuItem key={format} onClick={() => onExport(format)}>
+            {EXPORT_FORMAT_LABELS[format]}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -215,28 +215,142 @@
 //   );
 // }
 
-import { useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { Input } from './ui/input';
 import { Button } from './ui/button';
-import { Trash2, Search, Archive, ArchiveRestore, ArrowLeft } from 'lucide-react';
+import { Badge } from './ui/badge';
+import { Checkbox } from './ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import {
+  Trash2,
+  Search,
+  Archive,
+  ArchiveRestore,
+  ArrowLeft,
+  Download,
+  Upload,
+  Folder,
+  Pencil,
+  Pin,
+  PinOff,
+  Tag,
+} from 'lucide-react';
 import { ChatHistory } from '../types';
+import { ExportChatsMenu } from './ExportChatsMenu';
+import { ImportChatsDialog, importSourceLabel } from './ImportChatsDialog';
+import { OrganizeChatDialog, RenameFolderDialog } from './OrganizeChatDialog';
+import { listFolders, listTags, pinnedFirst } from '../utils/chatOrganization';
+import type { ChatOrganizationChanges } from '../utils/chatOrganization';
+import type { ExportFormat } from '../utils/chatExport';
+import { apiService } from '../services/api';
+import { snippetParts } from '../utils/chatSearch';
+import type { ChatSearchResult } from '../utils/chatSearch';
+
+const MESSAGE_SEARCH_DELAY_MS = 300;
+const ALL_FOLDERS = '__all__';
+const NO_FOLDER = '__none__';
 
 interface HistoryProps {
   chats: ChatHistory[];
   onSelectChat: (chat: ChatHistory) => void;
   onDeleteChat: (chatId: string) => void;
   onArchiveChat: (chatId: string, archive: boolean) => void;
+  onExportChats: (chats: ChatHistory[], format: ExportFormat) => void;
+  onImportChats: (chats: ChatHistory[]) => void;
+  onOpenSearchResult: (result: ChatSearchResult) => void;
+  onOrganizeChat: (chatId: string, changes: ChatOrganizationChanges) => void;
+  onRenameFolder: (from: string, to: string | null) => void;
+  userId: string;
 }
 
-export function History({ chats, onSelectChat, onDeleteChat, onArchiveChat }: HistoryProps) {
+export function History({
+  chats,
+  onSelectChat,
+  onDeleteChat,
+  onArchiveChat,
+  onExportChats,
+  onImportChats,
+  onOpenSearchResult,
+  onOrganizeChat,
+  onRenameFolder,
+  userId,
+}: HistoryProps) {
   const [searchTerm, setSearchTerm] = useState('');
   const [isViewingArchived, setIsViewingArchived] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [messageResults, setMessageResults] = useState<ChatSearchResult[]>([]);
+  const [isSearchingMessages, setIsSearchingMessages] = useState(false);
+
+  // 🔎 Titles are filtered here; messages are searched on the server (keywords + meaning)
+  useEffect(() => {
+    const query = searchTerm.trim();
+    if (query.length < 2) {
+      setMessageResults([]);
+      setIsSearchingMessages(false);
+      return;
+    }
+    let cancelled = false;
+    setIsSearchingMessages(true);
+    const timer = setTimeout(async () => {
+      try {
+        const response = await apiService.searchChats(userId, query);
+        if (!response.success) throw new Error(response.error || 'Search failed');
+        if (!cancelled) setMessageResults(response.results);
+      } catch (err) {
+        console.warn('⚠️ Message search failed:', err);
+        if (!cancelled) setMessageResults([]);
+      } finally {
+        if (!cancelled) setIsSearchingMessages(false);
+      }
+    }, MESSAGE_SEARCH_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchTerm, userId]);
+
+  const [folderFilter, setFolderFilter] = useState(ALL_FOLDERS);
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [organizingChat, setOrganizingChat] = useState<ChatHistory | null>(null);
+  const [renamingFolder, setRenamingFolder] = useState<string | null>(null);
+
+  const folders = useMemo(() => listFolders(chats), [chats]);
+  const tags = useMemo(() => listTags(chats), [chats]);
+
+  const filteredChats = pinnedFirst(
+    chats.filter(chat => {
+      const isArchivedMatch = isViewingArchived ? chat.archived === true : !chat.archived;
+      const isSearchMatch = chat.title.toLowerCase().includes(searchTerm.toLowerCase());
+      const isFolderMatch =
+        folderFilter === ALL_FOLDERS || (folderFilter === NO_FOLDER ? !chat.folder : chat.folder === folderFilter);
+      const isTagMatch = tagFilter.every(tag => chat.tags?.includes(tag));
+      return isArchivedMatch && isSearchMatch && isFolderMatch && isTagMatch;
+    })
+  );
+  const selectedChats = filteredChats.filter(chat => selectedIds.has(chat.id));
+
+  const toggleTagFilter = (tag: string) =>
+    setTagFilter(prev => (prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]));
+
+  // Filters can outlive their folder or tag (renamed, or the last chat moved out)
+  useEffect(() => {
+    if (folderFilter !== ALL_FOLDERS && folderFilter !== NO_FOLDER && !folders.includes(folderFilter)) {
+      setFolderFilter(ALL_FOLDERS);
+    }
+    if (tagFilter.some(tag => !tags.includes(tag))) {
+      setTagFilter(prev => prev.filter(tag => tags.includes(tag)));
+    }
+  }, [folders, tags, folderFilter, tagFilter]);
 
-  const filteredChats = chats.filter(chat => {
-    const isArchivedMatch = isViewingArchived ? chat.archived === true : !chat.archived;
-    const isSearchMatch = chat.title.toLowerCase().includes(searchTerm.toLowerCase());
-    return isArchivedMatch && isSearchMatch;
-  });
+  const toggleSelected = (chatId: string, selected: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (selected) next.add(chatId);
+      else next.delete(chatId);
+      return next;
+    });
+  };
 
   return (
     <div className="flex flex-col h-full bg-background text-foreground">
@@ -249,13 +363,33 @@ export function History({ chats, onSelectChat, onDeleteChat, onArchiveChat }: Hi
             {isViewingArchived ? 'View and restore your archived chats.' : 'Search and manage your past conversations.'}
           </p>
         </div>
-        <Button variant="outline" onClick={() => setIsViewingArchived(!isViewingArchived)}>
-          {isViewingArchived ? (
-            <><ArrowLeft className="mr-2 h-4 w-4" /> Back to History</>
-          ) : (
-            <><Archive className="mr-2 h-4 w-4" /> View Archived</>
-          )}
-        </Button>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+            <Upload className="mr-2 h-4 w-4" /> Import
+          </Button>
+          <ExportChatsMenu
+            label={selectedChats.length > 0 ? `Export ${selectedChats.length} selected as` : 'Export all as'}
+            onExport={format => onExportChats(selectedChats.length > 0 ? selectedChats : filteredChats, format)}
+          >
+            <Button variant="outline" disabled={filteredChats.length === 0}>
+              <Download className="mr-2 h-4 w-4" />
+              {selectedChats.length > 0 ? `Export selected (${selectedChats.length})` : 'Export all'}
+            </Button>
+          </ExportChatsMenu>
+          <Button
+            variant="outline"
+            onClick={() => {
+              setIsViewingArchived(!isViewingArchived);
+              setSelectedIds(new Set());
+            }}
+          >
+            {isViewingArchived ? (
+              <><ArrowLeft className="mr-2 h-4 w-4" /> Back to History</>
+            ) : (
+              <><Archive className="mr-2 h-4 w-4" /> View Archived</>
+            )}
+          </Button>
+        </div>
       </div>
       
       <div className="p-4 border-b border-border">
@@ -263,26 +397,140 @@ export function History({ chats, onSelectChat, onDeleteChat, onArchiveChat }: Hi
           <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
           <Input
             type="search"
-            placeholder="Search by title..."
+            placeholder="Search titles and messages..."
             className="pl-10"
             value={searchTerm}
             onChange={(e) => setSearchTerm(e.target.value)}
           />
         </div>
+        {(folders.length > 0 || tags.length > 0) && (
+          <div className="mt-3 flex flex-wrap items-center gap-2">
+            <Select value={folderFilter} onValueChange={setFolderFilter}>
+              <SelectTrigger className="w-48" size="sm">
+                <Folder className="h-4 w-4" />
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_FOLDERS}>All folders</SelectItem>
+                <SelectItem value={NO_FOLDER}>No folder</SelectItem>
+                {folders.map(folder => (
+                  <SelectItem key={folder} value={folder}>
+                    {folder}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {folderFilter !== ALL_FOLDERS && folderFilter !== NO_FOLDER && (
+              <Button variant="ghost" size="sm" onClick={() => setRenamingFolder(folderFilter)}>
+                <Pencil className="mr-1 h-3.5 w-3.5" /> Rename
+              </Button>
+            )}
+            {tags.map(tag => (
+              <Badge
+                key={tag}
+                asChild
+                variant={tagFilter.includes(tag) ? 'default' : 'outline'}
+              >
+                <button type="button" onClick={() => toggleTagFilter(tag)} aria-pressed={tagFilter.includes(tag)}>
+                  <Tag /> {tag}
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
       </div>
 
       <div className="flex-1 overflow-y-auto">
+        {(messageResults.length > 0 || isSearchingMessages) && (
+          <div className="border-b border-border">
+            <p className="px-4 pt-3 text-xs font-medium uppercase tracking-wide text-muted-foreground">
+              {isSearchingMessages ? 'Searching messages...' : 'Messages'}
+            </p>
+            <ul className="divide-y divide-border">
+              {messageResults.map(result => (
+                <li
+                  key={`${result.chatId}:${result.messageId}`}
+                  className="p-4 cursor-pointer hover:bg-accent transition-colors"
+                  onClick={() => onOpenSearchResult(result)}
+                >
+                  <p className="font-medium truncate">
+                    {chats.find(chat => chat.id === result.chatId)?.title ?? result.chatTitle}
+                  </p>
+                  <p className="text-sm text-muted-foreground line-clamp-2">
+                    <span className="font-medium">{result.role === 'user' ? 'You' : 'Assistant'}:</span>{' '}
+                    {snippetParts(result).map((part, index) =>
+                      part.highlighted ? (
+                        <mark key={index} className="rounded-sm bg-yellow-200 text-foreground dark:bg-yellow-500/30">
+                          {part.text}
+                        </mark>
+                      ) : (
+                        <span key={index}>{part.text}</span>
+                      )
+                    )}
+                  </p>
+                  <p className="text-xs text-muted-foreground mt-1">{new Date(result.timestamp).toLocaleDateString()}</p>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
         {filteredChats.length > 0 ? (
           <ul className="divide-y divide-border">
             {filteredChats.map(chat => (
-              <li key={chat.id} className="group flex items-center justify-between p-4 hover:bg-accent transition-colors">
-                <div className="flex-1 cursor-pointer" onClick={() => onSelectChat(chat)}>
-                  <p className="font-medium truncate">{chat.title}</p>
+              <li key={chat.id} className="group flex items-center justify-between gap-3 p-4 hover:bg-accent transition-colors">
+                <Checkbox
+                  checked={selectedIds.has(chat.id)}
+                  onCheckedChange={checked => toggleSelected(chat.id, checked === true)}
+                  aria-label={`Select "${chat.title}"`}
+                />
+                <div className="flex-1 min-w-0 cursor-pointer" onClick={() => onSelectChat(chat)}>
+                  <p className="font-medium truncate flex items-center gap-1.5">
+                    {chat.pinnedAt && <Pin className="h-3.5 w-3.5 shrink-0 text-muted-foreground" aria-label="Pinned" />}
+                    <span className="truncate">{chat.title}</span>
+                  </p>
                   <p className="text-sm text-muted-foreground">
                     {chat.messages.length} messages - Last updated on {chat.updatedAt.toLocaleDateString()}
+                    {chat.importedFrom && ` - Imported from ${importSourceLabel(chat.importedFrom.source)}`}
                   </p>
+                  {(chat.folder || !!chat.tags?.length) && (
+                    <div className="mt-1 flex flex-wrap gap-1">
+                      {chat.folder && (
+                        <Badge variant="secondary">
+                          <Folder /> {chat.folder}
+                        </Badge>
+                      )}
+                      {chat.tags?.map(tag => (
+                        <Badge key={tag} variant="outline">
+                          <Tag /> {tag}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
                 </div>
                 <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => onOrganizeChat(chat.id, { pinned: !chat.pinnedAt })}
+                    title={chat.pinnedAt ? 'Unpin chat' : 'Pin chat'}
+                  >
+                    {chat.pinnedAt ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => setOrganizingChat(chat)}
+                    title="Folder and tags"
+                  >
+                    <Tag className="h-4 w-4" />
+                  </Button>
+                  <ExportChatsMenu onExport={format => onExportChats([chat], format)}>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" title="Export chat">
+                      <Download className="h-4 w-4" />
+                    </Button>
+                  </ExportChatsMenu>
                   <Button
                     variant="ghost"
                     size="icon"
@@ -305,12 +553,33 @@ export function History({ chats, onSelectChat, onDeleteChat, onArchiveChat }: Hi
               </li>
             ))}
           </ul>
-        ) : (
+        ) : messageResults.length > 0 ? null : (
           <div className="text-center p-8 text-muted-foreground">
             <p>No {isViewingArchived ? 'archived' : 'active'} chats found.</p>
           </div>
         )}
       </div>
+
+      <OrganizeChatDialog
+        chat={organizingChat}
+        folders={folders}
+        onOpenChange={open => !open && setOrganizingChat(null)}
+        onSave={onOrganizeChat}
+      />
+      <RenameFolderDialog
+        folder={renamingFolder}
+        onOpenChange={open => !open && setRenamingFolder(null)}
+        onRename={(from, to) => {
+          onRenameFolder(from, to);
+          setFolderFilter(to ?? ALL_FOLDERS);
+        }}
+      />
+      <ImportChatsDialog
+        userId={userId}
+        open={isImportOpen}
+        onOpenChange={setIsImportOpen}
+        onImported={onImportChats}
+      />
     </div>
   );
 }
@@ -0,0 +1,150 @@
+import { useEffect, useRef, useState } from 'react';
+import { Upload } from 'lucide-react';
+import { Button } from './ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Label } from './ui/label';
+import { Progress } from './ui/progress';
+import { Switch } from './ui/switch';
+import { apiService } from '../services/api';
+import type { ChatImportStatus, ImportedChat, ImportSource } from '../services/api';
+import type { ChatHistory as Chat } from '../types';
+
+const SOURCE_LABELS: Record<ImportSource, string> = {
+  chatgpt: 'ChatGPT',
+  claude: 'Claude',
+  nubiqai: 'NubiqAI',
+  json: 'JSON',
+  markdown: 'Markdown',
+};
+
+export const importSourceLabel = (source: string) => SOURCE_LABELS[source as ImportSource] ?? source;
+
+const toChat = (chat: ImportedChat, importedAt: number): Chat => ({
+  id: chat.id,
+  title: chat.title,
+  createdAt: new Date(chat.createdAt),
+  updatedAt: new Date(chat.updatedAt),
+  messages: chat.messages.map(message => ({ ...message, timestamp: new Date(message.timestamp) })),
+  branches: chat.branches.map(message => ({ ...message, timestamp: new Date(message.timestamp) })),
+  importedFrom: { source: chat.source, importedAt },
+});
+
+interface ImportChatsDialogProps {
+  userId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: (chats: Chat[]) => void;
+}
+
+/**
+ * Import a ChatGPT / Claude export or JSON / Markdown transcripts, optionally adding
+ * them to long-term memory (with progress while that runs in the background)
+ */
+export function ImportChatsDialog({ userId, open, onOpenChange, onImported }: ImportChatsDialogProps) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [backfill, setBackfill] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<string | null>(null);
+  const [importId, setImportId] = useState<string | null>(null);
+  const [progress, setProgress] = useState<ChatImportStatus | null>(null);
+
+  // Poll the backfill until it finishes
+  useEffect(() => {
+    if (!importId) return;
+    let stopped = false;
+    const poll = async () => {
+      try {
+        const response = await apiService.getChatImportStatus(importId, userId);
+        if (!response.success) throw new Error(response.error || 'Failed to load import progress');
+        if (stopped) return;
+        setProgress(response.import);
+        if (response.import.status === 'done' || response.import.status === 'failed') return;
+      } catch (err) {
+        if (!stopped) setError((err as Error).message);
+        return;
+      }
+      if (!stopped) setTimeout(poll, 2000);
+    };
+    poll();
+    return () => {
+      stopped = true;
+    };
+  }, [importId, userId]);
+
+  const importFile = async (file: File) => {
+    setIsLoading(true);
+    setError(null);
+    setResult(null);
+    setProgress(null);
+    setImportId(null);
+    try {
+      const response = await apiService.importChats(file, userId, backfill);
+      if (!response.success) throw new Error(response.error || 'Import failed');
+      const importedAt = Date.now();
+      onImported(response.chats.map(chat => toChat(chat, importedAt)));
+      const failed = response.failedChats.length;
+      setResult(
+        `Imported ${response.chats.length} ${response.chats.length === 1 ? 'chat' : 'chats'} from ${file.name}.` +
+          (failed ? ` ${failed} couldn't be saved - import the file again to retry them.` : '')
+      );
+      setImportId(response.importId);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsLoading(false);
+      if (fileInput.current) fileInput.current.value = '';
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import chats</DialogTitle>
+          <DialogDescription>
+            Upload a ChatGPT or Claude data export (.zip or conversations.json), a NubiqAI JSON export, or
+            Markdown transcripts. Importing the same file again updates its chats instead of duplicating them.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <div className="flex items-center justify-between gap-4">
+          <Label htmlFor="import-backfill" className="text-sm font-normal">
+            Add to long-term memory so the assistant can recall these conversations
+          </Label>
+          <Switch id="import-backfill" checked={backfill} onCheckedChange={setBackfill} disabled={isLoading} />
+        </div>
+
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".zip,.json,.md,.markdown,.txt"
+          className="hidden"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) importFile(file);
+          }}
+        />
+        <Button onClick={() => fileInput.current?.click()} disabled={isLoading}>
+          <Upload className="w-4 h-4 mr-2" />
+          {isLoading ? 'Importing...' : 'Choose file'}
+        </Button>
+
+        {result && <p className="text-sm">{result}</p>}
+        {progress && (
+          <div className="space-y-2">
+            <Progress value={progress.totalChats ? (progress.processedChats / progress.totalChats) * 100 : 100} />
+            <p className="text-sm text-muted-foreground">
+              {progress.status === 'done' || progress.status === 'failed'
+                ? `Long-term memory: ${progress.storedTurns} turns added`
+                : `Adding to long-term memory: ${progress.processedChats} of ${progress.totalChats} chats`}
+              {progress.failedChats > 0 && ` · ${progress.failedChats} failed`}
+            </p>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,128 @@
+import { useEffect, useState } from 'react';
+import { Button } from './ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import type { ChatHistory as Chat } from '../types';
+import { parseTags } from '../utils/chatOrganization';
+import type { ChatOrganizationChanges } from '../utils/chatOrganization';
+
+interface OrganizeChatDialogProps {
+  chat: Chat | null;
+  folders: string[]; // Suggestions
+  onOpenChange: (open: boolean) => void;
+  onSave: (chatId: string, changes: ChatOrganizationChanges) => void;
+}
+
+/**
+ * Move a chat to a folder and edit its tags
+ */
+export function OrganizeChatDialog({ chat, folders, onOpenChange, onSave }: OrganizeChatDialogProps) {
+  const [folder, setFolder] = useState('');
+  const [tags, setTags] = useState('');
+
+  useEffect(() => {
+    setFolder(chat?.folder ?? '');
+    setTags((chat?.tags ?? []).join(', '));
+  }, [chat]);
+
+  const save = () => {
+    if (!chat) return;
+    onSave(chat.id, { folder: folder.trim() || null, tags: parseTags(tags) });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={chat !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Organize chat</DialogTitle>
+          <DialogDescription className="truncate">{chat?.title}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="organize-folder">Folder</Label>
+          <Input
+            id="organize-folder"
+            list="organize-folder-options"
+            placeholder="No folder"
+            maxLength={80}
+            value={folder}
+            onChange={e => setFolder(e.target.value)}
+          />
+          <datalist id="organize-folder-options">
+            {folders.map(name => (
+              <option key={name} value={name} />
+            ))}
+          </datalist>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="organize-tags">Tags</Label>
+          <Input
+            id="organize-tags"
+            placeholder="work, research"
+            value={tags}
+            onChange={e => setTags(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && save()}
+          />
+          <p className="text-xs text-muted-foreground">Separate tags with commas.</p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={save}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface RenameFolderDialogProps {
+  folder: string | null;
+  onOpenChange: (open: boolean) => void;
+  onRename: (from: string, to: string | null) => void;
+}
+
+/**
+ * Rename a folder on all of its chats, or remove it (the chats stay)
+ */
+export function RenameFolderDialog({ folder, onOpenChange, onRename }: RenameFolderDialogProps) {
+  const [name, setName] = useState('');
+
+  useEffect(() => {
+    setName(folder ?? '');
+  }, [folder]);
+
+  const rename = (to: string | null) => {
+    if (!folder) return;
+    onRename(folder, to);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={folder !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Rename folder</DialogTitle>
+          <DialogDescription>Removing the folder keeps its chats; they just become unfiled.</DialogDescription>
+        </DialogHeader>
+        <Input
+          maxLength={80}
+          value={name}
+          onChange={e => setName(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && name.trim() && rename(name.trim())}
+        />
+        <DialogFooter>
+          <Button variant="outline" className="text-destructive" onClick={() => rename(null)}>
+            Remove folder
+          </Button>
+          <Button disabled={!name.trim()} onClick={() => rename(name.trim())}>
+            Rename
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
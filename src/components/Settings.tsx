@@ -441,8 +441,9 @@ import { Badge } from './ui/badge';
 import { Separator } from './ui/separator';
 import { toast } from 'sonner';
 import type { User as UserType } from '../App';
+import { UsagePanel } from './UsagePanel';
 
-type SettingsSection = 'account' | 'workspace' | 'subscription' | 'preferences';
+type SettingsSection = 'account' | 'workspace' | 'subscription' | 'usage' | 'preferences';
 
 interface SettingsProps {
   section: SettingsSection;
@@ -818,6 +819,8 @@ export function Settings({
         return renderWorkspace();
       case 'subscription':
         return renderSubscription();
+      case 'usage':
+        return <UsagePanel userId={user.id} />;
       case 'preferences':
         return renderPreferences();
       default:
@@ -0,0 +1,154 @@
+import { useEffect, useState } from 'react';
+import { Copy, Link2, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from './ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { apiService } from '../services/api';
+import type { ChatShareSummary } from '../services/api';
+import type { ChatHistory as Chat } from '../types';
+
+const EXPIRY_OPTIONS: { label: string; days?: number }[] = [
+  { label: 'Never' },
+  { label: '1 day', days: 1 },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+];
+
+const shareUrl = (token: string) => `${window.location.origin}/share/${encodeURIComponent(token)}`;
+
+const shareStatus = (share: ChatShareSummary) => {
+  if (share.revokedAt) return 'Revoked';
+  if (share.expiresAt && share.expiresAt <= Date.now()) return 'Expired';
+  return share.expiresAt ? `Expires ${new Date(share.expiresAt).toLocaleDateString()}` : 'No expiry';
+};
+
+interface ShareChatDialogProps {
+  chat: Chat;
+  userId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Share links for one chat: publish a read-only snapshot, copy its link, revoke it
+ */
+export function ShareChatDialog({ chat, userId, open, onOpenChange }: ShareChatDialogProps) {
+  const [shares, setShares] = useState<ChatShareSummary[]>([]);
+  const [expiresInDays, setExpiresInDays] = useState<number | undefined>(undefined);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async () => {
+    try {
+      const response = await apiService.listChatShares();
+      if (!response.success) throw new Error(response.error || 'Failed to load share links');
+      setShares(response.shares.filter(share => share.chatId === chat.id));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  useEffect(() => {
+    if (open) load();
+  }, [open, chat.id]);
+
+  const copy = async (token: string) => {
+    await navigator.clipboard.writeText(shareUrl(token));
+    toast.success('Link copied');
+  };
+
+  const create = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      // The server snapshots the chat as it stores it, so local-only content stays here
+      const response = await apiService.shareChat(chat.id, { userId, expiresInDays });
+      if (!response.success) throw new Error(response.error || 'Failed to create share link');
+      await copy(response.share.token);
+      if (response.share.omittedMessages > 0) {
+        toast.warning(`Only the latest ${response.share.messageCount} messages are shared; earlier ones aren't kept on the server`);
+      }
+      await load();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const revoke = async (token: string) => {
+    setError(null);
+    try {
+      const response = await apiService.revokeChatShare(token);
+      if (!response.success) throw new Error(response.error || 'Failed to revoke share link');
+      await load();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share chat</DialogTitle>
+          <DialogDescription>
+            Anyone with the link can read the conversation as it is now. Document context is not included.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Link expires</p>
+          <div className="flex flex-wrap gap-2">
+            {EXPIRY_OPTIONS.map(option => (
+              <Button
+                key={option.label}
+                size="sm"
+                variant={expiresInDays === option.days ? 'default' : 'outline'}
+                onClick={() => setExpiresInDays(option.days)}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+          <Button onClick={create} disabled={isLoading || chat.messages.length === 0}>
+            <Link2 className="w-4 h-4 mr-2" />
+            Create link
+          </Button>
+        </div>
+
+        {shares.length > 0 && (
+          <div className="space-y-3">
+            <p className="text-sm font-medium">Links to this chat</p>
+            {shares.map(share => {
+              const live = !share.revokedAt && (!share.expiresAt || share.expiresAt > Date.now());
+              return (
+                <div key={share.token} className="flex items-center justify-between gap-4 text-sm">
+                  <div className="min-w-0">
+                    <p className="truncate font-mono text-xs">{shareUrl(share.token)}</p>
+                    <p className="text-muted-foreground">
+                      {new Date(share.createdAt).toLocaleString()} · {share.messageCount} messages
+                      {share.omittedMessages > 0 && ` (latest only)`} · {shareStatus(share)}
+                    </p>
+                  </div>
+                  {live && (
+                    <div className="flex items-center">
+                      <Button size="sm" variant="ghost" onClick={() => copy(share.token)} title="Copy link">
+                        <Copy className="w-4 h-4" />
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => revoke(share.token)} title="Revoke link">
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
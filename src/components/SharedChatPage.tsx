@@ -0,0 +1,96 @@
+import { useEffect, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { Link2Off } from 'lucide-react';
+import { markdownComponents } from './markdownComponents';
+import { apiService } from '../services/api';
+import type { SharedChatMessage } from '../services/api';
+
+interface SharedChat {
+  title: string;
+  messages: SharedChatMessage[];
+  omittedMessages: number;
+  createdAt: number;
+  expiresAt: number | null;
+}
+
+/**
+ * Public, read-only view of a chat snapshot behind a share link (/share/:token)
+ */
+export function SharedChatPage({ token }: { token: string }) {
+  const [chat, setChat] = useState<SharedChat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    apiService
+      .getSharedChat(token)
+      .then(response => {
+        if (!response.success) throw new Error(response.error);
+        setChat(response.chat);
+        document.title = `${response.chat.title} · NubiqAI`;
+      })
+      .catch(err => setError((err as Error).message || 'This share link is not available'));
+  }, [token]);
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-3 bg-background p-6 text-center">
+        <Link2Off className="h-8 w-8 text-muted-foreground" />
+        <p className="text-lg font-medium">{error}</p>
+        <a href="/" className="text-sm text-primary hover:underline">Go to NubiqAI</a>
+      </div>
+    );
+  }
+
+  if (!chat) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b px-6 py-4">
+        <div className="mx-auto max-w-3xl">
+          <h1 className="text-xl font-semibold break-words">{chat.title}</h1>
+          <p className="text-sm text-muted-foreground">
+            Shared conversation · {new Date(chat.createdAt).toLocaleDateString()}
+            {chat.expiresAt && ` · link expires ${new Date(chat.expiresAt).toLocaleDateString()}`}
+          </p>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-3xl space-y-4 px-6 py-6">
+        {chat.omittedMessages > 0 && (
+          <p className="text-center text-sm text-muted-foreground">
+            {chat.omittedMessages} earlier {chat.omittedMessages === 1 ? 'message is' : 'messages are'} not included
+          </p>
+        )}
+        {chat.messages.map(message => (
+          <div key={message.id} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+            <div
+              className={`max-w-2xl rounded-xl px-4 py-2.5 shadow-sm ${
+                message.role === 'user' ? 'bg-primary text-primary-foreground' : 'bg-muted/50 dark:bg-zinc-800/50'
+              }`}
+            >
+              <div className="prose dark:prose-invert max-w-none text-sm break-words">
+                <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownComponents}>
+                  {message.content}
+                </ReactMarkdown>
+              </div>
+              {message.attachments?.map(url => (
+                <img key={url} src={url} alt={message.content} className="mt-2 w-full max-w-md h-auto rounded-xl shadow-md" />
+              ))}
+            </div>
+          </div>
+        ))}
+      </main>
+
+      <footer className="pb-8 text-center text-sm text-muted-foreground">
+        Read-only snapshot · <a href="/" className="text-primary hover:underline">Try NubiqAI</a>
+      </footer>
+    </div>
+  );
+}
@@ -15,6 +15,10 @@ import {
   CreditCard,
   User,
   Palette,
+  KeyRound,
+  Download,
+  Pin,
+  PinOff,
 } from "lucide-react";
 import { Button } from "./ui/button";
 import { cn } from "./ui/utils";
@@ -24,6 +28,9 @@ import {
   CollapsibleTrigger,
 } from "./ui/collapsible";
 import { ChatHistory, NavigationSection } from "../types";
+import { ExportChatsMenu } from "./ExportChatsMenu";
+import type { ExportFormat } from "../utils/chatExport";
+import { pinnedFirst } from "../utils/chatOrganization";
 import React from "react";
 
 interface SidebarProps {
@@ -32,6 +39,8 @@ interface SidebarProps {
   onNewChat: () => void;
   recentChats: ChatHistory[];
   onSelectChat: (chat: ChatHistory) => void;
+  onExportChats: (chats: ChatHistory[], format: ExportFormat) => void;
+  onTogglePin: (chat: ChatHistory) => void;
   activeChatId: string | null;
   isCollapsed: boolean;
   onToggleCollapse: () => void;
@@ -70,11 +79,49 @@ export function Sidebar({
   onNewChat,
   recentChats,
   onSelectChat,
+  onExportChats,
+  onTogglePin,
   activeChatId,
   isCollapsed,
   onToggleCollapse,
 }: SidebarProps) {
   const isWorkspaceExpanded = !isCollapsed && activeSection.startsWith("workspace");
+  const pinnedChats = pinnedFirst(recentChats).filter(chat => chat.pinnedAt);
+  const unpinnedChats = recentChats.filter(chat => !chat.pinnedAt);
+
+  const renderChatItem = (chat: ChatHistory) => (
+    <div key={chat.id} className="group relative">
+      <NavItem
+        isActive={activeChatId === chat.id && activeSection === 'home'}
+        className="truncate pr-16"
+        onClick={() => onSelectChat(chat)}
+        title={chat.title}
+      >
+        <span className={cn("truncate", isCollapsed && "sr-only")}>
+          {chat.title}
+        </span>
+      </NavItem>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="absolute right-8 top-1/2 -translate-y-1/2 h-7 w-7 opacity-0 group-hover:opacity-100 transition-opacity"
+        onClick={() => onTogglePin(chat)}
+        title={chat.pinnedAt ? "Unpin chat" : "Pin chat"}
+      >
+        {chat.pinnedAt ? <PinOff className="w-3.5 h-3.5" /> : <Pin className="w-3.5 h-3.5" />}
+      </Button>
+      <ExportChatsMenu onExport={format => onExportChats([chat], format)}>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="absolute right-1 top-1/2 -translate-y-1/2 h-7 w-7 opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100 transition-opacity"
+          title="Export chat"
+        >
+          <Download className="w-3.5 h-3.5" />
+        </Button>
+      </ExportChatsMenu>
+    </div>
+  );
   const isSettingsExpanded = activeSection.startsWith("settings");
 
   const mainSidebarItems = [
@@ -155,6 +202,16 @@ export function Sidebar({
         label: "Subscription",
         section: "settings-subscription" as ActiveSection,
       },
+      {
+        icon: BarChart3,
+        label: "Usage",
+        section: "settings-usage" as ActiveSection,
+      },
+      {
+        icon: KeyRound,
+        label: "API keys",
+        section: "settings-api-keys" as ActiveSection,
+      },
       {
         icon: Palette,
         label: "Preferences",
@@ -251,26 +308,22 @@ export function Sidebar({
             })}  
           </nav>
         </div>
-        {/* Recent Chats Section */}
+        {/* Pinned + Recent Chats Section */}
         {!isCollapsed && <div className="px-4 pt-3 mt-2 border-t border-white/5 dark:border-white/5">
+          {pinnedChats.length > 0 && (
+            <>
+              <h3 className="text-xs font-medium text-muted-foreground/80 tracking-wide mb-2 px-3 text-[#9CA3AF]">
+                Pinned
+              </h3>
+              <div className="space-y-1 mb-3">{pinnedChats.map(renderChatItem)}</div>
+            </>
+          )}
           <h3 className="text-xs font-medium text-muted-foreground/80 tracking-wide mb-2 px-3 text-[#9CA3AF]">
             Recent
           </h3>
           <div className="space-y-1">
-            {recentChats.slice(0, 8).map(chat => (
-              <NavItem
-                key={chat.id}
-                isActive={activeChatId === chat.id && activeSection === 'home'}
-                className="truncate"
-                onClick={() => onSelectChat(chat)}
-                title={chat.title}
-              >
-                <span className={cn("truncate", isCollapsed && "sr-only")}>
-                  {chat.title}
-                </span>
-              </NavItem>
-            ))}
-            {recentChats.length > 8 && (
+            {unpinnedChats.slice(0, 8).map(renderChatItem)}
+            {unpinnedChats.length > 8 && (
               <Button
                 variant="link"
                 className="w-full justify-start text-sm text-muted-foreground h-auto p-1 mt-2"
@@ -0,0 +1,219 @@
+import { useEffect, useState } from 'react';
+import { BarChart3, RefreshCw } from 'lucide-react';
+import { Button } from './ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { apiService } from '../services/api';
+import type { PlanTier, QuotaFeature, QuotaStatus, UsageDay, UsageRollup, UsageTotals } from '../services/api';
+
+interface UsagePanelProps {
+  userId: string;
+}
+
+const RANGES = [7, 30, 90];
+
+const PURPOSE_LABELS: Record<string, string> = {
+  chat: 'Answers',
+  intent: 'Intent detection',
+  summary: 'Summaries',
+  profile: 'Profile extraction',
+  image: 'Images',
+  document: 'Documents',
+  structured: 'Structured output',
+  transcription: 'Transcription',
+  title: 'Chat titles',
+};
+
+const QUOTA_LABELS: Record<QuotaFeature, string> = {
+  messages: 'Messages',
+  imageGenerations: 'Image generations',
+  documentPages: 'Document pages',
+  transcriptions: 'Transcriptions',
+};
+
+const formatTokens = (n: number) =>
+  n >= 1_000_000 ? `${(n / 1_000_000).toFixed(1)}M` : n >= 1_000 ? `${(n / 1_000).toFixed(1)}k` : String(n);
+
+function Breakdown({ title, rows, labels }: { title: string; rows: Record<string, UsageTotals>; labels?: Record<string, string> }) {
+  const entries = Object.entries(rows).sort((a, b) => b[1].totalTokens - a[1].totalTokens);
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {entries.map(([name, totals]) => (
+          <div key={name} className="flex justify-between text-sm">
+            <span className="truncate mr-4">{labels?.[name] ?? name}</span>
+            <span className="text-muted-foreground whitespace-nowrap">
+              {formatTokens(totals.totalTokens)} tokens · {totals.requests} calls
+            </span>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+function QuotaRow({ feature, quota }: { feature: QuotaFeature; quota: QuotaStatus }) {
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-sm">
+        <span>{QUOTA_LABELS[feature]}</span>
+        <span className="text-muted-foreground">
+          {quota.limit === null ? `${quota.used} used · unlimited` : `${quota.remaining} of ${quota.limit} left`}
+        </span>
+      </div>
+      {quota.limit !== null && (
+        <div className="h-2 rounded bg-muted">
+          <div
+            className="h-2 rounded bg-primary"
+            style={{ width: `${Math.min(100, (quota.used / Math.max(1, quota.limit)) * 100)}%` }}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Token usage of the signed-in user: totals, a daily chart and breakdowns by model, feature and route
+ */
+export function UsagePanel({ userId }: UsagePanelProps) {
+  const [days, setDays] = useState(30);
+  const [totals, setTotals] = useState<UsageRollup | null>(null);
+  const [daily, setDaily] = useState<UsageDay[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [plan, setPlan] = useState<{ plan: PlanTier; quotas: Record<QuotaFeature, QuotaStatus>; resetsAt: string } | null>(null);
+
+  const load = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const from = new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+      const response = await apiService.getUsage(userId, { from });
+      if (!response.success || !response.totals) throw new Error(response.error || 'Failed to load usage');
+      setTotals(response.totals);
+      setDaily(response.days || []);
+
+      const quota = await apiService.getQuota(userId);
+      if (quota.success && quota.plan && quota.quotas && quota.resetsAt) {
+        setPlan({ plan: quota.plan, quotas: quota.quotas, resetsAt: quota.resetsAt });
+      }
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (userId) load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [userId, days]);
+
+  const maxDay = Math.max(1, ...daily.map(d => d.totalTokens));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold">Usage</h2>
+        <div className="flex items-center gap-2">
+          {RANGES.map(range => (
+            <Button
+              key={range}
+              size="sm"
+              variant={range === days ? 'default' : 'outline'}
+              onClick={() => setDays(range)}
+            >
+              {range} days
+            </Button>
+          ))}
+          <Button size="sm" variant="ghost" onClick={load} disabled={isLoading}>
+            <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {plan && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="capitalize">{plan.plan} plan · today</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {(Object.keys(QUOTA_LABELS) as QuotaFeature[]).map(feature => (
+              <QuotaRow key={feature} feature={feature} quota={plan.quotas[feature]} />
+            ))}
+            <p className="text-xs text-muted-foreground">Resets {new Date(plan.resetsAt).toLocaleString()}</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {totals && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>Last {days} days</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {[
+                  ['Total tokens', totals.totalTokens],
+                  ['Prompt tokens', totals.promptTokens],
+                  ['Output tokens', totals.outputTokens],
+                  ['Model calls', totals.requests],
+                ].map(([label, value]) => (
+                  <div key={label}>
+                    <p className="text-sm text-muted-foreground">{label}</p>
+                    <p className="text-2xl font-semibold">{formatTokens(value as number)}</p>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <BarChart3 className="w-4 h-4" />
+                Daily usage
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {daily.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">
+                  <p>No usage in this period</p>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {daily.map(day => (
+                    <div key={day.date} className="flex items-center gap-3 text-sm">
+                      <span className="w-24 text-muted-foreground">{day.date}</span>
+                      <div className="flex-1 h-2 rounded bg-muted">
+                        <div
+                          className="h-2 rounded bg-primary"
+                          style={{ width: `${(day.totalTokens / maxDay) * 100}%` }}
+                        />
+                      </div>
+                      <span className="w-16 text-right">{formatTokens(day.totalTokens)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {totals.requests > 0 && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <Breakdown title="By model" rows={totals.byModel} />
+              <Breakdown title="By feature" rows={totals.byPurpose} labels={PURPOSE_LABELS} />
+              <Breakdown title="By route" rows={totals.byRoute} />
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
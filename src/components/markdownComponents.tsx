@@ -0,0 +1,36 @@
+// markdownComponents.tsx - How chat messages render markdown (chat view and shared links)
+import type { Components } from 'react-markdown';
+
+export const markdownComponents: Components = {
+  h1: ({ node, ...props }) => <h1 className="text-xl font-bold mt-4 mb-2 break-words" {...props} />,
+  h2: ({ node, ...props }) => <h2 className="text-lg font-bold mt-3 mb-2 break-words" {...props} />,
+  h3: ({ node, ...props }) => <h3 className="text-base font-semibold mt-2 mb-1 break-words" {...props} />,
+  code: ({ node, inline, className, children, ...props }: any) => {
+    if (inline) {
+      return (
+        <code className="bg-zinc-100 dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100 px-1.5 py-0.5 rounded text-xs font-mono break-all" {...props}>
+          {children}
+        </code>
+      );
+    }
+    // Block code
+    return (
+      <code className="text-zinc-900 dark:text-zinc-100 text-xs font-mono block whitespace-pre-wrap break-words" {...props}>
+        {children}
+      </code>
+    );
+  },
+  pre: ({ node, children, ...props }) => (
+    <pre className="bg-zinc-100 dark:bg-zinc-800 p-4 rounded-lg my-3 border border-zinc-200 dark:border-zinc-700 overflow-hidden max-w-full" {...props}>
+      {children}
+    </pre>
+  ),
+  ul: ({ node, ...props }) => <ul className="list-disc list-inside my-2 space-y-1 break-words" {...props} />,
+  ol: ({ node, ...props }) => <ol className="list-decimal list-inside my-2 space-y-1 break-words" {...props} />,
+  blockquote: ({ node, ...props }) => (
+    <blockquote className="border-l-4 border-primary pl-4 italic my-2 text-muted-foreground break-words" {...props} />
+  ),
+  p: ({ node, ...props }) => <p className="whitespace-pre-wrap my-1 break-words" {...props} />,
+  strong: ({ node, ...props }) => <strong className="font-bold break-words" {...props} />,
+  em: ({ node, ...props }) => <em className="italic break-words" {...props} />,
+};
@@ -1,13 +1,17 @@
 import React from "react";
 import ReactDOM from "react-dom/client";
 import App from "./App";
+import { SharedChatPage } from "./components/SharedChatPage";
 import "./styles/globals.css";
 
 const rootElement = document.getElementById("root")!;
 const root = ReactDOM.createRoot(rootElement);
 
+// 🔗 Share links (/share/:token) open a public read-only page instead of the app
+const shareToken = window.location.pathname.match(/^\/share\/([^/]+)\/?$/)?.[1];
+
 root.render(
   <React.StrictMode>
-    <App />
+    {shareToken ? <SharedChatPage token={decodeURIComponent(shareToken)} /> : <App />}
   </React.StrictMode>
 );
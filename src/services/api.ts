@@ -1,5 +1,77 @@
 // API service layer for backend integration
 // Ready for real API integration
+import { auth } from '../config/firebase';
+import type {
+  ApiErrorBody,
+  ApiRequestBody,
+  ApiResponseBody,
+  ApiRouteName,
+  ApiKeyScope,
+  ApiKeySummary,
+  ChatImportStatus,
+  ChatOrganization,
+  ChatSearchResult,
+  ChatShareSummary,
+  ChatTreeMessage,
+  ExportChat,
+  ExportFormat,
+  ImportedChat,
+  ImportSource,
+  PlanEntitlements,
+  PlanTier,
+  QuotaFeature,
+  QuotaStatus,
+  SharedChatMessage,
+  UsageDay,
+  UsageRollup,
+  UsageTotals,
+} from '../../Server/services/apiSchemas';
+
+// Request and response shapes come from the server's route schemas (Server/services/apiSchemas.ts)
+export type {
+  ApiKeyScope,
+  ApiKeySummary,
+  ChatImportStatus,
+  ChatOrganization,
+  ChatSearchResult,
+  ChatShareSummary,
+  ChatTreeMessage,
+  ExportChat,
+  ExportFormat,
+  ImportedChat,
+  ImportSource,
+  PlanEntitlements,
+  PlanTier,
+  QuotaFeature,
+  QuotaStatus,
+  SharedChatMessage,
+  UsageDay,
+  UsageRollup,
+  UsageTotals,
+};
+
+// A route's answer: its success body, or the error body every route shares
+export type ApiResult<K extends ApiRouteName> = (ApiResponseBody<K> & { error?: undefined }) | ApiErrorBody;
+
+/**
+ * The signed-in user's Firebase ID token (the SDK refreshes it when it's about to expire)
+ */
+async function idToken(): Promise<string | undefined> {
+  try {
+    return await auth.currentUser?.getIdToken();
+  } catch (err) {
+    console.warn('Could not get an ID token:', err);
+    return undefined;
+  }
+}
+
+/**
+ * Authorization header for API calls made outside request()
+ */
+export async function authHeaders(): Promise<Record<string, string>> {
+  const token = await idToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
 
 export interface ApiResponse<T> {
   data: T;
@@ -13,13 +85,173 @@ export interface ApiError {
   status: number;
 }
 
+// A generated or edited image, streamed in place of text chunks
+export interface ChatImageResult {
+  kind: 'edit' | 'generate';
+  text: string;
+  imageBase64: string | null;
+  imageUri: string | null;
+  imageLocalUri: string | null;
+  altText: string | null;
+}
+
+// Messages the chat WebSocket sends (see Server/services/chatSocketService.ts)
+export type ChatSocketMessage =
+  | { type: 'start'; requestId: string }
+  | { type: 'chunk'; requestId: string; text: string; cached?: boolean }
+  | {
+      type: 'tool';
+      requestId: string;
+      call?: { id: string; name: string; args: Record<string, any> };
+      result?: { id: string; name: string; result?: unknown; error?: string; durationMs: number };
+    }
+  | { type: 'image'; requestId: string; image: ChatImageResult }
+  | { type: 'done'; requestId: string; cached?: boolean; duration?: number; provider?: string }
+  | { type: 'error'; requestId?: string; error: string }
+  | { type: 'cancel'; requestId: string }
+  | { type: 'event'; name: string; data: Record<string, any> }
+  | { type: 'pong' };
+
+type StreamMessage = Exclude<ChatSocketMessage, { type: 'event' } | { type: 'pong' }>;
+
+/**
+ * One WebSocket per user carrying every chat stream, tagged by requestId,
+ * plus server pushes like "chat.persisted", "chat.title" and "image.persisted"
+ */
+class ChatSocket {
+  private socket: WebSocket | null = null;
+  private connecting: Promise<WebSocket> | null = null;
+  private userId: string | null = null;
+  private attempt = 0; // Bumped by each connect and disconnect; older attempts give up
+  private streams = new Map<string, (message: StreamMessage) => void>();
+  private listeners = new Set<(name: string, data: Record<string, any>) => void>();
+  private unavailableUntil = 0; // After a failed connect, go straight to SSE for a while
+
+  constructor(private url: string) {}
+
+  connect(userId: string): Promise<WebSocket> {
+    if (this.socket?.readyState === WebSocket.OPEN && this.userId === userId) {
+      return Promise.resolve(this.socket);
+    }
+    if (this.connecting && this.userId === userId) return this.connecting;
+    if (Date.now() < this.unavailableUntil || typeof WebSocket === 'undefined') {
+      return Promise.reject(new Error('WebSocket unavailable'));
+    }
+
+    this.socket?.close();
+    this.userId = userId;
+    const attempt = ++this.attempt;
+    // Browsers can't set headers on a WebSocket, so the ID token goes in the query
+    this.connecting = idToken().then((token) => new Promise<WebSocket>((resolve, reject) => {
+      const query = `userId=${encodeURIComponent(userId)}${token ? `&token=${encodeURIComponent(token)}` : ''}`;
+      const socket = new WebSocket(`${this.url}?${query}`);
+      const timer = setTimeout(() => socket.close(), 5000);
+
+      socket.onopen = () => {
+        clearTimeout(timer);
+        if (attempt !== this.attempt) {
+          // Signed out, or another user connected, while this one was opening
+          socket.onclose = null;
+          socket.close();
+          reject(new Error('WebSocket connection superseded'));
+          return;
+        }
+        this.socket = socket;
+        this.connecting = null;
+        resolve(socket);
+      };
+      socket.onmessage = (event) => this.handleMessage(event.data);
+      socket.onclose = () => {
+        clearTimeout(timer);
+        if (this.socket !== socket) {
+          // Never opened
+          if (attempt === this.attempt) this.connecting = null;
+          this.unavailableUntil = Date.now() + 60000;
+          reject(new Error('WebSocket connection failed'));
+          return;
+        }
+        this.socket = null;
+        // Streams in flight on this socket are gone
+        this.streams.forEach((handler, requestId) =>
+          handler({ type: 'error', requestId, error: 'Connection lost' })
+        );
+        this.streams.clear();
+        // Keep receiving server pushes while someone listens, as whoever is signed in by then
+        setTimeout(() => {
+          if (this.userId && this.listeners.size > 0) this.connect(this.userId).catch(() => {});
+        }, 5000);
+      };
+    }));
+    return this.connecting;
+  }
+
+  /**
+   * Close the socket, ending streams still running on it, and don't reconnect
+   */
+  disconnect(): void {
+    this.attempt++;
+    this.userId = null;
+    this.connecting = null;
+    this.socket?.close();
+  }
+
+  start(payload: Record<string, any> & { requestId: string }, handler: (message: StreamMessage) => void): void {
+    this.streams.set(payload.requestId, handler);
+    this.socket?.send(JSON.stringify({ type: 'start', ...payload }));
+  }
+
+  cancel(requestId: string): void {
+    if (!this.streams.delete(requestId)) return;
+    this.socket?.send(JSON.stringify({ type: 'cancel', requestId }));
+  }
+
+  /**
+   * Listen for server pushes. Returns an unsubscribe function.
+   */
+  onEvent(listener: (name: string, data: Record<string, any>) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+      // The last listener leaves on sign-out: the previous user's pushes must stop
+      if (this.listeners.size === 0) this.disconnect();
+    };
+  }
+
+  private handleMessage(raw: string): void {
+    let message: ChatSocketMessage;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      return;
+    }
+
+    if (message.type === 'event') {
+      this.listeners.forEach((listener) => listener(message.name, message.data));
+      return;
+    }
+    if (!('requestId' in message) || !message.requestId) {
+      if (message.type === 'error') console.warn('Chat socket error:', message.error);
+      return;
+    }
+
+    const handler = this.streams.get(message.requestId);
+    if (!handler) return;
+    if (message.type === 'done' || message.type === 'error' || message.type === 'cancel') {
+      this.streams.delete(message.requestId);
+    }
+    handler(message as StreamMessage);
+  }
+}
+
 class ApiService {
   private baseURL: string;
   private timeout: number;
+  private chatSocket: ChatSocket;
 
   constructor() {
     this.baseURL = (import.meta as any).env?.VITE_API_URL || 'http://localhost:8000/api';
     this.timeout = 120000; // 120 seconds (2 minutes) - for long responses like code generation
+    this.chatSocket = new ChatSocket(`${this.baseURL.replace(/^http/, 'ws')}/ws`);
   }
 
   private async request<T>(
@@ -42,14 +274,11 @@ class ApiService {
       headers: mergedHeaders,
     };
 
-    // Add auth token if available
-    const token = localStorage.getItem('auth_token');
-    if (token) {
-      config.headers = {
-        ...config.headers,
-        Authorization: `Bearer ${token}`,
-      };
-    }
+    // Firebase ID token - the server takes the user from it
+    config.headers = {
+      ...config.headers,
+      ...(await authHeaders()),
+    };
 
     // Implement a small retry for aborts and provide clearer timeout errors
     const maxAttempts = 2;
@@ -71,12 +300,15 @@ class ApiService {
         if (!response.ok) {
           // Try to parse JSON error to get message and success flag
           let errMessage = `HTTP error! status: ${response.status}`;
+          let errCode: string | undefined;
           try {
             const maybeJson = await response.json();
             if (maybeJson?.error) errMessage = String(maybeJson.error);
+            errCode = maybeJson?.code; // Plan limits: "plan_required" (402) / "quota_exceeded" (429)
           } catch {}
           const err: any = new Error(errMessage);
           err.status = response.status;
+          err.code = errCode;
           throw err;
         }
 
@@ -109,6 +341,11 @@ class ApiService {
     throw new Error('Failed to complete request');
   }
 
+  // Routes described by the server's schemas (Server/services/apiSchemas.ts)
+  private async requestRoute<K extends ApiRouteName>(endpoint: string, options: RequestInit = {}): Promise<ApiResult<K>> {
+    return (await this.request(endpoint, options)) as unknown as ApiResult<K>;
+  }
+
   // Authentication endpoints
   async signInWithGoogle(idToken: string): Promise<ApiResponse<{ user: any; token: string }>> {
     return this.request('/auth/google', {
@@ -192,6 +429,7 @@ class ApiService {
     conversationSummary?: string; // 🎯 NEW! Summary of older messages to save tokens
     useMemory?: boolean; // Enable/disable memory
     documentId?: string; // 🎯 NEW! Document ID for RAG retrieval
+    memoryScope?: { folder?: string; tag?: string }; // New chats: only recall this folder's / tag's chats
   }): Promise<{ 
     success: boolean; 
     text?: string; 
@@ -217,8 +455,10 @@ class ApiService {
       if (data.userName) formData.append('userName', data.userName); // 🎯 NEW!
       if (data.chatId) formData.append('chatId', data.chatId); // 🎯 NEW!
       if (data.messageCount !== undefined) formData.append('messageCount', String(data.messageCount)); // 🎯 NEW!
-      if (data.useMemory !== undefined) formData.append('useMemory', String(data.useMemory));
+      if (data.useMemory !== undefined) formData.append('memory', String(data.useMemory));
       if (data.documentId) formData.append('documentId', data.documentId); // 🎯 NEW! For RAG
+      if (data.memoryScope?.folder) formData.append('memoryFolder', data.memoryScope.folder);
+      if (data.memoryScope?.tag) formData.append('memoryTag', data.memoryScope.tag);
       
       return this.request('/ask-ai', {
         method: 'POST',
@@ -238,19 +478,24 @@ class ApiService {
           messageCount: data.messageCount,        // 🎯 NEW! Detect new vs continuing
           conversationHistory: data.conversationHistory, // 🎯 NEW! Previous messages for context
           conversationSummary: data.conversationSummary, // 🎯 NEW! Summary of older messages
-          useMemory: data.useMemory !== false, // Default to true if not specified
-          documentId: data.documentId            // 🎯 NEW! For RAG document retrieval
-        }),
+          memory: data.useMemory !== false, // Default to true if not specified
+          documentId: data.documentId,           // 🎯 NEW! For RAG document retrieval
+          memoryFolder: data.memoryScope?.folder,
+          memoryTag: data.memoryScope?.tag,
+        } satisfies ApiRequestBody<'askAi'>),
       });
     }
   }
 
   /**
    * Stream AI response using Server-Sent Events
-   * Provides real-time text generation (like ChatGPT typing effect)
+   * Provides real-time text generation (like ChatGPT typing effect). Image uploads,
+   * documents and image generation go through the same stream: generated or edited
+   * images arrive once via onImage instead of text chunks.
    */
   async askAIStream(data: {
     message: string;
+    image?: File;
     userId?: string;
     userName?: string;
     chatId?: string;
@@ -258,35 +503,36 @@ class ApiService {
     conversationHistory?: Array<{ role: 'user' | 'assistant' | 'system'; content: string }>;
     conversationSummary?: string;
     useMemory?: boolean;
+    memoryScope?: { folder?: string; tag?: string }; // New chats: only recall this folder's / tag's chats
+    documentId?: string;
+    type?: 'text' | 'image';
+    regenerate?: boolean;
     onChunk: (text: string, isCached?: boolean) => void;
+    onImage?: (image: ChatImageResult) => void;
     onComplete: (metadata: { duration: number; cached?: boolean }) => void;
     onError: (error: string) => void;
+    onToolCall?: (call: { id: string; name: string; args: Record<string, any> }) => void;
+    onToolResult?: (result: { id: string; name: string; result?: unknown; error?: string; durationMs: number }) => void;
     signal?: AbortSignal;
   }): Promise<void> {
     const url = `${this.baseURL}/ask-ai-stream`;
-
-    try {
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          prompt: data.message,
-          userId: data.userId,
-          userName: data.userName,
-          chatId: data.chatId,
-          messageCount: data.messageCount,
-          conversationHistory: data.conversationHistory,
-          conversationSummary: data.conversationSummary,
-          memory: data.useMemory !== false,
-        }),
-        signal: data.signal,
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+    const maxResumeAttempts = 5;
+    // Frame ids look like "<streamId>:<seq>"; the last one we saw is where a reconnect resumes
+    let lastEventId: string | null = null;
+    let finished = false;
+
+    // Stop button: also cancel on the server, or a resumable stream keeps generating for a while
+    data.signal?.addEventListener('abort', () => {
+      const streamId = lastEventId?.split(':')[0];
+      if (streamId && !finished) {
+        authHeaders()
+          .then((headers) => fetch(`${url}/${streamId}`, { method: 'DELETE', headers }))
+          .catch(() => {});
       }
+    });
 
-      // Read the response body as a stream
+    // Read SSE frames until the done/error frame (true) or the connection ends early (false)
+    const readStream = async (response: Response): Promise<boolean> => {
       const reader = response.body?.getReader();
       if (!reader) {
         throw new Error('No response body');
@@ -297,25 +543,28 @@ class ApiService {
 
       while (true) {
         const { done, value } = await reader.read();
-        if (done) break;
+        if (done) return false;
 
         // Decode chunk and add to buffer
         buffer += decoder.decode(value, { stream: true });
 
-        // Process complete SSE messages (lines ending with \n\n)
+        // Process complete SSE messages (frames ending with \n\n)
         const messages = buffer.split('\n\n');
         buffer = messages.pop() || ''; // Keep incomplete message in buffer
 
         for (const message of messages) {
-          if (!message.trim() || !message.startsWith('data: ')) continue;
+          const lines = message.split('\n');
+          const dataLine = lines.find(line => line.startsWith('data: '));
+          if (!dataLine) continue;
 
           try {
-            const jsonStr = message.slice(6); // Remove 'data: ' prefix
-            const parsed = JSON.parse(jsonStr);
+            const parsed = JSON.parse(dataLine.slice(6)); // Remove 'data: ' prefix
+            const idLine = lines.find(line => line.startsWith('id: '));
+            if (idLine) lastEventId = idLine.slice(4);
 
             if (parsed.error) {
               data.onError(parsed.error);
-              return;
+              return true;
             }
 
             if (parsed.done) {
@@ -323,7 +572,23 @@ class ApiService {
                 duration: parsed.duration || 0,
                 cached: parsed.cached || false,
               });
-              return;
+              return true;
+            }
+
+            // 🔧 The assistant is using a tool (calculator, memory search...)
+            if (parsed.tool_call) {
+              data.onToolCall?.(parsed.tool_call);
+              continue;
+            }
+            if (parsed.tool_result) {
+              data.onToolResult?.(parsed.tool_result);
+              continue;
+            }
+
+            // 🎨 Image generation/edit result
+            if (parsed.image) {
+              data.onImage?.(parsed.image);
+              continue;
             }
 
             if (parsed.text) {
@@ -334,32 +599,171 @@ class ApiService {
           }
         }
       }
+    };
 
-      // Handle any remaining buffer
-      if (buffer.trim() && buffer.startsWith('data: ')) {
-        try {
-          const jsonStr = buffer.slice(6);
-          const parsed = JSON.parse(jsonStr);
-          if (parsed.done) {
-            data.onComplete({
-              duration: parsed.duration || 0,
-              cached: parsed.cached || false,
+    // Uploads go as multipart like askAI, everything else as JSON
+    const buildBody = (): { body: BodyInit; headers: Record<string, string> } => {
+      const fields = {
+        prompt: data.message,
+        type: data.type,
+        userId: data.userId,
+        userName: data.userName,
+        chatId: data.chatId,
+        messageCount: data.messageCount,
+        conversationHistory: data.conversationHistory,
+        conversationSummary: data.conversationSummary,
+        memory: data.useMemory !== false,
+        memoryFolder: data.memoryScope?.folder,
+        memoryTag: data.memoryScope?.tag,
+        documentId: data.documentId,
+        regenerate: data.regenerate,
+        resumable: true,
+      };
+      if (!data.image) {
+        return { body: JSON.stringify(fields), headers: { 'Content-Type': 'application/json' } };
+      }
+      const formData = new FormData();
+      for (const [key, value] of Object.entries(fields)) {
+        if (value === undefined) continue;
+        formData.append(key, typeof value === 'object' ? JSON.stringify(value) : String(value));
+      }
+      formData.append('image', data.image);
+      return { body: formData, headers: {} };
+    };
+
+    // 🔁 Flaky networks: reconnect with Last-Event-ID and keep appending to the same message
+    let retries = 0;
+    while (true) {
+      const resumeFrom = lastEventId as string | null; // Set inside readStream, which TS can't see
+      try {
+        const authorization = await authHeaders();
+        const request = buildBody();
+        const response = resumeFrom
+          ? await fetch(`${url}/${resumeFrom.split(':')[0]}`, {
+              headers: { 'Last-Event-ID': resumeFrom, ...authorization },
+              signal: data.signal,
+            })
+          : await fetch(url, {
+              method: 'POST',
+              body: request.body,
+              headers: { ...request.headers, ...authorization },
+              signal: data.signal,
             });
-          }
-        } catch (parseError) {
-          console.warn('Failed to parse final SSE message:', buffer);
+
+        if (!response.ok) {
+          // The stream expired or never started - nothing to resume
+          data.onError(`HTTP error! status: ${response.status}`);
+          return;
         }
+
+        if (await readStream(response)) {
+          finished = true;
+          return;
+        }
+        throw new Error('Stream ended before it finished');
+      } catch (err: any) {
+        if (err.name === 'AbortError') {
+          console.log('Stream aborted by user');
+          return;
+        }
+        // Back off afresh whenever the last connection made progress
+        retries = lastEventId !== resumeFrom ? 1 : retries + 1;
+        if (!lastEventId || retries > maxResumeAttempts) {
+          console.error('Streaming error:', err);
+          data.onError(err.message || 'Streaming failed');
+          return;
+        }
+        const delay = Math.min(500 * 2 ** (retries - 1), 8000);
+        console.warn(`Stream interrupted (${err.message}), resuming in ${delay}ms...`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+        if (data.signal?.aborted) return;
       }
-    } catch (err: any) {
-      if (err.name === 'AbortError') {
-        console.log('Stream aborted by user');
-        return;
-      }
-      console.error('Streaming error:', err);
-      data.onError(err.message || 'Streaming failed');
     }
   }
 
+  /**
+   * Stream an AI response over the shared chat WebSocket, falling back to SSE
+   * (askAIStream) when the socket can't connect. `regenerate` skips the answer cache.
+   * Image uploads always take the SSE route, which accepts multipart bodies.
+   */
+  async askAIRealtime(data: Parameters<ApiService['askAIStream']>[0]): Promise<void> {
+    if (data.image) return this.askAIStream(data);
+    try {
+      await this.chatSocket.connect(data.userId || 'anonymous');
+    } catch {
+      return this.askAIStream(data);
+    }
+    if (data.signal?.aborted) return;
+
+    const requestId = `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+    return new Promise<void>((resolve) => {
+      const finish = () => {
+        data.signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      // Stop button: cancel just this stream, the socket stays open for the others
+      const onAbort = () => {
+        this.chatSocket.cancel(requestId);
+        finish();
+      };
+      data.signal?.addEventListener('abort', onAbort);
+
+      this.chatSocket.start(
+        {
+          requestId,
+          prompt: data.message,
+          chatId: data.chatId,
+          userName: data.userName,
+          messageCount: data.messageCount,
+          conversationHistory: data.conversationHistory,
+          conversationSummary: data.conversationSummary,
+          memory: data.useMemory !== false,
+          memoryFolder: data.memoryScope?.folder,
+          memoryTag: data.memoryScope?.tag,
+          documentId: data.documentId,
+          requestType: data.type,
+          regenerate: data.regenerate,
+        },
+        (message) => {
+          switch (message.type) {
+            case 'chunk':
+              data.onChunk(message.text, message.cached);
+              break;
+            case 'tool':
+              if (message.call) data.onToolCall?.(message.call);
+              if (message.result) data.onToolResult?.(message.result);
+              break;
+            case 'image':
+              data.onImage?.(message.image);
+              break;
+            case 'done':
+              data.onComplete({ duration: message.duration || 0, cached: message.cached || false });
+              finish();
+              break;
+            case 'error':
+              data.onError(message.error);
+              finish();
+              break;
+            case 'cancel':
+              finish();
+              break;
+          }
+        }
+      );
+    });
+  }
+
+  /**
+   * Listen for server pushes on the chat WebSocket ("chat.persisted", "chat.title", "image.persisted").
+   * Opens the socket right away, so pushes arrive even while answers stream over SSE.
+   * Returns an unsubscribe function.
+   */
+  onServerEvent(userId: string, listener: (name: string, data: Record<string, any>) => void): () => void {
+    const unsubscribe = this.chatSocket.onEvent(listener);
+    this.chatSocket.connect(userId).catch(() => {}); // Without a socket, titles show on the next load
+    return unsubscribe;
+  }
+
   /**
    * Generate an image from prompt using the backend /ask-ai endpoint with type=image
    * Image generation can take 30-90 seconds, so we use a longer timeout
@@ -393,7 +797,7 @@ class ApiService {
     try {
       const response = await fetch(url, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
         body: JSON.stringify({ 
           prompt, 
           type: 'image',
@@ -440,7 +844,7 @@ class ApiService {
     prompt?: string;
     userId?: string;
     storeInMemory?: boolean;
-  }): Promise<{ success: boolean; extractedText?: string; error?: string }> {
+  }): Promise<{ success: boolean; extractedText?: string; documentId?: string; error?: string }> {
     // Use a longer timeout for document processing (3 minutes)
     const url = `${this.baseURL}/process-document`;
     const controller = new AbortController();
@@ -450,7 +854,7 @@ class ApiService {
     try {
       const resp = await fetch(url, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
         body: JSON.stringify({
           fileBase64: options.fileBase64,
           mimeType: options.mimeType,
@@ -490,7 +894,7 @@ class ApiService {
     try {
       const resp = await fetch(url, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
         body: JSON.stringify({ imageBase64: options.imageBase64, editPrompt: options.editPrompt, model: options.model }),
         signal: controller.signal,
       });
@@ -522,7 +926,7 @@ class ApiService {
     try {
       const resp = await fetch(url, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
         body: JSON.stringify({ imageBase64: options.imageBase64, maskBase64: options.maskBase64, editPrompt: options.editPrompt, model: options.model }),
         signal: controller.signal,
       });
@@ -553,41 +957,21 @@ class ApiService {
   }
 
   // Memory management
-  async storeMemory(data: {
-    content: string;
-    type?: 'conversation' | 'document' | 'note';
-    source?: string;
-    userId?: string;
-    tags?: string[];
-  }): Promise<ApiResponse<{ memoryId: string }>> {
+  async storeMemory(data: ApiRequestBody<'storeMemory'>): Promise<ApiResponse<{ memoryId: string }>> {
     return this.request('/store-memory', {
       method: 'POST',
       body: JSON.stringify(data),
     });
   }
 
-  async storeMemories(data: {
-    memories: Array<{
-      content: string;
-      type?: string;
-      source?: string;
-      userId?: string;
-      tags?: string[];
-    }>;
-  }): Promise<ApiResponse<{ memoryIds: string[] }>> {
+  async storeMemories(data: ApiRequestBody<'storeMemories'>): Promise<ApiResponse<{ memoryIds: string[] }>> {
     return this.request('/store-memories', {
       method: 'POST',
       body: JSON.stringify(data),
     });
   }
 
-  async searchMemories(data: {
-    query: string;
-    topK?: number;
-    threshold?: number;
-    userId?: string;
-    type?: string;
-  }): Promise<ApiResponse<{
+  async searchMemories(data: ApiRequestBody<'searchMemory'>): Promise<ApiResponse<{
     query: string;
     results: Array<{
       id: string;
@@ -615,6 +999,51 @@ class ApiService {
     });
   }
 
+  // Token usage with daily rollups; from/to accept YYYY-MM-DD (default: last 30 days)
+  async getUsage(userId: string, range: { from?: string; to?: string } = {}): Promise<ApiResult<'usage'>> {
+    const params = new URLSearchParams({ userId });
+    if (range.from) params.set('from', range.from);
+    if (range.to) params.set('to', range.to);
+    return this.requestRoute<'usage'>(`/usage?${params.toString()}`);
+  }
+
+  async getQuota(userId: string): Promise<ApiResult<'quota'>> {
+    return this.requestRoute<'quota'>(`/quota?userId=${encodeURIComponent(userId)}`);
+  }
+
+  async listApiKeys(): Promise<ApiResult<'listApiKeys'>> {
+    return this.requestRoute<'listApiKeys'>('/keys');
+  }
+
+  async createApiKey(options: ApiRequestBody<'createApiKey'>): Promise<ApiResult<'createApiKey'>> {
+    return this.requestRoute<'createApiKey'>('/keys', { method: 'POST', body: JSON.stringify(options) });
+  }
+
+  async revokeApiKey(keyId: string): Promise<ApiResult<'revokeApiKey'>> {
+    return this.requestRoute<'revokeApiKey'>(`/keys/${encodeURIComponent(keyId)}`, { method: 'DELETE' });
+  }
+
+  /** Publish a read-only snapshot of a chat; system (document context) messages are left out */
+  async shareChat(chatId: string, data: ApiRequestBody<'createChatShare'>): Promise<ApiResult<'createChatShare'>> {
+    return this.requestRoute<'createChatShare'>(`/chats/${encodeURIComponent(chatId)}/shares`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async listChatShares(): Promise<ApiResult<'listChatShares'>> {
+    return this.requestRoute<'listChatShares'>('/shares');
+  }
+
+  async revokeChatShare(token: string): Promise<ApiResult<'revokeChatShare'>> {
+    return this.requestRoute<'revokeChatShare'>(`/shares/${encodeURIComponent(token)}`, { method: 'DELETE' });
+  }
+
+  /** The snapshot behind a share link - works signed out */
+  async getSharedChat(token: string): Promise<ApiResult<'getSharedChat'>> {
+    return this.requestRoute<'getSharedChat'>(`/shared/${encodeURIComponent(token)}`);
+  }
+
   async getMemoryStats(): Promise<ApiResponse<{
     stats: {
       totalVectors: number;
@@ -638,7 +1067,7 @@ class ApiService {
     try {
       const resp = await fetch(`${this.baseURL}/ask-ai`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
         body: JSON.stringify(data),
         signal: controller.signal,
       });
@@ -681,19 +1110,131 @@ class ApiService {
    * End chat session - triggers batch persistence to Pinecone
    * Call this when user switches to a new chat
    */
-  async endChat(data: { userId: string; chatId: string }): Promise<{ success: boolean }> {
+  async endChat(data: ApiRequestBody<'endChat'>): Promise<{ success: boolean }> {
     return this.request('/end-chat', {
       method: 'POST',
       body: JSON.stringify(data),
     });
   }
 
+  /**
+   * Make the chat's active branch its history on the server (memory + Firestore).
+   * Call after an edit / regenerate starts a branch or the user switches branches.
+   */
+  async setActiveBranch(chatId: string, data: ApiRequestBody<'setActiveBranch'>): Promise<ApiResult<'setActiveBranch'>> {
+    return this.requestRoute<'setActiveBranch'>(`/chats/${encodeURIComponent(chatId)}/active-branch`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  /**
+   * Start a new chat from this chat's active path up to `data.messageId`. The server
+   * seeds the new chat's memory and returns a rolling summary of the carried history.
+   */
+  async forkChat(chatId: string, data: ApiRequestBody<'forkChat'>): Promise<ApiResult<'forkChat'>> {
+    return this.requestRoute<'forkChat'>(`/chats/${encodeURIComponent(chatId)}/fork`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  /**
+   * Download chats as one file (markdown, json, html or pdf). Rendering inlines images,
+   * so this gets the document-processing timeout.
+   */
+  async exportChats(data: ApiRequestBody<'exportChats'>): Promise<{ blob: Blob; fileName: string }> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 3 * 60 * 1000);
+
+    try {
+      const response = await fetch(`${this.baseURL}/chats/export`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+        body: JSON.stringify(data),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        let errMessage = `HTTP error! status: ${response.status}`;
+        try {
+          const maybeJson = await response.json();
+          if (maybeJson?.error) errMessage = String(maybeJson.error);
+        } catch {}
+        throw new Error(errMessage);
+      }
+
+      const fileName =
+        /filename="([^"]+)"/.exec(response.headers.get('Content-Disposition') || '')?.[1] ||
+        `nubiqai-chats.${data.format === 'markdown' ? 'md' : data.format}`;
+      return { blob: await response.blob(), fileName };
+    } catch (err: any) {
+      if (err.name === 'AbortError') throw new Error('Export timed out. Try exporting fewer chats.');
+      throw err;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Import a ChatGPT / Claude export zip or a JSON / Markdown transcript. With backfill,
+   * the chats are also added to long-term memory in the background (see getChatImportStatus).
+   */
+  async importChats(archive: File, userId: string, backfill: boolean): Promise<ApiResult<'importChats'>> {
+    const form = new FormData();
+    form.append('userId', userId);
+    form.append('backfill', String(backfill));
+    form.append('archive', archive, archive.name);
+    return this.requestRoute<'importChats'>('/chats/import', { method: 'POST', body: form });
+  }
+
+  async getChatImportStatus(importId: string, userId: string): Promise<ApiResult<'chatImportStatus'>> {
+    return this.requestRoute<'chatImportStatus'>(
+      `/chats/import/${encodeURIComponent(importId)}?userId=${encodeURIComponent(userId)}`
+    );
+  }
+
+  /**
+   * Rename a chat. Automatic titling leaves a renamed chat alone.
+   */
+  async renameChat(chatId: string, data: ApiRequestBody<'renameChat'>): Promise<ApiResult<'renameChat'>> {
+    return this.requestRoute<'renameChat'>(`/chats/${encodeURIComponent(chatId)}/title`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  /**
+   * File a chat: folder (null = none), tags, pinned. Synced to the user's other devices.
+   */
+  async updateChatOrganization(
+    chatId: string,
+    data: ApiRequestBody<'updateChatOrganization'>
+  ): Promise<ApiResult<'updateChatOrganization'>> {
+    return this.requestRoute<'updateChatOrganization'>(`/chats/${encodeURIComponent(chatId)}/organization`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async renameChatFolder(data: ApiRequestBody<'renameChatFolder'>): Promise<ApiResult<'renameChatFolder'>> {
+    return this.requestRoute<'renameChatFolder'>('/chats/folders/rename', { method: 'POST', body: JSON.stringify(data) });
+  }
+
+  /**
+   * Search chat messages by keyword and meaning, best matches first
+   */
+  async searchChats(userId: string, q: string, limit = 20): Promise<ApiResult<'searchChats'>> {
+    const params = new URLSearchParams({ userId, q, limit: String(limit) });
+    return this.requestRoute<'searchChats'>(`/chats/search?${params}`);
+  }
+
   /**
    * Save all chats at once (batch operation) - bypasses cooldown
    * Use for critical events: sign-out, app close, etc.
    * 🎯 NEW: Ensures all conversations + images are saved to Pinecone
    */
-  async saveAllChats(data: { userId: string; chatIds: string[] }): Promise<{ success: boolean; message?: string }> {
+  async saveAllChats(data: ApiRequestBody<'saveAllChats'>): Promise<{ success: boolean; message?: string }> {
     return this.request('/save-all-chats', {
       method: 'POST',
       body: JSON.stringify(data),
@@ -79,19 +79,29 @@ export interface ChatMessage {
   isConfirmation?: boolean;
   confirmationId?: string;
   attachments?: string[]; // 🎯 For file names and image URLs
+  parentId?: string | null; // 🌿 Message this one follows (null at the root); implied by order on the active path
   metadata?: {
     tokens?: number;
     duration?: number; // in seconds
     documentName?: string;
     documentType?: string;
     isDocumentContext?: boolean;
+    documentId?: string; // Server-side document cache id (carried into forks)
+    truncated?: boolean; // Generation was stopped before it finished
   };
 }
 
 export interface ChatHistory {
   id:string;
   title: string;
-  messages: ChatMessage[];
+  messages: ChatMessage[]; // 🌿 The active branch
+  branches?: ChatMessage[]; // 🌿 Messages of the other branches (earlier edits and answers)
+  forkedFrom?: { chatId: string; messageId: string }; // 🍴 Chat (and last message) this one was forked from
+  rollingSummary?: { summary: string; keyFacts: string[] } | null; // 🍴 Summary of the history carried into a fork
+  importedFrom?: { source: string; importedAt: number } | null; // 📥 Brought in from another assistant's export
+  folder?: string | null; // 📁 User-defined folder (synced through the server)
+  tags?: string[]; // 🏷️ User-defined labels
+  pinnedAt?: number | null; // 📌 Pinned chats come first, most recently pinned on top
   createdAt: Date;
   updatedAt: Date;
   archived?: boolean;
@@ -122,7 +132,7 @@ export interface TeamMember {
   avatar?: string;
 }
 
-export type NavigationSection = 'home' | 'history' | 'workspace' | 'settings';
+export type NavigationSection = 'home' | 'history' | 'workspace' | 'settings' | 'settings-usage' | 'settings-api-keys';
 
 export type SettingsSection = 'account' | 'workspace-settings' | 'subscription' | 'preferences';
 
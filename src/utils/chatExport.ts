@@ -0,0 +1,74 @@
+// chatExport.ts - Download chats as Markdown, JSON, HTML or PDF
+//
+// The server renders the file from the chats as they are here (it only keeps recent
+// turns). Images that only live in IndexedDB are sent along as data: URLs so the
+// HTML and PDF exports can embed them.
+
+import type { ChatHistory as Chat, ChatMessage as Message } from '../types';
+import { apiService } from '../services/api';
+import type { ExportChat, ExportFormat } from '../services/api';
+import { imageStorageService } from '../services/imageStorageService';
+
+export type { ExportFormat };
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  markdown: 'Markdown',
+  json: 'JSON',
+  html: 'HTML',
+  pdf: 'PDF',
+};
+
+// Attachments are URLs, but images kept out of localStorage are IndexedDB placeholders
+async function resolveAttachment(attachment: unknown, message: Message): Promise<string | null> {
+  if (typeof attachment === 'string') return attachment;
+  const placeholder = attachment as { type?: string; messageId?: string; url?: string } | null;
+  if (placeholder?.type === 'indexeddb') {
+    const cached = await imageStorageService.getImage(placeholder.messageId || message.id).catch(() => null);
+    return cached?.imageData ?? null;
+  }
+  return placeholder?.url ?? null;
+}
+
+type ConversationMessage = Message & { role: 'user' | 'assistant' };
+
+// System messages only carry attached document text for the model; exports leave them out
+const isConversationMessage = (message: Message): message is ConversationMessage => message.role !== 'system';
+
+async function toExportMessage(message: ConversationMessage): Promise<ExportChat['messages'][number]> {
+  const attachments = message.attachments
+    ? (await Promise.all(message.attachments.map(attachment => resolveAttachment(attachment, message)))).filter(
+        (url): url is string => !!url
+      )
+    : undefined;
+  return { ...message, timestamp: message.timestamp.getTime(), attachments };
+}
+
+async function toExportChat(chat: Chat): Promise<ExportChat> {
+  return {
+    ...chat,
+    createdAt: chat.createdAt.getTime(),
+    updatedAt: chat.updatedAt.getTime(),
+    messages: await Promise.all(chat.messages.filter(isConversationMessage).map(toExportMessage)),
+    branches: chat.branches && (await Promise.all(chat.branches.filter(isConversationMessage).map(toExportMessage))),
+  };
+}
+
+/**
+ * Render chats on the server and save the file
+ */
+export async function downloadChats(chats: Chat[], userId: string, format: ExportFormat): Promise<void> {
+  const { blob, fileName } = await apiService.exportChats({
+    userId,
+    format,
+    chats: await Promise.all(chats.map(toExportChat)),
+  });
+
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,58 @@
+// chatOrganization.ts - Folders, tags and pinning
+//
+// Stored on the chat's server document (POST /api/chats/:chatId/organization) so all
+// devices share them. Folders exist while a chat is filed in them.
+
+import type { ChatHistory as Chat } from '../types';
+
+export interface ChatOrganizationChanges {
+  folder?: string | null;
+  tags?: string[];
+  pinned?: boolean;
+}
+
+/**
+ * Memory a new chat recalls: every chat, or only a folder's / a tag's
+ */
+export interface MemoryScope {
+  folder?: string;
+  tag?: string;
+}
+
+/**
+ * The chat with the changes applied (optimistically; the server echoes the result)
+ */
+export function applyOrganization(chat: Chat, changes: ChatOrganizationChanges): Chat {
+  return {
+    ...chat,
+    folder: changes.folder !== undefined ? changes.folder : chat.folder,
+    tags: changes.tags ?? chat.tags,
+    pinnedAt: changes.pinned === undefined ? chat.pinnedAt : changes.pinned ? chat.pinnedAt ?? Date.now() : null,
+  };
+}
+
+const sortedUnique = (values: string[]) =>
+  Array.from(new Set(values)).sort((a, b) => a.localeCompare(b, undefined, { sensitivity: 'base' }));
+
+export const listFolders = (chats: Chat[]) => sortedUnique(chats.flatMap(chat => (chat.folder ? [chat.folder] : [])));
+
+export const listTags = (chats: Chat[]) => sortedUnique(chats.flatMap(chat => chat.tags ?? []));
+
+/**
+ * "work, Q3 ,work" -> ["work", "Q3"]
+ */
+export function parseTags(input: string): string[] {
+  const tags = input
+    .split(',')
+    .map(tag => tag.trim())
+    .filter(Boolean);
+  return tags.filter((tag, i) => tags.findIndex(t => t.toLowerCase() === tag.toLowerCase()) === i);
+}
+
+/**
+ * Pinned chats first (latest pin on top), then in the order given
+ */
+export function pinnedFirst(chats: Chat[]): Chat[] {
+  const pinned = chats.filter(chat => chat.pinnedAt).sort((a, b) => (b.pinnedAt ?? 0) - (a.pinnedAt ?? 0));
+  return [...pinned, ...chats.filter(chat => !chat.pinnedAt)];
+}
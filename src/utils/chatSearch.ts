@@ -0,0 +1,52 @@
+// chatSearch.ts - Server chat search results on the client
+//
+// Result message ids are the server's (Firestore) ids, which only match the client's
+// for chats loaded from the server. Otherwise the message is found by its text, then
+// by the closest timestamp.
+
+import type { ChatMessage as Message } from '../types';
+import type { ChatSearchResult } from '../services/api';
+
+export type { ChatSearchResult };
+
+export interface SnippetPart {
+  text: string;
+  highlighted: boolean;
+}
+
+/**
+ * The snippet split into plain and matched parts, ready for <mark>
+ */
+export function snippetParts(result: ChatSearchResult): SnippetPart[] {
+  const parts: SnippetPart[] = [];
+  let cursor = 0;
+  for (const [start, end] of result.highlights) {
+    if (start > cursor) parts.push({ text: result.snippet.slice(cursor, start), highlighted: false });
+    parts.push({ text: result.snippet.slice(start, end), highlighted: true });
+    cursor = end;
+  }
+  if (cursor < result.snippet.length) parts.push({ text: result.snippet.slice(cursor), highlighted: false });
+  return parts;
+}
+
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+
+/**
+ * The message a search result points at in a chat as the client holds it
+ */
+export function findSearchMatch(messages: Message[], result: ChatSearchResult): Message | undefined {
+  const byId = messages.find(message => message.id === result.messageId);
+  if (byId) return byId;
+
+  const sameRole = messages.filter(message => message.role === result.role);
+  const excerpt = normalize(result.snippet.replace(/^…|…$/g, ''));
+  const byText = excerpt && sameRole.find(message => normalize(message.content).includes(excerpt));
+  if (byText) return byText;
+
+  let closest: Message | undefined;
+  for (const message of sameRole) {
+    const distance = Math.abs(message.timestamp.getTime() - result.timestamp);
+    if (!closest || distance < Math.abs(closest.timestamp.getTime() - result.timestamp)) closest = message;
+  }
+  return closest;
+}
@@ -0,0 +1,141 @@
+// messageTree.ts - Chats as message trees: edits and regenerated answers become branches
+//
+// `chat.messages` is the active branch, read by everything that shows or sends a chat.
+// Every other message lives in `chat.branches` and names the message it follows with
+// `parentId`. On the active path the parent is simply the previous message, so
+// messages appended while chatting need no link.
+
+import type { ChatHistory as Chat, ChatMessage as Message } from '../types';
+import type { ChatTreeMessage } from '../services/api';
+
+export interface BranchInfo {
+  position: number; // 1-based, oldest version first
+  total: number;
+  siblingIds: string[];
+}
+
+const byTime = (a: Message, b: Message) => a.timestamp.getTime() - b.timestamp.getTime();
+
+// The active path with explicit parent links
+function linkPath(messages: Message[]): Message[] {
+  return messages.map((message, index) => ({
+    ...message,
+    parentId: index === 0 ? null : messages[index - 1].id,
+  }));
+}
+
+/**
+ * Versions of each message on the active path that has more than one: the other
+ * messages with the same parent and role ("< 2/3 >")
+ */
+export function getBranchInfo(chat: Chat): Map<string, BranchInfo> {
+  const info = new Map<string, BranchInfo>();
+  if (!chat.branches?.length) return info;
+
+  const path = linkPath(chat.messages);
+  const byParent = new Map<string | null, Message[]>();
+  for (const message of [...path, ...chat.branches]) {
+    const parentId = message.parentId ?? null;
+    byParent.set(parentId, [...(byParent.get(parentId) ?? []), message]);
+  }
+
+  for (const message of path) {
+    if (message.role === 'system') continue;
+    const siblings = (byParent.get(message.parentId ?? null) ?? [])
+      .filter((sibling) => sibling.role === message.role)
+      .sort(byTime);
+    if (siblings.length < 2) continue;
+    info.set(message.id, {
+      position: siblings.findIndex((sibling) => sibling.id === message.id) + 1,
+      total: siblings.length,
+      siblingIds: siblings.map((sibling) => sibling.id),
+    });
+  }
+  return info;
+}
+
+/**
+ * Move a message and everything after it into `branches`. With a replacement (an
+ * edited prompt) the replacement takes its place; without one (regenerate) the path
+ * ends before it and the next answer becomes its sibling.
+ */
+export function startBranch(chat: Chat, messageId: string, replacement?: Message): Chat {
+  const index = chat.messages.findIndex((message) => message.id === messageId);
+  if (index === -1) return chat;
+
+  const path = linkPath(chat.messages);
+  const kept = chat.messages.slice(0, index);
+  return {
+    ...chat,
+    messages: replacement ? [...kept, { ...replacement, parentId: path[index].parentId }] : kept,
+    branches: [...(chat.branches ?? []), ...path.slice(index)],
+  };
+}
+
+/**
+ * Show another version of a message: the path continues from that sibling, following
+ * the most recent reply at each step. The current continuation moves into `branches`.
+ */
+export function switchBranch(chat: Chat, messageId: string, siblingId: string): Chat {
+  const index = chat.messages.findIndex((message) => message.id === messageId);
+  const target = chat.branches?.find((message) => message.id === siblingId);
+  if (index === -1 || !target) return chat;
+
+  let rest = [
+    ...(chat.branches ?? []).filter((message) => message.id !== siblingId),
+    ...linkPath(chat.messages).slice(index),
+  ];
+  const continuation = [target];
+  for (;;) {
+    const last = continuation[continuation.length - 1];
+    const replies = rest.filter((message) => message.parentId === last.id);
+    if (replies.length === 0) break;
+    const latest = replies.reduce((a, b) => (byTime(b, a) > 0 ? b : a));
+    continuation.push(latest);
+    rest = rest.filter((message) => message.id !== latest.id);
+  }
+
+  return {
+    ...chat,
+    messages: [...chat.messages.slice(0, index), ...continuation],
+    branches: rest,
+  };
+}
+
+/**
+ * The tree as the server stores it. Document context (system) messages stay on this
+ * device, so links through them point at their parent instead; base64 previews and
+ * placeholders are dropped from attachments.
+ */
+export function toStoredTree(chat: Chat): {
+  messages: ChatTreeMessage[];
+  branches: Array<ChatTreeMessage & { parentId: string | null }>;
+} {
+  const all = [...linkPath(chat.messages), ...(chat.branches ?? [])];
+  const parents = new Map(all.map((message) => [message.id, message.parentId ?? null]));
+  const roles = new Map(all.map((message) => [message.id, message.role]));
+
+  const resolveParent = (parentId: string | null): string | null => {
+    while (parentId && roles.get(parentId) === 'system') parentId = parents.get(parentId) ?? null;
+    return parentId;
+  };
+
+  const toStored = (message: Message & { role: 'user' | 'assistant' }): ChatTreeMessage => {
+    const attachments = message.attachments?.filter((url) => typeof url === 'string' && url.startsWith('https://'));
+    return {
+      id: message.id,
+      role: message.role,
+      content: message.content,
+      timestamp: message.timestamp.getTime(),
+      ...(attachments?.length ? { attachments: attachments.slice(0, 10) } : {}),
+    };
+  };
+  const isStored = (message: Message): message is Message & { role: 'user' | 'assistant' } => message.role !== 'system';
+
+  return {
+    messages: chat.messages.filter(isStored).map(toStored),
+    branches: (chat.branches ?? [])
+      .filter(isStored)
+      .map((message) => ({ ...toStored(message), parentId: resolveParent(message.parentId ?? null) })),
+  };
+}